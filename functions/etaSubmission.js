@@ -0,0 +1,123 @@
+const functions = require('firebase-functions')
+const admin = require('firebase-admin')
+
+// Initialize Firebase Admin if not already initialized
+if (!admin.apps.length) {
+  admin.initializeApp()
+}
+
+const db = admin.firestore()
+
+// بيئة التجربة الافتراضية للمنظومة إذا لم تحدد في إعدادات النظام
+const DEFAULT_IDENTITY_URL = 'https://id.preprod.eta.gov.eg'
+const DEFAULT_API_BASE_URL = 'https://api.preprod.invoicing.eta.gov.eg'
+const MAX_DOCUMENTS_PER_SUBMISSION = 100
+
+// رمز الدخول يحفظ بين الاستدعاءات على نفس النسخة حتى انتهائه
+let cachedToken = null
+
+/**
+ * بيانات دخول ERP لا تخرج من الخادم:
+ * firebase functions:config:set eta.client_id="..." eta.client_secret="..."
+ */
+function getCredentials() {
+  const config = functions.config().eta || {}
+  if (!config.client_id || !config.client_secret) {
+    throw new functions.https.HttpsError('failed-precondition', 'بيانات دخول منظومة الفاتورة الإلكترونية غير مضبوطة على الخادم')
+  }
+  return { clientId: config.client_id, clientSecret: config.client_secret }
+}
+
+async function getAccessToken(identityUrl) {
+  if (cachedToken && cachedToken.identityUrl === identityUrl && Date.now() < cachedToken.expiresAt) {
+    return cachedToken.accessToken
+  }
+
+  const { clientId, clientSecret } = getCredentials()
+  const response = await fetch(`${identityUrl.replace(/\/$/, '')}/connect/token`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({
+      grant_type: 'client_credentials',
+      client_id: clientId,
+      client_secret: clientSecret
+    }).toString()
+  })
+
+  if (!response.ok) {
+    throw new functions.https.HttpsError('unavailable', `فشل تسجيل الدخول إلى منظومة الفاتورة الإلكترونية (${response.status})`)
+  }
+
+  const token = await response.json()
+  cachedToken = {
+    identityUrl,
+    accessToken: token.access_token,
+    // تجديد الرمز قبل انتهائه بدقيقة
+    expiresAt: Date.now() + ((Number(token.expires_in) || 3600) - 60) * 1000
+  }
+  return cachedToken.accessToken
+}
+
+/**
+ * إرسال دفعة مستندات إلى منظومة الفاتورة الإلكترونية نيابة عن المدير
+ * المستندات تبنى وتتحقق في التطبيق، والخادم يحمل بيانات الدخول فقط
+ */
+exports.submitEtaDocuments = functions.https.onCall(async (data, context) => {
+  if (!context.auth) {
+    throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated')
+  }
+
+  const userDoc = await db.collection('users').doc(context.auth.uid).get()
+  const role = userDoc.exists ? userDoc.data().role : null
+  if (role !== 'admin' && role !== 'super_admin') {
+    throw new functions.https.HttpsError('permission-denied', 'إرسال الفواتير الإلكترونية متاح للمديرين فقط')
+  }
+
+  const documents = data && data.documents
+  if (!Array.isArray(documents) || documents.length === 0) {
+    throw new functions.https.HttpsError('invalid-argument', 'لم يتم اختيار أي فاتورة')
+  }
+  if (documents.length > MAX_DOCUMENTS_PER_SUBMISSION) {
+    throw new functions.https.HttpsError('invalid-argument', `الحد الأقصى ${MAX_DOCUMENTS_PER_SUBMISSION} فاتورة في الدفعة الواحدة`)
+  }
+
+  const settingsDoc = await db.collection('system_settings').doc('main').get()
+  const eta = (settingsDoc.exists && settingsDoc.data().integrations && settingsDoc.data().integrations.eta) || {}
+  if (!eta.enabled) {
+    throw new functions.https.HttpsError('failed-precondition', 'الفاتورة الإلكترونية غير مفعلة في إعدادات النظام')
+  }
+
+  const accessToken = await getAccessToken(eta.identityUrl || DEFAULT_IDENTITY_URL)
+  const response = await fetch(`${(eta.apiBaseUrl || DEFAULT_API_BASE_URL).replace(/\/$/, '')}/api/v1.0/documentsubmissions`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${accessToken}`
+    },
+    body: JSON.stringify({ documents })
+  })
+
+  const body = await response.json().catch(() => ({}))
+  if (!response.ok) {
+    console.error('❌ ETA rejected submission:', response.status, body)
+    throw new functions.https.HttpsError(
+      'aborted',
+      (body.error && (body.error.message || body.error)) || `رفضت المنظومة الدفعة (${response.status})`
+    )
+  }
+
+  return {
+    submissionId: body.submissionId || body.submissionUUID || '',
+    acceptedDocuments: (body.acceptedDocuments || []).map(accepted => ({
+      uuid: accepted.uuid,
+      longId: accepted.longId,
+      internalId: accepted.internalId
+    })),
+    rejectedDocuments: (body.rejectedDocuments || []).map(rejected => ({
+      internalId: rejected.internalId,
+      error: (rejected.error && rejected.error.details && rejected.error.details.map(detail => detail.message).join(' - '))
+        || (rejected.error && rejected.error.message)
+        || 'مرفوض'
+    }))
+  }
+})
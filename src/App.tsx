@@ -24,6 +24,10 @@ import { DocumentTrackingPage } from './pages/documents/DocumentTrackingPage'
 import { CustomerInquiryPage } from './pages/customer-inquiry/CustomerInquiryPage'
 import { ReportsPage } from './pages/reports/ReportsPage'
 import AdvancedReportsPage from './pages/reports/AdvancedReportsPage'
+import TaxReportPage from './pages/reports/TaxReportPage'
+import InventoryAgingPage from './pages/reports/InventoryAgingPage'
+import SuggestedPurchasePage from './pages/reports/SuggestedPurchasePage'
+import EInvoicesPage from './pages/reports/EInvoicesPage'
 import { SimpleSettingsPage } from './pages/settings/SimpleSettingsPage'
 import { UserManagementPage } from './pages/admin/UserManagementPage'
 
@@ -32,6 +36,9 @@ import { useUserData } from './hooks/useUserData'
 import { initializeWarehouses } from './utils/initializeWarehouses'
 import { useNotifications } from './hooks/useNotifications'
 import { pushNotificationManager } from './lib/pushNotifications'
+import { ReservationService } from './lib/reservations'
+import { InventoryAgingService } from './lib/inventoryAging'
+import { isAdmin, isSuperAdmin } from './lib/utils'
 
 // PWA Support
 import { offlineStorage } from './lib/offlineStorage'
@@ -73,6 +80,16 @@ function App() {
     if (userData) {
       // Initialize warehouses
       initializeWarehouses()
+
+      // Release reservations whose expiry date has passed
+      if (userData.role !== 'agent') {
+        ReservationService.expireLapsedReservations()
+      }
+
+      // Daily slow-moving stock alert for admins
+      if (isAdmin(userData.role) || isSuperAdmin(userData.role)) {
+        InventoryAgingService.runScheduledAlert()
+      }
       
       // Initialize Push Notifications (without auto-requesting permission)
       pushNotificationManager.initialize().then(() => {
@@ -331,6 +348,10 @@ function App() {
             {/* Reports */}
             <Route path="/reports" element={<ReportsPage />} />
             <Route path="/reports/advanced" element={<AdvancedReportsPage />} />
+            <Route path="/reports/tax" element={<TaxReportPage />} />
+            <Route path="/reports/aging" element={<InventoryAgingPage />} />
+            <Route path="/reports/reorder" element={<SuggestedPurchasePage />} />
+            <Route path="/reports/e-invoices" element={<EInvoicesPage />} />
             
             {/* Settings */}
             <Route path="/settings/*" element={<SimpleSettingsPage />} />
@@ -0,0 +1,129 @@
+import { Input } from '@/components/ui/Input'
+import { Label } from '@/components/ui/Label'
+import { CreateInventoryItemForm } from '@/types'
+import {
+  VehicleCatalog,
+  activeBrands,
+  activeModels,
+  findCatalogBrand,
+  findCatalogModel
+} from '@/lib/vehicleCatalog'
+
+export type CatalogFieldChanges = Partial<Pick<CreateInventoryItemForm,
+  'type' | 'brand' | 'model' | 'color' | 'countryOfOrigin' | 'purchasePrice' | 'salePrice'>>
+
+interface CatalogVehicleFieldsProps {
+  catalog: VehicleCatalog
+  brand: string
+  model: string
+  color: string
+  onChange: (changes: CatalogFieldChanges) => void
+  applyPriceDefaults?: boolean // عند الإضافة فقط، التعديل لا يغير أسعار الصنف
+}
+
+// اختيار الماركة والموديل واللون من الكتالوج، واختيار الموديل يملأ النوع وبلد المنشأ والأسعار الافتراضية
+export function CatalogVehicleFields({ catalog, brand, model, color, onChange, applyPriceDefaults }: CatalogVehicleFieldsProps) {
+  const selectedBrand = findCatalogBrand(catalog, brand)
+  const selectedModel = selectedBrand ? findCatalogModel(catalog, selectedBrand.id, model) : undefined
+  const brandOptions = activeBrands(catalog)
+  const modelOptions = selectedBrand ? activeModels(catalog, selectedBrand.id) : []
+
+  const selectBrand = (brandId: string) => {
+    const next = catalog.brands.find(entry => entry.id === brandId)
+    onChange({
+      brand: next?.name || '',
+      model: '',
+      color: '',
+      ...(next?.countryOfOrigin ? { countryOfOrigin: next.countryOfOrigin } : {})
+    })
+  }
+
+  const selectModel = (modelId: string) => {
+    const next = catalog.models.find(entry => entry.id === modelId)
+    if (!next) {
+      onChange({ model: '', color: '' })
+      return
+    }
+
+    onChange({
+      model: next.name,
+      type: next.type,
+      color: next.colors.length === 1 ? next.colors[0] : '',
+      ...(applyPriceDefaults && next.defaultPurchasePrice ? { purchasePrice: next.defaultPurchasePrice } : {}),
+      ...(applyPriceDefaults && next.defaultSalePrice ? { salePrice: next.defaultSalePrice } : {})
+    })
+  }
+
+  return (
+    <>
+      {/* Brand */}
+      <div className="space-y-2">
+        <Label htmlFor="catalogBrand" required>الماركة</Label>
+        <select
+          id="catalogBrand"
+          value={selectedBrand?.id || ''}
+          onChange={(e) => selectBrand(e.target.value)}
+          className="form-input w-full input-rtl arabic-text"
+        >
+          <option value="">اختر الماركة</option>
+          {brandOptions.map(entry => (
+            <option key={entry.id} value={entry.id}>{entry.name}</option>
+          ))}
+        </select>
+        {brand && !selectedBrand && (
+          <p className="text-xs text-orange-600 arabic-text">القيمة الحالية "{brand}" غير موجودة في الكتالوج</p>
+        )}
+      </div>
+
+      {/* Model */}
+      <div className="space-y-2">
+        <Label htmlFor="catalogModel" required>الموديل</Label>
+        <select
+          id="catalogModel"
+          value={selectedModel?.id || ''}
+          onChange={(e) => selectModel(e.target.value)}
+          className="form-input w-full input-rtl arabic-text"
+          disabled={!selectedBrand}
+        >
+          <option value="">اختر الموديل</option>
+          {modelOptions.map(entry => (
+            <option key={entry.id} value={entry.id}>
+              {entry.name}{entry.engineCc ? ` (${entry.engineCc} cc)` : ''}
+            </option>
+          ))}
+        </select>
+        {model && !selectedModel && (
+          <p className="text-xs text-orange-600 arabic-text">القيمة الحالية "{model}" غير موجودة في الكتالوج</p>
+        )}
+        {selectedModel?.imageUrl && (
+          <img src={selectedModel.imageUrl} alt={selectedModel.name} className="h-20 rounded border object-contain" />
+        )}
+      </div>
+
+      {/* Color */}
+      <div className="space-y-2">
+        <Label htmlFor="catalogColor" required>اللون</Label>
+        {selectedModel && selectedModel.colors.length > 0 ? (
+          <select
+            id="catalogColor"
+            value={selectedModel.colors.includes(color) ? color : ''}
+            onChange={(e) => onChange({ color: e.target.value })}
+            className="form-input w-full input-rtl arabic-text"
+          >
+            <option value="">اختر اللون</option>
+            {selectedModel.colors.map(entry => (
+              <option key={entry} value={entry}>{entry}</option>
+            ))}
+          </select>
+        ) : (
+          <Input
+            id="catalogColor"
+            value={color}
+            onChange={(e) => onChange({ color: e.target.value })}
+            placeholder="مثال: أحمر، أزرق"
+          />
+        )}
+      </div>
+    </>
+  )
+}
@@ -0,0 +1,49 @@
+import { forwardRef } from 'react'
+import QRCode from 'react-qr-code'
+
+import { inventoryItemUrl, LabelFormat, labelFormats } from '@/lib/inventoryLabels'
+import { InventoryItem } from '@/types'
+
+interface InventoryLabelSheetProps {
+  items: InventoryItem[]
+  format: LabelFormat
+}
+
+// صفحة ملصقات جاهزة للطباعة، مقاس الصفحة يحدد بـ @page حسب نوع الورق أو الطابعة
+export const InventoryLabelSheet = forwardRef<HTMLDivElement, InventoryLabelSheetProps>(({ items, format }, ref) => {
+  const options = labelFormats[format]
+
+  return (
+    <div ref={ref} dir="rtl">
+      <style>{`
+        @page { size: ${options.pageSize}; margin: ${format === 'a4' ? '10mm 7mm' : '1mm'}; }
+        .inventory-label { break-inside: avoid; page-break-inside: avoid; }
+        ${format !== 'a4' ? '.inventory-label { page-break-after: always; }' : ''}
+      `}</style>
+      <div
+        style={{
+          display: 'grid',
+          gridTemplateColumns: `repeat(${options.columns}, ${options.labelWidth})`,
+          gap: format === 'a4' ? '0 2.5mm' : 0
+        }}
+      >
+        {items.map(item => (
+          <div
+            key={item.id}
+            className="inventory-label flex items-center gap-2 border border-dashed border-gray-300 p-1 overflow-hidden bg-white"
+            style={{ width: options.labelWidth, height: options.labelHeight }}
+          >
+            <QRCode value={inventoryItemUrl(item.id)} size={options.qrSize} />
+            <div className="flex-1 min-w-0 text-[9pt] leading-tight text-black">
+              <p className="font-bold truncate">{item.brand} {item.model}</p>
+              {item.color && <p className="truncate">{item.color}</p>}
+              <p className="font-mono text-[8pt] break-all">{item.chassisNumber}</p>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+})
+
+InventoryLabelSheet.displayName = 'InventoryLabelSheet'
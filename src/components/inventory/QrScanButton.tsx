@@ -0,0 +1,95 @@
+import { useEffect, useRef, useState } from 'react'
+import { QrCode, X } from 'lucide-react'
+import { toast } from 'sonner'
+
+import { Button } from '@/components/ui/Button'
+
+// واجهة قراءة الباركود المدمجة في المتصفح (Chrome على أندرويد وغيره)، غير معرفة في أنواع TypeScript
+interface DetectedBarcode {
+  rawValue: string
+}
+
+interface BarcodeDetectorInstance {
+  detect: (source: HTMLVideoElement) => Promise<DetectedBarcode[]>
+}
+
+type BarcodeDetectorConstructor = new (options: { formats: string[] }) => BarcodeDetectorInstance
+
+interface QrScanButtonProps {
+  onScan: (text: string) => void
+}
+
+// قراءة ملصق QR بكاميرا الجهاز، وقارئ الباركود اليدوي يكتب في خانة البحث مباشرة
+export function QrScanButton({ onScan }: QrScanButtonProps) {
+  const [open, setOpen] = useState(false)
+  const videoRef = useRef<HTMLVideoElement>(null)
+
+  useEffect(() => {
+    if (!open) return
+
+    const Detector = (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector
+    if (!Detector) {
+      toast.error('المتصفح لا يدعم قراءة QR بالكاميرا، استخدم قارئ الباركود')
+      setOpen(false)
+      return
+    }
+
+    let stream: MediaStream | null = null
+    let timer: ReturnType<typeof setInterval> | null = null
+    let stopped = false
+
+    const start = async () => {
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } })
+        if (stopped || !videoRef.current) return
+        videoRef.current.srcObject = stream
+        await videoRef.current.play()
+
+        const detector = new Detector({ formats: ['qr_code'] })
+        timer = setInterval(async () => {
+          if (!videoRef.current) return
+          const codes = await detector.detect(videoRef.current).catch(() => [])
+          if (codes.length > 0 && !stopped) {
+            stopped = true
+            setOpen(false)
+            onScan(codes[0].rawValue)
+          }
+        }, 300)
+      } catch (error) {
+        console.error('Error starting QR scanner:', error)
+        toast.error('تعذر تشغيل الكاميرا')
+        setOpen(false)
+      }
+    }
+
+    start()
+
+    return () => {
+      stopped = true
+      if (timer) clearInterval(timer)
+      stream?.getTracks().forEach(track => track.stop())
+    }
+  }, [open])
+
+  return (
+    <>
+      <Button type="button" variant="outline" onClick={() => setOpen(true)} title="قراءة ملصق QR">
+        <QrCode className="h-4 w-4" />
+      </Button>
+
+      {open && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg max-w-md w-full p-4 space-y-3">
+            <div className="flex items-center justify-between">
+              <h3 className="font-medium arabic-text">وجّه الكاميرا إلى ملصق الصنف</h3>
+              <Button type="button" variant="ghost" size="sm" onClick={() => setOpen(false)}>
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+            <video ref={videoRef} className="w-full rounded-lg bg-black" muted playsInline />
+          </div>
+        </div>
+      )}
+    </>
+  )
+}
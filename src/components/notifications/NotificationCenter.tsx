@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react'
-import { Bell, X, Check, Eye, Trash2, Settings, FileText, Package, DollarSign, AlertCircle } from 'lucide-react'
+import { Bell, X, Check, Eye, Trash2, Settings, FileText, Package, DollarSign, AlertCircle, Tag } from 'lucide-react'
 import { useAuthState } from 'react-firebase-hooks/auth'
 import { useNavigate } from 'react-router-dom'
 import { toast } from 'sonner'
@@ -137,6 +137,9 @@ export function NotificationCenter({ isOpen, onClose }: NotificationCenterProps)
       case NotificationType.PAYMENT_ADDED:
       case NotificationType.PAYMENT_DEDUCTED:
         return <DollarSign className="h-5 w-5 text-orange-600" />
+      case NotificationType.PRICE_APPROVAL_REQUESTED:
+      case NotificationType.PRICE_APPROVAL_DECIDED:
+        return <Tag className="h-5 w-5 text-red-600" />
       case NotificationType.SYSTEM_UPDATE:
       case NotificationType.MAINTENANCE:
         return <Settings className="h-5 w-5 text-gray-600" />
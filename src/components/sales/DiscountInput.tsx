@@ -0,0 +1,50 @@
+import { useState } from 'react'
+
+import { Input } from '@/components/ui/Input'
+import { discountTypeLabels } from '@/lib/pricing'
+import { Discount, DiscountType } from '@/types'
+
+interface DiscountInputProps {
+  id: string
+  value?: Discount
+  onChange: (discount: Discount | undefined) => void
+}
+
+// خصم بمبلغ أو بنسبة مئوية، القيمة الفارغة تلغي الخصم
+export function DiscountInput({ id, value, onChange }: DiscountInputProps) {
+  // نوع الخصم يحفظ محلياً حتى يمكن اختياره قبل إدخال القيمة
+  const [selectedType, setSelectedType] = useState<DiscountType>(value?.type || 'amount')
+  const type = value?.type || selectedType
+
+  return (
+    <div className="flex gap-2">
+      <Input
+        id={id}
+        type="number"
+        min="0"
+        max={type === 'percent' ? 100 : undefined}
+        step="0.01"
+        value={value?.value ?? ''}
+        onChange={(e) => {
+          const discountValue = parseFloat(e.target.value)
+          onChange(isNaN(discountValue) || discountValue <= 0 ? undefined : { type, value: discountValue })
+        }}
+        placeholder="الخصم"
+        className="input-rtl flex-1"
+      />
+      <select
+        value={type}
+        onChange={(e) => {
+          const discountType = e.target.value as DiscountType
+          setSelectedType(discountType)
+          if (value) onChange({ ...value, type: discountType })
+        }}
+        className="form-input w-28 input-rtl arabic-text"
+      >
+        {(Object.keys(discountTypeLabels) as DiscountType[]).map(discountType => (
+          <option key={discountType} value={discountType}>{discountTypeLabels[discountType]}</option>
+        ))}
+      </select>
+    </div>
+  )
+}
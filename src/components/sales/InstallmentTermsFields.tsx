@@ -0,0 +1,131 @@
+import { format } from 'date-fns'
+import { CalendarClock } from 'lucide-react'
+
+import { Input } from '@/components/ui/Input'
+import { Label } from '@/components/ui/Label'
+import { buildInstallmentSchedule, validateInstallmentTerms } from '@/lib/installments'
+import { formatCurrency, formatDate } from '@/lib/utils'
+import { InstallmentTerms } from '@/types'
+
+interface InstallmentTermsFieldsProps {
+  salePrice: number
+  value: InstallmentTerms
+  onChange: (terms: InstallmentTerms) => void
+}
+
+export function InstallmentTermsFields({ salePrice, value, onChange }: InstallmentTermsFieldsProps) {
+  const update = (changes: Partial<InstallmentTerms>) => onChange({ ...value, ...changes })
+
+  const validationError = salePrice > 0 ? validateInstallmentTerms(salePrice, value) : null
+  const schedule = salePrice > 0 && !validationError ? buildInstallmentSchedule(salePrice, value) : null
+  const lastInstallment = schedule?.installments[schedule.installments.length - 1]
+
+  return (
+    <div className="space-y-4 p-4 border border-blue-200 bg-blue-50 rounded-lg">
+      <div className="flex items-center gap-2">
+        <CalendarClock className="h-5 w-5 text-blue-600" />
+        <h4 className="font-medium text-blue-900 arabic-text">شروط التقسيط</h4>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="downPayment" required>المقدم</Label>
+          <Input
+            id="downPayment"
+            type="number"
+            min="0"
+            step="0.01"
+            value={isNaN(value.downPayment) ? '' : value.downPayment}
+            onChange={(e) => update({ downPayment: parseFloat(e.target.value) })}
+            className="input-rtl"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="installmentMonths" required>عدد الأشهر</Label>
+          <Input
+            id="installmentMonths"
+            type="number"
+            min="1"
+            step="1"
+            value={isNaN(value.months) ? '' : value.months}
+            onChange={(e) => update({ months: parseInt(e.target.value) })}
+            className="input-rtl"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="interestRate">نسبة الفائدة / الزيادة (%)</Label>
+          <Input
+            id="interestRate"
+            type="number"
+            min="0"
+            step="0.01"
+            value={isNaN(value.interestRate) ? '' : value.interestRate}
+            onChange={(e) => update({ interestRate: parseFloat(e.target.value) || 0 })}
+            className="input-rtl"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="firstDueDate" required>تاريخ أول قسط</Label>
+          <Input
+            id="firstDueDate"
+            type="date"
+            value={isNaN(value.firstDueDate.getTime()) ? '' : format(value.firstDueDate, 'yyyy-MM-dd')}
+            onChange={(e) => update({ firstDueDate: new Date(e.target.value) })}
+            className="input-rtl"
+          />
+        </div>
+      </div>
+
+      {validationError && (
+        <p className="text-sm text-red-600 arabic-text">{validationError}</p>
+      )}
+
+      {schedule && lastInstallment && (
+        <div className="space-y-1 text-sm text-blue-900">
+          <div className="flex justify-between">
+            <span>المبلغ الممول:</span>
+            <span className="font-medium">{formatCurrency(schedule.financedAmount)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span>قيمة الفائدة:</span>
+            <span className="font-medium">{formatCurrency(schedule.interestAmount)}</span>
+          </div>
+          <div className="flex justify-between border-t border-blue-200 pt-1">
+            <span>إجمالي الأقساط:</span>
+            <span className="font-bold">{formatCurrency(schedule.totalPayable)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span>القسط الشهري:</span>
+            <span className="font-bold">{formatCurrency(schedule.installments[0].amount)}</span>
+          </div>
+          {lastInstallment.amount !== schedule.installments[0].amount && (
+            <div className="flex justify-between text-xs">
+              <span>القسط الأخير:</span>
+              <span>{formatCurrency(lastInstallment.amount)}</span>
+            </div>
+          )}
+          <div className="flex justify-between text-xs">
+            <span>آخر استحقاق:</span>
+            <span>{formatDate(lastInstallment.dueDate)}</span>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+// الشروط الافتراضية: بدون مقدم، 12 شهراً، أول قسط بعد شهر من اليوم
+export function getDefaultInstallmentTerms(): InstallmentTerms {
+  const firstDueDate = new Date()
+  firstDueDate.setMonth(firstDueDate.getMonth() + 1)
+
+  return {
+    downPayment: 0,
+    months: 12,
+    interestRate: 0,
+    firstDueDate
+  }
+}
@@ -0,0 +1,75 @@
+import { Receipt, ShieldCheck } from 'lucide-react'
+
+import { Label } from '@/components/ui/Label'
+import { taxModeLabels } from '@/lib/salesTax'
+import { formatCurrency, formatDate } from '@/lib/utils'
+import { TaxMode } from '@/types/settings'
+import { TaxExemptCustomer } from '@/types'
+
+interface InvoiceTaxFieldsProps {
+  rate: number
+  taxMode: TaxMode
+  onTaxModeChange: (mode: TaxMode) => void
+  exemption: TaxExemptCustomer | null
+  subtotal: number
+  totalTax: number
+  totalAmount: number
+}
+
+export function InvoiceTaxFields({
+  rate,
+  taxMode,
+  onTaxModeChange,
+  exemption,
+  subtotal,
+  totalTax,
+  totalAmount
+}: InvoiceTaxFieldsProps) {
+  return (
+    <div className="space-y-3 p-4 border border-gray-200 bg-gray-50 rounded-lg">
+      <div className="flex items-center gap-2">
+        <Receipt className="h-5 w-5 text-gray-600" />
+        <h4 className="font-medium text-gray-900 arabic-text">ضريبة القيمة المضافة ({rate}%)</h4>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="taxMode">طريقة التسعير</Label>
+        <select
+          id="taxMode"
+          value={taxMode}
+          onChange={(e) => onTaxModeChange(e.target.value as TaxMode)}
+          className="form-input w-full input-rtl arabic-text"
+        >
+          {(Object.keys(taxModeLabels) as TaxMode[]).map(mode => (
+            <option key={mode} value={mode}>{taxModeLabels[mode]}</option>
+          ))}
+        </select>
+      </div>
+
+      {exemption && (
+        <div className="flex items-start gap-2 p-2 bg-green-50 border border-green-200 rounded text-sm text-green-800 arabic-text">
+          <ShieldCheck className="h-4 w-4 mt-0.5" />
+          <span>
+            العميل معفى من الضريبة - شهادة رقم {exemption.certificateNumber}
+            {exemption.validUntil && ` (سارية حتى ${formatDate(exemption.validUntil)})`}
+          </span>
+        </div>
+      )}
+
+      <div className="space-y-1 text-sm arabic-text">
+        <div className="flex justify-between">
+          <span>الإجمالي قبل الضريبة:</span>
+          <span>{formatCurrency(subtotal)}</span>
+        </div>
+        <div className="flex justify-between">
+          <span>ضريبة القيمة المضافة:</span>
+          <span>{formatCurrency(totalTax)}</span>
+        </div>
+        <div className="flex justify-between font-bold border-t pt-1">
+          <span>الإجمالي شامل الضريبة:</span>
+          <span>{formatCurrency(totalAmount)}</span>
+        </div>
+      </div>
+    </div>
+  )
+}
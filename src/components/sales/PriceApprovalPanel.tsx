@@ -0,0 +1,93 @@
+import { useState } from 'react'
+import { CheckCircle, Clock, ShieldAlert, XCircle } from 'lucide-react'
+
+import { Button } from '@/components/ui/Button'
+import { Label } from '@/components/ui/Label'
+import { formatCurrency, formatDate } from '@/lib/utils'
+import { PriceApprovalLine, PriceApprovalRequest } from '@/types'
+
+interface PriceApprovalPanelProps {
+  belowFloorLines: PriceApprovalLine[]
+  request: PriceApprovalRequest | null
+  approved: boolean
+  requesting: boolean
+  onRequest: (reason: string) => void
+}
+
+// حالة موافقة المدير على الأسعار الأقل من الحد الأدنى في نموذج البيع
+export function PriceApprovalPanel({ belowFloorLines, request, approved, requesting, onRequest }: PriceApprovalPanelProps) {
+  const [reason, setReason] = useState('')
+
+  if (approved && request) {
+    return (
+      <div className="flex items-start gap-2 p-3 bg-green-50 border border-green-200 rounded-lg text-sm text-green-800 arabic-text">
+        <CheckCircle className="h-4 w-4 mt-0.5" />
+        <div>
+          <p>وافق {request.decidedByName} على الأسعار {request.decidedAt && `بتاريخ ${formatDate(request.decidedAt)}`}</p>
+          {request.decisionNotes && <p className="text-xs mt-1">{request.decisionNotes}</p>}
+        </div>
+      </div>
+    )
+  }
+
+  const isPending = request?.status === 'pending'
+
+  return (
+    <div className="space-y-3 p-4 border border-red-200 bg-red-50 rounded-lg">
+      <div className="flex items-center gap-2">
+        <ShieldAlert className="h-5 w-5 text-red-600" />
+        <h4 className="font-medium text-red-900 arabic-text">أسعار أقل من الحد الأدنى تحتاج موافقة المدير</h4>
+      </div>
+
+      <ul className="text-sm text-red-800 space-y-1 arabic-text">
+        {belowFloorLines.map(line => (
+          <li key={line.inventoryItemId}>
+            {line.brand} {line.model} ({line.chassisNumber}): {formatCurrency(line.finalPrice)} - الحد الأدنى {formatCurrency(line.floorPrice)}
+          </li>
+        ))}
+      </ul>
+
+      {isPending ? (
+        <div className="flex items-center gap-2 text-sm text-yellow-800 arabic-text">
+          <Clock className="h-4 w-4" />
+          تم إرسال الطلب وفي انتظار قرار المدير
+        </div>
+      ) : (
+        <>
+          {request?.status === 'rejected' && (
+            <div className="flex items-start gap-2 text-sm text-red-700 arabic-text">
+              <XCircle className="h-4 w-4 mt-0.5" />
+              <span>رفض {request.decidedByName} الطلب السابق{request.decisionNotes && `: ${request.decisionNotes}`}</span>
+            </div>
+          )}
+          {request?.status === 'approved' && (
+            <p className="text-sm text-red-700 arabic-text">
+              تم تعديل الأسعار بعد الموافقة السابقة، يلزم طلب موافقة جديد
+            </p>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="priceApprovalReason" required>سبب طلب السعر</Label>
+            <textarea
+              id="priceApprovalReason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="مثال: عميل جملة أو مطابقة عرض منافس"
+              className="form-input w-full input-rtl arabic-text min-h-[60px] resize-none"
+            />
+          </div>
+          <Button
+            type="button"
+            variant="outline"
+            className="w-full"
+            loading={requesting}
+            disabled={!reason.trim()}
+            onClick={() => onRequest(reason)}
+          >
+            <ShieldAlert className="ml-2 h-4 w-4" />
+            طلب موافقة المدير
+          </Button>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,168 @@
+import { useState } from 'react'
+import { format, addDays } from 'date-fns'
+import { toast } from 'sonner'
+import { BookmarkPlus, X } from 'lucide-react'
+
+import { Button } from '@/components/ui/Button'
+import { Input } from '@/components/ui/Input'
+import { Label } from '@/components/ui/Label'
+import { ReservationService } from '@/lib/reservations'
+
+interface ReserveItemDialogProps {
+  item: {
+    id: string
+    brand: string
+    model: string
+    chassisNumber: string
+  }
+  userId: string
+  userName?: string
+  // بيانات العميل المدخلة مسبقاً (مثل نموذج البيع)
+  defaultCustomer?: {
+    name?: string
+    phone?: string
+    nationalId?: string
+  }
+  onClose: () => void
+  onReserved?: (reservationId: string) => void
+}
+
+export function ReserveItemDialog({
+  item,
+  userId,
+  userName,
+  defaultCustomer,
+  onClose,
+  onReserved
+}: ReserveItemDialogProps) {
+  const [customerName, setCustomerName] = useState(defaultCustomer?.name || '')
+  const [customerPhone, setCustomerPhone] = useState(defaultCustomer?.phone || '')
+  const [customerNationalId, setCustomerNationalId] = useState(defaultCustomer?.nationalId || '')
+  const [depositAmount, setDepositAmount] = useState('')
+  const [expiresAt, setExpiresAt] = useState(format(addDays(new Date(), 7), 'yyyy-MM-dd'))
+  const [notes, setNotes] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+
+  const handleSubmit = async () => {
+    setSubmitting(true)
+    // ينتهي الحجز في نهاية اليوم المحدد
+    const expiryDate = new Date(`${expiresAt}T23:59:59`)
+    const result = await ReservationService.createReservation({
+      inventoryItemId: item.id,
+      customerName,
+      customerPhone,
+      customerNationalId: customerNationalId.trim() || undefined,
+      depositAmount: parseFloat(depositAmount),
+      expiresAt: expiryDate,
+      notes: notes.trim() || undefined,
+      userId,
+      userName
+    })
+    setSubmitting(false)
+
+    if (!result.success || !result.reservationId) {
+      toast.error(result.error || 'فشل في حجز المنتج')
+      return
+    }
+
+    toast.success(`تم حجز ${item.brand} ${item.model} للعميل ${customerName}`)
+    onReserved?.(result.reservationId)
+    onClose()
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 w-full max-w-md mx-4 max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center gap-3">
+            <BookmarkPlus className="h-6 w-6 text-yellow-600" />
+            <h3 className="text-lg font-bold text-gray-900 arabic-text">حجز منتج</h3>
+          </div>
+          <Button variant="ghost" size="icon" onClick={onClose}>
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+
+        <div className="space-y-4">
+          <p className="text-sm text-gray-700 arabic-text">
+            {item.brand} {item.model} - شاسيه <span className="font-mono">{item.chassisNumber}</span>
+          </p>
+
+          <div className="space-y-2">
+            <Label htmlFor="reservationCustomerName" required>اسم العميل</Label>
+            <Input
+              id="reservationCustomerName"
+              value={customerName}
+              onChange={(e) => setCustomerName(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="reservationCustomerPhone" required>رقم الهاتف</Label>
+            <Input
+              id="reservationCustomerPhone"
+              value={customerPhone}
+              onChange={(e) => setCustomerPhone(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="reservationNationalId">الرقم القومي</Label>
+            <Input
+              id="reservationNationalId"
+              value={customerNationalId}
+              onChange={(e) => setCustomerNationalId(e.target.value)}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="depositAmount" required>العربون</Label>
+              <Input
+                id="depositAmount"
+                type="number"
+                min="0"
+                step="0.01"
+                value={depositAmount}
+                onChange={(e) => setDepositAmount(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="reservationExpiresAt" required>ينتهي الحجز في</Label>
+              <Input
+                id="reservationExpiresAt"
+                type="date"
+                min={format(new Date(), 'yyyy-MM-dd')}
+                value={expiresAt}
+                onChange={(e) => setExpiresAt(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="reservationNotes">ملاحظات</Label>
+            <Input
+              id="reservationNotes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+            />
+          </div>
+
+          <p className="text-xs text-gray-500 arabic-text">
+            لن يمكن بيع المنتج أو تحويله لعميل آخر أثناء الحجز. عند انتهاء المدة يعود المنتج متاحاً تلقائياً.
+          </p>
+
+          <div className="flex justify-end gap-3">
+            <Button variant="outline" onClick={onClose} disabled={submitting}>
+              إلغاء
+            </Button>
+            <Button onClick={handleSubmit} loading={submitting}>
+              <BookmarkPlus className="ml-2 h-4 w-4" />
+              تأكيد الحجز
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,179 @@
+import { useState, useEffect, useRef } from 'react'
+import { collection, query, where, getDocs } from 'firebase/firestore'
+import { toast } from 'sonner'
+import { RotateCcw, Printer, X } from 'lucide-react'
+
+import { db } from '@/firebase/firebase-config.template'
+import { Button } from '@/components/ui/Button'
+import { Label } from '@/components/ui/Label'
+import { CreditNote } from '@/components/ui/CreditNote'
+import { SalesReturnService } from '@/lib/salesReturns'
+import { printElement, cn } from '@/lib/utils'
+import { SaleReturn, Warehouse } from '@/types'
+
+interface SaleReturnDialogProps {
+  documentTrackingId: string
+  userId: string
+  // المخزن الافتراضي لإعادة المنتج (مثل مخزن الوكيل)
+  defaultWarehouseId?: string
+  // الوكيل لا يختار المخزن، يعود المنتج لمخزنه
+  allowWarehouseChoice?: boolean
+  onClose: () => void
+  onReturned?: (saleReturn: SaleReturn) => void
+}
+
+export function SaleReturnDialog({
+  documentTrackingId,
+  userId,
+  defaultWarehouseId = '',
+  allowWarehouseChoice = true,
+  onClose,
+  onReturned
+}: SaleReturnDialogProps) {
+  const [warehouses, setWarehouses] = useState<Warehouse[]>([])
+  const [warehouseId, setWarehouseId] = useState(defaultWarehouseId)
+  const [reason, setReason] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+  const [saleReturn, setSaleReturn] = useState<SaleReturn | null>(null)
+  const creditNoteRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    if (allowWarehouseChoice) {
+      loadWarehouses()
+    }
+  }, [allowWarehouseChoice])
+
+  const loadWarehouses = async () => {
+    try {
+      const warehousesSnapshot = await getDocs(query(
+        collection(db, 'warehouses'),
+        where('isActive', '==', true)
+      ))
+      setWarehouses(warehousesSnapshot.docs.map(doc => ({
+        id: doc.id,
+        ...doc.data()
+      })) as Warehouse[])
+    } catch (error) {
+      console.error('Error loading warehouses:', error)
+      toast.error('فشل في تحميل المخازن')
+    }
+  }
+
+  const handleSubmit = async () => {
+    if (!warehouseId) {
+      toast.error('يرجى اختيار المخزن')
+      return
+    }
+    if (!reason.trim()) {
+      toast.error('يرجى إدخال سبب المرتجع')
+      return
+    }
+
+    setSubmitting(true)
+    const result = await SalesReturnService.createSaleReturn({
+      documentTrackingId,
+      warehouseId,
+      reason: reason.trim(),
+      userId
+    })
+    setSubmitting(false)
+
+    if (!result.success || !result.returnId) {
+      toast.error(result.error || 'فشل في تسجيل المرتجع')
+      return
+    }
+
+    toast.success(`تم تسجيل المرتجع - إشعار دائن رقم ${result.creditNoteNumber}`)
+    const created = await SalesReturnService.getSaleReturn(result.returnId)
+    if (created) {
+      setSaleReturn(created)
+      onReturned?.(created)
+    } else {
+      onClose()
+    }
+  }
+
+  const warehouseName = warehouses.find(w => w.id === (saleReturn?.returnedToWarehouseId || warehouseId))?.name
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className={cn('bg-white rounded-lg p-6 w-full mx-4 max-h-[90vh] overflow-y-auto', saleReturn ? 'max-w-4xl' : 'max-w-md')}>
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center gap-3">
+            <RotateCcw className="h-6 w-6 text-red-500" />
+            <h3 className="text-lg font-bold text-gray-900 arabic-text">
+              {saleReturn ? 'إشعار دائن' : 'مرتجع / إلغاء البيع'}
+            </h3>
+          </div>
+          <Button variant="ghost" size="icon" onClick={onClose}>
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+
+        {saleReturn ? (
+          <div className="space-y-4">
+            <CreditNote ref={creditNoteRef} data={saleReturn} warehouseName={warehouseName} />
+            <div className="flex justify-end gap-3">
+              <Button
+                variant="outline"
+                onClick={() => creditNoteRef.current && printElement(creditNoteRef.current, `إشعار دائن ${saleReturn.creditNoteNumber}`)}
+              >
+                <Printer className="ml-2 h-4 w-4" />
+                طباعة
+              </Button>
+              <Button onClick={onClose}>إغلاق</Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-700 arabic-text">
+              سيعود المنتج متاحاً في المخزن المحدد، وسيتم عكس قيود الوكيل وإلغاء تتبع الجواب.
+              تبقى الفاتورة الأصلية محفوظة بحالة "مرتجع".
+            </p>
+
+            {allowWarehouseChoice && (
+              <div className="space-y-2">
+                <Label htmlFor="returnWarehouseId" required>المخزن المستلم</Label>
+                <select
+                  id="returnWarehouseId"
+                  value={warehouseId}
+                  onChange={(e) => setWarehouseId(e.target.value)}
+                  className="form-input w-full input-rtl arabic-text"
+                >
+                  <option value="">اختر المخزن</option>
+                  {warehouses.map(warehouse => (
+                    <option key={warehouse.id} value={warehouse.id}>
+                      {warehouse.name} {warehouse.agentId ? '(مخزن وكيل)' : ''}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="returnReason" required>سبب المرتجع</Label>
+              <textarea
+                id="returnReason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                rows={3}
+                className="form-input w-full input-rtl arabic-text"
+                placeholder="مثال: عيب فني، تراجع العميل عن الشراء..."
+              />
+            </div>
+
+            <div className="flex justify-end gap-3">
+              <Button variant="outline" onClick={onClose} disabled={submitting}>
+                إلغاء
+              </Button>
+              <Button variant="destructive" onClick={handleSubmit} loading={submitting}>
+                <RotateCcw className="ml-2 h-4 w-4" />
+                تأكيد المرتجع
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,151 @@
+import { useState } from 'react'
+import { Camera, Repeat } from 'lucide-react'
+
+import { Button } from '@/components/ui/Button'
+import { Input } from '@/components/ui/Input'
+import { Label } from '@/components/ui/Label'
+import { ImprovedCameraOCR } from '@/components/ui/ImprovedCameraOCR'
+import { TradeInInput } from '@/lib/tradeIns'
+import { vehicleTypeTranslations } from '@/lib/utils'
+import { VehicleType } from '@/types'
+
+type TradeInOCRStep = 'none' | 'motor-fingerprint' | 'chassis-number'
+
+interface TradeInFieldsProps {
+  value: TradeInInput
+  onChange: (value: TradeInInput) => void
+}
+
+// بيانات الموتوسيكل المستعمل المستلم من العميل، والأرقام تستخرج بنفس كاميرا التعرف الضوئي للمخزون
+export function TradeInFields({ value, onChange }: TradeInFieldsProps) {
+  const [ocrStep, setOcrStep] = useState<TradeInOCRStep>('none')
+
+  const update = (changes: Partial<TradeInInput>) => onChange({ ...value, ...changes })
+
+  const renderCapture = (step: Exclude<TradeInOCRStep, 'none'>, label: string, text: string, imageUrl?: string) => (
+    <div className="space-y-2">
+      <Label required>{label}</Label>
+      {imageUrl && (
+        <img src={imageUrl} alt={label} className="w-full h-32 object-cover rounded-lg border" />
+      )}
+      <div className="flex gap-2">
+        <Input
+          value={text}
+          onChange={(e) => update(step === 'motor-fingerprint'
+            ? { motorFingerprint: e.target.value }
+            : { chassisNumber: e.target.value })}
+          placeholder={label}
+          className="font-mono flex-1"
+        />
+        <Button type="button" variant="outline" onClick={() => setOcrStep(step)}>
+          <Camera className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  )
+
+  return (
+    <div className="space-y-3 p-4 border border-blue-200 bg-blue-50 rounded-lg">
+      <div className="flex items-center gap-2">
+        <Repeat className="h-5 w-5 text-blue-600" />
+        <h4 className="font-medium text-blue-900 arabic-text">الموتوسيكل المستعمل</h4>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <div className="space-y-2">
+          <Label htmlFor="tradeInType" required>نوع المركبة</Label>
+          <select
+            id="tradeInType"
+            value={value.type}
+            onChange={(e) => update({ type: e.target.value as VehicleType })}
+            className="form-input w-full input-rtl arabic-text"
+          >
+            {Object.entries(vehicleTypeTranslations).map(([key, label]) => (
+              <option key={key} value={key}>{label}</option>
+            ))}
+          </select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="tradeInYear">سنة الصنع</Label>
+          <Input
+            id="tradeInYear"
+            type="number"
+            value={value.manufacturingYear || ''}
+            onChange={(e) => update({ manufacturingYear: parseInt(e.target.value) || undefined })}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="tradeInBrand" required>الماركة</Label>
+          <Input
+            id="tradeInBrand"
+            value={value.brand}
+            onChange={(e) => update({ brand: e.target.value })}
+            className="input-rtl arabic-text"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="tradeInModel" required>الموديل</Label>
+          <Input
+            id="tradeInModel"
+            value={value.model}
+            onChange={(e) => update({ model: e.target.value })}
+            className="input-rtl arabic-text"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="tradeInColor">اللون</Label>
+          <Input
+            id="tradeInColor"
+            value={value.color || ''}
+            onChange={(e) => update({ color: e.target.value })}
+            className="input-rtl arabic-text"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="tradeInValue" required>القيمة المتفق عليها (جنيه)</Label>
+          <Input
+            id="tradeInValue"
+            type="number"
+            min="0"
+            step="0.01"
+            value={value.agreedValue || ''}
+            onChange={(e) => update({ agreedValue: parseFloat(e.target.value) || 0 })}
+          />
+        </div>
+        {renderCapture('chassis-number', 'رقم الشاسيه', value.chassisNumber, value.chassisNumberImageUrl)}
+        {renderCapture('motor-fingerprint', 'بصمة الموتور', value.motorFingerprint, value.motorFingerprintImageUrl)}
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="tradeInCondition" required>حالة المستعمل</Label>
+        <textarea
+          id="tradeInCondition"
+          value={value.conditionNotes}
+          onChange={(e) => update({ conditionNotes: e.target.value })}
+          placeholder="الكاوتش، الموتور، الهيكل، الأوراق..."
+          className="form-input w-full input-rtl arabic-text min-h-[60px] resize-none"
+        />
+      </div>
+
+      {ocrStep !== 'none' && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+            <ImprovedCameraOCR
+              title={ocrStep === 'motor-fingerprint' ? 'تصوير بصمة موتور المستعمل' : 'تصوير شاسيه المستعمل'}
+              placeholder={ocrStep === 'motor-fingerprint' ? 'بصمة الموتور' : 'رقم الشاسيه'}
+              extractionType={ocrStep === 'motor-fingerprint' ? 'motorFingerprint' : 'chassisNumber'}
+              onTextExtracted={(text: string, imageUrl: string) => {
+                update(ocrStep === 'motor-fingerprint'
+                  ? { motorFingerprint: text, motorFingerprintImageUrl: imageUrl }
+                  : { chassisNumber: text, chassisNumberImageUrl: imageUrl })
+                setOcrStep('none')
+              }}
+              onCancel={() => setOcrStep('none')}
+              className="w-full"
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,168 @@
+import { forwardRef } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from './Card'
+import { SaleReturn } from '@/types'
+import { formatCurrency, formatDate } from '@/lib/utils'
+
+interface CreditNoteProps {
+  data: SaleReturn
+  warehouseName?: string
+  className?: string
+}
+
+export const CreditNote = forwardRef<HTMLDivElement, CreditNoteProps>(
+  ({ data, warehouseName, className = '' }, ref) => {
+    return (
+      <div ref={ref} className={`max-w-4xl mx-auto bg-white p-6 ${className}`}>
+        {/* Header */}
+        <div className="text-center border-b-2 border-gray-300 pb-6 mb-6">
+          <h1 className="text-3xl font-bold text-gray-900 arabic-text mb-2">
+            إشعار دائن - مرتجع مبيعات
+          </h1>
+          <p className="text-lg text-gray-600 arabic-text">
+            شركة الفرحان للموتوسيكلات
+          </p>
+          <div className="mt-4 grid grid-cols-2 gap-4 text-sm">
+            <div className="text-right">
+              <span className="font-medium">رقم الإشعار:</span> {data.creditNoteNumber}
+            </div>
+            <div className="text-left">
+              <span className="font-medium">التاريخ:</span> {formatDate(data.createdAt || new Date())}
+            </div>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+          {/* Customer Information */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg arabic-text">بيانات العميل</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3 text-sm">
+              <div className="flex justify-between">
+                <span className="font-medium">الاسم:</span>
+                <span>{data.customerName}</span>
+              </div>
+              {data.customerNationalId && (
+                <div className="flex justify-between">
+                  <span className="font-medium">الرقم القومي:</span>
+                  <span className="font-mono">{data.customerNationalId}</span>
+                </div>
+              )}
+              {data.customerPhone && (
+                <div className="flex justify-between">
+                  <span className="font-medium">الهاتف:</span>
+                  <span className="font-mono">{data.customerPhone}</span>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Original Sale */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg arabic-text">الفاتورة الأصلية</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3 text-sm">
+              <div className="flex justify-between">
+                <span className="font-medium">رقم الفاتورة:</span>
+                <span className="font-mono">{data.saleId}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="font-medium">نوع البيع:</span>
+                <span>{data.saleSource === 'company_sale' ? 'بيع مباشر من الشركة' : 'بيع عن طريق وكيل'}</span>
+              </div>
+              {warehouseName && (
+                <div className="flex justify-between">
+                  <span className="font-medium">أعيد إلى مخزن:</span>
+                  <span>{warehouseName}</span>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* Vehicle and Amounts */}
+        <Card className="mt-8">
+          <CardHeader>
+            <CardTitle className="text-lg arabic-text">الصنف المرتجع</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6 text-sm">
+              <div className="space-y-2">
+                <div className="flex justify-between">
+                  <span className="font-medium">الماركة والموديل:</span>
+                  <span>{data.brand} {data.model}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="font-medium">بصمة الموتور:</span>
+                  <span className="font-mono text-xs">{data.motorFingerprint}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="font-medium">رقم الشاسيه:</span>
+                  <span className="font-mono text-xs">{data.chassisNumber}</span>
+                </div>
+              </div>
+              <div className="space-y-2">
+                <div className="flex justify-between">
+                  <span className="font-medium">المبلغ المرتجع:</span>
+                  <span className="font-bold text-red-600">{formatCurrency(data.refundAmount)}</span>
+                </div>
+                {!!data.refundTaxAmount && (
+                  <>
+                    <div className="flex justify-between">
+                      <span className="font-medium">القيمة بدون الضريبة:</span>
+                      <span>{formatCurrency(data.refundAmount - data.refundTaxAmount)}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="font-medium">ضريبة القيمة المضافة المردودة:</span>
+                      <span>{formatCurrency(data.refundTaxAmount)}</span>
+                    </div>
+                  </>
+                )}
+                {data.agentId && (
+                  <>
+                    <div className="flex justify-between">
+                      <span className="font-medium">عكس نصيب المؤسسة:</span>
+                      <span>{formatCurrency(data.reversedCompanyShare)}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="font-medium">عكس عمولة الوكيل:</span>
+                      <span>{formatCurrency(data.reversedAgentCommission)}</span>
+                    </div>
+                  </>
+                )}
+              </div>
+            </div>
+
+            <div className="mt-6 pt-6 border-t">
+              <h4 className="font-medium text-gray-900 arabic-text mb-2">سبب المرتجع:</h4>
+              <p className="text-sm text-gray-700 arabic-text bg-gray-50 p-3 rounded">
+                {data.reason}
+              </p>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Footer */}
+        <div className="mt-8 pt-6 border-t-2 border-gray-300">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-8 text-center">
+            <div>
+              <p className="font-medium arabic-text">توقيع العميل</p>
+              <div className="h-16 border-b border-gray-400 mt-4"></div>
+            </div>
+            <div>
+              <p className="font-medium arabic-text">توقيع المستلم</p>
+              <div className="h-16 border-b border-gray-400 mt-4"></div>
+            </div>
+            <div>
+              <p className="font-medium arabic-text">ختم الشركة</p>
+              <div className="h-16 border-b border-gray-400 mt-4"></div>
+            </div>
+          </div>
+        </div>
+      </div>
+    )
+  }
+)
+
+CreditNote.displayName = 'CreditNote'
@@ -0,0 +1,194 @@
+import { forwardRef } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from './Card'
+import { InstallmentPlan } from '@/types'
+import { formatCurrency, formatDate } from '@/lib/utils'
+
+interface InstallmentContractProps {
+  data: InstallmentPlan
+  className?: string
+}
+
+export const InstallmentContract = forwardRef<HTMLDivElement, InstallmentContractProps>(
+  ({ data, className = '' }, ref) => {
+    return (
+      <div ref={ref} className={`max-w-4xl mx-auto bg-white p-6 ${className}`}>
+        {/* Header */}
+        <div className="text-center border-b-2 border-gray-300 pb-6 mb-6">
+          <h1 className="text-3xl font-bold text-gray-900 arabic-text mb-2">
+            عقد بيع بالتقسيط
+          </h1>
+          <p className="text-lg text-gray-600 arabic-text">
+            شركة الفرحان للموتوسيكلات
+          </p>
+          <div className="mt-4 grid grid-cols-2 gap-4 text-sm">
+            <div className="text-right">
+              <span className="font-medium">رقم العقد:</span> {data.contractNumber}
+            </div>
+            <div className="text-left">
+              <span className="font-medium">التاريخ:</span> {formatDate(data.createdAt || new Date())}
+            </div>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+          {/* Customer Information */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg arabic-text">الطرف الثاني (المشتري)</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3 text-sm">
+              <div className="flex justify-between">
+                <span className="font-medium">الاسم:</span>
+                <span>{data.customerName}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="font-medium">الرقم القومي:</span>
+                <span className="font-mono">{data.customerNationalId}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="font-medium">الهاتف:</span>
+                <span className="font-mono">{data.customerPhone}</span>
+              </div>
+              {data.customerAddress && (
+                <div className="flex justify-between">
+                  <span className="font-medium">العنوان:</span>
+                  <span className="text-left max-w-xs">{data.customerAddress}</span>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Vehicle */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg arabic-text">
+                {data.items.length > 1 ? `بيانات المركبات (${data.items.length})` : 'بيانات المركبة'}
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3 text-sm">
+              {data.items.map((item) => (
+                <div key={item.inventoryItemId} className="space-y-1 border-b pb-2 last:border-b-0 last:pb-0">
+                  <div className="flex justify-between">
+                    <span className="font-medium">الماركة والموديل:</span>
+                    <span>{item.brand} {item.model}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="font-medium">بصمة الموتور:</span>
+                    <span className="font-mono text-xs">{item.motorFingerprint}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="font-medium">رقم الشاسيه:</span>
+                    <span className="font-mono text-xs">{item.chassisNumber}</span>
+                  </div>
+                  {data.items.length > 1 && (
+                    <div className="flex justify-between">
+                      <span className="font-medium">السعر:</span>
+                      <span>{formatCurrency(item.salePrice)}</span>
+                    </div>
+                  )}
+                </div>
+              ))}
+              {data.agentName && (
+                <div className="flex justify-between">
+                  <span className="font-medium">الوكيل:</span>
+                  <span>{data.agentName}</span>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* Terms */}
+        <Card className="mt-8">
+          <CardHeader>
+            <CardTitle className="text-lg arabic-text">شروط السداد</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6 text-sm">
+              <div className="space-y-2">
+                <div className="flex justify-between">
+                  <span className="font-medium">سعر البيع:</span>
+                  <span>{formatCurrency(data.salePrice)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="font-medium">المقدم المدفوع:</span>
+                  <span>{formatCurrency(data.downPayment)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="font-medium">المبلغ الممول:</span>
+                  <span>{formatCurrency(data.financedAmount)}</span>
+                </div>
+              </div>
+              <div className="space-y-2">
+                <div className="flex justify-between">
+                  <span className="font-medium">الفائدة ({data.interestRate}%):</span>
+                  <span>{formatCurrency(data.interestAmount)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="font-medium">عدد الأقساط:</span>
+                  <span>{data.months} قسط شهري</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="font-medium">إجمالي الأقساط:</span>
+                  <span className="font-bold text-green-600">{formatCurrency(data.totalPayable)}</span>
+                </div>
+              </div>
+            </div>
+
+            {/* Schedule */}
+            <div className="mt-6 pt-6 border-t">
+              <h4 className="font-medium text-gray-900 arabic-text mb-3">جدول الأقساط:</h4>
+              <table className="w-full text-sm border border-gray-300">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="border border-gray-300 px-3 py-2 text-right">رقم القسط</th>
+                    <th className="border border-gray-300 px-3 py-2 text-right">تاريخ الاستحقاق</th>
+                    <th className="border border-gray-300 px-3 py-2 text-right">القيمة</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {data.installments.map(installment => (
+                    <tr key={installment.number}>
+                      <td className="border border-gray-300 px-3 py-1">{installment.number}</td>
+                      <td className="border border-gray-300 px-3 py-1">{formatDate(installment.dueDate)}</td>
+                      <td className="border border-gray-300 px-3 py-1">{formatCurrency(installment.amount)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="mt-6 pt-6 border-t">
+              <h4 className="font-medium text-gray-900 arabic-text mb-2">الشروط:</h4>
+              <ul className="text-sm text-gray-700 arabic-text bg-gray-50 p-3 rounded list-disc pr-5 space-y-1">
+                <li>يلتزم المشتري بسداد الأقساط في مواعيد استحقاقها الموضحة بالجدول أعلاه.</li>
+                <li>تظل ملكية المركبة للشركة حتى سداد كامل الأقساط.</li>
+                <li>يحق للشركة المطالبة بكامل المبلغ المتبقي عند التأخر في سداد قسطين متتاليين.</li>
+              </ul>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Footer */}
+        <div className="mt-8 pt-6 border-t-2 border-gray-300">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-8 text-center">
+            <div>
+              <p className="font-medium arabic-text">توقيع المشتري</p>
+              <div className="h-16 border-b border-gray-400 mt-4"></div>
+            </div>
+            <div>
+              <p className="font-medium arabic-text">توقيع الضامن</p>
+              <div className="h-16 border-b border-gray-400 mt-4"></div>
+            </div>
+            <div>
+              <p className="font-medium arabic-text">ختم الشركة</p>
+              <div className="h-16 border-b border-gray-400 mt-4"></div>
+            </div>
+          </div>
+        </div>
+      </div>
+    )
+  }
+)
+
+InstallmentContract.displayName = 'InstallmentContract'
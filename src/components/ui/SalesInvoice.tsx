@@ -1,7 +1,7 @@
 import { forwardRef } from 'react'
 import { Card, CardContent, CardHeader, CardTitle } from './Card'
 
-interface SalesInvoiceData {
+export interface SalesInvoiceData {
   // Transaction Info
   transactionId: string
   saleDate: string
@@ -37,6 +37,14 @@ interface SalesInvoiceData {
   agentCommissionPercentage: number
   companyShare: number
   
+  // Tax Info (salePrice is the gross amount including tax)
+  netAmount?: number
+  taxRate?: number
+  taxAmount?: number
+  taxExempt?: boolean
+  taxExemptionCertificate?: string
+  companyTaxNumber?: string
+  
   // Additional Info
   notes?: string
 }
@@ -53,7 +61,7 @@ export const SalesInvoice = forwardRef<HTMLDivElement, SalesInvoiceProps>(
         style: 'currency',
         currency: 'EGP',
         minimumFractionDigits: 0,
-        maximumFractionDigits: 0
+        maximumFractionDigits: 2
       }).format(amount)
     }
 
@@ -77,6 +85,11 @@ export const SalesInvoice = forwardRef<HTMLDivElement, SalesInvoiceProps>(
           <p className="text-lg text-gray-600 arabic-text">
             شركة الفرحان للموتوسيكلات
           </p>
+          {data.companyTaxNumber && (
+            <p className="text-sm text-gray-600 arabic-text">
+              رقم التسجيل الضريبي: <span className="font-mono">{data.companyTaxNumber}</span>
+            </p>
+          )}
           <div className="mt-4 grid grid-cols-2 gap-4 text-sm">
             <div className="text-right">
               <span className="font-medium">رقم الفاتورة:</span> {data.transactionId}
@@ -247,7 +260,7 @@ export const SalesInvoice = forwardRef<HTMLDivElement, SalesInvoiceProps>(
                     <span>{formatCurrency(data.purchasePrice)}</span>
                   </div>
                   <div className="flex justify-between">
-                    <span className="font-medium">سعر البيع:</span>
+                    <span className="font-medium">سعر البيع شامل الضريبة:</span>
                     <span className="font-medium text-blue-600">
                       {formatCurrency(data.salePrice)}
                     </span>
@@ -268,6 +281,32 @@ export const SalesInvoice = forwardRef<HTMLDivElement, SalesInvoiceProps>(
               </div>
             </div>
 
+            {/* Invoice Totals */}
+            <div className="mt-6 pt-6 border-t">
+              <div className="max-w-sm mr-auto space-y-2 text-sm">
+                <div className="flex justify-between">
+                  <span className="font-medium">الإجمالي قبل الضريبة:</span>
+                  <span>{formatCurrency(data.netAmount ?? data.salePrice - (data.taxAmount || 0))}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="font-medium">
+                    ضريبة القيمة المضافة ({data.taxExempt ? 'معفى' : `${data.taxRate || 0}%`}):
+                  </span>
+                  <span>{formatCurrency(data.taxAmount || 0)}</span>
+                </div>
+                {data.taxExempt && data.taxExemptionCertificate && (
+                  <div className="flex justify-between text-xs text-gray-600">
+                    <span>شهادة الإعفاء:</span>
+                    <span className="font-mono">{data.taxExemptionCertificate}</span>
+                  </div>
+                )}
+                <div className="flex justify-between border-t pt-2 text-base">
+                  <span className="font-bold">الإجمالي شامل الضريبة:</span>
+                  <span className="font-bold text-blue-600">{formatCurrency(data.salePrice)}</span>
+                </div>
+              </div>
+            </div>
+
             {/* Notes */}
             {data.notes && (
               <div className="mt-6 pt-6 border-t">
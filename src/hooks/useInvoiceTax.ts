@@ -0,0 +1,37 @@
+import { useState, useEffect } from 'react'
+import { SalesTaxService, TaxOptions } from '../lib/salesTax'
+import { TaxMode } from '../types/settings'
+import { TaxExemptCustomer } from '../types'
+
+// إعدادات ضريبة الفاتورة في نماذج البيع: طريقة التسعير والإعفاء حسب الرقم القومي للعميل
+export function useInvoiceTax(customerNationalId: string) {
+  const [rate, setRate] = useState(0)
+  const [taxMode, setTaxMode] = useState<TaxMode>('inclusive')
+  const [exemption, setExemption] = useState<TaxExemptCustomer | null>(null)
+
+  useEffect(() => {
+    SalesTaxService.getTaxSettings().then(settings => {
+      setRate(settings.rate)
+      setTaxMode(settings.mode)
+    })
+  }, [])
+
+  useEffect(() => {
+    const nationalId = (customerNationalId || '').trim()
+    if (!nationalId) {
+      setExemption(null)
+      return
+    }
+
+    // تجاهل النتيجة إذا تغير الرقم القومي قبل وصولها
+    let cancelled = false
+    SalesTaxService.getExemption(nationalId).then(result => {
+      if (!cancelled) setExemption(result)
+    })
+    return () => { cancelled = true }
+  }, [customerNationalId])
+
+  const options: TaxOptions = { rate, mode: taxMode, exempt: !!exemption }
+
+  return { rate, taxMode, setTaxMode, exemption, options }
+}
@@ -0,0 +1,20 @@
+import { useState, useEffect, useCallback } from 'react'
+import { VehicleCatalog, VehicleCatalogService } from '../lib/vehicleCatalog'
+
+// كتالوج الماركات والموديلات للنماذج، فارغ إذا لم يُنشأ بعد فتبقى الحقول نصاً حراً
+export function useVehicleCatalog() {
+  const [catalog, setCatalog] = useState<VehicleCatalog>({ brands: [], models: [] })
+  const [loading, setLoading] = useState(true)
+
+  const reload = useCallback(async () => {
+    setLoading(true)
+    setCatalog(await VehicleCatalogService.getCatalog())
+    setLoading(false)
+  }, [])
+
+  useEffect(() => {
+    reload()
+  }, [reload])
+
+  return { catalog, loading, reload, hasCatalog: catalog.brands.some(brand => brand.isActive) }
+}
@@ -0,0 +1,233 @@
+// حد ائتمان الوكيل: أقصى مديونية وأقصى عمر لأقدم مديونية غير مسددة قبل إيقاف تحويل بضاعة جديدة له
+// المديونية المتوقعة تشمل الأذون التي في الطريق لأنها تقيد على الوكيل عند استلامها
+
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  limit,
+  orderBy,
+  query,
+  where,
+  serverTimestamp,
+  Transaction
+} from 'firebase/firestore'
+import { db } from '../firebase/firebase-config.template'
+import { GeneralLedgerService, agentBalanceChange } from './generalLedger'
+import { isSuperAdmin } from './utils'
+import { Agent, AgentCreditOverride, AgentCreditStatus, TransferNote } from '../types'
+
+export interface AgentCreditExposure {
+  pendingDebt: number // أذون في الطريق لم يؤكد استلامها
+  overdueDays: number // عمر أقدم مديونية لم تغطها المدفوعات
+}
+
+export interface AgentCreditCheck extends AgentCreditExposure {
+  status: AgentCreditStatus
+  debt: number
+  projectedDebt: number
+  creditLimit?: number
+  maxOverdueDays?: number
+  usage: number // نسبة المديونية المتوقعة من الحد
+  blockReasons: string[]
+  warnings: string[]
+}
+
+export interface AgentCreditRow {
+  agent: Agent
+  check: AgentCreditCheck
+}
+
+export interface CreditOverrideInput {
+  reason: string
+}
+
+export const agentCreditStatusLabels: Record<AgentCreditStatus, string> = {
+  ok: 'ضمن الحد',
+  warning: 'قريب من الحد',
+  blocked: 'متجاوز للحد'
+}
+
+export const agentCreditStatusColors: Record<AgentCreditStatus, string> = {
+  ok: 'bg-green-100 text-green-800',
+  warning: 'bg-yellow-100 text-yellow-800',
+  blocked: 'bg-red-100 text-red-800'
+}
+
+// التحذير يبدأ عند 80% من حد المديونية أو من عمر المديونية المسموح
+export const CREDIT_WARNING_RATIO = 0.8
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const roundAmount = (value: number) => Math.round(value * 100) / 100
+
+const formatAmount = (value: number) => `${Math.round(value).toLocaleString()} جنيه`
+
+export function evaluateAgentCredit(
+  agent: Pick<Agent, 'currentBalance' | 'creditLimit' | 'maxOverdueDays'>,
+  exposure: AgentCreditExposure,
+  additionalDebt = 0
+): AgentCreditCheck {
+  const debt = roundAmount(Math.max(-(Number(agent.currentBalance) || 0), 0))
+  const projectedDebt = roundAmount(Math.max(debt + exposure.pendingDebt + additionalDebt, 0))
+  const creditLimit = Number(agent.creditLimit) || 0
+  const maxOverdueDays = Number(agent.maxOverdueDays) || 0
+  const blockReasons: string[] = []
+  const warnings: string[] = []
+
+  if (creditLimit > 0) {
+    if (projectedDebt > creditLimit) {
+      blockReasons.push(`المديونية ستصل إلى ${formatAmount(projectedDebt)} متجاوزة حد الائتمان ${formatAmount(creditLimit)}`)
+    } else if (projectedDebt >= creditLimit * CREDIT_WARNING_RATIO) {
+      warnings.push(`المديونية ستصل إلى ${Math.round((projectedDebt / creditLimit) * 100)}% من حد الائتمان ${formatAmount(creditLimit)}`)
+    }
+  }
+
+  if (maxOverdueDays > 0 && debt > 0) {
+    if (exposure.overdueDays > maxOverdueDays) {
+      blockReasons.push(`أقدم مديونية غير مسددة عمرها ${exposure.overdueDays} يوم والحد المسموح ${maxOverdueDays} يوم`)
+    } else if (exposure.overdueDays >= maxOverdueDays * CREDIT_WARNING_RATIO) {
+      warnings.push(`أقدم مديونية غير مسددة عمرها ${exposure.overdueDays} يوم من ${maxOverdueDays} يوم مسموحة`)
+    }
+  }
+
+  return {
+    ...exposure,
+    status: blockReasons.length > 0 ? 'blocked' : warnings.length > 0 ? 'warning' : 'ok',
+    debt,
+    projectedDebt,
+    ...(creditLimit > 0 ? { creditLimit } : {}),
+    ...(maxOverdueDays > 0 ? { maxOverdueDays } : {}),
+    usage: creditLimit > 0 ? projectedDebt / creditLimit : 0,
+    blockReasons,
+    warnings
+  }
+}
+
+export class AgentCreditService {
+
+  // المدفوعات تسدد أقدم القيود أولاً، وعمر أول قيد لم يسدد بالكامل هو عمر المديونية
+  // الوكلاء السابقون للدفتر يبدأ عمر رصيدهم الافتتاحي من تاريخ ترحيله
+  static async getOverdueDays(agentId: string): Promise<number> {
+    const entries = await GeneralLedgerService.getEntries({ agentId })
+    const open: { amount: number, postedAt: number }[] = []
+
+    entries
+      .filter(entry => entry.postedAt?.toMillis)
+      .sort((a, b) => a.postedAt.toMillis() - b.postedAt.toMillis())
+      .forEach(entry => {
+        const change = agentBalanceChange(entry.lines, agentId)
+        if (change < 0) {
+          open.push({ amount: -change, postedAt: entry.postedAt.toMillis() })
+          return
+        }
+        let credit = change
+        while (credit > 0.01 && open.length > 0) {
+          const settled = Math.min(credit, open[0].amount)
+          open[0].amount = roundAmount(open[0].amount - settled)
+          credit = roundAmount(credit - settled)
+          if (open[0].amount <= 0.01) open.shift()
+        }
+      })
+
+    return open.length > 0 ? Math.floor((Date.now() - open[0].postedAt) / DAY_MS) : 0
+  }
+
+  static async getPendingDebt(agentId: string): Promise<number> {
+    const snapshot = await getDocs(query(collection(db, 'transfer_notes'), where('toAgentId', '==', agentId)))
+    return roundAmount(snapshot.docs
+      .map(noteDoc => noteDoc.data() as TransferNote)
+      .filter(note => note.status !== 'received')
+      .reduce((sum, note) => sum + note.items
+        .filter(item => item.outcome === 'pending')
+        .reduce((noteSum, item) => noteSum + (item.transferPrice ?? item.purchasePrice), 0), 0))
+  }
+
+  static async getExposure(agentId: string): Promise<AgentCreditExposure> {
+    const [pendingDebt, overdueDays] = await Promise.all([
+      this.getPendingDebt(agentId),
+      this.getOverdueDays(agentId)
+    ])
+    return { pendingDebt, overdueDays }
+  }
+
+  static async checkAgent(agentId: string, additionalDebt = 0): Promise<AgentCreditRow | null> {
+    const [agentDoc, exposure] = await Promise.all([
+      getDoc(doc(db, 'agents', agentId)),
+      this.getExposure(agentId)
+    ])
+    if (!agentDoc.exists()) return null
+    const agent = { id: agentDoc.id, ...agentDoc.data() } as Agent
+    return { agent, check: evaluateAgentCredit(agent, exposure, additionalDebt) }
+  }
+
+  // الوكلاء المتجاوزون ثم القريبون من الحد أولاً
+  static async getDashboard(): Promise<AgentCreditRow[]> {
+    try {
+      const snapshot = await getDocs(query(collection(db, 'agents'), where('isActive', '==', true)))
+      const agents = snapshot.docs.map(agentDoc => ({ id: agentDoc.id, ...agentDoc.data() }) as Agent)
+      const rows = await Promise.all(agents.map(async agent => ({
+        agent,
+        check: evaluateAgentCredit(agent, await this.getExposure(agent.id))
+      })))
+      const statusOrder: Record<AgentCreditStatus, number> = { blocked: 0, warning: 1, ok: 2 }
+      return rows.sort((a, b) => statusOrder[a.check.status] - statusOrder[b.check.status]
+        || b.check.usage - a.check.usage
+        || b.check.projectedDebt - a.check.projectedDebt)
+    } catch (error) {
+      console.error('Error loading agent credit dashboard:', error)
+      return []
+    }
+  }
+
+  static async getOverrides(max = 50): Promise<AgentCreditOverride[]> {
+    try {
+      const snapshot = await getDocs(query(collection(db, 'agent_credit_overrides'), orderBy('createdAt', 'desc'), limit(max)))
+      return snapshot.docs.map(overrideDoc => ({ id: overrideDoc.id, ...overrideDoc.data() }) as AgentCreditOverride)
+    } catch (error) {
+      console.error('Error loading credit overrides:', error)
+      return []
+    }
+  }
+
+  // العملية المتجاوزة للحد لا تمر إلا بتجاوز من المدير العام مع سبب مكتوب
+  static assertOverrideAllowed(check: AgentCreditCheck, override: CreditOverrideInput | undefined, user: { role?: string }) {
+    if (check.status !== 'blocked') return
+    if (!override?.reason.trim()) {
+      throw new Error(`تم إيقاف العملية: ${check.blockReasons.join('، ')}`)
+    }
+    if (!user.role || !isSuperAdmin(user.role)) {
+      throw new Error('تجاوز حد الائتمان مسموح للمدير العام فقط')
+    }
+  }
+
+  // يكتب داخل نفس معاملة العملية التي سمح بها التجاوز
+  static recordOverride(
+    transaction: Transaction,
+    agent: Pick<Agent, 'id' | 'name'>,
+    check: AgentCreditCheck,
+    details: { source: AgentCreditOverride['source'], amount: number, reason: string, referenceId?: string, reference?: string },
+    user: { id: string, name?: string }
+  ): string {
+    const overrideRef = doc(collection(db, 'agent_credit_overrides'))
+    transaction.set(overrideRef, {
+      agentId: agent.id,
+      agentName: agent.name,
+      source: details.source,
+      ...(details.referenceId ? { referenceId: details.referenceId } : {}),
+      ...(details.reference ? { reference: details.reference } : {}),
+      amount: roundAmount(details.amount),
+      projectedDebt: check.projectedDebt,
+      ...(check.creditLimit ? { creditLimit: check.creditLimit } : {}),
+      overdueDays: check.overdueDays,
+      ...(check.maxOverdueDays ? { maxOverdueDays: check.maxOverdueDays } : {}),
+      blockReasons: check.blockReasons,
+      reason: details.reason.trim(),
+      overriddenBy: user.id,
+      ...(user.name ? { overriddenByName: user.name } : {}),
+      createdAt: serverTimestamp()
+    })
+    return overrideRef.id
+  }
+}
@@ -8,12 +8,24 @@ import {
   doc, 
   getDoc,
   updateDoc,
-  addDoc,
-  serverTimestamp 
+  runTransaction,
+  serverTimestamp,
+  Transaction,
+  DocumentData,
+  DocumentReference
 } from 'firebase/firestore'
 import { db } from '../firebase/firebase-config.template'
 import { createCompositeImage } from './imageComposer'
 import { uploadToCloudinary } from './cloudinary'
+import { calculateSaleLine, summarizeInvoice, SaleLineTotals } from './saleInvoices'
+import { DocumentNumberingService } from './documentNumbering'
+import { SalesTaxService, InvoiceTax, invoiceTaxFields } from './salesTax'
+import { TaxMode } from '../types/settings'
+import { InstallmentTerms } from '../types'
+import { InstallmentService } from './installments'
+import { ReorderLevelService } from './reorderLevels'
+import { sleep } from './utils'
+import { GeneralLedgerService, LedgerAgent, agentSaleLines } from './generalLedger'
 
 interface AgentData {
   id: string
@@ -67,6 +79,75 @@ interface AgentTransaction {
   createdAt: any
 }
 
+export type AgentSaleErrorCode =
+  | 'ITEM_NOT_FOUND'
+  | 'AGENT_NOT_FOUND'
+  | 'WRONG_WAREHOUSE'
+  | 'ITEM_UNAVAILABLE'
+  | 'ITEM_ALREADY_SOLD' // بيع متزامن سبق هذه العملية
+  | 'DUPLICATE_ITEM' // نفس المنتج مكرر في أسطر الفاتورة
+  | 'CONFLICT' // تعارض مع عملية أخرى على نفس البيانات، يمكن إعادة المحاولة
+  | 'UNKNOWN'
+
+export interface AgentSaleResult {
+  success: boolean
+  saleId?: string
+  invoiceNumber?: string
+  documentTrackingId?: string
+  installmentPlanId?: string
+  contractNumber?: string
+  error?: string
+  errorCode?: AgentSaleErrorCode
+}
+
+export interface AgentInvoiceResult {
+  success: boolean
+  invoiceId?: string
+  invoiceNumber?: string
+  lines?: { inventoryItemId: string; saleId: string; documentTrackingId: string }[]
+  error?: string
+  errorCode?: AgentSaleErrorCode
+}
+
+interface AgentSaleCustomer {
+  customerId: string
+  customerName: string
+  customerPhone: string
+  customerAddress: string
+}
+
+// بيانات سطر بيع واحد داخل معاملة البيع
+interface SaleLineWrite {
+  agentId: string
+  agentName: string
+  saleRef: DocumentReference
+  documentTrackingRef: DocumentReference
+  itemRef: DocumentReference
+  itemData: DocumentData
+  customer: AgentSaleCustomer
+  salePrice: number
+  commissionRate: number
+  tax: InvoiceTax
+  customerIdImageUrl?: string
+  ledgerAgent: LedgerAgent
+  createdBy?: string
+  invoiceNumber: string
+  // السطر ضمن فاتورة متعددة الأصناف
+  invoiceLine?: {
+    invoiceId: string
+    lineNumber: number
+    lineCount: number
+  }
+}
+
+// خطأ داخلي لإلغاء معاملة البيع مع رمز محدد
+class AgentSaleError extends Error {
+  constructor(public code: AgentSaleErrorCode, message: string) {
+    super(message)
+    this.name = 'AgentSaleError'
+  }
+}
+
 export class AgentPermissionsService {
   
   // التحقق من أن المستخدم وكيل وجلب بياناته
@@ -182,6 +263,8 @@ export class AgentPermissionsService {
   }
   
   // إنشاء بيع جديد للوكيل (مع التحقق من الصلاحيات)
+  // يتم تسجيل البيع بالكامل داخل معاملة واحدة: سجل البيع، حالة المنتج، معاملات الوكيل،
+  // تتبع الوثائق، ورصيد الوكيل. الصورة المجمعة خطوة لاحقة قابلة لإعادة المحاولة.
   static async createAgentSale(
     agentId: string, 
     warehouseId: string,
@@ -193,242 +276,604 @@ export class AgentPermissionsService {
       inventoryItemId: string
       salePrice: number
       commissionRate: number
+      taxMode?: TaxMode
       customerIdImageUrl?: string
+      installmentTerms?: InstallmentTerms // البيع بالتقسيط: الخطة تنشأ مع البيع في نفس المعاملة
+      createdBy?: string
     }
-  ): Promise<{ success: boolean; saleId?: string; error?: string }> {
+  ): Promise<AgentSaleResult> {
     console.log('🚀 [AGENT PERMISSIONS] Starting createAgentSale...')
     console.log('🏪 [AGENT PERMISSIONS] Agent ID:', agentId)
     console.log('📦 [AGENT PERMISSIONS] Warehouse ID:', warehouseId)
     console.log('📝 [AGENT PERMISSIONS] Sale data:', saleData)
     
+    const itemRef = doc(db, 'inventory_items', saleData.inventoryItemId)
+    const agentRef = doc(db, 'agents', agentId)
+    const saleRef = doc(collection(db, 'sales'))
+    const documentTrackingRef = doc(collection(db, 'document_tracking'))
+    
     try {
-      // التحقق من أن المنتج في مخزن الوكيل
-      console.log('🔍 [AGENT PERMISSIONS] Checking inventory item...')
-      const itemRef = doc(db, 'inventory_items', saleData.inventoryItemId)
-      const itemDoc = await getDoc(itemRef)
-      
-      if (!itemDoc.exists()) {
-        console.error('❌ [AGENT PERMISSIONS] Inventory item not found:', saleData.inventoryItemId)
-        return { success: false, error: 'المنتج غير موجود' }
-      }
-      
-      const itemData = itemDoc.data()
-      console.log('✅ [AGENT PERMISSIONS] Inventory item found:', itemData)
-      console.log('📦 [AGENT PERMISSIONS] Item current warehouse:', itemData.currentWarehouseId)
-      console.log('💰 [AGENT PERMISSIONS] Item purchase price:', itemData.purchasePrice)
+      const tax = await SalesTaxService.resolveInvoiceTax(saleData.customerId, saleData.taxMode)
+
+      const committed = await runTransaction(db, async (transaction) => {
+        // التحقق من المنتج والوكيل داخل المعاملة حتى لا يبيع وكيلان نفس الشاسيه
+        const itemDoc = await transaction.get(itemRef)
+        if (!itemDoc.exists()) {
+          throw new AgentSaleError('ITEM_NOT_FOUND', 'المنتج غير موجود')
+        }
+        
+        const agentDoc = await transaction.get(agentRef)
+        if (!agentDoc.exists()) {
+          throw new AgentSaleError('AGENT_NOT_FOUND', 'الوكيل غير موجود')
+        }
+        
+        const itemData = itemDoc.data()
+        const agentData = agentDoc.data()
+        
+        this.assertItemSellable(itemData, warehouseId)
+        
+        // رقم الفاتورة المسلسل (ورقم عقد التقسيط إن وجد) يحجز داخل نفس المعاملة
+        const [invoiceNumber, contractNumber] = await DocumentNumberingService.allocateMany(
+          transaction,
+          saleData.installmentTerms ? ['agent_invoice', 'installment_contract'] : ['agent_invoice']
+        )
+        
+        // منطق الحساب:
+        // الوكيل لا يحصل على عمولة في رصيده، فقط يدين بنصيب الشركة والضريبة المحصلة من العميل
+        // الرصيد يتحرك بقيد البيع في دفتر الأستاذ
+        const ledgerAgent = { ref: agentRef, balance: Number(agentData.currentBalance) || 0 }
+        const line = this.writeSaleLine(transaction, {
+          agentId,
+          agentName: agentData.name,
+          saleRef,
+          documentTrackingRef,
+          itemRef,
+          itemData,
+          customer: saleData,
+          salePrice: saleData.salePrice,
+          commissionRate: saleData.commissionRate,
+          tax,
+          customerIdImageUrl: saleData.customerIdImageUrl,
+          ledgerAgent,
+          createdBy: saleData.createdBy,
+          invoiceNumber
+        })
+        
+        transaction.update(agentRef, {
+          totalSales: (Number(agentData.totalSales) || 0) + line.salePrice,
+          totalCommission: (agentData.totalCommission || 0) + line.agentCommission,
+          lastSaleAt: serverTimestamp(),
+          updatedAt: serverTimestamp()
+        })
+        
+        console.log(`💰 [AGENT PERMISSIONS] Agent balance after sale: ${ledgerAgent.balance}`)
+        
+        const installmentPlanId = saleData.installmentTerms && contractNumber
+          ? InstallmentService.writePlan(transaction, {
+              sale: {
+                saleId: saleRef.id,
+                saleSource: 'agent_sale',
+                invoiceNumber,
+                documentTrackingId: documentTrackingRef.id,
+                items: [{
+                  inventoryItemId: itemRef.id,
+                  motorFingerprint: itemData.motorFingerprint,
+                  chassisNumber: itemData.chassisNumber,
+                  brand: itemData.brand,
+                  model: itemData.model,
+                  salePrice: line.salePrice
+                }],
+                customerName: saleData.customerName,
+                customerNationalId: saleData.customerId,
+                customerPhone: saleData.customerPhone,
+                customerAddress: saleData.customerAddress,
+                agentId,
+                agentName: agentData.name,
+                salePrice: line.salePrice
+              },
+              terms: saleData.installmentTerms,
+              userId: saleData.createdBy || agentId
+            }, contractNumber)
+          : undefined
+        
+        return {
+          invoiceNumber,
+          installmentPlanId,
+          contractNumber,
+          motorFingerprintImageUrl: itemData.motorFingerprintImageUrl as string | undefined,
+          chassisNumberImageUrl: itemData.chassisNumberImageUrl as string | undefined
+        }
+      })
       
-      // تحميل بيانات الوكيل
-      console.log('🔍 [AGENT PERMISSIONS] Loading agent data...')
-      const agentRef = doc(db, 'agents', agentId)
-      const agentDoc = await getDoc(agentRef)
+      console.log('✅ [AGENT PERMISSIONS] Sale committed:', saleRef.id)
+      ReorderLevelService.checkWarehouses([warehouseId])
       
-      if (!agentDoc.exists()) {
-        console.error('❌ [AGENT PERMISSIONS] Agent not found:', agentId)
-        return { success: false, error: 'الوكيل غير موجود' }
+      // إنشاء الصورة المجمعة للوثائق بعد تسجيل البيع في الخلفية (لا تؤخر ولا تؤثر على نجاح البيع)
+      if (saleData.customerIdImageUrl && (committed.motorFingerprintImageUrl || committed.chassisNumberImageUrl)) {
+        this.attachCompositeImage(documentTrackingRef.id, {
+          customerIdImage: saleData.customerIdImageUrl,
+          motorFingerprintImage: committed.motorFingerprintImageUrl,
+          chassisNumberImage: committed.chassisNumberImageUrl
+        }, saleData.customerId)
       }
       
-      const agentData = agentDoc.data()
-      console.log('✅ [AGENT PERMISSIONS] Agent data loaded:', agentData)
-      console.log('💰 [AGENT PERMISSIONS] Agent current balance:', agentData.currentBalance)
-      
-      // التحقق من أن المنتج في مخزن الوكيل
-      console.log('🔍 [AGENT PERMISSIONS] Validating warehouse ownership...')
-      if (itemData.currentWarehouseId !== warehouseId) {
-        console.error('❌ [AGENT PERMISSIONS] Item not in agent warehouse. Item warehouse:', itemData.currentWarehouseId, 'Agent warehouse:', warehouseId)
-        return { success: false, error: 'هذا المنتج ليس في مخزن الوكيل' }
+      return {
+        success: true,
+        saleId: saleRef.id,
+        invoiceNumber: committed.invoiceNumber,
+        documentTrackingId: documentTrackingRef.id,
+        ...(committed.installmentPlanId ? {
+          installmentPlanId: committed.installmentPlanId,
+          contractNumber: committed.contractNumber
+        } : {})
       }
-      console.log('✅ [AGENT PERMISSIONS] Item is in agent warehouse')
       
-      // التحقق من حالة المنتج
-      console.log('🔍 [AGENT PERMISSIONS] Checking item availability...')
-      if (itemData.status !== 'available') {
-        console.error('❌ [AGENT PERMISSIONS] Item not available. Status:', itemData.status)
-        return { success: false, error: 'هذا المنتج غير متاح للبيع' }
+    } catch (error) {
+      if (error instanceof AgentSaleError) {
+        console.error(`❌ [AGENT PERMISSIONS] Sale rejected (${error.code}):`, error.message)
+        return { success: false, error: error.message, errorCode: error.code }
       }
-      console.log('✅ [AGENT PERMISSIONS] Item is available for sale')
-      
-      // حساب العمولة من الربح وليس من سعر البيع
-      console.log('💰 [AGENT PERMISSIONS] Calculating commissions...')
-      const totalProfit = saleData.salePrice - itemData.purchasePrice
-      const agentCommission = totalProfit * (saleData.commissionRate / 100)
-      const companyShare = totalProfit - agentCommission
-      
-      console.log('💰 [AGENT PERMISSIONS] Sale price:', saleData.salePrice)
-      console.log('💰 [AGENT PERMISSIONS] Purchase price:', itemData.purchasePrice)
-      console.log('💰 [AGENT PERMISSIONS] Total profit:', totalProfit)
-      console.log('💰 [AGENT PERMISSIONS] Commission rate:', saleData.commissionRate, '%')
-      console.log('💰 [AGENT PERMISSIONS] Agent commission (from profit):', agentCommission)
-      console.log('💰 [AGENT PERMISSIONS] Company share (from profit):', companyShare)
-      console.log('🔍 [AGENT PERMISSIONS] Verification: Commission + Company Share =', agentCommission + companyShare, '(should equal total profit:', totalProfit, ')')
-      
-      // إنشاء سجل البيع
-      console.log('📝 [AGENT PERMISSIONS] Creating sale record...')
-      const saleDoc = await addDoc(collection(db, 'sales'), {
-        agentId,
-        customerId: saleData.customerId,
-        customerName: saleData.customerName,
-        customerPhone: saleData.customerPhone,
-        customerAddress: saleData.customerAddress,
-        inventoryItemId: saleData.inventoryItemId,
-        motorFingerprint: itemData.motorFingerprint,
-        chassisNumber: itemData.chassisNumber,
-        model: itemData.model,
-        brand: itemData.brand,
-        color: itemData.color,
-        purchasePrice: itemData.purchasePrice,
-        salePrice: saleData.salePrice,
-        agentCommission,
-        companyShare,
-        commissionRate: saleData.commissionRate,
-        customerIdImageUrl: saleData.customerIdImageUrl || null, // صورة بطاقة العميل
-        status: 'completed',
-        createdAt: serverTimestamp(),
-        updatedAt: serverTimestamp()
-      })
       
-      // تحديث حالة المنتج إلى مباع
-      await updateDoc(itemRef, {
-        status: 'sold',
-        soldAt: serverTimestamp(),
-        soldToAgentId: agentId,
-        salePrice: saleData.salePrice
-      })
-      
-      // إنشاء معاملة واحدة للبيع (العمولة - نصيب الشركة)
-      const netAmount = agentCommission - companyShare
-      await addDoc(collection(db, 'agent_transactions'), {
-        agentId,
-        type: 'sale',
-        amount: netAmount,
-        description: `بيع ${itemData.brand} ${itemData.model} للعميل ${saleData.customerName}`,
-        salePrice: saleData.salePrice,
-        purchasePrice: itemData.purchasePrice,
-        agentCommission: agentCommission,
-        companyShare: companyShare,
-        commissionRate: saleData.commissionRate,
-        relatedSaleId: saleDoc.id,
-        status: 'completed',
-        createdAt: serverTimestamp()
-      })
+      // تعارض متكرر مع معاملة أخرى: إعادة قراءة المنتج لمعرفة السبب الفعلي
+      if ((error as { code?: string })?.code === 'aborted') {
+        console.error('❌ [AGENT PERMISSIONS] Sale aborted due to contention:', error)
+        return { success: false, ...await this.diagnoseAbortedSale([itemRef], warehouseId) }
+      }
       
-      // إنشاء الصورة المجمعة للوثائق
-      let combinedImageUrl = ''
-      try {
-        if (saleData.customerIdImageUrl && (itemData.motorFingerprintImageUrl || itemData.chassisNumberImageUrl)) {
-          console.log('🖼️ Creating composite image...')
-          const compositeImageDataUrl = await createCompositeImage({
-            customerIdImage: saleData.customerIdImageUrl,
-            motorFingerprintImage: itemData.motorFingerprintImageUrl,
-            chassisNumberImage: itemData.chassisNumberImageUrl
-          })
-          
-          // تحويل data URL إلى Blob
-          const base64Data = compositeImageDataUrl.split(',')[1]
-          const byteCharacters = atob(base64Data)
-          const byteNumbers = new Array(byteCharacters.length)
-          for (let i = 0; i < byteCharacters.length; i++) {
-            byteNumbers[i] = byteCharacters.charCodeAt(i)
+      console.error('Error creating agent sale:', error)
+      return { success: false, error: 'فشل في إنشاء البيع', errorCode: 'UNKNOWN' }
+    }
+  }
+  
+  // إنشاء فاتورة بيع متعددة الأصناف للوكيل داخل معاملة واحدة
+  // كل صنف له سجل بيع وسجل تتبع وثائق مستقل، وجميعها مرتبطة بنفس الفاتورة
+  static async createAgentInvoice(
+    agentId: string,
+    warehouseId: string,
+    invoiceData: AgentSaleCustomer & {
+      lines: { inventoryItemId: string; salePrice: number; commissionRate: number }[]
+      taxMode?: TaxMode
+      customerIdImageUrl?: string
+      notes?: string
+      createdBy: string
+    }
+  ): Promise<AgentInvoiceResult> {
+    if (invoiceData.lines.length === 0) {
+      return { success: false, error: 'يرجى اختيار منتج واحد على الأقل', errorCode: 'ITEM_NOT_FOUND' }
+    }
+
+    // المنتج المكرر يقرأ مرة واحدة داخل المعاملة فيكتب بيعه وقيده مرتين
+    const itemIds = invoiceData.lines.map(line => line.inventoryItemId)
+    if (new Set(itemIds).size !== itemIds.length) {
+      return { success: false, error: 'يوجد منتج مكرر في أسطر الفاتورة', errorCode: 'DUPLICATE_ITEM' }
+    }
+
+    const agentRef = doc(db, 'agents', agentId)
+    const invoiceRef = doc(collection(db, 'sales_transactions'))
+    const lineRefs = invoiceData.lines.map(line => ({
+      ...line,
+      itemRef: doc(db, 'inventory_items', line.inventoryItemId),
+      saleRef: doc(collection(db, 'sales')),
+      documentTrackingRef: doc(collection(db, 'document_tracking'))
+    }))
+
+    try {
+      const tax = await SalesTaxService.resolveInvoiceTax(invoiceData.customerId, invoiceData.taxMode)
+
+      const committed = await runTransaction(db, async (transaction) => {
+        const agentDoc = await transaction.get(agentRef)
+        if (!agentDoc.exists()) {
+          throw new AgentSaleError('AGENT_NOT_FOUND', 'الوكيل غير موجود')
+        }
+
+        const itemDocs = await Promise.all(lineRefs.map(line => transaction.get(line.itemRef)))
+        itemDocs.forEach(itemDoc => {
+          if (!itemDoc.exists()) {
+            throw new AgentSaleError('ITEM_NOT_FOUND', 'أحد المنتجات غير موجود')
           }
-          const byteArray = new Uint8Array(byteNumbers)
-          const imageBlob = new Blob([byteArray], { type: 'image/png' })
-          
-          // رفع الصورة المجمعة إلى Cloudinary
-          const compositeResult = await uploadToCloudinary(imageBlob, {
-            folder: 'composite-documents',
-            tags: ['composite', 'agent-sale', 'customer-' + saleData.customerId]
+          this.assertItemSellable(itemDoc.data(), warehouseId)
+        })
+
+        // رقم الفاتورة المسلسل يحجز داخل نفس المعاملة
+        const invoiceNumber = await DocumentNumberingService.allocate(transaction, 'agent_invoice')
+
+        const agentData = agentDoc.data()
+        // كل سطر يرحل قيده، والرصيد الجاري يتحدث على نفس الكائن
+        const ledgerAgent = { ref: agentRef, balance: Number(agentData.currentBalance) || 0 }
+
+        const lineTotals = lineRefs.map((line, index) => {
+          const totals = this.writeSaleLine(transaction, {
+            agentId,
+            agentName: agentData.name,
+            saleRef: line.saleRef,
+            documentTrackingRef: line.documentTrackingRef,
+            itemRef: line.itemRef,
+            itemData: itemDocs[index].data()!,
+            customer: invoiceData,
+            salePrice: line.salePrice,
+            commissionRate: line.commissionRate,
+            tax,
+            customerIdImageUrl: invoiceData.customerIdImageUrl,
+            ledgerAgent,
+            createdBy: invoiceData.createdBy,
+            invoiceNumber,
+            invoiceLine: {
+              invoiceId: invoiceRef.id,
+              lineNumber: index + 1,
+              lineCount: lineRefs.length
+            }
           })
-          combinedImageUrl = compositeResult.secure_url
-          console.log('✅ Composite image created and uploaded:', combinedImageUrl)
+          return totals
+        })
+
+        const totals = summarizeInvoice(lineTotals)
+
+        // الفاتورة الموحدة بأسطرها وإجمالياتها
+        transaction.set(invoiceRef, {
+          invoiceNumber,
+          type: 'sale',
+          agentId,
+          customerId: invoiceData.customerId,
+          customerName: invoiceData.customerName,
+          customerPhone: invoiceData.customerPhone,
+          customerAddress: invoiceData.customerAddress,
+          items: lineRefs.map((line, index) => {
+            const itemData = itemDocs[index].data()!
+            return {
+              inventoryItemId: line.inventoryItemId,
+              saleId: line.saleRef.id,
+              documentTrackingId: line.documentTrackingRef.id,
+              motorFingerprint: itemData.motorFingerprint,
+              chassisNumber: itemData.chassisNumber,
+              brand: itemData.brand,
+              model: itemData.model,
+              ...lineTotals[index]
+            }
+          }),
+          subtotal: totals.subtotal,
+          taxRate: tax.options.exempt ? 0 : tax.options.rate,
+          taxAmount: totals.totalTax,
+          ...invoiceTaxFields(tax),
+          totalAmount: totals.totalAmount,
+          totalProfit: totals.totalProfit,
+          agentCommission: totals.totalCommission,
+          companyShare: totals.totalCompanyShare,
+          notes: invoiceData.notes || '',
+          createdAt: serverTimestamp(),
+          createdBy: invoiceData.createdBy
+        })
+
+        transaction.update(agentRef, {
+          totalSales: (Number(agentData.totalSales) || 0) + totals.totalAmount,
+          totalCommission: (agentData.totalCommission || 0) + totals.totalCommission,
+          lastSaleAt: serverTimestamp(),
+          updatedAt: serverTimestamp()
+        })
+
+        return {
+          invoiceNumber,
+          images: itemDocs.map(itemDoc => ({
+            motorFingerprintImageUrl: itemDoc.data()!.motorFingerprintImageUrl as string | undefined,
+            chassisNumberImageUrl: itemDoc.data()!.chassisNumberImageUrl as string | undefined
+          }))
+        }
+      })
+
+      ReorderLevelService.checkWarehouses([warehouseId])
+
+      // الصور المجمعة لكل صنف بعد تسجيل الفاتورة في الخلفية
+      if (invoiceData.customerIdImageUrl) {
+        for (const [index, line] of lineRefs.entries()) {
+          const images = committed.images[index]
+          if (images.motorFingerprintImageUrl || images.chassisNumberImageUrl) {
+            this.attachCompositeImage(line.documentTrackingRef.id, {
+              customerIdImage: invoiceData.customerIdImageUrl,
+              motorFingerprintImage: images.motorFingerprintImageUrl,
+              chassisNumberImage: images.chassisNumberImageUrl
+            }, invoiceData.customerId)
+          }
         }
-      } catch (error) {
-        console.error('⚠️ Error creating composite image:', error)
-        // Continue without composite image
       }
 
-      // إنشاء سجل تتبع الوثائق
-      const currentTime = new Date()
-      await addDoc(collection(db, 'document_tracking'), {
-        saleTransactionId: saleDoc.id,
-        agentId,
-        agentName: agentData.name, // إضافة اسم الوكيل
-        customerName: saleData.customerName,
-        customerNationalId: saleData.customerId,
-        customerPhone: saleData.customerPhone,
-        customerAddress: saleData.customerAddress,
-        motorFingerprint: itemData.motorFingerprint,
-        chassisNumber: itemData.chassisNumber,
-        motorBrand: itemData.brand,
-        motorModel: itemData.model,
-        salePrice: saleData.salePrice,
-        purchasePrice: itemData.purchasePrice,
-        profit: saleData.salePrice - itemData.purchasePrice,
-        commissionRate: saleData.commissionRate,
-        agentCommission,
-        companyShare,
-        customerIdImageUrl: saleData.customerIdImageUrl || null, // صورة بطاقة العميل
-        motorFingerprintImageUrl: itemData.motorFingerprintImageUrl || null, // صورة بصمة الموتور
-        chassisNumberImageUrl: itemData.chassisNumberImageUrl || null, // صورة رقم الشاسيه
-        combinedImageUrl: combinedImageUrl || null, // الصورة المجمعة
+      return {
+        success: true,
+        invoiceId: invoiceRef.id,
+        invoiceNumber: committed.invoiceNumber,
+        lines: lineRefs.map(line => ({
+          inventoryItemId: line.inventoryItemId,
+          saleId: line.saleRef.id,
+          documentTrackingId: line.documentTrackingRef.id
+        }))
+      }
+
+    } catch (error) {
+      if (error instanceof AgentSaleError) {
+        console.error(`❌ [AGENT PERMISSIONS] Invoice rejected (${error.code}):`, error.message)
+        return { success: false, error: error.message, errorCode: error.code }
+      }
+
+      if ((error as { code?: string })?.code === 'aborted') {
+        console.error('❌ [AGENT PERMISSIONS] Invoice aborted due to contention:', error)
+        return { success: false, ...await this.diagnoseAbortedSale(lineRefs.map(line => line.itemRef), warehouseId) }
+      }
+
+      console.error('Error creating agent invoice:', error)
+      return { success: false, error: 'فشل في إنشاء الفاتورة', errorCode: 'UNKNOWN' }
+    }
+  }
+
+  // التحقق من أن المنتج في مخزن الوكيل ومتاح للبيع
+  private static assertItemSellable(itemData: DocumentData, warehouseId: string) {
+    if (itemData.currentWarehouseId !== warehouseId) {
+      throw new AgentSaleError('WRONG_WAREHOUSE', `المنتج ${itemData.chassisNumber} ليس في مخزن الوكيل`)
+    }
+
+    if (itemData.status === 'sold') {
+      throw new AgentSaleError('ITEM_ALREADY_SOLD', `تم بيع المنتج ${itemData.chassisNumber} بالفعل في عملية أخرى`)
+    }
+
+    if (itemData.status !== 'available') {
+      throw new AgentSaleError('ITEM_UNAVAILABLE', `المنتج ${itemData.chassisNumber} غير متاح للبيع`)
+    }
+
+    if (itemData.returnRequestId) {
+      throw new AgentSaleError('ITEM_UNAVAILABLE', `المنتج ${itemData.chassisNumber} مطلوب إرجاعه للشركة`)
+    }
+  }
+
+  // المعاملة لم تنجح بعد إعادة المحاولات: قراءة المنتجات من جديد لإرجاع السبب الفعلي
+  // وليس كل تعارض يعني أن المنتج بيع (قد يكون تعديل رصيد الوكيل أو عداد الترقيم)
+  private static async diagnoseAbortedSale(
+    itemRefs: DocumentReference[],
+    warehouseId: string
+  ): Promise<{ error: string; errorCode: AgentSaleErrorCode }> {
+    try {
+      const itemDocs = await Promise.all(itemRefs.map(itemRef => getDoc(itemRef)))
+      itemDocs.forEach(itemDoc => {
+        if (!itemDoc.exists()) {
+          throw new AgentSaleError('ITEM_NOT_FOUND', 'أحد المنتجات غير موجود')
+        }
+        this.assertItemSellable(itemDoc.data(), warehouseId)
+      })
+    } catch (error) {
+      if (error instanceof AgentSaleError) {
+        return { error: error.message, errorCode: error.code }
+      }
+      console.error('Error re-reading items after aborted sale:', error)
+    }
+    return { error: 'تعذر حفظ البيع بسبب عملية أخرى متزامنة، يرجى إعادة المحاولة', errorCode: 'CONFLICT' }
+  }
+
+  // كتابة سطر بيع واحد: سجل البيع، حالة المنتج، معاملات الوكيل، وتتبع الوثائق
+  // تحديث إجماليات ورصيد الوكيل مسؤولية المستدعي
+  private static writeSaleLine(transaction: Transaction, line: SaleLineWrite): SaleLineTotals {
+    const { agentId, itemData, customer, saleRef } = line
+    const createdBy = line.createdBy || agentId
+
+    // حساب العمولة من الربح بدون الضريبة وليس من سعر البيع
+    const totals = calculateSaleLine(line.salePrice, itemData.purchasePrice, line.commissionRate, line.tax.options)
+    const taxFields = {
+      netAmount: totals.netAmount,
+      taxRate: totals.taxRate,
+      taxAmount: totals.taxAmount,
+      ...invoiceTaxFields(line.tax)
+    }
+    const invoiceFields = {
+      invoiceNumber: line.invoiceNumber,
+      ...(line.invoiceLine ? {
+        invoiceId: line.invoiceLine.invoiceId,
+        invoiceLineNumber: line.invoiceLine.lineNumber,
+        invoiceLineCount: line.invoiceLine.lineCount
+      } : {})
+    }
+
+    console.log('💰 [AGENT PERMISSIONS] Total profit:', totals.profit, 'Commission:', totals.agentCommission, 'Company share:', totals.companyShare)
+
+    // إنشاء سجل البيع
+    transaction.set(saleRef, {
+      agentId,
+      customerId: customer.customerId,
+      customerName: customer.customerName,
+      customerPhone: customer.customerPhone,
+      customerAddress: customer.customerAddress,
+      inventoryItemId: line.itemRef.id,
+      motorFingerprint: itemData.motorFingerprint,
+      chassisNumber: itemData.chassisNumber,
+      model: itemData.model,
+      brand: itemData.brand,
+      color: itemData.color,
+      purchasePrice: itemData.purchasePrice,
+      salePrice: totals.salePrice,
+      ...taxFields,
+      agentCommission: totals.agentCommission,
+      companyShare: totals.companyShare,
+      commissionRate: line.commissionRate,
+      customerIdImageUrl: line.customerIdImageUrl || null, // صورة بطاقة العميل
+      documentTrackingId: line.documentTrackingRef.id,
+      ...invoiceFields,
+      status: 'completed',
+      createdAt: serverTimestamp(),
+      updatedAt: serverTimestamp()
+    })
+
+    // تحديث حالة المنتج إلى مباع
+    transaction.update(line.itemRef, {
+      status: 'sold',
+      soldAt: serverTimestamp(),
+      soldToAgentId: agentId,
+      salePrice: totals.salePrice
+    })
+
+    // قيد البيع في الدفتر يحرك رصيد الوكيل بنصيب الشركة والضريبة
+    const posted = GeneralLedgerService.post(transaction, {
+      source: 'agent_sale',
+      sourceId: saleRef.id,
+      reference: line.invoiceNumber,
+      description: `بيع ${itemData.brand} ${itemData.model} للعميل ${customer.customerName} - فاتورة رقم ${line.invoiceNumber}`,
+      lines: agentSaleLines(agentId, totals),
+      postedBy: createdBy
+    }, { [agentId]: line.ledgerAgent })
+    const { previousBalance } = posted.balances[agentId]
+    const balanceAfterShare = previousBalance - totals.companyShare
+
+    // إنشاء معاملة واحدة للبيع (العمولة - نصيب الشركة)
+    transaction.set(doc(collection(db, 'agent_transactions')), {
+      agentId,
+      type: 'sale',
+      amount: totals.agentCommission - totals.companyShare,
+      description: `بيع ${itemData.brand} ${itemData.model} للعميل ${customer.customerName}`,
+      salePrice: totals.salePrice,
+      taxAmount: totals.taxAmount,
+      purchasePrice: itemData.purchasePrice,
+      agentCommission: totals.agentCommission,
+      companyShare: totals.companyShare,
+      commissionRate: line.commissionRate,
+      relatedSaleId: saleRef.id,
+      status: 'completed',
+      createdAt: serverTimestamp()
+    })
+
+    // إنشاء سجل تتبع الوثائق (الصورة المجمعة تضاف لاحقاً)
+    transaction.set(line.documentTrackingRef, {
+      saleTransactionId: saleRef.id,
+      agentId,
+      agentName: line.agentName, // إضافة اسم الوكيل
+      customerName: customer.customerName,
+      customerNationalId: customer.customerId,
+      customerPhone: customer.customerPhone,
+      customerAddress: customer.customerAddress,
+      inventoryItemId: line.itemRef.id,
+      motorFingerprint: itemData.motorFingerprint,
+      chassisNumber: itemData.chassisNumber,
+      motorBrand: itemData.brand,
+      motorModel: itemData.model,
+      salePrice: totals.salePrice,
+      ...taxFields,
+      purchasePrice: itemData.purchasePrice,
+      profit: totals.profit,
+      commissionRate: line.commissionRate,
+      agentCommission: totals.agentCommission,
+      companyShare: totals.companyShare,
+      ...invoiceFields,
+      customerIdImageUrl: line.customerIdImageUrl || null, // صورة بطاقة العميل
+      motorFingerprintImageUrl: itemData.motorFingerprintImageUrl || null, // صورة بصمة الموتور
+      chassisNumberImageUrl: itemData.chassisNumberImageUrl || null, // صورة رقم الشاسيه
+      combinedImageUrl: null, // الصورة المجمعة
+      // لا توجد صورة مجمعة بدون بطاقة العميل وصورة بصمة الموتور أو الشاسيه
+      compositeImageStatus: line.customerIdImageUrl && (itemData.motorFingerprintImageUrl || itemData.chassisNumberImageUrl)
+        ? 'pending'
+        : 'skipped',
+      status: 'pending_submission',
+      stages: [{
         status: 'pending_submission',
-        stages: [{
-          status: 'pending_submission',
-          date: currentTime,
-          updatedBy: agentId,
-          notes: 'تم إنشاء سجل تتبع الوثائق'
-        }],
+        date: new Date(),
+        updatedBy: createdBy,
+        notes: 'تم إنشاء سجل تتبع الوثائق'
+      }],
+      createdAt: serverTimestamp(),
+      updatedAt: serverTimestamp(),
+      createdBy
+    })
+
+    // إضافة معاملة مديونية فقط (بدون عمولة في الرصيد)
+    transaction.set(doc(collection(db, 'agent_transactions')), {
+      agentId,
+      type: 'debt_increase' as const,
+      amount: -totals.companyShare, // مديونية نصيب الشركة فقط
+      description: `مديونية نصيب المؤسسة - فاتورة رقم ${line.invoiceNumber}`,
+      saleId: saleRef.id,
+      saleAmount: totals.salePrice,
+      commission: totals.agentCommission, // للمعلومات فقط، لا تؤثر على الرصيد
+      companyShare: totals.companyShare,
+      previousBalance,
+      newBalance: balanceAfterShare,
+      journalEntryId: posted.entryId,
+      createdAt: serverTimestamp(),
+      createdBy
+    })
+
+    // الضريبة المحصلة من العميل مستحقة للمؤسسة (منفصلة عن توزيع الربح)
+    if (totals.taxAmount > 0) {
+      transaction.set(doc(collection(db, 'agent_transactions')), {
+        agentId,
+        type: 'debt_increase' as const,
+        amount: -totals.taxAmount,
+        description: `ضريبة القيمة المضافة المحصلة - فاتورة رقم ${line.invoiceNumber}`,
+        saleId: saleRef.id,
+        taxAmount: totals.taxAmount,
+        previousBalance: balanceAfterShare,
+        newBalance: balanceAfterShare - totals.taxAmount,
+        journalEntryId: posted.entryId,
         createdAt: serverTimestamp(),
-        updatedAt: serverTimestamp(),
-        createdBy: agentId
+        createdBy
       })
+    }
 
-      // تحديث إجماليات الوكيل (استخدام المتغيرات الموجودة)
-      if (agentDoc.exists()) {
-        const currentAgentData = agentDoc.data()
+    return totals
+  }
+  
+  // إنشاء ورفع الصورة المجمعة لسجل تتبع الوثائق مع إعادة المحاولة
+  // تعمل في الخلفية بعد البيع، ويمكن استدعاؤها لاحقاً لأي سجل حالته compositeImageStatus = 'failed'
+  // أو 'pending' إذا أغلقت الصفحة قبل اكتمالها ('skipped' لا يحتاج صورة مجمعة)
+  static async attachCompositeImage(
+    documentTrackingId: string,
+    images: {
+      customerIdImage: string
+      motorFingerprintImage?: string
+      chassisNumberImage?: string
+    },
+    customerId: string,
+    maxAttempts: number = 3
+  ): Promise<string | null> {
+    const documentRef = doc(db, 'document_tracking', documentTrackingId)
+    
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      try {
+        console.log(`🖼️ Creating composite image (attempt ${attempt}/${maxAttempts})...`)
+        const compositeImageDataUrl = await createCompositeImage(images)
         
-        // منطق الحساب الجديد:
-        // الوكيل لا يحصل على عمولة في رصيده، فقط يدين بنصيب الشركة
-        // الرصيد = الرصيد الحالي - نصيب الشركة فقط
-        const currentBalance = (currentAgentData.currentBalance || 0)
-        const newBalance = currentBalance - companyShare
+        // تحويل data URL إلى Blob
+        const base64Data = compositeImageDataUrl.split(',')[1]
+        const byteCharacters = atob(base64Data)
+        const byteNumbers = new Array(byteCharacters.length)
+        for (let i = 0; i < byteCharacters.length; i++) {
+          byteNumbers[i] = byteCharacters.charCodeAt(i)
+        }
+        const byteArray = new Uint8Array(byteNumbers)
+        const imageBlob = new Blob([byteArray], { type: 'image/png' })
         
-        await updateDoc(agentRef, {
-          totalSales: (Number(currentAgentData.totalSales) || 0) + saleData.salePrice,
-          totalCommission: (currentAgentData.totalCommission || 0) + agentCommission,
-          currentBalance: newBalance,
-          lastSaleAt: serverTimestamp(),
+        // رفع الصورة المجمعة إلى Cloudinary
+        const compositeResult = await uploadToCloudinary(imageBlob, {
+          folder: 'composite-documents',
+          tags: ['composite', 'agent-sale', 'customer-' + customerId]
+        })
+        
+        await updateDoc(documentRef, {
+          combinedImageUrl: compositeResult.secure_url,
+          compositeImageStatus: 'uploaded',
           updatedAt: serverTimestamp()
         })
         
-        // إضافة معاملة مديونية فقط (بدون عمولة في الرصيد)
-        console.log('📝 [AGENT PERMISSIONS] Adding debt transaction only...')
-        const debtTransaction = {
-          agentId,
-          type: 'debt_increase' as const,
-          amount: -companyShare, // مديونية نصيب الشركة فقط
-          description: `مديونية نصيب المؤسسة - فاتورة رقم ${saleDoc.id.slice(-6)}`,
-          saleId: saleDoc.id,
-          saleAmount: saleData.salePrice,
-          commission: agentCommission, // للمعلومات فقط، لا تؤثر على الرصيد
-          companyShare: companyShare,
-          createdAt: serverTimestamp(),
-          createdBy: agentId
+        console.log('✅ Composite image created and uploaded:', compositeResult.secure_url)
+        return compositeResult.secure_url
+      } catch (error) {
+        console.error(`⚠️ Error creating composite image (attempt ${attempt}):`, error)
+        if (attempt < maxAttempts) {
+          await sleep(attempt * 1000)
         }
-        console.log('📝 [AGENT PERMISSIONS] Debt transaction data:', debtTransaction)
-        await addDoc(collection(db, 'agent_transactions'), debtTransaction)
-        console.log('✅ [AGENT PERMISSIONS] Debt transaction added successfully')
-        
-        console.log(`💰 [AGENT PERMISSIONS] Agent balance calculation: ${currentBalance} - ${companyShare} = ${newBalance}`)
-        console.log(`📝 [AGENT PERMISSIONS] Added debt transaction only: -${companyShare} (company share from profit)`)
-        console.log(`🚫 [AGENT PERMISSIONS] Agent commission (${agentCommission}) NOT added to balance as requested`)
-        console.log(`🎯 [AGENT PERMISSIONS] Note: Agent gets commission separately, not in account balance`)
       }
-      
-      return { success: true, saleId: saleDoc.id }
-      
+    }
+    
+    try {
+      await updateDoc(documentRef, {
+        compositeImageStatus: 'failed',
+        updatedAt: serverTimestamp()
+      })
     } catch (error) {
-      console.error('Error creating agent sale:', error)
-      return { success: false, error: 'فشل في إنشاء البيع' }
+      console.error('Error marking composite image as failed:', error)
     }
+    
+    return null
   }
   
   // حساب إجماليات الوكيل
@@ -610,6 +1055,14 @@ export function useAgentPermissions() {
   const createAgentSale = async (agentId: string, warehouseId: string, saleData: any) => {
     return await AgentPermissionsService.createAgentSale(agentId, warehouseId, saleData)
   }
+
+  const createAgentInvoice = async (
+    agentId: string,
+    warehouseId: string,
+    invoiceData: Parameters<typeof AgentPermissionsService.createAgentInvoice>[2]
+  ) => {
+    return await AgentPermissionsService.createAgentInvoice(agentId, warehouseId, invoiceData)
+  }
   
   return {
     checkAgentAccess,
@@ -619,6 +1072,7 @@ export function useAgentPermissions() {
     getAgentSales,
     getAgentTransactions,
     getAgentSummary,
-    createAgentSale
+    createAgentSale,
+    createAgentInvoice
   }
 }
@@ -0,0 +1,192 @@
+// قواعد تسعير التحويل لكل وكيل: سعر التكلفة أو التكلفة مع هامش ثابت أو نسبة أو سعر ثابت، مع نسبة عمولة لكل موديل أو نوع مركبة
+
+import {
+  collection,
+  deleteDoc,
+  doc,
+  getDocs,
+  query,
+  setDoc,
+  where,
+  serverTimestamp
+} from 'firebase/firestore'
+import { db } from '../firebase/firebase-config.template'
+import { normalizeCatalogName, VehicleCatalog } from './vehicleCatalog'
+import { vehicleTypeTranslations } from './utils'
+import { AgentPricingMethod, AgentPricingRule, AgentPricingScope, InventoryItem, VehicleType } from '../types'
+
+export interface AgentPricingRuleInput {
+  agentId: string
+  scope: AgentPricingScope
+  vehicleType: VehicleType
+  modelId?: string
+  method: AgentPricingMethod
+  value: number
+  commissionPercentage: number
+}
+
+export interface AgentPricingResult {
+  success: boolean
+  error?: string
+}
+
+// السعر والعمولة المقترحان لوحدة واحدة، مع القاعدة التي أنتجتهما
+export interface TransferItemPricing {
+  transferPrice: number
+  commissionPercentage: number
+  ruleId?: string
+  ruleLabel: string
+  overridden: boolean
+}
+
+export const agentPricingScopeLabels: Record<AgentPricingScope, string> = {
+  default: 'كل الوحدات',
+  type: 'نوع المركبة',
+  model: 'الموديل'
+}
+
+export const agentPricingMethodLabels: Record<AgentPricingMethod, string> = {
+  cost: 'سعر التكلفة',
+  cost_plus_fixed: 'التكلفة + هامش ثابت',
+  cost_plus_percent: 'التكلفة + نسبة',
+  fixed_price: 'سعر ثابت'
+}
+
+// عمولة الوكيل عند عدم وجود أي قاعدة، كما كانت تقترح صفحة التحويل سابقاً
+export const DEFAULT_TRANSFER_COMMISSION = 10
+
+const roundAmount = (value: number) => Math.round(value * 100) / 100
+
+export const agentPricingRuleId = (agentId: string, scope: AgentPricingScope, key: string) => `${agentId}_${scope}_${key}`
+
+export const agentPricingRuleLabel = (rule: Pick<AgentPricingRule, 'scope' | 'vehicleType' | 'brand' | 'model'>) =>
+  rule.scope === 'model'
+    ? `${rule.brand || ''} ${rule.model || ''}`.trim()
+    : rule.scope === 'type' && rule.vehicleType ? vehicleTypeTranslations[rule.vehicleType] : agentPricingScopeLabels.default
+
+export const describePricingMethod = (rule: Pick<AgentPricingRule, 'method' | 'value'>) => {
+  switch (rule.method) {
+    case 'cost_plus_fixed': return `التكلفة + ${rule.value.toLocaleString()} جنيه`
+    case 'cost_plus_percent': return `التكلفة + ${rule.value}%`
+    case 'fixed_price': return `${rule.value.toLocaleString()} جنيه`
+    default: return agentPricingMethodLabels.cost
+  }
+}
+
+export function applyPricingMethod(cost: number, method: AgentPricingMethod, value: number): number {
+  switch (method) {
+    case 'cost_plus_fixed': return roundAmount(cost + value)
+    case 'cost_plus_percent': return roundAmount(cost * (1 + value / 100))
+    case 'fixed_price': return roundAmount(value)
+    default: return roundAmount(cost)
+  }
+}
+
+// الأصناف غير المربوطة بالكتالوج تطابق الموديل بالاسم
+function matchesRule(item: InventoryItem, rule: AgentPricingRule): boolean {
+  if (rule.scope === 'default') return true
+  if (rule.scope === 'type') return item.type === rule.vehicleType
+  if (item.modelId) return item.modelId === rule.modelId
+  return normalizeCatalogName(item.brand || '') === normalizeCatalogName(rule.brand || '')
+    && normalizeCatalogName(item.model || '') === normalizeCatalogName(rule.model || '')
+}
+
+const scopePriority: Record<AgentPricingScope, number> = { model: 0, type: 1, default: 2 }
+
+// القاعدة الأكثر تحديداً تطبق: الموديل ثم نوع المركبة ثم القاعدة العامة
+export function resolveTransferPricing(item: InventoryItem, rules: AgentPricingRule[]): TransferItemPricing {
+  const cost = Number(item.purchasePrice) || 0
+  const rule = rules
+    .filter(entry => matchesRule(item, entry))
+    .sort((a, b) => scopePriority[a.scope] - scopePriority[b.scope])[0]
+
+  if (!rule) {
+    return {
+      transferPrice: roundAmount(cost),
+      commissionPercentage: DEFAULT_TRANSFER_COMMISSION,
+      ruleLabel: 'بدون قاعدة - سعر التكلفة',
+      overridden: false
+    }
+  }
+
+  return {
+    transferPrice: applyPricingMethod(cost, rule.method, rule.value),
+    commissionPercentage: rule.commissionPercentage,
+    ruleId: rule.id,
+    ruleLabel: `${agentPricingRuleLabel(rule)}: ${describePricingMethod(rule)}`,
+    overridden: false
+  }
+}
+
+export class AgentPricingService {
+
+  static async getRules(agentId: string): Promise<AgentPricingRule[]> {
+    try {
+      const snapshot = await getDocs(query(collection(db, 'agent_pricing_rules'), where('agentId', '==', agentId)))
+      return snapshot.docs
+        .map(ruleDoc => ({ id: ruleDoc.id, ...ruleDoc.data() }) as AgentPricingRule)
+        .sort((a, b) => scopePriority[a.scope] - scopePriority[b.scope]
+          || agentPricingRuleLabel(a).localeCompare(agentPricingRuleLabel(b), 'ar'))
+    } catch (error) {
+      console.error('Error loading agent pricing rules:', error)
+      return []
+    }
+  }
+
+  // مستند واحد لكل وكيل ونطاق، فالحفظ مرة أخرى يعدل القاعدة بدلاً من تكرارها
+  static async saveRule(input: AgentPricingRuleInput, catalog: VehicleCatalog, userId: string): Promise<AgentPricingResult> {
+    try {
+      if (!Number.isFinite(input.value) || input.value < 0) {
+        return { success: false, error: 'قيمة التسعير يجب أن تكون رقماً موجباً' }
+      }
+      if (input.method === 'fixed_price' && input.value <= 0) {
+        return { success: false, error: 'يرجى إدخال السعر الثابت' }
+      }
+      if (!Number.isFinite(input.commissionPercentage) || input.commissionPercentage < 0 || input.commissionPercentage > 100) {
+        return { success: false, error: 'نسبة العمولة يجب أن تكون بين 0 و 100' }
+      }
+
+      let data: Omit<AgentPricingRule, 'id' | 'updatedAt' | 'updatedBy'>
+      const pricing = {
+        agentId: input.agentId,
+        method: input.method,
+        value: input.method === 'cost' ? 0 : input.value,
+        commissionPercentage: input.commissionPercentage
+      }
+      if (input.scope === 'model') {
+        const model = catalog.models.find(entry => entry.id === input.modelId)
+        const brand = model && catalog.brands.find(entry => entry.id === model.brandId)
+        if (!model || !brand) {
+          return { success: false, error: 'يرجى اختيار الموديل من الكتالوج' }
+        }
+        data = { ...pricing, scope: 'model', vehicleType: model.type, modelId: model.id, brand: brand.name, model: model.name }
+      } else if (input.scope === 'type') {
+        data = { ...pricing, scope: 'type', vehicleType: input.vehicleType }
+      } else {
+        data = { ...pricing, scope: 'default' }
+      }
+
+      const key = data.scope === 'model' ? data.modelId! : data.scope === 'type' ? data.vehicleType! : 'all'
+      await setDoc(doc(db, 'agent_pricing_rules', agentPricingRuleId(data.agentId, data.scope, key)), {
+        ...data,
+        updatedAt: serverTimestamp(),
+        updatedBy: userId
+      })
+
+      return { success: true }
+    } catch (error) {
+      console.error('Error saving agent pricing rule:', error)
+      return { success: false, error: error instanceof Error ? error.message : 'فشل في حفظ قاعدة التسعير' }
+    }
+  }
+
+  static async deleteRule(ruleId: string): Promise<AgentPricingResult> {
+    try {
+      await deleteDoc(doc(db, 'agent_pricing_rules', ruleId))
+      return { success: true }
+    } catch (error) {
+      console.error('Error deleting agent pricing rule:', error)
+      return { success: false, error: error instanceof Error ? error.message : 'فشل في حذف قاعدة التسعير' }
+    }
+  }
+}
@@ -0,0 +1,104 @@
+// ترقيم مسلسل بدون فجوات للفواتير والسندات حسب نوع المستند والسنة
+
+import {
+  doc,
+  runTransaction,
+  serverTimestamp,
+  Transaction
+} from 'firebase/firestore'
+import { db } from '../firebase/firebase-config.template'
+import { settingsService } from './settingsService'
+import { DocumentSeries, DEFAULT_SYSTEM_SETTINGS } from '../types/settings'
+
+// البادئة الافتراضية لكل نوع مستند (يمكن تغييرها من business.documentPrefixes)
+export const DOCUMENT_SERIES_PREFIXES: Record<DocumentSeries, string> = {
+  sales_invoice: 'INV',
+  agent_invoice: 'AI',
+  receipt_voucher: 'RCPT',
+  credit_note: 'CN',
+  transfer_note: 'TR',
+  purchase_order: 'PO',
+  goods_receipt: 'GRN',
+  payment_voucher: 'PV',
+  landed_cost: 'LC',
+  stock_return: 'RT',
+  installment_contract: 'IC'
+}
+
+export const documentSeriesLabels: Record<DocumentSeries, string> = {
+  sales_invoice: 'فاتورة بيع',
+  agent_invoice: 'فاتورة وكيل',
+  receipt_voucher: 'سند قبض',
+  credit_note: 'إشعار دائن',
+  transfer_note: 'إذن تحويل',
+  purchase_order: 'أمر شراء',
+  goods_receipt: 'إذن استلام',
+  payment_voucher: 'سند صرف',
+  landed_cost: 'مستند تكاليف شحنة',
+  stock_return: 'مرتجع وكيل',
+  installment_contract: 'عقد تقسيط'
+}
+
+const SEQUENCE_LENGTH = 6
+
+// مثال: ALF-INV-2026-000042
+export function formatDocumentNumber(idPrefix: string, seriesPrefix: string, year: number, sequence: number): string {
+  const parts = [idPrefix, seriesPrefix, String(year), String(sequence).padStart(SEQUENCE_LENGTH, '0')]
+  return parts.filter(Boolean).join('-')
+}
+
+export class DocumentNumberingService {
+
+  // قراءة البادئات من إعدادات النظام مع الرجوع للقيم الافتراضية
+  private static async getPrefixes(series: DocumentSeries): Promise<{ idPrefix: string; seriesPrefix: string }> {
+    try {
+      const settings = await settingsService.getSystemSettings()
+      return {
+        idPrefix: settings.business?.idPrefix ?? DEFAULT_SYSTEM_SETTINGS.business.idPrefix,
+        seriesPrefix: settings.business?.documentPrefixes?.[series] || DOCUMENT_SERIES_PREFIXES[series]
+      }
+    } catch (error) {
+      console.error('Error loading numbering prefixes:', error)
+      return {
+        idPrefix: DEFAULT_SYSTEM_SETTINGS.business.idPrefix,
+        seriesPrefix: DOCUMENT_SERIES_PREFIXES[series]
+      }
+    }
+  }
+
+  // حجز الرقم التالي داخل معاملة قائمة حتى يُحفظ الرقم مع المستند أو لا يُحفظ إطلاقاً
+  // يجب استدعاؤها قبل أي كتابة داخل المعاملة (Firestore يشترط القراءة أولاً)
+  static async allocate(transaction: Transaction, series: DocumentSeries, date: Date = new Date()): Promise<string> {
+    const [documentNumber] = await this.allocateMany(transaction, [series], date)
+    return documentNumber
+  }
+
+  // حجز أرقام من أكثر من سلسلة في نفس المعاملة (مثل فاتورة وعقد تقسيط)
+  // كل العدادات تقرأ أولاً ثم تكتب، لأن استدعاء allocate مرتين يضع قراءة بعد كتابة
+  static async allocateMany(transaction: Transaction, seriesList: DocumentSeries[], date: Date = new Date()): Promise<string[]> {
+    const year = date.getFullYear()
+    const prefixes = await Promise.all(seriesList.map(series => this.getPrefixes(series)))
+    const counterRefs = seriesList.map(series => doc(db, 'counters', `${series}_${year}`))
+
+    const counterDocs = await Promise.all(counterRefs.map(counterRef => transaction.get(counterRef)))
+
+    return seriesList.map((series, index) => {
+      const counterDoc = counterDocs[index]
+      const sequence = (counterDoc.exists() ? Number(counterDoc.data().lastNumber) || 0 : 0) + 1
+
+      transaction.set(counterRefs[index], {
+        series,
+        year,
+        lastNumber: sequence,
+        updatedAt: serverTimestamp()
+      })
+
+      return formatDocumentNumber(prefixes[index].idPrefix, prefixes[index].seriesPrefix, year, sequence)
+    })
+  }
+
+  // حجز الرقم التالي في معاملة مستقلة (للمستندات التي لا تُنشأ داخل معاملة)
+  static async next(series: DocumentSeries, date: Date = new Date()): Promise<string> {
+    return runTransaction(db, (transaction) => this.allocate(transaction, series, date))
+  }
+}
@@ -0,0 +1,447 @@
+// الفاتورة الإلكترونية لمصلحة الضرائب المصرية: تحويل المبيعات إلى مستندات ETA، التحقق منها، وتجهيزها للتوقيع
+
+import {
+  collection,
+  query,
+  where,
+  getDocs,
+  Timestamp
+} from 'firebase/firestore'
+import { z } from 'zod'
+import { db } from '../firebase/firebase-config.template'
+import { settingsService } from './settingsService'
+import { DEFAULT_SYSTEM_SETTINGS, SystemSettings } from '../types/settings'
+import { SaleSource } from '../types'
+
+export type EtaSettings = NonNullable<SystemSettings['integrations']['eta']>
+
+// ================================
+// ETA document schema (documentType "I")
+// ================================
+
+const amount = z.number().finite().nonnegative()
+const nonEmpty = z.string().trim().min(1, 'مطلوب')
+
+const etaAddressSchema = z.object({
+  branchID: z.string().optional(),
+  country: z.string().length(2, 'رمز الدولة يجب أن يكون حرفين'),
+  governate: z.string(),
+  regionCity: z.string(),
+  street: z.string(),
+  buildingNumber: z.string()
+})
+
+const etaTaxableItemSchema = z.object({
+  taxType: nonEmpty,
+  amount,
+  subType: nonEmpty,
+  rate: z.number().min(0).max(100)
+})
+
+const etaInvoiceLineSchema = z.object({
+  description: nonEmpty,
+  itemType: z.enum(['EGS', 'GS1']),
+  itemCode: nonEmpty,
+  unitType: nonEmpty,
+  quantity: z.number().positive(),
+  internalCode: z.string(),
+  salesTotal: amount,
+  total: amount,
+  valueDifference: amount,
+  totalTaxableFees: amount,
+  netTotal: amount,
+  itemsDiscount: amount,
+  unitValue: z.object({
+    currencySold: z.literal('EGP'),
+    amountEGP: amount
+  }),
+  discount: z.object({
+    rate: z.number().min(0).max(100),
+    amount
+  }),
+  taxableItems: z.array(etaTaxableItemSchema).min(1, 'يجب تحديد ضريبة واحدة على الأقل لكل سطر')
+})
+
+export const etaDocumentSchema = z.object({
+  issuer: z.object({
+    address: etaAddressSchema.extend({ branchID: nonEmpty }),
+    type: z.literal('B'),
+    id: z.string().regex(/^\d{9}$/, 'رقم التسجيل الضريبي للمؤسسة يجب أن يكون 9 أرقام'),
+    name: nonEmpty
+  }),
+  receiver: z.object({
+    address: etaAddressSchema.partial().optional(),
+    type: z.enum(['B', 'P', 'F']),
+    id: z.string(),
+    name: nonEmpty
+  }),
+  documentType: z.literal('I'),
+  documentTypeVersion: z.enum(['0.9', '1.0']),
+  dateTimeIssued: z.string().regex(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}Z$/, 'صيغة التاريخ غير صحيحة'),
+  taxpayerActivityCode: z.string().regex(/^\d{4}$/, 'كود النشاط يجب أن يكون 4 أرقام'),
+  internalID: nonEmpty,
+  invoiceLines: z.array(etaInvoiceLineSchema).min(1, 'الفاتورة بدون أسطر'),
+  totalDiscountAmount: amount,
+  totalSalesAmount: amount,
+  netAmount: amount,
+  taxTotals: z.array(z.object({ taxType: nonEmpty, amount })),
+  totalAmount: amount,
+  extraDiscountAmount: amount,
+  totalItemsDiscountAmount: amount,
+  signatures: z.array(z.object({
+    signatureType: z.enum(['I', 'S']),
+    value: nonEmpty
+  })).optional()
+})
+
+export type EtaDocument = z.infer<typeof etaDocumentSchema>
+export type EtaInvoiceLine = z.infer<typeof etaInvoiceLineSchema>
+
+// ================================
+// Sale records normalized for export
+// ================================
+
+export interface EtaSourceLine {
+  brand: string
+  model: string
+  chassisNumber: string
+  motorFingerprint: string
+  netAmount: number // بعد الخصم وقبل الضريبة
+  discountAmount: number // خصم السطر ونصيبه من خصم الفاتورة
+  taxAmount: number
+  taxRate: number
+}
+
+export interface EtaInvoiceSource {
+  key: string // company_sale:<id> أو agent_sale:<invoiceId>
+  saleSource: SaleSource
+  documentPaths: string[] // المستندات التي تسجل عليها حالة الإرسال
+  internalId: string
+  issuedAt: Date
+  customerName: string
+  customerNationalId: string
+  customerAddress: string
+  taxExempt: boolean
+  lines: EtaSourceLine[]
+  totalAmount: number
+  eta?: EtaSubmissionState
+}
+
+// حالة المستند في منظومة الفاتورة الإلكترونية (تحفظ على سجلات البيع)
+export interface EtaSubmissionState {
+  status: 'submitted' | 'rejected'
+  submissionId?: string
+  uuid?: string
+  longId?: string
+  error?: string
+  submittedAt: Timestamp
+  submittedBy: string
+}
+
+export interface EtaIssuer {
+  taxNumber: string
+  name: string
+  settings: EtaSettings
+}
+
+// الفاتورة التي يتجاوز إجماليها هذا الحد يجب أن تحمل الرقم القومي للمشتري
+export const ETA_RECEIVER_ID_THRESHOLD = 50000
+
+const ETA_VAT_TAX_TYPE = 'T1'
+const ETA_VAT_GENERAL_SUBTYPE = 'V009' // مبيعات سلع وخدمات عامة
+const ETA_VAT_EXEMPT_SUBTYPE = 'V003' // سلع أو خدمات معفاة
+
+const roundAmount = (value: number) => Math.round(value * 100000) / 100000
+
+const toEtaDateTime = (date: Date) => date.toISOString().replace(/\.\d{3}Z$/, 'Z')
+
+// كود الصنف المسجل في المنظومة حسب الماركة والموديل أو الكود الافتراضي
+export function resolveItemCode(settings: EtaSettings, brand: string, model: string): string {
+  return settings.itemCodes?.[`${brand} ${model}`.trim()] || settings.defaultItemCode
+}
+
+export function buildEtaInvoiceLine(line: EtaSourceLine, settings: EtaSettings, taxExempt: boolean): EtaInvoiceLine {
+  // إجمالي البيع قبل الخصم، والصافي بعده هو وعاء الضريبة
+  const netTotal = roundAmount(line.netAmount)
+  const discountAmount = roundAmount(line.discountAmount)
+  const salesTotal = roundAmount(netTotal + discountAmount)
+  const taxAmount = taxExempt ? 0 : roundAmount(line.taxAmount)
+
+  return {
+    description: `${line.brand} ${line.model} - شاسيه ${line.chassisNumber}`.trim(),
+    itemType: settings.itemType,
+    itemCode: resolveItemCode(settings, line.brand, line.model),
+    unitType: 'EA',
+    quantity: 1,
+    internalCode: line.chassisNumber,
+    salesTotal,
+    total: roundAmount(netTotal + taxAmount),
+    valueDifference: 0,
+    totalTaxableFees: 0,
+    netTotal,
+    itemsDiscount: 0,
+    unitValue: {
+      currencySold: 'EGP',
+      amountEGP: salesTotal
+    },
+    discount: {
+      rate: salesTotal > 0 ? roundAmount(discountAmount / salesTotal * 100) : 0,
+      amount: discountAmount
+    },
+    taxableItems: [{
+      taxType: ETA_VAT_TAX_TYPE,
+      amount: taxAmount,
+      subType: taxExempt ? ETA_VAT_EXEMPT_SUBTYPE : ETA_VAT_GENERAL_SUBTYPE,
+      rate: taxExempt ? 0 : line.taxRate
+    }]
+  }
+}
+
+// إنشاء مستند ETA من فاتورة البيع (بدون توقيع)
+export function buildEtaDocument(source: EtaInvoiceSource, issuer: EtaIssuer): EtaDocument {
+  const { settings } = issuer
+  const invoiceLines = source.lines.map(line => buildEtaInvoiceLine(line, settings, source.taxExempt))
+
+  const sum = (values: number[]) => roundAmount(values.reduce((total, value) => total + value, 0))
+  const totalSalesAmount = sum(invoiceLines.map(line => line.salesTotal))
+  const totalDiscountAmount = sum(invoiceLines.map(line => line.discount.amount))
+  const netAmount = sum(invoiceLines.map(line => line.netTotal))
+  const totalTax = sum(invoiceLines.flatMap(line => line.taxableItems.map(item => item.amount)))
+
+  return {
+    issuer: {
+      address: {
+        branchID: settings.branchId,
+        country: settings.address.country,
+        governate: settings.address.governate,
+        regionCity: settings.address.regionCity,
+        street: settings.address.street,
+        buildingNumber: settings.address.buildingNumber
+      },
+      type: 'B',
+      id: issuer.taxNumber,
+      name: issuer.name
+    },
+    receiver: {
+      ...(source.customerAddress ? { address: { country: 'EG', street: source.customerAddress } } : {}),
+      type: 'P',
+      id: source.customerNationalId,
+      name: source.customerName
+    },
+    documentType: 'I',
+    documentTypeVersion: settings.documentTypeVersion,
+    dateTimeIssued: toEtaDateTime(source.issuedAt),
+    taxpayerActivityCode: settings.activityCode,
+    internalID: source.internalId,
+    invoiceLines,
+    totalDiscountAmount,
+    totalSalesAmount,
+    netAmount,
+    taxTotals: [{ taxType: ETA_VAT_TAX_TYPE, amount: totalTax }],
+    totalAmount: roundAmount(netAmount + totalTax),
+    extraDiscountAmount: 0,
+    totalItemsDiscountAmount: 0
+  }
+}
+
+// التحقق المحلي: مطابقة المخطط ثم قواعد الحساب التي ترفض المنظومة المستند بسببها
+// التوقيع لا يطلب عند التصدير لأن المستند يوقع خارج النظام بعد تنزيله
+export function validateEtaDocument(document: EtaDocument, options: { requireSignature?: boolean } = {}): string[] {
+  const parsed = etaDocumentSchema.safeParse(document)
+  const errors = parsed.success
+    ? []
+    : parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`)
+
+  const close = (a: number, b: number) => Math.abs(a - b) < 0.00001
+
+  document.invoiceLines?.forEach((line, index) => {
+    const prefix = `invoiceLines.${index}`
+    const lineTax = line.taxableItems.reduce((total, item) => total + item.amount, 0)
+
+    if (!close(line.salesTotal, line.quantity * line.unitValue.amountEGP)) {
+      errors.push(`${prefix}.salesTotal: لا يساوي الكمية × سعر الوحدة`)
+    }
+    if (!close(line.netTotal, line.salesTotal - line.discount.amount)) {
+      errors.push(`${prefix}.netTotal: لا يساوي إجمالي البيع - الخصم`)
+    }
+    if (!close(line.total, line.netTotal + lineTax + line.totalTaxableFees - line.itemsDiscount)) {
+      errors.push(`${prefix}.total: لا يساوي الصافي + الضرائب`)
+    }
+    line.taxableItems.forEach((item, itemIndex) => {
+      if (item.subType === ETA_VAT_GENERAL_SUBTYPE && item.rate === 0) {
+        errors.push(`${prefix}.taxableItems.${itemIndex}: لا توجد ضريبة محسوبة على السطر والعميل غير معفى`)
+      } else if (!close(item.amount, roundAmount(line.netTotal * item.rate / 100)) && Math.abs(item.amount - line.netTotal * item.rate / 100) > 0.01) {
+        errors.push(`${prefix}.taxableItems.${itemIndex}.amount: لا يطابق نسبة الضريبة`)
+      }
+    })
+  })
+
+  const lines = document.invoiceLines || []
+  const lineSum = (pick: (line: EtaInvoiceLine) => number) => lines.reduce((total, line) => total + pick(line), 0)
+  const taxSum = (document.taxTotals || []).reduce((total, tax) => total + tax.amount, 0)
+
+  if (!close(document.totalSalesAmount, lineSum(line => line.salesTotal))) {
+    errors.push('totalSalesAmount: لا يساوي مجموع الأسطر')
+  }
+  if (!close(document.netAmount, lineSum(line => line.netTotal))) {
+    errors.push('netAmount: لا يساوي مجموع صافي الأسطر')
+  }
+  if (!close(taxSum, lineSum(line => line.taxableItems.reduce((total, item) => total + item.amount, 0)))) {
+    errors.push('taxTotals: لا يساوي مجموع ضرائب الأسطر')
+  }
+  if (!close(document.totalAmount, document.netAmount + taxSum - document.extraDiscountAmount)) {
+    errors.push('totalAmount: لا يساوي الصافي + الضرائب - الخصم الإضافي')
+  }
+  if (document.receiver?.type === 'P' && document.totalAmount >= ETA_RECEIVER_ID_THRESHOLD && !/^\d{14}$/.test(document.receiver.id)) {
+    errors.push(`receiver.id: الرقم القومي للمشتري مطلوب للفواتير من ${ETA_RECEIVER_ID_THRESHOLD.toLocaleString()} جنيه`)
+  }
+  if (options.requireSignature && document.documentTypeVersion === '1.0' && !document.signatures?.length) {
+    errors.push('signatures: الإصدار 1.0 يتطلب توقيعاً إلكترونياً قبل الإرسال')
+  }
+
+  return errors
+}
+
+// الصيغة الموحدة للتوقيع حسب خوارزمية المنظومة: اسم كل خاصية بحروف كبيرة ثم قيمتها بين علامتي تنصيص،
+// وعناصر المصفوفة يسبق كل منها اسم المصفوفة. التوقيعات نفسها لا تدخل في الصيغة الموحدة
+export function canonicalizeEtaDocument(document: EtaDocument): string {
+  const { signatures: _signatures, ...unsigned } = document
+
+  const serialize = (value: unknown): string => {
+    if (value === null || typeof value !== 'object') {
+      return `"${String(value ?? '')}"`
+    }
+
+    return Object.entries(value as Record<string, unknown>)
+      .map(([key, child]) => {
+        const name = `"${key.toUpperCase()}"`
+        if (Array.isArray(child)) {
+          return name + child.map(element => name + serialize(element)).join('')
+        }
+        return name + serialize(child)
+      })
+      .join('')
+  }
+
+  return serialize(unsigned)
+}
+
+// ================================
+// Loading sale records
+// ================================
+
+export class EtaInvoiceService {
+
+  // بيانات المصدر من إعدادات النظام
+  static async getIssuer(): Promise<EtaIssuer> {
+    const settings = await settingsService.getSystemSettings()
+    return {
+      taxNumber: (settings.companyInfo?.taxNumber || '').replace(/\D/g, ''),
+      name: settings.companyInfo?.name || DEFAULT_SYSTEM_SETTINGS.companyInfo.name,
+      settings: {
+        ...DEFAULT_SYSTEM_SETTINGS.integrations.eta!,
+        ...settings.integrations?.eta
+      }
+    }
+  }
+
+  // فواتير الشركة وفواتير الوكلاء في الفترة، كل فاتورة وكيل تجمع أسطرها من سجلات البيع
+  static async getInvoiceSources(dateFrom: Date, dateTo: Date): Promise<EtaInvoiceSource[]> {
+    const inRange = (collectionName: string) => getDocs(query(
+      collection(db, collectionName),
+      where('createdAt', '>=', Timestamp.fromDate(dateFrom)),
+      where('createdAt', '<=', Timestamp.fromDate(dateTo))
+    ))
+
+    const [companySales, agentSales] = await Promise.all([inRange('company_sales'), inRange('sales')])
+
+    // الفواتير المرتجعة بالكامل لا ترسل، والمرتجع جزئياً ترسل أسطره الباقية فقط
+    const companySources: EtaInvoiceSource[] = companySales.docs.flatMap(saleDoc => {
+      const data = saleDoc.data()
+      if (data.status === 'returned') return []
+
+      const lines: EtaSourceLine[] = (data.items || [])
+        .filter((item: any) => !item.returned)
+        .map((item: any) => {
+          const taxAmount = Number(item.taxAmount) || 0
+          return {
+            brand: item.brand || '',
+            model: item.model || '',
+            chassisNumber: item.chassisNumber || '',
+            motorFingerprint: item.motorFingerprint || '',
+            netAmount: Number(item.netAmount ?? (Number(item.salePrice) || 0) - taxAmount) || 0,
+            discountAmount: Number(item.discountAmount) || 0,
+            taxAmount,
+            taxRate: Number(data.taxRate) || 0
+          }
+        })
+      if (lines.length === 0) return []
+
+      return [{
+        key: `company_sale:${saleDoc.id}`,
+        saleSource: 'company_sale',
+        documentPaths: [`company_sales/${saleDoc.id}`],
+        internalId: data.invoiceNumber || data.transactionId || saleDoc.id,
+        issuedAt: data.createdAt?.toDate ? data.createdAt.toDate() : new Date(),
+        customerName: data.customerName || '',
+        customerNationalId: data.customerId || '',
+        customerAddress: data.customerAddress || '',
+        taxExempt: !!data.taxExempt,
+        lines,
+        totalAmount: data.status === 'partially_returned'
+          ? lines.reduce((sum, line) => sum + line.netAmount + line.taxAmount, 0)
+          : Number(data.totalAmount) || 0,
+        ...(data.eta ? { eta: data.eta } : {})
+      }]
+    })
+
+    // أسطر فاتورة الوكيل الواحدة لها نفس invoiceId، والمبيعات القديمة كل سطر فاتورة مستقلة
+    const agentInvoices = new Map<string, EtaInvoiceSource>()
+    agentSales.docs.forEach(saleDoc => {
+      const data = saleDoc.data()
+      if (data.status === 'returned') return
+
+      const invoiceKey = data.invoiceId || data.invoiceNumber || saleDoc.id
+      const taxAmount = Number(data.taxAmount) || 0
+      const line: EtaSourceLine = {
+        brand: data.brand || '',
+        model: data.model || '',
+        chassisNumber: data.chassisNumber || '',
+        motorFingerprint: data.motorFingerprint || '',
+        netAmount: Number(data.netAmount ?? (Number(data.salePrice) || 0) - taxAmount) || 0,
+        discountAmount: Number(data.discountAmount) || 0,
+        taxAmount,
+        taxRate: Number(data.taxRate) || 0
+      }
+
+      const existing = agentInvoices.get(invoiceKey)
+      if (existing) {
+        existing.lines.push(line)
+        existing.documentPaths.push(`sales/${saleDoc.id}`)
+        existing.totalAmount += Number(data.salePrice) || 0
+        return
+      }
+
+      agentInvoices.set(invoiceKey, {
+        key: `agent_sale:${invoiceKey}`,
+        saleSource: 'agent_sale',
+        documentPaths: [
+          `sales/${saleDoc.id}`,
+          ...(data.invoiceId ? [`sales_transactions/${data.invoiceId}`] : [])
+        ],
+        internalId: data.invoiceNumber || saleDoc.id,
+        issuedAt: data.createdAt?.toDate ? data.createdAt.toDate() : new Date(),
+        customerName: data.customerName || '',
+        customerNationalId: data.customerId || '',
+        customerAddress: data.customerAddress || '',
+        taxExempt: !!data.taxExempt,
+        lines: [line],
+        totalAmount: Number(data.salePrice) || 0,
+        ...(data.eta ? { eta: data.eta } : {})
+      })
+    })
+
+    return [...companySources, ...agentInvoices.values()]
+      .sort((a, b) => a.issuedAt.getTime() - b.issuedAt.getTime())
+  }
+}
@@ -0,0 +1,182 @@
+// إرسال مستندات الفاتورة الإلكترونية إلى منظومة مصلحة الضرائب
+// العميل منفصل خلف واجهة حتى يمكن توجيهه إلى خادم محلي وهمي أثناء الاختبار
+
+import { doc, writeBatch, Timestamp } from 'firebase/firestore'
+import { getFunctions, httpsCallable } from 'firebase/functions'
+import app, { db } from '../firebase/firebase-config.template'
+import {
+  EtaDocument,
+  EtaInvoiceService,
+  EtaInvoiceSource,
+  EtaSubmissionState,
+  buildEtaDocument,
+  canonicalizeEtaDocument,
+  validateEtaDocument
+} from './etaInvoice'
+
+export interface EtaAcceptedDocument {
+  uuid: string
+  longId: string
+  internalId: string
+}
+
+export interface EtaRejectedDocument {
+  internalId: string
+  error: string
+}
+
+export interface EtaSubmissionResponse {
+  submissionId: string
+  acceptedDocuments: EtaAcceptedDocument[]
+  rejectedDocuments: EtaRejectedDocument[]
+}
+
+// أي عميل يرسل دفعة مستندات ويعيد نتيجة المنظومة (HTTP حقيقي أو خادم وهمي)
+export interface EtaSubmissionClient {
+  submitDocuments(documents: EtaDocument[]): Promise<EtaSubmissionResponse>
+}
+
+// التوقيع الإلكتروني يتم خارج المتصفح (USB token أو خدمة توقيع)، ويعيد قيمة CAdES-BES بصيغة base64
+export interface EtaDocumentSigner {
+  sign(canonical: string): Promise<string>
+}
+
+// بيانات دخول المنظومة محفوظة على الخادم فقط، والتطبيق يرسل المستندات عبر Cloud Function
+// (المنظومة لا تسمح أيضاً بالطلبات المباشرة من المتصفح)
+export class EtaFunctionClient implements EtaSubmissionClient {
+  private callable = httpsCallable<{ documents: EtaDocument[] }, EtaSubmissionResponse>(
+    getFunctions(app),
+    'submitEtaDocuments'
+  )
+
+  async submitDocuments(documents: EtaDocument[]): Promise<EtaSubmissionResponse> {
+    const result = await this.callable({ documents })
+    return result.data
+  }
+}
+
+export interface EtaSubmitResult {
+  success: boolean
+  submissionId?: string
+  accepted: number
+  rejected: { internalId: string, error: string }[]
+  error?: string
+}
+
+// الحد الأقصى للمستندات في الطلب الواحد حسب المنظومة
+export const ETA_MAX_DOCUMENTS_PER_SUBMISSION = 100
+
+export const ETA_SIGNER_REQUIRED_ERROR = 'الإصدار 1.0 يتطلب توقيعاً إلكترونياً ولم يتم ربط أداة توقيع - استخدم الإصدار 0.9 من الإعدادات أو وقع الفواتير خارج النظام'
+
+export class EtaSubmissionService {
+
+  // العميل الافتراضي يرسل عبر الخادم عند تفعيل الفاتورة الإلكترونية في الإعدادات
+  static async createDefaultClient(): Promise<EtaSubmissionClient | null> {
+    const issuer = await EtaInvoiceService.getIssuer()
+    return issuer.settings.enabled ? new EtaFunctionClient() : null
+  }
+
+  // تجهيز المستند: البناء ثم التوقيع عند الحاجة ثم التحقق
+  static async prepareDocument(
+    source: EtaInvoiceSource,
+    signer?: EtaDocumentSigner
+  ): Promise<{ document: EtaDocument, errors: string[] }> {
+    const issuer = await EtaInvoiceService.getIssuer()
+    const document = buildEtaDocument(source, issuer)
+
+    if (document.documentTypeVersion === '1.0' && signer) {
+      const signature = await signer.sign(canonicalizeEtaDocument(document))
+      document.signatures = [{ signatureType: 'I', value: signature }]
+    }
+
+    return { document, errors: validateEtaDocument(document, { requireSignature: true }) }
+  }
+
+  // إرسال دفعة فواتير وتسجيل حالة كل فاتورة على سجلات البيع الخاصة بها
+  static async submit(
+    sources: EtaInvoiceSource[],
+    client: EtaSubmissionClient,
+    userId: string,
+    signer?: EtaDocumentSigner
+  ): Promise<EtaSubmitResult> {
+    try {
+      if (sources.length === 0) {
+        return { success: false, accepted: 0, rejected: [], error: 'لم يتم اختيار أي فاتورة' }
+      }
+      if (sources.length > ETA_MAX_DOCUMENTS_PER_SUBMISSION) {
+        return {
+          success: false,
+          accepted: 0,
+          rejected: [],
+          error: `الحد الأقصى ${ETA_MAX_DOCUMENTS_PER_SUBMISSION} فاتورة في الدفعة الواحدة`
+        }
+      }
+
+      // الإصدار 1.0 يرفض بدون توقيع، فلا داعي لتجهيز الدفعة إذا لم تربط أداة توقيع
+      const issuer = await EtaInvoiceService.getIssuer()
+      if (issuer.settings.documentTypeVersion === '1.0' && !signer) {
+        return { success: false, accepted: 0, rejected: [], error: ETA_SIGNER_REQUIRED_ERROR }
+      }
+
+      const prepared = await Promise.all(sources.map(source => this.prepareDocument(source, signer)))
+      const invalid = prepared
+        .map((item, index) => ({ internalId: sources[index].internalId, errors: item.errors }))
+        .filter(item => item.errors.length > 0)
+
+      // لا ترسل الدفعة إذا كان بها مستند غير صالح حتى لا تتكرر الأرقام الداخلية في دفعات جزئية
+      if (invalid.length > 0) {
+        return {
+          success: false,
+          accepted: 0,
+          rejected: invalid.map(item => ({ internalId: item.internalId, error: item.errors.join(' | ') })),
+          error: 'توجد فواتير لا تطابق مخطط المنظومة'
+        }
+      }
+
+      const response = await client.submitDocuments(prepared.map(item => item.document))
+
+      const batch = writeBatch(db)
+      const submittedAt = Timestamp.now()
+      sources.forEach(source => {
+        const accepted = response.acceptedDocuments.find(item => item.internalId === source.internalId)
+        const rejected = response.rejectedDocuments.find(item => item.internalId === source.internalId)
+        const eta: EtaSubmissionState = accepted
+          ? {
+              status: 'submitted',
+              submissionId: response.submissionId,
+              uuid: accepted.uuid,
+              longId: accepted.longId,
+              submittedAt,
+              submittedBy: userId
+            }
+          : {
+              status: 'rejected',
+              submissionId: response.submissionId,
+              error: rejected?.error || 'لم تُرجع المنظومة نتيجة لهذه الفاتورة',
+              submittedAt,
+              submittedBy: userId
+            }
+
+        source.documentPaths.forEach(path => {
+          batch.update(doc(db, path), { eta })
+        })
+      })
+      await batch.commit()
+
+      return {
+        success: response.rejectedDocuments.length === 0,
+        submissionId: response.submissionId,
+        accepted: response.acceptedDocuments.length,
+        rejected: response.rejectedDocuments
+      }
+    } catch (error) {
+      console.error('Error submitting ETA documents:', error)
+      return {
+        success: false,
+        accepted: 0,
+        rejected: [],
+        error: error instanceof Error ? error.message : 'خطأ في إرسال الفواتير'
+      }
+    }
+  }
+}
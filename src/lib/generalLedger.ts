@@ -0,0 +1,344 @@
+// دفتر الأستاذ العام: كل حدث مالي يرحل قيداً متوازناً، ورصيد الوكيل مشتق من حساب ذمم الوكلاء ولا يعدل يدوياً
+// اصطلاح الإشارة الوحيد: المدين في ذمم الوكيل يزيد مديونيته، ورصيد الوكيل = الدائن - المدين (السالب مديونية)
+
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  limit,
+  orderBy,
+  query,
+  runTransaction,
+  where,
+  serverTimestamp,
+  DocumentData,
+  DocumentReference,
+  UpdateData
+} from 'firebase/firestore'
+import { db } from '../firebase/firebase-config.template'
+import { Agent, JournalEntry, JournalLine, JournalSource, LedgerAccountCode, LedgerAccountType } from '../types'
+
+export interface LedgerAccount {
+  code: string
+  name: string
+  type: LedgerAccountType
+}
+
+export interface JournalEntryInput {
+  source: JournalSource
+  sourceId?: string
+  reference?: string
+  description: string
+  lines: JournalLine[]
+  postedBy: string
+}
+
+// معاملة أو دفعة كتابة: القيد يكتب مع الحدث الذي أنتجه
+export interface LedgerWriter {
+  set(ref: DocumentReference, data: DocumentData): unknown
+  update(ref: DocumentReference, data: UpdateData<DocumentData>): unknown
+}
+
+// رصيد الوكيل كما قرئ داخل نفس المعاملة قبل الترحيل
+export interface LedgerAgent {
+  ref: DocumentReference
+  balance: number
+}
+
+export interface PostedBalance {
+  previousBalance: number
+  newBalance: number
+}
+
+export interface PostedEntry {
+  entryId: string
+  balances: Record<string, PostedBalance>
+}
+
+export interface TrialBalanceRow {
+  account: LedgerAccountCode
+  debit: number
+  credit: number
+}
+
+export interface AgentLedgerRow {
+  agentId: string
+  agentName: string
+  ledgerBalance: number
+  cachedBalance: number
+  entryCount: number
+  ledgerStarted: boolean
+}
+
+export interface ReconcileResult {
+  success: boolean
+  error?: string
+  opened: number
+  corrected: number
+}
+
+export const ledgerAccounts: Record<LedgerAccountCode, LedgerAccount> = {
+  cash: { code: '1000', name: 'النقدية', type: 'asset' },
+  agent_receivable: { code: '1100', name: 'ذمم الوكلاء', type: 'asset' },
+  inventory: { code: '1200', name: 'المخزون', type: 'asset' },
+  tax_payable: { code: '2100', name: 'ضريبة القيمة المضافة المستحقة', type: 'liability' },
+  opening_balance: { code: '3000', name: 'أرصدة افتتاحية', type: 'equity' },
+  sales_revenue: { code: '4000', name: 'إيرادات المبيعات', type: 'revenue' },
+  transfer_margin: { code: '4100', name: 'هامش التحويل للوكلاء', type: 'revenue' },
+  cost_of_goods_sold: { code: '5000', name: 'تكلفة البضاعة المباعة', type: 'expense' },
+  commission_expense: { code: '5100', name: 'عمولات الوكلاء', type: 'expense' },
+  balance_adjustments: { code: '5200', name: 'تسويات أرصدة الوكلاء', type: 'expense' }
+}
+
+export const journalSourceLabels: Record<JournalSource, string> = {
+  agent_sale: 'بيع وكيل',
+  sales_return: 'مرتجع مبيعات',
+  transfer_receipt: 'استلام تحويل',
+  offline_transfer: 'تحويل لوكيل أوفلاين',
+  stock_return: 'مرتجع وكيل',
+  agent_payment: 'سند قبض',
+  settlement: 'تسوية حساب',
+  balance_adjustment: 'تعديل رصيد',
+  opening_balance: 'رصيد افتتاحي'
+}
+
+const roundAmount = (value: number) => Math.round(value * 100) / 100
+
+// سطر بمبلغ بإشارة: الموجب مدين والسالب دائن
+export function ledgerLine(account: LedgerAccountCode, amount: number, agentId?: string): JournalLine {
+  const rounded = roundAmount(amount)
+  return {
+    account,
+    ...(agentId ? { agentId } : {}),
+    debit: rounded > 0 ? rounded : 0,
+    credit: rounded < 0 ? -rounded : 0
+  }
+}
+
+export const reverseLines = (lines: JournalLine[]): JournalLine[] =>
+  lines.map(line => ({ ...line, debit: line.credit, credit: line.debit }))
+
+export const agentBalanceChange = (lines: JournalLine[], agentId: string) =>
+  roundAmount(lines
+    .filter(line => line.account === 'agent_receivable' && line.agentId === agentId)
+    .reduce((sum, line) => sum + line.credit - line.debit, 0))
+
+// قيد بيع الوكيل: الوكيل مدين بنصيب الشركة والضريبة، والتكلفة هي باقي صافي البيع بعد النصيب والعمولة فيتوازن القيد دائماً
+export function agentSaleLines(agentId: string, sale: { netAmount: number, taxAmount: number, companyShare: number, agentCommission: number }): JournalLine[] {
+  return [
+    ledgerLine('agent_receivable', sale.companyShare + sale.taxAmount, agentId),
+    ledgerLine('commission_expense', sale.agentCommission),
+    ledgerLine('cost_of_goods_sold', sale.netAmount - sale.companyShare - sale.agentCommission),
+    ledgerLine('sales_revenue', -sale.netAmount),
+    ledgerLine('tax_payable', -sale.taxAmount)
+  ]
+}
+
+// بضاعة تسلم للوكيل: مديونيته بسعر التحويل، والفرق عن التكلفة هامش تحويل
+export function agentStockLines(agentId: string, transferPrice: number, cost: number): JournalLine[] {
+  return [
+    ledgerLine('agent_receivable', transferPrice, agentId),
+    ledgerLine('inventory', -cost),
+    ledgerLine('transfer_margin', cost - transferPrice)
+  ]
+}
+
+export class GeneralLedgerService {
+
+  // يكتب القيد ويحدث الرصيد المخزن لكل وكيل في القيد؛ يستدعى بعد كل القراءات داخل المعاملة
+  static post(transaction: LedgerWriter, entry: JournalEntryInput, agents: Record<string, LedgerAgent>): PostedEntry {
+    const lines = entry.lines.filter(line => line.debit !== 0 || line.credit !== 0)
+    if (lines.length === 0) {
+      throw new Error('القيد لا يحتوي على أي مبالغ')
+    }
+    if (lines.some(line => line.debit < 0 || line.credit < 0)) {
+      throw new Error('مبالغ القيد يجب أن تكون موجبة')
+    }
+
+    const totalDebit = roundAmount(lines.reduce((sum, line) => sum + line.debit, 0))
+    const totalCredit = roundAmount(lines.reduce((sum, line) => sum + line.credit, 0))
+    if (Math.abs(totalDebit - totalCredit) > 0.01) {
+      throw new Error(`القيد غير متوازن: مدين ${totalDebit} ودائن ${totalCredit}`)
+    }
+
+    const agentIds = Array.from(new Set(lines.flatMap(line => line.agentId ? [line.agentId] : [])))
+    if (lines.some(line => line.account === 'agent_receivable' && !line.agentId)) {
+      throw new Error('سطر ذمم الوكلاء يجب أن يحدد الوكيل')
+    }
+
+    const entryRef = doc(collection(db, 'journal_entries'))
+    const balances: Record<string, PostedBalance> = {}
+
+    agentIds.forEach(agentId => {
+      const agent = agents[agentId]
+      if (!agent) {
+        throw new Error('رصيد الوكيل يجب قراءته قبل ترحيل القيد')
+      }
+      const previousBalance = roundAmount(agent.balance)
+      const newBalance = roundAmount(previousBalance + agentBalanceChange(lines, agentId))
+      balances[agentId] = { previousBalance, newBalance }
+      agent.balance = newBalance
+
+      transaction.update(agent.ref, {
+        currentBalance: newBalance,
+        lastJournalEntryId: entryRef.id,
+        updatedAt: serverTimestamp()
+      })
+    })
+
+    transaction.set(entryRef, {
+      source: entry.source,
+      ...(entry.sourceId ? { sourceId: entry.sourceId } : {}),
+      ...(entry.reference ? { reference: entry.reference } : {}),
+      description: entry.description,
+      lines,
+      accounts: Array.from(new Set(lines.map(line => line.account))),
+      agentIds,
+      totalAmount: totalDebit,
+      postedAt: serverTimestamp(),
+      postedBy: entry.postedBy
+    })
+
+    return { entryId: entryRef.id, balances }
+  }
+
+  static async getEntries(filters: { agentId?: string, max?: number } = {}): Promise<JournalEntry[]> {
+    try {
+      const snapshot = await getDocs(filters.agentId
+        ? query(collection(db, 'journal_entries'), where('agentIds', 'array-contains', filters.agentId))
+        : query(collection(db, 'journal_entries'), orderBy('postedAt', 'desc'), limit(filters.max || 200)))
+      return snapshot.docs
+        .map(entryDoc => ({ id: entryDoc.id, ...entryDoc.data() }) as JournalEntry)
+        .sort((a, b) => (b.postedAt?.toMillis?.() || 0) - (a.postedAt?.toMillis?.() || 0))
+    } catch (error) {
+      console.error('Error loading journal entries:', error)
+      return []
+    }
+  }
+
+  // ميزان المراجعة وأرصدة الوكلاء كما يحسبها الدفتر، مقارنة بالرصيد المخزن على كل وكيل
+  static async getTrialBalance(): Promise<{ accounts: TrialBalanceRow[], agents: AgentLedgerRow[] }> {
+    const [entriesSnapshot, agentsSnapshot] = await Promise.all([
+      getDocs(collection(db, 'journal_entries')),
+      getDocs(collection(db, 'agents'))
+    ])
+    const entries = entriesSnapshot.docs.map(entryDoc => entryDoc.data() as JournalEntry)
+
+    const totals = new Map<LedgerAccountCode, TrialBalanceRow>()
+    const agentTotals = new Map<string, { balance: number, count: number }>()
+    entries.forEach(entry => {
+      entry.lines.forEach(line => {
+        const row = totals.get(line.account) || { account: line.account, debit: 0, credit: 0 }
+        row.debit = roundAmount(row.debit + line.debit)
+        row.credit = roundAmount(row.credit + line.credit)
+        totals.set(line.account, row)
+      })
+      entry.agentIds.forEach(agentId => {
+        const current = agentTotals.get(agentId) || { balance: 0, count: 0 }
+        agentTotals.set(agentId, {
+          balance: roundAmount(current.balance + agentBalanceChange(entry.lines, agentId)),
+          count: current.count + 1
+        })
+      })
+    })
+
+    const accounts = (Object.keys(ledgerAccounts) as LedgerAccountCode[])
+      .map(account => totals.get(account) || { account, debit: 0, credit: 0 })
+
+    const agents = agentsSnapshot.docs.map(agentDoc => {
+      const agent = agentDoc.data() as Agent
+      const ledger = agentTotals.get(agentDoc.id)
+      return {
+        agentId: agentDoc.id,
+        agentName: agent.name,
+        ledgerBalance: ledger?.balance || 0,
+        cachedBalance: Number(agent.currentBalance) || 0,
+        entryCount: ledger?.count || 0,
+        ledgerStarted: !!agent.ledgerStartedAt
+      }
+    })
+
+    return { accounts, agents }
+  }
+
+  // رصيد الوكيل كما يحسبه الدفتر من كل قيوده
+  static async getAgentLedgerBalance(agentId: string): Promise<number> {
+    const snapshot = await getDocs(query(collection(db, 'journal_entries'), where('agentIds', 'array-contains', agentId)))
+    return roundAmount(snapshot.docs.reduce((sum, entryDoc) =>
+      sum + agentBalanceChange((entryDoc.data() as JournalEntry).lines, agentId), 0))
+  }
+
+  // الوكلاء السابقون للدفتر يرحل لهم الفرق كرصيد افتتاحي مرة واحدة، وبعدها أي فرق يصحح الرصيد المخزن من الدفتر
+  static async reconcileAgentBalances(userId: string): Promise<ReconcileResult> {
+    try {
+      const { agents } = await this.getTrialBalance()
+      let opened = 0
+      let corrected = 0
+
+      // الميزان يحدد من يحتاج مطابقة فقط، والفرق نفسه يحسب من قراءة الوكيل داخل المعاملة
+      for (const row of agents) {
+        if (row.ledgerStarted && Math.abs(row.cachedBalance - row.ledgerBalance) < 0.01) continue
+
+        const outcome = await this.reconcileAgent(row.agentId, userId)
+        if (outcome === 'opened') opened++
+        if (outcome === 'corrected') corrected++
+      }
+
+      return { success: true, opened, corrected }
+    } catch (error) {
+      console.error('Error reconciling agent balances:', error)
+      return { success: false, error: error instanceof Error ? error.message : 'فشل في مطابقة أرصدة الوكلاء', opened: 0, corrected: 0 }
+    }
+  }
+
+  // رصيد الدفتر لا يقرأ داخل المعاملة (استعلام)، فيربط بآخر قيد على الوكيل:
+  // إذا رحل قيد جديد بعد حسابه يعاد الحساب بدلاً من تصحيح الرصيد بفرق قديم
+  private static async reconcileAgent(agentId: string, userId: string, maxAttempts = 3): Promise<'opened' | 'corrected' | null> {
+    const agentRef = doc(db, 'agents', agentId)
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      const agentSnapshot = await getDoc(agentRef)
+      if (!agentSnapshot.exists()) return null
+      const lastJournalEntryId = (agentSnapshot.data() as Agent).lastJournalEntryId || null
+      const ledgerBalance = await this.getAgentLedgerBalance(agentId)
+
+      const outcome = await runTransaction(db, async (transaction) => {
+        const agentDoc = await transaction.get(agentRef)
+        if (!agentDoc.exists()) return null
+        const agent = agentDoc.data() as Agent
+        if ((agent.lastJournalEntryId || null) !== lastJournalEntryId) return 'stale'
+
+        const difference = roundAmount((Number(agent.currentBalance) || 0) - ledgerBalance)
+
+        if (!agent.ledgerStartedAt) {
+          if (Math.abs(difference) >= 0.01) {
+            this.post(transaction, {
+              source: 'opening_balance',
+              sourceId: agentId,
+              description: `الرصيد الافتتاحي للوكيل ${agent.name} عند بدء الدفتر`,
+              lines: [
+                ledgerLine('agent_receivable', -difference, agentId),
+                ledgerLine('opening_balance', difference)
+              ],
+              postedBy: userId
+            }, { [agentId]: { ref: agentRef, balance: ledgerBalance } })
+          }
+          transaction.update(agentRef, { ledgerStartedAt: serverTimestamp() })
+          return 'opened'
+        }
+
+        if (Math.abs(difference) < 0.01) return null
+        transaction.update(agentRef, {
+          currentBalance: ledgerBalance,
+          updatedAt: serverTimestamp()
+        })
+        return 'corrected'
+      })
+
+      if (outcome !== 'stale') return outcome
+    }
+
+    throw new Error('رصيد أحد الوكلاء يتغير أثناء المطابقة، أعد المحاولة لاحقاً')
+  }
+}
@@ -0,0 +1,323 @@
+// البيع بالتقسيط: جدول الأقساط، التحصيل، والمتأخرات
+
+import {
+  collection,
+  query,
+  where,
+  getDocs,
+  doc,
+  getDoc,
+  runTransaction,
+  serverTimestamp,
+  Timestamp,
+  Transaction
+} from 'firebase/firestore'
+import { addMonths, startOfDay } from 'date-fns'
+import { db } from '../firebase/firebase-config.template'
+import { DocumentNumberingService } from './documentNumbering'
+import {
+  Installment,
+  InstallmentCollection,
+  InstallmentPlan,
+  InstallmentPlanItem,
+  InstallmentTerms,
+  PaymentMethod,
+  SaleSource
+} from '../types'
+
+export interface InstallmentSchedule {
+  financedAmount: number
+  interestAmount: number
+  totalPayable: number
+  installments: Installment[]
+}
+
+export interface InstallmentSaleDetails {
+  saleId: string
+  saleSource: SaleSource
+  invoiceNumber?: string
+  documentTrackingId?: string
+  items: InstallmentPlanItem[]
+  customerName: string
+  customerNationalId: string
+  customerPhone: string
+  customerAddress?: string
+  agentId?: string
+  agentName?: string
+  salePrice: number
+}
+
+export interface CreateInstallmentPlanInput {
+  sale: InstallmentSaleDetails
+  terms: InstallmentTerms
+  userId: string
+}
+
+export interface RecordCollectionInput {
+  planId: string
+  installmentNumber: number
+  amount: number
+  paymentMethod: PaymentMethod
+  notes?: string
+  userId: string
+}
+
+export interface CollectionResult {
+  success: boolean
+  receiptNumber?: string
+  planCompleted?: boolean
+  error?: string
+}
+
+export interface InstallmentPlanFilters {
+  agentId?: string
+  saleSource?: SaleSource
+  customerNationalId?: string
+  status?: InstallmentPlan['status']
+}
+
+const roundAmount = (value: number) => Math.round(value * 100) / 100
+
+// التحقق من شروط التقسيط قبل إنشاء الجدول
+export function validateInstallmentTerms(salePrice: number, terms: InstallmentTerms): string | null {
+  if (!Number.isInteger(terms.months) || terms.months < 1) {
+    return 'عدد الأشهر يجب أن يكون رقماً صحيحاً أكبر من صفر'
+  }
+  if (terms.downPayment < 0) {
+    return 'المقدم لا يمكن أن يكون سالباً'
+  }
+  if (terms.downPayment >= salePrice) {
+    return 'المقدم يجب أن يكون أقل من سعر البيع'
+  }
+  if (terms.interestRate < 0) {
+    return 'نسبة الفائدة لا يمكن أن تكون سالبة'
+  }
+  if (isNaN(terms.firstDueDate.getTime())) {
+    return 'تاريخ أول قسط غير صالح'
+  }
+  return null
+}
+
+// إنشاء جدول الأقساط: فائدة ثابتة على المبلغ الممول، والفرق الناتج عن التقريب يضاف على آخر قسط
+export function buildInstallmentSchedule(salePrice: number, terms: InstallmentTerms): InstallmentSchedule {
+  const financedAmount = roundAmount(salePrice - terms.downPayment)
+  const interestAmount = roundAmount(financedAmount * (terms.interestRate / 100))
+  const totalPayable = roundAmount(financedAmount + interestAmount)
+  const monthlyAmount = roundAmount(totalPayable / terms.months)
+
+  const installments: Installment[] = Array.from({ length: terms.months }, (_, index) => {
+    const isLast = index === terms.months - 1
+    return {
+      number: index + 1,
+      dueDate: Timestamp.fromDate(addMonths(terms.firstDueDate, index)),
+      amount: isLast ? roundAmount(totalPayable - monthlyAmount * (terms.months - 1)) : monthlyAmount,
+      paidAmount: 0,
+      status: 'pending'
+    }
+  })
+
+  return { financedAmount, interestAmount, totalPayable, installments }
+}
+
+// الأقساط التي حل موعدها ولم تسدد بالكامل
+export function getOverdueInstallments(plan: InstallmentPlan, asOf: Date = new Date()): Installment[] {
+  if (plan.status !== 'active') {
+    return []
+  }
+
+  const today = startOfDay(asOf)
+  return plan.installments.filter(installment =>
+    installment.status !== 'paid' && installment.dueDate.toDate() < today
+  )
+}
+
+export function getRemainingAmount(installment: Installment): number {
+  return roundAmount(installment.amount - installment.paidAmount)
+}
+
+export class InstallmentService {
+
+  // إنشاء خطة التقسيط وربط البيع بها داخل معاملة البيع نفسها، فلا يوجد بيع بالتقسيط بدون خطة
+  // المستدعي يتحقق من الشروط ويحجز رقم العقد قبل أي كتابة، ويكتب سجل البيع قبل استدعائها
+  static writePlan(transaction: Transaction, input: CreateInstallmentPlanInput, contractNumber: string): string {
+    const schedule = buildInstallmentSchedule(input.sale.salePrice, input.terms)
+    const planRef = doc(collection(db, 'installment_plans'))
+    const saleRef = doc(db, input.sale.saleSource === 'company_sale' ? 'company_sales' : 'sales', input.sale.saleId)
+
+    const plan: Omit<InstallmentPlan, 'id' | 'createdAt' | 'updatedAt'> & { createdAt: any; updatedAt: any } = {
+      contractNumber,
+      ...input.sale,
+      downPayment: input.terms.downPayment,
+      interestRate: input.terms.interestRate,
+      months: input.terms.months,
+      ...schedule,
+      totalCollected: 0,
+      status: 'active',
+      createdAt: serverTimestamp(),
+      createdBy: input.userId,
+      updatedAt: serverTimestamp()
+    }
+
+    // إزالة الحقول غير المحددة لأن Firestore لا يقبلها
+    const planData = Object.fromEntries(
+      Object.entries(plan).filter(([, value]) => value !== undefined)
+    )
+
+    transaction.set(planRef, planData)
+    transaction.update(saleRef, {
+      paymentMethod: 'installments',
+      installmentPlanId: planRef.id,
+      downPayment: input.terms.downPayment,
+      updatedAt: serverTimestamp()
+    })
+    return planRef.id
+  }
+
+  // تسجيل تحصيل على قسط محدد
+  static async recordCollection(input: RecordCollectionInput): Promise<CollectionResult> {
+    if (!(input.amount > 0)) {
+      return { success: false, error: 'مبلغ التحصيل يجب أن يكون أكبر من صفر' }
+    }
+
+    try {
+      const planRef = doc(db, 'installment_plans', input.planId)
+      const collectionRef = doc(collection(db, 'installment_collections'))
+      let receiptNumber = ''
+      let planCompleted = false
+
+      await runTransaction(db, async (transaction) => {
+        const planDoc = await transaction.get(planRef)
+        if (!planDoc.exists()) {
+          throw new Error('خطة التقسيط غير موجودة')
+        }
+
+        const plan = planDoc.data() as InstallmentPlan
+        if (plan.status !== 'active') {
+          throw new Error('خطة التقسيط غير نشطة')
+        }
+
+        const installment = plan.installments.find(item => item.number === input.installmentNumber)
+        if (!installment) {
+          throw new Error('القسط غير موجود')
+        }
+
+        const remaining = getRemainingAmount(installment)
+        if (remaining <= 0) {
+          throw new Error('هذا القسط مسدد بالكامل')
+        }
+        if (input.amount > remaining) {
+          throw new Error(`المبلغ أكبر من المتبقي على القسط (${remaining})`)
+        }
+
+        const installments = plan.installments.map(item => {
+          if (item.number !== input.installmentNumber) {
+            return item
+          }
+          const paidAmount = roundAmount(item.paidAmount + input.amount)
+          return {
+            ...item,
+            paidAmount,
+            status: paidAmount >= item.amount ? 'paid' : 'partial',
+            lastPaymentAt: Timestamp.now()
+          } as Installment
+        })
+
+        planCompleted = installments.every(item => item.status === 'paid')
+
+        // رقم سند القبض المسلسل يحجز قبل أي كتابة داخل المعاملة
+        receiptNumber = await DocumentNumberingService.allocate(transaction, 'receipt_voucher')
+
+        transaction.update(planRef, {
+          installments,
+          totalCollected: roundAmount((plan.totalCollected || 0) + input.amount),
+          status: planCompleted ? 'completed' : 'active',
+          updatedAt: serverTimestamp()
+        })
+
+        const collectionData: Omit<InstallmentCollection, 'id' | 'collectedAt'> & { collectedAt: any } = {
+          planId: input.planId,
+          installmentNumber: input.installmentNumber,
+          amount: input.amount,
+          paymentMethod: input.paymentMethod,
+          receiptNumber,
+          ...(input.notes ? { notes: input.notes } : {}),
+          collectedAt: serverTimestamp(),
+          collectedBy: input.userId
+        }
+        transaction.set(collectionRef, collectionData)
+      })
+
+      return { success: true, receiptNumber, planCompleted }
+
+    } catch (error) {
+      console.error('Error recording installment collection:', error)
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'فشل في تسجيل التحصيل'
+      }
+    }
+  }
+
+  static async getPlan(planId: string): Promise<InstallmentPlan | null> {
+    try {
+      const planDoc = await getDoc(doc(db, 'installment_plans', planId))
+      if (!planDoc.exists()) {
+        return null
+      }
+
+      return { id: planDoc.id, ...planDoc.data() } as InstallmentPlan
+    } catch (error) {
+      console.error('Error getting installment plan:', error)
+      return null
+    }
+  }
+
+  static async getPlans(filters: InstallmentPlanFilters = {}): Promise<InstallmentPlan[]> {
+    try {
+      const constraints = []
+      if (filters.agentId) {
+        constraints.push(where('agentId', '==', filters.agentId))
+      }
+      if (filters.saleSource) {
+        constraints.push(where('saleSource', '==', filters.saleSource))
+      }
+      if (filters.customerNationalId) {
+        constraints.push(where('customerNationalId', '==', filters.customerNationalId))
+      }
+      if (filters.status) {
+        constraints.push(where('status', '==', filters.status))
+      }
+
+      const plansSnapshot = await getDocs(query(collection(db, 'installment_plans'), ...constraints))
+      const plans = plansSnapshot.docs.map(planDoc => ({
+        id: planDoc.id,
+        ...planDoc.data()
+      })) as InstallmentPlan[]
+
+      // الترتيب محلياً لتجنب الحاجة لفهارس مركبة
+      return plans.sort((a, b) => (b.createdAt?.toMillis?.() || 0) - (a.createdAt?.toMillis?.() || 0))
+    } catch (error) {
+      console.error('Error getting installment plans:', error)
+      return []
+    }
+  }
+
+  static async getCollections(planId: string): Promise<InstallmentCollection[]> {
+    try {
+      const collectionsSnapshot = await getDocs(query(
+        collection(db, 'installment_collections'),
+        where('planId', '==', planId)
+      ))
+
+      const collections = collectionsSnapshot.docs.map(collectionDoc => ({
+        id: collectionDoc.id,
+        ...collectionDoc.data()
+      })) as InstallmentCollection[]
+
+      return collections.sort((a, b) => (b.collectedAt?.toMillis?.() || 0) - (a.collectedAt?.toMillis?.() || 0))
+    } catch (error) {
+      console.error('Error getting installment collections:', error)
+      return []
+    }
+  }
+}
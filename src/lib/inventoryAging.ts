@@ -0,0 +1,257 @@
+// أعمار المخزون: مدة بقاء كل وحدة منذ دخولها وفي مخزنها الحالي، وتنبيه يومي بالأصناف الراكدة
+
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  setDoc,
+  query,
+  where,
+  runTransaction,
+  serverTimestamp,
+  Timestamp
+} from 'firebase/firestore'
+import { db } from '../firebase/firebase-config.template'
+import { notificationSystem } from './notificationSystem'
+import { Agent, InventoryItem, Warehouse } from '../types'
+
+export type AgingBucket = '0_30' | '31_60' | '61_90' | '90_plus'
+
+// أساس حساب العمر: منذ دخول المخزون أو منذ آخر تحويل للمخزن الحالي
+export type AgingBasis = 'entry' | 'location'
+
+export type AgingGroupBy = 'warehouse' | 'agent' | 'model'
+
+export const agingBuckets: AgingBucket[] = ['0_30', '31_60', '61_90', '90_plus']
+
+export const agingBucketLabels: Record<AgingBucket, string> = {
+  '0_30': '0 - 30 يوم',
+  '31_60': '31 - 60 يوم',
+  '61_90': '61 - 90 يوم',
+  '90_plus': 'أكثر من 90 يوم'
+}
+
+export const agingBasisLabels: Record<AgingBasis, string> = {
+  entry: 'منذ دخول المخزون',
+  location: 'في المخزن الحالي'
+}
+
+export const agingGroupByLabels: Record<AgingGroupBy, string> = {
+  warehouse: 'المخزن',
+  agent: 'الوكيل',
+  model: 'الموديل'
+}
+
+export interface AgingItem {
+  item: InventoryItem
+  warehouseName: string
+  agentName?: string
+  enteredAt: Date
+  lastMovedAt: Date // آخر تحويل أو تاريخ الدخول إذا لم يحول
+  ageDays: number
+  daysInLocation: number
+}
+
+export interface AgingGroup {
+  key: string
+  label: string
+  counts: Record<AgingBucket, number>
+  costs: Record<AgingBucket, number>
+  totalCount: number
+  totalCost: number
+  oldestDays: number
+}
+
+export interface AgingAlertSettings {
+  enabled: boolean
+  thresholdDays: number
+  lastAlertAt?: Timestamp
+}
+
+export const DEFAULT_AGING_ALERT_SETTINGS: AgingAlertSettings = {
+  enabled: true,
+  thresholdDays: 90
+}
+
+// الوحدات التي ما زالت في المخازن (المتاحة والمحجوزة والمحولة للوكلاء)
+const inStockStatuses: InventoryItem['status'][] = ['available', 'reserved', 'transferred']
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const ALERT_INTERVAL_MS = DAY_MS
+
+const toDate = (value: unknown): Date | null => {
+  if (!value) return null
+  if (value instanceof Date) return value
+  if (typeof (value as Timestamp).toDate === 'function') return (value as Timestamp).toDate()
+  return null
+}
+
+const daysBetween = (from: Date, to: Date) => Math.max(0, Math.floor((to.getTime() - from.getTime()) / DAY_MS))
+
+export function getAgingBucket(days: number): AgingBucket {
+  if (days <= 30) return '0_30'
+  if (days <= 60) return '31_60'
+  if (days <= 90) return '61_90'
+  return '90_plus'
+}
+
+export const agingDays = (row: AgingItem, basis: AgingBasis) => basis === 'entry' ? row.ageDays : row.daysInLocation
+
+const emptyBuckets = (): Record<AgingBucket, number> => ({ '0_30': 0, '31_60': 0, '61_90': 0, '90_plus': 0 })
+
+// تجميع الوحدات حسب المخزن أو الوكيل أو الموديل مع التكلفة المحملة بسعر الشراء في كل شريحة
+export function groupAging(rows: AgingItem[], groupBy: AgingGroupBy, basis: AgingBasis): AgingGroup[] {
+  const groups = new Map<string, AgingGroup>()
+
+  rows.forEach(row => {
+    let key: string
+    let label: string
+    if (groupBy === 'warehouse') {
+      key = row.item.currentWarehouseId
+      label = row.warehouseName
+    } else if (groupBy === 'agent') {
+      key = row.agentName || ''
+      label = row.agentName || 'مخازن الشركة'
+    } else {
+      key = `${row.item.brand} ${row.item.model}`.trim()
+      label = key || 'غير محدد'
+    }
+
+    let group = groups.get(key)
+    if (!group) {
+      group = { key, label, counts: emptyBuckets(), costs: emptyBuckets(), totalCount: 0, totalCost: 0, oldestDays: 0 }
+      groups.set(key, group)
+    }
+
+    const days = agingDays(row, basis)
+    const bucket = getAgingBucket(days)
+    const cost = row.item.purchasePrice || 0
+    group.counts[bucket]++
+    group.costs[bucket] += cost
+    group.totalCount++
+    group.totalCost += cost
+    group.oldestDays = Math.max(group.oldestDays, days)
+  })
+
+  return Array.from(groups.values()).sort((a, b) => b.totalCost - a.totalCost)
+}
+
+const settingsRef = () => doc(db, 'system_settings', 'inventory_aging')
+
+export class InventoryAgingService {
+
+  // الوحدات الموجودة في المخازن مع تاريخ دخولها وتاريخ آخر تحويل لها
+  static async getAgingItems(asOf: Date = new Date()): Promise<AgingItem[]> {
+    const [itemsSnapshot, transfersSnapshot, warehousesSnapshot, agentsSnapshot] = await Promise.all([
+      getDocs(query(collection(db, 'inventory_items'), where('status', 'in', inStockStatuses))),
+      getDocs(collection(db, 'warehouse_transfers')),
+      getDocs(collection(db, 'warehouses')),
+      getDocs(collection(db, 'agents'))
+    ])
+
+    const lastTransfers = new Map<string, Date>()
+    transfersSnapshot.docs.forEach(transferDoc => {
+      const data = transferDoc.data()
+      const transferredAt = toDate(data.transferredAt) || toDate(data.createdAt)
+      const previous = lastTransfers.get(data.inventoryItemId)
+      if (transferredAt && (!previous || transferredAt > previous)) {
+        lastTransfers.set(data.inventoryItemId, transferredAt)
+      }
+    })
+
+    const warehouses = new Map(warehousesSnapshot.docs.map(warehouseDoc =>
+      [warehouseDoc.id, { id: warehouseDoc.id, ...warehouseDoc.data() } as Warehouse]))
+    const agents = agentsSnapshot.docs.map(agentDoc => ({ id: agentDoc.id, ...agentDoc.data() }) as Agent)
+    const agentName = (warehouse?: Warehouse) => {
+      if (!warehouse || warehouse.type !== 'agent') return undefined
+      const agent = agents.find(entry => entry.id === warehouse.agentId || entry.warehouseId === warehouse.id)
+      return agent?.name || warehouse.name
+    }
+
+    return itemsSnapshot.docs.map(itemDoc => {
+      const item = { id: itemDoc.id, ...itemDoc.data() } as InventoryItem
+      const enteredAt = toDate(item.createdAt) || asOf
+      const transferredAt = lastTransfers.get(item.id)
+      const lastMovedAt = transferredAt && transferredAt > enteredAt ? transferredAt : enteredAt
+      const warehouse = warehouses.get(item.currentWarehouseId)
+
+      return {
+        item,
+        warehouseName: warehouse?.name || 'غير محدد',
+        agentName: agentName(warehouse),
+        enteredAt,
+        lastMovedAt,
+        ageDays: daysBetween(enteredAt, asOf),
+        daysInLocation: daysBetween(lastMovedAt, asOf)
+      }
+    })
+  }
+
+  static async getAlertSettings(): Promise<AgingAlertSettings> {
+    try {
+      const settingsDoc = await getDoc(settingsRef())
+      return settingsDoc.exists()
+        ? { ...DEFAULT_AGING_ALERT_SETTINGS, ...settingsDoc.data() } as AgingAlertSettings
+        : DEFAULT_AGING_ALERT_SETTINGS
+    } catch (error) {
+      console.error('Error loading aging alert settings:', error)
+      return DEFAULT_AGING_ALERT_SETTINGS
+    }
+  }
+
+  static async saveAlertSettings(enabled: boolean, thresholdDays: number, userId: string): Promise<{ success: boolean, error?: string }> {
+    try {
+      if (!Number.isInteger(thresholdDays) || thresholdDays < 1) {
+        return { success: false, error: 'حد التنبيه يجب أن يكون عدد أيام صحيح' }
+      }
+
+      await setDoc(settingsRef(), {
+        enabled,
+        thresholdDays,
+        updatedAt: serverTimestamp(),
+        updatedBy: userId
+      }, { merge: true })
+
+      return { success: true }
+    } catch (error) {
+      console.error('Error saving aging alert settings:', error)
+      return { success: false, error: error instanceof Error ? error.message : 'فشل في حفظ إعدادات التنبيه' }
+    }
+  }
+
+  // يعمل مرة يومياً عند دخول أي مدير، وتسجيل وقت التشغيل في معاملة يمنع تكرار التنبيه من أكثر من جهاز
+  static async runScheduledAlert(): Promise<number> {
+    try {
+      const claimed = await runTransaction(db, async (transaction) => {
+        const settingsDoc = await transaction.get(settingsRef())
+        const settings = { ...DEFAULT_AGING_ALERT_SETTINGS, ...settingsDoc.data() } as AgingAlertSettings
+        const lastAlertAt = settings.lastAlertAt?.toDate()
+        if (!settings.enabled || (lastAlertAt && Date.now() - lastAlertAt.getTime() < ALERT_INTERVAL_MS)) {
+          return null
+        }
+
+        transaction.set(settingsRef(), { lastAlertAt: serverTimestamp() }, { merge: true })
+        return settings
+      })
+      if (!claimed) return 0
+
+      const slowMoving = (await this.getAgingItems())
+        .filter(row => row.daysInLocation > claimed.thresholdDays)
+      if (slowMoving.length === 0) return 0
+
+      const byWarehouse = groupAging(slowMoving, 'warehouse', 'location')
+      await notificationSystem.notifySlowMovingStock({
+        thresholdDays: claimed.thresholdDays,
+        itemCount: slowMoving.length,
+        carryingCost: slowMoving.reduce((sum, row) => sum + (row.item.purchasePrice || 0), 0),
+        topWarehouses: byWarehouse.slice(0, 3).map(group => `${group.label} (${group.totalCount})`).join('، ')
+      })
+
+      return slowMoving.length
+    } catch (error) {
+      console.error('Error running slow-moving stock alert:', error)
+      return 0
+    }
+  }
+}
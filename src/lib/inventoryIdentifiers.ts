@@ -0,0 +1,321 @@
+// تفرد رقم الشاسيه وبصمة الموتور: كل رقم يحجز بمستند فهرس باسم الرقم الموحد في نفس معاملة حفظ الصنف
+
+import {
+  collection,
+  doc,
+  getDocs,
+  query,
+  where,
+  writeBatch,
+  runTransaction,
+  serverTimestamp,
+  Transaction,
+  DocumentReference
+} from 'firebase/firestore'
+import { db } from '../firebase/firebase-config.template'
+import { DuplicateIdentifierGroup, IdentifierKind, InventoryItem } from '../types'
+
+export interface ItemIdentifiers {
+  chassisNumber?: string
+  motorFingerprint?: string
+}
+
+export interface ExistingIdentifiers {
+  motorFingerprints: Set<string>
+  chassisNumbers: Set<string>
+}
+
+export interface IdentifierResult {
+  success: boolean
+  error?: string
+}
+
+export const identifierKindLabels: Record<IdentifierKind, string> = {
+  chassis: 'رقم الشاسيه',
+  motor: 'بصمة الموتور'
+}
+
+// الأرقام تقارن بدون مسافات وبحروف كبيرة حتى لا تختلف قراءة الكاميرا عن الإدخال اليدوي
+export const normalizeIdentifier = (value: string) => value.replace(/\s+/g, '').toUpperCase()
+
+const identifierRef = (kind: IdentifierKind, value: string) =>
+  doc(db, 'inventory_identifiers', `${kind}_${encodeURIComponent(value)}`)
+
+// أزواج (النوع، الرقم الموحد) للصنف مع تجاهل الأرقام الفارغة
+function identifierEntries(identifiers: ItemIdentifiers): { kind: IdentifierKind, value: string }[] {
+  const entries: { kind: IdentifierKind, value: string }[] = []
+  const chassis = normalizeIdentifier(identifiers.chassisNumber || '')
+  const motor = normalizeIdentifier(identifiers.motorFingerprint || '')
+  if (chassis) entries.push({ kind: 'chassis', value: chassis })
+  if (motor) entries.push({ kind: 'motor', value: motor })
+  return entries
+}
+
+export class InventoryIdentifierService {
+
+  // قراءة مستندات الفهرس قبل أي كتابة في المعاملة، ويرفض أي رقم محجوز لصنف آخر أو مكرر داخل نفس العملية
+  static async check(transaction: Transaction, items: ItemIdentifiers[], ownerItemId?: string): Promise<void> {
+    const seen = new Set<string>()
+    const refs: { kind: IdentifierKind, value: string, ref: DocumentReference }[] = []
+
+    items.forEach(identifiers => {
+      identifierEntries(identifiers).forEach(({ kind, value }) => {
+        const key = `${kind}_${value}`
+        if (seen.has(key)) {
+          throw new Error(`${identifierKindLabels[kind]} ${value} مكرر في نفس العملية`)
+        }
+        seen.add(key)
+        refs.push({ kind, value, ref: identifierRef(kind, value) })
+      })
+    })
+
+    const snapshots = await Promise.all(refs.map(({ ref }) => transaction.get(ref)))
+    snapshots.forEach((snapshot, index) => {
+      if (snapshot.exists() && snapshot.data().inventoryItemId !== ownerItemId) {
+        throw new Error(`${identifierKindLabels[refs[index].kind]} ${refs[index].value} مسجل لصنف آخر في المخزون`)
+      }
+    })
+  }
+
+  // حجز أرقام الصنف بعد التحقق منها بـ check
+  static reserve(transaction: Transaction, itemId: string, identifiers: ItemIdentifiers) {
+    identifierEntries(identifiers).forEach(({ kind, value }) => {
+      transaction.set(identifierRef(kind, value), {
+        kind,
+        value,
+        inventoryItemId: itemId,
+        createdAt: serverTimestamp()
+      })
+    })
+  }
+
+  // الأصناف القديمة قبل الفهرس لا يحميها إلا البحث المباشر (استعلامات in بحد 30 قيمة)
+  static async findExisting(motorFingerprints: string[], chassisNumbers: string[]): Promise<ExistingIdentifiers> {
+    const lookup = async (field: 'motorFingerprint' | 'chassisNumber', values: string[]) => {
+      const found = new Set<string>()
+      const unique = [...new Set(values.map(normalizeIdentifier).filter(Boolean))]
+
+      for (let start = 0; start < unique.length; start += 30) {
+        const snapshot = await getDocs(query(
+          collection(db, 'inventory_items'),
+          where(field, 'in', unique.slice(start, start + 30))
+        ))
+        snapshot.docs.forEach(itemDoc => found.add(normalizeIdentifier(String(itemDoc.data()[field] || ''))))
+      }
+      return found
+    }
+
+    const [existingMotors, existingChassis] = await Promise.all([
+      lookup('motorFingerprint', motorFingerprints),
+      lookup('chassisNumber', chassisNumbers)
+    ])
+
+    return { motorFingerprints: existingMotors, chassisNumbers: existingChassis }
+  }
+
+  // إنشاء صنف جديد مع حجز أرقامه، ويرمي خطأ إذا كان أحد الرقمين مسجلاً من قبل
+  static async createItem(item: Record<string, unknown> & ItemIdentifiers): Promise<string> {
+    const identifiers = {
+      chassisNumber: normalizeIdentifier(item.chassisNumber || ''),
+      motorFingerprint: normalizeIdentifier(item.motorFingerprint || '')
+    }
+
+    const existing = await this.findExisting([identifiers.motorFingerprint], [identifiers.chassisNumber])
+    if (existing.chassisNumbers.size > 0) {
+      throw new Error(`رقم الشاسيه ${identifiers.chassisNumber} مسجل لصنف آخر في المخزون`)
+    }
+    if (existing.motorFingerprints.size > 0) {
+      throw new Error(`بصمة الموتور ${identifiers.motorFingerprint} مسجلة لصنف آخر في المخزون`)
+    }
+
+    const itemRef = doc(collection(db, 'inventory_items'))
+    await runTransaction(db, async (transaction) => {
+      await this.check(transaction, [identifiers])
+      transaction.set(itemRef, { ...item, ...identifiers })
+      this.reserve(transaction, itemRef.id, identifiers)
+    })
+
+    return itemRef.id
+  }
+
+  // تعديل بيانات صنف قائم مع نقل حجز الأرقام إذا تغيرت
+  static async updateItem(itemId: string, changes: Record<string, unknown> & ItemIdentifiers): Promise<IdentifierResult> {
+    try {
+      // الأصناف القديمة غير المفهرسة بنفس الرقم الجديد
+      const fields = [['chassisNumber', changes.chassisNumber], ['motorFingerprint', changes.motorFingerprint]] as const
+      for (const [field, value] of fields) {
+        const normalized = normalizeIdentifier(value || '')
+        if (!normalized) continue
+        const snapshot = await getDocs(query(collection(db, 'inventory_items'), where(field, '==', normalized)))
+        if (snapshot.docs.some(itemDoc => itemDoc.id !== itemId)) {
+          return { success: false, error: `${identifierKindLabels[field === 'chassisNumber' ? 'chassis' : 'motor']} ${normalized} مسجل لصنف آخر في المخزون` }
+        }
+      }
+
+      await runTransaction(db, async (transaction) => {
+        const itemRef = doc(db, 'inventory_items', itemId)
+        const itemDoc = await transaction.get(itemRef)
+        if (!itemDoc.exists()) {
+          throw new Error('الصنف غير موجود')
+        }
+
+        const current = itemDoc.data() as InventoryItem
+        const next: ItemIdentifiers = {
+          chassisNumber: normalizeIdentifier(changes.chassisNumber ?? current.chassisNumber ?? ''),
+          motorFingerprint: normalizeIdentifier(changes.motorFingerprint ?? current.motorFingerprint ?? '')
+        }
+        const previous = identifierEntries(current)
+        const kept = new Set(identifierEntries(next).map(({ kind, value }) => `${kind}_${value}`))
+
+        // الحجوزات القديمة تحذف فقط إذا كانت مسجلة لهذا الصنف
+        const released = previous.filter(({ kind, value }) => !kept.has(`${kind}_${value}`))
+        const releasedDocs = await Promise.all(released.map(({ kind, value }) => transaction.get(identifierRef(kind, value))))
+        await this.check(transaction, [next], itemId)
+
+        releasedDocs.forEach(snapshot => {
+          if (snapshot.exists() && snapshot.data().inventoryItemId === itemId) {
+            transaction.delete(snapshot.ref)
+          }
+        })
+        transaction.update(itemRef, { ...changes, ...next })
+        this.reserve(transaction, itemId, next)
+      })
+
+      return { success: true }
+    } catch (error) {
+      console.error('Error updating inventory item identifiers:', error)
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'فشل في تحديث بيانات الصنف'
+      }
+    }
+  }
+
+  // البحث في كل المخزون عن الأرقام المكررة (بما فيها الأصناف المسجلة قبل إنشاء الفهرس)
+  static async findDuplicates(): Promise<DuplicateIdentifierGroup[]> {
+    const snapshot = await getDocs(collection(db, 'inventory_items'))
+    const items = snapshot.docs.map(itemDoc => ({ id: itemDoc.id, ...itemDoc.data() })) as InventoryItem[]
+
+    const groups = new Map<string, DuplicateIdentifierGroup>()
+    items.forEach(item => {
+      identifierEntries(item).forEach(({ kind, value }) => {
+        const key = `${kind}_${value}`
+        const group = groups.get(key) || { kind, value, items: [] }
+        group.items.push(item)
+        groups.set(key, group)
+      })
+    })
+
+    return [...groups.values()]
+      .filter(group => group.items.length > 1)
+      .sort((a, b) => b.items.length - a.items.length)
+  }
+
+  // حجز أرقام الأصناف القديمة في الفهرس، والأرقام المكررة تترك حتى تصحح أو تدمج
+  static async buildIndex(): Promise<IdentifierResult & { reserved?: number, skipped?: number }> {
+    try {
+      const snapshot = await getDocs(collection(db, 'inventory_items'))
+      const owners = new Map<string, { kind: IdentifierKind, value: string, itemIds: string[] }>()
+
+      snapshot.docs.forEach(itemDoc => {
+        identifierEntries(itemDoc.data() as InventoryItem).forEach(({ kind, value }) => {
+          const key = `${kind}_${value}`
+          const owner = owners.get(key) || { kind, value, itemIds: [] }
+          owner.itemIds.push(itemDoc.id)
+          owners.set(key, owner)
+        })
+      })
+
+      const unique = [...owners.values()].filter(owner => owner.itemIds.length === 1)
+      for (let start = 0; start < unique.length; start += 450) {
+        const batch = writeBatch(db)
+        unique.slice(start, start + 450).forEach(({ kind, value, itemIds }) => {
+          batch.set(identifierRef(kind, value), {
+            kind,
+            value,
+            inventoryItemId: itemIds[0],
+            createdAt: serverTimestamp()
+          })
+        })
+        await batch.commit()
+      }
+
+      return { success: true, reserved: unique.length, skipped: owners.size - unique.length }
+    } catch (error) {
+      console.error('Error building identifier index:', error)
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'فشل في بناء فهرس الأرقام'
+      }
+    }
+  }
+
+  // دمج صنف مكرر في الصنف الصحيح: يحذف المكرر ويحفظ نسخته في سجل الدمج، ويشترط أنه لم يبع أو يحجز
+  static async mergeItems(keptItemId: string, removedItemId: string, reason: string, userId: string): Promise<IdentifierResult> {
+    try {
+      if (keptItemId === removedItemId) {
+        return { success: false, error: 'لا يمكن دمج الصنف في نفسه' }
+      }
+
+      await runTransaction(db, async (transaction) => {
+        const keptRef = doc(db, 'inventory_items', keptItemId)
+        const removedRef = doc(db, 'inventory_items', removedItemId)
+        const [keptDoc, removedDoc] = await Promise.all([transaction.get(keptRef), transaction.get(removedRef)])
+        if (!keptDoc.exists() || !removedDoc.exists()) {
+          throw new Error('أحد الصنفين غير موجود')
+        }
+
+        const removed = removedDoc.data() as InventoryItem
+        if (removed.status !== 'available') {
+          throw new Error('لا يمكن حذف صنف مباع أو محجوز أو محول، صحح رقمه بدلاً من الدمج')
+        }
+
+        const kept = keptDoc.data() as InventoryItem
+        const keptEntries = identifierEntries(kept)
+        const keptKeys = new Set(keptEntries.map(({ kind, value }) => `${kind}_${value}`))
+        const removedEntries = identifierEntries(removed).filter(({ kind, value }) => !keptKeys.has(`${kind}_${value}`))
+        const [keptIndex, removedIndex] = await Promise.all([
+          Promise.all(keptEntries.map(({ kind, value }) => transaction.get(identifierRef(kind, value)))),
+          Promise.all(removedEntries.map(({ kind, value }) => transaction.get(identifierRef(kind, value))))
+        ])
+
+        removedIndex.forEach(snapshot => {
+          if (snapshot.exists() && snapshot.data().inventoryItemId === removedItemId) {
+            transaction.delete(snapshot.ref)
+          }
+        })
+        // أرقام الصنف المحتفظ به تحجز له إذا لم تكن محجوزة لصنف ثالث
+        keptIndex.forEach((snapshot, index) => {
+          const owner = snapshot.exists() ? snapshot.data().inventoryItemId : null
+          if (!owner || owner === removedItemId || owner === keptItemId) {
+            const { kind, value } = keptEntries[index]
+            transaction.set(snapshot.ref, {
+              kind,
+              value,
+              inventoryItemId: keptItemId,
+              createdAt: serverTimestamp()
+            })
+          }
+        })
+
+        transaction.set(doc(collection(db, 'inventory_merges')), {
+          keptItemId,
+          removedItemId,
+          removedItem: removed,
+          reason,
+          mergedBy: userId,
+          mergedAt: serverTimestamp()
+        })
+        transaction.delete(removedRef)
+      })
+
+      return { success: true }
+    } catch (error) {
+      console.error('Error merging inventory items:', error)
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'فشل في دمج الصنفين'
+      }
+    }
+  }
+}
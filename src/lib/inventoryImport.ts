@@ -0,0 +1,308 @@
+// استيراد شحنات المخزون من ملف Excel (قائمة التعبئة من المصنع) مع المعاينة والتحقق قبل الحفظ
+
+import {
+  collection,
+  doc,
+  runTransaction,
+  serverTimestamp
+} from 'firebase/firestore'
+import * as XLSX from 'xlsx'
+import { db } from '../firebase/firebase-config.template'
+import { generateTransactionId, vehicleTypeTranslations } from './utils'
+import { ExistingIdentifiers, InventoryIdentifierService, normalizeIdentifier } from './inventoryIdentifiers'
+import { VehicleCatalog, activeBrands, matchCatalogColor, resolveCatalogNames } from './vehicleCatalog'
+import { CreateInventoryItemForm, VehicleType } from '../types'
+
+export type ImportField = Exclude<keyof CreateInventoryItemForm, 'warehouseId' | 'brandId' | 'modelId'>
+
+export type ColumnMapping = Record<ImportField, string>
+
+export interface SpreadsheetData {
+  headers: string[]
+  rows: Record<string, unknown>[]
+}
+
+export interface ImportRow {
+  rowNumber: number // رقم الصف في الملف (بعد صف العناوين)
+  item: Omit<CreateInventoryItemForm, 'warehouseId'>
+  errors: string[]
+}
+
+export interface ImportResult {
+  success: boolean
+  importedCount?: number
+  entryTransactionId?: string
+  error?: string
+}
+
+// الحد الأقصى لصفوف الشحنة الواحدة حتى تحفظ في معاملة واحدة (الصنف ورقمان في الفهرس لكل صف مع معاملة الدخول)
+export const IMPORT_MAX_ROWS = 150
+
+export const importFieldLabels: Record<ImportField, string> = {
+  type: 'نوع المركبة',
+  brand: 'الماركة',
+  model: 'الموديل',
+  color: 'اللون',
+  countryOfOrigin: 'بلد المنشأ',
+  manufacturingYear: 'سنة الصنع',
+  purchasePrice: 'سعر الشراء',
+  salePrice: 'سعر البيع',
+  motorFingerprint: 'بصمة الموتور',
+  chassisNumber: 'رقم الشاسيه'
+}
+
+const requiredFields: ImportField[] = ['brand', 'model', 'manufacturingYear', 'purchasePrice', 'salePrice', 'motorFingerprint', 'chassisNumber']
+
+// أسماء الأعمدة الشائعة في قوائم التعبئة لمطابقتها تلقائياً
+const columnAliases: Record<ImportField, string[]> = {
+  type: ['type', 'vehicle type', 'النوع', 'نوع المركبة'],
+  brand: ['brand', 'make', 'manufacturer', 'الماركة', 'الشركة المصنعة'],
+  model: ['model', 'الموديل', 'الطراز'],
+  color: ['color', 'colour', 'اللون'],
+  countryOfOrigin: ['country', 'origin', 'country of origin', 'بلد المنشأ', 'المنشأ'],
+  manufacturingYear: ['year', 'model year', 'manufacturing year', 'سنة الصنع', 'السنة'],
+  purchasePrice: ['cost', 'purchase price', 'unit price', 'سعر الشراء', 'التكلفة'],
+  salePrice: ['sale price', 'retail price', 'price', 'سعر البيع'],
+  motorFingerprint: ['engine', 'engine no', 'engine number', 'motor', 'motor number', 'بصمة الموتور', 'رقم الموتور'],
+  chassisNumber: ['chassis', 'chassis no', 'chassis number', 'vin', 'frame', 'frame no', 'رقم الشاسيه', 'الشاسيه', 'رقم الشاسية']
+}
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[._#:-]/g, ' ').replace(/\s+/g, ' ').trim()
+
+export async function readSpreadsheet(file: File): Promise<SpreadsheetData> {
+  const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array' })
+  const sheet = workbook.Sheets[workbook.SheetNames[0]]
+  if (!sheet) {
+    return { headers: [], rows: [] }
+  }
+
+  const rows = XLSX.utils.sheet_to_json<Record<string, unknown>>(sheet, { defval: '', raw: true })
+  const headers = (XLSX.utils.sheet_to_json<string[]>(sheet, { header: 1 })[0] || []).map(String)
+  return { headers, rows }
+}
+
+export function autoMapColumns(headers: string[]): ColumnMapping {
+  const mapping = {} as ColumnMapping
+  ;(Object.keys(columnAliases) as ImportField[]).forEach(field => {
+    const match = headers.find(header => columnAliases[field].includes(normalizeHeader(header)))
+    mapping[field] = match || ''
+  })
+  return mapping
+}
+
+// نوع المركبة يقبل المفتاح الإنجليزي أو الاسم العربي، والافتراضي موتوسيكل
+function parseVehicleType(value: string): VehicleType | null {
+  const text = value.trim()
+  if (!text) return 'motorcycle'
+
+  const entry = Object.entries(vehicleTypeTranslations)
+    .find(([key, label]) => key === text.toLowerCase() || label === text)
+  return entry ? entry[0] as VehicleType : null
+}
+
+const parseNumber = (value: unknown) => {
+  if (typeof value === 'number') return value
+  const parsed = parseFloat(String(value ?? '').replace(/,/g, '').trim())
+  return isNaN(parsed) ? NaN : parsed
+}
+
+// عند وجود كتالوج الموديلات تطابق الماركة والموديل واللون معه وتحفظ بأسمائها الموحدة
+export function validateImportRows(
+  data: SpreadsheetData,
+  mapping: ColumnMapping,
+  existing: ExistingIdentifiers,
+  catalog?: VehicleCatalog
+): ImportRow[] {
+  const useCatalog = !!catalog && activeBrands(catalog).length > 0
+  const seenMotors = new Map<string, number>()
+  const seenChassis = new Map<string, number>()
+  const maxYear = new Date().getFullYear() + 1
+
+  return data.rows.map((row, index) => {
+    const rowNumber = index + 2
+    const cell = (field: ImportField) => mapping[field] ? String(row[mapping[field]] ?? '').trim() : ''
+    const errors: string[] = []
+
+    requiredFields.forEach(field => {
+      if (!mapping[field]) {
+        errors.push(`لم يتم تحديد عمود ${importFieldLabels[field]}`)
+      } else if (!cell(field)) {
+        errors.push(`${importFieldLabels[field]} مطلوب`)
+      }
+    })
+
+    let type = parseVehicleType(cell('type'))
+    if (!type) {
+      errors.push(`نوع المركبة غير معروف: ${cell('type')}`)
+    }
+
+    let brand = cell('brand')
+    let model = cell('model')
+    let color = cell('color')
+    let countryOfOrigin = cell('countryOfOrigin')
+    let catalogIds: { brandId: string, modelId: string } | null = null
+    if (useCatalog && brand && model) {
+      const match = resolveCatalogNames(catalog!, brand, model)
+      const matchedColor = match.model ? matchCatalogColor(match.model, color) : null
+      if (!match.brand) {
+        errors.push(`الماركة غير موجودة في الكتالوج: ${brand}`)
+      } else if (!match.model) {
+        errors.push(`الموديل غير موجود في كتالوج ${match.brand.name}: ${model}`)
+      } else if (color && matchedColor === null) {
+        errors.push(`اللون ${color} غير مسموح للموديل ${match.model.name}`)
+      } else {
+        brand = match.brand.name
+        model = match.model.name
+        color = matchedColor || color
+        type = match.model.type
+        countryOfOrigin = countryOfOrigin || match.brand.countryOfOrigin || ''
+        catalogIds = { brandId: match.brand.id, modelId: match.model.id }
+      }
+    }
+
+    const manufacturingYear = parseNumber(mapping.manufacturingYear ? row[mapping.manufacturingYear] : '')
+    if (cell('manufacturingYear') && (!Number.isInteger(manufacturingYear) || manufacturingYear < 1990 || manufacturingYear > maxYear)) {
+      errors.push(`سنة الصنع غير صالحة (1990 - ${maxYear})`)
+    }
+
+    const purchasePrice = parseNumber(mapping.purchasePrice ? row[mapping.purchasePrice] : '')
+    const salePrice = parseNumber(mapping.salePrice ? row[mapping.salePrice] : '')
+    if (cell('purchasePrice') && !(purchasePrice > 0)) {
+      errors.push('سعر الشراء يجب أن يكون رقماً أكبر من صفر')
+    }
+    if (cell('salePrice') && !(salePrice > 0)) {
+      errors.push('سعر البيع يجب أن يكون رقماً أكبر من صفر')
+    }
+    if (purchasePrice > 0 && salePrice > 0 && salePrice < purchasePrice) {
+      errors.push('سعر البيع أقل من سعر الشراء')
+    }
+
+    const motorFingerprint = normalizeIdentifier(cell('motorFingerprint'))
+    const chassisNumber = normalizeIdentifier(cell('chassisNumber'))
+    if (motorFingerprint) {
+      if (existing.motorFingerprints.has(motorFingerprint)) {
+        errors.push('بصمة الموتور مسجلة في المخزون من قبل')
+      } else if (seenMotors.has(motorFingerprint)) {
+        errors.push(`بصمة الموتور مكررة مع الصف ${seenMotors.get(motorFingerprint)}`)
+      }
+      seenMotors.set(motorFingerprint, seenMotors.get(motorFingerprint) ?? rowNumber)
+    }
+    if (chassisNumber) {
+      if (existing.chassisNumbers.has(chassisNumber)) {
+        errors.push('رقم الشاسيه مسجل في المخزون من قبل')
+      } else if (seenChassis.has(chassisNumber)) {
+        errors.push(`رقم الشاسيه مكرر مع الصف ${seenChassis.get(chassisNumber)}`)
+      }
+      seenChassis.set(chassisNumber, seenChassis.get(chassisNumber) ?? rowNumber)
+    }
+
+    return {
+      rowNumber,
+      item: {
+        type: type || 'motorcycle',
+        brand,
+        model,
+        color,
+        countryOfOrigin,
+        ...catalogIds,
+        manufacturingYear: Number.isInteger(manufacturingYear) ? manufacturingYear : 0,
+        purchasePrice: purchasePrice > 0 ? purchasePrice : 0,
+        salePrice: salePrice > 0 ? salePrice : 0,
+        motorFingerprint,
+        chassisNumber
+      },
+      errors
+    }
+  })
+}
+
+// نموذج فارغ بالأعمدة المتوقعة لإرساله للمورد
+export function downloadImportTemplate() {
+  const fields = Object.keys(importFieldLabels) as ImportField[]
+  const sheet = XLSX.utils.aoa_to_sheet([fields.map(field => importFieldLabels[field])])
+  const workbook = XLSX.utils.book_new()
+  XLSX.utils.book_append_sheet(workbook, sheet, 'المخزون')
+  XLSX.writeFile(workbook, 'inventory-import-template.xlsx')
+}
+
+export class InventoryImportService {
+
+  // حفظ الصفوف الصالحة ومعاملة دخول مخزني واحدة للشحنة مع حجز أرقامها في معاملة واحدة
+  static async commitImport(rows: ImportRow[], warehouseId: string, userId: string, sourceName: string): Promise<ImportResult> {
+    try {
+      const validRows = rows.filter(row => row.errors.length === 0)
+      if (validRows.length === 0) {
+        return { success: false, error: 'لا توجد صفوف صالحة للاستيراد' }
+      }
+      if (validRows.length > IMPORT_MAX_ROWS) {
+        return { success: false, error: `الحد الأقصى ${IMPORT_MAX_ROWS} صنف في الشحنة الواحدة` }
+      }
+      if (!warehouseId) {
+        return { success: false, error: 'يرجى اختيار المخزن المستلم' }
+      }
+
+      // إعادة التحقق من التكرار قبل الحفظ مباشرة لتفادي الإضافة المتزامنة من شاشة أخرى
+      const existing = await InventoryIdentifierService.findExisting(
+        validRows.map(row => row.item.motorFingerprint!),
+        validRows.map(row => row.item.chassisNumber!)
+      )
+      const duplicate = validRows.find(row =>
+        existing.motorFingerprints.has(row.item.motorFingerprint!) || existing.chassisNumbers.has(row.item.chassisNumber!))
+      if (duplicate) {
+        return { success: false, error: `الصف ${duplicate.rowNumber} أضيف للمخزون بعد المعاينة، يرجى إعادة التحقق` }
+      }
+
+      const entryTransactionId = generateTransactionId('warehouse_entry')
+      await runTransaction(db, async (transaction) => {
+        await InventoryIdentifierService.check(transaction, validRows.map(row => row.item))
+
+        const entryItems: { inventoryItemId: string, motorFingerprint: string, chassisNumber: string }[] = []
+
+        validRows.forEach(row => {
+          const itemRef = doc(collection(db, 'inventory_items'))
+          transaction.set(itemRef, {
+            ...row.item,
+            motorFingerprintImageUrl: '',
+            chassisNumberImageUrl: '',
+            currentWarehouseId: warehouseId,
+            status: 'available',
+            entryTransactionId,
+            createdAt: serverTimestamp(),
+            updatedAt: serverTimestamp(),
+            createdBy: userId
+          })
+          InventoryIdentifierService.reserve(transaction, itemRef.id, row.item)
+          entryItems.push({
+            inventoryItemId: itemRef.id,
+            motorFingerprint: row.item.motorFingerprint!,
+            chassisNumber: row.item.chassisNumber!
+          })
+        })
+
+        transaction.set(doc(collection(db, 'transactions')), {
+          id: entryTransactionId,
+          type: 'warehouse_entry',
+          date: serverTimestamp(),
+          userId,
+          referenceNumber: entryTransactionId,
+          items: entryItems,
+          totalAmount: validRows.reduce((sum, row) => sum + row.item.purchasePrice, 0),
+          toWarehouseId: warehouseId,
+          details: {
+            notes: `استيراد شحنة من ملف ${sourceName} (${validRows.length} صنف)`
+          },
+          createdAt: serverTimestamp(),
+          updatedAt: serverTimestamp()
+        })
+      })
+
+      return { success: true, importedCount: validRows.length, entryTransactionId }
+    } catch (error) {
+      console.error('Error importing inventory:', error)
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'فشل في استيراد المخزون'
+      }
+    }
+  }
+}
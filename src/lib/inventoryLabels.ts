@@ -0,0 +1,67 @@
+// ملصقات QR للأصناف: الرمز يفتح صفحة الصنف، وقراءته في شاشات البيع والمخزون تختار الصنف مباشرة
+
+import { normalizeIdentifier } from './inventoryIdentifiers'
+
+export type LabelFormat = 'a4' | 'roll_58' | 'roll_80'
+
+export interface LabelFormatOptions {
+  label: string
+  pageSize: string // قيمة @page size
+  columns: number
+  labelWidth: string
+  labelHeight: string
+  qrSize: number
+}
+
+export const labelFormats: Record<LabelFormat, LabelFormatOptions> = {
+  a4: {
+    label: 'ورقة A4 (3 × 8)',
+    pageSize: 'A4',
+    columns: 3,
+    labelWidth: '63.5mm',
+    labelHeight: '33.9mm',
+    qrSize: 96
+  },
+  roll_58: {
+    label: 'طابعة ملصقات 58 مم',
+    pageSize: '58mm 40mm',
+    columns: 1,
+    labelWidth: '56mm',
+    labelHeight: '38mm',
+    qrSize: 88
+  },
+  roll_80: {
+    label: 'طابعة ملصقات 80 مم',
+    pageSize: '80mm 50mm',
+    columns: 1,
+    labelWidth: '78mm',
+    labelHeight: '48mm',
+    qrSize: 120
+  }
+}
+
+const detailsPathPattern = /\/inventory\/details\/([A-Za-z0-9_-]+)\/?$/
+
+export const inventoryItemUrl = (itemId: string) => `${window.location.origin}/inventory/details/${itemId}`
+
+// معرف الصنف من نص رمز QR (رابط صفحة الصنف)، أو null إذا لم يكن رابط صنف
+export function parseScannedItemId(text: string): string | null {
+  const match = text.trim().match(detailsPathPattern)
+  return match ? match[1] : null
+}
+
+// البحث عن الصنف المقروء في قائمة محملة: برابط الـ QR أو برقم الشاسيه / بصمة الموتور من قارئ الباركود
+export function findScannedItem<T extends { id: string, chassisNumber?: string, motorFingerprint?: string }>(
+  items: T[],
+  text: string
+): T | undefined {
+  const itemId = parseScannedItemId(text)
+  if (itemId) {
+    return items.find(item => item.id === itemId)
+  }
+
+  const value = normalizeIdentifier(text)
+  if (!value) return undefined
+  return items.find(item =>
+    normalizeIdentifier(item.chassisNumber || '') === value || normalizeIdentifier(item.motorFingerprint || '') === value)
+}
@@ -0,0 +1,329 @@
+// السجل الكامل لكل وحدة: الدخول، التحويلات، الحجز، البيع، المرتجع، مراحل الوثائق وتعديلات الأسعار مرتبة زمنياً
+
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  where,
+  Timestamp
+} from 'firebase/firestore'
+import { db } from '../firebase/firebase-config.template'
+import { documentStatusTranslations } from './utils'
+import { stockCountReasonLabels } from './stockCounts'
+import {
+  DocumentStage,
+  DocumentStatus,
+  InventoryItem,
+  ItemPriceChange,
+  ItemPriceField,
+  ItemReservation,
+  SaleReturn,
+  Warehouse
+} from '../types'
+
+export type TimelineEventKind =
+  | 'entry'
+  | 'transfer'
+  | 'reservation'
+  | 'reservation_closed'
+  | 'sale'
+  | 'agent_transaction'
+  | 'return'
+  | 'document_stage'
+  | 'price_change'
+  | 'write_off'
+
+export interface TimelineEvent {
+  id: string
+  kind: TimelineEventKind
+  date: Date
+  title: string
+  description?: string
+  amount?: number
+  reference?: string
+  userId?: string
+  userName?: string
+}
+
+export const timelineKindLabels: Record<TimelineEventKind, string> = {
+  entry: 'دخول المخزون',
+  transfer: 'تحويل مخزني',
+  reservation: 'حجز',
+  reservation_closed: 'انتهاء الحجز',
+  sale: 'بيع',
+  agent_transaction: 'حساب الوكيل',
+  return: 'مرتجع',
+  document_stage: 'مرحلة الوثائق',
+  price_change: 'تعديل سعر',
+  write_off: 'شطب'
+}
+
+export const priceFieldLabels: Record<ItemPriceField, string> = {
+  purchasePrice: 'سعر الشراء',
+  salePrice: 'سعر البيع',
+  minimumPrice: 'الحد الأدنى للسعر'
+}
+
+const reservationClosedLabels: Record<Exclude<ItemReservation['status'], 'active'>, string> = {
+  converted: 'تحويل الحجز إلى بيع',
+  expired: 'انتهاء مدة الحجز',
+  cancelled: 'إلغاء الحجز'
+}
+
+const toDate = (value: unknown): Date | null => {
+  if (!value) return null
+  if (value instanceof Date) return value
+  if (typeof (value as Timestamp).toDate === 'function') return (value as Timestamp).toDate()
+  return null
+}
+
+// استعلامات "in" تقبل 10 قيم كحد أقصى
+function chunk<T>(values: T[], size: number): T[][] {
+  return Array.from({ length: Math.ceil(values.length / size) }, (_, index) => values.slice(index * size, (index + 1) * size))
+}
+
+// قيود تعديل الأسعار تضاف لسجل الصنف عند الحفظ، والأسعار غير المتغيرة لا تسجل
+export function priceChangeEntries(
+  item: Pick<InventoryItem, ItemPriceField>,
+  changes: Partial<Record<ItemPriceField, number>>,
+  userId: string
+): ItemPriceChange[] {
+  const changedAt = Timestamp.now()
+  return (Object.keys(priceFieldLabels) as ItemPriceField[]).flatMap(field => {
+    const oldValue = Number(item[field]) || 0
+    const newValue = changes[field]
+    if (newValue === undefined || Number(newValue) === oldValue) return []
+    return [{ field, oldValue, newValue: Number(newValue), changedAt, changedBy: userId }]
+  })
+}
+
+export class ItemTimelineService {
+
+  // الاستعلامات بدون orderBy لتجنب الحاجة لفهارس مركبة، والترتيب يتم بعد التجميع
+  static async getTimeline(item: InventoryItem): Promise<TimelineEvent[]> {
+    const byItem = (collectionName: string) =>
+      getDocs(query(collection(db, collectionName), where('inventoryItemId', '==', item.id)))
+
+    const [transfersSnapshot, reservationsSnapshot, agentSalesSnapshot, returnsSnapshot, trackingSnapshot, warehousesSnapshot] = await Promise.all([
+      byItem('warehouse_transfers'),
+      byItem('item_reservations'),
+      byItem('sales'),
+      byItem('sales_returns'),
+      // سجلات الوثائق القديمة قد لا تحمل معرف الصنف، فالربط برقم الشاسيه
+      getDocs(query(collection(db, 'document_tracking'), where('chassisNumber', '==', item.chassisNumber))),
+      getDocs(collection(db, 'warehouses'))
+    ])
+
+    const warehouseNames = new Map(warehousesSnapshot.docs.map(warehouseDoc =>
+      [warehouseDoc.id, (warehouseDoc.data() as Warehouse).name]))
+    const warehouseName = (warehouseId?: string) => (warehouseId && warehouseNames.get(warehouseId)) || 'مخزن غير معروف'
+
+    const events: TimelineEvent[] = []
+    const push = (event: Omit<TimelineEvent, 'date'> & { date: unknown }) => {
+      const date = toDate(event.date)
+      if (date) events.push({ ...event, date })
+    }
+
+    push({
+      id: `entry_${item.id}`,
+      kind: 'entry',
+      date: item.createdAt,
+      title: item.tradeInSaleId
+        ? 'استلام كاستبدال من عميل'
+        : item.goodsReceiptId ? 'استلام على أمر شراء' : 'إدخال للمخزون',
+      description: item.condition === 'used' ? item.conditionNotes : undefined,
+      amount: item.supplierPrice ?? item.priceHistory?.find(change => change.field === 'purchasePrice')?.oldValue ?? item.purchasePrice,
+      reference: item.entryTransactionId,
+      userId: item.createdBy
+    })
+
+    transfersSnapshot.docs.forEach(transferDoc => {
+      const data = transferDoc.data()
+      push({
+        id: transferDoc.id,
+        kind: 'transfer',
+        date: data.transferredAt || data.createdAt,
+        title: `تحويل من ${warehouseName(data.fromWarehouseId)} إلى ${warehouseName(data.toWarehouseId)}`,
+        description: data.notes || undefined,
+        reference: data.transferNoteNumber || data.transactionId,
+        userId: data.transferredBy
+      })
+    })
+
+    reservationsSnapshot.docs.forEach(reservationDoc => {
+      const reservation = { id: reservationDoc.id, ...reservationDoc.data() } as ItemReservation
+      push({
+        id: reservation.id,
+        kind: 'reservation',
+        date: reservation.createdAt,
+        title: `حجز للعميل ${reservation.customerName}`,
+        description: reservation.notes,
+        amount: reservation.depositAmount,
+        userId: reservation.createdBy,
+        userName: reservation.createdByName
+      })
+      if (reservation.status !== 'active') {
+        push({
+          id: `${reservation.id}_${reservation.status}`,
+          kind: 'reservation_closed',
+          date: reservation.convertedAt || reservation.cancelledAt || reservation.expiredAt,
+          title: reservationClosedLabels[reservation.status],
+          userId: reservation.cancelledBy
+        })
+      }
+    })
+
+    const agentSaleIds: string[] = []
+    agentSalesSnapshot.docs.forEach(saleDoc => {
+      const data = saleDoc.data()
+      agentSaleIds.push(saleDoc.id)
+      push({
+        id: saleDoc.id,
+        kind: 'sale',
+        date: data.createdAt,
+        title: `بيع عن طريق الوكيل للعميل ${data.customerName || ''}`.trim(),
+        description: data.status === 'returned' ? 'تم رد هذا البيع' : undefined,
+        amount: data.salePrice,
+        reference: data.invoiceNumber,
+        userId: data.createdBy || data.agentId
+      })
+    })
+
+    // مبيعات الشركة مسجلة كفواتير متعددة الأصناف، فيستدل عليها من سجل الوثائق الخاص بالوحدة
+    const companySaleTransactionIds: string[] = []
+    trackingSnapshot.docs.forEach(trackingDoc => {
+      const data = trackingDoc.data()
+      if (data.inventoryItemId && data.inventoryItemId !== item.id) return
+
+      const isCompanySale = data.saleType === 'company_sale' || data.transactionType === 'company_sale'
+      if (isCompanySale && data.transactionId) {
+        companySaleTransactionIds.push(data.transactionId)
+      }
+
+      const stages: DocumentStage[] = data.stages || []
+      stages.forEach((stage, index) => {
+        push({
+          id: `${trackingDoc.id}_${index}`,
+          kind: 'document_stage',
+          date: stage.date,
+          title: `الوثائق: ${documentStatusTranslations[stage.status as DocumentStatus] || stage.status}`,
+          description: stage.notes,
+          userId: stage.updatedBy
+        })
+      })
+    })
+
+    const [companySales, agentTransactions] = await Promise.all([
+      this.getCompanySales(companySaleTransactionIds),
+      this.getAgentTransactions(agentSaleIds)
+    ])
+
+    companySales.forEach(saleDoc => {
+      const data = saleDoc.data()
+      const line = (data.items || []).find((entry: { inventoryItemId?: string }) => entry.inventoryItemId === item.id)
+      push({
+        id: saleDoc.id,
+        kind: 'sale',
+        date: data.createdAt,
+        title: `بيع من الشركة للعميل ${data.customerName || ''}`.trim(),
+        description: data.status === 'returned' ? 'تم رد هذا البيع' : undefined,
+        amount: line?.salePrice ?? data.totalAmount,
+        reference: data.invoiceNumber || data.transactionId,
+        userId: data.soldBy || data.createdBy
+      })
+    })
+
+    agentTransactions.forEach(transactionDoc => {
+      const data = transactionDoc.data()
+      push({
+        id: transactionDoc.id,
+        kind: 'agent_transaction',
+        date: data.createdAt,
+        title: data.description || 'قيد على حساب الوكيل',
+        amount: data.amount,
+        userId: data.createdBy
+      })
+    })
+
+    returnsSnapshot.docs.forEach(returnDoc => {
+      const saleReturn = { id: returnDoc.id, ...returnDoc.data() } as SaleReturn
+      push({
+        id: saleReturn.id,
+        kind: 'return',
+        date: saleReturn.createdAt,
+        title: `مرتجع إلى ${warehouseName(saleReturn.returnedToWarehouseId)}`,
+        description: saleReturn.reason,
+        amount: saleReturn.refundAmount,
+        reference: saleReturn.creditNoteNumber,
+        userId: saleReturn.createdBy
+      })
+    })
+
+    item.priceHistory?.forEach((change, index) => {
+      push({
+        id: `price_${index}`,
+        kind: 'price_change',
+        date: change.changedAt,
+        title: change.reference ? `تحميل تكاليف الشحنة على ${priceFieldLabels[change.field]}` : `تعديل ${priceFieldLabels[change.field]}`,
+        description: `من ${change.oldValue} إلى ${change.newValue}`,
+        amount: change.newValue,
+        reference: change.reference,
+        userId: change.changedBy
+      })
+    })
+
+    if (item.writeOff) {
+      push({
+        id: `writeoff_${item.id}`,
+        kind: 'write_off',
+        date: item.writeOff.writtenOffAt,
+        title: item.writeOff.transferNoteId
+          ? 'شطب كمفقود أثناء التحويل'
+          : `شطب في الجرد: ${stockCountReasonLabels[item.writeOff.reason]}`,
+        description: item.writeOff.notes,
+        userId: item.writeOff.writtenOffBy
+      })
+    }
+
+    await this.attachUserNames(events)
+    return events.sort((a, b) => a.date.getTime() - b.date.getTime())
+  }
+
+  private static async getCompanySales(transactionIds: string[]) {
+    const uniqueIds = Array.from(new Set(transactionIds))
+    const snapshots = await Promise.all(chunk(uniqueIds, 10).map(ids =>
+      getDocs(query(collection(db, 'company_sales'), where('transactionId', 'in', ids)))))
+    return snapshots.flatMap(snapshot => snapshot.docs)
+  }
+
+  private static async getAgentTransactions(saleIds: string[]) {
+    const snapshots = await Promise.all(chunk(saleIds, 10).map(ids =>
+      getDocs(query(collection(db, 'agent_transactions'), where('relatedSaleId', 'in', ids)))))
+    return snapshots.flatMap(snapshot => snapshot.docs)
+  }
+
+  // أسماء المستخدمين تقرأ مرة واحدة لكل معرف، والمعرف غير الموجود يبقى بدون اسم
+  private static async attachUserNames(events: TimelineEvent[]) {
+    const userIds = Array.from(new Set(events.filter(event => event.userId && !event.userName).map(event => event.userId!)))
+    const names = new Map<string, string>()
+
+    await Promise.all(userIds.map(async userId => {
+      try {
+        const userDoc = await getDoc(doc(db, 'users', userId))
+        if (userDoc.exists()) {
+          names.set(userId, userDoc.data().displayName || userDoc.data().username)
+        }
+      } catch (error) {
+        console.error('Error loading timeline user:', error)
+      }
+    }))
+
+    events.forEach(event => {
+      if (event.userId && !event.userName) {
+        event.userName = names.get(event.userId)
+      }
+    })
+  }
+}
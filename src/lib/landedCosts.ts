@@ -0,0 +1,253 @@
+// تكاليف الشحنة (نقل وجمارك وترخيص) توزع على وحداتها فيرتفع سعر الشراء للتكلفة الفعلية مع الاحتفاظ بسعر المورد الأصلي
+
+import {
+  arrayUnion,
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  where,
+  runTransaction,
+  serverTimestamp,
+  Timestamp
+} from 'firebase/firestore'
+import { db } from '../firebase/firebase-config.template'
+import { DocumentNumberingService } from './documentNumbering'
+import {
+  GoodsReceipt,
+  InventoryItem,
+  ItemPriceChange,
+  LandedCostAllocation,
+  LandedCostAllocationMethod,
+  LandedCostCategory,
+  LandedCostCharge,
+  LandedCostVoucher
+} from '../types'
+
+export interface LandedCostInput {
+  description: string
+  goodsReceiptId?: string
+  entryTransactionId?: string
+  itemIds: string[]
+  charges: LandedCostCharge[]
+  allocationMethod: LandedCostAllocationMethod
+}
+
+export interface LandedCostResult {
+  success: boolean
+  error?: string
+  id?: string
+  number?: string
+}
+
+export const landedCostCategoryLabels: Record<LandedCostCategory, string> = {
+  freight: 'نقل وشحن',
+  customs: 'جمارك',
+  registration: 'رسوم ترخيص وتسجيل',
+  other: 'أخرى'
+}
+
+export const allocationMethodLabels: Record<LandedCostAllocationMethod, string> = {
+  equal: 'بالتساوي على الموديلات',
+  value: 'حسب قيمة الوحدة',
+  quantity: 'حسب عدد الوحدات'
+}
+
+export const allocationMethodDescriptions: Record<LandedCostAllocationMethod, string> = {
+  equal: 'كل موديل في الشحنة يتحمل نصيباً متساوياً يقسم على وحداته',
+  value: 'كل وحدة تتحمل نسبة من التكاليف بقدر سعر المورد',
+  quantity: 'كل وحدة تتحمل نفس المبلغ'
+}
+
+export const LANDED_COST_MAX_ITEMS = 200
+
+// لا تحمل التكاليف على وحدات مباعة أو مشطوبة لأن تكلفتها أغلقت بالفعل
+const CLOSED_STATUSES = ['sold', 'written_off']
+
+// الوحدات التي خرجت لمخازن الوكلاء أو في الطريق إليها قيدت على الوكيل بتكلفتها وقت التحويل،
+// فرفع تكلفتها بعد ذلك لا يصل لحساب الوكيل ويفسد ربح بيعها
+const isOutsideCompany = (item: Pick<InventoryItem, 'status' | 'currentWarehouseId'>, agentWarehouseIds: Set<string>) =>
+  item.status === 'transferred' || agentWarehouseIds.has(item.currentWarehouseId)
+
+type AllocationItem = Pick<InventoryItem, 'id' | 'brand' | 'model' | 'purchasePrice' | 'supplierPrice'>
+
+export const supplierPriceOf = (item: Pick<InventoryItem, 'purchasePrice' | 'supplierPrice'>) =>
+  Number(item.supplierPrice ?? item.purchasePrice) || 0
+
+const roundAmount = (value: number) => Math.round(value * 100) / 100
+
+// توزيع المبلغ على الوحدات بنفس ترتيبها، وفرق التقريب يضاف لآخر وحدة حتى يطابق المجموع الإجمالي
+export function allocateLandedCost(items: AllocationItem[], total: number, method: LandedCostAllocationMethod): number[] {
+  if (items.length === 0) return []
+
+  let weights: number[]
+  if (method === 'value') {
+    weights = items.map(item => supplierPriceOf(item))
+    // وحدات بدون سعر مورد لا يمكن التوزيع عليها بالقيمة
+    if (weights.every(weight => weight <= 0)) {
+      weights = items.map(() => 1)
+    }
+  } else if (method === 'equal') {
+    const modelKey = (item: AllocationItem) => `${item.brand}|${item.model}`
+    const unitsPerModel = new Map<string, number>()
+    items.forEach(item => unitsPerModel.set(modelKey(item), (unitsPerModel.get(modelKey(item)) || 0) + 1))
+    weights = items.map(item => 1 / (unitsPerModel.get(modelKey(item)) || 1))
+  } else {
+    weights = items.map(() => 1)
+  }
+
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0)
+  const shares = weights.map(weight => roundAmount(total * weight / totalWeight))
+  const difference = roundAmount(total - shares.reduce((sum, share) => sum + share, 0))
+  shares[shares.length - 1] = roundAmount(shares[shares.length - 1] + difference)
+  return shares
+}
+
+export class LandedCostService {
+
+  static async getVouchers(): Promise<LandedCostVoucher[]> {
+    try {
+      const snapshot = await getDocs(collection(db, 'landed_cost_vouchers'))
+      return snapshot.docs
+        .map(voucherDoc => ({ id: voucherDoc.id, ...voucherDoc.data() }) as LandedCostVoucher)
+        .sort((a, b) => (b.createdAt?.toMillis?.() || 0) - (a.createdAt?.toMillis?.() || 0))
+    } catch (error) {
+      console.error('Error loading landed cost vouchers:', error)
+      return []
+    }
+  }
+
+  static async getVoucher(voucherId: string): Promise<LandedCostVoucher | null> {
+    const voucherDoc = await getDoc(doc(db, 'landed_cost_vouchers', voucherId))
+    return voucherDoc.exists() ? { id: voucherDoc.id, ...voucherDoc.data() } as LandedCostVoucher : null
+  }
+
+  static async getReceipts(): Promise<GoodsReceipt[]> {
+    try {
+      const snapshot = await getDocs(collection(db, 'goods_receipts'))
+      return snapshot.docs
+        .map(receiptDoc => ({ id: receiptDoc.id, ...receiptDoc.data() }) as GoodsReceipt)
+        .sort((a, b) => (b.createdAt?.toMillis?.() || 0) - (a.createdAt?.toMillis?.() || 0))
+    } catch (error) {
+      console.error('Error loading goods receipts:', error)
+      return []
+    }
+  }
+
+  private static async getAgentWarehouseIds(): Promise<Set<string>> {
+    const snapshot = await getDocs(query(collection(db, 'warehouses'), where('type', '==', 'agent')))
+    return new Set(snapshot.docs.map(warehouseDoc => warehouseDoc.id))
+  }
+
+  // وحدات الشحنة: إذن استلام على أمر شراء أو حركة إدخال للمخزون (إضافة يدوية أو استيراد)
+  // الباقية في مخازن الشركة فقط
+  static async getShipmentItems(field: 'goodsReceiptId' | 'entryTransactionId', value: string): Promise<InventoryItem[]> {
+    const [snapshot, agentWarehouseIds] = await Promise.all([
+      getDocs(query(collection(db, 'inventory_items'), where(field, '==', value.trim()))),
+      this.getAgentWarehouseIds()
+    ])
+    return snapshot.docs
+      .map(itemDoc => ({ id: itemDoc.id, ...itemDoc.data() }) as InventoryItem)
+      .filter(item => !CLOSED_STATUSES.includes(item.status) && !isOutsideCompany(item, agentWarehouseIds))
+  }
+
+  static async createVoucher(input: LandedCostInput, userId: string): Promise<LandedCostResult> {
+    try {
+      const charges = input.charges
+        .filter(charge => charge.amount > 0)
+        .map(charge => ({
+          category: charge.category,
+          amount: roundAmount(charge.amount),
+          ...(charge.notes?.trim() ? { notes: charge.notes.trim() } : {})
+        }))
+      const totalAmount = roundAmount(charges.reduce((sum, charge) => sum + charge.amount, 0))
+      if (totalAmount <= 0) {
+        return { success: false, error: 'أدخل تكلفة واحدة على الأقل بمبلغ أكبر من صفر' }
+      }
+      if (input.itemIds.length === 0) {
+        return { success: false, error: 'لا توجد وحدات في الشحنة لتوزيع التكاليف عليها' }
+      }
+      if (input.itemIds.length > LANDED_COST_MAX_ITEMS) {
+        return { success: false, error: `الحد الأقصى ${LANDED_COST_MAX_ITEMS} وحدة في المستند الواحد` }
+      }
+
+      const voucherRef = doc(collection(db, 'landed_cost_vouchers'))
+      const agentWarehouseIds = await this.getAgentWarehouseIds()
+
+      const voucherNumber = await runTransaction(db, async (transaction) => {
+        const itemRefs = input.itemIds.map(itemId => doc(db, 'inventory_items', itemId))
+        const itemDocs = await Promise.all(itemRefs.map(itemRef => transaction.get(itemRef)))
+        const items = itemDocs.map(itemDoc => {
+          if (!itemDoc.exists()) {
+            throw new Error('أحد أصناف الشحنة غير موجود')
+          }
+          const item = { id: itemDoc.id, ...itemDoc.data() } as InventoryItem
+          if (CLOSED_STATUSES.includes(item.status)) {
+            throw new Error(`الوحدة ${item.chassisNumber} مباعة أو مشطوبة ولا تحمل عليها تكاليف`)
+          }
+          if (isOutsideCompany(item, agentWarehouseIds)) {
+            throw new Error(`الوحدة ${item.chassisNumber} حولت لوكيل ولا تحمل عليها تكاليف، أعد تحميل وحدات الشحنة`)
+          }
+          return item
+        })
+
+        const number = await DocumentNumberingService.allocate(transaction, 'landed_cost')
+        const shares = allocateLandedCost(items, totalAmount, input.allocationMethod)
+        const changedAt = Timestamp.now()
+
+        const allocations: LandedCostAllocation[] = items.map((item, index) => {
+          const previousCost = Number(item.purchasePrice) || 0
+          const newCost = roundAmount(previousCost + shares[index])
+          const priceChange: ItemPriceChange = {
+            field: 'purchasePrice',
+            oldValue: previousCost,
+            newValue: newCost,
+            changedAt,
+            changedBy: userId,
+            reference: number
+          }
+
+          transaction.update(itemRefs[index], {
+            purchasePrice: newCost,
+            supplierPrice: supplierPriceOf(item),
+            landedCost: roundAmount((Number(item.landedCost) || 0) + shares[index]),
+            priceHistory: arrayUnion(priceChange),
+            updatedAt: serverTimestamp()
+          })
+
+          return {
+            inventoryItemId: item.id,
+            chassisNumber: item.chassisNumber,
+            brand: item.brand,
+            model: item.model,
+            supplierPrice: supplierPriceOf(item),
+            previousCost,
+            allocatedAmount: shares[index],
+            newCost
+          }
+        })
+
+        transaction.set(voucherRef, {
+          voucherNumber: number,
+          description: input.description.trim(),
+          ...(input.goodsReceiptId ? { goodsReceiptId: input.goodsReceiptId } : {}),
+          ...(input.entryTransactionId ? { entryTransactionId: input.entryTransactionId } : {}),
+          charges,
+          allocationMethod: input.allocationMethod,
+          allocations,
+          totalAmount,
+          createdAt: serverTimestamp(),
+          createdBy: userId
+        })
+
+        return number
+      })
+
+      return { success: true, id: voucherRef.id, number: voucherNumber }
+    } catch (error) {
+      console.error('Error creating landed cost voucher:', error)
+      return { success: false, error: error instanceof Error ? error.message : 'فشل في توزيع التكاليف' }
+    }
+  }
+}
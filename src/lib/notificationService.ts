@@ -15,7 +15,7 @@ import {
   writeBatch,
   increment
 } from 'firebase/firestore'
-import { db } from './firebase'
+import { db } from '../firebase/firebase-config.template'
 import { 
   Notification, 
   NotificationType, 
@@ -468,3 +468,29 @@ export const createLowInventoryNotification = async (
     ]
   })
 }
+
+export const createReservationExpiredNotification = async (
+  reservationData: {
+    reservationId: string
+    customerName: string
+    itemDescription: string
+    chassisNumber: string
+    depositAmount: number
+  },
+  userId: string
+) => {
+  return await notificationService.createNotification({
+    type: 'reservation_expired',
+    title: 'انتهاء مدة الحجز',
+    message: `انتهت مدة حجز ${reservationData.itemDescription} (شاسيه ${reservationData.chassisNumber}) للعميل ${reservationData.customerName} وأصبح المنتج متاحاً. العربون المدفوع: ${reservationData.depositAmount} جنيه`,
+    priority: 'high',
+    status: 'unread',
+    userId,
+    relatedEntityId: reservationData.reservationId,
+    relatedEntityType: 'reservation',
+    createdBy: 'system',
+    showInApp: true,
+    showAsToast: true,
+    data: reservationData
+  })
+}
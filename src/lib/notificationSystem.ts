@@ -22,6 +22,10 @@ export enum NotificationType {
   // إشعارات للمديرين
   NEW_SALE = 'new_sale',                    // بيعة جديدة من وكيل
   DOCUMENT_CREATED = 'document_created',    // وثيقة جديدة
+  PRICE_APPROVAL_REQUESTED = 'price_approval_requested', // طلب موافقة على سعر أقل من الحد الأدنى
+  SLOW_MOVING_STOCK = 'slow_moving_stock',  // أصناف راكدة تجاوزت حد الأيام في مخزنها
+  TRANSFER_RECEIPT_ISSUE = 'transfer_receipt_issue', // وحدات تالفة أو مفقودة عند استلام إذن تحويل
+  STOCK_RETURN_REQUESTED = 'stock_return_requested', // طلب وكيل بإرجاع بضاعة للشركة
   
   // إشعارات للوكلاء
   DOCUMENT_STATUS_UPDATED = 'document_status_updated',  // تحديث حالة وثيقة
@@ -29,6 +33,8 @@ export enum NotificationType {
   PAYMENT_ADDED = 'payment_added',                      // إضافة دفعة نقدية
   PAYMENT_DEDUCTED = 'payment_deducted',               // خصم دفعة نقدية
   INVENTORY_WITHDRAWN = 'inventory_withdrawn',          // سحب بضاعة
+  PRICE_APPROVAL_DECIDED = 'price_approval_decided',    // قرار المدير على طلب السعر
+  STOCK_RETURN_DECIDED = 'stock_return_decided',        // قرار المدير على طلب الإرجاع
   
   // إشعارات عامة
   SYSTEM_UPDATE = 'system_update',          // تحديث النظام
@@ -391,6 +397,221 @@ class NotificationSystem {
   }
 
 
+  /**
+   * إرسال طلب موافقة على سعر أقل من الحد الأدنى لجميع المديرين
+   */
+  async notifyPriceApprovalRequest(requestData: {
+    requestId: string
+    requestedBy: string
+    requestedByName: string
+    customerName: string
+    itemsDescription: string
+    totalAmount: number
+    reason: string
+  }): Promise<void> {
+    try {
+      const adminsSnapshot = await getDocs(query(
+        collection(db, 'users'),
+        where('role', 'in', ['admin', 'super_admin'])
+      ))
+
+      await Promise.all(adminsSnapshot.docs.map(adminDoc => this.sendNotification({
+        type: NotificationType.PRICE_APPROVAL_REQUESTED,
+        title: '🏷️ طلب موافقة على سعر',
+        message: `${requestData.requestedByName} يطلب الموافقة على بيع ${requestData.itemsDescription} للعميل ${requestData.customerName} بإجمالي ${requestData.totalAmount.toLocaleString()} جنيه بأقل من الحد الأدنى. السبب: ${requestData.reason}`,
+        recipientId: adminDoc.id,
+        recipientRole: adminDoc.data().role,
+        senderId: requestData.requestedBy,
+        senderName: requestData.requestedByName,
+        priority: NotificationPriority.URGENT,
+        actionUrl: '/sales/price-approvals',
+        data: {
+          requestId: requestData.requestId,
+          customerName: requestData.customerName,
+          totalAmount: requestData.totalAmount
+        }
+      })))
+
+      console.log('✅ Price approval request sent to all admins')
+    } catch (error) {
+      console.error('❌ Failed to notify price approval request:', error)
+      throw error
+    }
+  }
+
+  /**
+   * تنبيه المديرين اليومي بالأصناف الراكدة في المخازن
+   */
+  async notifySlowMovingStock(stockData: {
+    thresholdDays: number
+    itemCount: number
+    carryingCost: number
+    topWarehouses: string
+  }): Promise<void> {
+    try {
+      const adminsSnapshot = await getDocs(query(
+        collection(db, 'users'),
+        where('role', 'in', ['admin', 'super_admin'])
+      ))
+
+      await Promise.all(adminsSnapshot.docs.map(adminDoc => this.sendNotification({
+        type: NotificationType.SLOW_MOVING_STOCK,
+        title: '🐢 أصناف راكدة في المخازن',
+        message: `${stockData.itemCount} صنف في مخازنها منذ أكثر من ${stockData.thresholdDays} يوم بتكلفة ${stockData.carryingCost.toLocaleString()} جنيه. أكثر المخازن: ${stockData.topWarehouses}`,
+        recipientId: adminDoc.id,
+        recipientRole: adminDoc.data().role,
+        senderName: 'النظام',
+        priority: NotificationPriority.MEDIUM,
+        actionUrl: '/reports/aging',
+        data: stockData
+      })))
+
+      console.log('✅ Slow-moving stock alert sent to all admins')
+    } catch (error) {
+      console.error('❌ Failed to notify slow-moving stock:', error)
+      throw error
+    }
+  }
+
+  /**
+   * تنبيه المديرين بوحدات تالفة أو مفقودة عند استلام إذن تحويل
+   */
+  async notifyTransferReceiptIssues(issueData: {
+    transferNoteId: string
+    transferNoteNumber: string
+    toWarehouse: string
+    damagedCount: number
+    missingCount: number
+    reportedBy: string
+  }): Promise<void> {
+    try {
+      const adminsSnapshot = await getDocs(query(
+        collection(db, 'users'),
+        where('role', 'in', ['admin', 'super_admin'])
+      ))
+
+      await Promise.all(adminsSnapshot.docs.map(adminDoc => this.sendNotification({
+        type: NotificationType.TRANSFER_RECEIPT_ISSUE,
+        title: '⚠️ مشكلة في استلام إذن تحويل',
+        message: `إذن التحويل ${issueData.transferNoteNumber} إلى ${issueData.toWarehouse}: ${issueData.damagedCount} وحدة تالفة و${issueData.missingCount} وحدة مفقودة`,
+        recipientId: adminDoc.id,
+        recipientRole: adminDoc.data().role,
+        senderId: issueData.reportedBy,
+        priority: NotificationPriority.HIGH,
+        actionUrl: `/inventory/transfers/${issueData.transferNoteId}`,
+        data: issueData
+      })))
+
+      console.log('✅ Transfer receipt issues sent to all admins')
+    } catch (error) {
+      console.error('❌ Failed to notify transfer receipt issues:', error)
+      throw error
+    }
+  }
+
+  /**
+   * تنبيه المديرين بطلب إرجاع بضاعة من وكيل
+   */
+  async notifyStockReturnRequest(requestData: {
+    requestId: string
+    agentName: string
+    itemCount: number
+    totalCredit: number
+    requestedBy: string
+  }): Promise<void> {
+    try {
+      const adminsSnapshot = await getDocs(query(
+        collection(db, 'users'),
+        where('role', 'in', ['admin', 'super_admin'])
+      ))
+
+      await Promise.all(adminsSnapshot.docs.map(adminDoc => this.sendNotification({
+        type: NotificationType.STOCK_RETURN_REQUESTED,
+        title: '↩️ طلب إرجاع بضاعة',
+        message: `${requestData.agentName} يطلب إرجاع ${requestData.itemCount} وحدة بقيمة ${requestData.totalCredit.toLocaleString()} جنيه`,
+        recipientId: adminDoc.id,
+        recipientRole: adminDoc.data().role,
+        senderId: requestData.requestedBy,
+        senderName: requestData.agentName,
+        priority: NotificationPriority.MEDIUM,
+        actionUrl: '/agents/returns',
+        data: requestData
+      })))
+
+      console.log('✅ Stock return request sent to all admins')
+    } catch (error) {
+      console.error('❌ Failed to notify stock return request:', error)
+      throw error
+    }
+  }
+
+  /**
+   * إرسال قرار المدير على طلب الإرجاع للوكيل
+   */
+  async notifyStockReturnDecision(decisionData: {
+    recipientId: string
+    approved: boolean
+    itemCount: number
+    returnNumber?: string
+    decisionNotes?: string
+  }): Promise<void> {
+    try {
+      await this.sendNotification({
+        type: NotificationType.STOCK_RETURN_DECIDED,
+        title: decisionData.approved ? '✅ تم قبول طلب الإرجاع' : '❌ تم رفض طلب الإرجاع',
+        message: decisionData.approved
+          ? `تم استلام ${decisionData.itemCount} وحدة بالمرتجع ${decisionData.returnNumber} وخصم قيمتها من مديونيتك`
+          : `تم رفض إرجاع ${decisionData.itemCount} وحدة${decisionData.decisionNotes ? `: ${decisionData.decisionNotes}` : ''}`,
+        recipientId: decisionData.recipientId,
+        recipientRole: 'agent',
+        priority: NotificationPriority.MEDIUM,
+        actionUrl: '/agent/returns',
+        data: decisionData
+      })
+
+      console.log('✅ Stock return decision sent')
+    } catch (error) {
+      console.error('❌ Failed to notify stock return decision:', error)
+      throw error
+    }
+  }
+
+  /**
+   * إرسال قرار المدير على طلب السعر لمقدم الطلب
+   */
+  async notifyPriceApprovalDecision(decisionData: {
+    requestId: string
+    requestedBy: string
+    approved: boolean
+    customerName: string
+    decidedBy: string
+    decidedByName: string
+    notes?: string
+  }): Promise<void> {
+    try {
+      await this.sendNotification({
+        type: NotificationType.PRICE_APPROVAL_DECIDED,
+        title: decisionData.approved ? '✅ تمت الموافقة على السعر' : '❌ تم رفض السعر',
+        message: `${decisionData.approved ? 'وافق' : 'رفض'} ${decisionData.decidedByName} على سعر فاتورة العميل ${decisionData.customerName}${decisionData.notes ? `. ملاحظات: ${decisionData.notes}` : ''}`,
+        recipientId: decisionData.requestedBy,
+        recipientRole: 'showroom_user',
+        senderId: decisionData.decidedBy,
+        senderName: decisionData.decidedByName,
+        priority: NotificationPriority.HIGH,
+        actionUrl: `/sales/create?approval=${decisionData.requestId}`,
+        data: {
+          requestId: decisionData.requestId,
+          approved: decisionData.approved
+        }
+      })
+
+      console.log('✅ Price approval decision sent')
+    } catch (error) {
+      console.error('❌ Failed to notify price approval decision:', error)
+      throw error
+    }
+  }
+
   /**
    * الحصول على إشعارات المستخدم
    */
@@ -0,0 +1,353 @@
+// تسعير فواتير البيع: الخصومات على السطر والفاتورة، الحد الأدنى للسعر، وموافقة المدير على البيع بأقل منه
+
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  setDoc,
+  deleteDoc,
+  addDoc,
+  query,
+  where,
+  orderBy,
+  onSnapshot,
+  runTransaction,
+  serverTimestamp,
+  Transaction
+} from 'firebase/firestore'
+import { db } from '../firebase/firebase-config.template'
+import { notificationSystem } from './notificationSystem'
+import {
+  Discount,
+  InventoryItem,
+  PriceApprovalDecision,
+  PriceApprovalLine,
+  PriceApprovalRequest,
+  PriceFloor
+} from '../types'
+
+export const discountTypeLabels: Record<Discount['type'], string> = {
+  amount: 'مبلغ',
+  percent: 'نسبة %'
+}
+
+export interface PricedLineInput {
+  inventoryItemId: string
+  listPrice: number
+  discount?: Discount
+}
+
+export interface PricedLine {
+  inventoryItemId: string
+  listPrice: number
+  lineDiscount: number
+  invoiceDiscountShare: number
+  finalPrice: number
+}
+
+export interface PriceApprovalInput {
+  warehouseId: string
+  customerName: string
+  lines: PriceApprovalLine[]
+  reason: string
+  requestedBy: string
+  requestedByName: string
+}
+
+export interface PriceApprovalResult {
+  success: boolean
+  requestId?: string
+  error?: string
+}
+
+const roundAmount = (value: number) => Math.round(value * 100) / 100
+
+// قيمة الخصم بالجنيه، ولا تتجاوز المبلغ نفسه
+export function discountAmount(amount: number, discount?: Discount): number {
+  if (!discount || !(discount.value > 0) || amount <= 0) return 0
+
+  const value = discount.type === 'percent'
+    ? amount * Math.min(discount.value, 100) / 100
+    : discount.value
+
+  return roundAmount(Math.min(value, amount))
+}
+
+// خصم السطر أولاً، ثم يوزع خصم الفاتورة على الأسطر بنسبة قيمة كل سطر بعد خصمه
+export function applyDiscounts(lines: PricedLineInput[], invoiceDiscount?: Discount): PricedLine[] {
+  const afterLineDiscount = lines.map(line => {
+    const lineDiscount = discountAmount(line.listPrice, line.discount)
+    return { ...line, lineDiscount, price: roundAmount(line.listPrice - lineDiscount) }
+  })
+
+  const base = afterLineDiscount.reduce((sum, line) => sum + line.price, 0)
+  const totalInvoiceDiscount = discountAmount(base, invoiceDiscount)
+
+  // فرق التقريب يضاف على آخر سطر حتى يساوي مجموع الحصص خصم الفاتورة
+  let allocated = 0
+  return afterLineDiscount.map((line, index) => {
+    const share = index === afterLineDiscount.length - 1
+      ? roundAmount(totalInvoiceDiscount - allocated)
+      : base > 0 ? roundAmount(totalInvoiceDiscount * line.price / base) : 0
+    allocated += share
+
+    return {
+      inventoryItemId: line.inventoryItemId,
+      listPrice: line.listPrice,
+      lineDiscount: line.lineDiscount,
+      invoiceDiscountShare: share,
+      finalPrice: roundAmount(line.price - share)
+    }
+  })
+}
+
+export const priceFloorKey = (brand: string, model: string) => `${brand} ${model}`.trim()
+
+// الحد الأدنى للمنتج: حد المنتج نفسه ثم حد الموديل، وصفر إذا لم يحدد
+export function getFloorPrice(item: Pick<InventoryItem, 'brand' | 'model' | 'minimumPrice'>, floors: Record<string, number>): number {
+  if (item.minimumPrice && item.minimumPrice > 0) return item.minimumPrice
+  return floors[priceFloorKey(item.brand, item.model)] || 0
+}
+
+export const isBelowFloor = (line: Pick<PriceApprovalLine, 'finalPrice' | 'floorPrice'>) =>
+  line.floorPrice > 0 && line.finalPrice < line.floorPrice
+
+// الموافقة صالحة فقط لنفس المنتجات وبأسعار لا تقل عن الأسعار الموافق عليها
+export function approvalCoversLines(request: PriceApprovalRequest, lines: PriceApprovalLine[]): boolean {
+  if (request.status !== 'approved') return false
+
+  return lines.filter(isBelowFloor).every(line => {
+    const approvedLine = request.lines.find(approved => approved.inventoryItemId === line.inventoryItemId)
+    return !!approvedLine && line.finalPrice >= approvedLine.finalPrice - 0.005
+  })
+}
+
+export class PricingService {
+
+  static async getPriceFloors(): Promise<PriceFloor[]> {
+    try {
+      const snapshot = await getDocs(query(collection(db, 'price_floors'), orderBy('brand')))
+      return snapshot.docs.map(floorDoc => ({ id: floorDoc.id, ...floorDoc.data() }) as PriceFloor)
+    } catch (error) {
+      console.error('Error loading price floors:', error)
+      return []
+    }
+  }
+
+  // الحدود الدنيا كجدول "الماركة الموديل" -> السعر للحساب السريع في نموذج البيع
+  static async getPriceFloorMap(): Promise<Record<string, number>> {
+    const floors = await this.getPriceFloors()
+    return Object.fromEntries(floors.map(floor => [floor.id, floor.minimumPrice]))
+  }
+
+  static async savePriceFloor(brand: string, model: string, minimumPrice: number, userId: string): Promise<{ success: boolean, error?: string }> {
+    try {
+      if (!brand.trim() || !model.trim()) {
+        return { success: false, error: 'يرجى إدخال الماركة والموديل' }
+      }
+      if (!(minimumPrice > 0)) {
+        return { success: false, error: 'الحد الأدنى للسعر يجب أن يكون أكبر من صفر' }
+      }
+
+      await setDoc(doc(db, 'price_floors', priceFloorKey(brand, model)), {
+        brand: brand.trim(),
+        model: model.trim(),
+        minimumPrice,
+        updatedAt: serverTimestamp(),
+        updatedBy: userId
+      })
+
+      return { success: true }
+    } catch (error) {
+      console.error('Error saving price floor:', error)
+      return { success: false, error: error instanceof Error ? error.message : 'فشل في حفظ الحد الأدنى' }
+    }
+  }
+
+  static async deletePriceFloor(floorId: string): Promise<{ success: boolean, error?: string }> {
+    try {
+      await deleteDoc(doc(db, 'price_floors', floorId))
+      return { success: true }
+    } catch (error) {
+      console.error('Error deleting price floor:', error)
+      return { success: false, error: error instanceof Error ? error.message : 'فشل في حذف الحد الأدنى' }
+    }
+  }
+}
+
+export class PriceApprovalService {
+
+  // إنشاء طلب موافقة وإشعار المديرين
+  static async requestApproval(input: PriceApprovalInput): Promise<PriceApprovalResult> {
+    try {
+      if (!input.reason.trim()) {
+        return { success: false, error: 'يرجى كتابة سبب طلب السعر' }
+      }
+      if (!input.lines.some(isBelowFloor)) {
+        return { success: false, error: 'لا توجد أسعار أقل من الحد الأدنى تحتاج إلى موافقة' }
+      }
+
+      const totalAmount = roundAmount(input.lines.reduce((sum, line) => sum + line.finalPrice, 0))
+      const requestRef = await addDoc(collection(db, 'price_approvals'), {
+        status: 'pending',
+        warehouseId: input.warehouseId,
+        customerName: input.customerName,
+        lines: input.lines,
+        totalAmount,
+        reason: input.reason.trim(),
+        requestedBy: input.requestedBy,
+        requestedByName: input.requestedByName,
+        createdAt: serverTimestamp()
+      })
+
+      try {
+        const belowFloor = input.lines.filter(isBelowFloor)
+        await notificationSystem.notifyPriceApprovalRequest({
+          requestId: requestRef.id,
+          requestedBy: input.requestedBy,
+          requestedByName: input.requestedByName,
+          customerName: input.customerName,
+          itemsDescription: belowFloor.length === 1
+            ? `${belowFloor[0].brand} ${belowFloor[0].model}`
+            : `${belowFloor.length} موتوسيكلات`,
+          totalAmount,
+          reason: input.reason.trim()
+        })
+      } catch (notificationError) {
+        console.error('Error sending price approval notification:', notificationError)
+      }
+
+      return { success: true, requestId: requestRef.id }
+    } catch (error) {
+      console.error('Error requesting price approval:', error)
+      return { success: false, error: error instanceof Error ? error.message : 'فشل في إرسال طلب الموافقة' }
+    }
+  }
+
+  // قرار المدير: يسجل مرة واحدة فقط على الطلب المعلق
+  static async decide(
+    requestId: string,
+    approved: boolean,
+    decidedBy: string,
+    decidedByName: string,
+    notes?: string
+  ): Promise<{ success: boolean, error?: string }> {
+    try {
+      const requestRef = doc(db, 'price_approvals', requestId)
+      const request = await runTransaction(db, async (transaction) => {
+        const requestDoc = await transaction.get(requestRef)
+        if (!requestDoc.exists()) {
+          throw new Error('طلب الموافقة غير موجود')
+        }
+
+        const requestData = { id: requestDoc.id, ...requestDoc.data() } as PriceApprovalRequest
+        if (requestData.status !== 'pending') {
+          throw new Error('تم اتخاذ قرار في هذا الطلب من قبل')
+        }
+
+        transaction.update(requestRef, {
+          status: approved ? 'approved' : 'rejected',
+          decidedBy,
+          decidedByName,
+          decidedAt: serverTimestamp(),
+          ...(notes?.trim() ? { decisionNotes: notes.trim() } : {})
+        })
+
+        return requestData
+      })
+
+      try {
+        await notificationSystem.notifyPriceApprovalDecision({
+          requestId,
+          requestedBy: request.requestedBy,
+          approved,
+          customerName: request.customerName,
+          decidedBy,
+          decidedByName,
+          notes: notes?.trim()
+        })
+      } catch (notificationError) {
+        console.error('Error sending price approval decision notification:', notificationError)
+      }
+
+      return { success: true }
+    } catch (error) {
+      console.error('Error deciding price approval:', error)
+      return { success: false, error: error instanceof Error ? error.message : 'فشل في حفظ القرار' }
+    }
+  }
+
+  static async getRequest(requestId: string): Promise<PriceApprovalRequest | null> {
+    try {
+      const requestDoc = await getDoc(doc(db, 'price_approvals', requestId))
+      if (!requestDoc.exists()) {
+        return null
+      }
+
+      return { id: requestDoc.id, ...requestDoc.data() } as PriceApprovalRequest
+    } catch (error) {
+      console.error('Error getting price approval:', error)
+      return null
+    }
+  }
+
+  static async getRequests(status?: PriceApprovalRequest['status']): Promise<PriceApprovalRequest[]> {
+    try {
+      const snapshot = await getDocs(status
+        ? query(collection(db, 'price_approvals'), where('status', '==', status))
+        : query(collection(db, 'price_approvals'), orderBy('createdAt', 'desc')))
+
+      return snapshot.docs
+        .map(requestDoc => ({ id: requestDoc.id, ...requestDoc.data() }) as PriceApprovalRequest)
+        .sort((a, b) => (b.createdAt?.toMillis?.() || 0) - (a.createdAt?.toMillis?.() || 0))
+    } catch (error) {
+      console.error('Error loading price approvals:', error)
+      return []
+    }
+  }
+
+  // متابعة الطلب في نموذج البيع حتى يصل قرار المدير
+  static subscribe(requestId: string, callback: (request: PriceApprovalRequest | null) => void): () => void {
+    return onSnapshot(
+      doc(db, 'price_approvals', requestId),
+      (snapshot) => callback(snapshot.exists() ? { id: snapshot.id, ...snapshot.data() } as PriceApprovalRequest : null),
+      (error) => {
+        console.error('Error subscribing to price approval:', error)
+        callback(null)
+      }
+    )
+  }
+
+  // قراءة الموافقة داخل معاملة البيع (قبل أي كتابة في المعاملة)
+  static async readForSale(transaction: Transaction, requestId: string, lines: PriceApprovalLine[]): Promise<PriceApprovalRequest> {
+    const requestDoc = await transaction.get(doc(db, 'price_approvals', requestId))
+    if (!requestDoc.exists()) {
+      throw new Error('طلب الموافقة على السعر غير موجود')
+    }
+
+    const request = { id: requestDoc.id, ...requestDoc.data() } as PriceApprovalRequest
+    if (!approvalCoversLines(request, lines)) {
+      throw new Error('الموافقة على السعر غير سارية أو لا تطابق أسعار الفاتورة الحالية')
+    }
+
+    return request
+  }
+
+  // ربط الموافقة بالفاتورة حتى لا تستخدم مرة أخرى، وإرجاع القرار ليحفظ على البيع
+  static markUsed(transaction: Transaction, request: PriceApprovalRequest, saleId: string): PriceApprovalDecision {
+    transaction.update(doc(db, 'price_approvals', request.id), {
+      status: 'used',
+      saleId,
+      usedAt: serverTimestamp()
+    })
+
+    return {
+      requestId: request.id,
+      decidedBy: request.decidedBy!,
+      decidedByName: request.decidedByName || '',
+      decidedAt: request.decidedAt!,
+      ...(request.decisionNotes ? { notes: request.decisionNotes } : {})
+    }
+  }
+}
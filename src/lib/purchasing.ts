@@ -0,0 +1,520 @@
+// الموردون وأوامر الشراء وأذونات الاستلام: كل إذن استلام ينشئ أصناف المخزون على سطر أمر الشراء ويقيد المستحق في حساب المورد
+
+import {
+  addDoc,
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  where,
+  runTransaction,
+  updateDoc,
+  serverTimestamp,
+  Timestamp
+} from 'firebase/firestore'
+import { db } from '../firebase/firebase-config.template'
+import { DocumentNumberingService } from './documentNumbering'
+import { InventoryIdentifierService, normalizeIdentifier } from './inventoryIdentifiers'
+import { generateTransactionId } from './utils'
+import {
+  GoodsReceipt,
+  GoodsReceiptLine,
+  PaymentMethod,
+  PurchaseOrder,
+  PurchaseOrderLine,
+  PurchaseOrderStatus,
+  Supplier,
+  SupplierKind,
+  SupplierLedgerEntry
+} from '../types'
+
+export interface SupplierInput {
+  name: string
+  kind: SupplierKind
+  phone?: string
+  email?: string
+  address?: string
+  taxNumber?: string
+  notes?: string
+}
+
+export interface PurchaseOrderInput {
+  supplierId: string
+  warehouseId: string
+  expectedDate?: string
+  notes?: string
+  lines: Omit<PurchaseOrderLine, 'lineId' | 'receivedQuantity'>[]
+}
+
+// وحدة مستلمة على سطر من أمر الشراء
+export interface ReceivedUnit {
+  lineId: string
+  chassisNumber: string
+  motorFingerprint: string
+  color: string
+  manufacturingYear: number
+}
+
+export interface GoodsReceiptInput {
+  orderId: string
+  warehouseId: string
+  units: ReceivedUnit[]
+  notes?: string
+}
+
+export interface PurchasingResult {
+  success: boolean
+  error?: string
+  id?: string
+  number?: string
+}
+
+export const supplierKindLabels: Record<SupplierKind, string> = {
+  supplier: 'مورد',
+  manufacturer: 'شركة مصنعة'
+}
+
+export const purchaseOrderStatusLabels: Record<PurchaseOrderStatus, string> = {
+  open: 'مفتوح',
+  partially_received: 'استلام جزئي',
+  received: 'مستلم بالكامل',
+  cancelled: 'ملغي'
+}
+
+export const purchaseOrderStatusColors: Record<PurchaseOrderStatus, string> = {
+  open: 'bg-blue-100 text-blue-800',
+  partially_received: 'bg-yellow-100 text-yellow-800',
+  received: 'bg-green-100 text-green-800',
+  cancelled: 'bg-gray-100 text-gray-800'
+}
+
+// كل وحدة تكتب الصنف ورقمين في الفهرس، فالحد يبقي الإذن داخل حدود المعاملة الواحدة
+export const GOODS_RECEIPT_MAX_UNITS = 150
+
+export const remainingQuantity = (line: PurchaseOrderLine) => Math.max(0, line.quantity - line.receivedQuantity)
+
+export function purchaseOrderStatus(lines: PurchaseOrderLine[]): PurchaseOrderStatus {
+  const received = lines.reduce((sum, line) => sum + line.receivedQuantity, 0)
+  if (received === 0) return 'open'
+  return lines.every(line => remainingQuantity(line) === 0) ? 'received' : 'partially_received'
+}
+
+const errorMessage = (error: unknown, fallback: string) => error instanceof Error ? error.message : fallback
+
+export class SupplierService {
+
+  static async getSuppliers(): Promise<Supplier[]> {
+    try {
+      const snapshot = await getDocs(collection(db, 'suppliers'))
+      return snapshot.docs
+        .map(supplierDoc => ({ id: supplierDoc.id, ...supplierDoc.data() }) as Supplier)
+        .sort((a, b) => a.name.localeCompare(b.name, 'ar'))
+    } catch (error) {
+      console.error('Error loading suppliers:', error)
+      return []
+    }
+  }
+
+  static async getSupplier(supplierId: string): Promise<Supplier | null> {
+    const supplierDoc = await getDoc(doc(db, 'suppliers', supplierId))
+    return supplierDoc.exists() ? { id: supplierDoc.id, ...supplierDoc.data() } as Supplier : null
+  }
+
+  static async saveSupplier(input: SupplierInput, userId: string, supplierId?: string): Promise<PurchasingResult> {
+    try {
+      const name = input.name.trim()
+      if (!name) {
+        return { success: false, error: 'اسم المورد مطلوب' }
+      }
+
+      const suppliers = await this.getSuppliers()
+      if (suppliers.some(supplier => supplier.id !== supplierId && supplier.name.trim() === name)) {
+        return { success: false, error: `المورد ${name} مسجل من قبل` }
+      }
+
+      const data = {
+        name,
+        kind: input.kind,
+        phone: input.phone?.trim() || '',
+        email: input.email?.trim() || '',
+        address: input.address?.trim() || '',
+        taxNumber: input.taxNumber?.trim() || '',
+        notes: input.notes?.trim() || '',
+        updatedAt: serverTimestamp()
+      }
+
+      // الرصيد لا يعدل من هنا، يتغير فقط بأذونات الاستلام والمدفوعات
+      if (supplierId) {
+        await updateDoc(doc(db, 'suppliers', supplierId), data)
+        return { success: true, id: supplierId }
+      }
+
+      const supplierRef = await addDoc(collection(db, 'suppliers'), {
+        ...data,
+        balance: 0,
+        isActive: true,
+        createdAt: serverTimestamp(),
+        createdBy: userId
+      })
+      return { success: true, id: supplierRef.id }
+    } catch (error) {
+      console.error('Error saving supplier:', error)
+      return { success: false, error: errorMessage(error, 'فشل في حفظ المورد') }
+    }
+  }
+
+  static async setActive(supplierId: string, isActive: boolean): Promise<PurchasingResult> {
+    try {
+      await updateDoc(doc(db, 'suppliers', supplierId), { isActive, updatedAt: serverTimestamp() })
+      return { success: true }
+    } catch (error) {
+      console.error('Error updating supplier:', error)
+      return { success: false, error: errorMessage(error, 'فشل في تحديث المورد') }
+    }
+  }
+
+  static async getLedger(supplierId: string): Promise<SupplierLedgerEntry[]> {
+    const snapshot = await getDocs(query(collection(db, 'supplier_ledger'), where('supplierId', '==', supplierId)))
+    return snapshot.docs
+      .map(entryDoc => ({ id: entryDoc.id, ...entryDoc.data() }) as SupplierLedgerEntry)
+      .sort((a, b) => (a.createdAt?.toMillis?.() || 0) - (b.createdAt?.toMillis?.() || 0))
+  }
+
+  // سداد للمورد بسند صرف مسلسل، ويقلل الرصيد المستحق
+  static async recordPayment(
+    supplierId: string,
+    amount: number,
+    paymentMethod: PaymentMethod,
+    notes: string,
+    userId: string
+  ): Promise<PurchasingResult> {
+    try {
+      if (!(amount > 0)) {
+        return { success: false, error: 'يرجى إدخال مبلغ صحيح' }
+      }
+
+      const supplierRef = doc(db, 'suppliers', supplierId)
+      const entryRef = doc(collection(db, 'supplier_ledger'))
+      const voucherNumber = await runTransaction(db, async (transaction) => {
+        const supplierDoc = await transaction.get(supplierRef)
+        if (!supplierDoc.exists()) {
+          throw new Error('المورد غير موجود')
+        }
+        const number = await DocumentNumberingService.allocate(transaction, 'payment_voucher')
+        const balanceAfter = (Number(supplierDoc.data().balance) || 0) - amount
+
+        transaction.update(supplierRef, { balance: balanceAfter, updatedAt: serverTimestamp() })
+        transaction.set(entryRef, {
+          supplierId,
+          type: 'payment',
+          amount,
+          balanceAfter,
+          reference: number,
+          description: notes.trim() || 'سداد للمورد',
+          paymentMethod,
+          createdAt: serverTimestamp(),
+          createdBy: userId
+        })
+        return number
+      })
+
+      return { success: true, id: entryRef.id, number: voucherNumber }
+    } catch (error) {
+      console.error('Error recording supplier payment:', error)
+      return { success: false, error: errorMessage(error, 'فشل في تسجيل السداد') }
+    }
+  }
+}
+
+export class PurchaseOrderService {
+
+  static async getOrders(supplierId?: string): Promise<PurchaseOrder[]> {
+    try {
+      const snapshot = await getDocs(supplierId
+        ? query(collection(db, 'purchase_orders'), where('supplierId', '==', supplierId))
+        : collection(db, 'purchase_orders'))
+      return snapshot.docs
+        .map(orderDoc => ({ id: orderDoc.id, ...orderDoc.data() }) as PurchaseOrder)
+        .sort((a, b) => (b.createdAt?.toMillis?.() || 0) - (a.createdAt?.toMillis?.() || 0))
+    } catch (error) {
+      console.error('Error loading purchase orders:', error)
+      return []
+    }
+  }
+
+  static async getOrder(orderId: string): Promise<PurchaseOrder | null> {
+    const orderDoc = await getDoc(doc(db, 'purchase_orders', orderId))
+    return orderDoc.exists() ? { id: orderDoc.id, ...orderDoc.data() } as PurchaseOrder : null
+  }
+
+  static async getReceipts(orderId: string): Promise<GoodsReceipt[]> {
+    const snapshot = await getDocs(query(collection(db, 'goods_receipts'), where('purchaseOrderId', '==', orderId)))
+    return snapshot.docs
+      .map(receiptDoc => ({ id: receiptDoc.id, ...receiptDoc.data() }) as GoodsReceipt)
+      .sort((a, b) => (a.createdAt?.toMillis?.() || 0) - (b.createdAt?.toMillis?.() || 0))
+  }
+
+  static async createOrder(input: PurchaseOrderInput, userId: string): Promise<PurchasingResult> {
+    try {
+      if (!input.supplierId) {
+        return { success: false, error: 'يرجى اختيار المورد' }
+      }
+      if (!input.warehouseId) {
+        return { success: false, error: 'يرجى اختيار مخزن الاستلام' }
+      }
+      if (input.lines.length === 0) {
+        return { success: false, error: 'أضف سطراً واحداً على الأقل' }
+      }
+      const invalidLine = input.lines.findIndex(line =>
+        !line.brand.trim() || !line.model.trim() || !Number.isInteger(line.quantity) || line.quantity < 1 || !(line.unitCost > 0))
+      if (invalidLine >= 0) {
+        return { success: false, error: `السطر ${invalidLine + 1}: الماركة والموديل والكمية والتكلفة مطلوبة` }
+      }
+
+      const lines: PurchaseOrderLine[] = input.lines.map((line, index) => ({
+        ...line,
+        brand: line.brand.trim(),
+        model: line.model.trim(),
+        lineId: `L${index + 1}`,
+        receivedQuantity: 0
+      }))
+      const supplierRef = doc(db, 'suppliers', input.supplierId)
+      const orderRef = doc(collection(db, 'purchase_orders'))
+
+      const orderNumber = await runTransaction(db, async (transaction) => {
+        const supplierDoc = await transaction.get(supplierRef)
+        if (!supplierDoc.exists() || !supplierDoc.data().isActive) {
+          throw new Error('المورد غير موجود أو غير نشط')
+        }
+        const number = await DocumentNumberingService.allocate(transaction, 'purchase_order')
+
+        transaction.set(orderRef, {
+          orderNumber: number,
+          supplierId: input.supplierId,
+          supplierName: supplierDoc.data().name,
+          warehouseId: input.warehouseId,
+          lines,
+          status: 'open',
+          totalAmount: lines.reduce((sum, line) => sum + line.quantity * line.unitCost, 0),
+          receivedAmount: 0,
+          ...(input.expectedDate ? { expectedDate: Timestamp.fromDate(new Date(input.expectedDate)) } : {}),
+          ...(input.notes?.trim() ? { notes: input.notes.trim() } : {}),
+          createdAt: serverTimestamp(),
+          createdBy: userId,
+          updatedAt: serverTimestamp()
+        })
+        return number
+      })
+
+      return { success: true, id: orderRef.id, number: orderNumber }
+    } catch (error) {
+      console.error('Error creating purchase order:', error)
+      return { success: false, error: errorMessage(error, 'فشل في إنشاء أمر الشراء') }
+    }
+  }
+
+  // الإلغاء متاح فقط قبل أي استلام، والاستلام الجزئي يغلق بإلغاء الباقي دون المساس بما استلم
+  static async cancelOrder(orderId: string, userId: string): Promise<PurchasingResult> {
+    try {
+      const orderRef = doc(db, 'purchase_orders', orderId)
+      await runTransaction(db, async (transaction) => {
+        const orderDoc = await transaction.get(orderRef)
+        if (!orderDoc.exists()) {
+          throw new Error('أمر الشراء غير موجود')
+        }
+        const order = orderDoc.data() as PurchaseOrder
+        if (order.status === 'received' || order.status === 'cancelled') {
+          throw new Error('لا يمكن إلغاء أمر شراء مستلم بالكامل أو ملغي')
+        }
+
+        transaction.update(orderRef, {
+          status: order.status === 'partially_received' ? 'received' : 'cancelled',
+          // الكميات غير المستلمة تلغى من الأمر
+          lines: order.lines.map(line => ({ ...line, quantity: line.receivedQuantity })),
+          totalAmount: order.receivedAmount,
+          cancelledAt: serverTimestamp(),
+          cancelledBy: userId,
+          updatedAt: serverTimestamp()
+        })
+      })
+      return { success: true }
+    } catch (error) {
+      console.error('Error cancelling purchase order:', error)
+      return { success: false, error: errorMessage(error, 'فشل في إلغاء أمر الشراء') }
+    }
+  }
+
+  // إذن الاستلام: إنشاء الأصناف بتكلفة سطر الأمر، تحديث الكميات المستلمة، وقيد المستحق على المورد في معاملة واحدة
+  static async receiveGoods(input: GoodsReceiptInput, userId: string): Promise<PurchasingResult> {
+    try {
+      if (!input.warehouseId) {
+        return { success: false, error: 'يرجى اختيار مخزن الاستلام' }
+      }
+      if (input.units.length === 0) {
+        return { success: false, error: 'أدخل وحدة واحدة على الأقل' }
+      }
+      if (input.units.length > GOODS_RECEIPT_MAX_UNITS) {
+        return { success: false, error: `الحد الأقصى ${GOODS_RECEIPT_MAX_UNITS} وحدة في إذن الاستلام الواحد` }
+      }
+
+      const units = input.units.map(unit => ({
+        ...unit,
+        chassisNumber: normalizeIdentifier(unit.chassisNumber),
+        motorFingerprint: normalizeIdentifier(unit.motorFingerprint),
+        color: unit.color.trim()
+      }))
+      const incomplete = units.findIndex(unit => !unit.chassisNumber || !unit.motorFingerprint || !unit.color || !unit.manufacturingYear)
+      if (incomplete >= 0) {
+        return { success: false, error: `الوحدة ${incomplete + 1}: رقم الشاسيه وبصمة الموتور واللون وسنة الصنع مطلوبة` }
+      }
+
+      // الأصناف القديمة غير المفهرسة لا يكشفها إلا البحث المباشر
+      const existing = await InventoryIdentifierService.findExisting(
+        units.map(unit => unit.motorFingerprint),
+        units.map(unit => unit.chassisNumber)
+      )
+      const duplicate = units.find(unit => existing.chassisNumbers.has(unit.chassisNumber) || existing.motorFingerprints.has(unit.motorFingerprint))
+      if (duplicate) {
+        return { success: false, error: `الوحدة ${duplicate.chassisNumber} مسجلة في المخزون من قبل` }
+      }
+
+      const orderRef = doc(db, 'purchase_orders', input.orderId)
+      const receiptRef = doc(collection(db, 'goods_receipts'))
+      const ledgerRef = doc(collection(db, 'supplier_ledger'))
+      const entryTransactionId = generateTransactionId('warehouse_entry')
+
+      const receiptNumber = await runTransaction(db, async (transaction) => {
+        const orderDoc = await transaction.get(orderRef)
+        if (!orderDoc.exists()) {
+          throw new Error('أمر الشراء غير موجود')
+        }
+        const order = { id: orderDoc.id, ...orderDoc.data() } as PurchaseOrder
+        if (order.status === 'received' || order.status === 'cancelled') {
+          throw new Error('أمر الشراء مغلق ولا يقبل استلاماً جديداً')
+        }
+
+        const supplierRef = doc(db, 'suppliers', order.supplierId)
+        const supplierDoc = await transaction.get(supplierRef)
+        await InventoryIdentifierService.check(transaction, units)
+        const number = await DocumentNumberingService.allocate(transaction, 'goods_receipt')
+
+        // لا يستلم أكثر من الكمية المتبقية على كل سطر
+        const receiptLines = new Map<string, GoodsReceiptLine>()
+        const lines = order.lines.map(line => ({ ...line }))
+        units.forEach(unit => {
+          const line = lines.find(entry => entry.lineId === unit.lineId)
+          if (!line) {
+            throw new Error('سطر أمر الشراء غير موجود')
+          }
+          if (remainingQuantity(line) < 1) {
+            throw new Error(`الكمية المستلمة من ${line.brand} ${line.model} أكبر من المتبقي في أمر الشراء`)
+          }
+          line.receivedQuantity++
+
+          const itemRef = doc(collection(db, 'inventory_items'))
+          transaction.set(itemRef, {
+            motorFingerprint: unit.motorFingerprint,
+            chassisNumber: unit.chassisNumber,
+            motorFingerprintImageUrl: '',
+            chassisNumberImageUrl: '',
+            type: line.type,
+            brand: line.brand,
+            model: line.model,
+            ...(line.brandId && line.modelId ? { brandId: line.brandId, modelId: line.modelId } : {}),
+            color: unit.color,
+            countryOfOrigin: line.countryOfOrigin || '',
+            manufacturingYear: unit.manufacturingYear,
+            purchasePrice: line.unitCost,
+            salePrice: line.salePrice,
+            currentWarehouseId: input.warehouseId,
+            status: 'available',
+            supplierId: order.supplierId,
+            purchaseOrderId: order.id,
+            goodsReceiptId: receiptRef.id,
+            entryTransactionId,
+            createdAt: serverTimestamp(),
+            updatedAt: serverTimestamp(),
+            createdBy: userId
+          })
+          InventoryIdentifierService.reserve(transaction, itemRef.id, unit)
+
+          const receiptLine = receiptLines.get(line.lineId) || {
+            lineId: line.lineId,
+            brand: line.brand,
+            model: line.model,
+            quantity: 0,
+            unitCost: line.unitCost,
+            inventoryItemIds: []
+          }
+          receiptLine.quantity++
+          receiptLine.inventoryItemIds.push(itemRef.id)
+          receiptLines.set(line.lineId, receiptLine)
+        })
+
+        const receivedLines = Array.from(receiptLines.values())
+        const totalAmount = receivedLines.reduce((sum, line) => sum + line.quantity * line.unitCost, 0)
+        const balanceAfter = (Number(supplierDoc.data()?.balance) || 0) + totalAmount
+
+        transaction.set(receiptRef, {
+          receiptNumber: number,
+          purchaseOrderId: order.id,
+          orderNumber: order.orderNumber,
+          supplierId: order.supplierId,
+          supplierName: order.supplierName,
+          warehouseId: input.warehouseId,
+          lines: receivedLines,
+          totalAmount,
+          entryTransactionId,
+          ...(input.notes?.trim() ? { notes: input.notes.trim() } : {}),
+          createdAt: serverTimestamp(),
+          createdBy: userId
+        })
+
+        transaction.update(orderRef, {
+          lines,
+          status: purchaseOrderStatus(lines),
+          receivedAmount: (Number(order.receivedAmount) || 0) + totalAmount,
+          updatedAt: serverTimestamp()
+        })
+
+        transaction.set(supplierRef, { balance: balanceAfter, updatedAt: serverTimestamp() }, { merge: true })
+        transaction.set(ledgerRef, {
+          supplierId: order.supplierId,
+          type: 'receipt',
+          amount: totalAmount,
+          balanceAfter,
+          reference: number,
+          description: `استلام ${units.length} وحدة على أمر الشراء ${order.orderNumber}`,
+          goodsReceiptId: receiptRef.id,
+          createdAt: serverTimestamp(),
+          createdBy: userId
+        })
+
+        // معاملة دخول مخزني واحدة للإذن كما في الإضافة والاستيراد
+        transaction.set(doc(collection(db, 'transactions')), {
+          id: entryTransactionId,
+          type: 'warehouse_entry',
+          date: serverTimestamp(),
+          userId,
+          referenceNumber: number,
+          items: receivedLines.flatMap(line => line.inventoryItemIds.map(inventoryItemId => ({ inventoryItemId }))),
+          totalAmount,
+          toWarehouseId: input.warehouseId,
+          details: {
+            notes: `إذن استلام ${number} من ${order.supplierName}`
+          },
+          createdAt: serverTimestamp(),
+          updatedAt: serverTimestamp()
+        })
+
+        return number
+      })
+
+      return { success: true, id: receiptRef.id, number: receiptNumber }
+    } catch (error) {
+      console.error('Error receiving goods:', error)
+      return { success: false, error: errorMessage(error, 'فشل في تسجيل إذن الاستلام') }
+    }
+  }
+}
@@ -0,0 +1,272 @@
+// حدود إعادة الطلب: حد أدنى وأقصى لكل مخزن حسب نوع المركبة أو الموديل، وتنبيه عند النزول تحت الحد بعد البيع أو التحويل
+
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  setDoc,
+  updateDoc,
+  deleteDoc,
+  query,
+  where,
+  serverTimestamp
+} from 'firebase/firestore'
+import { db } from '../firebase/firebase-config.template'
+import { createLowInventoryNotification } from './notificationService'
+import { normalizeCatalogName, VehicleCatalog } from './vehicleCatalog'
+import { vehicleTypeTranslations } from './utils'
+import { InventoryItem, LowStockWarning, ReorderLevel, ReorderLevelScope, VehicleType, Warehouse } from '../types'
+
+export interface ReorderLevelInput {
+  warehouseId: string
+  scope: ReorderLevelScope
+  vehicleType: VehicleType
+  modelId?: string
+  minStock: number
+  maxStock: number
+}
+
+export interface ReorderLevelResult {
+  success: boolean
+  error?: string
+}
+
+// سطر في اقتراح الشراء: مجموع الكميات المطلوبة لنفس الموديل أو النوع في كل المخازن
+export interface SuggestedPurchaseLine {
+  key: string
+  label: string
+  vehicleType: VehicleType
+  modelId?: string
+  quantity: number
+  warehouses: { warehouseName: string, quantity: number }[]
+  unitCost?: number
+  estimatedCost?: number
+}
+
+export const reorderScopeLabels: Record<ReorderLevelScope, string> = {
+  type: 'نوع المركبة',
+  model: 'الموديل'
+}
+
+// الوحدات القابلة للبيع فقط، المحجوزة لا تحسب ضمن الرصيد
+const sellableStatuses: InventoryItem['status'][] = ['available', 'transferred']
+
+export const reorderLevelId = (warehouseId: string, scope: ReorderLevelScope, key: string) => `${warehouseId}_${scope}_${key}`
+
+export const reorderLevelLabel = (level: Pick<ReorderLevel, 'scope' | 'vehicleType' | 'brand' | 'model'>) =>
+  level.scope === 'model' ? `${level.brand || ''} ${level.model || ''}`.trim() : vehicleTypeTranslations[level.vehicleType]
+
+// الأصناف غير المربوطة بالكتالوج تطابق الموديل بالاسم
+function matchesLevel(item: InventoryItem, level: ReorderLevel): boolean {
+  if (item.currentWarehouseId !== level.warehouseId || !sellableStatuses.includes(item.status) || item.inTransitNoteId) return false
+  if (level.scope === 'type') return item.type === level.vehicleType
+  if (item.modelId) return item.modelId === level.modelId
+  return normalizeCatalogName(item.brand || '') === normalizeCatalogName(level.brand || '')
+    && normalizeCatalogName(item.model || '') === normalizeCatalogName(level.model || '')
+}
+
+export const levelStock = (level: ReorderLevel, items: InventoryItem[]) =>
+  items.filter(item => matchesLevel(item, level)).length
+
+// الكمية المطلوبة للوصول للحد الأقصى، وصفر إذا لم ينزل الرصيد تحت الحد الأدنى
+export const reorderQuantity = (level: ReorderLevel, stock: number) =>
+  stock < level.minStock ? Math.max(level.maxStock, level.minStock) - stock : 0
+
+export function evaluateReorderLevels(
+  levels: ReorderLevel[],
+  items: InventoryItem[],
+  warehouseNames: Record<string, string>
+): LowStockWarning[] {
+  return levels.flatMap(level => {
+    const stock = levelStock(level, items)
+    if (stock >= level.minStock) return []
+
+    return [{
+      warehouseId: level.warehouseId,
+      warehouseName: warehouseNames[level.warehouseId] || 'غير محدد',
+      itemType: level.vehicleType,
+      currentStock: stock,
+      recommendedMinimum: level.minStock,
+      recommendedMaximum: level.maxStock,
+      reorderQuantity: reorderQuantity(level, stock),
+      reorderLevelId: level.id,
+      ...(level.scope === 'model' ? { brand: level.brand, model: level.model } : {})
+    }]
+  })
+}
+
+// تجميع نواقص المخازن في قائمة شراء واحدة، والتكلفة التقديرية بسعر الشراء الافتراضي للموديل في الكتالوج
+export function buildSuggestedPurchase(
+  warnings: LowStockWarning[],
+  levels: ReorderLevel[],
+  catalog: VehicleCatalog
+): SuggestedPurchaseLine[] {
+  const lines = new Map<string, SuggestedPurchaseLine>()
+
+  warnings.forEach(warning => {
+    const level = levels.find(entry => entry.id === warning.reorderLevelId)
+    if (!level || !warning.reorderQuantity) return
+
+    const key = level.scope === 'model' ? `model_${level.modelId}` : `type_${level.vehicleType}`
+    let line = lines.get(key)
+    if (!line) {
+      const catalogModel = level.modelId ? catalog.models.find(model => model.id === level.modelId) : undefined
+      line = {
+        key,
+        label: reorderLevelLabel(level),
+        vehicleType: level.vehicleType,
+        modelId: level.modelId,
+        quantity: 0,
+        warehouses: [],
+        unitCost: catalogModel?.defaultPurchasePrice
+      }
+      lines.set(key, line)
+    }
+
+    line.quantity += warning.reorderQuantity
+    line.warehouses.push({ warehouseName: warning.warehouseName, quantity: warning.reorderQuantity })
+    line.estimatedCost = line.unitCost ? line.unitCost * line.quantity : undefined
+  })
+
+  return Array.from(lines.values()).sort((a, b) => b.quantity - a.quantity)
+}
+
+export class ReorderLevelService {
+
+  static async getLevels(): Promise<ReorderLevel[]> {
+    try {
+      const snapshot = await getDocs(collection(db, 'reorder_levels'))
+      return snapshot.docs.map(levelDoc => ({ id: levelDoc.id, ...levelDoc.data() }) as ReorderLevel)
+    } catch (error) {
+      console.error('Error loading reorder levels:', error)
+      return []
+    }
+  }
+
+  // مستند واحد لكل مخزن ونوع أو موديل، فالحفظ مرة أخرى يعدل الحد بدلاً من تكراره
+  static async saveLevel(input: ReorderLevelInput, catalog: VehicleCatalog, userId: string): Promise<ReorderLevelResult> {
+    try {
+      if (!input.warehouseId) {
+        return { success: false, error: 'يرجى اختيار المخزن' }
+      }
+      if (!Number.isInteger(input.minStock) || !Number.isInteger(input.maxStock) || input.minStock < 0) {
+        return { success: false, error: 'الحدود يجب أن تكون أعداداً صحيحة' }
+      }
+      if (input.maxStock < input.minStock || input.maxStock < 1) {
+        return { success: false, error: 'الحد الأقصى يجب أن يكون أكبر من أو يساوي الحد الأدنى' }
+      }
+
+      let data: Omit<ReorderLevel, 'id' | 'updatedAt' | 'updatedBy'>
+      if (input.scope === 'model') {
+        const model = catalog.models.find(entry => entry.id === input.modelId)
+        const brand = model && catalog.brands.find(entry => entry.id === model.brandId)
+        if (!model || !brand) {
+          return { success: false, error: 'يرجى اختيار الموديل من الكتالوج' }
+        }
+        data = {
+          warehouseId: input.warehouseId,
+          scope: 'model',
+          vehicleType: model.type,
+          modelId: model.id,
+          brand: brand.name,
+          model: model.name,
+          minStock: input.minStock,
+          maxStock: input.maxStock
+        }
+      } else {
+        data = {
+          warehouseId: input.warehouseId,
+          scope: 'type',
+          vehicleType: input.vehicleType,
+          minStock: input.minStock,
+          maxStock: input.maxStock
+        }
+      }
+
+      const key = data.scope === 'model' ? data.modelId! : data.vehicleType
+      await setDoc(doc(db, 'reorder_levels', reorderLevelId(data.warehouseId, data.scope, key)), {
+        ...data,
+        updatedAt: serverTimestamp(),
+        updatedBy: userId
+      }, { merge: true })
+
+      return { success: true }
+    } catch (error) {
+      console.error('Error saving reorder level:', error)
+      return { success: false, error: error instanceof Error ? error.message : 'فشل في حفظ حد إعادة الطلب' }
+    }
+  }
+
+  static async deleteLevel(levelId: string): Promise<ReorderLevelResult> {
+    try {
+      await deleteDoc(doc(db, 'reorder_levels', levelId))
+      return { success: true }
+    } catch (error) {
+      console.error('Error deleting reorder level:', error)
+      return { success: false, error: error instanceof Error ? error.message : 'فشل في حذف حد إعادة الطلب' }
+    }
+  }
+
+  static async getSellableItems(): Promise<InventoryItem[]> {
+    const snapshot = await getDocs(query(collection(db, 'inventory_items'), where('status', 'in', sellableStatuses)))
+    return snapshot.docs.map(itemDoc => ({ id: itemDoc.id, ...itemDoc.data() }) as InventoryItem)
+  }
+
+  static async getLowStockWarnings(): Promise<{ levels: ReorderLevel[], items: InventoryItem[], warnings: LowStockWarning[] }> {
+    const [levels, items, warehousesSnapshot] = await Promise.all([
+      this.getLevels(),
+      this.getSellableItems(),
+      getDocs(collection(db, 'warehouses'))
+    ])
+    const warehouseNames = Object.fromEntries(warehousesSnapshot.docs.map(warehouseDoc =>
+      [warehouseDoc.id, (warehouseDoc.data() as Warehouse).name]))
+
+    return { levels, items, warnings: evaluateReorderLevels(levels, items, warehouseNames) }
+  }
+
+  // يستدعى بعد البيع أو التحويل للمخازن التي نقص رصيدها، والتنبيه يرسل مرة واحدة حتى يعود الرصيد فوق الحد
+  static async checkWarehouses(warehouseIds: string[]): Promise<void> {
+    try {
+      const uniqueIds = Array.from(new Set(warehouseIds.filter(Boolean)))
+      for (const warehouseId of uniqueIds) {
+        const levelsSnapshot = await getDocs(query(collection(db, 'reorder_levels'), where('warehouseId', '==', warehouseId)))
+        if (levelsSnapshot.empty) continue
+
+        const [itemsSnapshot, warehouseDoc] = await Promise.all([
+          getDocs(query(collection(db, 'inventory_items'), where('currentWarehouseId', '==', warehouseId))),
+          getDoc(doc(db, 'warehouses', warehouseId))
+        ])
+        const warehouseName = warehouseDoc.exists() ? (warehouseDoc.data() as Warehouse).name : warehouseId
+        const items = itemsSnapshot.docs.map(itemDoc => ({ id: itemDoc.id, ...itemDoc.data() }) as InventoryItem)
+        const levels = levelsSnapshot.docs.map(levelDoc => ({ id: levelDoc.id, ...levelDoc.data() }) as ReorderLevel)
+
+        for (const level of levels) {
+          const stock = levelStock(level, items)
+          if (stock < level.minStock && !level.alertActive) {
+            await this.notifyAdmins(level, stock, warehouseName)
+            await updateDoc(doc(db, 'reorder_levels', level.id), { alertActive: true, alertedAt: serverTimestamp() })
+          } else if (stock >= level.minStock && level.alertActive) {
+            await updateDoc(doc(db, 'reorder_levels', level.id), { alertActive: false })
+          }
+        }
+      }
+    } catch (error) {
+      console.error('Error checking reorder levels:', error)
+    }
+  }
+
+  private static async notifyAdmins(level: ReorderLevel, stock: number, warehouseName: string) {
+    const adminsSnapshot = await getDocs(query(
+      collection(db, 'users'),
+      where('role', 'in', ['admin', 'super_admin'])
+    ))
+
+    await Promise.all(adminsSnapshot.docs.map(adminDoc => createLowInventoryNotification({
+      itemName: reorderLevelLabel(level),
+      currentStock: stock,
+      minStock: level.minStock,
+      warehouseName
+    }, adminDoc.id)))
+  }
+}
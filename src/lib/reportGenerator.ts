@@ -1,5 +1,7 @@
 import { collection, query, where, getDocs, Timestamp } from 'firebase/firestore'
 import { db } from '@/firebase/firebase-config.template'
+import { ReorderLevelService, evaluateReorderLevels } from './reorderLevels'
+import { InventoryItem } from '@/types'
 
 interface ReportFilters {
   dateFrom: string
@@ -226,15 +228,9 @@ async function getInventoryReport() {
       return sum + (isNaN(purchasePrice) ? 0 : purchasePrice)
     }, 0)
     
-    // Low stock items (items with less than 5 in each warehouse)
-    const warehouseStock: { [key: string]: number } = {}
-    items.forEach((item: any) => {
-      if (item.status === 'available') {
-        warehouseStock[item.currentWarehouseId] = (warehouseStock[item.currentWarehouseId] || 0) + 1
-      }
-    })
-    
-    const lowStockItems = Object.values(warehouseStock).filter(count => count < 5).length
+    // Low stock items: reorder levels (per warehouse and vehicle type/model) below their minimum
+    const reorderLevels = await ReorderLevelService.getLevels()
+    const lowStockItems = evaluateReorderLevels(reorderLevels, items as InventoryItem[], {}).length
     
     return {
       totalItems,
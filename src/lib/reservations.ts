@@ -0,0 +1,257 @@
+// حجز المنتجات بعربون مع انتهاء تلقائي للحجز
+
+import {
+  collection,
+  query,
+  where,
+  getDocs,
+  doc,
+  getDoc,
+  runTransaction,
+  serverTimestamp,
+  Timestamp,
+  Transaction
+} from 'firebase/firestore'
+import { db } from '../firebase/firebase-config.template'
+import { createReservationExpiredNotification } from './notificationService'
+import { ItemReservation, SaleSource } from '../types'
+
+export interface CreateReservationInput {
+  inventoryItemId: string
+  customerName: string
+  customerPhone: string
+  customerNationalId?: string
+  depositAmount: number
+  expiresAt: Date
+  notes?: string
+  userId: string
+  userName?: string
+}
+
+export interface ReservationResult {
+  success: boolean
+  reservationId?: string
+  error?: string
+}
+
+export interface ConvertReservationInput {
+  saleId: string
+  saleSource: SaleSource
+  userId: string
+}
+
+// الحجز ساري المفعول: نشط ولم تنته مدته
+export function isReservationActive(reservation: ItemReservation, asOf: Date = new Date()): boolean {
+  return reservation.status === 'active' && reservation.expiresAt.toDate() > asOf
+}
+
+export class ReservationService {
+
+  // حجز منتج متاح لعميل محدد حتى تاريخ الانتهاء
+  static async createReservation(input: CreateReservationInput): Promise<ReservationResult> {
+    if (!input.customerName.trim() || !input.customerPhone.trim()) {
+      return { success: false, error: 'اسم العميل ورقم الهاتف مطلوبان' }
+    }
+    if (!(input.depositAmount > 0)) {
+      return { success: false, error: 'قيمة العربون يجب أن تكون أكبر من صفر' }
+    }
+    if (isNaN(input.expiresAt.getTime()) || input.expiresAt <= new Date()) {
+      return { success: false, error: 'تاريخ انتهاء الحجز يجب أن يكون في المستقبل' }
+    }
+
+    try {
+      const itemRef = doc(db, 'inventory_items', input.inventoryItemId)
+      const reservationRef = doc(collection(db, 'item_reservations'))
+
+      await runTransaction(db, async (transaction) => {
+        const itemDoc = await transaction.get(itemRef)
+        if (!itemDoc.exists()) {
+          throw new Error('المنتج غير موجود')
+        }
+
+        const itemData = itemDoc.data()
+        if (itemData.status === 'reserved') {
+          throw new Error('المنتج محجوز بالفعل لعميل آخر')
+        }
+        if (itemData.status !== 'available') {
+          throw new Error('المنتج غير متاح للحجز')
+        }
+
+        transaction.update(itemRef, {
+          status: 'reserved',
+          reservationId: reservationRef.id,
+          updatedAt: serverTimestamp()
+        })
+
+        const reservation: Omit<ItemReservation, 'id' | 'createdAt'> & { createdAt: any } = {
+          inventoryItemId: input.inventoryItemId,
+          motorFingerprint: itemData.motorFingerprint || '',
+          chassisNumber: itemData.chassisNumber || '',
+          brand: itemData.brand || '',
+          model: itemData.model || '',
+          warehouseId: itemData.currentWarehouseId || '',
+          customerName: input.customerName.trim(),
+          customerPhone: input.customerPhone.trim(),
+          ...(input.customerNationalId ? { customerNationalId: input.customerNationalId } : {}),
+          depositAmount: input.depositAmount,
+          expiresAt: Timestamp.fromDate(input.expiresAt),
+          status: 'active',
+          ...(input.notes ? { notes: input.notes } : {}),
+          createdAt: serverTimestamp(),
+          createdBy: input.userId,
+          ...(input.userName ? { createdByName: input.userName } : {})
+        }
+        transaction.set(reservationRef, reservation)
+      })
+
+      return { success: true, reservationId: reservationRef.id }
+
+    } catch (error) {
+      console.error('Error creating reservation:', error)
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'فشل في حجز المنتج'
+      }
+    }
+  }
+
+  // إلغاء الحجز يدوياً وإعادة المنتج متاحاً
+  static async cancelReservation(reservationId: string, userId: string): Promise<ReservationResult> {
+    try {
+      const released = await this.releaseReservation(reservationId, 'cancelled', userId)
+      if (!released) {
+        return { success: false, error: 'الحجز غير نشط' }
+      }
+      return { success: true, reservationId }
+    } catch (error) {
+      console.error('Error cancelling reservation:', error)
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'فشل في إلغاء الحجز'
+      }
+    }
+  }
+
+  // قراءة الحجز داخل معاملة البيع والتأكد من أنه ما زال سارياً
+  static async readForSale(transaction: Transaction, reservationId: string): Promise<ItemReservation> {
+    const reservationDoc = await transaction.get(doc(db, 'item_reservations', reservationId))
+    if (!reservationDoc.exists()) {
+      throw new Error('الحجز غير موجود')
+    }
+
+    const reservation = { id: reservationDoc.id, ...reservationDoc.data() } as ItemReservation
+    if (!isReservationActive(reservation)) {
+      throw new Error(`انتهى الحجز على المنتج ${reservation.chassisNumber}، يرجى إعادة تحميل المنتجات`)
+    }
+    return reservation
+  }
+
+  // تحويل الحجز إلى بيع داخل نفس معاملة الفاتورة (العربون يخصم من قيمة البيع)
+  static markConverted(transaction: Transaction, reservation: ItemReservation, input: ConvertReservationInput) {
+    transaction.update(doc(db, 'item_reservations', reservation.id), {
+      status: 'converted',
+      saleId: input.saleId,
+      saleSource: input.saleSource,
+      convertedAt: serverTimestamp(),
+      updatedAt: serverTimestamp(),
+      updatedBy: input.userId
+    })
+
+    transaction.update(doc(db, 'inventory_items', reservation.inventoryItemId), {
+      reservationId: null
+    })
+  }
+
+  // إنهاء الحجوزات التي انتهت مدتها وإشعار منشئ الحجز
+  static async expireLapsedReservations(): Promise<number> {
+    try {
+      const reservationsSnapshot = await getDocs(query(
+        collection(db, 'item_reservations'),
+        where('status', '==', 'active')
+      ))
+
+      const now = new Date()
+      const lapsed = reservationsSnapshot.docs
+        .map(reservationDoc => ({ id: reservationDoc.id, ...reservationDoc.data() }) as ItemReservation)
+        .filter(reservation => reservation.expiresAt.toDate() <= now)
+
+      let expiredCount = 0
+      for (const reservation of lapsed) {
+        try {
+          const released = await this.releaseReservation(reservation.id, 'expired')
+          if (!released) continue
+          expiredCount++
+
+          await createReservationExpiredNotification({
+            reservationId: reservation.id,
+            customerName: reservation.customerName,
+            itemDescription: `${reservation.brand} ${reservation.model}`,
+            chassisNumber: reservation.chassisNumber,
+            depositAmount: reservation.depositAmount
+          }, reservation.createdBy)
+        } catch (error) {
+          console.error('Error expiring reservation:', reservation.id, error)
+        }
+      }
+
+      return expiredCount
+    } catch (error) {
+      console.error('Error expiring lapsed reservations:', error)
+      return 0
+    }
+  }
+
+  static async getReservation(reservationId: string): Promise<ItemReservation | null> {
+    try {
+      const reservationDoc = await getDoc(doc(db, 'item_reservations', reservationId))
+      if (!reservationDoc.exists()) {
+        return null
+      }
+
+      return { id: reservationDoc.id, ...reservationDoc.data() } as ItemReservation
+    } catch (error) {
+      console.error('Error getting reservation:', error)
+      return null
+    }
+  }
+
+  // إعادة المنتج متاحاً وإغلاق الحجز، ترجع false إذا كان الحجز قد أغلق مسبقاً
+  private static async releaseReservation(
+    reservationId: string,
+    status: 'expired' | 'cancelled',
+    userId?: string
+  ): Promise<boolean> {
+    const reservationRef = doc(db, 'item_reservations', reservationId)
+
+    return runTransaction(db, async (transaction) => {
+      const reservationDoc = await transaction.get(reservationRef)
+      if (!reservationDoc.exists()) {
+        throw new Error('الحجز غير موجود')
+      }
+
+      const reservation = reservationDoc.data()
+      if (reservation.status !== 'active') {
+        return false
+      }
+
+      const itemRef = doc(db, 'inventory_items', reservation.inventoryItemId)
+      const itemDoc = await transaction.get(itemRef)
+
+      transaction.update(reservationRef, status === 'expired'
+        ? { status, expiredAt: serverTimestamp() }
+        : { status, cancelledAt: serverTimestamp(), cancelledBy: userId }
+      )
+
+      // لا نغير حالة المنتج إلا إذا كان ما زال محجوزاً بنفس الحجز
+      if (itemDoc.exists() && itemDoc.data().status === 'reserved' && itemDoc.data().reservationId === reservationId) {
+        transaction.update(itemRef, {
+          status: 'available',
+          reservationId: null,
+          updatedAt: serverTimestamp()
+        })
+      }
+
+      return true
+    })
+  }
+}
@@ -0,0 +1,104 @@
+// حسابات فواتير البيع متعددة الأصناف: إجمالي كل سطر وتوزيع الربح بين الوكيل والمؤسسة
+
+import { calculateLineTax, TaxOptions } from './salesTax'
+
+export interface SaleLineTotals {
+  salePrice: number // المبلغ المحصل من العميل شامل الضريبة
+  netAmount: number
+  taxRate: number
+  taxAmount: number
+  purchasePrice: number
+  profit: number
+  commissionRate: number
+  agentCommission: number
+  companyShare: number
+}
+
+export interface InvoiceTotals {
+  lineCount: number
+  subtotal: number
+  totalTax: number
+  totalAmount: number
+  totalPurchase: number
+  totalProfit: number
+  totalCommission: number
+  totalCompanyShare: number
+}
+
+export interface SaleLineCheck {
+  inventoryItemId: string
+  chassisNumber: string
+  salePrice: number
+  purchasePrice: number
+}
+
+// العمولة تحسب من الربح وليس من سعر البيع، والباقي نصيب المؤسسة
+// الربح يحسب من صافي السعر بدون الضريبة، فالضريبة لا تدخل في توزيع الربح
+export function calculateSaleLine(
+  salePrice: number,
+  purchasePrice: number,
+  commissionRate: number = 0,
+  tax?: TaxOptions
+): SaleLineTotals {
+  const lineTax = calculateLineTax(salePrice, tax)
+  const profit = lineTax.netAmount - purchasePrice
+  const agentCommission = profit * (commissionRate / 100)
+
+  return {
+    salePrice: lineTax.grossAmount,
+    netAmount: lineTax.netAmount,
+    taxRate: lineTax.taxRate,
+    taxAmount: lineTax.taxAmount,
+    purchasePrice,
+    profit,
+    commissionRate,
+    agentCommission,
+    companyShare: profit - agentCommission
+  }
+}
+
+export function summarizeInvoice(lines: SaleLineTotals[]): InvoiceTotals {
+  return lines.reduce<InvoiceTotals>((totals, line) => ({
+    lineCount: totals.lineCount + 1,
+    subtotal: totals.subtotal + line.netAmount,
+    totalTax: totals.totalTax + line.taxAmount,
+    totalAmount: totals.totalAmount + line.salePrice,
+    totalPurchase: totals.totalPurchase + line.purchasePrice,
+    totalProfit: totals.totalProfit + line.profit,
+    totalCommission: totals.totalCommission + line.agentCommission,
+    totalCompanyShare: totals.totalCompanyShare + line.companyShare
+  }), {
+    lineCount: 0,
+    subtotal: 0,
+    totalTax: 0,
+    totalAmount: 0,
+    totalPurchase: 0,
+    totalProfit: 0,
+    totalCommission: 0,
+    totalCompanyShare: 0
+  })
+}
+
+// التحقق من أسطر الفاتورة قبل الحفظ (سعر البيع بدون الضريبة لا يقل عن سعر الشراء)
+export function validateSaleLines(lines: SaleLineCheck[], tax?: TaxOptions): string | null {
+  if (lines.length === 0) {
+    return 'يرجى اختيار منتج واحد على الأقل'
+  }
+
+  const seen = new Set<string>()
+  for (const line of lines) {
+    if (seen.has(line.inventoryItemId)) {
+      return `الشاسيه ${line.chassisNumber} مكرر في الفاتورة`
+    }
+    seen.add(line.inventoryItemId)
+
+    if (!(line.salePrice > 0)) {
+      return `يرجى إدخال سعر البيع للشاسيه ${line.chassisNumber}`
+    }
+    if (calculateLineTax(line.salePrice, tax).netAmount < line.purchasePrice) {
+      return `صافي سعر البيع بدون الضريبة للشاسيه ${line.chassisNumber} أقل من سعر الشراء (${line.purchasePrice.toLocaleString()} جنيه)`
+    }
+  }
+
+  return null
+}
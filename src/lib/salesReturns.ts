@@ -0,0 +1,348 @@
+// مرتجعات المبيعات وإلغاء الفواتير
+
+import {
+  collection,
+  query,
+  where,
+  getDocs,
+  doc,
+  getDoc,
+  limit,
+  runTransaction,
+  serverTimestamp,
+  DocumentReference
+} from 'firebase/firestore'
+import { db } from '../firebase/firebase-config.template'
+import { DocumentNumberingService } from './documentNumbering'
+import { GeneralLedgerService, agentSaleLines, reverseLines } from './generalLedger'
+import { SaleReturn, SaleSource } from '../types'
+
+export interface CreateSaleReturnInput {
+  documentTrackingId: string
+  warehouseId: string // المخزن الذي سيعود إليه المنتج
+  reason: string
+  userId: string
+}
+
+export interface SaleReturnResult {
+  success: boolean
+  returnId?: string
+  creditNoteNumber?: string
+  error?: string
+}
+
+interface ResolvedSale {
+  saleRef: DocumentReference
+  saleSource: SaleSource
+  inventoryItemId: string
+}
+
+export class SalesReturnService {
+
+  // تحديد سجل البيع الأصلي المرتبط بسجل تتبع الوثائق
+  private static async resolveSale(documentTrackingId: string): Promise<ResolvedSale | null> {
+    const trackingDoc = await getDoc(doc(db, 'document_tracking', documentTrackingId))
+    if (!trackingDoc.exists()) {
+      return null
+    }
+
+    const trackingData = trackingDoc.data()
+
+    // مبيعات الشركة مرتبطة برقم المعاملة وليس بمعرف المستند
+    if (trackingData.saleType === 'company_sale' || trackingData.transactionType === 'company_sale') {
+      const salesSnapshot = await getDocs(query(
+        collection(db, 'company_sales'),
+        where('transactionId', '==', trackingData.transactionId),
+        limit(1)
+      ))
+      if (salesSnapshot.empty) {
+        return null
+      }
+
+      const saleDoc = salesSnapshot.docs[0]
+      return {
+        saleRef: saleDoc.ref,
+        saleSource: 'company_sale',
+        inventoryItemId: trackingData.inventoryItemId || saleDoc.data().items?.[0]?.inventoryItemId
+      }
+    }
+
+    // مبيعات الوكلاء مرتبطة بمعرف مستند البيع مباشرة
+    let saleDoc = await getDoc(doc(db, 'sales', trackingData.saleTransactionId))
+    if (!saleDoc.exists()) {
+      // مبيعات المدير بالنيابة عن الوكيل القديمة سجلت معرفاً مولداً في حقل id وليس معرف المستند
+      const salesSnapshot = await getDocs(query(
+        collection(db, 'sales'),
+        where('id', '==', trackingData.saleTransactionId),
+        limit(1)
+      ))
+      if (salesSnapshot.empty) {
+        return null
+      }
+      saleDoc = salesSnapshot.docs[0]
+    }
+
+    return {
+      saleRef: saleDoc.ref,
+      saleSource: 'agent_sale',
+      inventoryItemId: trackingData.inventoryItemId || saleDoc.data().inventoryItemId
+    }
+  }
+
+  // إنشاء مرتجع: إعادة المنتج للمخزن، عكس قيود الوكيل، وإلغاء سجل الوثائق
+  // البيع الأصلي لا يحذف بل تتغير حالته إلى "مرتجع" مع السبب
+  static async createSaleReturn(input: CreateSaleReturnInput): Promise<SaleReturnResult> {
+    if (!input.reason.trim()) {
+      return { success: false, error: 'سبب المرتجع مطلوب' }
+    }
+
+    try {
+      const resolved = await this.resolveSale(input.documentTrackingId)
+      if (!resolved || !resolved.inventoryItemId) {
+        return { success: false, error: 'لم يتم العثور على فاتورة البيع الأصلية' }
+      }
+
+      const trackingRef = doc(db, 'document_tracking', input.documentTrackingId)
+      const itemRef = doc(db, 'inventory_items', resolved.inventoryItemId)
+      const returnRef = doc(collection(db, 'sales_returns'))
+      let creditNoteNumber = ''
+
+      await runTransaction(db, async (transaction) => {
+        const [trackingDoc, saleDoc, itemDoc] = await Promise.all([
+          transaction.get(trackingRef),
+          transaction.get(resolved.saleRef),
+          transaction.get(itemRef)
+        ])
+
+        if (!trackingDoc.exists() || !saleDoc.exists() || !itemDoc.exists()) {
+          throw new Error('بيانات البيع غير مكتملة')
+        }
+
+        const trackingData = trackingDoc.data()
+        const saleData = saleDoc.data()
+        const itemData = itemDoc.data()
+
+        if (saleData.status === 'returned' || trackingData.status === 'cancelled') {
+          throw new Error('تم تسجيل مرتجع لهذه الفاتورة من قبل')
+        }
+
+        if (itemData.status !== 'sold') {
+          throw new Error('المنتج ليس في حالة مباع')
+        }
+
+        const agentId: string | undefined = resolved.saleSource === 'agent_sale' ? saleData.agentId : undefined
+        const agentRef = agentId ? doc(db, 'agents', agentId) : null
+        const agentDoc = agentRef ? await transaction.get(agentRef) : null
+
+        // رقم الإشعار الدائن المسلسل يحجز قبل أي كتابة داخل المعاملة
+        creditNoteNumber = await DocumentNumberingService.allocate(transaction, 'credit_note')
+
+        // في الفواتير متعددة الأصناف يسترد سعر السطر فقط (شامل الضريبة)
+        const refundAmount = Number(trackingData.salePrice ?? saleData.salePrice ?? saleData.totalAmount) || 0
+        const refundTaxAmount = Number(trackingData.taxAmount ?? saleData.taxAmount) || 0
+        const companyShare = agentId ? Number(saleData.companyShare) || 0 : 0
+        const agentCommission = agentId ? Number(saleData.agentCommission) || 0 : 0
+
+        // إعادة المنتج متاحاً في المخزن المختار
+        transaction.update(itemRef, {
+          status: 'available',
+          currentWarehouseId: input.warehouseId,
+          soldAt: null,
+          lastReturnId: returnRef.id,
+          returnedAt: serverTimestamp(),
+          updatedAt: serverTimestamp()
+        })
+
+        // فاتورة الشركة متعددة الأصناف: تعليم السطر المرتجع فقط، والفاتورة مرتجعة عند إرجاع كل أسطرها
+        const saleItems: any[] = resolved.saleSource === 'company_sale' ? saleData.items || [] : []
+        const updatedItems = saleItems.map(item => item.inventoryItemId === resolved.inventoryItemId
+          ? { ...item, returned: true, returnId: returnRef.id }
+          : item
+        )
+        const fullyReturned = updatedItems.every(item => item.returned)
+
+        // الإبقاء على البيع الأصلي مع حالة "مرتجع"
+        transaction.update(resolved.saleRef, {
+          status: fullyReturned ? 'returned' : 'partially_returned',
+          ...(updatedItems.length > 1 ? { items: updatedItems } : {}),
+          returnId: returnRef.id,
+          returnReason: input.reason,
+          returnedAt: serverTimestamp(),
+          returnedBy: input.userId,
+          updatedAt: serverTimestamp()
+        })
+
+        // إيقاف خطة التقسيط المرتبطة بالبيع إن وجدت
+        if (saleData.installmentPlanId && fullyReturned) {
+          transaction.update(doc(db, 'installment_plans', saleData.installmentPlanId), {
+            status: 'cancelled',
+            updatedAt: serverTimestamp()
+          })
+        }
+
+        // إلغاء سجل تتبع الوثائق مع الاحتفاظ بالمراحل السابقة
+        transaction.update(trackingRef, {
+          status: 'cancelled',
+          statusBeforeCancellation: trackingData.status,
+          returnId: returnRef.id,
+          returnReason: input.reason,
+          stages: [
+            ...(trackingData.stages || []),
+            {
+              status: 'cancelled',
+              date: new Date(),
+              updatedBy: input.userId,
+              notes: `مرتجع - ${input.reason}`
+            }
+          ],
+          updatedAt: serverTimestamp(),
+          updatedBy: input.userId
+        })
+
+        // عكس نصيب المؤسسة والضريبة والعمولة في حساب الوكيل بقيد عكسي لقيد البيع
+        if (agentRef && agentDoc?.exists()) {
+          const agentData = agentDoc.data()
+          const posted = GeneralLedgerService.post(transaction, {
+            source: 'sales_return',
+            sourceId: returnRef.id,
+            reference: creditNoteNumber,
+            description: `مرتجع فاتورة رقم ${resolved.saleRef.id.slice(-6)} - إشعار دائن ${creditNoteNumber}`,
+            lines: reverseLines(agentSaleLines(agentRef.id, {
+              netAmount: refundAmount - refundTaxAmount,
+              taxAmount: refundTaxAmount,
+              companyShare,
+              agentCommission
+            })),
+            postedBy: input.userId
+          }, { [agentRef.id]: { ref: agentRef, balance: Number(agentData.currentBalance) || 0 } })
+          const { previousBalance: currentBalance, newBalance } = posted.balances[agentRef.id]
+          const balanceAfterShare = currentBalance + companyShare
+
+          transaction.update(agentRef, {
+            totalSales: (Number(agentData.totalSales) || 0) - refundAmount,
+            totalCommission: (Number(agentData.totalCommission) || 0) - agentCommission,
+            updatedAt: serverTimestamp()
+          })
+
+          transaction.set(doc(collection(db, 'agent_transactions')), {
+            agentId,
+            type: 'debt_decrease',
+            amount: companyShare,
+            description: `عكس مديونية نصيب المؤسسة - مرتجع فاتورة رقم ${resolved.saleRef.id.slice(-6)}`,
+            saleId: resolved.saleRef.id,
+            returnId: returnRef.id,
+            companyShare: -companyShare,
+            previousBalance: currentBalance,
+            newBalance: balanceAfterShare,
+            journalEntryId: posted.entryId,
+            createdAt: serverTimestamp(),
+            createdBy: input.userId
+          })
+
+          if (refundTaxAmount > 0) {
+            transaction.set(doc(collection(db, 'agent_transactions')), {
+              agentId,
+              type: 'debt_decrease',
+              amount: refundTaxAmount,
+              description: `عكس ضريبة القيمة المضافة - مرتجع فاتورة رقم ${resolved.saleRef.id.slice(-6)}`,
+              saleId: resolved.saleRef.id,
+              returnId: returnRef.id,
+              taxAmount: -refundTaxAmount,
+              previousBalance: balanceAfterShare,
+              newBalance,
+              journalEntryId: posted.entryId,
+              createdAt: serverTimestamp(),
+              createdBy: input.userId
+            })
+          }
+
+          transaction.set(doc(collection(db, 'agent_transactions')), {
+            agentId,
+            type: 'adjustment',
+            amount: -(agentCommission - companyShare),
+            description: `عكس عمولة البيع - مرتجع فاتورة رقم ${resolved.saleRef.id.slice(-6)}`,
+            relatedSaleId: resolved.saleRef.id,
+            returnId: returnRef.id,
+            commission: -agentCommission,
+            status: 'completed',
+            createdAt: serverTimestamp(),
+            createdBy: input.userId
+          })
+        }
+
+        // إشعار دائن (مستند المرتجع)
+        const saleReturn: Omit<SaleReturn, 'id' | 'createdAt'> & { createdAt: any } = {
+          creditNoteNumber,
+          saleId: resolved.saleRef.id,
+          saleSource: resolved.saleSource,
+          documentTrackingId: input.documentTrackingId,
+          inventoryItemId: resolved.inventoryItemId,
+          motorFingerprint: itemData.motorFingerprint || '',
+          chassisNumber: itemData.chassisNumber || '',
+          brand: itemData.brand || '',
+          model: itemData.model || '',
+          returnedToWarehouseId: input.warehouseId,
+          customerName: saleData.customerName || trackingData.customerName || '',
+          customerNationalId: saleData.customerId || trackingData.customerNationalId || trackingData.customerId || '',
+          customerPhone: saleData.customerPhone || trackingData.customerPhone || '',
+          refundAmount,
+          refundTaxAmount,
+          ...(agentId ? { agentId } : {}),
+          reversedCompanyShare: companyShare,
+          reversedAgentCommission: agentCommission,
+          reason: input.reason,
+          createdAt: serverTimestamp(),
+          createdBy: input.userId
+        }
+        transaction.set(returnRef, saleReturn)
+
+        // معاملة مرتجع في سجل حركة المخزون
+        transaction.set(doc(collection(db, 'transactions')), {
+          id: creditNoteNumber,
+          type: 'return',
+          date: serverTimestamp(),
+          userId: input.userId,
+          referenceNumber: creditNoteNumber,
+          items: [{
+            inventoryItemId: resolved.inventoryItemId,
+            motorFingerprint: itemData.motorFingerprint || '',
+            chassisNumber: itemData.chassisNumber || ''
+          }],
+          totalAmount: refundAmount,
+          fromWarehouseId: itemData.currentWarehouseId || '',
+          toWarehouseId: input.warehouseId,
+          details: {
+            ...(agentId ? { agentId } : {}),
+            notes: `مرتجع من العميل ${saleReturn.customerName}: ${input.reason}`
+          },
+          createdAt: serverTimestamp(),
+          updatedAt: serverTimestamp()
+        })
+      })
+
+      return { success: true, returnId: returnRef.id, creditNoteNumber }
+
+    } catch (error) {
+      console.error('Error creating sale return:', error)
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'فشل في تسجيل المرتجع'
+      }
+    }
+  }
+
+  // جلب مستند المرتجع (إشعار الدائن)
+  static async getSaleReturn(returnId: string): Promise<SaleReturn | null> {
+    try {
+      const returnDoc = await getDoc(doc(db, 'sales_returns', returnId))
+      if (!returnDoc.exists()) {
+        return null
+      }
+
+      return { id: returnDoc.id, ...returnDoc.data() } as SaleReturn
+    } catch (error) {
+      console.error('Error getting sale return:', error)
+      return null
+    }
+  }
+}
@@ -0,0 +1,279 @@
+// ضريبة القيمة المضافة على فواتير البيع: التسعير شامل/غير شامل الضريبة، العملاء المعفون، وملخص الضريبة
+
+import {
+  collection,
+  query,
+  where,
+  getDocs,
+  doc,
+  getDoc,
+  setDoc,
+  updateDoc,
+  serverTimestamp,
+  Timestamp
+} from 'firebase/firestore'
+import { format } from 'date-fns'
+import { db } from '../firebase/firebase-config.template'
+import { settingsService } from './settingsService'
+import { TaxMode, DEFAULT_SYSTEM_SETTINGS } from '../types/settings'
+import { TaxExemptCustomer } from '../types'
+
+export interface TaxOptions {
+  rate: number // نسبة مئوية
+  mode: TaxMode
+  exempt?: boolean
+}
+
+export interface LineTax {
+  taxRate: number
+  netAmount: number // قيمة البيع بدون الضريبة (أساس حساب الربح)
+  taxAmount: number
+  grossAmount: number // المبلغ المحصل من العميل
+}
+
+// ضريبة الفاتورة بعد تطبيق إعدادات النظام وإعفاء العميل
+export interface InvoiceTax {
+  options: TaxOptions
+  exemption: TaxExemptCustomer | null
+}
+
+export interface TaxExemptionInput {
+  nationalId: string
+  customerName: string
+  certificateNumber: string
+  reason?: string
+  validUntil?: Date
+}
+
+export interface TaxExemptionResult {
+  success: boolean
+  error?: string
+}
+
+// ملخص الضريبة لفترة (شهر)
+export interface TaxSummaryPeriod {
+  period: string // yyyy-MM
+  salesCount: number
+  taxableSales: number // صافي المبيعات الخاضعة
+  exemptSales: number // مبيعات العملاء المعفين
+  outputTax: number // الضريبة المستحقة على المبيعات
+  returnsCount: number
+  returnedTax: number // الضريبة المردودة بإشعارات دائنة
+  netTax: number
+}
+
+export const taxModeLabels: Record<TaxMode, string> = {
+  inclusive: 'السعر شامل الضريبة',
+  exclusive: 'السعر غير شامل الضريبة'
+}
+
+const roundAmount = (value: number) => Math.round(value * 100) / 100
+
+// حساب ضريبة سطر واحد من السعر المدخل حسب طريقة التسعير
+export function calculateLineTax(price: number, options?: TaxOptions): LineTax {
+  const taxRate = options && !options.exempt ? options.rate || 0 : 0
+
+  if (options?.mode === 'exclusive') {
+    const taxAmount = roundAmount(price * taxRate / 100)
+    return { taxRate, netAmount: price, taxAmount, grossAmount: roundAmount(price + taxAmount) }
+  }
+
+  // شامل الضريبة: السعر المدخل هو المبلغ المحصل والضريبة مستخرجة منه
+  const netAmount = roundAmount(price / (1 + taxRate / 100))
+  return { taxRate, netAmount, taxAmount: roundAmount(price - netAmount), grossAmount: price }
+}
+
+// حقول الضريبة المحفوظة مع الفاتورة وأسطرها
+export function invoiceTaxFields(tax: InvoiceTax) {
+  return {
+    taxMode: tax.options.mode,
+    taxExempt: !!tax.options.exempt,
+    ...(tax.exemption ? { taxExemptionCertificate: tax.exemption.certificateNumber } : {})
+  }
+}
+
+// الإعفاء ساري: نشط ولم ينته تاريخ الشهادة
+export function isExemptionValid(exemption: TaxExemptCustomer, asOf: Date = new Date()): boolean {
+  return exemption.active && (!exemption.validUntil || exemption.validUntil.toDate() >= asOf)
+}
+
+export class SalesTaxService {
+
+  // نسبة الضريبة وطريقة التسعير الافتراضية من إعدادات النظام
+  static async getTaxSettings(): Promise<TaxOptions> {
+    try {
+      const settings = await settingsService.getSystemSettings()
+      return {
+        rate: settings.business?.taxRate ?? DEFAULT_SYSTEM_SETTINGS.business.taxRate,
+        mode: settings.business?.taxMode || 'inclusive'
+      }
+    } catch (error) {
+      console.error('Error loading tax settings:', error)
+      return {
+        rate: DEFAULT_SYSTEM_SETTINGS.business.taxRate,
+        mode: 'inclusive'
+      }
+    }
+  }
+
+  // تحديد ضريبة الفاتورة: النسبة من الإعدادات دائماً، والإعفاء من سجل العملاء المعفين فقط
+  static async resolveInvoiceTax(customerNationalId: string, mode?: TaxMode): Promise<InvoiceTax> {
+    const [settings, exemption] = await Promise.all([
+      this.getTaxSettings(),
+      this.getExemption(customerNationalId || '')
+    ])
+
+    return {
+      options: {
+        rate: settings.rate,
+        mode: mode || settings.mode,
+        exempt: !!exemption
+      },
+      exemption
+    }
+  }
+
+  // جلب إعفاء العميل بالرقم القومي (null إذا لم يكن معفى أو انتهى الإعفاء)
+  static async getExemption(nationalId: string): Promise<TaxExemptCustomer | null> {
+    const id = nationalId.trim()
+    if (!id) {
+      return null
+    }
+
+    try {
+      const exemptionDoc = await getDoc(doc(db, 'tax_exempt_customers', id))
+      if (!exemptionDoc.exists()) {
+        return null
+      }
+
+      const exemption = { id: exemptionDoc.id, ...exemptionDoc.data() } as TaxExemptCustomer
+      return isExemptionValid(exemption) ? exemption : null
+    } catch (error) {
+      console.error('Error getting tax exemption:', error)
+      return null
+    }
+  }
+
+  static async getExemptCustomers(): Promise<TaxExemptCustomer[]> {
+    try {
+      const snapshot = await getDocs(collection(db, 'tax_exempt_customers'))
+      return snapshot.docs
+        .map(exemptionDoc => ({ id: exemptionDoc.id, ...exemptionDoc.data() }) as TaxExemptCustomer)
+        .sort((a, b) => a.customerName.localeCompare(b.customerName, 'ar'))
+    } catch (error) {
+      console.error('Error getting tax exempt customers:', error)
+      return []
+    }
+  }
+
+  // تسجيل عميل معفى (أو تجديد إعفائه) بشهادة الإعفاء
+  static async saveExemption(input: TaxExemptionInput, userId: string): Promise<TaxExemptionResult> {
+    const nationalId = input.nationalId.trim()
+    if (!nationalId || !input.customerName.trim()) {
+      return { success: false, error: 'الرقم القومي واسم العميل مطلوبان' }
+    }
+    if (!input.certificateNumber.trim()) {
+      return { success: false, error: 'رقم شهادة الإعفاء مطلوب' }
+    }
+
+    try {
+      const exemption: Omit<TaxExemptCustomer, 'id' | 'createdAt'> & { createdAt: any } = {
+        nationalId,
+        customerName: input.customerName.trim(),
+        certificateNumber: input.certificateNumber.trim(),
+        ...(input.reason?.trim() ? { reason: input.reason.trim() } : {}),
+        ...(input.validUntil ? { validUntil: Timestamp.fromDate(input.validUntil) } : {}),
+        active: true,
+        createdAt: serverTimestamp(),
+        createdBy: userId
+      }
+      await setDoc(doc(db, 'tax_exempt_customers', nationalId), exemption)
+      return { success: true }
+    } catch (error) {
+      console.error('Error saving tax exemption:', error)
+      return { success: false, error: 'فشل في حفظ الإعفاء الضريبي' }
+    }
+  }
+
+  static async revokeExemption(nationalId: string, userId: string): Promise<TaxExemptionResult> {
+    try {
+      await updateDoc(doc(db, 'tax_exempt_customers', nationalId), {
+        active: false,
+        revokedAt: serverTimestamp(),
+        revokedBy: userId
+      })
+      return { success: true }
+    } catch (error) {
+      console.error('Error revoking tax exemption:', error)
+      return { success: false, error: 'فشل في إلغاء الإعفاء الضريبي' }
+    }
+  }
+
+  // ملخص الضريبة شهرياً من فواتير الوكلاء وفواتير الشركة وإشعارات الدائن
+  // المبيعات المسجلة قبل تفعيل الضريبة تظهر كمبيعات خاضعة بضريبة صفر
+  static async getTaxSummary(dateFrom: Date, dateTo: Date): Promise<TaxSummaryPeriod[]> {
+    const inRange = (collectionName: string) => getDocs(query(
+      collection(db, collectionName),
+      where('createdAt', '>=', Timestamp.fromDate(dateFrom)),
+      where('createdAt', '<=', Timestamp.fromDate(dateTo))
+    ))
+
+    const [agentSales, companySales, returns] = await Promise.all([
+      inRange('sales'),
+      inRange('company_sales'),
+      inRange('sales_returns')
+    ])
+
+    const periods = new Map<string, TaxSummaryPeriod>()
+    const periodFor = (createdAt: any): TaxSummaryPeriod => {
+      const key = format(createdAt?.toDate ? createdAt.toDate() : new Date(), 'yyyy-MM')
+      if (!periods.has(key)) {
+        periods.set(key, {
+          period: key,
+          salesCount: 0,
+          taxableSales: 0,
+          exemptSales: 0,
+          outputTax: 0,
+          returnsCount: 0,
+          returnedTax: 0,
+          netTax: 0
+        })
+      }
+      return periods.get(key)!
+    }
+
+    const addSale = (data: any, grossAmount: number) => {
+      const period = periodFor(data.createdAt)
+      const taxAmount = Number(data.taxAmount) || 0
+      const netAmount = Number(data.subtotal ?? data.netAmount ?? grossAmount - taxAmount) || 0
+      period.salesCount++
+      if (data.taxExempt) {
+        period.exemptSales += netAmount
+      } else {
+        period.taxableSales += netAmount
+      }
+      period.outputTax += taxAmount
+    }
+
+    // كل سطر من فاتورة الوكيل له سجل بيع مستقل
+    agentSales.docs.forEach(saleDoc => addSale(saleDoc.data(), Number(saleDoc.data().salePrice) || 0))
+    companySales.docs.forEach(saleDoc => addSale(saleDoc.data(), Number(saleDoc.data().totalAmount) || 0))
+
+    returns.docs.forEach(returnDoc => {
+      const period = periodFor(returnDoc.data().createdAt)
+      period.returnsCount++
+      period.returnedTax += Number(returnDoc.data().refundTaxAmount) || 0
+    })
+
+    return Array.from(periods.values())
+      .map(period => ({
+        ...period,
+        taxableSales: roundAmount(period.taxableSales),
+        exemptSales: roundAmount(period.exemptSales),
+        outputTax: roundAmount(period.outputTax),
+        returnedTax: roundAmount(period.returnedTax),
+        netTax: roundAmount(period.outputTax - period.returnedTax)
+      }))
+      .sort((a, b) => a.period.localeCompare(b.period))
+  }
+}
@@ -13,7 +13,7 @@ import {
   serverTimestamp,
   onSnapshot
 } from 'firebase/firestore'
-import { db } from './firebase'
+import { db } from '../firebase/firebase-config.template'
 import { 
   SystemSettings, 
   UserPreferences, 
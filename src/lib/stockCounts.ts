@@ -0,0 +1,370 @@
+// جرد المخزن الفعلي: مطابقة الأرقام الموجودة في المخزن مع المسجل عليه، ثم ترحيل التسويات بأسبابها
+
+import {
+  collection,
+  query,
+  where,
+  getDocs,
+  doc,
+  getDoc,
+  addDoc,
+  updateDoc,
+  runTransaction,
+  serverTimestamp,
+  arrayUnion,
+  arrayRemove,
+  Timestamp
+} from 'firebase/firestore'
+import { db } from '../firebase/firebase-config.template'
+import { generateTransactionId } from './utils'
+import { normalizeIdentifier } from './inventoryIdentifiers'
+import {
+  InventoryItem,
+  StockCount,
+  StockCountAdjustment,
+  StockCountExpectedItem,
+  StockCountReason,
+  StockCountScan,
+  StockCountStatus,
+  StockCountSummary,
+  Warehouse
+} from '../types'
+
+export interface StockCountResult {
+  success: boolean
+  countId?: string
+  error?: string
+}
+
+export interface StockCountVariance {
+  found: StockCountExpectedItem[]
+  missing: StockCountExpectedItem[]
+  unexpected: StockCountScan[]
+}
+
+export const stockCountStatusLabels: Record<StockCountStatus, string> = {
+  in_progress: 'جاري الجرد',
+  posted: 'مرحل',
+  cancelled: 'ملغي'
+}
+
+export const stockCountReasonLabels: Record<StockCountReason, string> = {
+  lost: 'مفقود',
+  damaged: 'تالف',
+  sold_unrecorded: 'مباع بدون تسجيل',
+  misplaced: 'مسجل في مخزن آخر',
+  other: 'سبب آخر'
+}
+
+// الأصناف الموجودة فعلياً في المخزن (المباع والمشطوب خرج منه)
+const countedStatuses = ['available', 'reserved', 'transferred']
+
+const matchesScan = (item: StockCountExpectedItem, value: string) =>
+  normalizeIdentifier(item.chassisNumber || '') === value || normalizeIdentifier(item.motorFingerprint || '') === value
+
+// تصنيف الجرد: موجود ومسجل، مسجل وغير موجود، وموجود وغير مسجل على المخزن
+export function classifyStockCount(count: Pick<StockCount, 'expectedItems' | 'scans'>): StockCountVariance {
+  const scannedIds = new Set(count.scans.map(scan => scan.inventoryItemId).filter(Boolean))
+  const expectedIds = new Set(count.expectedItems.map(item => item.inventoryItemId))
+
+  return {
+    found: count.expectedItems.filter(item => scannedIds.has(item.inventoryItemId)),
+    missing: count.expectedItems.filter(item => !scannedIds.has(item.inventoryItemId)),
+    unexpected: count.scans.filter(scan => !scan.inventoryItemId || !expectedIds.has(scan.inventoryItemId))
+  }
+}
+
+export function summarizeStockCount(
+  count: Pick<StockCount, 'expectedItems' | 'scans'>,
+  adjustments: StockCountAdjustment[]
+): StockCountSummary {
+  const variance = classifyStockCount(count)
+  return {
+    expected: count.expectedItems.length,
+    found: variance.found.length,
+    missing: variance.missing.length,
+    unexpected: variance.unexpected.length,
+    missingValue: variance.missing.reduce((sum, item) => sum + (item.purchasePrice || 0), 0),
+    writtenOff: adjustments.filter(adjustment => adjustment.action === 'write_off').length,
+    relocated: adjustments.filter(adjustment => adjustment.action === 'relocate').length
+  }
+}
+
+export class StockCountService {
+
+  // بدء جرد جديد بلقطة من الأصناف المسجلة على المخزن، ولا يسمح بجردين مفتوحين لنفس المخزن
+  static async startCount(warehouse: Warehouse, userId: string, userName?: string): Promise<StockCountResult> {
+    try {
+      const openCounts = await getDocs(query(
+        collection(db, 'stock_counts'),
+        where('warehouseId', '==', warehouse.id),
+        where('status', '==', 'in_progress')
+      ))
+      if (!openCounts.empty) {
+        return { success: false, countId: openCounts.docs[0].id, error: 'يوجد جرد مفتوح لهذا المخزن بالفعل' }
+      }
+
+      const itemsSnapshot = await getDocs(query(
+        collection(db, 'inventory_items'),
+        where('currentWarehouseId', '==', warehouse.id)
+      ))
+      const expectedItems: StockCountExpectedItem[] = itemsSnapshot.docs
+        .map(itemDoc => ({ id: itemDoc.id, ...itemDoc.data() }) as InventoryItem)
+        // الوحدات في الطريق على إذن تحويل ليست في المخزن فعلياً
+        .filter(item => countedStatuses.includes(item.status) && !item.inTransitNoteId)
+        .map(item => ({
+          inventoryItemId: item.id,
+          chassisNumber: item.chassisNumber || '',
+          motorFingerprint: item.motorFingerprint || '',
+          brand: item.brand || '',
+          model: item.model || '',
+          status: item.status,
+          purchasePrice: item.purchasePrice || 0
+        }))
+
+      const countRef = await addDoc(collection(db, 'stock_counts'), {
+        warehouseId: warehouse.id,
+        warehouseName: warehouse.name,
+        status: 'in_progress',
+        expectedItems,
+        scans: [],
+        startedAt: serverTimestamp(),
+        startedBy: userId,
+        ...(userName ? { startedByName: userName } : {})
+      })
+
+      return { success: true, countId: countRef.id }
+    } catch (error) {
+      console.error('Error starting stock count:', error)
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'فشل في بدء الجرد'
+      }
+    }
+  }
+
+  static async getCount(countId: string): Promise<StockCount | null> {
+    const countDoc = await getDoc(doc(db, 'stock_counts', countId))
+    return countDoc.exists() ? { id: countDoc.id, ...countDoc.data() } as StockCount : null
+  }
+
+  // سجل الجرد، الأحدث أولاً
+  static async getCounts(warehouseId?: string): Promise<StockCount[]> {
+    const snapshot = await getDocs(warehouseId
+      ? query(collection(db, 'stock_counts'), where('warehouseId', '==', warehouseId))
+      : collection(db, 'stock_counts'))
+
+    return snapshot.docs
+      .map(countDoc => ({ id: countDoc.id, ...countDoc.data() }) as StockCount)
+      .sort((a, b) => (b.startedAt?.toMillis?.() || 0) - (a.startedAt?.toMillis?.() || 0))
+  }
+
+  // تسجيل رقم شاسيه أو بصمة موتور تم العثور عليه في المخزن
+  static async recordScan(count: StockCount, rawValue: string, userId: string): Promise<StockCountResult & { scan?: StockCountScan }> {
+    const value = normalizeIdentifier(rawValue)
+    if (!value) {
+      return { success: false, error: 'يرجى إدخال رقم الشاسيه أو بصمة الموتور' }
+    }
+    if (count.status !== 'in_progress') {
+      return { success: false, error: 'هذا الجرد مغلق' }
+    }
+
+    const expected = count.expectedItems.find(item => matchesScan(item, value))
+    if (count.scans.some(scan => scan.value === value ||
+      (expected && scan.inventoryItemId === expected.inventoryItemId))) {
+      return { success: false, error: 'تم تسجيل هذا الرقم في الجرد من قبل' }
+    }
+
+    try {
+      let scan: StockCountScan = { value, scannedAt: Timestamp.now(), scannedBy: userId }
+
+      if (expected) {
+        scan = { ...scan, inventoryItemId: expected.inventoryItemId, brand: expected.brand, model: expected.model }
+      } else {
+        // رقم غير مسجل على المخزن: نبحث عنه في باقي المخزون لمعرفة مكانه المسجل
+        for (const field of ['chassisNumber', 'motorFingerprint']) {
+          const snapshot = await getDocs(query(collection(db, 'inventory_items'), where(field, '==', value)))
+          if (!snapshot.empty) {
+            const item = { id: snapshot.docs[0].id, ...snapshot.docs[0].data() } as InventoryItem
+            scan = {
+              ...scan,
+              inventoryItemId: item.id,
+              currentWarehouseId: item.currentWarehouseId,
+              status: item.status,
+              brand: item.brand,
+              model: item.model,
+              purchasePrice: item.purchasePrice || 0
+            }
+            break
+          }
+        }
+      }
+
+      await updateDoc(doc(db, 'stock_counts', count.id), { scans: arrayUnion(scan) })
+      return { success: true, scan }
+    } catch (error) {
+      console.error('Error recording stock count scan:', error)
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'فشل في تسجيل الرقم'
+      }
+    }
+  }
+
+  static async removeScan(countId: string, scan: StockCountScan): Promise<StockCountResult> {
+    try {
+      await updateDoc(doc(db, 'stock_counts', countId), { scans: arrayRemove(scan) })
+      return { success: true }
+    } catch (error) {
+      console.error('Error removing stock count scan:', error)
+      return { success: false, error: 'فشل في حذف الرقم من الجرد' }
+    }
+  }
+
+  static async cancelCount(countId: string, userId: string): Promise<StockCountResult> {
+    try {
+      await updateDoc(doc(db, 'stock_counts', countId), {
+        status: 'cancelled',
+        cancelledAt: serverTimestamp(),
+        cancelledBy: userId
+      })
+      return { success: true }
+    } catch (error) {
+      console.error('Error cancelling stock count:', error)
+      return { success: false, error: 'فشل في إلغاء الجرد' }
+    }
+  }
+
+  // ترحيل الجرد: شطب المفقود ونقل الموجود المسجل على مخزن آخر، مع معاملة تسوية واحدة للجرد
+  static async postCount(countId: string, adjustments: StockCountAdjustment[], userId: string): Promise<StockCountResult> {
+    try {
+      const countRef = doc(db, 'stock_counts', countId)
+      // الحقول الفارغة لا تحفظ في Firestore
+      adjustments = adjustments.map(adjustment => Object.fromEntries(
+        Object.entries(adjustment).filter(([, value]) => value !== undefined && value !== '')
+      ) as unknown as StockCountAdjustment)
+      const actionable = adjustments.filter(adjustment => adjustment.action !== 'none' && adjustment.inventoryItemId)
+      const missingReason = actionable.find(adjustment => !adjustment.reason)
+      if (missingReason) {
+        return { success: false, error: `يرجى تحديد سبب التسوية للرقم ${missingReason.value}` }
+      }
+
+      await runTransaction(db, async (transaction) => {
+        const countDoc = await transaction.get(countRef)
+        if (!countDoc.exists()) {
+          throw new Error('الجرد غير موجود')
+        }
+        const count = { id: countDoc.id, ...countDoc.data() } as StockCount
+        if (count.status !== 'in_progress') {
+          throw new Error('تم ترحيل أو إلغاء هذا الجرد من قبل')
+        }
+
+        const itemDocs = await Promise.all(actionable.map(adjustment =>
+          transaction.get(doc(db, 'inventory_items', adjustment.inventoryItemId!))))
+
+        // النقل من أو إلى مخزن وكيل يغير مديونيته، فيتم بإذن تحويل وليس بتسوية جرد
+        const relocations = actionable.filter(adjustment => adjustment.action === 'relocate')
+        if (relocations.length > 0) {
+          const warehouseIds = new Set([count.warehouseId])
+          itemDocs.forEach((itemDoc, index) => {
+            if (actionable[index].action === 'relocate' && itemDoc.exists()) {
+              warehouseIds.add(itemDoc.data().currentWarehouseId)
+            }
+          })
+          const warehouseDocs = await Promise.all([...warehouseIds].map(id => transaction.get(doc(db, 'warehouses', id))))
+          if (warehouseDocs.some(warehouseDoc => warehouseDoc.exists() && warehouseDoc.data().type === 'agent')) {
+            throw new Error('نقل الأصناف من أو إلى مخزن وكيل يتم من شاشة التحويل بين المخازن')
+          }
+        }
+
+        const adjustedItems: { inventoryItemId: string, motorFingerprint: string, chassisNumber: string }[] = []
+        const noteLines: string[] = []
+
+        itemDocs.forEach((itemDoc, index) => {
+          const adjustment = actionable[index]
+          if (!itemDoc.exists()) {
+            throw new Error(`الصنف ${adjustment.value} غير موجود`)
+          }
+          const item = itemDoc.data() as InventoryItem
+
+          if (adjustment.action === 'write_off') {
+            if (item.status === 'reserved') {
+              throw new Error(`الصنف ${adjustment.value} محجوز لعميل، يرجى إلغاء الحجز قبل شطبه`)
+            }
+            if (item.currentWarehouseId !== count.warehouseId || !['available', 'transferred'].includes(item.status) || item.inTransitNoteId) {
+              throw new Error(`تغيرت حالة الصنف ${adjustment.value} منذ بدء الجرد، يرجى مراجعته`)
+            }
+            transaction.update(itemDoc.ref, {
+              status: 'written_off',
+              writeOff: {
+                stockCountId: countId,
+                reason: adjustment.reason,
+                ...(adjustment.notes ? { notes: adjustment.notes } : {}),
+                writtenOffAt: Timestamp.now(),
+                writtenOffBy: userId
+              },
+              updatedAt: serverTimestamp()
+            })
+            noteLines.push(`شطب ${adjustment.value}: ${stockCountReasonLabels[adjustment.reason!]}`)
+          } else {
+            if (item.inTransitNoteId) {
+              throw new Error(`الصنف ${adjustment.value} في الطريق على إذن تحويل ولا يمكن نقله قبل استلامه`)
+            }
+            if (!countedStatuses.includes(item.status)) {
+              throw new Error(`الصنف ${adjustment.value} مسجل كمباع أو مشطوب ولا يمكن نقله`)
+            }
+            transaction.update(itemDoc.ref, {
+              currentWarehouseId: count.warehouseId,
+              warehouseName: count.warehouseName,
+              updatedAt: serverTimestamp()
+            })
+            noteLines.push(`نقل ${adjustment.value} من مخزن آخر: ${stockCountReasonLabels[adjustment.reason!]}`)
+          }
+
+          adjustedItems.push({
+            inventoryItemId: itemDoc.id,
+            motorFingerprint: item.motorFingerprint || '',
+            chassisNumber: item.chassisNumber || ''
+          })
+        })
+
+        let adjustmentTransactionId: string | undefined
+        if (adjustedItems.length > 0) {
+          adjustmentTransactionId = generateTransactionId('stock_adjustment')
+          transaction.set(doc(collection(db, 'transactions')), {
+            id: adjustmentTransactionId,
+            type: 'stock_adjustment',
+            date: serverTimestamp(),
+            userId,
+            referenceNumber: adjustmentTransactionId,
+            items: adjustedItems,
+            totalAmount: 0,
+            toWarehouseId: count.warehouseId,
+            details: {
+              notes: `تسوية جرد ${count.warehouseName}\n${noteLines.join('\n')}`
+            },
+            createdAt: serverTimestamp(),
+            updatedAt: serverTimestamp()
+          })
+        }
+
+        transaction.update(countRef, {
+          status: 'posted',
+          adjustments,
+          summary: summarizeStockCount(count, adjustments),
+          ...(adjustmentTransactionId ? { adjustmentTransactionId } : {}),
+          postedAt: serverTimestamp(),
+          postedBy: userId
+        })
+      })
+
+      return { success: true, countId }
+    } catch (error) {
+      console.error('Error posting stock count:', error)
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'فشل في ترحيل الجرد'
+      }
+    }
+  }
+}
@@ -0,0 +1,366 @@
+// مرتجعات الوكلاء: الوكيل يطلب إرجاع وحدات غير مباعة، والمدير يعتمد فتعود للشركة ويخصم من مديونية الوكيل نفس السعر الذي حمل عليه عند التحويل
+
+import {
+  collection,
+  deleteField,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  where,
+  runTransaction,
+  serverTimestamp
+} from 'firebase/firestore'
+import { db } from '../firebase/firebase-config.template'
+import { DocumentNumberingService } from './documentNumbering'
+import { GeneralLedgerService, agentStockLines, reverseLines } from './generalLedger'
+import { notificationSystem } from './notificationSystem'
+import { generateTransactionId } from './utils'
+import {
+  Agent,
+  InventoryItem,
+  StockReturnItem,
+  StockReturnRequest,
+  StockReturnStatus,
+  Warehouse
+} from '../types'
+
+export interface StockReturnItemInput {
+  inventoryItemId: string
+  conditionNotes?: string
+  photoUrls: string[]
+}
+
+export interface StockReturnResult {
+  success: boolean
+  error?: string
+  id?: string
+  number?: string
+}
+
+export const stockReturnStatusLabels: Record<StockReturnStatus, string> = {
+  pending: 'بانتظار الاعتماد',
+  approved: 'معتمد',
+  rejected: 'مرفوض',
+  cancelled: 'ملغي'
+}
+
+export const stockReturnStatusColors: Record<StockReturnStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  approved: 'bg-green-100 text-green-800',
+  rejected: 'bg-red-100 text-red-800',
+  cancelled: 'bg-gray-100 text-gray-800'
+}
+
+export const STOCK_RETURN_MAX_ITEMS = 50
+
+const roundAmount = (value: number) => Math.round(value * 100) / 100
+
+const errorMessage = (error: unknown, fallback: string) => error instanceof Error ? error.message : fallback
+
+const chunk = <T,>(values: T[], size: number): T[][] =>
+  Array.from({ length: Math.ceil(values.length / size) }, (_, index) => values.slice(index * size, (index + 1) * size))
+
+export class StockReturnService {
+
+  static async getRequests(agentId?: string): Promise<StockReturnRequest[]> {
+    try {
+      const snapshot = await getDocs(agentId
+        ? query(collection(db, 'stock_returns'), where('agentId', '==', agentId))
+        : collection(db, 'stock_returns'))
+      return snapshot.docs
+        .map(requestDoc => ({ id: requestDoc.id, ...requestDoc.data() }) as StockReturnRequest)
+        .sort((a, b) => (b.requestedAt?.toMillis?.() || 0) - (a.requestedAt?.toMillis?.() || 0))
+    } catch (error) {
+      console.error('Error loading stock returns:', error)
+      return []
+    }
+  }
+
+  // آخر تحويل للوحدة إلى مخزن الوكيل يحدد السعر الذي قيد على مديونيته
+  static async getChargedPrices(items: InventoryItem[], warehouseId: string): Promise<Map<string, { price: number, transferNoteNumber?: string }>> {
+    const snapshots = await Promise.all(chunk(items.map(item => item.id), 10).map(ids =>
+      getDocs(query(collection(db, 'warehouse_transfers'), where('inventoryItemId', 'in', ids)))))
+
+    const charged = new Map<string, { price: number, transferNoteNumber?: string, at: number }>()
+    snapshots.flatMap(snapshot => snapshot.docs).forEach(transferDoc => {
+      const data = transferDoc.data()
+      if (data.toWarehouseId !== warehouseId) return
+      const at = data.transferredAt?.toMillis?.() || data.createdAt?.toMillis?.() || 0
+      const current = charged.get(data.inventoryItemId)
+      if (!current || at > current.at) {
+        charged.set(data.inventoryItemId, {
+          price: Number(data.transferPrice ?? data.purchasePrice) || 0,
+          transferNoteNumber: data.transferNoteNumber,
+          at
+        })
+      }
+    })
+
+    // الوحدات المحولة قبل تسجيل التحويلات تعود بالسعر المحفوظ على الوحدة أو سعر الشراء الحالي
+    return new Map(items.map(item => {
+      const entry = charged.get(item.id)
+      return [item.id, entry
+        ? { price: entry.price, transferNoteNumber: entry.transferNoteNumber }
+        : { price: Number(item.agentTransferPrice ?? item.purchasePrice) || 0 }]
+    }))
+  }
+
+  static async createRequest(agent: Pick<Agent, 'id' | 'name' | 'warehouseId'>, inputs: StockReturnItemInput[], notes: string, userId: string): Promise<StockReturnResult> {
+    try {
+      if (inputs.length === 0) {
+        return { success: false, error: 'اختر وحدة واحدة على الأقل للإرجاع' }
+      }
+      if (inputs.length > STOCK_RETURN_MAX_ITEMS) {
+        return { success: false, error: `الحد الأقصى ${STOCK_RETURN_MAX_ITEMS} وحدة في طلب الإرجاع الواحد` }
+      }
+
+      const itemDocs = await Promise.all(inputs.map(input => getDoc(doc(db, 'inventory_items', input.inventoryItemId))))
+      const items = itemDocs.map(itemDoc => ({ id: itemDoc.id, ...itemDoc.data() }) as InventoryItem)
+      const chargedPrices = await this.getChargedPrices(items, agent.warehouseId)
+
+      const requestRef = doc(collection(db, 'stock_returns'))
+
+      const request = await runTransaction(db, async (transaction) => {
+        const freshDocs = await Promise.all(items.map(item => transaction.get(doc(db, 'inventory_items', item.id))))
+
+        const returnItems: StockReturnItem[] = freshDocs.map((itemDoc, index) => {
+          const item = itemDoc.exists() ? { id: itemDoc.id, ...itemDoc.data() } as InventoryItem : null
+          if (!item || item.currentWarehouseId !== agent.warehouseId || item.status !== 'available' || item.returnRequestId) {
+            throw new Error(`الوحدة ${item?.chassisNumber || itemDoc.id} غير متاحة للإرجاع`)
+          }
+          const charged = chargedPrices.get(item.id)
+          const conditionNotes = inputs[index].conditionNotes?.trim()
+          return {
+            inventoryItemId: item.id,
+            motorFingerprint: item.motorFingerprint,
+            chassisNumber: item.chassisNumber,
+            brand: item.brand,
+            model: item.model,
+            color: item.color || '',
+            chargedPrice: charged?.price || 0,
+            ...(charged?.transferNoteNumber ? { transferNoteNumber: charged.transferNoteNumber } : {}),
+            ...(conditionNotes ? { conditionNotes } : {}),
+            photoUrls: inputs[index].photoUrls
+          }
+        })
+
+        // الوحدة المطلوب إرجاعها تتوقف عن البيع والتحويل حتى قرار المدير
+        freshDocs.forEach(itemDoc => {
+          transaction.update(itemDoc.ref, {
+            returnRequestId: requestRef.id,
+            updatedAt: serverTimestamp()
+          })
+        })
+
+        const totalCredit = roundAmount(returnItems.reduce((sum, item) => sum + item.chargedPrice, 0))
+        transaction.set(requestRef, {
+          agentId: agent.id,
+          agentName: agent.name,
+          fromWarehouseId: agent.warehouseId,
+          items: returnItems,
+          totalCredit,
+          status: 'pending',
+          ...(notes.trim() ? { notes: notes.trim() } : {}),
+          requestedAt: serverTimestamp(),
+          requestedBy: userId
+        })
+
+        return { itemCount: returnItems.length, totalCredit }
+      })
+
+      notificationSystem.notifyStockReturnRequest({
+        requestId: requestRef.id,
+        agentName: agent.name,
+        itemCount: request.itemCount,
+        totalCredit: request.totalCredit,
+        requestedBy: userId
+      }).catch(error => console.error('Error notifying stock return request:', error))
+
+      return { success: true, id: requestRef.id }
+    } catch (error) {
+      console.error('Error creating stock return request:', error)
+      return { success: false, error: errorMessage(error, 'فشل في إرسال طلب الإرجاع') }
+    }
+  }
+
+  // الاعتماد ينقل الوحدات لمخزن الشركة ويقيد إشعاراً دائناً للوكيل بإجمالي الأسعار المحملة عليه
+  static async approveRequest(requestId: string, toWarehouseId: string, decisionNotes: string, userId: string): Promise<StockReturnResult> {
+    try {
+      if (!toWarehouseId) {
+        return { success: false, error: 'يرجى اختيار مخزن الاستلام' }
+      }
+
+      const requestRef = doc(db, 'stock_returns', requestId)
+
+      const result = await runTransaction(db, async (transaction) => {
+        const requestDoc = await transaction.get(requestRef)
+        if (!requestDoc.exists()) {
+          throw new Error('طلب الإرجاع غير موجود')
+        }
+        const request = { id: requestDoc.id, ...requestDoc.data() } as StockReturnRequest
+        if (request.status !== 'pending') {
+          throw new Error('تم البت في طلب الإرجاع من قبل')
+        }
+
+        const warehouseDoc = await transaction.get(doc(db, 'warehouses', toWarehouseId))
+        const warehouse = warehouseDoc.exists() ? { id: warehouseDoc.id, ...warehouseDoc.data() } as Warehouse : null
+        if (!warehouse || warehouse.type === 'agent') {
+          throw new Error('يجب أن يكون مخزن الاستلام من مخازن الشركة')
+        }
+
+        const agentRef = doc(db, 'agents', request.agentId)
+        const agentDoc = await transaction.get(agentRef)
+        if (!agentDoc.exists()) {
+          throw new Error('الوكيل غير موجود')
+        }
+        const agent = agentDoc.data() as Agent
+
+        const itemRefs = request.items.map(item => doc(db, 'inventory_items', item.inventoryItemId))
+        const itemDocs = await Promise.all(itemRefs.map(itemRef => transaction.get(itemRef)))
+        itemDocs.forEach((itemDoc, index) => {
+          const data = itemDoc.data()
+          if (!itemDoc.exists() || data?.returnRequestId !== request.id || data?.currentWarehouseId !== request.fromWarehouseId) {
+            throw new Error(`تغيرت حالة الوحدة ${request.items[index].chassisNumber} منذ طلب الإرجاع`)
+          }
+        })
+
+        const number = await DocumentNumberingService.allocate(transaction, 'stock_return')
+
+        request.items.forEach((item, index) => {
+          transaction.update(itemRefs[index], {
+            currentWarehouseId: warehouse.id,
+            warehouseName: warehouse.name,
+            returnRequestId: deleteField(),
+            agentCommissionPercentage: deleteField(),
+            agentTransferPrice: deleteField(),
+            updatedAt: serverTimestamp()
+          })
+          transaction.set(doc(collection(db, 'warehouse_transfers')), {
+            transactionId: generateTransactionId('warehouse_transfer'),
+            stockReturnId: request.id,
+            transferNoteNumber: number,
+            fromWarehouseId: request.fromWarehouseId,
+            toWarehouseId: warehouse.id,
+            inventoryItemId: item.inventoryItemId,
+            motorFingerprint: item.motorFingerprint,
+            chassisNumber: item.chassisNumber,
+            brand: item.brand,
+            model: item.model,
+            purchasePrice: Number(itemDocs[index].data()?.purchasePrice) || 0,
+            transferPrice: item.chargedPrice,
+            agentCommissionPercentage: 0,
+            notes: item.conditionNotes || '',
+            transferredBy: userId,
+            transferredAt: serverTimestamp(),
+            createdAt: serverTimestamp()
+          })
+        })
+
+        // الرصيد السالب مديونية على الوكيل، والإرجاع يعكس قيد تسليم البضاعة له
+        const returnedCost = roundAmount(itemDocs.reduce((sum, itemDoc) => sum + (Number(itemDoc.data()?.purchasePrice) || 0), 0))
+        const posted = GeneralLedgerService.post(transaction, {
+          source: 'stock_return',
+          sourceId: request.id,
+          reference: number,
+          description: `مرتجع ${request.items.length} موتوسيكل من ${request.agentName} إلى ${warehouse.name}`,
+          lines: reverseLines(agentStockLines(request.agentId, request.totalCredit, returnedCost)),
+          postedBy: userId
+        }, { [request.agentId]: { ref: agentRef, balance: Number(agent.currentBalance) || 0 } })
+        const { previousBalance, newBalance } = posted.balances[request.agentId]
+        transaction.set(doc(collection(db, 'agent_transactions')), {
+          transactionId: generateTransactionId('agent_debt'),
+          agentId: request.agentId,
+          type: 'debt_decrease',
+          amount: request.totalCredit,
+          description: `مرتجع ${request.items.length} موتوسيكل إلى ${warehouse.name} - ${number}`,
+          previousBalance,
+          newBalance,
+          stockReturnId: request.id,
+          journalEntryId: posted.entryId,
+          createdBy: userId,
+          createdAt: serverTimestamp()
+        })
+
+        transaction.update(requestRef, {
+          status: 'approved',
+          returnNumber: number,
+          toWarehouseId: warehouse.id,
+          ...(decisionNotes.trim() ? { decisionNotes: decisionNotes.trim() } : {}),
+          decidedAt: serverTimestamp(),
+          decidedBy: userId
+        })
+
+        return { number, request, agentUserId: agent.userId }
+      })
+
+      if (result.agentUserId) {
+        notificationSystem.notifyStockReturnDecision({
+          recipientId: result.agentUserId,
+          approved: true,
+          itemCount: result.request.items.length,
+          returnNumber: result.number
+        }).catch(error => console.error('Error notifying stock return decision:', error))
+      }
+
+      return { success: true, id: requestId, number: result.number }
+    } catch (error) {
+      console.error('Error approving stock return:', error)
+      return { success: false, error: errorMessage(error, 'فشل في اعتماد طلب الإرجاع') }
+    }
+  }
+
+  // الرفض من المدير أو الإلغاء من الوكيل يعيد الوحدات متاحة للبيع في مخزن الوكيل
+  static async closeRequest(requestId: string, status: 'rejected' | 'cancelled', decisionNotes: string, userId: string): Promise<StockReturnResult> {
+    try {
+      const requestRef = doc(db, 'stock_returns', requestId)
+
+      const result = await runTransaction(db, async (transaction) => {
+        const requestDoc = await transaction.get(requestRef)
+        if (!requestDoc.exists()) {
+          throw new Error('طلب الإرجاع غير موجود')
+        }
+        const request = { id: requestDoc.id, ...requestDoc.data() } as StockReturnRequest
+        if (request.status !== 'pending') {
+          throw new Error('تم البت في طلب الإرجاع من قبل')
+        }
+
+        const agentDoc = status === 'rejected' ? await transaction.get(doc(db, 'agents', request.agentId)) : null
+        const itemRefs = request.items.map(item => doc(db, 'inventory_items', item.inventoryItemId))
+        const itemDocs = await Promise.all(itemRefs.map(itemRef => transaction.get(itemRef)))
+
+        itemDocs.forEach(itemDoc => {
+          if (itemDoc.exists() && itemDoc.data().returnRequestId === request.id) {
+            transaction.update(itemDoc.ref, {
+              returnRequestId: deleteField(),
+              updatedAt: serverTimestamp()
+            })
+          }
+        })
+
+        transaction.update(requestRef, {
+          status,
+          ...(decisionNotes.trim() ? { decisionNotes: decisionNotes.trim() } : {}),
+          decidedAt: serverTimestamp(),
+          decidedBy: userId
+        })
+
+        return { request, agentUserId: (agentDoc?.data() as Agent | undefined)?.userId }
+      })
+
+      if (status === 'rejected' && result.agentUserId) {
+        notificationSystem.notifyStockReturnDecision({
+          recipientId: result.agentUserId,
+          approved: false,
+          itemCount: result.request.items.length,
+          decisionNotes
+        }).catch(error => console.error('Error notifying stock return decision:', error))
+      }
+
+      return { success: true, id: requestId }
+    } catch (error) {
+      console.error('Error closing stock return:', error)
+      return { success: false, error: errorMessage(error, 'فشل في تحديث طلب الإرجاع') }
+    }
+  }
+}
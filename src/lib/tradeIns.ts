@@ -0,0 +1,139 @@
+// استبدال المستعمل: موتوسيكل العميل القديم يخصم من الفاتورة ويدخل المخزن كصنف مستعمل بتكلفة القيمة المتفق عليها
+
+import {
+  collection,
+  doc,
+  serverTimestamp,
+  Transaction
+} from 'firebase/firestore'
+import { db } from '../firebase/firebase-config.template'
+import { generateTransactionId } from './utils'
+import { InventoryIdentifierService } from './inventoryIdentifiers'
+import { SaleSource, TradeIn, VehicleType } from '../types'
+
+export interface TradeInInput {
+  type: VehicleType
+  brand: string
+  model: string
+  color?: string
+  manufacturingYear?: number
+  chassisNumber: string
+  motorFingerprint: string
+  motorFingerprintImageUrl?: string
+  chassisNumberImageUrl?: string
+  conditionNotes: string
+  agreedValue: number
+}
+
+export const emptyTradeIn = (): TradeInInput => ({
+  type: 'motorcycle',
+  brand: '',
+  model: '',
+  chassisNumber: '',
+  motorFingerprint: '',
+  conditionNotes: '',
+  agreedValue: 0
+})
+
+// التحقق من بيانات المستعمل قبل الحفظ، وقيمته لا تتجاوز المبلغ المستحق على العميل
+export function validateTradeIn(input: TradeInInput, amountDue: number): string | null {
+  if (!input.brand.trim() || !input.model.trim()) {
+    return 'يرجى إدخال ماركة وموديل المستعمل'
+  }
+  if (!input.chassisNumber.trim() || !input.motorFingerprint.trim()) {
+    return 'يرجى تصوير رقم الشاسيه وبصمة الموتور للمستعمل'
+  }
+  if (!input.conditionNotes.trim()) {
+    return 'يرجى كتابة ملاحظات حالة المستعمل'
+  }
+  if (!(input.agreedValue > 0)) {
+    return 'يرجى إدخال القيمة المتفق عليها للمستعمل'
+  }
+  if (input.agreedValue > amountDue) {
+    return 'قيمة المستعمل أكبر من المبلغ المستحق على الفاتورة'
+  }
+  return null
+}
+
+export class TradeInService {
+
+  // التحقق من أن أرقام المستعمل غير مسجلة، ويستدعى قبل أي كتابة في معاملة البيع
+  static async checkIdentifiers(transaction: Transaction, input: TradeInInput): Promise<void> {
+    await InventoryIdentifierService.check(transaction, [input])
+  }
+
+  // إدخال المستعمل في المخزن داخل معاملة البيع نفسها، ويعيد بياناته لتحفظ على الفاتورة
+  static receive(
+    transaction: Transaction,
+    input: TradeInInput,
+    sale: { saleId: string, saleSource: SaleSource, invoiceNumber: string },
+    warehouseId: string,
+    userId: string
+  ): TradeIn {
+    const itemRef = doc(collection(db, 'inventory_items'))
+    const entryTransactionId = generateTransactionId('warehouse_entry')
+
+    transaction.set(itemRef, {
+      motorFingerprint: input.motorFingerprint.trim(),
+      chassisNumber: input.chassisNumber.trim(),
+      motorFingerprintImageUrl: input.motorFingerprintImageUrl || '',
+      chassisNumberImageUrl: input.chassisNumberImageUrl || '',
+      type: input.type,
+      model: input.model.trim(),
+      color: input.color || '',
+      brand: input.brand.trim(),
+      countryOfOrigin: '',
+      manufacturingYear: input.manufacturingYear || 0,
+      purchasePrice: input.agreedValue,
+      salePrice: input.agreedValue,
+      condition: 'used',
+      conditionNotes: input.conditionNotes.trim(),
+      tradeInSaleId: sale.saleId,
+      tradeInSaleSource: sale.saleSource,
+      currentWarehouseId: warehouseId,
+      status: 'available',
+      entryTransactionId,
+      createdAt: serverTimestamp(),
+      updatedAt: serverTimestamp(),
+      createdBy: userId
+    })
+
+    InventoryIdentifierService.reserve(transaction, itemRef.id, input)
+
+    transaction.set(doc(collection(db, 'transactions')), {
+      id: entryTransactionId,
+      type: 'warehouse_entry',
+      date: serverTimestamp(),
+      userId,
+      referenceNumber: entryTransactionId,
+      items: [{
+        inventoryItemId: itemRef.id,
+        motorFingerprint: input.motorFingerprint.trim(),
+        chassisNumber: input.chassisNumber.trim()
+      }],
+      totalAmount: input.agreedValue,
+      toWarehouseId: warehouseId,
+      details: {
+        notes: `استلام مستعمل ${input.brand} ${input.model} كجزء من ثمن الفاتورة ${sale.invoiceNumber}`
+      },
+      createdAt: serverTimestamp(),
+      updatedAt: serverTimestamp()
+    })
+
+    return {
+      inventoryItemId: itemRef.id,
+      type: input.type,
+      brand: input.brand.trim(),
+      model: input.model.trim(),
+      ...(input.color ? { color: input.color } : {}),
+      ...(input.manufacturingYear ? { manufacturingYear: input.manufacturingYear } : {}),
+      chassisNumber: input.chassisNumber.trim(),
+      motorFingerprint: input.motorFingerprint.trim(),
+      ...(input.motorFingerprintImageUrl ? { motorFingerprintImageUrl: input.motorFingerprintImageUrl } : {}),
+      ...(input.chassisNumberImageUrl ? { chassisNumberImageUrl: input.chassisNumberImageUrl } : {}),
+      conditionNotes: input.conditionNotes.trim(),
+      agreedValue: input.agreedValue,
+      warehouseId
+    }
+  }
+}
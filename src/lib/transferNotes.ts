@@ -0,0 +1,462 @@
+// أذون التحويل على مرحلتين: الوحدات تخرج من المخزن المصدر كـ"في الطريق"، ولا تنتقل ملكيتها ولا تقيد مديونية الوكيل إلا بعد تأكيد الاستلام
+
+import {
+  collection,
+  deleteField,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  where,
+  runTransaction,
+  serverTimestamp,
+  DocumentReference,
+  Timestamp,
+  Transaction
+} from 'firebase/firestore'
+import { db } from '../firebase/firebase-config.template'
+import { DocumentNumberingService } from './documentNumbering'
+import { ReorderLevelService } from './reorderLevels'
+import { TransferItemPricing } from './agentPricing'
+import { GeneralLedgerService, agentStockLines, reverseLines } from './generalLedger'
+import { AgentCreditService, CreditOverrideInput, evaluateAgentCredit } from './agentCredit'
+import { notificationSystem } from './notificationSystem'
+import { generateTransactionId } from './utils'
+import {
+  Agent,
+  InventoryItem,
+  JournalLine,
+  TransferNote,
+  TransferNoteItem,
+  TransferNoteStatus,
+  TransferReceiptOutcome,
+  Warehouse
+} from '../types'
+
+export interface TransferDispatchInput {
+  fromWarehouseId: string
+  toWarehouseId: string
+  itemIds: string[]
+  pricing: Record<string, TransferItemPricing> // سعر التحويل ونسبة العمولة لكل وحدة عند التحويل لوكيل
+  creditOverride?: CreditOverrideInput // سبب تجاوز المدير العام لحد ائتمان الوكيل
+  driverName?: string
+  vehiclePlate?: string
+  notes?: string
+}
+
+export interface ReceiptConfirmation {
+  inventoryItemId: string
+  outcome: Exclude<TransferReceiptOutcome, 'pending'>
+  notes?: string
+}
+
+export interface TransferNoteResult {
+  success: boolean
+  error?: string
+  id?: string
+  number?: string
+}
+
+export const transferNoteStatusLabels: Record<TransferNoteStatus, string> = {
+  in_transit: 'في الطريق',
+  partially_received: 'استلام جزئي',
+  received: 'تم الاستلام'
+}
+
+export const transferNoteStatusColors: Record<TransferNoteStatus, string> = {
+  in_transit: 'bg-yellow-100 text-yellow-800',
+  partially_received: 'bg-blue-100 text-blue-800',
+  received: 'bg-green-100 text-green-800'
+}
+
+export const transferOutcomeLabels: Record<TransferReceiptOutcome, string> = {
+  pending: 'لم يستلم بعد',
+  received: 'مستلم',
+  damaged: 'تالف',
+  missing: 'مفقود'
+}
+
+export const TRANSFER_NOTE_MAX_ITEMS = 100
+
+const roundAmount = (value: number) => Math.round(value * 100) / 100
+
+const errorMessage = (error: unknown, fallback: string) => error instanceof Error ? error.message : fallback
+
+// الأذون السابقة لقواعد التسعير كانت تقيد المديونية بسعر الشراء
+export const transferPriceOf = (item: TransferNoteItem) => item.transferPrice ?? item.purchasePrice
+
+export class TransferNoteService {
+
+  static async getNotes(toWarehouseId?: string): Promise<TransferNote[]> {
+    try {
+      const snapshot = await getDocs(toWarehouseId
+        ? query(collection(db, 'transfer_notes'), where('toWarehouseId', '==', toWarehouseId))
+        : collection(db, 'transfer_notes'))
+      return snapshot.docs
+        .map(noteDoc => ({ id: noteDoc.id, ...noteDoc.data() }) as TransferNote)
+        .sort((a, b) => (b.dispatchedAt?.toMillis?.() || 0) - (a.dispatchedAt?.toMillis?.() || 0))
+    } catch (error) {
+      console.error('Error loading transfer notes:', error)
+      return []
+    }
+  }
+
+  static async getNote(noteId: string): Promise<TransferNote | null> {
+    const noteDoc = await getDoc(doc(db, 'transfer_notes', noteId))
+    return noteDoc.exists() ? { id: noteDoc.id, ...noteDoc.data() } as TransferNote : null
+  }
+
+  // إصدار إذن التحويل: الوحدات تبقى على المخزن المصدر بحالة "محول" حتى يؤكد المستلم
+  static async dispatch(input: TransferDispatchInput, user: { id: string, name?: string, role?: string }): Promise<TransferNoteResult> {
+    try {
+      if (!input.fromWarehouseId || !input.toWarehouseId) {
+        return { success: false, error: 'يرجى اختيار المخزن المصدر والمخزن الهدف' }
+      }
+      if (input.fromWarehouseId === input.toWarehouseId) {
+        return { success: false, error: 'لا يمكن التحويل إلى نفس المخزن' }
+      }
+      if (input.itemIds.length === 0) {
+        return { success: false, error: 'يرجى اختيار صنف واحد على الأقل للتحويل' }
+      }
+      if (input.itemIds.length > TRANSFER_NOTE_MAX_ITEMS) {
+        return { success: false, error: `الحد الأقصى ${TRANSFER_NOTE_MAX_ITEMS} وحدة في إذن التحويل الواحد` }
+      }
+
+      const noteRef = doc(collection(db, 'transfer_notes'))
+
+      // الأذون التي في الطريق وعمر المديونية تحسب من استعلامات لا تتم داخل المعاملة
+      const toWarehouseSnapshot = await getDoc(doc(db, 'warehouses', input.toWarehouseId))
+      const creditAgentId: string | undefined = toWarehouseSnapshot.data()?.agentId
+      const exposure = creditAgentId ? await AgentCreditService.getExposure(creditAgentId) : null
+
+      const result = await runTransaction(db, async (transaction) => {
+        const [fromDoc, toDoc] = await Promise.all([
+          transaction.get(doc(db, 'warehouses', input.fromWarehouseId)),
+          transaction.get(doc(db, 'warehouses', input.toWarehouseId))
+        ])
+        if (!fromDoc.exists() || !toDoc.exists()) {
+          throw new Error('المخزن غير موجود')
+        }
+        const fromWarehouse = { id: fromDoc.id, ...fromDoc.data() } as Warehouse
+        const toWarehouse = { id: toDoc.id, ...toDoc.data() } as Warehouse
+
+        const itemRefs = input.itemIds.map(itemId => doc(db, 'inventory_items', itemId))
+        const itemDocs = await Promise.all(itemRefs.map(itemRef => transaction.get(itemRef)))
+
+        // الأصناف المحجوزة أو المباعة أو التي في الطريق لا يمكن تحويلها
+        const items = itemDocs.map(itemDoc => {
+          const item = itemDoc.exists() ? { id: itemDoc.id, ...itemDoc.data() } as InventoryItem : null
+          if (!item || item.status !== 'available' || item.returnRequestId || item.currentWarehouseId !== input.fromWarehouseId) {
+            throw new Error(`لا يمكن تحويل أصناف محجوزة أو غير متاحة: ${item?.chassisNumber || itemDoc.id}`)
+          }
+          return item
+        })
+
+        const agentDoc = creditAgentId ? await transaction.get(doc(db, 'agents', creditAgentId)) : null
+
+        const number = await DocumentNumberingService.allocate(transaction, 'transfer_note')
+
+        // سعر التحويل يحفظ على الإذن مع القاعدة المطبقة، فتعديل القواعد لاحقاً لا يغير مديونية شحنة خرجت
+        const noteItems: TransferNoteItem[] = items.map(item => {
+          const pricing = toWarehouse.agentId ? input.pricing[item.id] : undefined
+          const purchasePrice = Number(item.purchasePrice) || 0
+          if (pricing && (!Number.isFinite(pricing.transferPrice) || pricing.transferPrice < 0)) {
+            throw new Error(`سعر التحويل غير صحيح للوحدة ${item.chassisNumber}`)
+          }
+          return {
+            inventoryItemId: item.id,
+            motorFingerprint: item.motorFingerprint,
+            chassisNumber: item.chassisNumber,
+            brand: item.brand,
+            model: item.model,
+            color: item.color || '',
+            purchasePrice,
+            transferPrice: pricing ? pricing.transferPrice : purchasePrice,
+            agentCommissionPercentage: Number(pricing?.commissionPercentage) || 0,
+            ...(pricing?.ruleId ? { pricingRuleId: pricing.ruleId } : {}),
+            ...(pricing ? { pricingRuleLabel: pricing.ruleLabel, priceOverridden: pricing.overridden } : {}),
+            outcome: 'pending'
+          }
+        })
+
+        // مديونية الوكيل بعد هذا الإذن لا تتجاوز حده إلا بتجاوز مسجل من المدير العام
+        let creditOverrideId: string | undefined
+        if (agentDoc?.exists() && exposure) {
+          const agent = { id: agentDoc.id, ...agentDoc.data() } as Agent
+          const amount = noteItems.reduce((sum, item) => sum + transferPriceOf(item), 0)
+          const check = evaluateAgentCredit(agent, exposure, amount)
+          AgentCreditService.assertOverrideAllowed(check, input.creditOverride, user)
+          if (check.status === 'blocked' && input.creditOverride) {
+            creditOverrideId = AgentCreditService.recordOverride(transaction, agent, check, {
+              source: 'transfer_note',
+              amount,
+              reason: input.creditOverride.reason,
+              referenceId: noteRef.id,
+              reference: number
+            }, user)
+          }
+        }
+
+        items.forEach((_, index) => {
+          transaction.update(itemRefs[index], {
+            status: 'transferred',
+            inTransitNoteId: noteRef.id,
+            updatedAt: serverTimestamp()
+          })
+        })
+
+        transaction.set(noteRef, {
+          transferNoteNumber: number,
+          fromWarehouseId: fromWarehouse.id,
+          fromWarehouseName: fromWarehouse.name,
+          toWarehouseId: toWarehouse.id,
+          toWarehouseName: toWarehouse.name,
+          ...(fromWarehouse.agentId ? { fromAgentId: fromWarehouse.agentId } : {}),
+          ...(toWarehouse.agentId ? { toAgentId: toWarehouse.agentId } : {}),
+          items: noteItems,
+          status: 'in_transit',
+          ...(input.driverName?.trim() ? { driverName: input.driverName.trim() } : {}),
+          ...(input.vehiclePlate?.trim() ? { vehiclePlate: input.vehiclePlate.trim() } : {}),
+          ...(input.notes?.trim() ? { notes: input.notes.trim() } : {}),
+          dispatchedAt: serverTimestamp(),
+          dispatchedBy: user.id,
+          ...(creditOverrideId ? { creditOverrideId } : {})
+        })
+
+        return { number, fromWarehouse, toWarehouse }
+      })
+
+      // المخزن المصدر قد ينزل تحت حد إعادة الطلب بمجرد خروج الوحدات
+      ReorderLevelService.checkWarehouses([input.fromWarehouseId])
+      this.notifyReceivingAgent(result.toWarehouse, result.fromWarehouse, input.itemIds.length, user)
+
+      return { success: true, id: noteRef.id, number: result.number }
+    } catch (error) {
+      console.error('Error dispatching transfer note:', error)
+      return { success: false, error: errorMessage(error, 'فشل في إصدار إذن التحويل') }
+    }
+  }
+
+  // تأكيد الاستلام وحدة بوحدة: المستلم ينتقل للمخزن الهدف وتقيد قيمته على الوكيل،
+  // التالف يعود للمخزن المصدر، والمفقود يشطب على إذن التحويل
+  static async confirmReceipt(noteId: string, confirmations: ReceiptConfirmation[], userId: string): Promise<TransferNoteResult> {
+    try {
+      if (confirmations.length === 0) {
+        return { success: false, error: 'حدد نتيجة استلام وحدة واحدة على الأقل' }
+      }
+
+      const noteRef = doc(db, 'transfer_notes', noteId)
+
+      const summary = await runTransaction(db, async (transaction) => {
+        const noteDoc = await transaction.get(noteRef)
+        if (!noteDoc.exists()) {
+          throw new Error('إذن التحويل غير موجود')
+        }
+        const note = { id: noteDoc.id, ...noteDoc.data() } as TransferNote
+
+        const noteItems = note.items.map(item => ({ ...item }))
+        const confirmed = confirmations.map(confirmation => {
+          const noteItem = noteItems.find(item => item.inventoryItemId === confirmation.inventoryItemId)
+          if (!noteItem) {
+            throw new Error('الوحدة ليست على إذن التحويل')
+          }
+          if (noteItem.outcome !== 'pending') {
+            throw new Error(`تم تأكيد استلام الوحدة ${noteItem.chassisNumber} من قبل`)
+          }
+          return { confirmation, noteItem }
+        })
+
+        const itemRefs = confirmed.map(({ noteItem }) => doc(db, 'inventory_items', noteItem.inventoryItemId))
+        const itemDocs = await Promise.all(itemRefs.map(itemRef => transaction.get(itemRef)))
+        itemDocs.forEach((itemDoc, index) => {
+          if (!itemDoc.exists() || itemDoc.data().inTransitNoteId !== noteId) {
+            throw new Error(`الوحدة ${confirmed[index].noteItem.chassisNumber} لم تعد في الطريق على هذا الإذن`)
+          }
+        })
+
+        const received = confirmed
+          .map((entry, index) => ({ ...entry, itemData: itemDocs[index].data() }))
+          .filter(({ confirmation }) => confirmation.outcome === 'received')
+        const receivedValue = roundAmount(received.reduce((sum, { noteItem }) => sum + transferPriceOf(noteItem), 0))
+        // الوكيل المحول منه يخصم عنه نفس السعر الذي حمل عليه عند استلامه الوحدة
+        const releasedValue = roundAmount(received.reduce((sum, { noteItem, itemData }) =>
+          sum + (Number(itemData?.agentTransferPrice) || noteItem.purchasePrice), 0))
+        const receivedCost = roundAmount(received.reduce((sum, { noteItem }) => sum + noteItem.purchasePrice, 0))
+        const receivedCount = received.length
+
+        // قراءة أرصدة الوكلاء قبل أي كتابة داخل المعاملة
+        const agentRefs = {
+          from: note.fromAgentId && releasedValue > 0 ? doc(db, 'agents', note.fromAgentId) : null,
+          to: note.toAgentId && receivedValue > 0 ? doc(db, 'agents', note.toAgentId) : null
+        }
+        const [fromAgentDoc, toAgentDoc] = await Promise.all([
+          agentRefs.from ? transaction.get(agentRefs.from) : Promise.resolve(null),
+          agentRefs.to ? transaction.get(agentRefs.to) : Promise.resolve(null)
+        ])
+
+        const confirmedAt = Timestamp.now()
+        confirmed.forEach(({ confirmation, noteItem }, index) => {
+          const itemRef = itemRefs[index]
+
+          if (confirmation.outcome === 'received') {
+            transaction.update(itemRef, {
+              currentWarehouseId: note.toWarehouseId,
+              warehouseName: note.toWarehouseName,
+              status: 'available',
+              inTransitNoteId: deleteField(),
+              ...(note.toAgentId
+                ? { agentCommissionPercentage: noteItem.agentCommissionPercentage, agentTransferPrice: transferPriceOf(noteItem) }
+                : { agentTransferPrice: deleteField() }),
+              updatedAt: serverTimestamp()
+            })
+            transaction.set(doc(collection(db, 'warehouse_transfers')), {
+              transactionId: generateTransactionId('warehouse_transfer'),
+              transferNoteId: note.id,
+              transferNoteNumber: note.transferNoteNumber,
+              fromWarehouseId: note.fromWarehouseId,
+              toWarehouseId: note.toWarehouseId,
+              inventoryItemId: noteItem.inventoryItemId,
+              motorFingerprint: noteItem.motorFingerprint,
+              chassisNumber: noteItem.chassisNumber,
+              brand: noteItem.brand,
+              model: noteItem.model,
+              purchasePrice: noteItem.purchasePrice,
+              transferPrice: transferPriceOf(noteItem),
+              agentCommissionPercentage: noteItem.agentCommissionPercentage,
+              ...(noteItem.pricingRuleLabel ? { pricingRuleLabel: noteItem.pricingRuleLabel, priceOverridden: !!noteItem.priceOverridden } : {}),
+              notes: note.notes || '',
+              transferredBy: note.dispatchedBy,
+              receivedBy: userId,
+              transferredAt: serverTimestamp(),
+              createdAt: serverTimestamp()
+            })
+          } else if (confirmation.outcome === 'damaged') {
+            transaction.update(itemRef, {
+              status: 'available',
+              inTransitNoteId: deleteField(),
+              updatedAt: serverTimestamp()
+            })
+          } else {
+            transaction.update(itemRef, {
+              status: 'written_off',
+              inTransitNoteId: deleteField(),
+              writeOff: {
+                transferNoteId: note.id,
+                reason: 'lost',
+                ...(confirmation.notes?.trim() ? { notes: confirmation.notes.trim() } : {}),
+                writtenOffAt: confirmedAt,
+                writtenOffBy: userId
+              },
+              updatedAt: serverTimestamp()
+            })
+          }
+
+          noteItem.outcome = confirmation.outcome
+          noteItem.confirmedAt = confirmedAt
+          noteItem.confirmedBy = userId
+          if (confirmation.notes?.trim()) {
+            noteItem.outcomeNotes = confirmation.notes.trim()
+          }
+        })
+
+        if (agentRefs.from && fromAgentDoc?.exists()) {
+          this.postAgentDebt(transaction, agentRefs.from, fromAgentDoc.data() as Agent,
+            reverseLines(agentStockLines(agentRefs.from.id, releasedValue, receivedCost)),
+            `تحويل ${receivedCount} موتوسيكل إلى ${note.toWarehouseName} - إذن تحويل ${note.transferNoteNumber}`, note, userId)
+        }
+        if (agentRefs.to && toAgentDoc?.exists()) {
+          this.postAgentDebt(transaction, agentRefs.to, toAgentDoc.data() as Agent,
+            agentStockLines(agentRefs.to.id, receivedValue, receivedCost),
+            `استلام ${receivedCount} موتوسيكل من ${note.fromWarehouseName} - إذن تحويل ${note.transferNoteNumber}`, note, userId)
+        }
+
+        const allResolved = noteItems.every(item => item.outcome !== 'pending')
+        transaction.update(noteRef, {
+          items: noteItems,
+          status: allResolved ? 'received' : 'partially_received',
+          ...(allResolved ? { completedAt: serverTimestamp() } : {})
+        })
+
+        return {
+          note,
+          damagedCount: confirmed.filter(({ confirmation }) => confirmation.outcome === 'damaged').length,
+          missingCount: confirmed.filter(({ confirmation }) => confirmation.outcome === 'missing').length
+        }
+      })
+
+      if (summary.damagedCount > 0 || summary.missingCount > 0) {
+        notificationSystem.notifyTransferReceiptIssues({
+          transferNoteId: noteId,
+          transferNoteNumber: summary.note.transferNoteNumber,
+          toWarehouse: summary.note.toWarehouseName,
+          damagedCount: summary.damagedCount,
+          missingCount: summary.missingCount,
+          reportedBy: userId
+        }).catch(error => console.error('Error notifying transfer receipt issues:', error))
+      }
+
+      return { success: true, id: noteId, number: summary.note.transferNoteNumber }
+    } catch (error) {
+      console.error('Error confirming transfer receipt:', error)
+      return { success: false, error: errorMessage(error, 'فشل في تأكيد الاستلام') }
+    }
+  }
+
+  // الرصيد السالب مديونية على الوكيل: الاستلام يزيدها والتحويل منه يخفضها، والحركة ترحل كقيد في الدفتر
+  private static postAgentDebt(
+    transaction: Transaction,
+    agentRef: DocumentReference,
+    agent: Agent,
+    lines: JournalLine[],
+    description: string,
+    note: TransferNote,
+    userId: string
+  ) {
+    const posted = GeneralLedgerService.post(transaction, {
+      source: 'transfer_receipt',
+      sourceId: note.id,
+      reference: note.transferNoteNumber,
+      description,
+      lines,
+      postedBy: userId
+    }, { [agentRef.id]: { ref: agentRef, balance: Number(agent.currentBalance) || 0 } })
+    const { previousBalance, newBalance } = posted.balances[agentRef.id]
+    const amount = roundAmount(newBalance - previousBalance)
+
+    transaction.set(doc(collection(db, 'agent_transactions')), {
+      transactionId: generateTransactionId('agent_debt'),
+      agentId: agentRef.id,
+      type: amount < 0 ? 'debt_increase' : 'debt_decrease',
+      amount,
+      description,
+      previousBalance,
+      newBalance,
+      journalEntryId: posted.entryId,
+      createdBy: userId,
+      createdAt: serverTimestamp()
+    })
+  }
+
+  private static async notifyReceivingAgent(toWarehouse: Warehouse, fromWarehouse: Warehouse, quantity: number, user: { id: string, name?: string }) {
+    if (!toWarehouse.agentId) return
+
+    try {
+      const agentDoc = await getDoc(doc(db, 'agents', toWarehouse.agentId))
+      const agent = agentDoc.exists() ? agentDoc.data() as Agent : null
+      if (!agent?.userId) return
+
+      await notificationSystem.notifyInventoryTransfer({
+        agentId: agent.userId,
+        agentName: agent.name,
+        itemName: 'موتوسيكل في الطريق بانتظار تأكيد الاستلام',
+        quantity,
+        fromWarehouse: fromWarehouse.name,
+        toWarehouse: toWarehouse.name,
+        transferredBy: user.id,
+        transferredByName: user.name || ''
+      })
+    } catch (error) {
+      console.error('Error notifying receiving agent:', error)
+    }
+  }
+}
@@ -130,7 +130,10 @@ export function generateTransactionId(type: string, date: Date = new Date()): st
     'sale_to_customer': 'INV',
     'agent_invoice': 'AI',
     'payment_receipt': 'RCPT',
-    'return': 'RET'
+    'return': 'RET',
+    'installment_contract': 'INST',
+    'installment_collection': 'COL',
+    'stock_adjustment': 'ADJ'
   }[type] || 'TXN'
   
   return `${typePrefix}-${year}${month}${day}-${random}`
@@ -213,6 +216,34 @@ export function downloadFile(data: Blob, filename: string) {
   window.URL.revokeObjectURL(url)
 }
 
+// Prints a single element in a separate window, keeping the app styles
+export function printElement(element: HTMLElement, title: string = document.title) {
+  const printWindow = window.open('', '_blank', 'width=1000,height=800')
+  if (!printWindow) return
+
+  const styles = Array.from(document.querySelectorAll('style, link[rel="stylesheet"]'))
+    .map(node => node.outerHTML)
+    .join('\n')
+
+  printWindow.document.write(`
+    <!DOCTYPE html>
+    <html dir="rtl" lang="ar">
+      <head>
+        <meta charset="utf-8" />
+        <title>${title}</title>
+        ${styles}
+      </head>
+      <body class="bg-white">${element.outerHTML}</body>
+    </html>
+  `)
+  printWindow.document.close()
+  printWindow.focus()
+  setTimeout(() => {
+    printWindow.print()
+    printWindow.close()
+  }, 500)
+}
+
 export function convertToArabicNumerals(str: string): string {
   const arabicNumerals = '٠١٢٣٤٥٦٧٨٩'
   const englishNumerals = '0123456789'
@@ -294,7 +325,16 @@ export const documentStatusTranslations = {
   'submitted_to_manufacturer': 'تم الإرسال للشركة',
   'received_from_manufacturer': 'تم الاستلام من الشركة',
   'sent_to_point_of_sale': 'تم الإرسال لنقطة البيع',
-  'completed': 'مكتمل'
+  'completed': 'مكتمل',
+  'cancelled': 'ملغي (مرتجع)'
+}
+
+// Payment method translations
+export const paymentMethodTranslations = {
+  'cash': 'نقدي',
+  'bank_transfer': 'تحويل بنكي',
+  'check': 'شيك',
+  'installments': 'تقسيط'
 }
 
 export function formatFileSize(bytes: number | undefined | null): string {
@@ -0,0 +1,291 @@
+// كتالوج الماركات والموديلات: أسماء موحدة للماركة والموديل والألوان المسموحة بدلاً من النص الحر في نماذج المخزون
+
+import {
+  collection,
+  doc,
+  getDocs,
+  addDoc,
+  updateDoc,
+  writeBatch,
+  arrayUnion,
+  serverTimestamp
+} from 'firebase/firestore'
+import { db } from '../firebase/firebase-config.template'
+import { CatalogBrand, CatalogModel, InventoryItem } from '../types'
+
+export interface VehicleCatalog {
+  brands: CatalogBrand[]
+  models: CatalogModel[]
+}
+
+export type CatalogBrandInput = Pick<CatalogBrand, 'name' | 'aliases' | 'countryOfOrigin'>
+
+export type CatalogModelInput = Pick<CatalogModel,
+  'brandId' | 'name' | 'aliases' | 'type' | 'engineCc' | 'defaultPurchasePrice' | 'defaultSalePrice' | 'imageUrl' | 'colors'>
+
+export interface CatalogResult {
+  success: boolean
+  id?: string
+  error?: string
+}
+
+// مجموعة أصناف تحمل نفس الماركة والموديل كنص حر، مع أقرب مطابقة في الكتالوج
+export interface FreeTextGroup {
+  key: string
+  brand: string
+  model: string
+  itemIds: string[]
+  colors: string[]
+  brandId?: string
+  modelId?: string
+}
+
+export interface CatalogMapping {
+  group: FreeTextGroup
+  brandId: string
+  modelId: string
+}
+
+// المقارنة بدون فرق الحروف الكبيرة والمسافات والهمزات والتاء المربوطة والألف المقصورة
+export const normalizeCatalogName = (value: string) => value
+  .trim()
+  .toLowerCase()
+  .replace(/[أإآ]/g, 'ا')
+  .replace(/ة/g, 'ه')
+  .replace(/ى/g, 'ي')
+  .replace(/[-_]/g, ' ')
+  .replace(/\s+/g, ' ')
+
+const matchesName = (entry: { name: string, aliases: string[] }, value: string) => {
+  const normalized = normalizeCatalogName(value)
+  return !!normalized && [entry.name, ...entry.aliases].some(name => normalizeCatalogName(name) === normalized)
+}
+
+export const findCatalogBrand = (catalog: VehicleCatalog, value: string) =>
+  catalog.brands.find(brand => matchesName(brand, value))
+
+export const findCatalogModel = (catalog: VehicleCatalog, brandId: string, value: string) =>
+  catalog.models.find(model => model.brandId === brandId && matchesName(model, value))
+
+export const activeBrands = (catalog: VehicleCatalog) =>
+  catalog.brands.filter(brand => brand.isActive)
+
+export const activeModels = (catalog: VehicleCatalog, brandId: string) =>
+  catalog.models.filter(model => model.brandId === brandId && model.isActive)
+
+// اللون بالاسم المسجل في الموديل، أو null إذا كان الموديل يحدد ألواناً ليس منها
+export function matchCatalogColor(model: CatalogModel, value: string): string | null {
+  if (model.colors.length === 0) return value.trim()
+  const normalized = normalizeCatalogName(value)
+  return model.colors.find(color => normalizeCatalogName(color) === normalized) ?? null
+}
+
+// الماركة والموديل بأسمائهما في الكتالوج لحفظهما على الصنف
+export function resolveCatalogNames(catalog: VehicleCatalog, brandValue: string, modelValue: string) {
+  const brand = findCatalogBrand(catalog, brandValue)
+  const model = brand ? findCatalogModel(catalog, brand.id, modelValue) : undefined
+  return { brand, model }
+}
+
+const cleanAliases = (name: string, aliases: string[]) => {
+  const seen = new Set([normalizeCatalogName(name)])
+  return aliases.map(alias => alias.trim()).filter(alias => {
+    const normalized = normalizeCatalogName(alias)
+    if (!normalized || seen.has(normalized)) return false
+    seen.add(normalized)
+    return true
+  })
+}
+
+// الحقول الاختيارية الفارغة لا تحفظ لأن Firestore يرفض undefined
+const optionalFields = (fields: Record<string, string | number | undefined>) =>
+  Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== undefined && value !== ''))
+
+export class VehicleCatalogService {
+
+  static async getCatalog(): Promise<VehicleCatalog> {
+    try {
+      const [brandsSnapshot, modelsSnapshot] = await Promise.all([
+        getDocs(collection(db, 'catalog_brands')),
+        getDocs(collection(db, 'catalog_models'))
+      ])
+      const byName = (a: { name: string }, b: { name: string }) => a.name.localeCompare(b.name, 'ar')
+
+      return {
+        brands: (brandsSnapshot.docs.map(brandDoc => ({ id: brandDoc.id, ...brandDoc.data() })) as CatalogBrand[]).sort(byName),
+        models: (modelsSnapshot.docs.map(modelDoc => ({ id: modelDoc.id, ...modelDoc.data() })) as CatalogModel[]).sort(byName)
+      }
+    } catch (error) {
+      console.error('Error loading vehicle catalog:', error)
+      return { brands: [], models: [] }
+    }
+  }
+
+  // الاسم وكل بدائله يجب ألا تطابق ماركة أخرى
+  static async saveBrand(catalog: VehicleCatalog, input: CatalogBrandInput, brandId?: string): Promise<CatalogResult> {
+    try {
+      const name = input.name.trim()
+      if (!name) {
+        return { success: false, error: 'يرجى إدخال اسم الماركة' }
+      }
+
+      const aliases = cleanAliases(name, input.aliases)
+      const conflict = [name, ...aliases]
+        .map(value => findCatalogBrand(catalog, value))
+        .find(brand => brand && brand.id !== brandId)
+      if (conflict) {
+        return { success: false, error: `الاسم مستخدم للماركة ${conflict.name}` }
+      }
+
+      const data = {
+        name,
+        aliases,
+        ...optionalFields({ countryOfOrigin: input.countryOfOrigin?.trim() }),
+        updatedAt: serverTimestamp()
+      }
+
+      if (brandId) {
+        await updateDoc(doc(db, 'catalog_brands', brandId), data)
+        return { success: true, id: brandId }
+      }
+
+      const brandRef = await addDoc(collection(db, 'catalog_brands'), {
+        ...data,
+        isActive: true,
+        createdAt: serverTimestamp()
+      })
+      return { success: true, id: brandRef.id }
+    } catch (error) {
+      console.error('Error saving catalog brand:', error)
+      return { success: false, error: error instanceof Error ? error.message : 'فشل في حفظ الماركة' }
+    }
+  }
+
+  static async saveModel(catalog: VehicleCatalog, input: CatalogModelInput, modelId?: string): Promise<CatalogResult> {
+    try {
+      const name = input.name.trim()
+      if (!input.brandId || !name) {
+        return { success: false, error: 'يرجى اختيار الماركة وإدخال اسم الموديل' }
+      }
+      if (input.defaultPurchasePrice && input.defaultSalePrice && input.defaultSalePrice < input.defaultPurchasePrice) {
+        return { success: false, error: 'سعر البيع الافتراضي أقل من سعر الشراء' }
+      }
+
+      const aliases = cleanAliases(name, input.aliases)
+      const conflict = [name, ...aliases]
+        .map(value => findCatalogModel(catalog, input.brandId, value))
+        .find(model => model && model.id !== modelId)
+      if (conflict) {
+        return { success: false, error: `الاسم مستخدم للموديل ${conflict.name}` }
+      }
+
+      const data = {
+        brandId: input.brandId,
+        name,
+        aliases,
+        type: input.type,
+        colors: cleanAliases('', input.colors),
+        ...optionalFields({
+          engineCc: input.engineCc || undefined,
+          defaultPurchasePrice: input.defaultPurchasePrice || undefined,
+          defaultSalePrice: input.defaultSalePrice || undefined,
+          imageUrl: input.imageUrl?.trim()
+        }),
+        updatedAt: serverTimestamp()
+      }
+
+      if (modelId) {
+        await updateDoc(doc(db, 'catalog_models', modelId), data)
+        return { success: true, id: modelId }
+      }
+
+      const modelRef = await addDoc(collection(db, 'catalog_models'), {
+        ...data,
+        isActive: true,
+        createdAt: serverTimestamp()
+      })
+      return { success: true, id: modelRef.id }
+    } catch (error) {
+      console.error('Error saving catalog model:', error)
+      return { success: false, error: error instanceof Error ? error.message : 'فشل في حفظ الموديل' }
+    }
+  }
+
+  // الإيقاف يخفي الماركة أو الموديل من النماذج دون المساس بالأصناف المسجلة عليه
+  static async setActive(kind: 'brand' | 'model', id: string, isActive: boolean): Promise<CatalogResult> {
+    try {
+      await updateDoc(doc(db, kind === 'brand' ? 'catalog_brands' : 'catalog_models', id), {
+        isActive,
+        updatedAt: serverTimestamp()
+      })
+      return { success: true, id }
+    } catch (error) {
+      console.error('Error updating catalog entry:', error)
+      return { success: false, error: error instanceof Error ? error.message : 'فشل في تحديث الكتالوج' }
+    }
+  }
+
+  // تجميع الأصناف غير المربوطة بالكتالوج حسب الماركة والموديل المكتوبين، مع اقتراح المطابقة بالاسم أو البدائل
+  static async scanFreeText(catalog: VehicleCatalog): Promise<FreeTextGroup[]> {
+    const snapshot = await getDocs(collection(db, 'inventory_items'))
+    const groups = new Map<string, FreeTextGroup>()
+
+    snapshot.docs.forEach(itemDoc => {
+      const item = itemDoc.data() as InventoryItem
+      if (item.modelId) return
+
+      const brand = (item.brand || '').trim()
+      const model = (item.model || '').trim()
+      const key = `${normalizeCatalogName(brand)}|${normalizeCatalogName(model)}`
+      let group = groups.get(key)
+      if (!group) {
+        const match = resolveCatalogNames(catalog, brand, model)
+        group = { key, brand, model, itemIds: [], colors: [], brandId: match.brand?.id, modelId: match.model?.id }
+        groups.set(key, group)
+      }
+      group.itemIds.push(itemDoc.id)
+      if (item.color && !group.colors.includes(item.color)) {
+        group.colors.push(item.color)
+      }
+    })
+
+    return Array.from(groups.values()).sort((a, b) => b.itemIds.length - a.itemIds.length)
+  }
+
+  // ربط الأصناف بالموديل وتوحيد أسمائها، والاسم القديم يضاف لبدائل الماركة والموديل ليطابق تلقائياً بعد ذلك
+  static async applyMappings(catalog: VehicleCatalog, mappings: CatalogMapping[]): Promise<CatalogResult & { updatedCount?: number }> {
+    try {
+      const writes: { ref: ReturnType<typeof doc>, data: Record<string, unknown> }[] = []
+
+      mappings.forEach(({ group, brandId, modelId }) => {
+        const brand = catalog.brands.find(entry => entry.id === brandId)
+        const model = catalog.models.find(entry => entry.id === modelId && entry.brandId === brandId)
+        if (!brand || !model) return
+
+        group.itemIds.forEach(itemId => {
+          writes.push({
+            ref: doc(db, 'inventory_items', itemId),
+            data: { brand: brand.name, model: model.name, brandId, modelId, updatedAt: serverTimestamp() }
+          })
+        })
+        if (group.brand && !matchesName(brand, group.brand)) {
+          writes.push({ ref: doc(db, 'catalog_brands', brandId), data: { aliases: arrayUnion(group.brand) } })
+        }
+        if (group.model && !matchesName(model, group.model)) {
+          writes.push({ ref: doc(db, 'catalog_models', modelId), data: { aliases: arrayUnion(group.model) } })
+        }
+      })
+
+      for (let start = 0; start < writes.length; start += 450) {
+        const batch = writeBatch(db)
+        writes.slice(start, start + 450).forEach(({ ref, data }) => batch.update(ref, data))
+        await batch.commit()
+      }
+
+      return { success: true, updatedCount: writes.filter(({ ref }) => ref.parent.id === 'inventory_items').length }
+    } catch (error) {
+      console.error('Error applying catalog mappings:', error)
+      return { success: false, error: error instanceof Error ? error.message : 'فشل في ربط الأصناف بالكتالوج' }
+    }
+  }
+}
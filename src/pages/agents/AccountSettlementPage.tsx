@@ -15,14 +15,13 @@ import {
 } from 'lucide-react'
 import { 
   collection, 
-  addDoc, 
   doc, 
   getDoc, 
-  updateDoc, 
   query, 
   where, 
   getDocs, 
   orderBy,
+  runTransaction,
   serverTimestamp 
 } from 'firebase/firestore'
 import { useAuthState } from 'react-firebase-hooks/auth'
@@ -37,6 +36,7 @@ import { useUserData } from '@/hooks/useUserData'
 import { Agent, AgentTransaction } from '@/types'
 import { formatCurrency, formatDate, isAdmin, isSuperAdmin } from '@/lib/utils'
 import { cn } from '@/lib/utils'
+import { GeneralLedgerService, ledgerLine } from '@/lib/generalLedger'
 
 interface SettlementFormData {
   settlementType: 'full' | 'partial' | 'adjustment'
@@ -54,6 +54,37 @@ interface SettlementSummary {
   proposedSettlement: number
 }
 
+// Calculate new balance based on settlement type
+function calculateSettlement(currentBalance: number, formData: SettlementFormData) {
+  let newBalance = 0
+  let settlementAmount = 0
+
+  switch (formData.settlementType) {
+    case 'full':
+      // Full settlement - balance becomes zero
+      settlementAmount = Math.abs(currentBalance)
+      newBalance = 0
+      break
+    case 'partial':
+      // Partial settlement - reduce debt by specified amount
+      if (currentBalance < 0) {
+        settlementAmount = Math.min(formData.amount, Math.abs(currentBalance))
+        newBalance = currentBalance + settlementAmount
+      } else {
+        settlementAmount = formData.amount
+        newBalance = currentBalance + settlementAmount
+      }
+      break
+    case 'adjustment':
+      // Balance adjustment - can be positive or negative
+      settlementAmount = formData.amount
+      newBalance = formData.amount
+      break
+  }
+
+  return { newBalance, settlementAmount }
+}
+
 export function AccountSettlementPage() {
   const { id } = useParams<{ id: string }>()
   const navigate = useNavigate()
@@ -186,76 +217,72 @@ export function AccountSettlementPage() {
       setShowConfirmation(false)
 
       const formData = watch()
-      
-      // Calculate new balance based on settlement type
-      let newBalance = 0
-      let settlementAmount = 0
-
-      switch (formData.settlementType) {
-        case 'full':
-          // Full settlement - balance becomes zero
-          settlementAmount = Math.abs(agent.currentBalance)
-          newBalance = 0
-          break
-        case 'partial':
-          // Partial settlement - reduce debt by specified amount
-          if (agent.currentBalance < 0) {
-            settlementAmount = Math.min(formData.amount, Math.abs(agent.currentBalance))
-            newBalance = agent.currentBalance + settlementAmount
-          } else {
-            settlementAmount = formData.amount
-            newBalance = agent.currentBalance + settlementAmount
-          }
-          break
-        case 'adjustment':
-          // Balance adjustment - can be positive or negative
-          settlementAmount = formData.amount
-          newBalance = formData.amount
-          break
-      }
-
-      // Create settlement transaction
-      const settlementTransaction = {
-        agentId: agent.id,
-        type: 'settlement',
-        amount: agent.currentBalance < 0 ? settlementAmount : -settlementAmount,
-        description: formData.description || `تسوية حساب ${formData.settlementType === 'full' ? 'كاملة' : formData.settlementType === 'partial' ? 'جزئية' : 'تعديل رصيد'}`,
-        notes: formData.notes,
-        previousBalance: agent.currentBalance,
-        newBalance: newBalance,
-        settlementType: formData.settlementType,
-        createdAt: serverTimestamp(),
-        createdBy: userData.id
-      }
+      const agentRef = doc(db, 'agents', agent.id)
 
-      // Add settlement transaction
-      await addDoc(collection(db, 'agent_transactions'), settlementTransaction)
-
-      // Update agent balance
-      await updateDoc(doc(db, 'agents', agent.id), {
-        currentBalance: newBalance,
-        lastSettlementDate: serverTimestamp(),
-        updatedAt: serverTimestamp(),
-        updatedBy: userData.id
+      // The settlement is computed against the balance read in the transaction and posted as a journal entry
+      await runTransaction(db, async (transaction) => {
+        const agentDoc = await transaction.get(agentRef)
+        if (!agentDoc.exists()) {
+          throw new Error('الوكيل غير موجود')
+        }
+        const previousBalance = Number(agentDoc.data().currentBalance) || 0
+        const { newBalance, settlementAmount } = calculateSettlement(previousBalance, formData)
+        const description = formData.description || `تسوية حساب ${formData.settlementType === 'full' ? 'كاملة' : formData.settlementType === 'partial' ? 'جزئية' : 'تعديل رصيد'}`
+        const settlementRef = doc(collection(db, 'account_settlements'))
+
+        // التسوية الكاملة والجزئية نقدية، وتعديل الرصيد يقيد على حساب التسويات
+        const change = newBalance - previousBalance
+        const posted = Math.abs(change) >= 0.01
+          ? GeneralLedgerService.post(transaction, {
+              source: 'settlement',
+              sourceId: settlementRef.id,
+              description,
+              lines: [
+                ledgerLine(formData.settlementType === 'adjustment' ? 'balance_adjustments' : 'cash', change),
+                ledgerLine('agent_receivable', -change, agent.id)
+              ],
+              postedBy: userData.id
+            }, { [agent.id]: { ref: agentRef, balance: previousBalance } })
+          : null
+
+        // Create settlement transaction
+        transaction.set(doc(collection(db, 'agent_transactions')), {
+          agentId: agent.id,
+          type: 'settlement',
+          amount: previousBalance < 0 ? settlementAmount : -settlementAmount,
+          description,
+          notes: formData.notes,
+          previousBalance,
+          newBalance: posted ? posted.balances[agent.id].newBalance : previousBalance,
+          settlementType: formData.settlementType,
+          ...(posted ? { journalEntryId: posted.entryId } : {}),
+          createdAt: serverTimestamp(),
+          createdBy: userData.id
+        })
+
+        transaction.update(agentRef, {
+          lastSettlementDate: serverTimestamp(),
+          updatedAt: serverTimestamp(),
+          updatedBy: userData.id
+        })
+
+        // Create settlement record for audit trail
+        transaction.set(settlementRef, {
+          agentId: agent.id,
+          agentName: agent.name,
+          settlementType: formData.settlementType,
+          previousBalance,
+          settlementAmount: settlementAmount,
+          newBalance: newBalance,
+          description: formData.description,
+          notes: formData.notes,
+          ...(posted ? { journalEntryId: posted.entryId } : {}),
+          processedBy: userData.id,
+          processedByName: userData.name,
+          createdAt: serverTimestamp()
+        })
       })
 
-      // Create settlement record for audit trail
-      const settlementRecord = {
-        agentId: agent.id,
-        agentName: agent.name,
-        settlementType: formData.settlementType,
-        previousBalance: agent.currentBalance,
-        settlementAmount: settlementAmount,
-        newBalance: newBalance,
-        description: formData.description,
-        notes: formData.notes,
-        processedBy: userData.id,
-        processedByName: userData.name,
-        createdAt: serverTimestamp()
-      }
-
-      await addDoc(collection(db, 'account_settlements'), settlementRecord)
-
       toast.success('تم إجراء تسوية الحساب بنجاح')
       navigate(`/agents/details/${agent.id}`)
 
@@ -270,31 +297,7 @@ export function AccountSettlementPage() {
   const getSettlementPreview = () => {
     if (!summary || !agent) return null
 
-    const formData = watch()
-    let newBalance = 0
-    let settlementAmount = 0
-
-    switch (formData.settlementType) {
-      case 'full':
-        settlementAmount = Math.abs(agent.currentBalance)
-        newBalance = 0
-        break
-      case 'partial':
-        if (agent.currentBalance < 0) {
-          settlementAmount = Math.min(formData.amount, Math.abs(agent.currentBalance))
-          newBalance = agent.currentBalance + settlementAmount
-        } else {
-          settlementAmount = formData.amount
-          newBalance = agent.currentBalance + settlementAmount
-        }
-        break
-      case 'adjustment':
-        settlementAmount = formData.amount
-        newBalance = formData.amount
-        break
-    }
-
-    return { newBalance, settlementAmount }
+    return calculateSettlement(agent.currentBalance, watch())
   }
 
   const canManageSettlements = userData && (isSuperAdmin(userData.role) || isAdmin(userData.role))
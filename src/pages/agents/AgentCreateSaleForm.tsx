@@ -1,27 +1,30 @@
 import { useState } from 'react'
 import { useForm } from 'react-hook-form'
 import { toast } from 'sonner'
-import { ArrowLeft, Save, User, Package, Camera } from 'lucide-react'
-import { addDoc, collection, serverTimestamp, updateDoc, doc } from 'firebase/firestore'
+import { ArrowLeft, Save, User, Package, Camera, Plus, Trash2 } from 'lucide-react'
 import { useAuthState } from 'react-firebase-hooks/auth'
 
-import { db, auth } from '@/firebase/firebase-config.template'
+import { auth } from '@/firebase/firebase-config.template'
 import { Button } from '@/components/ui/Button'
 import { Input } from '@/components/ui/Input'
 import { Label } from '@/components/ui/Label'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card'
 import { ImprovedCameraOCR } from '@/components/ui/ImprovedCameraOCR'
 import { LoadingSpinner } from '@/components/ui/LoadingSpinner'
+import { InvoiceTaxFields } from '@/components/sales/InvoiceTaxFields'
 import { useUserData } from '@/hooks/useUserData'
+import { useInvoiceTax } from '@/hooks/useInvoiceTax'
 import { SimpleNotificationSystem } from '@/lib/simpleNotifications'
 import { Agent, InventoryItem } from '@/types'
-import { generateTransactionId, formatCurrency } from '@/lib/utils'
+import { formatCurrency } from '@/lib/utils'
 import { uploadToCloudinary } from '@/lib/cloudinary'
-import { createCompositeImage } from '@/lib/imageComposer'
+import { AgentPermissionsService } from '@/lib/agentPermissions'
+import { calculateSaleLine, summarizeInvoice, validateSaleLines } from '@/lib/saleInvoices'
 
 interface AgentCreateSaleFormProps {
   agent: Agent
   selectedItem: InventoryItem | null
+  availableItems: InventoryItem[]
   onCancel: () => void
   onSuccess: () => void
 }
@@ -31,13 +34,16 @@ interface SaleFormData {
   customerPhone: string
   customerNationalId: string
   customerAddress: string
-  salePrice: number
   notes: string
 }
 
+// استخدام العمولة المحددة في المنتج عند نقله للوكيل فقط
+const getItemCommissionRate = (item: InventoryItem) => (item as any).agentCommissionPercentage || 0
+
 export default function AgentCreateSaleForm({ 
   agent, 
   selectedItem, 
+  availableItems,
   onCancel, 
   onSuccess 
 }: AgentCreateSaleFormProps) {
@@ -47,19 +53,34 @@ export default function AgentCreateSaleForm({
   const [loading, setLoading] = useState(false)
   const [showIdCapture, setShowIdCapture] = useState(false)
   const [customerIdImage, setCustomerIdImage] = useState<string>('')
+  const [lineItems, setLineItems] = useState<InventoryItem[]>(selectedItem ? [selectedItem] : [])
+  const [linePrices, setLinePrices] = useState<Record<string, number>>(
+    selectedItem ? { [selectedItem.id]: selectedItem.salePrice || selectedItem.purchasePrice } : {}
+  )
+  const [itemToAdd, setItemToAdd] = useState('')
 
-  const { register, handleSubmit, setValue, watch, formState: { errors } } = useForm<SaleFormData>({
-    defaultValues: {
-      salePrice: selectedItem?.salePrice || selectedItem?.purchasePrice || 0
-    }
-  })
+  const { register, handleSubmit, setValue, watch, formState: { errors } } = useForm<SaleFormData>()
+  const tax = useInvoiceTax(watch('customerNationalId'))
+
+  // حساب الربح والعمولة لكل سطر على حدة (من صافي السعر بدون الضريبة)
+  const lineTotals = lineItems.map(item =>
+    calculateSaleLine(linePrices[item.id] || 0, item.purchasePrice, getItemCommissionRate(item), tax.options)
+  )
+  const totals = summarizeInvoice(lineTotals)
+  const remainingItems = availableItems.filter(item => !lineItems.some(line => line.id === item.id))
+
+  const addLine = () => {
+    const item = availableItems.find(available => available.id === itemToAdd)
+    if (!item) return
+
+    setLineItems(prev => [...prev, item])
+    setLinePrices(prev => ({ ...prev, [item.id]: item.salePrice || item.purchasePrice }))
+    setItemToAdd('')
+  }
 
-  const salePrice = watch('salePrice')
-  const profit = selectedItem ? salePrice - selectedItem.purchasePrice : 0
-  // استخدام العمولة المحددة في المنتج عند نقله للوكيل فقط
-  const commissionRate = (selectedItem as any)?.agentCommissionPercentage || 0
-  const agentCommission = (profit * commissionRate) / 100
-  const companyShare = profit - agentCommission
+  const removeLine = (itemId: string) => {
+    setLineItems(prev => prev.filter(item => item.id !== itemId))
+  }
 
   const handleIdCardOCR = async (text: string, imageUrl: string) => {
     try {
@@ -107,61 +128,27 @@ export default function AgentCreateSaleForm({
   const onSubmit = async (data: SaleFormData) => {
     console.log('🚀 SALE FORM SUBMITTED - Starting process...')
     
-    if (!agent || !selectedItem || !userData) {
-      console.log('❌ Missing required data:', { agent: !!agent, selectedItem: !!selectedItem, userData: !!userData })
+    if (!agent || !userData) {
+      console.log('❌ Missing required data:', { agent: !!agent, userData: !!userData })
       toast.error('بيانات غير مكتملة')
       return
     }
+
+    const linesError = validateSaleLines(lineItems.map(item => ({
+      inventoryItemId: item.id,
+      chassisNumber: item.chassisNumber,
+      salePrice: linePrices[item.id] || 0,
+      purchasePrice: item.purchasePrice
+    })), tax.options)
+    if (linesError) {
+      toast.error(linesError)
+      return
+    }
     
-    console.log('✅ All required data available, proceeding with sale creation...')
+    console.log('✅ All required data available, proceeding with invoice creation...')
 
     try {
       setLoading(true)
-      
-      const transactionId = generateTransactionId('sale')
-      const invoiceNumber = `INV-${Date.now()}`
-
-      // إنشاء معاملة البيع
-      const saleTransaction = {
-        transactionId,
-        invoiceNumber,
-        type: 'sale',
-        agentId: agent.id,
-        customerId: data.customerNationalId,
-        customerName: data.customerName,
-        customerPhone: data.customerPhone,
-        customerAddress: data.customerAddress,
-        items: [{
-          inventoryItemId: selectedItem.id,
-          motorFingerprint: selectedItem.motorFingerprint,
-          chassisNumber: selectedItem.chassisNumber,
-          brand: selectedItem.brand,
-          model: selectedItem.model,
-          salePrice: data.salePrice,
-          purchasePrice: selectedItem.purchasePrice,
-          profit: profit,
-          agentCommission: agentCommission,
-          companyShare: companyShare
-        }],
-        totalAmount: data.salePrice,
-        totalProfit: profit,
-        agentCommission: agentCommission,
-        companyShare: companyShare,
-        notes: data.notes,
-        createdAt: serverTimestamp(),
-        createdBy: userData.id
-      }
-
-      const saleRef = await addDoc(collection(db, 'sales_transactions'), saleTransaction)
-
-      // تحديث حالة المنتج إلى مباع
-      await updateDoc(doc(db, 'inventory_items', selectedItem.id), {
-        status: 'sold',
-        soldAt: serverTimestamp(),
-        soldBy: userData.id,
-        saleTransactionId: saleRef.id,
-        salePrice: data.salePrice
-      })
 
       // التأكد من رفع صورة بطاقة العميل إذا كانت لا تزال data URL
       let finalCustomerIdImage = customerIdImage
@@ -178,112 +165,41 @@ export default function AgentCreateSaleForm({
           console.log('✅ Final customer ID upload:', finalCustomerIdImage)
         } catch (error) {
           console.error('Failed to upload customer ID finally:', error)
-          // سنستخدم الصورة المحلية
-        }
-      }
-
-      // إنشاء الصورة المجمعة ورفعها إلى Cloudinary
-      let combinedImageUrl = ''
-      try {
-        console.log('🖼️ Creating composite image...')
-        const compositeDataUrl = await createCompositeImage({
-          customerName: data.customerName,
-          saleDate: new Date().toLocaleDateString('ar-EG'),
-          customerIdImage: finalCustomerIdImage || '',
-          motorFingerprintImage: selectedItem.motorFingerprintImageUrl || '',
-          chassisNumberImage: selectedItem.chassisNumberImageUrl || '',
-          motorFingerprint: selectedItem.motorFingerprint || '',
-          chassisNumber: selectedItem.chassisNumber || ''
-        })
-        
-        if (compositeDataUrl) {
-          console.log('🔄 Uploading composite image to Cloudinary...')
-          // تحويل data URL إلى blob
-          const response = await fetch(compositeDataUrl)
-          const blob = await response.blob()
-          
-          // رفع إلى Cloudinary
-          const uploadResult = await uploadToCloudinary(blob, {
-            folder: 'composite-documents',
-            tags: ['composite', 'agent-sale', `agent-${agent.id}`]
-          })
-          
-          combinedImageUrl = uploadResult.secure_url
-          console.log('✅ Composite image uploaded:', combinedImageUrl)
+          finalCustomerIdImage = ''
         }
-      } catch (error) {
-        console.error('Error creating/uploading composite image:', error)
       }
 
-      // إنشاء سجل تتبع الوثائق
-      const documentTracking = {
-        saleTransactionId: saleRef.id,
-        invoiceNumber,
-        agentId: agent.id,
+      // إنشاء الفاتورة وسجلات البيع وتتبع الوثائق لكل صنف في معاملة واحدة
+      const result = await AgentPermissionsService.createAgentInvoice(agent.id, agent.warehouseId, {
+        customerId: data.customerNationalId,
         customerName: data.customerName,
-        customerNationalId: data.customerNationalId,
         customerPhone: data.customerPhone,
         customerAddress: data.customerAddress,
-        motorFingerprint: selectedItem.motorFingerprint,
-        chassisNumber: selectedItem.chassisNumber,
-        motorBrand: selectedItem.brand,
-        motorModel: selectedItem.model,
-        salePrice: data.salePrice,
-        purchasePrice: selectedItem.purchasePrice,
-        profit: profit,
-        agentCommission: agentCommission,
-        companyShare: companyShare,
-        idCardFrontImageUrl: finalCustomerIdImage,
-        motorFingerprintImageUrl: selectedItem.motorFingerprintImageUrl,
-        chassisNumberImageUrl: selectedItem.chassisNumberImageUrl,
-        combinedImageUrl: combinedImageUrl,
-        status: 'pending_submission',
-        stages: [{
-          status: 'pending_submission',
-          date: new Date(),
-          updatedBy: userData.id,
-          notes: `تم إنشاء فاتورة البيع بواسطة الوكيل ${agent.name}`
-        }],
-        createdAt: serverTimestamp(),
-        updatedAt: serverTimestamp(),
-        createdBy: userData.id
-      }
+        customerIdImageUrl: finalCustomerIdImage || undefined,
+        notes: data.notes,
+        createdBy: userData.id,
+        taxMode: tax.taxMode,
+        lines: lineItems.map(item => ({
+          inventoryItemId: item.id,
+          salePrice: linePrices[item.id],
+          commissionRate: getItemCommissionRate(item)
+        }))
+      })
 
-      const documentRef = await addDoc(collection(db, 'document_tracking'), documentTracking)
-
-      // تحديث رصيد الوكيل - إضافة نصيب الشركة كمديونية (مثل نظام العملاء)
-      const agentTransaction = {
-        agentId: agent.id,
-        type: 'sale',
-        amount: -companyShare, // مديونية (سالب) = نصيب الشركة من الربح
-        description: `بيع ${selectedItem.brand} ${selectedItem.model} للعميل ${data.customerName} - نصيب الشركة من الربح`,
-        saleTransactionId: saleRef.id,
-        saleAmount: data.salePrice,
-        commission: agentCommission,
-        companyShare: companyShare,
-        previousBalance: agent.currentBalance || 0,
-        newBalance: (agent.currentBalance || 0) - companyShare,
-        createdAt: serverTimestamp(),
-        createdBy: userData.id
+      if (!result.success || !result.lines) {
+        toast.error(result.error || 'حدث خطأ أثناء إنشاء فاتورة البيع')
+        return
       }
 
-      await addDoc(collection(db, 'agent_transactions'), agentTransaction)
-
-      // تحديث رصيد الوكيل في جدول الوكلاء
-      await updateDoc(doc(db, 'agents', agent.id), {
-        currentBalance: (agent.currentBalance || 0) - companyShare,
-        lastTransactionDate: serverTimestamp()
-      })
-
       // إرسال إشعار للمديرين بالبيعة الجديدة
       console.log('🔔 Attempting to send sale notification...')
       try {
         await SimpleNotificationSystem.notifyNewSale({
           agentId: agent.id,
           agentName: agent.name,
-          documentId: documentRef.id,
+          documentId: result.lines[0].documentTrackingId,
           customerName: data.customerName,
-          totalAmount: data.salePrice
+          totalAmount: totals.totalAmount
         })
         console.log('✅ Sale notification sent successfully!')
       } catch (notificationError) {
@@ -291,7 +207,7 @@ export default function AgentCreateSaleForm({
         // لا نوقف العملية إذا فشل الإشعار
       }
 
-      toast.success('تم إنشاء فاتورة البيع بنجاح وبدء تتبع الوثائق')
+      toast.success(`تم إنشاء فاتورة البيع رقم ${result.invoiceNumber} (${result.lines.length} منتج) وبدء تتبع الوثائق`)
       onSuccess()
 
     } catch (error) {
@@ -302,21 +218,6 @@ export default function AgentCreateSaleForm({
     }
   }
 
-  if (!selectedItem) {
-    return (
-      <div className="text-center py-12">
-        <Package className="h-12 w-12 text-gray-400 mx-auto mb-4" />
-        <h3 className="text-lg font-medium text-gray-900 mb-2 arabic-text">
-          لم يتم اختيار منتج
-        </h3>
-        <p className="text-gray-500 arabic-text mb-6">
-          يرجى اختيار منتج من المخزن للبيع
-        </p>
-        <Button onClick={onCancel}>العودة</Button>
-      </div>
-    )
-  }
-
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -328,39 +229,89 @@ export default function AgentCreateSaleForm({
           <div>
             <h1 className="text-2xl font-bold text-gray-900 arabic-text">إنشاء فاتورة بيع</h1>
             <p className="text-gray-600 arabic-text">
-              بيع {selectedItem.brand} {selectedItem.model}
+              {lineItems.length === 0 ? 'اختر المنتجات المباعة' : `${lineItems.length} منتج في الفاتورة`}
             </p>
           </div>
         </div>
       </div>
 
-      {/* Product Info */}
+      {/* Invoice Lines */}
       <Card>
         <CardHeader>
           <CardTitle className="flex items-center gap-2 arabic-text">
             <Package className="h-5 w-5" />
-            معلومات المنتج
+            أصناف الفاتورة
           </CardTitle>
         </CardHeader>
-        <CardContent>
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-            <div>
-              <Label className="arabic-text">الماركة والموديل</Label>
-              <p className="font-medium">{selectedItem.brand} {selectedItem.model}</p>
-            </div>
-            <div>
-              <Label className="arabic-text">اللون والسنة</Label>
-              <p className="font-medium">{selectedItem.color} - {selectedItem.manufacturingYear}</p>
-            </div>
-            <div>
-              <Label className="arabic-text">بصمة الموتور</Label>
-              <p className="font-mono text-sm">{selectedItem.motorFingerprint}</p>
+        <CardContent className="space-y-4">
+          {lineItems.length === 0 ? (
+            <p className="text-center text-gray-500 arabic-text py-4">
+              لم يتم اختيار منتج بعد، أضف المنتجات من مخزنك
+            </p>
+          ) : (
+            <div className="space-y-3">
+              {lineItems.map((item, index) => (
+                <div key={item.id} className="p-3 border rounded-lg">
+                  <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+                    <div className="md:col-span-2">
+                      <p className="font-medium arabic-text">{item.brand} {item.model} - {item.color}</p>
+                      <p className="font-mono text-xs text-gray-500">
+                        بصمة: {item.motorFingerprint} | شاسيه: {item.chassisNumber}
+                      </p>
+                    </div>
+                    <div>
+                      <Label htmlFor={`linePrice-${item.id}`} className="arabic-text">سعر البيع *</Label>
+                      <Input
+                        id={`linePrice-${item.id}`}
+                        type="number"
+                        min={item.purchasePrice}
+                        value={linePrices[item.id] ?? ''}
+                        onChange={(e) => setLinePrices(prev => ({ ...prev, [item.id]: parseFloat(e.target.value) || 0 }))}
+                      />
+                    </div>
+                    <div className="flex items-center justify-between gap-2">
+                      <div className="text-xs arabic-text">
+                        {lineTotals[index].taxAmount > 0 && (
+                          <p>الضريبة: <span className="font-bold">{formatCurrency(lineTotals[index].taxAmount)}</span></p>
+                        )}
+                        <p>عمولتك ({lineTotals[index].commissionRate}%): <span className="font-bold text-purple-600">{formatCurrency(lineTotals[index].agentCommission)}</span></p>
+                        <p>حصة المؤسسة: <span className="font-bold text-blue-600">{formatCurrency(lineTotals[index].companyShare)}</span></p>
+                      </div>
+                      <Button type="button" variant="ghost" size="sm" onClick={() => removeLine(item.id)}>
+                        <Trash2 className="h-4 w-4 text-red-500" />
+                      </Button>
+                    </div>
+                  </div>
+                  {lineTotals[index].commissionRate === 0 && (
+                    <div className="mt-2 p-2 bg-red-50 border border-red-200 rounded text-xs text-red-700 arabic-text">
+                      ❌ خطأ: لم يتم تحديد عمولة لهذا المنتج عند تحويله للمخزن. يجب على المدير تحديد العمولة في شاشة تحويل المخازن.
+                    </div>
+                  )}
+                </div>
+              ))}
             </div>
-            <div>
-              <Label className="arabic-text">رقم الشاسيه</Label>
-              <p className="font-mono text-sm">{selectedItem.chassisNumber}</p>
+          )}
+
+          {remainingItems.length > 0 && (
+            <div className="flex gap-2">
+              <select
+                value={itemToAdd}
+                onChange={(e) => setItemToAdd(e.target.value)}
+                className="form-input w-full input-rtl arabic-text"
+              >
+                <option value="">اختر منتجاً لإضافته للفاتورة</option>
+                {remainingItems.map(item => (
+                  <option key={item.id} value={item.id}>
+                    {item.brand} {item.model} - {item.chassisNumber}
+                  </option>
+                ))}
+              </select>
+              <Button type="button" variant="outline" onClick={addLine} disabled={!itemToAdd}>
+                <Plus className="ml-2 h-4 w-4" />
+                إضافة
+              </Button>
             </div>
-          </div>
+          )}
         </CardContent>
       </Card>
 
@@ -428,21 +379,6 @@ export default function AgentCreateSaleForm({
                 )}
               </div>
 
-              <div>
-                <Label htmlFor="salePrice" className="arabic-text">سعر البيع *</Label>
-                <Input
-                  id="salePrice"
-                  type="number"
-                  {...register('salePrice', { 
-                    required: 'سعر البيع مطلوب',
-                    valueAsNumber: true,
-                    min: { value: selectedItem.purchasePrice, message: 'سعر البيع لا يمكن أن يكون أقل من سعر الشراء' }
-                  })}
-                />
-                {errors.salePrice && (
-                  <p className="text-sm text-red-600 mt-1">{errors.salePrice.message}</p>
-                )}
-              </div>
             </div>
 
             <div>
@@ -477,29 +413,33 @@ export default function AgentCreateSaleForm({
           <CardContent>
             <div className="space-y-3">
               <div className="flex justify-between">
-                <span className="arabic-text">سعر الشراء:</span>
-                <span>{formatCurrency(selectedItem.purchasePrice)}</span>
+                <span className="arabic-text">عدد الأصناف:</span>
+                <span>{totals.lineCount}</span>
               </div>
               <div className="flex justify-between">
-                <span className="arabic-text">سعر البيع:</span>
-                <span className="font-bold">{formatCurrency(salePrice)}</span>
+                <span className="arabic-text">إجمالي سعر الشراء:</span>
+                <span>{formatCurrency(totals.totalPurchase)}</span>
               </div>
+              <InvoiceTaxFields
+                rate={tax.rate}
+                taxMode={tax.taxMode}
+                onTaxModeChange={tax.setTaxMode}
+                exemption={tax.exemption}
+                subtotal={totals.subtotal}
+                totalTax={totals.totalTax}
+                totalAmount={totals.totalAmount}
+              />
               <div className="flex justify-between border-t pt-2">
-                <span className="arabic-text">إجمالي الربح:</span>
-                <span className="font-bold text-green-600">{formatCurrency(profit)}</span>
+                <span className="arabic-text">إجمالي الربح (بدون الضريبة):</span>
+                <span className="font-bold text-green-600">{formatCurrency(totals.totalProfit)}</span>
               </div>
               <div className="flex justify-between">
-                <span className="arabic-text">عمولتك ({commissionRate}%):</span>
-                <span className="font-bold text-purple-600">{formatCurrency(agentCommission)}</span>
+                <span className="arabic-text">إجمالي عمولتك:</span>
+                <span className="font-bold text-purple-600">{formatCurrency(totals.totalCommission)}</span>
               </div>
-              {commissionRate === 0 && (
-                <div className="mt-2 p-2 bg-red-50 border border-red-200 rounded text-xs text-red-700 arabic-text">
-                  ❌ خطأ: لم يتم تحديد عمولة لهذا المنتج عند تحويله للمخزن. يجب على المدير تحديد العمولة في شاشة تحويل المخازن.
-                </div>
-              )}
               <div className="flex justify-between">
                 <span className="arabic-text">حصة المؤسسة:</span>
-                <span className="font-bold text-blue-600">{formatCurrency(companyShare)}</span>
+                <span className="font-bold text-blue-600">{formatCurrency(totals.totalCompanyShare)}</span>
               </div>
             </div>
           </CardContent>
@@ -510,7 +450,7 @@ export default function AgentCreateSaleForm({
           <Button type="button" variant="outline" onClick={onCancel}>
             إلغاء
           </Button>
-          <Button type="submit" disabled={loading}>
+          <Button type="submit" disabled={loading || lineItems.length === 0}>
             {loading ? (
               <>
                 <LoadingSpinner className="ml-2 h-4 w-4" />
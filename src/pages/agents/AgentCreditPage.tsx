@@ -0,0 +1,253 @@
+import { useState, useEffect } from 'react'
+import { Link, useNavigate } from 'react-router-dom'
+import { toast } from 'sonner'
+import { AlertCircle, ArrowLeft, Edit, ShieldAlert } from 'lucide-react'
+import { useAuthState } from 'react-firebase-hooks/auth'
+
+import { auth } from '@/firebase/firebase-config.template'
+import { Button } from '@/components/ui/Button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/Card'
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner'
+import { useUserData } from '@/hooks/useUserData'
+import { AgentCreditOverride } from '@/types'
+import { cn, formatCurrency, formatDateTime, isAdmin, isSuperAdmin } from '@/lib/utils'
+import {
+  agentCreditStatusColors,
+  agentCreditStatusLabels,
+  AgentCreditRow,
+  AgentCreditService
+} from '@/lib/agentCredit'
+
+export function AgentCreditPage() {
+  const navigate = useNavigate()
+  const [user] = useAuthState(auth)
+  const { userData } = useUserData(user?.uid)
+  const [rows, setRows] = useState<AgentCreditRow[]>([])
+  const [overrides, setOverrides] = useState<AgentCreditOverride[]>([])
+  const [showAll, setShowAll] = useState(false)
+  const [loading, setLoading] = useState(true)
+
+  const canManage = userData && (isAdmin(userData.role) || isSuperAdmin(userData.role))
+
+  useEffect(() => {
+    if (canManage) {
+      loadData()
+    }
+  }, [canManage])
+
+  const loadData = async () => {
+    try {
+      setLoading(true)
+      const [dashboard, overridesData] = await Promise.all([
+        AgentCreditService.getDashboard(),
+        AgentCreditService.getOverrides()
+      ])
+      setRows(dashboard)
+      setOverrides(overridesData)
+    } catch (error) {
+      console.error('Error loading agent credit:', error)
+      toast.error('فشل في تحميل حدود الائتمان')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  if (!userData) {
+    return <LoadingSpinner text="جاري تحميل بيانات المستخدم..." />
+  }
+
+  if (!canManage) {
+    return (
+      <div className="text-center py-12">
+        <AlertCircle className="mx-auto h-12 w-12 text-red-500 mb-4" />
+        <h3 className="text-lg font-medium text-gray-900 mb-2 arabic-text">غير مصرح لك بالوصول</h3>
+        <p className="text-gray-500 arabic-text">حدود ائتمان الوكلاء متاحة للمديرين فقط</p>
+      </div>
+    )
+  }
+
+  const flaggedRows = rows.filter(row => row.check.status !== 'ok')
+  const visibleRows = showAll ? rows : flaggedRows
+  const withoutLimit = rows.filter(row => !row.check.creditLimit && !row.check.maxOverdueDays).length
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-6 py-6">
+      {/* Page Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 arabic-text">حدود ائتمان الوكلاء</h1>
+          <p className="text-gray-600 arabic-text">
+            التحويل لوكيل يوقف إذا تجاوزت مديونيته المتوقعة حد الائتمان أو تجاوز عمر أقدم مديونية الحد المسموح، إلا بتجاوز من المدير العام
+          </p>
+        </div>
+        <Button variant="outline" onClick={() => navigate('/agents')}>
+          <ArrowLeft className="ml-2 h-4 w-4" />
+          العودة للوكلاء
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Card>
+          <CardContent className="p-4">
+            <p className="text-sm text-gray-600">متجاوزون للحد</p>
+            <p className="text-2xl font-bold text-red-600">{rows.filter(row => row.check.status === 'blocked').length}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-4">
+            <p className="text-sm text-gray-600">قريبون من الحد</p>
+            <p className="text-2xl font-bold text-yellow-600">{rows.filter(row => row.check.status === 'warning').length}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-4">
+            <p className="text-sm text-gray-600">بدون حد ائتمان</p>
+            <p className="text-2xl font-bold text-gray-900">{withoutLimit}</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <CardTitle>الوكلاء</CardTitle>
+              <CardDescription>
+                المديونية المتوقعة تشمل الأذون التي في الطريق ولم يؤكد استلامها
+              </CardDescription>
+            </div>
+            <label className="flex items-center gap-2 text-sm">
+              <input type="checkbox" checked={showAll} onChange={(e) => setShowAll(e.target.checked)} />
+              عرض كل الوكلاء
+            </label>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <LoadingSpinner text="جاري تحميل حدود الائتمان..." />
+          ) : visibleRows.length === 0 ? (
+            <p className="text-center text-gray-500 py-8 arabic-text">
+              {showAll ? 'لا يوجد وكلاء نشطون' : 'لا يوجد وكلاء قريبون من حدودهم'}
+            </p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-3 py-2 text-right">الوكيل</th>
+                    <th className="px-3 py-2 text-right">المديونية</th>
+                    <th className="px-3 py-2 text-right">في الطريق</th>
+                    <th className="px-3 py-2 text-right">حد الائتمان</th>
+                    <th className="px-3 py-2 text-right">الاستخدام</th>
+                    <th className="px-3 py-2 text-right">عمر المديونية</th>
+                    <th className="px-3 py-2 text-right">الحالة</th>
+                    <th className="px-3 py-2 text-right">إجراءات</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y">
+                  {visibleRows.map(({ agent, check }) => (
+                    <tr key={agent.id}>
+                      <td className="px-3 py-2">
+                        <Link to={`/agents/details/${agent.id}`} className="text-blue-600 hover:underline">{agent.name}</Link>
+                      </td>
+                      <td className="px-3 py-2">{formatCurrency(check.debt)}</td>
+                      <td className="px-3 py-2">{check.pendingDebt > 0 ? formatCurrency(check.pendingDebt) : '-'}</td>
+                      <td className="px-3 py-2">{check.creditLimit ? formatCurrency(check.creditLimit) : 'بدون حد'}</td>
+                      <td className="px-3 py-2 w-40">
+                        {check.creditLimit ? (
+                          <div>
+                            <div className="h-2 bg-gray-200 rounded-full overflow-hidden">
+                              <div
+                                className={cn('h-full', check.usage > 1 ? 'bg-red-500' : check.usage >= 0.8 ? 'bg-yellow-500' : 'bg-green-500')}
+                                style={{ width: `${Math.min(check.usage * 100, 100)}%` }}
+                              />
+                            </div>
+                            <p className="text-xs text-gray-500 mt-1">{Math.round(check.usage * 100)}%</p>
+                          </div>
+                        ) : '-'}
+                      </td>
+                      <td className="px-3 py-2">
+                        {check.overdueDays} يوم
+                        {check.maxOverdueDays ? <span className="text-xs text-gray-500"> / {check.maxOverdueDays}</span> : null}
+                      </td>
+                      <td className="px-3 py-2">
+                        <span className={cn('px-2 py-1 rounded-full text-xs', agentCreditStatusColors[check.status])}>
+                          {agentCreditStatusLabels[check.status]}
+                        </span>
+                      </td>
+                      <td className="px-3 py-2">
+                        <Button size="sm" variant="outline" onClick={() => navigate(`/agents/edit/${agent.id}`)} title="تعديل الحدود">
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ShieldAlert className="h-5 w-5" />
+            تجاوزات حد الائتمان
+          </CardTitle>
+          <CardDescription>تحويلات سمح بها المدير العام رغم تجاوز الحد</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {overrides.length === 0 ? (
+            <p className="text-center text-gray-500 py-8 arabic-text">لا توجد تجاوزات مسجلة</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-3 py-2 text-right">التاريخ</th>
+                    <th className="px-3 py-2 text-right">الوكيل</th>
+                    <th className="px-3 py-2 text-right">المستند</th>
+                    <th className="px-3 py-2 text-right">القيمة</th>
+                    <th className="px-3 py-2 text-right">المديونية المتوقعة</th>
+                    <th className="px-3 py-2 text-right">السبب</th>
+                    <th className="px-3 py-2 text-right">بواسطة</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y">
+                  {overrides.map(override => (
+                    <tr key={override.id}>
+                      <td className="px-3 py-2">{formatDateTime(override.createdAt)}</td>
+                      <td className="px-3 py-2">{override.agentName}</td>
+                      <td className="px-3 py-2">
+                        {override.source === 'transfer_note' && override.referenceId ? (
+                          <Link to={`/inventory/transfers/${override.referenceId}`} className="text-blue-600 hover:underline">
+                            {override.reference || 'إذن تحويل'}
+                          </Link>
+                        ) : (
+                          override.reference || 'تحويل لوكيل أوفلاين'
+                        )}
+                      </td>
+                      <td className="px-3 py-2">{formatCurrency(override.amount)}</td>
+                      <td className="px-3 py-2">
+                        {formatCurrency(override.projectedDebt)}
+                        {override.creditLimit ? <span className="text-xs text-gray-500"> / {formatCurrency(override.creditLimit)}</span> : null}
+                      </td>
+                      <td className="px-3 py-2">
+                        {override.reason}
+                        <ul className="text-xs text-gray-500">
+                          {override.blockReasons.map(reason => <li key={reason}>{reason}</li>)}
+                        </ul>
+                      </td>
+                      <td className="px-3 py-2">{override.overriddenByName || override.overriddenBy}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -13,7 +13,8 @@ import {
   Calendar,
   Package,
   FileText,
-  AlertCircle
+  AlertCircle,
+  Tags
 } from 'lucide-react'
 import { doc, getDoc, collection, query, where, orderBy, limit, getDocs } from 'firebase/firestore'
 import { useAuthState } from 'react-firebase-hooks/auth'
@@ -201,6 +202,13 @@ export function AgentDetailsPage() {
                   بيع نيابة عن الوكيل
                 </Button>
               )}
+              <Button
+                variant="outline"
+                onClick={() => navigate(`/agents/pricing/${id}`)}
+              >
+                <Tags className="ml-2 h-4 w-4" />
+                تسعير التحويل
+              </Button>
               <Button variant="outline" onClick={handleManagePayments}>
                 <CreditCard className="ml-2 h-4 w-4" />
                 إدارة المدفوعات
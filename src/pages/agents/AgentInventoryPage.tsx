@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react'
-import { Link } from 'react-router-dom'
+import { Link, useNavigate } from 'react-router-dom'
 import { 
   Package, 
   Search, 
@@ -8,7 +8,9 @@ import {
   AlertCircle,
   Filter,
   Calendar,
-  DollarSign
+  DollarSign,
+  ClipboardCheck,
+  Undo2
 } from 'lucide-react'
 import { collection, query, where, orderBy, getDocs } from 'firebase/firestore'
 import { useAuthState } from 'react-firebase-hooks/auth'
@@ -31,11 +33,14 @@ interface InventoryFilters {
 }
 
 export function AgentInventoryPage() {
+  const navigate = useNavigate()
   const [user] = useAuthState(auth)
   const { userData } = useUserData(user?.uid)
   const [agent, setAgent] = useState<Agent | null>(null)
   const [inventoryItems, setInventoryItems] = useState<InventoryItem[]>([])
   const [loading, setLoading] = useState(true)
+  // الوحدات المختارة لطلب إرجاعها للشركة
+  const [returnSelection, setReturnSelection] = useState<string[]>([])
   const [filters, setFilters] = useState<InventoryFilters>({
     search: '',
     status: 'all',
@@ -211,6 +216,27 @@ export function AgentInventoryPage() {
           </div>
         </div>
         <div className="flex items-center gap-3">
+          {returnSelection.length > 0 && (
+            <Button
+              variant="outline"
+              onClick={() => navigate(`/agent/returns/new?items=${returnSelection.join(',')}`)}
+            >
+              <Undo2 className="ml-2 h-4 w-4" />
+              إرجاع المحدد ({returnSelection.length})
+            </Button>
+          )}
+          <Link to="/agent/returns">
+            <Button variant="outline">
+              <Undo2 className="ml-2 h-4 w-4" />
+              المرتجعات
+            </Button>
+          </Link>
+          <Link to="/agent/transfers">
+            <Button variant="outline">
+              <ClipboardCheck className="ml-2 h-4 w-4" />
+              شحنات واردة
+            </Button>
+          </Link>
           <Link to="/agent/sales">
             <Button>
               <DollarSign className="ml-2 h-4 w-4" />
@@ -416,14 +442,29 @@ export function AgentInventoryPage() {
                   </div>
 
                   {/* Actions */}
-                  {item.status === 'available' && (
-                    <div className="pt-2">
+                  {item.status === 'available' && item.returnRequestId && (
+                    <div className="pt-2 text-center text-sm text-orange-600 arabic-text">
+                      بانتظار اعتماد طلب الإرجاع
+                    </div>
+                  )}
+                  {item.status === 'available' && !item.returnRequestId && (
+                    <div className="pt-2 space-y-2">
                       <Link to={`/agent/sales?item=${item.id}`}>
                         <Button size="sm" className="w-full">
                           <DollarSign className="ml-2 h-4 w-4" />
                           بيع هذا المنتج
                         </Button>
                       </Link>
+                      <label className="flex items-center gap-2 text-sm text-gray-600 arabic-text cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={returnSelection.includes(item.id)}
+                          onChange={(e) => setReturnSelection(prev => e.target.checked
+                            ? [...prev, item.id]
+                            : prev.filter(id => id !== item.id))}
+                        />
+                        تحديد للإرجاع للشركة
+                      </label>
                     </div>
                   )}
                 </div>
@@ -5,6 +5,10 @@ import { AgentDashboardPage } from './AgentDashboardPage'
 import { AgentInventoryPage } from './AgentInventoryPage'
 import { AgentSalesManagementPage } from './AgentSalesManagementPage'
 import { AgentDocumentsPage } from './AgentDocumentsPage'
+import { TransferNotesPage } from '../inventory/TransferNotesPage'
+import { TransferNoteDetailsPage } from '../inventory/TransferNoteDetailsPage'
+import { AgentReturnRequestPage } from './AgentReturnRequestPage'
+import { StockReturnsPage } from './StockReturnsPage'
 
 export function AgentMainPage() {
   return (
@@ -13,6 +17,10 @@ export function AgentMainPage() {
       <Route path="/inventory" element={<AgentInventoryPage />} />
       <Route path="/sales" element={<AgentSalesManagementPage />} />
       <Route path="/documents" element={<AgentDocumentsPage />} />
+      <Route path="/transfers" element={<TransferNotesPage />} />
+      <Route path="/transfers/:id" element={<TransferNoteDetailsPage />} />
+      <Route path="/returns" element={<StockReturnsPage />} />
+      <Route path="/returns/new" element={<AgentReturnRequestPage />} />
       {/* Default route */}
       <Route path="/" element={<AgentDashboardPage />} />
     </Routes>
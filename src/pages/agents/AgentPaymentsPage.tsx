@@ -13,7 +13,7 @@ import {
   Save,
   AlertCircle
 } from 'lucide-react'
-import { collection, addDoc, query, where, orderBy, getDocs, doc, updateDoc, getDoc } from 'firebase/firestore'
+import { collection, query, where, orderBy, getDocs, doc, getDoc, runTransaction } from 'firebase/firestore'
 import { useAuthState } from 'react-firebase-hooks/auth'
 import { toast } from 'sonner'
 
@@ -26,6 +26,8 @@ import { useUserData } from '@/hooks/useUserData'
 import { Agent, AgentTransaction } from '@/types'
 import { formatCurrency, formatDate, isAdmin, isSuperAdmin } from '@/lib/utils'
 import { cn } from '@/lib/utils'
+import { DocumentNumberingService } from '@/lib/documentNumbering'
+import { GeneralLedgerService, ledgerLine } from '@/lib/generalLedger'
 
 interface PaymentFormData {
   type: 'payment' | 'adjustment'
@@ -118,26 +120,49 @@ export function AgentPaymentsPage() {
         createdBy: userData.id
       }
 
-      // Add to Firestore
-      const transactionRef = await addDoc(collection(db, 'agent_transactions'), transactionData)
-
-      // Update agent balance
-      const newBalance = agent.currentBalance + transactionData.amount
-      
-      // Update agent document
-      await updateDoc(doc(db, 'agents', agent.id), {
-        currentBalance: newBalance,
-        updatedAt: new Date()
+      // Add to Firestore - payments get a sequential receipt voucher number and a journal entry in the same transaction
+      const agentRef = doc(db, 'agents', agent.id)
+      const transactionRef = doc(collection(db, 'agent_transactions'))
+      const { receiptNumber, newBalance } = await runTransaction(db, async (transaction) => {
+        const agentDoc = await transaction.get(agentRef)
+        if (!agentDoc.exists()) {
+          throw new Error('الوكيل غير موجود')
+        }
+        const allocatedNumber = transactionData.type === 'payment'
+          ? await DocumentNumberingService.allocate(transaction, 'receipt_voucher')
+          : undefined
+
+        // التحصيل نقدية مدينة، والإضافة لرصيد الوكيل تسوية؛ وفي الحالتين تخفض ذمة الوكيل
+        const posted = GeneralLedgerService.post(transaction, {
+          source: transactionData.type === 'payment' ? 'agent_payment' : 'balance_adjustment',
+          sourceId: transactionRef.id,
+          ...(allocatedNumber ? { reference: allocatedNumber } : {}),
+          description: transactionData.description,
+          lines: [
+            ledgerLine(transactionData.type === 'payment' ? 'cash' : 'balance_adjustments', transactionData.amount),
+            ledgerLine('agent_receivable', -transactionData.amount, agent.id)
+          ],
+          postedBy: userData.id
+        }, { [agent.id]: { ref: agentRef, balance: Number(agentDoc.data().currentBalance) || 0 } })
+
+        transaction.set(transactionRef, {
+          ...transactionData,
+          ...(allocatedNumber ? { receiptNumber: allocatedNumber } : {}),
+          ...posted.balances[agent.id],
+          journalEntryId: posted.entryId
+        })
+        return { receiptNumber: allocatedNumber, newBalance: posted.balances[agent.id].newBalance }
       })
 
       // Update local state
       setAgent(prev => prev ? { ...prev, currentBalance: newBalance } : null)
       setTransactions(prev => [{
         ...transactionData,
+        ...(receiptNumber ? { receiptNumber } : {}),
         id: transactionRef.id
       }, ...prev])
 
-      toast.success('تم إضافة المعاملة بنجاح')
+      toast.success(receiptNumber ? `تم إضافة المعاملة بنجاح - سند قبض رقم ${receiptNumber}` : 'تم إضافة المعاملة بنجاح')
       setShowPaymentForm(false)
       reset()
       
@@ -443,6 +468,11 @@ export function AgentPaymentsPage() {
                             مرتبطة بالبيع: {transaction.saleId}
                           </p>
                         )}
+                        {transaction.receiptNumber && (
+                          <p className="text-sm text-gray-600 font-mono">
+                            سند قبض: {transaction.receiptNumber}
+                          </p>
+                        )}
                       </div>
                     </div>
                   </div>
@@ -0,0 +1,333 @@
+import { useState, useEffect } from 'react'
+import { useNavigate, useParams } from 'react-router-dom'
+import { toast } from 'sonner'
+import { AlertCircle, ArrowLeft, Edit, Plus, Trash2 } from 'lucide-react'
+import { doc, getDoc } from 'firebase/firestore'
+import { useAuthState } from 'react-firebase-hooks/auth'
+
+import { db, auth } from '@/firebase/firebase-config.template'
+import { Button } from '@/components/ui/Button'
+import { Input } from '@/components/ui/Input'
+import { Label } from '@/components/ui/Label'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/Card'
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner'
+import { useUserData } from '@/hooks/useUserData'
+import { useVehicleCatalog } from '@/hooks/useVehicleCatalog'
+import { Agent, AgentPricingMethod, AgentPricingRule, AgentPricingScope, VehicleType } from '@/types'
+import { isAdmin, isSuperAdmin, vehicleTypeTranslations } from '@/lib/utils'
+import { activeBrands, activeModels } from '@/lib/vehicleCatalog'
+import {
+  agentPricingMethodLabels,
+  agentPricingRuleLabel,
+  agentPricingScopeLabels,
+  AgentPricingService,
+  describePricingMethod
+} from '@/lib/agentPricing'
+
+interface RuleForm {
+  scope: AgentPricingScope
+  vehicleType: VehicleType
+  brandId: string
+  modelId: string
+  method: AgentPricingMethod
+  value: string
+  commissionPercentage: string
+}
+
+const emptyForm = (commissionRate?: number): RuleForm => ({
+  scope: 'default',
+  vehicleType: 'motorcycle',
+  brandId: '',
+  modelId: '',
+  method: 'cost',
+  value: '',
+  commissionPercentage: String(commissionRate ?? 10)
+})
+
+export function AgentPricingRulesPage() {
+  const { id } = useParams<{ id: string }>()
+  const navigate = useNavigate()
+  const [user] = useAuthState(auth)
+  const { userData } = useUserData(user?.uid)
+  const { catalog, loading: catalogLoading, hasCatalog } = useVehicleCatalog()
+  const [agent, setAgent] = useState<Agent | null>(null)
+  const [rules, setRules] = useState<AgentPricingRule[]>([])
+  const [form, setForm] = useState<RuleForm | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+
+  const canManage = userData && (isAdmin(userData.role) || isSuperAdmin(userData.role))
+
+  useEffect(() => {
+    if (canManage && id) {
+      loadData()
+    }
+  }, [canManage, id])
+
+  const loadData = async () => {
+    if (!id) return
+
+    try {
+      setLoading(true)
+      const [agentDoc, rulesData] = await Promise.all([
+        getDoc(doc(db, 'agents', id)),
+        AgentPricingService.getRules(id)
+      ])
+      setAgent(agentDoc.exists() ? { id: agentDoc.id, ...agentDoc.data() } as Agent : null)
+      setRules(rulesData)
+    } catch (error) {
+      console.error('Error loading agent pricing rules:', error)
+      toast.error('فشل في تحميل قواعد التسعير')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const editRule = (rule: AgentPricingRule) => setForm({
+    scope: rule.scope,
+    vehicleType: rule.vehicleType || 'motorcycle',
+    brandId: catalog.models.find(model => model.id === rule.modelId)?.brandId || '',
+    modelId: rule.modelId || '',
+    method: rule.method,
+    value: rule.method === 'cost' ? '' : String(rule.value),
+    commissionPercentage: String(rule.commissionPercentage)
+  })
+
+  const handleSave = async () => {
+    if (!form || !userData || !id) return
+
+    setSaving(true)
+    const result = await AgentPricingService.saveRule({
+      agentId: id,
+      scope: form.scope,
+      vehicleType: form.vehicleType,
+      modelId: form.modelId || undefined,
+      method: form.method,
+      value: Number(form.value) || 0,
+      commissionPercentage: Number(form.commissionPercentage)
+    }, catalog, userData.id)
+    setSaving(false)
+
+    if (result.success) {
+      toast.success('تم حفظ قاعدة التسعير')
+      setForm(null)
+      loadData()
+    } else {
+      toast.error(result.error || 'فشل في حفظ قاعدة التسعير')
+    }
+  }
+
+  const handleDelete = async (rule: AgentPricingRule) => {
+    if (!window.confirm(`حذف قاعدة تسعير ${agentPricingRuleLabel(rule)}؟`)) return
+
+    const result = await AgentPricingService.deleteRule(rule.id)
+    if (result.success) {
+      toast.success('تم حذف قاعدة التسعير')
+      setRules(rules.filter(entry => entry.id !== rule.id))
+    } else {
+      toast.error(result.error || 'فشل في حذف قاعدة التسعير')
+    }
+  }
+
+  if (!userData) {
+    return <LoadingSpinner text="جاري تحميل بيانات المستخدم..." />
+  }
+
+  if (!canManage) {
+    return (
+      <div className="text-center py-12">
+        <AlertCircle className="mx-auto h-12 w-12 text-red-500 mb-4" />
+        <h3 className="text-lg font-medium text-gray-900 mb-2 arabic-text">غير مصرح لك بالوصول</h3>
+        <p className="text-gray-500 arabic-text">إدارة تسعير التحويل متاحة للمديرين فقط</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="max-w-5xl mx-auto space-y-6 py-6">
+      {/* Page Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 arabic-text">تسعير التحويل {agent ? `- ${agent.name}` : ''}</h1>
+          <p className="text-gray-600 arabic-text">
+            سعر التحويل ونسبة العمولة المقترحة عند تحويل وحدات لهذا الوكيل، والقاعدة الأكثر تحديداً تطبق: الموديل ثم نوع المركبة ثم القاعدة العامة
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button onClick={() => setForm(emptyForm(agent?.commissionRate))}>
+            <Plus className="ml-2 h-4 w-4" />
+            إضافة قاعدة
+          </Button>
+          <Button variant="outline" onClick={() => navigate(`/agents/details/${id}`)}>
+            <ArrowLeft className="ml-2 h-4 w-4" />
+            العودة للوكيل
+          </Button>
+        </div>
+      </div>
+
+      {form && (
+        <Card>
+          <CardHeader>
+            <CardTitle>قاعدة التسعير</CardTitle>
+            <CardDescription>حفظ قاعدة لنفس النطاق يعدل القاعدة الموجودة، والتعديل لا يغير أسعار الأذون الصادرة من قبل</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label required>تطبق على</Label>
+                <select
+                  value={form.scope}
+                  onChange={(e) => setForm({ ...form, scope: e.target.value as AgentPricingScope, brandId: '', modelId: '' })}
+                  className="form-input w-full input-rtl arabic-text"
+                >
+                  <option value="default">{agentPricingScopeLabels.default}</option>
+                  <option value="type">{agentPricingScopeLabels.type}</option>
+                  {hasCatalog && <option value="model">{agentPricingScopeLabels.model}</option>}
+                </select>
+              </div>
+              {form.scope === 'type' && (
+                <div className="space-y-2">
+                  <Label required>نوع المركبة</Label>
+                  <select
+                    value={form.vehicleType}
+                    onChange={(e) => setForm({ ...form, vehicleType: e.target.value as VehicleType })}
+                    className="form-input w-full input-rtl arabic-text"
+                  >
+                    {(Object.keys(vehicleTypeTranslations) as VehicleType[]).map(type => (
+                      <option key={type} value={type}>{vehicleTypeTranslations[type]}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+              {form.scope === 'model' && (
+                <div className="md:col-span-2 grid grid-cols-2 gap-2">
+                  <div className="space-y-2">
+                    <Label required>الماركة</Label>
+                    <select
+                      value={form.brandId}
+                      onChange={(e) => setForm({ ...form, brandId: e.target.value, modelId: '' })}
+                      className="form-input w-full input-rtl arabic-text"
+                    >
+                      <option value="">اختر الماركة</option>
+                      {activeBrands(catalog).map(brand => (
+                        <option key={brand.id} value={brand.id}>{brand.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label required>الموديل</Label>
+                    <select
+                      value={form.modelId}
+                      onChange={(e) => setForm({ ...form, modelId: e.target.value })}
+                      className="form-input w-full input-rtl arabic-text"
+                      disabled={!form.brandId}
+                    >
+                      <option value="">اختر الموديل</option>
+                      {activeModels(catalog, form.brandId).map(model => (
+                        <option key={model.id} value={model.id}>{model.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+              )}
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label required>طريقة التسعير</Label>
+                <select
+                  value={form.method}
+                  onChange={(e) => setForm({ ...form, method: e.target.value as AgentPricingMethod })}
+                  className="form-input w-full input-rtl arabic-text"
+                >
+                  {(Object.keys(agentPricingMethodLabels) as AgentPricingMethod[]).map(method => (
+                    <option key={method} value={method}>{agentPricingMethodLabels[method]}</option>
+                  ))}
+                </select>
+              </div>
+              {form.method !== 'cost' && (
+                <div className="space-y-2">
+                  <Label required>
+                    {form.method === 'cost_plus_percent' ? 'نسبة الهامش (%)' : form.method === 'fixed_price' ? 'سعر التحويل' : 'الهامش (جنيه)'}
+                  </Label>
+                  <Input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={form.value}
+                    onChange={(e) => setForm({ ...form, value: e.target.value })}
+                  />
+                </div>
+              )}
+              <div className="space-y-2">
+                <Label required>نسبة العمولة من الربح (%)</Label>
+                <Input
+                  type="number"
+                  min="0"
+                  max="100"
+                  step="0.1"
+                  value={form.commissionPercentage}
+                  onChange={(e) => setForm({ ...form, commissionPercentage: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="flex gap-2">
+              <Button onClick={handleSave} loading={saving}>حفظ</Button>
+              <Button variant="outline" onClick={() => setForm(null)}>إلغاء</Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>القواعد الحالية</CardTitle>
+          <CardDescription>
+            {rules.length} قاعدة - الوحدات التي لا تطابقها أي قاعدة تحول بسعر التكلفة
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading || catalogLoading ? (
+            <LoadingSpinner text="جاري تحميل القواعد..." />
+          ) : rules.length === 0 ? (
+            <p className="text-center text-gray-500 py-8 arabic-text">لا توجد قواعد تسعير لهذا الوكيل</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-3 py-2 text-right">تطبق على</th>
+                    <th className="px-3 py-2 text-right">سعر التحويل</th>
+                    <th className="px-3 py-2 text-right">العمولة</th>
+                    <th className="px-3 py-2 text-right">إجراءات</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y">
+                  {rules.map(rule => (
+                    <tr key={rule.id}>
+                      <td className="px-3 py-2">
+                        {agentPricingRuleLabel(rule)}
+                        <p className="text-xs text-gray-500">{agentPricingScopeLabels[rule.scope]}</p>
+                      </td>
+                      <td className="px-3 py-2">{describePricingMethod(rule)}</td>
+                      <td className="px-3 py-2">{rule.commissionPercentage}%</td>
+                      <td className="px-3 py-2">
+                        <div className="flex gap-1">
+                          <Button size="sm" variant="outline" onClick={() => editRule(rule)}>
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          <Button size="sm" variant="outline" onClick={() => handleDelete(rule)}>
+                            <Trash2 className="h-4 w-4 text-red-600" />
+                          </Button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,249 @@
+import { useState, useEffect } from 'react'
+import { useNavigate, useSearchParams } from 'react-router-dom'
+import { toast } from 'sonner'
+import { AlertCircle, ArrowLeft, Camera, Undo2, X } from 'lucide-react'
+import { doc, getDoc } from 'firebase/firestore'
+import { useAuthState } from 'react-firebase-hooks/auth'
+
+import { db, auth } from '@/firebase/firebase-config.template'
+import { Button } from '@/components/ui/Button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/Card'
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner'
+import { useUserData } from '@/hooks/useUserData'
+import { InventoryItem } from '@/types'
+import { formatCurrency } from '@/lib/utils'
+import { AgentPermissionsService } from '@/lib/agentPermissions'
+import { compressImage, uploadToCloudinary, validateImageFile } from '@/lib/cloudinary'
+import { StockReturnService } from '@/lib/stockReturns'
+
+interface ReturnLineForm {
+  conditionNotes: string
+  photoUrls: string[]
+}
+
+export function AgentReturnRequestPage() {
+  const navigate = useNavigate()
+  const [searchParams] = useSearchParams()
+  const [user] = useAuthState(auth)
+  const { userData } = useUserData(user?.uid)
+  const [agent, setAgent] = useState<Awaited<ReturnType<typeof AgentPermissionsService.getAgentData>>>(null)
+  const [items, setItems] = useState<InventoryItem[]>([])
+  const [chargedPrices, setChargedPrices] = useState<Map<string, { price: number, transferNoteNumber?: string }>>(new Map())
+  const [lines, setLines] = useState<Record<string, ReturnLineForm>>({})
+  const [notes, setNotes] = useState('')
+  const [uploadingItemId, setUploadingItemId] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+
+  const itemIds = (searchParams.get('items') || '').split(',').filter(Boolean)
+
+  useEffect(() => {
+    if (userData?.role === 'agent') {
+      loadData()
+    }
+  }, [userData])
+
+  const loadData = async () => {
+    if (!userData?.id) return
+
+    try {
+      setLoading(true)
+      const agentData = await AgentPermissionsService.getAgentData(userData.id)
+      setAgent(agentData)
+      if (!agentData) return
+
+      // الوحدات المسموح بإرجاعها: متاحة في مخزن الوكيل وليست ضمن طلب آخر
+      const itemDocs = await Promise.all(itemIds.map(itemId => getDoc(doc(db, 'inventory_items', itemId))))
+      const returnable = itemDocs
+        .filter(itemDoc => itemDoc.exists())
+        .map(itemDoc => ({ id: itemDoc.id, ...itemDoc.data() }) as InventoryItem)
+        .filter(item => item.currentWarehouseId === agentData.warehouseId && item.status === 'available' && !item.returnRequestId)
+
+      setItems(returnable)
+      setLines(Object.fromEntries(returnable.map(item => [item.id, { conditionNotes: '', photoUrls: [] }])))
+      setChargedPrices(await StockReturnService.getChargedPrices(returnable, agentData.warehouseId))
+    } catch (error) {
+      console.error('Error loading return items:', error)
+      toast.error('حدث خطأ في تحميل الوحدات')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const updateLine = (itemId: string, changes: Partial<ReturnLineForm>) => {
+    setLines(prev => ({ ...prev, [itemId]: { ...prev[itemId], ...changes } }))
+  }
+
+  const handlePhotoUpload = async (itemId: string, file: File) => {
+    const validation = validateImageFile(file)
+    if (!validation.valid) {
+      toast.error(validation.error)
+      return
+    }
+
+    try {
+      setUploadingItemId(itemId)
+      const compressedBlob = await compressImage(file, 0.8)
+      const result = await uploadToCloudinary(compressedBlob, {
+        folder: 'stock-returns',
+        tags: ['stock-return', itemId]
+      })
+      updateLine(itemId, { photoUrls: [...lines[itemId].photoUrls, result.secure_url] })
+    } catch (error) {
+      console.error('Error uploading return photo:', error)
+      toast.error('فشل في رفع الصورة')
+    } finally {
+      setUploadingItemId(null)
+    }
+  }
+
+  const handleSubmit = async () => {
+    if (!agent || !userData) return
+
+    setSaving(true)
+    const result = await StockReturnService.createRequest(
+      agent,
+      items.map(item => ({ inventoryItemId: item.id, ...lines[item.id] })),
+      notes,
+      userData.id
+    )
+    setSaving(false)
+
+    if (result.success) {
+      toast.success('تم إرسال طلب الإرجاع للإدارة')
+      navigate('/agent/returns')
+    } else {
+      toast.error(result.error || 'فشل في إرسال طلب الإرجاع')
+    }
+  }
+
+  const totalCredit = items.reduce((sum, item) => sum + (chargedPrices.get(item.id)?.price || 0), 0)
+
+  if (!userData) {
+    return <LoadingSpinner text="جاري تحميل بيانات المستخدم..." />
+  }
+
+  if (userData.role !== 'agent') {
+    return (
+      <div className="text-center py-12">
+        <AlertCircle className="mx-auto h-12 w-12 text-red-500 mb-4" />
+        <h3 className="text-lg font-medium text-gray-900 mb-2 arabic-text">غير مصرح لك بالوصول</h3>
+        <p className="text-gray-500 arabic-text">طلبات الإرجاع متاحة للوكلاء فقط</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="max-w-5xl mx-auto space-y-6 py-6">
+      {/* Page Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 arabic-text">طلب إرجاع للشركة</h1>
+          <p className="text-gray-600 arabic-text">
+            بعد اعتماد الإدارة تعود الوحدات لمخزن الشركة وتخصم قيمتها من مديونيتك بنفس سعر التحويل
+          </p>
+        </div>
+        <Button variant="outline" onClick={() => navigate('/agent/inventory')}>
+          <ArrowLeft className="ml-2 h-4 w-4" />
+          العودة للمخزون
+        </Button>
+      </div>
+
+      {loading ? (
+        <LoadingSpinner text="جاري تحميل الوحدات..." />
+      ) : items.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center">
+            <Undo2 className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <p className="text-gray-500 arabic-text">لا توجد وحدات متاحة للإرجاع، اختر الوحدات من صفحة مخزني</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle>الوحدات المرتجعة</CardTitle>
+              <CardDescription>
+                {items.length} وحدة - إجمالي الخصم من المديونية {formatCurrency(totalCredit)}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {items.map(item => {
+                const charged = chargedPrices.get(item.id)
+                const line = lines[item.id]
+                return (
+                  <div key={item.id} className="border rounded-lg p-4 space-y-3">
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <p className="font-medium arabic-text">{item.brand} {item.model} - {item.color}</p>
+                        <p className="text-xs text-gray-500 font-mono">{item.chassisNumber} / {item.motorFingerprint}</p>
+                      </div>
+                      <div className="text-left">
+                        <p className="font-bold">{formatCurrency(charged?.price || 0)}</p>
+                        {charged?.transferNoteNumber && (
+                          <p className="text-xs text-gray-500 font-mono">{charged.transferNoteNumber}</p>
+                        )}
+                      </div>
+                    </div>
+                    <textarea
+                      value={line.conditionNotes}
+                      onChange={(e) => updateLine(item.id, { conditionNotes: e.target.value })}
+                      rows={2}
+                      className="form-input w-full input-rtl arabic-text"
+                      placeholder="حالة الوحدة: خدوش، أعطال، نواقص..."
+                    />
+                    <div className="flex flex-wrap items-center gap-2">
+                      {line.photoUrls.map(url => (
+                        <div key={url} className="relative">
+                          <img src={url} alt="صورة الوحدة" className="h-16 w-16 object-cover rounded border" />
+                          <button
+                            type="button"
+                            onClick={() => updateLine(item.id, { photoUrls: line.photoUrls.filter(photoUrl => photoUrl !== url) })}
+                            className="absolute -top-2 -left-2 bg-white rounded-full border p-0.5"
+                          >
+                            <X className="h-3 w-3" />
+                          </button>
+                        </div>
+                      ))}
+                      <label className="inline-flex items-center gap-1 text-sm text-blue-600 cursor-pointer arabic-text">
+                        <Camera className="h-4 w-4" />
+                        {uploadingItemId === item.id ? 'جاري الرفع...' : 'إضافة صورة'}
+                        <input
+                          type="file"
+                          accept="image/*"
+                          className="hidden"
+                          disabled={uploadingItemId !== null}
+                          onChange={(e) => {
+                            const file = e.target.files?.[0]
+                            if (file) handlePhotoUpload(item.id, file)
+                            e.target.value = ''
+                          }}
+                        />
+                      </label>
+                    </div>
+                  </div>
+                )
+              })}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardContent className="p-6 space-y-4">
+              <textarea
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                rows={3}
+                className="form-input w-full input-rtl arabic-text"
+                placeholder="سبب الإرجاع أو ملاحظات للإدارة"
+              />
+              <Button onClick={handleSubmit} loading={saving} disabled={uploadingItemId !== null}>
+                <Undo2 className="ml-2 h-4 w-4" />
+                إرسال طلب الإرجاع
+              </Button>
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  )
+}
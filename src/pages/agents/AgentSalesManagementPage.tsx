@@ -11,7 +11,9 @@ import {
   Package,
   User,
   FileText,
-  CreditCard
+  CreditCard,
+  RotateCcw,
+  CalendarClock
 } from 'lucide-react'
 import { collection, query, where, orderBy, getDocs, doc, getDoc } from 'firebase/firestore'
 import { useAuthState } from 'react-firebase-hooks/auth'
@@ -21,6 +23,7 @@ import { Button } from '@/components/ui/Button'
 import { Input } from '@/components/ui/Input'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card'
 import { LoadingSpinner } from '@/components/ui/LoadingSpinner'
+import { SaleReturnDialog } from '@/components/sales/SaleReturnDialog'
 import { useUserData } from '@/hooks/useUserData'
 import { Agent, InventoryItem } from '@/types'
 import { formatCurrency, formatDate } from '@/lib/utils'
@@ -44,6 +47,7 @@ interface AgentSale {
   companyShare: number
   createdAt: any
   status: string
+  returnReason?: string
 }
 
 interface SalesFilters {
@@ -64,6 +68,7 @@ export function AgentSalesManagementPage() {
   const [loading, setLoading] = useState(true)
   const [showCreateSale, setShowCreateSale] = useState(false)
   const [selectedItem, setSelectedItem] = useState<InventoryItem | null>(null)
+  const [returnSaleId, setReturnSaleId] = useState<string | null>(null)
   const [filters, setFilters] = useState<SalesFilters>({
     search: '',
     dateFrom: '',
@@ -239,10 +244,12 @@ export function AgentSalesManagementPage() {
     return <LoadingSpinner text="جاري تحميل بيانات الوكيل..." />
   }
 
-  const totalSales = sales.length
-  const totalRevenue = sales.reduce((sum, sale) => sum + sale.salePrice, 0)
-  const totalCommissions = sales.reduce((sum, sale) => sum + sale.agentCommission, 0)
-  const totalProfit = sales.reduce((sum, sale) => sum + sale.profit, 0)
+  // المبيعات المرتجعة تظهر في القائمة لكن لا تدخل في الإجماليات
+  const activeSales = sales.filter(sale => sale.status !== 'cancelled')
+  const totalSales = activeSales.length
+  const totalRevenue = activeSales.reduce((sum, sale) => sum + sale.salePrice, 0)
+  const totalCommissions = activeSales.reduce((sum, sale) => sum + sale.agentCommission, 0)
+  const totalProfit = activeSales.reduce((sum, sale) => sum + sale.profit, 0)
 
   if (showCreateSale) {
     // استيراد مكون البيع المتطور
@@ -253,6 +260,7 @@ export function AgentSalesManagementPage() {
         <AgentCreateSaleForm 
           agent={agent}
           selectedItem={selectedItem}
+          availableItems={availableItems}
           onCancel={() => {
             setShowCreateSale(false)
             setSelectedItem(null)
@@ -260,6 +268,7 @@ export function AgentSalesManagementPage() {
           onSuccess={() => {
             setShowCreateSale(false)
             setSelectedItem(null)
+            loadAvailableItems()
             loadSalesData() // إعادة تحميل المبيعات
           }}
         />
@@ -269,6 +278,20 @@ export function AgentSalesManagementPage() {
 
   return (
     <div className="space-y-6">
+      {returnSaleId && (
+        <SaleReturnDialog
+          documentTrackingId={returnSaleId}
+          userId={userData.id}
+          defaultWarehouseId={agent.warehouseId}
+          allowWarehouseChoice={false}
+          onClose={() => setReturnSaleId(null)}
+          onReturned={() => {
+            loadSalesData()
+            loadAvailableItems()
+          }}
+        />
+      )}
+
       {/* Page Header */}
       <div className="flex items-center justify-between">
         <div className="flex items-center gap-4">
@@ -285,6 +308,14 @@ export function AgentSalesManagementPage() {
           </div>
         </div>
         <div className="flex items-center gap-3">
+          {agent && (
+            <Link to={`/sales/installments?agent=${agent.id}`}>
+              <Button variant="outline">
+                <CalendarClock className="ml-2 h-4 w-4" />
+                الأقساط
+              </Button>
+            </Link>
+          )}
           <Link to="/agent/inventory">
             <Button variant="outline">
               <Package className="ml-2 h-4 w-4" />
@@ -506,7 +537,7 @@ export function AgentSalesManagementPage() {
       ) : (
         <div className="space-y-4">
           {sales.map((sale) => (
-            <Card key={sale.id} className="hover:shadow-lg transition-shadow">
+            <Card key={sale.id} className={cn('hover:shadow-lg transition-shadow', sale.status === 'cancelled' && 'border-red-200 bg-red-50/50')}>
               <CardContent className="p-6">
                 <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
                   {/* Customer Info */}
@@ -514,6 +545,16 @@ export function AgentSalesManagementPage() {
                     <h3 className="font-bold text-gray-900 arabic-text">
                       {sale.invoiceNumber}
                     </h3>
+                    {sale.status === 'cancelled' && (
+                      <div className="space-y-1">
+                        <span className="inline-flex px-2 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">
+                          مرتجع
+                        </span>
+                        {sale.returnReason && (
+                          <p className="text-xs text-red-700 arabic-text">السبب: {sale.returnReason}</p>
+                        )}
+                      </div>
+                    )}
                     <div className="space-y-1 text-sm">
                       <div className="flex items-center gap-2">
                         <User className="h-4 w-4 text-gray-400" />
@@ -571,6 +612,12 @@ export function AgentSalesManagementPage() {
                       <Eye className="ml-2 h-4 w-4" />
                       التفاصيل
                     </Button>
+                    {sale.status !== 'cancelled' && (
+                      <Button variant="outline" size="sm" onClick={() => setReturnSaleId(sale.id)}>
+                        <RotateCcw className="ml-2 h-4 w-4" />
+                        مرتجع
+                      </Button>
+                    )}
                   </div>
                 </div>
               </CardContent>
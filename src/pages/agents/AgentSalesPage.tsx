@@ -14,10 +14,18 @@ import { Input } from '@/components/ui/Input'
 import { Label } from '@/components/ui/Label'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card'
 import { ImprovedCameraOCR } from '@/components/ui/ImprovedCameraOCR'
+import { InstallmentTermsFields, getDefaultInstallmentTerms } from '@/components/sales/InstallmentTermsFields'
+import { InvoiceTaxFields } from '@/components/sales/InvoiceTaxFields'
+import { QrScanButton } from '@/components/inventory/QrScanButton'
 import { useAuth } from '@/hooks/useAuth'
+import { useInvoiceTax } from '@/hooks/useInvoiceTax'
 import { useAgentPermissions } from '@/lib/agentPermissions'
-import { formatCurrency, isAdmin, isSuperAdmin } from '@/lib/utils'
+import { calculateSaleLine, validateSaleLines } from '@/lib/saleInvoices'
+import { validateInstallmentTerms } from '@/lib/installments'
+import { findScannedItem } from '@/lib/inventoryLabels'
+import { formatCurrency, isAdmin, isSuperAdmin, paymentMethodTranslations } from '@/lib/utils'
 import { uploadToCloudinary } from '@/lib/cloudinary'
+import { InstallmentTerms } from '@/types'
 
 interface SaleFormData {
   inventoryItemId: string
@@ -78,6 +86,8 @@ export function AgentSalesPage() {
   const [loading, setLoading] = useState(true)
   const [submitting, setSubmitting] = useState(false)
   const [searchTerm, setSearchTerm] = useState('')
+  const [paymentMethod, setPaymentMethod] = useState<'cash' | 'installments'>('cash')
+  const [installmentTerms, setInstallmentTerms] = useState<InstallmentTerms>(getDefaultInstallmentTerms)
 
   const {
     register,
@@ -89,6 +99,15 @@ export function AgentSalesPage() {
   } = useForm<SaleFormData>()
 
   const watchedSalePrice = watch('salePrice')
+  const tax = useInvoiceTax(watch('customerNationalId'))
+
+  // الربح وتوزيعه يحسب من صافي السعر بدون الضريبة
+  const commissionRate = selectedItem && agentData
+    ? selectedItem.agentCommissionPercentage || agentData.commissionRate || 10
+    : 0
+  const saleLine = selectedItem
+    ? calculateSaleLine(Number(watchedSalePrice) || 0, selectedItem.purchasePrice, commissionRate, tax.options)
+    : null
 
   useEffect(() => {
     if (userData) {
@@ -189,6 +208,17 @@ export function AgentSalesPage() {
     setValue('salePrice', item.salePrice || item.purchasePrice * 1.2)
   }
 
+  // اختيار الصنف مباشرة من ملصق QR أو رقم الشاسيه المقروء
+  const handleScannedItem = (text: string) => {
+    const item = findScannedItem(inventoryItems, text)
+    if (!item) {
+      toast.error('الصنف غير متاح في مخزنك')
+      return
+    }
+    handleItemSelect(item)
+    setSearchTerm('')
+  }
+
 
   const onSubmit = async (data: SaleFormData) => {
     console.log('🚀 [AGENT SALES] Starting sale submission...')
@@ -202,6 +232,25 @@ export function AgentSalesPage() {
       return
     }
 
+    const lineError = validateSaleLines([{
+      inventoryItemId: selectedItem.id,
+      chassisNumber: selectedItem.chassisNumber,
+      salePrice: Number(data.salePrice),
+      purchasePrice: selectedItem.purchasePrice
+    }], tax.options)
+    if (lineError) {
+      toast.error(lineError)
+      return
+    }
+
+    if (paymentMethod === 'installments') {
+      const termsError = validateInstallmentTerms(saleLine.salePrice, installmentTerms)
+      if (termsError) {
+        toast.error(termsError)
+        return
+      }
+    }
+
     try {
       setSubmitting(true)
       console.log('⏳ [AGENT SALES] Submission started...')
@@ -211,7 +260,7 @@ export function AgentSalesPage() {
       console.log('👨‍💼 [AGENT SALES] Is manager sale:', isManagerSale)
       
       // استخدام نسبة العمولة المحددة للمنتج أو النسبة العامة للوكيل كـ fallback
-      const itemCommissionRate = selectedItem.agentCommissionPercentage || agentData.commissionRate || 10
+      const itemCommissionRate = commissionRate
       console.log('💰 [AGENT SALES] Commission rate:', itemCommissionRate, '%')
       
       // رفع صورة بطاقة العميل إلى Cloudinary إذا كانت موجودة
@@ -262,11 +311,14 @@ export function AgentSalesPage() {
           customerPhone: data.customerPhone,
           customerAddress: data.customerAddress,
           inventoryItemId: selectedItem.id,
-          salePrice: data.salePrice,
+          salePrice: Number(data.salePrice),
           commissionRate: itemCommissionRate,
+          taxMode: tax.taxMode,
           customerIdImageUrl: customerIdImageUrl, // صورة بطاقة العميل المرفوعة
           saleType: isManagerSale ? 'manager_on_behalf' : 'agent_direct',
-          managerId: isManagerSale ? userData.id : undefined
+          managerId: isManagerSale ? userData.id : undefined,
+          installmentTerms: paymentMethod === 'installments' ? installmentTerms : undefined,
+          createdBy: userData.id
         }
       )
       
@@ -275,12 +327,14 @@ export function AgentSalesPage() {
       if (result.success) {
         console.log('✅ [AGENT SALES] Sale created successfully!')
         console.log('🆔 [AGENT SALES] Sale ID:', result.saleId)
+        console.log('🧾 [AGENT SALES] Invoice number:', result.invoiceNumber)
         
         if (isManagerSale) {
           // استخدام نفس الحسابات الموجودة في agentPermissions.ts - من الربح وليس سعر البيع
-          const totalProfit = data.salePrice - selectedItem.purchasePrice
-          const agentCommission = totalProfit * (itemCommissionRate / 100)
-          const companyShare = totalProfit - agentCommission
+          const totalProfit = saleLine.profit
+          const agentCommission = saleLine.agentCommission
+          const companyShare = saleLine.companyShare
+          const agentDebt = companyShare + saleLine.taxAmount
           
           console.log('💰 [AGENT SALES] Financial breakdown:')
           console.log('💰 [AGENT SALES] Sale price:', data.salePrice)
@@ -294,8 +348,8 @@ export function AgentSalesPage() {
           console.log('🚫 [AGENT SALES] Agent commission is earned but NOT added to account balance')
           
           const successMessage = customerIdImageUrl && customerIdImageUrl.startsWith('https://') 
-            ? `تم إنشاء البيع بنجاح مع رفع صورة البطاقة! تم إضافة ${formatCurrency(companyShare)} كمديونية للوكيل`
-            : `تم إنشاء البيع بنجاح! تم إضافة ${formatCurrency(companyShare)} كمديونية للوكيل`
+            ? `تم إنشاء البيع بنجاح مع رفع صورة البطاقة! تم إضافة ${formatCurrency(agentDebt)} كمديونية للوكيل`
+            : `تم إنشاء البيع بنجاح! تم إضافة ${formatCurrency(agentDebt)} كمديونية للوكيل`
           
           toast.success(successMessage)
         } else {
@@ -305,10 +359,21 @@ export function AgentSalesPage() {
           
           toast.success(successMessage)
         }
+
+        if (result.installmentPlanId) {
+          toast.success(`تم إنشاء عقد التقسيط رقم ${result.contractNumber}`)
+        }
         
         reset()
+        setPaymentMethod('cash')
+        setInstallmentTerms(getDefaultInstallmentTerms())
         setSelectedItem(null)
         await loadAgentData() // إعادة تحميل البيانات
+      } else if (result.errorCode === 'ITEM_ALREADY_SOLD') {
+        // عملية بيع أخرى سبقت هذه العملية على نفس المنتج
+        toast.error(result.error || 'تم بيع هذا المنتج بالفعل')
+        setSelectedItem(null)
+        await loadAgentData()
       } else {
         toast.error(result.error || 'فشل في إنشاء البيع')
       }
@@ -420,14 +485,24 @@ export function AgentSalesPage() {
             </CardHeader>
             <CardContent className="space-y-4">
               {/* Search */}
-              <div className="relative">
-                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
-                <Input
-                  placeholder="البحث ببصمة الموتور، رقم الشاسيه، الموديل..."
-                  value={searchTerm}
-                  onChange={(e) => setSearchTerm(e.target.value)}
-                  className="pl-10"
-                />
+              <div className="flex gap-2">
+                <div className="relative flex-1">
+                  <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+                  <Input
+                    placeholder="البحث ببصمة الموتور، رقم الشاسيه، الموديل..."
+                    value={searchTerm}
+                    onChange={(e) => setSearchTerm(e.target.value)}
+                    onKeyDown={(e) => {
+                      // قارئ الباركود يكتب محتوى الملصق ثم Enter
+                      if (e.key === 'Enter') {
+                        e.preventDefault()
+                        handleScannedItem(searchTerm)
+                      }
+                    }}
+                    className="pl-10"
+                  />
+                </div>
+                <QrScanButton onScan={handleScannedItem} />
               </div>
 
               {/* Items List */}
@@ -597,8 +672,42 @@ export function AgentSalesPage() {
                   )}
                 </div>
 
+                {/* Payment Method */}
+                <div className="space-y-2">
+                  <Label htmlFor="paymentMethod">طريقة الدفع</Label>
+                  <select
+                    id="paymentMethod"
+                    value={paymentMethod}
+                    onChange={(e) => setPaymentMethod(e.target.value as 'cash' | 'installments')}
+                    className="form-input w-full input-rtl arabic-text"
+                  >
+                    <option value="cash">{paymentMethodTranslations.cash}</option>
+                    <option value="installments">{paymentMethodTranslations.installments}</option>
+                  </select>
+                </div>
+
+                {paymentMethod === 'installments' && (
+                  <InstallmentTermsFields
+                    salePrice={saleLine?.salePrice || 0}
+                    value={installmentTerms}
+                    onChange={setInstallmentTerms}
+                  />
+                )}
+
+                {saleLine && (
+                  <InvoiceTaxFields
+                    rate={tax.rate}
+                    taxMode={tax.taxMode}
+                    onTaxModeChange={tax.setTaxMode}
+                    exemption={tax.exemption}
+                    subtotal={saleLine.netAmount}
+                    totalTax={saleLine.taxAmount}
+                    totalAmount={saleLine.salePrice}
+                  />
+                )}
+
                 {/* Commission Info */}
-                {selectedItem && watchedSalePrice && agentData && (
+                {selectedItem && saleLine && watchedSalePrice && agentData && (
                   <div className={`border rounded-lg p-3 ${
                     id && userData && (isAdmin(userData.role) || isSuperAdmin(userData.role))
                       ? 'bg-yellow-50 border-yellow-200'
@@ -620,8 +729,8 @@ export function AgentSalesPage() {
                         : 'text-green-700'
                     }`}>
                       <div className="flex justify-between">
-                        <span>سعر البيع:</span>
-                        <span className="font-medium">{formatCurrency(watchedSalePrice)}</span>
+                        <span>سعر البيع بدون الضريبة:</span>
+                        <span className="font-medium">{formatCurrency(saleLine.netAmount)}</span>
                       </div>
                       <div className="flex justify-between">
                         <span>سعر الشراء:</span>
@@ -629,12 +738,12 @@ export function AgentSalesPage() {
                       </div>
                       <div className="flex justify-between border-t pt-1">
                         <span>إجمالي الربح:</span>
-                        <span className="font-medium">{formatCurrency(watchedSalePrice - selectedItem.purchasePrice)}</span>
+                        <span className="font-medium">{formatCurrency(saleLine.profit)}</span>
                       </div>
                       <div className="flex justify-between">
-                        <span>نصيب الوكيل ({selectedItem.agentCommissionPercentage || agentData.commissionRate || 10}%):</span>
+                        <span>نصيب الوكيل ({commissionRate}%):</span>
                         <span className="font-medium text-green-600">
-                          {formatCurrency((watchedSalePrice - selectedItem.purchasePrice) * ((selectedItem.agentCommissionPercentage || agentData.commissionRate || 10) / 100))}
+                          {formatCurrency(saleLine.agentCommission)}
                         </span>
                       </div>
                       <div className="flex justify-between border-t pt-1">
@@ -649,13 +758,19 @@ export function AgentSalesPage() {
                             ? 'text-red-600'
                             : 'text-blue-600'
                         }`}>
-                          {formatCurrency((watchedSalePrice - selectedItem.purchasePrice) - ((watchedSalePrice - selectedItem.purchasePrice) * ((selectedItem.agentCommissionPercentage || agentData.commissionRate || 10) / 100)))}
+                          {formatCurrency(saleLine.companyShare)}
                         </span>
                       </div>
+                      {saleLine.taxAmount > 0 && (
+                        <div className="flex justify-between">
+                          <span>الضريبة المحصلة (مستحقة للشركة):</span>
+                          <span className="font-medium">{formatCurrency(saleLine.taxAmount)}</span>
+                        </div>
+                      )}
                     </div>
                     {id && userData && (isAdmin(userData.role) || isSuperAdmin(userData.role)) && (
                       <div className="mt-3 p-2 bg-red-50 border border-red-200 rounded text-xs text-red-700">
-                        <strong>ملاحظة:</strong> سيتم إضافة نصيب الشركة فقط ({formatCurrency((watchedSalePrice - selectedItem.purchasePrice) - ((watchedSalePrice - selectedItem.purchasePrice) * ((selectedItem.agentCommissionPercentage || agentData.commissionRate || 10) / 100)))}) كمديونية على الوكيل.
+                        <strong>ملاحظة:</strong> سيتم إضافة نصيب الشركة والضريبة المحصلة ({formatCurrency(saleLine.companyShare + saleLine.taxAmount)}) كمديونية على الوكيل.
                         نصيب الوكيل لن يُضاف لرصيده.
                         {selectedItem.agentCommissionPercentage && (
                           <>
@@ -10,7 +10,10 @@ import {
   DollarSign,
   Phone,
   MapPin,
-  AlertCircle
+  AlertCircle,
+  Undo2,
+  Scale,
+  ShieldAlert
 } from 'lucide-react'
 import { collection, query, getDocs, orderBy } from 'firebase/firestore'
 import { useAuthState } from 'react-firebase-hooks/auth'
@@ -144,6 +147,24 @@ export function AgentsList() {
                   تقرير الأرصدة المتقدم
                 </Button>
               </Link>
+              <Link to="/agents/returns">
+                <Button variant="outline">
+                  <Undo2 className="ml-2 h-4 w-4" />
+                  مرتجعات الوكلاء
+                </Button>
+              </Link>
+              <Link to="/agents/ledger">
+                <Button variant="outline">
+                  <Scale className="ml-2 h-4 w-4" />
+                  دفتر الأستاذ
+                </Button>
+              </Link>
+              <Link to="/agents/credit">
+                <Button variant="outline">
+                  <ShieldAlert className="ml-2 h-4 w-4" />
+                  حدود الائتمان
+                </Button>
+              </Link>
               <Link to="/agents/debt-report">
                 <Button variant="outline">
                   <CreditCard className="ml-2 h-4 w-4" />
@@ -20,6 +20,10 @@ import { OfflineAgentSalesPage } from './OfflineAgentSalesPage'
 import { DebtReportPage } from './DebtReportPage'
 import { AccountSettlementPage } from './AccountSettlementPage'
 import { AdvancedBalanceReportPage } from './AdvancedBalanceReportPage'
+import { StockReturnsPage } from './StockReturnsPage'
+import { AgentPricingRulesPage } from './AgentPricingRulesPage'
+import { GeneralLedgerPage } from './GeneralLedgerPage'
+import { AgentCreditPage } from './AgentCreditPage'
 
 export function AgentsPage() {
   return (
@@ -43,6 +47,10 @@ export function AgentsPage() {
       <Route path="/debt-report" element={<DebtReportPage />} />
       <Route path="/settlement/:id" element={<AccountSettlementPage />} />
       <Route path="/advanced-balance-report" element={<AdvancedBalanceReportPage />} />
+      <Route path="/returns" element={<StockReturnsPage />} />
+      <Route path="/pricing/:id" element={<AgentPricingRulesPage />} />
+      <Route path="/ledger" element={<GeneralLedgerPage />} />
+      <Route path="/credit" element={<AgentCreditPage />} />
     </Routes>
   )
 }
\ No newline at end of file
@@ -2,7 +2,7 @@ import { useState } from 'react'
 import { useNavigate } from 'react-router-dom'
 import { useForm } from 'react-hook-form'
 import { ArrowLeft, Save, Building2, CreditCard, AlertCircle } from 'lucide-react'
-import { collection, addDoc, doc, setDoc } from 'firebase/firestore'
+import { collection, addDoc, doc, setDoc, writeBatch, serverTimestamp, FieldValue } from 'firebase/firestore'
 import { createUserWithEmailAndPassword } from 'firebase/auth'
 import { useAuthState } from 'react-firebase-hooks/auth'
 import { toast } from 'sonner'
@@ -15,6 +15,7 @@ import { LoadingSpinner } from '@/components/ui/LoadingSpinner'
 import { useUserData } from '@/hooks/useUserData'
 import { Agent, User } from '@/types'
 import { isAdmin, isSuperAdmin } from '@/lib/utils'
+import { GeneralLedgerService, ledgerLine } from '@/lib/generalLedger'
 
 interface CreateAgentFormData {
   name: string
@@ -123,14 +124,15 @@ export function CreateAgentPage() {
 
       // Create agent document with the actual warehouse ID
       console.log('👤 [CREATE AGENT] Creating agent document...')
-      const agentData: Omit<Agent, 'id'> = {
+      const agentData: Omit<Agent, 'id' | 'ledgerStartedAt'> & { ledgerStartedAt: FieldValue } = {
         name: data.name,
         phone: data.phone,
         address: data.address,
         hasUserAccount: data.hasUserAccount,
         userId: userId || null, // Allow null for offline agents
         warehouseId: warehouseRef.id, // Use the actual warehouse ID
-        currentBalance: data.initialBalance,
+        currentBalance: 0, // الرصيد الافتتاحي يرحل كقيد بعد الإنشاء
+        ledgerStartedAt: serverTimestamp(),
         isActive: true,
         createdAt: new Date() as any,
         updatedAt: new Date() as any,
@@ -154,11 +156,25 @@ export function CreateAgentPage() {
         console.log('💰 [CREATE AGENT] Creating initial balance transaction...')
         console.log('💰 [CREATE AGENT] Initial balance:', data.initialBalance)
         
+        const batch = writeBatch(db)
+        const posted = GeneralLedgerService.post(batch, {
+          source: 'opening_balance',
+          sourceId: agentRef.id,
+          description: `الرصيد الافتتاحي للوكيل ${data.name}`,
+          lines: [
+            ledgerLine('agent_receivable', -data.initialBalance, agentRef.id),
+            ledgerLine('opening_balance', data.initialBalance)
+          ],
+          postedBy: userData.id
+        }, { [agentRef.id]: { ref: agentRef, balance: 0 } })
+
         const transactionData = {
           agentId: agentRef.id,
           type: data.initialBalance > 0 ? 'credit' : 'debit',
           amount: data.initialBalance, // استخدام القيمة الفعلية مع الإشارة
           description: 'الرصيد الافتتاحي للوكيل',
+          ...posted.balances[agentRef.id],
+          journalEntryId: posted.entryId,
           createdAt: new Date() as any,
           createdBy: userData.id
         }
@@ -169,7 +185,8 @@ export function CreateAgentPage() {
         console.log('- Transaction amount:', transactionData.amount)
         console.log('- Expected display: Debit column for negative, Credit column for positive')
 
-        await addDoc(collection(db, 'agent_transactions'), transactionData)
+        batch.set(doc(collection(db, 'agent_transactions')), transactionData)
+        await batch.commit()
         console.log('✅ [CREATE AGENT] Initial balance transaction created:', transactionData)
       } else {
         console.log('ℹ️ [CREATE AGENT] No initial balance transaction needed (balance is 0)')
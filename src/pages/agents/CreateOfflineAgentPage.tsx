@@ -71,6 +71,7 @@ export function CreateOfflineAgentPage() {
         userId: null,
         warehouseId: warehouseId,
         currentBalance: 0, // Start with zero balance
+        ledgerStartedAt: serverTimestamp(),
         commissionRate: data.commissionRate,
         notes: data.notes || '',
         isActive: true,
@@ -21,6 +21,8 @@ interface EditAgentFormData {
   phone: string
   address: string
   commissionRate: number
+  creditLimit: number
+  maxOverdueDays: number
   notes: string
   isActive: boolean
 }
@@ -63,6 +65,8 @@ export function EditAgentPage() {
       setValue('phone', agentData.phone)
       setValue('address', agentData.address)
       setValue('commissionRate', agentData.commissionRate || 5)
+      setValue('creditLimit', agentData.creditLimit || 0)
+      setValue('maxOverdueDays', agentData.maxOverdueDays || 0)
       setValue('notes', agentData.notes || '')
       setValue('isActive', agentData.isActive)
 
@@ -86,6 +90,8 @@ export function EditAgentPage() {
         phone: data.phone,
         address: data.address,
         commissionRate: data.commissionRate,
+        creditLimit: data.creditLimit || 0,
+        maxOverdueDays: data.maxOverdueDays || 0,
         notes: data.notes,
         isActive: data.isActive,
         updatedAt: new Date(),
@@ -243,6 +249,43 @@ export function EditAgentPage() {
                 )}
               </div>
 
+              {/* حد الائتمان: صفر يعني بدون حد */}
+              <div>
+                <Label htmlFor="creditLimit" className="arabic-text">حد الائتمان (جنيه)</Label>
+                <Input
+                  id="creditLimit"
+                  type="number"
+                  min="0"
+                  step="1"
+                  {...register('creditLimit', { 
+                    valueAsNumber: true,
+                    min: { value: 0, message: 'حد الائتمان يجب أن يكون أكبر من أو يساوي 0' }
+                  })}
+                />
+                <p className="text-xs text-gray-500 mt-1 arabic-text">أقصى مديونية قبل إيقاف التحويل للوكيل، صفر يعني بدون حد</p>
+                {errors.creditLimit && (
+                  <p className="text-sm text-red-600 mt-1 arabic-text">{errors.creditLimit.message}</p>
+                )}
+              </div>
+
+              <div>
+                <Label htmlFor="maxOverdueDays" className="arabic-text">أقصى عمر للمديونية (يوم)</Label>
+                <Input
+                  id="maxOverdueDays"
+                  type="number"
+                  min="0"
+                  step="1"
+                  {...register('maxOverdueDays', { 
+                    valueAsNumber: true,
+                    min: { value: 0, message: 'عدد الأيام يجب أن يكون أكبر من أو يساوي 0' }
+                  })}
+                />
+                <p className="text-xs text-gray-500 mt-1 arabic-text">عمر أقدم مديونية غير مسددة قبل إيقاف التحويل، صفر يعني بدون حد</p>
+                {errors.maxOverdueDays && (
+                  <p className="text-sm text-red-600 mt-1 arabic-text">{errors.maxOverdueDays.message}</p>
+                )}
+              </div>
+
               {/* حالة النشاط */}
               <div>
                 <Label htmlFor="isActive" className="arabic-text">حالة الوكيل</Label>
@@ -0,0 +1,278 @@
+import { useState, useEffect } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { toast } from 'sonner'
+import { AlertCircle, ArrowLeft, RefreshCw, Scale } from 'lucide-react'
+import { useAuthState } from 'react-firebase-hooks/auth'
+
+import { auth } from '@/firebase/firebase-config.template'
+import { Button } from '@/components/ui/Button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/Card'
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner'
+import { useUserData } from '@/hooks/useUserData'
+import { JournalEntry } from '@/types'
+import { cn, formatCurrency, formatDateTime, isAdmin, isSuperAdmin } from '@/lib/utils'
+import {
+  AgentLedgerRow,
+  GeneralLedgerService,
+  journalSourceLabels,
+  ledgerAccounts,
+  TrialBalanceRow
+} from '@/lib/generalLedger'
+
+export function GeneralLedgerPage() {
+  const navigate = useNavigate()
+  const [user] = useAuthState(auth)
+  const { userData } = useUserData(user?.uid)
+  const [accounts, setAccounts] = useState<TrialBalanceRow[]>([])
+  const [agentRows, setAgentRows] = useState<AgentLedgerRow[]>([])
+  const [entries, setEntries] = useState<JournalEntry[]>([])
+  const [selectedAgentId, setSelectedAgentId] = useState('')
+  const [loading, setLoading] = useState(true)
+  const [reconciling, setReconciling] = useState(false)
+
+  const canManage = userData && (isAdmin(userData.role) || isSuperAdmin(userData.role))
+
+  useEffect(() => {
+    if (canManage) {
+      loadData()
+    }
+  }, [canManage])
+
+  useEffect(() => {
+    if (canManage) {
+      GeneralLedgerService.getEntries(selectedAgentId ? { agentId: selectedAgentId } : {}).then(setEntries)
+    }
+  }, [canManage, selectedAgentId])
+
+  const loadData = async () => {
+    try {
+      setLoading(true)
+      const trialBalance = await GeneralLedgerService.getTrialBalance()
+      setAccounts(trialBalance.accounts)
+      setAgentRows(trialBalance.agents.sort((a, b) => a.agentName.localeCompare(b.agentName, 'ar')))
+    } catch (error) {
+      console.error('Error loading general ledger:', error)
+      toast.error('فشل في تحميل دفتر الأستاذ')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleReconcile = async () => {
+    if (!userData) return
+    if (!window.confirm('ترحيل الأرصدة الافتتاحية للوكلاء السابقين للدفتر وتصحيح أي رصيد مخزن يخالف الدفتر؟')) return
+
+    setReconciling(true)
+    const result = await GeneralLedgerService.reconcileAgentBalances(userData.id)
+    setReconciling(false)
+
+    if (result.success) {
+      toast.success(`تم ترحيل ${result.opened} رصيد افتتاحي وتصحيح ${result.corrected} رصيد`)
+      loadData()
+      GeneralLedgerService.getEntries(selectedAgentId ? { agentId: selectedAgentId } : {}).then(setEntries)
+    } else {
+      toast.error(result.error || 'فشل في مطابقة أرصدة الوكلاء')
+    }
+  }
+
+  if (!userData) {
+    return <LoadingSpinner text="جاري تحميل بيانات المستخدم..." />
+  }
+
+  if (!canManage) {
+    return (
+      <div className="text-center py-12">
+        <AlertCircle className="mx-auto h-12 w-12 text-red-500 mb-4" />
+        <h3 className="text-lg font-medium text-gray-900 mb-2 arabic-text">غير مصرح لك بالوصول</h3>
+        <p className="text-gray-500 arabic-text">دفتر الأستاذ متاح للمديرين فقط</p>
+      </div>
+    )
+  }
+
+  const totalDebit = accounts.reduce((sum, row) => sum + row.debit, 0)
+  const totalCredit = accounts.reduce((sum, row) => sum + row.credit, 0)
+  const mismatchedAgents = agentRows.filter(row => !row.ledgerStarted || Math.abs(row.ledgerBalance - row.cachedBalance) >= 0.01)
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-6 py-6">
+      {/* Page Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 arabic-text">دفتر الأستاذ العام</h1>
+          <p className="text-gray-600 arabic-text">
+            كل عملية بيع أو تحويل أو مرتجع أو تحصيل ترحل قيداً متوازناً، وأرصدة الوكلاء مشتقة من حساب ذمم الوكلاء
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={handleReconcile} loading={reconciling}>
+            <RefreshCw className="ml-2 h-4 w-4" />
+            مطابقة الأرصدة
+          </Button>
+          <Button variant="outline" onClick={() => navigate('/agents')}>
+            <ArrowLeft className="ml-2 h-4 w-4" />
+            العودة للوكلاء
+          </Button>
+        </div>
+      </div>
+
+      {loading ? (
+        <LoadingSpinner text="جاري تحميل دفتر الأستاذ..." />
+      ) : (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Scale className="h-5 w-5" />
+                ميزان المراجعة
+              </CardTitle>
+              <CardDescription>
+                {Math.abs(totalDebit - totalCredit) < 0.01 ? 'الميزان متوازن' : 'الميزان غير متوازن - راجع القيود'}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-3 py-2 text-right">الكود</th>
+                      <th className="px-3 py-2 text-right">الحساب</th>
+                      <th className="px-3 py-2 text-right">مدين</th>
+                      <th className="px-3 py-2 text-right">دائن</th>
+                      <th className="px-3 py-2 text-right">الرصيد</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y">
+                    {accounts.map(row => (
+                      <tr key={row.account}>
+                        <td className="px-3 py-2 font-mono">{ledgerAccounts[row.account].code}</td>
+                        <td className="px-3 py-2">{ledgerAccounts[row.account].name}</td>
+                        <td className="px-3 py-2">{formatCurrency(row.debit)}</td>
+                        <td className="px-3 py-2">{formatCurrency(row.credit)}</td>
+                        <td className="px-3 py-2 font-medium">{formatCurrency(row.debit - row.credit)}</td>
+                      </tr>
+                    ))}
+                    <tr className="bg-gray-50 font-bold">
+                      <td className="px-3 py-2" colSpan={2}>الإجمالي</td>
+                      <td className="px-3 py-2">{formatCurrency(totalDebit)}</td>
+                      <td className="px-3 py-2">{formatCurrency(totalCredit)}</td>
+                      <td className="px-3 py-2">{formatCurrency(totalDebit - totalCredit)}</td>
+                    </tr>
+                  </tbody>
+                </table>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>أرصدة الوكلاء</CardTitle>
+              <CardDescription>
+                {mismatchedAgents.length === 0
+                  ? 'كل الأرصدة المخزنة مطابقة للدفتر'
+                  : `${mismatchedAgents.length} وكيل يحتاج مطابقة - الوكلاء السابقون للدفتر يرحل لهم رصيد افتتاحي مرة واحدة`}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-3 py-2 text-right">الوكيل</th>
+                      <th className="px-3 py-2 text-right">رصيد الدفتر</th>
+                      <th className="px-3 py-2 text-right">الرصيد المخزن</th>
+                      <th className="px-3 py-2 text-right">عدد القيود</th>
+                      <th className="px-3 py-2 text-right">الحالة</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y">
+                    {agentRows.map(row => {
+                      const matches = row.ledgerStarted && Math.abs(row.ledgerBalance - row.cachedBalance) < 0.01
+                      return (
+                        <tr key={row.agentId}>
+                          <td className="px-3 py-2">{row.agentName}</td>
+                          <td className={cn('px-3 py-2', row.ledgerBalance < 0 ? 'text-red-600' : 'text-green-600')}>
+                            {formatCurrency(row.ledgerBalance)}
+                          </td>
+                          <td className="px-3 py-2">{formatCurrency(row.cachedBalance)}</td>
+                          <td className="px-3 py-2">{row.entryCount}</td>
+                          <td className="px-3 py-2">
+                            <span className={cn('px-2 py-1 rounded-full text-xs', matches ? 'bg-green-100 text-green-800' : 'bg-yellow-100 text-yellow-800')}>
+                              {matches ? 'مطابق' : row.ledgerStarted ? 'يخالف الدفتر' : 'بدون رصيد افتتاحي'}
+                            </span>
+                          </td>
+                        </tr>
+                      )
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            </CardContent>
+          </Card>
+        </>
+      )}
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <CardTitle>القيود</CardTitle>
+              <CardDescription>{selectedAgentId ? 'كل قيود الوكيل' : 'أحدث القيود المرحلة'}</CardDescription>
+            </div>
+            <select
+              value={selectedAgentId}
+              onChange={(e) => setSelectedAgentId(e.target.value)}
+              className="form-input input-rtl arabic-text max-w-xs"
+            >
+              <option value="">كل الوكلاء</option>
+              {agentRows.map(row => (
+                <option key={row.agentId} value={row.agentId}>{row.agentName}</option>
+              ))}
+            </select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {entries.length === 0 ? (
+            <p className="text-center text-gray-500 py-8 arabic-text">لا توجد قيود</p>
+          ) : (
+            <div className="space-y-3">
+              {entries.map(entry => (
+                <div key={entry.id} className="border rounded-lg p-3">
+                  <div className="flex items-center justify-between mb-2">
+                    <div>
+                      <p className="font-medium">{entry.description}</p>
+                      <p className="text-xs text-gray-500">
+                        {journalSourceLabels[entry.source]}
+                        {entry.reference ? ` - ${entry.reference}` : ''}
+                        {' - '}
+                        {formatDateTime(entry.postedAt)}
+                      </p>
+                    </div>
+                    <span className="font-bold">{formatCurrency(entry.totalAmount)}</span>
+                  </div>
+                  <table className="w-full text-sm">
+                    <tbody className="divide-y">
+                      {entry.lines.map((line, index) => (
+                        <tr key={index}>
+                          <td className="px-3 py-1">
+                            {ledgerAccounts[line.account].name}
+                            {line.agentId && (
+                              <span className="text-xs text-gray-500">
+                                {' - '}{agentRows.find(row => row.agentId === line.agentId)?.agentName || line.agentId}
+                              </span>
+                            )}
+                          </td>
+                          <td className="px-3 py-1 w-32">{line.debit > 0 ? formatCurrency(line.debit) : ''}</td>
+                          <td className="px-3 py-1 w-32">{line.credit > 0 ? formatCurrency(line.credit) : ''}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -11,7 +11,7 @@ import {
   AlertCircle
 } from 'lucide-react'
 import { toast } from 'sonner'
-import { collection, query, where, getDocs, doc, getDoc, addDoc, updateDoc, serverTimestamp } from 'firebase/firestore'
+import { collection, query, where, getDocs, doc, getDoc, runTransaction, serverTimestamp } from 'firebase/firestore'
 import { useAuthState } from 'react-firebase-hooks/auth'
 
 import { db, auth } from '@/firebase/firebase-config.template'
@@ -23,6 +23,9 @@ import { LoadingSpinner } from '@/components/ui/LoadingSpinner'
 import { CustomerIdCapture } from '@/components/ui/CustomerIdCapture'
 import { useUserData } from '@/hooks/useUserData'
 import { formatCurrency, isAdmin, isSuperAdmin } from '@/lib/utils'
+import { ReorderLevelService } from '@/lib/reorderLevels'
+import { GeneralLedgerService, agentSaleLines } from '@/lib/generalLedger'
+import { DocumentNumberingService } from '@/lib/documentNumbering'
 
 interface SaleFormData {
   customer: {
@@ -193,100 +196,133 @@ export function ManagerAgentSalesPage() {
     try {
       setSubmitting(true)
       
-      const saleTransactionId = `sale_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+      // معرف مستند البيع هو مرجعه في تتبع الوثائق والمرتجعات
+      const saleRef = doc(collection(db, 'sales'))
       const totalProfit = data.salePrice - selectedItem.purchasePrice
       const agentCommission = totalProfit * (agent.commissionRate / 100)
       const companyShare = totalProfit - agentCommission
 
-      // Create sale transaction
-      await addDoc(collection(db, 'sales'), {
-        id: saleTransactionId,
-        agentId: agent.id,
-        agentName: agent.name,
-        customerId: data.customer.nationalId,
-        customerName: data.customer.name,
-        customerPhone: data.customer.phone,
-        customerAddress: data.customer.address,
-        inventoryItemId: selectedItem.id,
-        motorFingerprint: selectedItem.motorFingerprint,
-        chassisNumber: selectedItem.chassisNumber,
-        salePrice: data.salePrice,
-        purchasePrice: selectedItem.purchasePrice,
-        totalProfit,
-        agentCommission,
-        companyShare,
-        commissionRate: agent.commissionRate,
-        notes: data.notes || '',
-        saleType: 'manager_on_behalf',
-        createdAt: serverTimestamp(),
-        createdBy: userData.id
-      })
-
-      // Update inventory item status
-      await updateDoc(doc(db, 'inventory_items', selectedItem.id), {
-        status: 'sold',
-        soldAt: serverTimestamp(),
-        soldBy: userData.id,
-        saleTransactionId,
-        finalSalePrice: data.salePrice
-      })
-
-      // Add agent transaction - ONLY company share as debt to agent
-      await addDoc(collection(db, 'agent_transactions'), {
-        agentId: agent.id,
-        transactionId: saleTransactionId,
-        type: 'sale_debt',
-        amount: -companyShare, // Negative = debt to company
-        description: `مديونية بيع بالنيابة - ${selectedItem.brand} ${selectedItem.model} - العميل: ${data.customer.name}`,
-        relatedSaleId: saleTransactionId,
-        createdAt: serverTimestamp(),
-        createdBy: userData.id
-      })
-
-      // Update agent balance - ONLY add company share as debt
-      await updateDoc(doc(db, 'agents', agent.id), {
-        currentBalance: agent.currentBalance - companyShare,
-        totalSales: (Number((agent as any).totalSales) || 0) + data.salePrice,
-        lastSaleDate: serverTimestamp(),
-        updatedAt: serverTimestamp()
-      })
-
-      // Create document tracking
-      await addDoc(collection(db, 'document_tracking'), {
-        saleTransactionId,
-        customerName: data.customer.name,
-        customerNationalId: data.customer.nationalId,
-        customerPhone: data.customer.phone,
-        customerAddress: data.customer.address,
-        motorFingerprint: selectedItem.motorFingerprint,
-        chassisNumber: selectedItem.chassisNumber,
-        motorBrand: selectedItem.brand,
-        motorModel: selectedItem.model,
-        salePrice: data.salePrice,
-        purchasePrice: selectedItem.purchasePrice,
-        profit: totalProfit,
-        agentId: agent.id,
-        agentName: agent.name,
-        agentCommission,
-        companyShare,
-        saleType: 'manager_on_behalf',
-        idCardFrontImageUrl,
-        idCardBackImageUrl,
-        motorFingerprintImageUrl: selectedItem.motorFingerprintImageUrl,
-        chassisNumberImageUrl: selectedItem.chassisNumberImageUrl,
-        status: 'pending_submission',
-        stages: [{
+      // البيع وحالة المنتج وقيد الدفتر وتتبع الوثائق ورقم الفاتورة المسلسل في معاملة واحدة
+      const agentRef = doc(db, 'agents', agent.id)
+      const itemRef = doc(db, 'inventory_items', selectedItem.id)
+      const invoiceNumber = await runTransaction(db, async (transaction) => {
+        const itemDoc = await transaction.get(itemRef)
+        if (!itemDoc.exists() || itemDoc.data().status !== 'available' || itemDoc.data().currentWarehouseId !== agent.warehouseId) {
+          throw new Error(`المنتج ${selectedItem.chassisNumber} لم يعد متاحاً للبيع`)
+        }
+        const agentDoc = await transaction.get(agentRef)
+        if (!agentDoc.exists()) {
+          throw new Error('الوكيل غير موجود')
+        }
+        const agentData = agentDoc.data()
+        const allocatedNumber = await DocumentNumberingService.allocate(transaction, 'agent_invoice')
+
+        // Create sale transaction
+        transaction.set(saleRef, {
+          invoiceNumber: allocatedNumber,
+          agentId: agent.id,
+          agentName: agent.name,
+          customerId: data.customer.nationalId,
+          customerName: data.customer.name,
+          customerPhone: data.customer.phone,
+          customerAddress: data.customer.address,
+          inventoryItemId: selectedItem.id,
+          motorFingerprint: selectedItem.motorFingerprint,
+          chassisNumber: selectedItem.chassisNumber,
+          salePrice: data.salePrice,
+          purchasePrice: selectedItem.purchasePrice,
+          totalProfit,
+          agentCommission,
+          companyShare,
+          commissionRate: agent.commissionRate,
+          notes: data.notes || '',
+          saleType: 'manager_on_behalf',
+          createdAt: serverTimestamp(),
+          createdBy: userData.id
+        })
+
+        // Update inventory item status
+        transaction.update(itemRef, {
+          status: 'sold',
+          soldAt: serverTimestamp(),
+          soldBy: userData.id,
+          saleTransactionId: saleRef.id,
+          finalSalePrice: data.salePrice
+        })
+
+        // Post the sale to the ledger - ONLY company share becomes debt on the agent
+        const description = `مديونية بيع بالنيابة - ${selectedItem.brand} ${selectedItem.model} - العميل: ${data.customer.name} - فاتورة رقم ${allocatedNumber}`
+        const posted = GeneralLedgerService.post(transaction, {
+          source: 'agent_sale',
+          sourceId: saleRef.id,
+          reference: allocatedNumber,
+          description,
+          lines: agentSaleLines(agent.id, { netAmount: data.salePrice, taxAmount: 0, companyShare, agentCommission }),
+          postedBy: userData.id
+        }, { [agent.id]: { ref: agentRef, balance: Number(agentData.currentBalance) || 0 } })
+
+        // Add agent transaction - ONLY company share as debt to agent
+        transaction.set(doc(collection(db, 'agent_transactions')), {
+          agentId: agent.id,
+          transactionId: saleRef.id,
+          type: 'sale_debt',
+          amount: -companyShare, // Negative = debt to company
+          description,
+          relatedSaleId: saleRef.id,
+          ...posted.balances[agent.id],
+          journalEntryId: posted.entryId,
+          createdAt: serverTimestamp(),
+          createdBy: userData.id
+        })
+
+        transaction.update(agentRef, {
+          totalSales: (Number(agentData.totalSales) || 0) + data.salePrice,
+          lastSaleDate: serverTimestamp()
+        })
+
+        // Create document tracking
+        transaction.set(doc(collection(db, 'document_tracking')), {
+          saleTransactionId: saleRef.id,
+          inventoryItemId: selectedItem.id,
+          invoiceNumber: allocatedNumber,
+          customerName: data.customer.name,
+          customerNationalId: data.customer.nationalId,
+          customerPhone: data.customer.phone,
+          customerAddress: data.customer.address,
+          motorFingerprint: selectedItem.motorFingerprint,
+          chassisNumber: selectedItem.chassisNumber,
+          motorBrand: selectedItem.brand,
+          motorModel: selectedItem.model,
+          salePrice: data.salePrice,
+          purchasePrice: selectedItem.purchasePrice,
+          profit: totalProfit,
+          agentId: agent.id,
+          agentName: agent.name,
+          agentCommission,
+          companyShare,
+          saleType: 'manager_on_behalf',
+          idCardFrontImageUrl,
+          idCardBackImageUrl,
+          motorFingerprintImageUrl: selectedItem.motorFingerprintImageUrl || null,
+          chassisNumberImageUrl: selectedItem.chassisNumberImageUrl || null,
           status: 'pending_submission',
-          date: new Date(),
-          updatedBy: userData.id,
-          notes: 'تم إنشاء سجل تتبع الوثائق'
-        }],
-        createdAt: serverTimestamp(),
-        updatedAt: serverTimestamp(),
-        createdBy: userData.id
+          stages: [{
+            status: 'pending_submission',
+            date: new Date(),
+            updatedBy: userData.id,
+            notes: 'تم إنشاء سجل تتبع الوثائق'
+          }],
+          createdAt: serverTimestamp(),
+          updatedAt: serverTimestamp(),
+          createdBy: userData.id
+        })
+
+        return allocatedNumber
       })
 
-      toast.success(`تم إنشاء البيع بنجاح! تم إضافة ${formatCurrency(companyShare)} كمديونية للوكيل`)
+      ReorderLevelService.checkWarehouses([selectedItem.currentWarehouseId])
+
+      toast.success(`تم إنشاء الفاتورة رقم ${invoiceNumber} بنجاح! تم إضافة ${formatCurrency(companyShare)} كمديونية للوكيل`)
       reset()
       setSelectedItem(null)
       setIdCardFrontImageUrl('')
@@ -295,7 +331,7 @@ export function ManagerAgentSalesPage() {
       
     } catch (error) {
       console.error('Error creating sale:', error)
-      toast.error('فشل في إنشاء البيع')
+      toast.error(`فشل في إنشاء البيع: ${error instanceof Error ? error.message : 'خطأ غير معروف'}`)
     } finally {
       setSubmitting(false)
     }
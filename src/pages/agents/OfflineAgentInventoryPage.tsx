@@ -4,6 +4,7 @@ import {
   ArrowLeft, 
   Package, 
   ArrowRightLeft,
+  AlertTriangle,
   Eye,
   Search
 } from 'lucide-react'
@@ -14,8 +15,7 @@ import {
   getDocs, 
   doc, 
   getDoc, 
-  addDoc, 
-  updateDoc, 
+  runTransaction,
   serverTimestamp 
 } from 'firebase/firestore'
 import { useAuthState } from 'react-firebase-hooks/auth'
@@ -30,6 +30,8 @@ import { useUserData } from '@/hooks/useUserData'
 import { Agent, InventoryItem } from '@/types'
 import { formatCurrency, isAdmin, isSuperAdmin } from '@/lib/utils'
 import { cn } from '@/lib/utils'
+import { GeneralLedgerService, agentStockLines } from '@/lib/generalLedger'
+import { AgentCreditExposure, AgentCreditService, evaluateAgentCredit } from '@/lib/agentCredit'
 
 export function OfflineAgentInventoryPage() {
   const { id } = useParams<{ id: string }>()
@@ -45,6 +47,7 @@ export function OfflineAgentInventoryPage() {
   const [showTransferModal, setShowTransferModal] = useState(false)
   const [selectedItems, setSelectedItems] = useState<string[]>([])
   const [search, setSearch] = useState('')
+  const [creditExposure, setCreditExposure] = useState<AgentCreditExposure | null>(null)
 
   useEffect(() => {
     if (userData && id) {
@@ -68,6 +71,7 @@ export function OfflineAgentInventoryPage() {
 
       const agentData = { id: agentDoc.id, ...agentDoc.data() } as Agent
       setAgent(agentData)
+      setCreditExposure(await AgentCreditService.getExposure(agentData.id))
 
       // Load agent's inventory
       const inventoryQuery = query(
@@ -106,13 +110,31 @@ export function OfflineAgentInventoryPage() {
     }
   }
 
-  const handleTransferItems = async () => {
+  const handleTransferItems = async (overrideReason: string) => {
     if (!agent || !userData || selectedItems.length === 0) return
 
+    // Total debt this agent invoice adds, at purchase price
+    const totalAmount = selectedItems.reduce((sum, itemId) => {
+      const item = availableItems.find(i => i.id === itemId)!
+      return sum + item.purchasePrice
+    }, 0)
+
     try {
       setTransferring(true)
 
-      // Create transfer transaction
+      // حد الائتمان يفحص قبل نقل أي صنف، والتجاوز للمدير العام فقط مع سبب
+      const credit = await AgentCreditService.checkAgent(agent.id, totalAmount)
+      if (credit?.check.status === 'blocked') {
+        if (!isSuperAdmin(userData.role)) {
+          toast.error(`تم إيقاف التحويل: ${credit.check.blockReasons.join('، ')}`)
+          return
+        }
+        if (!overrideReason.trim()) {
+          toast.error('يرجى كتابة سبب تجاوز حد الائتمان')
+          return
+        }
+      }
+
       const transferData = {
         type: 'warehouse_transfer',
         date: serverTimestamp(),
@@ -138,23 +160,7 @@ export function OfflineAgentInventoryPage() {
         updatedAt: serverTimestamp()
       }
 
-      await addDoc(collection(db, 'transactions'), transferData)
-
-      // Update inventory items warehouse
-      for (const itemId of selectedItems) {
-        await updateDoc(doc(db, 'inventory_items', itemId), {
-          currentWarehouseId: agent.warehouseId,
-          status: 'transferred',
-          updatedAt: serverTimestamp()
-        })
-      }
-
       // Create agent invoice for transferred items
-      const totalAmount = selectedItems.reduce((sum, itemId) => {
-        const item = availableItems.find(i => i.id === itemId)!
-        return sum + item.purchasePrice
-      }, 0)
-
       const agentInvoiceData = {
         agentId: agent.id,
         type: 'agent_invoice',
@@ -173,13 +179,59 @@ export function OfflineAgentInventoryPage() {
         createdBy: userData.id
       }
 
-      await addDoc(collection(db, 'agent_transactions'), agentInvoiceData)
+      // نقل الأصناف وقيد الفاتورة في معاملة واحدة، ولا يكتب شيء قبل إعادة فحص حد الائتمان
+      const agentRef = doc(db, 'agents', agent.id)
+      const itemRefs = selectedItems.map(itemId => doc(db, 'inventory_items', itemId))
+      await runTransaction(db, async (transaction) => {
+        const agentDoc = await transaction.get(agentRef)
+        if (!agentDoc.exists()) {
+          throw new Error('الوكيل غير موجود')
+        }
+        const itemDocs = await Promise.all(itemRefs.map(itemRef => transaction.get(itemRef)))
+        itemDocs.forEach(itemDoc => {
+          if (!itemDoc.exists() || itemDoc.data().status !== 'available') {
+            throw new Error(`الصنف ${itemDoc.data()?.chassisNumber || itemDoc.id} لم يعد متاحاً للتحويل`)
+          }
+        })
+
+        const agentData = { id: agentDoc.id, ...agentDoc.data() } as Agent
+        const check = evaluateAgentCredit(agentData, credit?.check || { pendingDebt: 0, overdueDays: 0 }, totalAmount)
+        AgentCreditService.assertOverrideAllowed(check, { reason: overrideReason }, userData)
 
-      // Update agent balance (increase debt)
-      const newBalance = agent.currentBalance - totalAmount
-      await updateDoc(doc(db, 'agents', agent.id), {
-        currentBalance: newBalance,
-        updatedAt: serverTimestamp()
+        // Create transfer transaction
+        transaction.set(doc(collection(db, 'transactions')), transferData)
+
+        // Update inventory items warehouse
+        itemRefs.forEach(itemRef => {
+          transaction.update(itemRef, {
+            currentWarehouseId: agent.warehouseId,
+            status: 'transferred',
+            updatedAt: serverTimestamp()
+          })
+        })
+
+        const creditOverrideId = check.status === 'blocked'
+          ? AgentCreditService.recordOverride(transaction, agentData, check, {
+              source: 'offline_transfer',
+              amount: totalAmount,
+              reason: overrideReason,
+              reference: transferData.referenceNumber
+            }, { id: userData.id, name: userData.displayName })
+          : undefined
+
+        const posted = GeneralLedgerService.post(transaction, {
+          source: 'offline_transfer',
+          description: agentInvoiceData.description,
+          lines: agentStockLines(agent.id, totalAmount, totalAmount),
+          postedBy: userData.id
+        }, { [agent.id]: { ref: agentRef, balance: Number(agentDoc.data().currentBalance) || 0 } })
+
+        transaction.set(doc(collection(db, 'agent_transactions')), {
+          ...agentInvoiceData,
+          ...posted.balances[agent.id],
+          journalEntryId: posted.entryId,
+          ...(creditOverrideId ? { creditOverrideId } : {})
+        })
       })
 
       toast.success(`تم تحويل ${selectedItems.length} موتوسيكل بنجاح`)
@@ -189,7 +241,7 @@ export function OfflineAgentInventoryPage() {
 
     } catch (error) {
       console.error('Error transferring items:', error)
-      toast.error('فشل في تحويل الأصناف')
+      toast.error(error instanceof Error ? error.message : 'فشل في تحويل الأصناف')
     } finally {
       setTransferring(false)
     }
@@ -378,6 +430,9 @@ export function OfflineAgentInventoryPage() {
           onTransfer={handleTransferItems}
           onCancel={() => setShowTransferModal(false)}
           transferring={transferring}
+          agent={agent}
+          creditExposure={creditExposure}
+          canOverrideCredit={!!userData && isSuperAdmin(userData.role)}
         />
       )}
     </div>
@@ -452,16 +507,23 @@ function TransferModal({
   setSelectedItems, 
   onTransfer, 
   onCancel, 
-  transferring 
+  transferring,
+  agent,
+  creditExposure,
+  canOverrideCredit
 }: {
   availableItems: InventoryItem[]
   selectedItems: string[]
   setSelectedItems: (items: string[]) => void
-  onTransfer: () => void
+  onTransfer: (overrideReason: string) => void
   onCancel: () => void
   transferring: boolean
+  agent: Agent | null
+  creditExposure: AgentCreditExposure | null
+  canOverrideCredit: boolean
 }) {
   const [search, setSearch] = useState('')
+  const [overrideReason, setOverrideReason] = useState('')
 
   const filteredItems = availableItems.filter(item =>
     item.motorFingerprint.toLowerCase().includes(search.toLowerCase()) ||
@@ -483,6 +545,9 @@ function TransferModal({
     return sum + (item?.purchasePrice || 0)
   }, 0)
 
+  const creditCheck = agent && creditExposure ? evaluateAgentCredit(agent, creditExposure, totalValue) : null
+  const creditBlocked = creditCheck?.status === 'blocked'
+
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
       <div className="bg-white rounded-lg p-6 max-w-4xl w-full mx-4 max-h-[80vh] overflow-hidden">
@@ -514,6 +579,32 @@ function TransferModal({
             </div>
           )}
 
+          {/* Credit limit */}
+          {creditCheck && creditCheck.status !== 'ok' && (
+            <div className={cn('border rounded-lg p-3', creditBlocked ? 'bg-red-50 border-red-200' : 'bg-orange-50 border-orange-200')}>
+              <p className={cn('text-sm font-medium flex items-center gap-2', creditBlocked ? 'text-red-800' : 'text-orange-800')}>
+                <AlertTriangle className="h-4 w-4" />
+                {creditBlocked ? 'التحويل يتجاوز حد ائتمان الوكيل' : 'الوكيل قريب من حد الائتمان'}
+              </p>
+              <ul className={cn('text-xs mt-1 space-y-1', creditBlocked ? 'text-red-700' : 'text-orange-700')}>
+                {[...creditCheck.blockReasons, ...creditCheck.warnings].map(reason => (
+                  <li key={reason}>{reason}</li>
+                ))}
+              </ul>
+              {creditBlocked && (canOverrideCredit ? (
+                <textarea
+                  rows={2}
+                  value={overrideReason}
+                  onChange={(e) => setOverrideReason(e.target.value)}
+                  className="form-input w-full input-rtl arabic-text mt-2"
+                  placeholder="سبب تجاوز حد الائتمان (مطلوب)"
+                />
+              ) : (
+                <p className="text-xs text-red-700 mt-2">لا يمكن التحويل إلا بتجاوز من المدير العام</p>
+              ))}
+            </div>
+          )}
+
           {/* Items list */}
           <div className="max-h-96 overflow-y-auto border rounded-lg">
             {filteredItems.length === 0 ? (
@@ -565,8 +656,8 @@ function TransferModal({
           <div className="flex items-center justify-end gap-3">
             <Button variant="outline" onClick={onCancel}>إلغاء</Button>
             <Button
-              onClick={onTransfer}
-              disabled={selectedItems.length === 0 || transferring}
+              onClick={() => onTransfer(overrideReason)}
+              disabled={selectedItems.length === 0 || transferring || (creditBlocked && (!canOverrideCredit || !overrideReason.trim()))}
             >
               {transferring ? (
                 <>
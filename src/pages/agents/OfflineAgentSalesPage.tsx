@@ -14,8 +14,7 @@ import {
   getDocs, 
   doc, 
   getDoc, 
-  addDoc, 
-  updateDoc, 
+  runTransaction,
   serverTimestamp 
 } from 'firebase/firestore'
 import { useAuthState } from 'react-firebase-hooks/auth'
@@ -29,6 +28,9 @@ import { LoadingSpinner } from '@/components/ui/LoadingSpinner'
 import { useUserData } from '@/hooks/useUserData'
 import { Agent, InventoryItem } from '@/types'
 import { formatCurrency, formatDate, isAdmin, isSuperAdmin } from '@/lib/utils'
+import { ReorderLevelService } from '@/lib/reorderLevels'
+import { GeneralLedgerService, ledgerLine } from '@/lib/generalLedger'
+import { DocumentNumberingService } from '@/lib/documentNumbering'
 
 interface OfflineAgentSale {
   id: string
@@ -539,45 +541,71 @@ function CreateSaleModal({
         createdBy: userData.id
       }
 
-      await addDoc(collection(db, 'sales'), saleData)
-
-      // Update inventory item status
-      await updateDoc(doc(db, 'inventory_items', selectedItem.id), {
-        status: 'sold',
-        soldDate: serverTimestamp(),
-        soldPrice: salePriceNum,
-        updatedAt: serverTimestamp()
+      // البيع وحالة المنتج وقيد العمولة ورقم الفاتورة المسلسل في معاملة واحدة
+      const saleRef = doc(collection(db, 'sales'))
+      const itemRef = doc(db, 'inventory_items', selectedItem.id)
+      const agentRef = doc(db, 'agents', agent.id)
+      const invoiceNumber = await runTransaction(db, async (transaction) => {
+        const itemDoc = await transaction.get(itemRef)
+        if (!itemDoc.exists() || itemDoc.data().status !== 'available') {
+          throw new Error(`المنتج ${selectedItem.chassisNumber} لم يعد متاحاً للبيع`)
+        }
+        const agentDoc = await transaction.get(agentRef)
+        if (!agentDoc.exists()) {
+          throw new Error('الوكيل غير موجود')
+        }
+        const allocatedNumber = await DocumentNumberingService.allocate(transaction, 'agent_invoice')
+
+        transaction.set(saleRef, { ...saleData, invoiceNumber: allocatedNumber })
+
+        // Update inventory item status
+        transaction.update(itemRef, {
+          status: 'sold',
+          soldDate: serverTimestamp(),
+          soldPrice: salePriceNum,
+          updatedAt: serverTimestamp()
+        })
+
+        // Credit the agent's commission through a journal entry
+        const description = `عمولة بيع موتوسيكل ${selectedItem.brand} ${selectedItem.model} - فاتورة رقم ${allocatedNumber}`
+        const posted = GeneralLedgerService.post(transaction, {
+          source: 'agent_sale',
+          sourceId: saleRef.id,
+          reference: allocatedNumber,
+          description,
+          lines: [
+            ledgerLine('commission_expense', commission),
+            ledgerLine('agent_receivable', -commission, agent.id)
+          ],
+          postedBy: userData.id
+        }, { [agent.id]: { ref: agentRef, balance: Number(agentDoc.data().currentBalance) || 0 } })
+
+        // Create agent transaction for commission
+        transaction.set(doc(collection(db, 'agent_transactions')), {
+          agentId: agent.id,
+          type: 'commission',
+          amount: commission,
+          description,
+          saleAmount: salePriceNum,
+          commission: commission,
+          companyShare: salePriceNum - commission,
+          ...posted.balances[agent.id],
+          journalEntryId: posted.entryId,
+          createdAt: serverTimestamp(),
+          createdBy: userData.id
+        })
+
+        return allocatedNumber
       })
 
-      // Create agent transaction for commission
-      const agentTransactionData = {
-        agentId: agent.id,
-        type: 'commission',
-        amount: commission,
-        description: `عمولة بيع موتوسيكل ${selectedItem.brand} ${selectedItem.model}`,
-        saleAmount: salePriceNum,
-        commission: commission,
-        companyShare: salePriceNum - commission,
-        previousBalance: agent.currentBalance,
-        newBalance: agent.currentBalance + commission,
-        createdAt: serverTimestamp(),
-        createdBy: userData.id
-      }
-
-      await addDoc(collection(db, 'agent_transactions'), agentTransactionData)
-
-      // Update agent balance
-      await updateDoc(doc(db, 'agents', agent.id), {
-        currentBalance: agent.currentBalance + commission,
-        updatedAt: serverTimestamp()
-      })
+      ReorderLevelService.checkWarehouses([selectedItem.currentWarehouseId])
 
-      toast.success('تم إنشاء عملية البيع بنجاح')
+      toast.success(`تم إنشاء عملية البيع بفاتورة رقم ${invoiceNumber} بنجاح`)
       onSaleCreated()
 
     } catch (error) {
       console.error('Error creating sale:', error)
-      toast.error('فشل في إنشاء عملية البيع')
+      toast.error(`فشل في إنشاء عملية البيع: ${error instanceof Error ? error.message : 'خطأ غير معروف'}`)
     } finally {
       setCreating(false)
     }
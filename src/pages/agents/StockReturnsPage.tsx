@@ -0,0 +1,305 @@
+import { useState, useEffect } from 'react'
+import { Link, useNavigate } from 'react-router-dom'
+import { toast } from 'sonner'
+import { AlertCircle, ArrowLeft, CheckCircle, Undo2, XCircle } from 'lucide-react'
+import { collection, getDocs } from 'firebase/firestore'
+import { useAuthState } from 'react-firebase-hooks/auth'
+
+import { db, auth } from '@/firebase/firebase-config.template'
+import { Button } from '@/components/ui/Button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/Card'
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner'
+import { useUserData } from '@/hooks/useUserData'
+import { StockReturnRequest, StockReturnStatus, Warehouse } from '@/types'
+import { cn, formatCurrency, formatDate, isAdmin, isSuperAdmin } from '@/lib/utils'
+import { AgentPermissionsService } from '@/lib/agentPermissions'
+import { StockReturnService, stockReturnStatusColors, stockReturnStatusLabels } from '@/lib/stockReturns'
+
+interface DecisionForm {
+  toWarehouseId: string
+  notes: string
+}
+
+export function StockReturnsPage() {
+  const navigate = useNavigate()
+  const [user] = useAuthState(auth)
+  const { userData } = useUserData(user?.uid)
+  const [requests, setRequests] = useState<StockReturnRequest[]>([])
+  const [warehouses, setWarehouses] = useState<Warehouse[]>([])
+  const [decisions, setDecisions] = useState<Record<string, DecisionForm>>({})
+  const [statusFilter, setStatusFilter] = useState<StockReturnStatus | ''>('pending')
+  const [loading, setLoading] = useState(true)
+  const [savingId, setSavingId] = useState<string | null>(null)
+
+  const canManage = userData && (isAdmin(userData.role) || isSuperAdmin(userData.role))
+  const isAgent = userData?.role === 'agent'
+
+  useEffect(() => {
+    if (canManage) {
+      // المرتجعات تستلم في مخازن الشركة فقط
+      getDocs(collection(db, 'warehouses')).then(snapshot => setWarehouses(snapshot.docs
+        .map(warehouseDoc => ({ id: warehouseDoc.id, ...warehouseDoc.data() }) as Warehouse)
+        .filter(warehouse => warehouse.type !== 'agent' && warehouse.isActive)))
+    }
+    if (canManage || isAgent) {
+      loadRequests()
+    }
+  }, [canManage, isAgent])
+
+  const loadRequests = async () => {
+    if (!userData) return
+
+    setLoading(true)
+    if (canManage) {
+      setRequests(await StockReturnService.getRequests())
+    } else {
+      // الوكيل يرى طلباته فقط
+      const agent = await AgentPermissionsService.getAgentData(userData.id)
+      setRequests(agent ? await StockReturnService.getRequests(agent.id) : [])
+    }
+    setLoading(false)
+  }
+
+  const decisionFor = (requestId: string): DecisionForm =>
+    decisions[requestId] || { toWarehouseId: warehouses[0]?.id || '', notes: '' }
+
+  const updateDecision = (requestId: string, changes: Partial<DecisionForm>) => {
+    setDecisions(prev => ({ ...prev, [requestId]: { ...decisionFor(requestId), ...changes } }))
+  }
+
+  const handleApprove = async (request: StockReturnRequest) => {
+    if (!userData) return
+
+    const decision = decisionFor(request.id)
+    setSavingId(request.id)
+    const result = await StockReturnService.approveRequest(request.id, decision.toWarehouseId, decision.notes, userData.id)
+    setSavingId(null)
+
+    if (result.success) {
+      toast.success(`تم اعتماد المرتجع ${result.number} وخصم ${formatCurrency(request.totalCredit)} من مديونية ${request.agentName}`)
+      loadRequests()
+    } else {
+      toast.error(result.error || 'فشل في اعتماد طلب الإرجاع')
+    }
+  }
+
+  const handleClose = async (request: StockReturnRequest, status: 'rejected' | 'cancelled') => {
+    if (!userData) return
+
+    const decision = decisionFor(request.id)
+    if (status === 'rejected' && !decision.notes.trim()) {
+      toast.error('يرجى كتابة سبب الرفض')
+      return
+    }
+    if (status === 'cancelled' && !confirm('هل تريد إلغاء طلب الإرجاع؟')) {
+      return
+    }
+
+    setSavingId(request.id)
+    const result = await StockReturnService.closeRequest(request.id, status, decision.notes, userData.id)
+    setSavingId(null)
+
+    if (result.success) {
+      toast.success(status === 'rejected' ? 'تم رفض طلب الإرجاع' : 'تم إلغاء طلب الإرجاع')
+      loadRequests()
+    } else {
+      toast.error(result.error || 'فشل في تحديث طلب الإرجاع')
+    }
+  }
+
+  const visibleRequests = requests.filter(request => !statusFilter || request.status === statusFilter)
+  const pendingCount = requests.filter(request => request.status === 'pending').length
+
+  if (!userData) {
+    return <LoadingSpinner text="جاري تحميل بيانات المستخدم..." />
+  }
+
+  if (!canManage && !isAgent) {
+    return (
+      <div className="text-center py-12">
+        <AlertCircle className="mx-auto h-12 w-12 text-red-500 mb-4" />
+        <h3 className="text-lg font-medium text-gray-900 mb-2 arabic-text">غير مصرح لك بالوصول</h3>
+        <p className="text-gray-500 arabic-text">مرتجعات الوكلاء متاحة للمديرين والوكلاء فقط</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-6 py-6">
+      {/* Page Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 arabic-text">مرتجعات الوكلاء</h1>
+          <p className="text-gray-600 arabic-text">
+            {pendingCount > 0 ? `${pendingCount} طلب بانتظار الاعتماد` : 'لا توجد طلبات معلقة'}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          {isAgent && (
+            <Link to="/agent/inventory">
+              <Button>
+                <Undo2 className="ml-2 h-4 w-4" />
+                اختيار وحدات للإرجاع
+              </Button>
+            </Link>
+          )}
+          <Button variant="outline" onClick={() => navigate(canManage ? '/agents' : '/agent/inventory')}>
+            <ArrowLeft className="ml-2 h-4 w-4" />
+            {canManage ? 'العودة للوكلاء' : 'العودة للمخزون'}
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>طلبات الإرجاع</CardTitle>
+              <CardDescription>{visibleRequests.length} طلب</CardDescription>
+            </div>
+            <select
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value as StockReturnStatus | '')}
+              className="form-input input-rtl arabic-text"
+            >
+              <option value="">كل الحالات</option>
+              {(Object.keys(stockReturnStatusLabels) as StockReturnStatus[]).map(status => (
+                <option key={status} value={status}>{stockReturnStatusLabels[status]}</option>
+              ))}
+            </select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <LoadingSpinner text="جاري تحميل طلبات الإرجاع..." />
+          ) : visibleRequests.length === 0 ? (
+            <div className="text-center py-8">
+              <Undo2 className="mx-auto h-12 w-12 text-gray-400 mb-4" />
+              <p className="text-gray-500 arabic-text">لا توجد طلبات إرجاع</p>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {visibleRequests.map(request => {
+                const decision = decisionFor(request.id)
+                return (
+                  <div key={request.id} className="border rounded-lg p-4 space-y-3">
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <p className="font-medium arabic-text">
+                          {request.agentName}
+                          {request.returnNumber && <span className="font-mono text-gray-500 mr-2">{request.returnNumber}</span>}
+                        </p>
+                        <p className="text-xs text-gray-500">
+                          {formatDate(request.requestedAt)} - {request.items.length} وحدة - {formatCurrency(request.totalCredit)}
+                        </p>
+                      </div>
+                      <span className={cn('inline-flex px-2 py-1 text-xs font-semibold rounded-full', stockReturnStatusColors[request.status])}>
+                        {stockReturnStatusLabels[request.status]}
+                      </span>
+                    </div>
+
+                    <div className="overflow-x-auto">
+                      <table className="w-full text-sm">
+                        <thead className="bg-gray-50">
+                          <tr>
+                            <th className="px-3 py-2 text-right">الوحدة</th>
+                            <th className="px-3 py-2 text-right">الشاسيه</th>
+                            <th className="px-3 py-2 text-right">سعر التحويل</th>
+                            <th className="px-3 py-2 text-right">الحالة</th>
+                            <th className="px-3 py-2 text-right">الصور</th>
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y">
+                          {request.items.map(item => (
+                            <tr key={item.inventoryItemId}>
+                              <td className="px-3 py-2">{item.brand} {item.model} - {item.color}</td>
+                              <td className="px-3 py-2 font-mono">{item.chassisNumber}</td>
+                              <td className="px-3 py-2">
+                                {formatCurrency(item.chargedPrice)}
+                                {item.transferNoteNumber && (
+                                  <span className="block text-xs text-gray-500 font-mono">{item.transferNoteNumber}</span>
+                                )}
+                              </td>
+                              <td className="px-3 py-2 text-gray-600">{item.conditionNotes || '-'}</td>
+                              <td className="px-3 py-2">
+                                <div className="flex gap-1">
+                                  {item.photoUrls.map(url => (
+                                    <a key={url} href={url} target="_blank" rel="noopener noreferrer">
+                                      <img src={url} alt="صورة الوحدة" className="h-10 w-10 object-cover rounded border" />
+                                    </a>
+                                  ))}
+                                </div>
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+
+                    {request.notes && <p className="text-sm text-gray-600 arabic-text">ملاحظات الوكيل: {request.notes}</p>}
+                    {request.decisionNotes && <p className="text-sm text-gray-600 arabic-text">قرار الإدارة: {request.decisionNotes}</p>}
+
+                    {request.status === 'pending' && canManage && (
+                      <div className="grid grid-cols-1 md:grid-cols-3 gap-3 items-end border-t pt-3">
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-1 arabic-text">مخزن الاستلام</label>
+                          <select
+                            value={decision.toWarehouseId}
+                            onChange={(e) => updateDecision(request.id, { toWarehouseId: e.target.value })}
+                            className="form-input w-full input-rtl arabic-text"
+                          >
+                            {warehouses.map(warehouse => (
+                              <option key={warehouse.id} value={warehouse.id}>{warehouse.name}</option>
+                            ))}
+                          </select>
+                        </div>
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-1 arabic-text">ملاحظات القرار</label>
+                          <input
+                            value={decision.notes}
+                            onChange={(e) => updateDecision(request.id, { notes: e.target.value })}
+                            className="form-input w-full input-rtl arabic-text"
+                            placeholder="مطلوبة عند الرفض"
+                          />
+                        </div>
+                        <div className="flex gap-2">
+                          <Button size="sm" onClick={() => handleApprove(request)} loading={savingId === request.id}>
+                            <CheckCircle className="ml-2 h-4 w-4" />
+                            اعتماد
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => handleClose(request, 'rejected')}
+                            disabled={savingId === request.id}
+                          >
+                            <XCircle className="ml-2 h-4 w-4" />
+                            رفض
+                          </Button>
+                        </div>
+                      </div>
+                    )}
+
+                    {request.status === 'pending' && isAgent && (
+                      <div className="border-t pt-3">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleClose(request, 'cancelled')}
+                          loading={savingId === request.id}
+                        >
+                          <XCircle className="ml-2 h-4 w-4" />
+                          إلغاء الطلب
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                )
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -21,6 +21,10 @@ import { LoadingSpinner } from '@/components/ui/LoadingSpinner'
 import { useUserData } from '@/hooks/useUserData'
 import { CreateInventoryItemForm, Warehouse } from '@/types'
 import { vehicleTypeTranslations, generateTransactionId } from '@/lib/utils'
+import { InventoryIdentifierService } from '@/lib/inventoryIdentifiers'
+import { matchCatalogColor, resolveCatalogNames } from '@/lib/vehicleCatalog'
+import { useVehicleCatalog } from '@/hooks/useVehicleCatalog'
+import { CatalogFieldChanges, CatalogVehicleFields } from '@/components/inventory/CatalogVehicleFields'
 
 interface FormData extends CreateInventoryItemForm {
   motorFingerprintImage?: string
@@ -37,6 +41,7 @@ export function AddInventoryPage() {
   const [warehouses, setWarehouses] = useState<Warehouse[]>([])
   const [loading, setLoading] = useState(false)
   const [ocrStep, setOcrStep] = useState<OCRStep>('none')
+  const { catalog, hasCatalog } = useVehicleCatalog()
 
   const {
     register,
@@ -56,6 +61,9 @@ export function AddInventoryPage() {
   const chassisNumberImage = watch('chassisNumberImage')
   const motorFingerprint = watch('motorFingerprint')
   const chassisNumber = watch('chassisNumber')
+  const brand = watch('brand')
+  const model = watch('model')
+  const color = watch('color')
 
   useEffect(() => {
     loadWarehouses()
@@ -113,6 +121,12 @@ export function AddInventoryPage() {
     }
   }
 
+  const applyCatalogChanges = (changes: CatalogFieldChanges) => {
+    (Object.keys(changes) as (keyof CatalogFieldChanges)[]).forEach(field => {
+      setValue(field, changes[field] as never)
+    })
+  }
+
   const uploadImageToCloudinary = async (imageDataUrl: string, filename: string): Promise<string> => {
     const maxRetries = 3
     
@@ -214,6 +228,21 @@ export function AddInventoryPage() {
         return
       }
 
+      // عند وجود الكتالوج يجب أن يكون الموديل واللون منه
+      const catalogMatch = resolveCatalogNames(catalog, data.brand, data.model)
+      if (hasCatalog) {
+        if (!catalogMatch.model) {
+          toast.error('يرجى اختيار الماركة والموديل من الكتالوج')
+          setLoading(false)
+          return
+        }
+        if (!data.color || matchCatalogColor(catalogMatch.model, data.color) === null) {
+          toast.error('يرجى اختيار لون من ألوان الموديل')
+          setLoading(false)
+          return
+        }
+      }
+
       // Upload images to Firebase Storage (optional)
       let motorFingerprintImageUrl = ''
       let chassisNumberImageUrl = ''
@@ -277,6 +306,7 @@ export function AddInventoryPage() {
         color: data.color,
         brand: data.brand,
         countryOfOrigin: data.countryOfOrigin,
+        ...(catalogMatch.model ? { brandId: catalogMatch.brand!.id, modelId: catalogMatch.model.id } : {}),
         manufacturingYear: data.manufacturingYear,
         purchasePrice: data.purchasePrice,
         salePrice: data.salePrice,
@@ -294,7 +324,9 @@ export function AddInventoryPage() {
         console.log('Adding inventory item to Firestore...')
         
         // Add timeout to Firestore operation
-        const firestorePromise = addDoc(collection(db, 'inventory_items'), inventoryItem)
+        // الصنف يحفظ مع حجز رقم الشاسيه وبصمة الموتور حتى لا يتكرر أي منهما
+        const firestorePromise = InventoryIdentifierService.createItem(inventoryItem)
+          .then(id => ({ id }))
         const firestoreTimeout = new Promise((_, reject) => 
           setTimeout(() => reject(new Error('Firestore timeout')), 15000)
         )
@@ -307,6 +339,8 @@ export function AddInventoryPage() {
         
         if (firestoreError instanceof Error && firestoreError.message.includes('timeout')) {
           toast.error('انتهت مهلة الحفظ. يرجى التأكد من اتصال الإنترنت والمحاولة مرة أخرى')
+        } else if (firestoreError instanceof Error && firestoreError.message.includes('مسجل')) {
+          toast.error(firestoreError.message)
         } else {
           toast.error('فشل في حفظ بيانات الصنف. يرجى المحاولة مرة أخرى')
         }
@@ -558,38 +592,51 @@ export function AddInventoryPage() {
                 )}
               </div>
 
-              {/* Brand */}
-              <div className="space-y-2">
-                <Label htmlFor="brand" required>الماركة</Label>
-                <Input
-                  id="brand"
-                  {...register('brand', { required: 'الماركة مطلوبة' })}
-                  placeholder="مثال: هوندا، ياماها"
-                  error={errors.brand?.message}
+              {hasCatalog ? (
+                <CatalogVehicleFields
+                  catalog={catalog}
+                  brand={brand || ''}
+                  model={model || ''}
+                  color={color || ''}
+                  onChange={applyCatalogChanges}
+                  applyPriceDefaults
                 />
-              </div>
+              ) : (
+                <>
+                  {/* Brand */}
+                  <div className="space-y-2">
+                    <Label htmlFor="brand" required>الماركة</Label>
+                    <Input
+                      id="brand"
+                      {...register('brand', { required: 'الماركة مطلوبة' })}
+                      placeholder="مثال: هوندا، ياماها"
+                      error={errors.brand?.message}
+                    />
+                  </div>
 
-              {/* Model */}
-              <div className="space-y-2">
-                <Label htmlFor="model" required>الموديل</Label>
-                <Input
-                  id="model"
-                  {...register('model', { required: 'الموديل مطلوب' })}
-                  placeholder="مثال: CBR 150، YBR 125"
-                  error={errors.model?.message}
-                />
-              </div>
+                  {/* Model */}
+                  <div className="space-y-2">
+                    <Label htmlFor="model" required>الموديل</Label>
+                    <Input
+                      id="model"
+                      {...register('model', { required: 'الموديل مطلوب' })}
+                      placeholder="مثال: CBR 150، YBR 125"
+                      error={errors.model?.message}
+                    />
+                  </div>
 
-              {/* Color */}
-              <div className="space-y-2">
-                <Label htmlFor="color" required>اللون</Label>
-                <Input
-                  id="color"
-                  {...register('color', { required: 'اللون مطلوب' })}
-                  placeholder="مثال: أحمر، أزرق"
-                  error={errors.color?.message}
-                />
-              </div>
+                  {/* Color */}
+                  <div className="space-y-2">
+                    <Label htmlFor="color" required>اللون</Label>
+                    <Input
+                      id="color"
+                      {...register('color', { required: 'اللون مطلوب' })}
+                      placeholder="مثال: أحمر، أزرق"
+                      error={errors.color?.message}
+                    />
+                  </div>
+                </>
+              )}
 
               {/* Country of Origin */}
               <div className="space-y-2">
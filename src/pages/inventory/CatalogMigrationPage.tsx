@@ -0,0 +1,215 @@
+import { useState, useEffect } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { toast } from 'sonner'
+import {
+  AlertCircle,
+  ArrowLeft,
+  CheckCircle,
+  GitMerge,
+  RefreshCw
+} from 'lucide-react'
+import { useAuthState } from 'react-firebase-hooks/auth'
+
+import { auth } from '@/firebase/firebase-config.template'
+import { Button } from '@/components/ui/Button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/Card'
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner'
+import { useUserData } from '@/hooks/useUserData'
+import { useVehicleCatalog } from '@/hooks/useVehicleCatalog'
+import { isAdmin, isSuperAdmin } from '@/lib/utils'
+import { activeBrands, activeModels, FreeTextGroup, VehicleCatalogService } from '@/lib/vehicleCatalog'
+
+interface GroupSelection {
+  brandId: string
+  modelId: string
+}
+
+export function CatalogMigrationPage() {
+  const navigate = useNavigate()
+  const [user] = useAuthState(auth)
+  const { userData } = useUserData(user?.uid)
+  const { catalog, loading: catalogLoading } = useVehicleCatalog()
+  const [groups, setGroups] = useState<FreeTextGroup[]>([])
+  const [selections, setSelections] = useState<Record<string, GroupSelection>>({})
+  const [scanning, setScanning] = useState(false)
+  const [applying, setApplying] = useState(false)
+
+  useEffect(() => {
+    if (userData && !catalogLoading) {
+      loadGroups()
+    }
+  }, [userData, catalogLoading])
+
+  const loadGroups = async () => {
+    try {
+      setScanning(true)
+      const result = await VehicleCatalogService.scanFreeText(catalog)
+      setGroups(result)
+      // المطابقات المقترحة تظهر محددة مسبقاً ليراجعها المدير
+      setSelections(Object.fromEntries(result.map(group => [group.key, {
+        brandId: group.brandId || '',
+        modelId: group.modelId || ''
+      }])))
+    } catch (error) {
+      console.error('Error scanning inventory names:', error)
+      toast.error('خطأ في قراءة أسماء الأصناف')
+    } finally {
+      setScanning(false)
+    }
+  }
+
+  const updateSelection = (key: string, changes: Partial<GroupSelection>) => {
+    setSelections({ ...selections, [key]: { ...selections[key], ...changes } })
+  }
+
+  const readyGroups = groups.filter(group => selections[group.key]?.brandId && selections[group.key]?.modelId)
+  const readyItems = readyGroups.reduce((sum, group) => sum + group.itemIds.length, 0)
+
+  const handleApply = async () => {
+    if (readyGroups.length === 0) return
+    if (!window.confirm(`سيتم توحيد أسماء ${readyItems} صنف وربطها بالكتالوج. هل تريد المتابعة؟`)) return
+
+    setApplying(true)
+    const result = await VehicleCatalogService.applyMappings(catalog, readyGroups.map(group => ({
+      group,
+      brandId: selections[group.key].brandId,
+      modelId: selections[group.key].modelId
+    })))
+    setApplying(false)
+
+    if (result.success) {
+      toast.success(`تم ربط ${result.updatedCount} صنف بالكتالوج`)
+      loadGroups()
+    } else {
+      toast.error(result.error || 'فشل في ربط الأصناف بالكتالوج')
+    }
+  }
+
+  if (!userData) {
+    return <LoadingSpinner text="جاري تحميل بيانات المستخدم..." />
+  }
+
+  if (!isAdmin(userData.role) && !isSuperAdmin(userData.role)) {
+    return (
+      <div className="text-center py-12">
+        <AlertCircle className="mx-auto h-12 w-12 text-red-500 mb-4" />
+        <h3 className="text-lg font-medium text-gray-900 mb-2 arabic-text">غير مصرح لك بالوصول</h3>
+        <p className="text-gray-500 arabic-text">ربط الأصناف بالكتالوج متاح للمديرين فقط</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-6 py-6">
+      {/* Page Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 arabic-text">ربط الأصناف الحالية بالكتالوج</h1>
+          <p className="text-gray-600 arabic-text">اختر الماركة والموديل المعتمدين لكل كتابة حرة، وتضاف الكتابة القديمة كاسم بديل</p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={loadGroups} disabled={scanning}>
+            <RefreshCw className="ml-2 h-4 w-4" />
+            تحديث
+          </Button>
+          <Button variant="outline" onClick={() => navigate('/inventory/catalog')}>
+            <ArrowLeft className="ml-2 h-4 w-4" />
+            العودة للكتالوج
+          </Button>
+        </div>
+      </div>
+
+      {catalogLoading || scanning ? (
+        <LoadingSpinner text="جاري تجميع أسماء الأصناف..." />
+      ) : catalog.brands.length === 0 ? (
+        <Card>
+          <CardContent className="text-center py-12">
+            <AlertCircle className="mx-auto h-12 w-12 text-orange-500 mb-4" />
+            <p className="text-gray-600 arabic-text">أضف الماركات والموديلات في الكتالوج أولاً</p>
+          </CardContent>
+        </Card>
+      ) : groups.length === 0 ? (
+        <Card>
+          <CardContent className="text-center py-12">
+            <CheckCircle className="mx-auto h-12 w-12 text-green-500 mb-4" />
+            <p className="text-gray-600 arabic-text">كل الأصناف مربوطة بالكتالوج</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div>
+                <CardTitle>الكتابات الحرة</CardTitle>
+                <CardDescription>
+                  {groups.length} مجموعة - {readyGroups.length} جاهزة للربط ({readyItems} صنف)
+                </CardDescription>
+              </div>
+              <Button onClick={handleApply} loading={applying} disabled={readyGroups.length === 0}>
+                <GitMerge className="ml-2 h-4 w-4" />
+                ربط المحدد
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-3 py-2 text-right">الماركة المكتوبة</th>
+                    <th className="px-3 py-2 text-right">الموديل المكتوب</th>
+                    <th className="px-3 py-2 text-right">الأصناف</th>
+                    <th className="px-3 py-2 text-right">الماركة في الكتالوج</th>
+                    <th className="px-3 py-2 text-right">الموديل في الكتالوج</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y">
+                  {groups.map(group => {
+                    const selection = selections[group.key] || { brandId: '', modelId: '' }
+                    return (
+                      <tr key={group.key} className={selection.modelId ? 'bg-green-50' : ''}>
+                        <td className="px-3 py-2">{group.brand || '-'}</td>
+                        <td className="px-3 py-2">{group.model || '-'}</td>
+                        <td className="px-3 py-2">
+                          {group.itemIds.length}
+                          {group.colors.length > 0 && (
+                            <p className="text-xs text-gray-500">{group.colors.join('، ')}</p>
+                          )}
+                        </td>
+                        <td className="px-3 py-2">
+                          <select
+                            value={selection.brandId}
+                            onChange={(e) => updateSelection(group.key, { brandId: e.target.value, modelId: '' })}
+                            className="form-input w-full input-rtl arabic-text"
+                          >
+                            <option value="">بدون ربط</option>
+                            {activeBrands(catalog).map(brand => (
+                              <option key={brand.id} value={brand.id}>{brand.name}</option>
+                            ))}
+                          </select>
+                        </td>
+                        <td className="px-3 py-2">
+                          <select
+                            value={selection.modelId}
+                            onChange={(e) => updateSelection(group.key, { modelId: e.target.value })}
+                            className="form-input w-full input-rtl arabic-text"
+                            disabled={!selection.brandId}
+                          >
+                            <option value="">اختر الموديل</option>
+                            {activeModels(catalog, selection.brandId).map(model => (
+                              <option key={model.id} value={model.id}>{model.name}</option>
+                            ))}
+                          </select>
+                        </td>
+                      </tr>
+                    )
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
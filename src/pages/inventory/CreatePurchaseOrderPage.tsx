@@ -0,0 +1,297 @@
+import { useState, useEffect } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { toast } from 'sonner'
+import { AlertCircle, ArrowLeft, Plus, Save, Trash2 } from 'lucide-react'
+import { useAuthState } from 'react-firebase-hooks/auth'
+import { collection, getDocs } from 'firebase/firestore'
+
+import { auth, db } from '@/firebase/firebase-config.template'
+import { Button } from '@/components/ui/Button'
+import { Input } from '@/components/ui/Input'
+import { Label } from '@/components/ui/Label'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card'
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner'
+import { useUserData } from '@/hooks/useUserData'
+import { useVehicleCatalog } from '@/hooks/useVehicleCatalog'
+import { Supplier, VehicleType, Warehouse } from '@/types'
+import { formatCurrency, isAdmin, isSuperAdmin, vehicleTypeTranslations } from '@/lib/utils'
+import { activeBrands, activeModels } from '@/lib/vehicleCatalog'
+import { PurchaseOrderService, SupplierService } from '@/lib/purchasing'
+
+interface LineForm {
+  type: VehicleType
+  brand: string
+  model: string
+  brandId: string
+  modelId: string
+  countryOfOrigin: string
+  quantity: string
+  unitCost: string
+  salePrice: string
+}
+
+const emptyLine = (): LineForm => ({
+  type: 'motorcycle',
+  brand: '',
+  model: '',
+  brandId: '',
+  modelId: '',
+  countryOfOrigin: '',
+  quantity: '1',
+  unitCost: '',
+  salePrice: ''
+})
+
+export function CreatePurchaseOrderPage() {
+  const navigate = useNavigate()
+  const [user] = useAuthState(auth)
+  const { userData } = useUserData(user?.uid)
+  const { catalog, hasCatalog } = useVehicleCatalog()
+  const [suppliers, setSuppliers] = useState<Supplier[]>([])
+  const [warehouses, setWarehouses] = useState<Warehouse[]>([])
+  const [supplierId, setSupplierId] = useState('')
+  const [warehouseId, setWarehouseId] = useState('')
+  const [expectedDate, setExpectedDate] = useState('')
+  const [notes, setNotes] = useState('')
+  const [lines, setLines] = useState<LineForm[]>([emptyLine()])
+  const [saving, setSaving] = useState(false)
+
+  const canManage = userData && (isAdmin(userData.role) || isSuperAdmin(userData.role))
+
+  useEffect(() => {
+    if (canManage) {
+      SupplierService.getSuppliers().then(result => setSuppliers(result.filter(supplier => supplier.isActive)))
+      // أوامر الشراء تستلم في مخازن الشركة فقط
+      getDocs(collection(db, 'warehouses')).then(snapshot => setWarehouses(snapshot.docs
+        .map(warehouseDoc => ({ id: warehouseDoc.id, ...warehouseDoc.data() }) as Warehouse)
+        .filter(warehouse => warehouse.type !== 'agent')))
+    }
+  }, [canManage])
+
+  const updateLine = (index: number, changes: Partial<LineForm>) => {
+    setLines(lines.map((line, lineIndex) => lineIndex === index ? { ...line, ...changes } : line))
+  }
+
+  // اختيار الموديل من الكتالوج يملأ النوع وبلد المنشأ والأسعار الافتراضية
+  const selectModel = (index: number, modelId: string) => {
+    const model = catalog.models.find(entry => entry.id === modelId)
+    const brand = model && catalog.brands.find(entry => entry.id === model.brandId)
+    if (!model || !brand) {
+      updateLine(index, { modelId: '', model: '' })
+      return
+    }
+    updateLine(index, {
+      modelId,
+      model: model.name,
+      brand: brand.name,
+      type: model.type,
+      countryOfOrigin: brand.countryOfOrigin || '',
+      unitCost: model.defaultPurchasePrice ? String(model.defaultPurchasePrice) : lines[index].unitCost,
+      salePrice: model.defaultSalePrice ? String(model.defaultSalePrice) : lines[index].salePrice
+    })
+  }
+
+  const orderTotal = lines.reduce((sum, line) => sum + (parseInt(line.quantity) || 0) * (parseFloat(line.unitCost) || 0), 0)
+
+  const handleSave = async () => {
+    if (!userData) return
+
+    setSaving(true)
+    const result = await PurchaseOrderService.createOrder({
+      supplierId,
+      warehouseId,
+      expectedDate: expectedDate || undefined,
+      notes,
+      lines: lines.map(line => ({
+        type: line.type,
+        brand: line.brand,
+        model: line.model,
+        ...(line.brandId && line.modelId ? { brandId: line.brandId, modelId: line.modelId } : {}),
+        ...(line.countryOfOrigin ? { countryOfOrigin: line.countryOfOrigin } : {}),
+        quantity: parseInt(line.quantity),
+        unitCost: parseFloat(line.unitCost),
+        salePrice: parseFloat(line.salePrice) || 0
+      }))
+    }, userData.id)
+    setSaving(false)
+
+    if (result.success) {
+      toast.success(`تم إنشاء أمر الشراء ${result.number}`)
+      navigate(`/inventory/purchase-orders/${result.id}`)
+    } else {
+      toast.error(result.error || 'فشل في إنشاء أمر الشراء')
+    }
+  }
+
+  if (!userData) {
+    return <LoadingSpinner text="جاري تحميل بيانات المستخدم..." />
+  }
+
+  if (!canManage) {
+    return (
+      <div className="text-center py-12">
+        <AlertCircle className="mx-auto h-12 w-12 text-red-500 mb-4" />
+        <h3 className="text-lg font-medium text-gray-900 mb-2 arabic-text">غير مصرح لك بالوصول</h3>
+        <p className="text-gray-500 arabic-text">أوامر الشراء متاحة للمديرين فقط</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-6 py-6">
+      {/* Page Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 arabic-text">أمر شراء جديد</h1>
+          <p className="text-gray-600 arabic-text">الكميات المتوقعة من كل موديل وتكلفة الوحدة المتفق عليها</p>
+        </div>
+        <Button variant="outline" onClick={() => navigate('/inventory/purchase-orders')}>
+          <ArrowLeft className="ml-2 h-4 w-4" />
+          أوامر الشراء
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>بيانات الأمر</CardTitle>
+        </CardHeader>
+        <CardContent className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div className="space-y-2">
+            <Label required>المورد</Label>
+            <select
+              value={supplierId}
+              onChange={(e) => setSupplierId(e.target.value)}
+              className="form-input w-full input-rtl arabic-text"
+            >
+              <option value="">اختر المورد</option>
+              {suppliers.map(supplier => (
+                <option key={supplier.id} value={supplier.id}>{supplier.name}</option>
+              ))}
+            </select>
+          </div>
+          <div className="space-y-2">
+            <Label required>مخزن الاستلام</Label>
+            <select
+              value={warehouseId}
+              onChange={(e) => setWarehouseId(e.target.value)}
+              className="form-input w-full input-rtl arabic-text"
+            >
+              <option value="">اختر المخزن</option>
+              {warehouses.map(warehouse => (
+                <option key={warehouse.id} value={warehouse.id}>{warehouse.name}</option>
+              ))}
+            </select>
+          </div>
+          <div className="space-y-2">
+            <Label>تاريخ الوصول المتوقع</Label>
+            <Input type="date" value={expectedDate} onChange={(e) => setExpectedDate(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label>ملاحظات</Label>
+            <Input value={notes} onChange={(e) => setNotes(e.target.value)} />
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle>الأصناف المطلوبة</CardTitle>
+            <Button variant="outline" onClick={() => setLines([...lines, emptyLine()])}>
+              <Plus className="ml-2 h-4 w-4" />
+              إضافة سطر
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {lines.map((line, index) => (
+            <div key={index} className="grid grid-cols-2 md:grid-cols-7 gap-2 items-end p-3 bg-gray-50 rounded-lg">
+              {hasCatalog ? (
+                <>
+                  <div className="space-y-1">
+                    <Label>الماركة</Label>
+                    <select
+                      value={line.brandId}
+                      onChange={(e) => updateLine(index, { brandId: e.target.value, modelId: '', model: '', brand: '' })}
+                      className="form-input w-full input-rtl arabic-text"
+                    >
+                      <option value="">اختر الماركة</option>
+                      {activeBrands(catalog).map(brand => (
+                        <option key={brand.id} value={brand.id}>{brand.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="space-y-1">
+                    <Label>الموديل</Label>
+                    <select
+                      value={line.modelId}
+                      onChange={(e) => selectModel(index, e.target.value)}
+                      className="form-input w-full input-rtl arabic-text"
+                      disabled={!line.brandId}
+                    >
+                      <option value="">اختر الموديل</option>
+                      {activeModels(catalog, line.brandId).map(model => (
+                        <option key={model.id} value={model.id}>{model.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                </>
+              ) : (
+                <>
+                  <div className="space-y-1">
+                    <Label>الماركة</Label>
+                    <Input value={line.brand} onChange={(e) => updateLine(index, { brand: e.target.value })} />
+                  </div>
+                  <div className="space-y-1">
+                    <Label>الموديل</Label>
+                    <Input value={line.model} onChange={(e) => updateLine(index, { model: e.target.value })} />
+                  </div>
+                </>
+              )}
+              <div className="space-y-1">
+                <Label>النوع</Label>
+                <select
+                  value={line.type}
+                  onChange={(e) => updateLine(index, { type: e.target.value as VehicleType })}
+                  className="form-input w-full input-rtl arabic-text"
+                  disabled={!!line.modelId}
+                >
+                  {(Object.keys(vehicleTypeTranslations) as VehicleType[]).map(type => (
+                    <option key={type} value={type}>{vehicleTypeTranslations[type]}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="space-y-1">
+                <Label>الكمية</Label>
+                <Input type="number" min="1" value={line.quantity} onChange={(e) => updateLine(index, { quantity: e.target.value })} />
+              </div>
+              <div className="space-y-1">
+                <Label>تكلفة الوحدة</Label>
+                <Input type="number" min="0" value={line.unitCost} onChange={(e) => updateLine(index, { unitCost: e.target.value })} />
+              </div>
+              <div className="space-y-1">
+                <Label>سعر البيع</Label>
+                <Input type="number" min="0" value={line.salePrice} onChange={(e) => updateLine(index, { salePrice: e.target.value })} />
+              </div>
+              <Button
+                variant="outline"
+                onClick={() => setLines(lines.filter((_, lineIndex) => lineIndex !== index))}
+                disabled={lines.length === 1}
+              >
+                <Trash2 className="h-4 w-4 text-red-600" />
+              </Button>
+            </div>
+          ))}
+
+          <div className="flex items-center justify-between border-t pt-4">
+            <p className="text-lg font-bold arabic-text">إجمالي الأمر: {formatCurrency(orderTotal)}</p>
+            <Button onClick={handleSave} loading={saving}>
+              <Save className="ml-2 h-4 w-4" />
+              حفظ أمر الشراء
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,332 @@
+import { useState, useEffect } from 'react'
+import { Link, useNavigate } from 'react-router-dom'
+import { toast } from 'sonner'
+import {
+  AlertCircle,
+  ArrowLeft,
+  CheckCircle,
+  Copy,
+  Database,
+  Edit,
+  GitMerge,
+  RefreshCw
+} from 'lucide-react'
+import { useAuthState } from 'react-firebase-hooks/auth'
+
+import { auth } from '@/firebase/firebase-config.template'
+import { Button } from '@/components/ui/Button'
+import { Input } from '@/components/ui/Input'
+import { Label } from '@/components/ui/Label'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/Card'
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner'
+import { useUserData } from '@/hooks/useUserData'
+import { DuplicateIdentifierGroup, InventoryItem } from '@/types'
+import { formatDate, isAdmin, isSuperAdmin } from '@/lib/utils'
+import { identifierKindLabels, InventoryIdentifierService } from '@/lib/inventoryIdentifiers'
+
+const statusLabels: Record<InventoryItem['status'], string> = {
+  available: 'متاح',
+  sold: 'مباع',
+  transferred: 'محول',
+  reserved: 'محجوز',
+  written_off: 'مشطوب'
+}
+
+interface MergeTarget {
+  group: DuplicateIdentifierGroup
+  removed: InventoryItem
+}
+
+interface CorrectionTarget {
+  group: DuplicateIdentifierGroup
+  item: InventoryItem
+}
+
+export function DuplicateIdentifiersPage() {
+  const navigate = useNavigate()
+  const [user] = useAuthState(auth)
+  const { userData } = useUserData(user?.uid)
+  const [groups, setGroups] = useState<DuplicateIdentifierGroup[]>([])
+  const [loading, setLoading] = useState(true)
+  const [indexing, setIndexing] = useState(false)
+  const [keptItems, setKeptItems] = useState<Record<string, string>>({})
+  const [mergeTarget, setMergeTarget] = useState<MergeTarget | null>(null)
+  const [mergeReason, setMergeReason] = useState('')
+  const [correction, setCorrection] = useState<CorrectionTarget | null>(null)
+  const [correctedValue, setCorrectedValue] = useState('')
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    if (userData) {
+      loadDuplicates()
+    }
+  }, [userData])
+
+  const groupKey = (group: DuplicateIdentifierGroup) => `${group.kind}_${group.value}`
+
+  const loadDuplicates = async () => {
+    try {
+      setLoading(true)
+      const duplicates = await InventoryIdentifierService.findDuplicates()
+      setGroups(duplicates)
+      // الصنف الأقدم هو المرشح للاحتفاظ به افتراضياً
+      setKeptItems(Object.fromEntries(duplicates.map(group => {
+        const oldest = [...group.items].sort((a, b) => (a.createdAt?.toMillis?.() || 0) - (b.createdAt?.toMillis?.() || 0))[0]
+        return [groupKey(group), oldest.id]
+      })))
+    } catch (error) {
+      console.error('Error loading duplicate identifiers:', error)
+      toast.error('خطأ في تحميل الأرقام المكررة')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleBuildIndex = async () => {
+    setIndexing(true)
+    const result = await InventoryIdentifierService.buildIndex()
+    setIndexing(false)
+
+    if (result.success) {
+      toast.success(`تم حجز ${result.reserved} رقم في الفهرس${result.skipped ? ` وتخطي ${result.skipped} رقم مكرر` : ''}`)
+    } else {
+      toast.error(result.error || 'فشل في بناء فهرس الأرقام')
+    }
+  }
+
+  const handleMerge = async () => {
+    if (!mergeTarget || !userData) return
+
+    setSaving(true)
+    const result = await InventoryIdentifierService.mergeItems(
+      keptItems[groupKey(mergeTarget.group)],
+      mergeTarget.removed.id,
+      mergeReason.trim(),
+      userData.id
+    )
+    setSaving(false)
+
+    if (result.success) {
+      toast.success('تم دمج الصنف المكرر')
+      setMergeTarget(null)
+      setMergeReason('')
+      loadDuplicates()
+    } else {
+      toast.error(result.error || 'فشل في دمج الصنفين')
+    }
+  }
+
+  const handleCorrect = async () => {
+    if (!correction || !userData) return
+
+    setSaving(true)
+    const field = correction.group.kind === 'chassis' ? 'chassisNumber' : 'motorFingerprint'
+    const result = await InventoryIdentifierService.updateItem(correction.item.id, {
+      [field]: correctedValue,
+      updatedAt: new Date(),
+      updatedBy: userData.id
+    })
+    setSaving(false)
+
+    if (result.success) {
+      toast.success(`تم تصحيح ${identifierKindLabels[correction.group.kind]}`)
+      setCorrection(null)
+      setCorrectedValue('')
+      loadDuplicates()
+    } else {
+      toast.error(result.error || 'فشل في تصحيح الرقم')
+    }
+  }
+
+  if (!userData) {
+    return <LoadingSpinner text="جاري تحميل بيانات المستخدم..." />
+  }
+
+  if (!isAdmin(userData.role) && !isSuperAdmin(userData.role)) {
+    return (
+      <div className="text-center py-12">
+        <AlertCircle className="mx-auto h-12 w-12 text-red-500 mb-4" />
+        <h3 className="text-lg font-medium text-gray-900 mb-2 arabic-text">غير مصرح لك بالوصول</h3>
+        <p className="text-gray-500 arabic-text">مراجعة الأرقام المكررة متاحة للمديرين فقط</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-6 py-6">
+      {/* Page Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 arabic-text">الأرقام المكررة</h1>
+          <p className="text-gray-600 arabic-text">أصناف تشترك في رقم الشاسيه أو بصمة الموتور، صحح الرقم الخاطئ أو ادمج الصنف المكرر</p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={handleBuildIndex} loading={indexing}>
+            <Database className="ml-2 h-4 w-4" />
+            بناء فهرس الأرقام
+          </Button>
+          <Button variant="outline" onClick={loadDuplicates}>
+            <RefreshCw className="ml-2 h-4 w-4" />
+            تحديث
+          </Button>
+          <Button variant="outline" onClick={() => navigate('/inventory')}>
+            <ArrowLeft className="ml-2 h-4 w-4" />
+            العودة للمخزون
+          </Button>
+        </div>
+      </div>
+
+      {loading ? (
+        <LoadingSpinner text="جاري البحث عن الأرقام المكررة..." />
+      ) : groups.length === 0 ? (
+        <Card>
+          <CardContent className="text-center py-12">
+            <CheckCircle className="mx-auto h-12 w-12 text-green-500 mb-4" />
+            <p className="text-gray-600 arabic-text">لا توجد أرقام شاسيه أو بصمات موتور مكررة في المخزون</p>
+          </CardContent>
+        </Card>
+      ) : (
+        groups.map(group => (
+          <Card key={groupKey(group)}>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Copy className="h-5 w-5 text-red-600" />
+                {identifierKindLabels[group.kind]}: <span className="font-mono">{group.value}</span>
+              </CardTitle>
+              <CardDescription>{group.items.length} أصناف بنفس الرقم</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-3 py-2 text-right">الاحتفاظ</th>
+                      <th className="px-3 py-2 text-right">الصنف</th>
+                      <th className="px-3 py-2 text-right">الشاسيه</th>
+                      <th className="px-3 py-2 text-right">الموتور</th>
+                      <th className="px-3 py-2 text-right">الحالة</th>
+                      <th className="px-3 py-2 text-right">تاريخ الإضافة</th>
+                      <th className="px-3 py-2 text-right">إجراءات</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y">
+                    {group.items.map(item => {
+                      const isKept = keptItems[groupKey(group)] === item.id
+                      return (
+                        <tr key={item.id} className={isKept ? 'bg-green-50' : ''}>
+                          <td className="px-3 py-2">
+                            <input
+                              type="radio"
+                              name={`kept-${groupKey(group)}`}
+                              checked={isKept}
+                              onChange={() => setKeptItems({ ...keptItems, [groupKey(group)]: item.id })}
+                            />
+                          </td>
+                          <td className="px-3 py-2">
+                            <Link to={`/inventory/details/${item.id}`} className="text-blue-600 hover:underline">
+                              {item.brand} {item.model} {item.color && `- ${item.color}`}
+                            </Link>
+                          </td>
+                          <td className="px-3 py-2 font-mono">{item.chassisNumber}</td>
+                          <td className="px-3 py-2 font-mono">{item.motorFingerprint}</td>
+                          <td className="px-3 py-2">{statusLabels[item.status] || item.status}</td>
+                          <td className="px-3 py-2">{item.createdAt ? formatDate(item.createdAt) : '-'}</td>
+                          <td className="px-3 py-2">
+                            <div className="flex gap-2">
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => {
+                                  setCorrection({ group, item })
+                                  setCorrectedValue(group.kind === 'chassis' ? item.chassisNumber : item.motorFingerprint)
+                                }}
+                              >
+                                <Edit className="ml-1 h-3 w-3" />
+                                تصحيح
+                              </Button>
+                              {!isKept && (
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  disabled={item.status !== 'available'}
+                                  title={item.status !== 'available' ? 'لا يمكن دمج صنف مباع أو محجوز أو محول' : undefined}
+                                  onClick={() => setMergeTarget({ group, removed: item })}
+                                >
+                                  <GitMerge className="ml-1 h-3 w-3" />
+                                  دمج
+                                </Button>
+                              )}
+                            </div>
+                          </td>
+                        </tr>
+                      )
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            </CardContent>
+          </Card>
+        ))
+      )}
+
+      {/* Merge Modal */}
+      {mergeTarget && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg max-w-md w-full p-6 space-y-4">
+            <h3 className="text-lg font-medium text-gray-900 arabic-text">دمج الصنف المكرر</h3>
+            <p className="text-sm text-gray-600 arabic-text">
+              سيتم حذف الصنف {mergeTarget.removed.brand} {mergeTarget.removed.model} ({mergeTarget.removed.chassisNumber})
+              والإبقاء على الصنف المحدد، مع حفظ نسخة منه في سجل الدمج.
+            </p>
+            <div className="space-y-2">
+              <Label htmlFor="mergeReason" required>سبب الدمج</Label>
+              <textarea
+                id="mergeReason"
+                value={mergeReason}
+                onChange={(e) => setMergeReason(e.target.value)}
+                placeholder="مثال: الصنف أدخل مرتين من نفس الشحنة"
+                className="form-input w-full input-rtl arabic-text min-h-[60px] resize-none"
+              />
+            </div>
+            <div className="flex gap-2 justify-end">
+              <Button variant="outline" onClick={() => setMergeTarget(null)}>إلغاء</Button>
+              <Button onClick={handleMerge} loading={saving} disabled={!mergeReason.trim()}>
+                <GitMerge className="ml-2 h-4 w-4" />
+                تأكيد الدمج
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Correction Modal */}
+      {correction && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg max-w-md w-full p-6 space-y-4">
+            <h3 className="text-lg font-medium text-gray-900 arabic-text">
+              تصحيح {identifierKindLabels[correction.group.kind]}
+            </h3>
+            <p className="text-sm text-gray-600 arabic-text">
+              {correction.item.brand} {correction.item.model} - راجع صورة الرقم في صفحة الصنف قبل التصحيح
+            </p>
+            <div className="space-y-2">
+              <Label htmlFor="correctedValue" required>الرقم الصحيح</Label>
+              <Input
+                id="correctedValue"
+                value={correctedValue}
+                onChange={(e) => setCorrectedValue(e.target.value)}
+                className="font-mono"
+              />
+            </div>
+            <div className="flex gap-2 justify-end">
+              <Button variant="outline" onClick={() => setCorrection(null)}>إلغاء</Button>
+              <Button onClick={handleCorrect} loading={saving} disabled={!correctedValue.trim()}>
+                حفظ التصحيح
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
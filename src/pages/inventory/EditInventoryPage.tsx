@@ -9,7 +9,7 @@ import {
   Edit,
   Camera
 } from 'lucide-react'
-import { doc, getDoc, updateDoc } from 'firebase/firestore'
+import { doc, getDoc, deleteField, arrayUnion } from 'firebase/firestore'
 import { useAuthState } from 'react-firebase-hooks/auth'
 
 import { db, auth } from '@/firebase/firebase-config.template'
@@ -22,6 +22,11 @@ import { ImprovedCameraOCR } from '@/components/ui/ImprovedCameraOCR'
 import { useUserData } from '@/hooks/useUserData'
 import { InventoryItem } from '@/types'
 import { uploadToCloudinary } from '@/lib/cloudinary'
+import { InventoryIdentifierService } from '@/lib/inventoryIdentifiers'
+import { matchCatalogColor, resolveCatalogNames } from '@/lib/vehicleCatalog'
+import { priceChangeEntries } from '@/lib/itemTimeline'
+import { useVehicleCatalog } from '@/hooks/useVehicleCatalog'
+import { CatalogFieldChanges, CatalogVehicleFields } from '@/components/inventory/CatalogVehicleFields'
 
 interface EditInventoryFormData {
   model: string
@@ -30,6 +35,7 @@ interface EditInventoryFormData {
   manufacturingYear: number
   purchasePrice: number
   salePrice: number
+  minimumPrice: number
   motorFingerprint: string
   chassisNumber: string
   motorFingerprintImageUrl: string
@@ -52,8 +58,9 @@ export function EditInventoryPage() {
   
   // OCR state
   const [ocrStep, setOcrStep] = useState<OCRStep>('none')
+  const { catalog, hasCatalog } = useVehicleCatalog()
 
-  const { register, handleSubmit, setValue, formState: { errors } } = useForm<EditInventoryFormData>({
+  const { register, handleSubmit, setValue, watch, formState: { errors } } = useForm<EditInventoryFormData>({
     defaultValues: {
       model: '',
       color: '',
@@ -61,6 +68,7 @@ export function EditInventoryPage() {
       manufacturingYear: new Date().getFullYear(),
       purchasePrice: 0,
       salePrice: 0,
+      minimumPrice: 0,
       motorFingerprint: '',
       chassisNumber: '',
       motorFingerprintImageUrl: '',
@@ -68,6 +76,16 @@ export function EditInventoryPage() {
     }
   })
 
+  const brand = watch('brand')
+  const model = watch('model')
+  const color = watch('color')
+
+  const applyCatalogChanges = (changes: CatalogFieldChanges) => {
+    if (changes.brand !== undefined) setValue('brand', changes.brand)
+    if (changes.model !== undefined) setValue('model', changes.model)
+    if (changes.color !== undefined) setValue('color', changes.color)
+  }
+
   useEffect(() => {
     if (userData && id) {
       loadItemDetails()
@@ -100,6 +118,7 @@ export function EditInventoryPage() {
       setValue('manufacturingYear', itemData.manufacturingYear || new Date().getFullYear())
       setValue('purchasePrice', itemData.purchasePrice || 0)
       setValue('salePrice', itemData.salePrice || 0)
+      setValue('minimumPrice', itemData.minimumPrice || 0)
       setValue('motorFingerprint', itemData.motorFingerprint || '')
       setValue('chassisNumber', itemData.chassisNumber || '')
       setValue('motorFingerprintImageUrl', itemData.motorFingerprintImageUrl || '')
@@ -197,19 +216,43 @@ export function EditInventoryPage() {
       return
     }
 
+    // عند وجود الكتالوج يجب أن يكون الموديل واللون منه، ونوع المركبة يتبع الموديل
+    const catalogMatch = resolveCatalogNames(catalog, data.brand, data.model)
+    if (hasCatalog) {
+      if (!catalogMatch.model) {
+        toast.error('يرجى اختيار الماركة والموديل من الكتالوج')
+        return
+      }
+      if (!data.color || matchCatalogColor(catalogMatch.model, data.color) === null) {
+        toast.error('يرجى اختيار لون من ألوان الموديل')
+        return
+      }
+    }
+
     try {
       setSaving(true)
       console.log('📝 تحديث البيانات في Firebase...')
       
+      // تعديلات الأسعار تحفظ في سجل الصنف
+      const priceChanges = item ? priceChangeEntries(item, {
+        purchasePrice: data.purchasePrice,
+        salePrice: data.salePrice,
+        minimumPrice: data.minimumPrice || 0
+      }, userData.id) : []
+
       // تحديث البيانات في Firebase
-      const docRef = doc(db, 'inventory_items', id)
       const updateData = {
         model: data.model,
         color: data.color,
         brand: data.brand,
+        ...(catalogMatch.model
+          ? { brandId: catalogMatch.brand!.id, modelId: catalogMatch.model.id, type: catalogMatch.model.type }
+          : { brandId: deleteField(), modelId: deleteField() }),
         manufacturingYear: data.manufacturingYear,
         purchasePrice: data.purchasePrice,
         salePrice: data.salePrice,
+        minimumPrice: data.minimumPrice || 0,
+        ...(priceChanges.length > 0 ? { priceHistory: arrayUnion(...priceChanges) } : {}),
         motorFingerprint: data.motorFingerprint,
         chassisNumber: data.chassisNumber,
         motorFingerprintImageUrl: data.motorFingerprintImageUrl,
@@ -219,7 +262,11 @@ export function EditInventoryPage() {
       }
       
       console.log('📊 البيانات المرسلة:', updateData)
-      await updateDoc(docRef, updateData)
+      // نقل حجز الأرقام مع التعديل يمنع تسجيل رقم شاسيه أو موتور مستخدم لصنف آخر
+      const result = await InventoryIdentifierService.updateItem(id, updateData)
+      if (!result.success) {
+        throw new Error(result.error)
+      }
       console.log('✅ تم تحديث البيانات بنجاح في Firebase')
 
       toast.success('تم تحديث بيانات المنتج بنجاح')
@@ -344,41 +391,53 @@ export function EditInventoryPage() {
                   )}
                 </div>
                 
-                <div>
-                  <Label htmlFor="model" className="arabic-text">الموديل</Label>
-                  <Input
-                    id="model"
-                    {...register('model', { required: 'الموديل مطلوب' })}
-                    className="arabic-text"
-                  />
-                  {errors.model && (
-                    <p className="text-red-500 text-sm mt-1">{errors.model.message}</p>
-                  )}
-                </div>
-                
-                <div>
-                  <Label htmlFor="color" className="arabic-text">اللون</Label>
-                  <Input
-                    id="color"
-                    {...register('color', { required: 'اللون مطلوب' })}
-                    className="arabic-text"
+                {hasCatalog ? (
+                  <CatalogVehicleFields
+                    catalog={catalog}
+                    brand={brand || ''}
+                    model={model || ''}
+                    color={color || ''}
+                    onChange={applyCatalogChanges}
                   />
-                  {errors.color && (
-                    <p className="text-red-500 text-sm mt-1">{errors.color.message}</p>
-                  )}
-                </div>
-                
-                <div>
-                  <Label htmlFor="brand" className="arabic-text">الماركة</Label>
-                  <Input
-                    id="brand"
-                    {...register('brand', { required: 'الماركة مطلوبة' })}
-                    className="arabic-text"
-                  />
-                  {errors.brand && (
-                    <p className="text-red-500 text-sm mt-1">{errors.brand.message}</p>
-                  )}
-                </div>
+                ) : (
+                  <>
+                    <div>
+                      <Label htmlFor="model" className="arabic-text">الموديل</Label>
+                      <Input
+                        id="model"
+                        {...register('model', { required: 'الموديل مطلوب' })}
+                        className="arabic-text"
+                      />
+                      {errors.model && (
+                        <p className="text-red-500 text-sm mt-1">{errors.model.message}</p>
+                      )}
+                    </div>
+                    
+                    <div>
+                      <Label htmlFor="color" className="arabic-text">اللون</Label>
+                      <Input
+                        id="color"
+                        {...register('color', { required: 'اللون مطلوب' })}
+                        className="arabic-text"
+                      />
+                      {errors.color && (
+                        <p className="text-red-500 text-sm mt-1">{errors.color.message}</p>
+                      )}
+                    </div>
+                    
+                    <div>
+                      <Label htmlFor="brand" className="arabic-text">الماركة</Label>
+                      <Input
+                        id="brand"
+                        {...register('brand', { required: 'الماركة مطلوبة' })}
+                        className="arabic-text"
+                      />
+                      {errors.brand && (
+                        <p className="text-red-500 text-sm mt-1">{errors.brand.message}</p>
+                      )}
+                    </div>
+                  </>
+                )}
                 
                 <div>
                   <Label htmlFor="manufacturingYear" className="arabic-text">سنة الصنع</Label>
@@ -433,6 +492,24 @@ export function EditInventoryPage() {
                     <p className="text-red-500 text-sm mt-1">{errors.salePrice.message}</p>
                   )}
                 </div>
+                
+                <div>
+                  <Label htmlFor="minimumPrice" className="arabic-text">الحد الأدنى لسعر البيع (جنيه)</Label>
+                  <Input
+                    id="minimumPrice"
+                    type="number"
+                    step="0.01"
+                    {...register('minimumPrice', { 
+                      valueAsNumber: true,
+                      min: { value: 0, message: 'الحد الأدنى لا يمكن أن يكون سالباً' }
+                    })}
+                    placeholder="صفر = حسب الموديل"
+                    className="arabic-text"
+                  />
+                  {errors.minimumPrice && (
+                    <p className="text-red-500 text-sm mt-1">{errors.minimumPrice.message}</p>
+                  )}
+                </div>
               </div>
               
               {/* Images Section - Edit Mode */}
@@ -554,6 +631,12 @@ export function EditInventoryPage() {
                   <label className="block text-sm font-medium text-gray-700 arabic-text">سعر البيع</label>
                   <p className="mt-1 text-sm text-gray-900 p-2 bg-gray-50 rounded">{item.salePrice} جنيه</p>
                 </div>
+                {item.minimumPrice > 0 && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 arabic-text">الحد الأدنى لسعر البيع</label>
+                    <p className="mt-1 text-sm text-gray-900 p-2 bg-gray-50 rounded">{item.minimumPrice} جنيه</p>
+                  </div>
+                )}
               </div>
             </div>
           )}
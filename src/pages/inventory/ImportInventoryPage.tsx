@@ -0,0 +1,335 @@
+import { useState, useEffect, useMemo } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { toast } from 'sonner'
+import {
+  AlertCircle,
+  ArrowLeft,
+  CheckCircle,
+  Download,
+  FileSpreadsheet,
+  RefreshCw,
+  Upload,
+  XCircle
+} from 'lucide-react'
+import { collection, query, where, getDocs } from 'firebase/firestore'
+import { useAuthState } from 'react-firebase-hooks/auth'
+
+import { db, auth } from '@/firebase/firebase-config.template'
+import { Button } from '@/components/ui/Button'
+import { Label } from '@/components/ui/Label'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/Card'
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner'
+import { useUserData } from '@/hooks/useUserData'
+import { Warehouse } from '@/types'
+import { formatCurrency, isAdmin, isSuperAdmin, vehicleTypeTranslations } from '@/lib/utils'
+import {
+  autoMapColumns,
+  ColumnMapping,
+  downloadImportTemplate,
+  ImportField,
+  importFieldLabels,
+  ImportRow,
+  IMPORT_MAX_ROWS,
+  InventoryImportService,
+  readSpreadsheet,
+  SpreadsheetData,
+  validateImportRows
+} from '@/lib/inventoryImport'
+import { InventoryIdentifierService, normalizeIdentifier } from '@/lib/inventoryIdentifiers'
+import { VehicleCatalogService } from '@/lib/vehicleCatalog'
+
+export function ImportInventoryPage() {
+  const navigate = useNavigate()
+  const [user] = useAuthState(auth)
+  const { userData } = useUserData(user?.uid)
+  const [warehouses, setWarehouses] = useState<Warehouse[]>([])
+  const [warehouseId, setWarehouseId] = useState('')
+  const [fileName, setFileName] = useState('')
+  const [data, setData] = useState<SpreadsheetData | null>(null)
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null)
+  const [rows, setRows] = useState<ImportRow[]>([])
+  const [showErrorsOnly, setShowErrorsOnly] = useState(false)
+  const [reading, setReading] = useState(false)
+  const [validating, setValidating] = useState(false)
+  const [importing, setImporting] = useState(false)
+
+  useEffect(() => {
+    loadWarehouses()
+  }, [])
+
+  const loadWarehouses = async () => {
+    try {
+      const snapshot = await getDocs(query(collection(db, 'warehouses'), where('isActive', '==', true)))
+      const warehousesData = snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() })) as Warehouse[]
+      setWarehouses(warehousesData)
+
+      // الشحنات الجديدة تدخل المخزن الرئيسي افتراضياً
+      const mainWarehouse = warehousesData.find(w => w.type === 'main')
+        || warehousesData.find(w => w.name?.includes('رئيسي') || w.name?.includes('main'))
+        || warehousesData[0]
+      if (mainWarehouse) {
+        setWarehouseId(mainWarehouse.id)
+      }
+    } catch (error) {
+      console.error('Error loading warehouses:', error)
+      toast.error('خطأ في تحميل المخازن')
+    }
+  }
+
+  const handleFile = async (file: File) => {
+    setReading(true)
+    try {
+      const spreadsheet = await readSpreadsheet(file)
+      if (spreadsheet.rows.length === 0) {
+        toast.error('الملف لا يحتوي على بيانات')
+        return
+      }
+      setFileName(file.name)
+      setData(spreadsheet)
+      setMapping(autoMapColumns(spreadsheet.headers))
+      setRows([])
+    } catch (error) {
+      console.error('Error reading spreadsheet:', error)
+      toast.error('تعذر قراءة الملف، تأكد أنه ملف Excel صالح')
+    } finally {
+      setReading(false)
+    }
+  }
+
+  const handleValidate = async () => {
+    if (!data || !mapping) return
+
+    setValidating(true)
+    try {
+      const cellValues = (field: ImportField) => mapping[field]
+        ? data.rows.map(row => normalizeIdentifier(String(row[mapping[field]] ?? '')))
+        : []
+      const [existing, catalog] = await Promise.all([
+        InventoryIdentifierService.findExisting(cellValues('motorFingerprint'), cellValues('chassisNumber')),
+        VehicleCatalogService.getCatalog()
+      ])
+      setRows(validateImportRows(data, mapping, existing, catalog))
+    } catch (error) {
+      console.error('Error validating import:', error)
+      toast.error('خطأ في التحقق من بيانات الملف')
+    } finally {
+      setValidating(false)
+    }
+  }
+
+  const handleImport = async () => {
+    if (!user) return
+
+    setImporting(true)
+    const result = await InventoryImportService.commitImport(rows, warehouseId, user.uid, fileName)
+    setImporting(false)
+
+    if (result.success) {
+      toast.success(`تم استيراد ${result.importedCount} صنف بنجاح`)
+      navigate('/inventory')
+    } else {
+      toast.error(result.error || 'فشل في استيراد المخزون')
+    }
+  }
+
+  const validCount = useMemo(() => rows.filter(row => row.errors.length === 0).length, [rows])
+  const visibleRows = showErrorsOnly ? rows.filter(row => row.errors.length > 0) : rows
+
+  if (!userData) {
+    return <LoadingSpinner text="جاري تحميل بيانات المستخدم..." />
+  }
+
+  if (!isAdmin(userData.role) && !isSuperAdmin(userData.role)) {
+    return (
+      <div className="text-center py-12">
+        <AlertCircle className="mx-auto h-12 w-12 text-red-500 mb-4" />
+        <h3 className="text-lg font-medium text-gray-900 mb-2 arabic-text">غير مصرح لك بالوصول</h3>
+        <p className="text-gray-500 arabic-text">استيراد المخزون متاح للمديرين فقط</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-6 py-6">
+      {/* Page Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 arabic-text">استيراد المخزون من Excel</h1>
+          <p className="text-gray-600 arabic-text">إدخال شحنة كاملة من قائمة التعبئة مع مراجعة الصفوف قبل الحفظ</p>
+        </div>
+        <Button variant="outline" onClick={() => navigate('/inventory')}>
+          <ArrowLeft className="ml-2 h-4 w-4" />
+          العودة للمخزون
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <FileSpreadsheet className="h-5 w-5" />
+            ملف الشحنة
+          </CardTitle>
+          <CardDescription>
+            الصف الأول في الملف يجب أن يحتوي على أسماء الأعمدة، بحد أقصى {IMPORT_MAX_ROWS} صنف في الشحنة
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="importFile" required>ملف Excel</Label>
+              <input
+                id="importFile"
+                type="file"
+                accept=".xlsx,.xls,.csv"
+                disabled={reading}
+                onChange={(e) => {
+                  const file = e.target.files?.[0]
+                  if (file) handleFile(file)
+                }}
+                className="form-input w-full"
+              />
+              {fileName && (
+                <p className="text-xs text-gray-500">{fileName} - {data?.rows.length || 0} صف</p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="importWarehouse" required>المخزن المستلم</Label>
+              <select
+                id="importWarehouse"
+                value={warehouseId}
+                onChange={(e) => setWarehouseId(e.target.value)}
+                className="form-input w-full input-rtl arabic-text"
+              >
+                <option value="">اختر المخزن</option>
+                {warehouses.map(warehouse => (
+                  <option key={warehouse.id} value={warehouse.id}>{warehouse.name}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <Button type="button" variant="outline" size="sm" onClick={downloadImportTemplate}>
+            <Download className="ml-2 h-4 w-4" />
+            تحميل نموذج الأعمدة
+          </Button>
+        </CardContent>
+      </Card>
+
+      {data && mapping && (
+        <Card>
+          <CardHeader>
+            <CardTitle>مطابقة الأعمدة</CardTitle>
+            <CardDescription>تمت مطابقة الأعمدة المعروفة تلقائياً، راجعها قبل التحقق</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              {(Object.keys(importFieldLabels) as ImportField[]).map(field => (
+                <div key={field} className="space-y-2">
+                  <Label htmlFor={`map-${field}`}>{importFieldLabels[field]}</Label>
+                  <select
+                    id={`map-${field}`}
+                    value={mapping[field]}
+                    onChange={(e) => {
+                      setMapping({ ...mapping, [field]: e.target.value })
+                      setRows([])
+                    }}
+                    className="form-input w-full input-rtl arabic-text"
+                  >
+                    <option value="">- غير موجود -</option>
+                    {data.headers.map(header => (
+                      <option key={header} value={header}>{header}</option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+            <Button type="button" onClick={handleValidate} loading={validating}>
+              <RefreshCw className="ml-2 h-4 w-4" />
+              التحقق من البيانات
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      {rows.length > 0 && (
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div>
+                <CardTitle>معاينة الاستيراد</CardTitle>
+                <CardDescription>
+                  {validCount} صف صالح من {rows.length}، والصفوف التي بها أخطاء لن يتم استيرادها
+                </CardDescription>
+              </div>
+              <label className="flex items-center gap-2 text-sm arabic-text">
+                <input
+                  type="checkbox"
+                  checked={showErrorsOnly}
+                  onChange={(e) => setShowErrorsOnly(e.target.checked)}
+                />
+                الأخطاء فقط
+              </label>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="overflow-x-auto max-h-[60vh]">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 sticky top-0">
+                  <tr>
+                    <th className="px-3 py-2 text-right">الصف</th>
+                    <th className="px-3 py-2 text-right">النوع</th>
+                    <th className="px-3 py-2 text-right">الماركة / الموديل</th>
+                    <th className="px-3 py-2 text-right">السنة</th>
+                    <th className="px-3 py-2 text-right">الشاسيه</th>
+                    <th className="px-3 py-2 text-right">الموتور</th>
+                    <th className="px-3 py-2 text-right">الشراء</th>
+                    <th className="px-3 py-2 text-right">البيع</th>
+                    <th className="px-3 py-2 text-right">الحالة</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y">
+                  {visibleRows.map(row => (
+                    <tr key={row.rowNumber} className={row.errors.length > 0 ? 'bg-red-50' : ''}>
+                      <td className="px-3 py-2">{row.rowNumber}</td>
+                      <td className="px-3 py-2">{vehicleTypeTranslations[row.item.type]}</td>
+                      <td className="px-3 py-2">{row.item.brand} {row.item.model}</td>
+                      <td className="px-3 py-2">{row.item.manufacturingYear || '-'}</td>
+                      <td className="px-3 py-2 font-mono">{row.item.chassisNumber || '-'}</td>
+                      <td className="px-3 py-2 font-mono">{row.item.motorFingerprint || '-'}</td>
+                      <td className="px-3 py-2">{formatCurrency(row.item.purchasePrice)}</td>
+                      <td className="px-3 py-2">{formatCurrency(row.item.salePrice)}</td>
+                      <td className="px-3 py-2">
+                        {row.errors.length === 0 ? (
+                          <CheckCircle className="h-4 w-4 text-green-600" />
+                        ) : (
+                          <ul className="text-xs text-red-700 space-y-0.5 arabic-text">
+                            {row.errors.map(error => (
+                              <li key={error} className="flex items-start gap-1">
+                                <XCircle className="h-3 w-3 mt-0.5 flex-shrink-0" />
+                                {error}
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <Button
+              type="button"
+              className="w-full"
+              loading={importing}
+              disabled={validCount === 0 || !warehouseId}
+              onClick={handleImport}
+            >
+              <Upload className="ml-2 h-4 w-4" />
+              استيراد {validCount} صنف صالح
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useRef } from 'react'
 import { useParams, useNavigate, Link } from 'react-router-dom'
 import { 
   ArrowLeft, 
@@ -7,18 +7,27 @@ import {
   MapPin,
   Eye,
   History,
-  FileText
+  FileText,
+  BookmarkPlus,
+  ShoppingCart,
+  XCircle,
+  QrCode,
+  Printer
 } from 'lucide-react'
-import { doc, getDoc, collection, query, where, getDocs, orderBy } from 'firebase/firestore'
+import { toast } from 'sonner'
+import { doc, getDoc } from 'firebase/firestore'
 import { useAuthState } from 'react-firebase-hooks/auth'
 
 import { db, auth } from '@/firebase/firebase-config.template'
 import { Button } from '@/components/ui/Button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/Card'
 import { LoadingSpinner } from '@/components/ui/LoadingSpinner'
+import { ReserveItemDialog } from '@/components/sales/ReserveItemDialog'
 import { useUserData } from '@/hooks/useUserData'
-import { InventoryItem, Transaction, Warehouse } from '@/types'
-import { vehicleTypeTranslations, formatCurrency, formatDateTime, cn } from '@/lib/utils'
+import { ReservationService, isReservationActive } from '@/lib/reservations'
+import { InventoryItem, ItemReservation, Warehouse } from '@/types'
+import { vehicleTypeTranslations, formatCurrency, formatDate, formatDateTime, cn, printElement } from '@/lib/utils'
+import { ItemTimelineService, TimelineEvent, TimelineEventKind, timelineKindLabels } from '@/lib/itemTimeline'
 
 export function InventoryDetailsPage() {
   const { id } = useParams<{ id: string }>()
@@ -27,8 +36,12 @@ export function InventoryDetailsPage() {
   const { userData } = useUserData(user?.uid)
   const [item, setItem] = useState<InventoryItem | null>(null)
   const [warehouse, setWarehouse] = useState<Warehouse | null>(null)
-  const [transactions, setTransactions] = useState<Transaction[]>([])
+  const [timeline, setTimeline] = useState<TimelineEvent[]>([])
   const [loading, setLoading] = useState(true)
+  const [reservation, setReservation] = useState<ItemReservation | null>(null)
+  const [showReserveDialog, setShowReserveDialog] = useState(false)
+  const [cancellingReservation, setCancellingReservation] = useState(false)
+  const historySheetRef = useRef<HTMLDivElement>(null)
 
   useEffect(() => {
     if (id && userData) {
@@ -58,6 +71,13 @@ export function InventoryDetailsPage() {
       console.log('Item data loaded:', itemData)
       setItem(itemData)
 
+      // Load active reservation if the item is reserved
+      if (itemData.status === 'reserved' && itemData.reservationId) {
+        setReservation(await ReservationService.getReservation(itemData.reservationId))
+      } else {
+        setReservation(null)
+      }
+
       // Load warehouse data if available
       if (itemData.currentWarehouseId) {
         try {
@@ -86,74 +106,12 @@ export function InventoryDetailsPage() {
         }
       }
 
-      // Load transaction history for this item
-      try {
-        const transactionsQuery = query(
-          collection(db, 'transactions'),
-          where('items', 'array-contains', { inventoryItemId: id }),
-          orderBy('createdAt', 'desc')
-        )
-        
-        const transactionsSnapshot = await getDocs(transactionsQuery)
-        const transactionsData = transactionsSnapshot.docs.map(doc => ({
-          id: doc.id,
-          ...doc.data()
-        })) as Transaction[]
-        
-        console.log('Transactions loaded:', transactionsData.length, 'transactions')
-        setTransactions(transactionsData)
-      } catch (transactionError) {
-        console.error('Error loading transactions:', transactionError)
-        // If transactions query fails (likely due to missing index), set empty array
-        setTransactions([])
-      }
-
-      // Also load warehouse transfers for this item
+      // Load the full lifecycle timeline for this item
       try {
-        const transfersQuery = query(
-          collection(db, 'warehouse_transfers'),
-          where('inventoryItemId', '==', id),
-          orderBy('createdAt', 'desc')
-        )
-        
-        const transfersSnapshot = await getDocs(transfersQuery)
-        const transfersData = transfersSnapshot.docs.map(doc => ({
-          id: doc.id,
-          type: 'warehouse_transfer',
-          date: doc.data().transferredAt || doc.data().createdAt,
-          referenceNumber: doc.data().transactionId,
-          totalAmount: doc.data().purchasePrice || 0,
-          details: {
-            notes: `تحويل من ${doc.data().fromWarehouseId} إلى ${doc.data().toWarehouseId}`
-          },
-          ...doc.data()
-        })) as Transaction[]
-        
-        console.log('Transfers loaded:', transfersData.length, 'transfers')
-        
-        // Combine transactions and transfers
-        const allTransactions = [...transactions, ...transfersData]
-          .sort((a, b) => {
-            const dateA = a.date && typeof a.date.toDate === 'function' 
-              ? a.date.toDate() 
-              : a.date instanceof Date 
-                ? a.date 
-                : a.date 
-                  ? new Date(a.date as any) 
-                  : new Date()
-            const dateB = b.date && typeof b.date.toDate === 'function' 
-              ? b.date.toDate() 
-              : b.date instanceof Date 
-                ? b.date 
-                : b.date 
-                  ? new Date(b.date as any) 
-                  : new Date()
-            return dateB.getTime() - dateA.getTime()
-          })
-        
-        setTransactions(allTransactions)
-      } catch (transferError) {
-        console.error('Error loading transfers:', transferError)
+        setTimeline(await ItemTimelineService.getTimeline(itemData))
+      } catch (timelineError) {
+        console.error('Error loading item timeline:', timelineError)
+        setTimeline([])
       }
 
     } catch (error) {
@@ -164,6 +122,22 @@ export function InventoryDetailsPage() {
     }
   }
 
+  const handleCancelReservation = async () => {
+    if (!reservation || !userData) return
+    if (!confirm(`هل تريد إلغاء حجز العميل ${reservation.customerName}؟ سيعود المنتج متاحاً للبيع.`)) return
+
+    setCancellingReservation(true)
+    const result = await ReservationService.cancelReservation(reservation.id, userData.id)
+    setCancellingReservation(false)
+
+    if (result.success) {
+      toast.success('تم إلغاء الحجز')
+      await loadItemDetails()
+    } else {
+      toast.error(result.error || 'فشل في إلغاء الحجز')
+    }
+  }
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'available': return 'bg-green-100 text-green-800'
@@ -180,30 +154,22 @@ export function InventoryDetailsPage() {
       case 'sold': return 'مباع'
       case 'transferred': return 'محول'
       case 'reserved': return 'محجوز'
+      case 'written_off': return 'مشطوب'
       default: return status
     }
   }
 
-  const getTransactionTypeLabel = (type: string) => {
-    const labels = {
-      'warehouse_entry': 'إدخال مخزني',
-      'warehouse_transfer': 'تحويل مخزني',
-      'sale_to_customer': 'بيع للعميل',
-      'agent_invoice': 'فاتورة وكيل',
-      'payment_receipt': 'سند قبض',
-      'return': 'مرتجع'
-    }
-    return labels[type as keyof typeof labels] || type
-  }
-
-  const getTransactionColor = (type: string) => {
-    switch (type) {
-      case 'warehouse_entry': return 'bg-green-100 text-green-800'
-      case 'warehouse_transfer': return 'bg-blue-100 text-blue-800'
-      case 'sale_to_customer': return 'bg-purple-100 text-purple-800'
-      case 'agent_invoice': return 'bg-orange-100 text-orange-800'
-      case 'payment_receipt': return 'bg-teal-100 text-teal-800'
-      case 'return': return 'bg-red-100 text-red-800'
+  const getTimelineColor = (kind: TimelineEventKind) => {
+    switch (kind) {
+      case 'entry': return 'bg-green-100 text-green-800'
+      case 'transfer': return 'bg-blue-100 text-blue-800'
+      case 'reservation':
+      case 'reservation_closed': return 'bg-yellow-100 text-yellow-800'
+      case 'sale': return 'bg-purple-100 text-purple-800'
+      case 'agent_transaction': return 'bg-orange-100 text-orange-800'
+      case 'return':
+      case 'write_off': return 'bg-red-100 text-red-800'
+      case 'price_change': return 'bg-teal-100 text-teal-800'
       default: return 'bg-gray-100 text-gray-800'
     }
   }
@@ -254,6 +220,18 @@ export function InventoryDetailsPage() {
           </p>
         </div>
         <div className="flex items-center gap-3">
+          {item.status === 'available' && (
+            <Button variant="outline" onClick={() => setShowReserveDialog(true)}>
+              <BookmarkPlus className="ml-2 h-4 w-4" />
+              حجز
+            </Button>
+          )}
+          <Link to={`/inventory/labels?ids=${item.id}`}>
+            <Button variant="outline">
+              <QrCode className="ml-2 h-4 w-4" />
+              طباعة ملصق
+            </Button>
+          </Link>
           <Link to={`/inventory/edit/${item.id}`}>
             <Button variant="outline">
               <Edit className="ml-2 h-4 w-4" />
@@ -267,6 +245,45 @@ export function InventoryDetailsPage() {
         </div>
       </div>
 
+      {/* Reservation Banner */}
+      {reservation && (
+        <Card className="border-yellow-200 bg-yellow-50">
+          <CardContent className="p-4">
+            <div className="flex items-center justify-between gap-4">
+              <div className="flex items-start gap-3">
+                <BookmarkPlus className="h-5 w-5 text-yellow-700 mt-0.5" />
+                <div className="text-sm">
+                  <p className="font-bold text-yellow-900 arabic-text">
+                    محجوز للعميل {reservation.customerName} ({reservation.customerPhone})
+                  </p>
+                  <p className="text-yellow-800 arabic-text">
+                    العربون: {formatCurrency(reservation.depositAmount)} - ينتهي الحجز: {formatDate(reservation.expiresAt)}
+                    {!isReservationActive(reservation) && ' (انتهت المدة)'}
+                  </p>
+                  {reservation.notes && (
+                    <p className="text-yellow-700 arabic-text">{reservation.notes}</p>
+                  )}
+                </div>
+              </div>
+              <div className="flex items-center gap-2">
+                {isReservationActive(reservation) && (
+                  <Link to={`/sales/create?reservation=${reservation.id}`}>
+                    <Button size="sm">
+                      <ShoppingCart className="ml-2 h-4 w-4" />
+                      تحويل إلى بيع
+                    </Button>
+                  </Link>
+                )}
+                <Button size="sm" variant="outline" onClick={handleCancelReservation} loading={cancellingReservation}>
+                  <XCircle className="ml-2 h-4 w-4" />
+                  إلغاء الحجز
+                </Button>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         {/* Item Information */}
         <div className="space-y-6">
@@ -304,6 +321,11 @@ export function InventoryDetailsPage() {
                 <div>
                   <p className="text-sm text-gray-500 arabic-text">سعر الشراء</p>
                   <p className="font-medium text-green-600">{formatCurrency(item.purchasePrice)}</p>
+                  {item.landedCost ? (
+                    <p className="text-xs text-gray-500 arabic-text">
+                      سعر المورد {formatCurrency(item.supplierPrice || 0)} + تكاليف {formatCurrency(item.landedCost)}
+                    </p>
+                  ) : null}
                 </div>
                 <div>
                   <p className="text-sm text-gray-500 arabic-text">الحالة</p>
@@ -311,6 +333,12 @@ export function InventoryDetailsPage() {
                     {getStatusLabel(item.status)}
                   </span>
                 </div>
+                {item.condition === 'used' && (
+                  <div className="col-span-2">
+                    <p className="text-sm text-gray-500 arabic-text">مستعمل (استبدال)</p>
+                    <p className="font-medium arabic-text">{item.conditionNotes || 'بدون ملاحظات'}</p>
+                  </div>
+                )}
               </div>
             </CardContent>
           </Card>
@@ -370,7 +398,7 @@ export function InventoryDetailsPage() {
           </Card>
         </div>
 
-        {/* Images and History */}
+        {/* Images */}
         <div className="space-y-6">
           {/* Images Card */}
           <Card>
@@ -412,62 +440,93 @@ export function InventoryDetailsPage() {
               </div>
             </CardContent>
           </Card>
+        </div>
+      </div>
 
-          {/* Transaction History */}
-          <Card>
-            <CardHeader>
+      {/* Lifecycle Timeline */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
               <CardTitle className="flex items-center gap-2">
                 <History className="h-5 w-5" />
-                سجل المعاملات
+                سجل حياة المركبة
               </CardTitle>
-              <CardDescription>تاريخ جميع المعاملات المتعلقة بهذا الصنف</CardDescription>
-            </CardHeader>
-            <CardContent>
-              {transactions.length === 0 ? (
-                <p className="text-center text-gray-500 py-4 arabic-text">
-                  لا توجد معاملات مسجلة
-                </p>
-              ) : (
-                <div className="space-y-3">
-                  {transactions.map((transaction) => (
-                    <div key={transaction.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
-                      <div className="flex items-center gap-3">
-                        <div className={cn('p-2 rounded-full', getTransactionColor(transaction.type))}>
-                          <FileText className="h-4 w-4" />
-                        </div>
-                        <div>
-                          <p className="font-medium arabic-text">
-                            {getTransactionTypeLabel(transaction.type)}
-                          </p>
-                          <p className="text-sm text-gray-500">
-                            {transaction.date ? formatDateTime(
-                              transaction.date && typeof transaction.date.toDate === 'function' 
-                                ? transaction.date.toDate() 
-                                : transaction.date instanceof Date 
-                                  ? transaction.date 
-                                  : transaction.date 
-                                    ? new Date(transaction.date as any)
-                                    : new Date()
-                            ) : 'غير محدد'}
-                          </p>
-                        </div>
-                      </div>
-                      <div className="text-right">
-                        <p className="font-mono text-sm text-gray-600">
-                          {transaction.referenceNumber}
-                        </p>
-                        <p className="text-sm font-medium">
-                          {formatCurrency(transaction.totalAmount)}
+              <CardDescription>كل ما حدث لهذه الوحدة من الدخول حتى البيع مرتباً زمنياً</CardDescription>
+            </div>
+            <Button
+              variant="outline"
+              onClick={() => historySheetRef.current && printElement(historySheetRef.current, `سجل المركبة ${item.chassisNumber}`)}
+              disabled={timeline.length === 0}
+            >
+              <Printer className="ml-2 h-4 w-4" />
+              طباعة سجل المركبة
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div ref={historySheetRef} className="space-y-4">
+            {/* يظهر رأس السجل في الطباعة فقط */}
+            <div className="hidden print:block">
+              <h2 className="text-xl font-bold arabic-text">سجل المركبة</h2>
+              <p className="arabic-text">
+                {item.brand} {item.model} - {item.color} - {vehicleTypeTranslations[item.type]} - {item.manufacturingYear}
+              </p>
+              <p className="font-mono">رقم الشاسيه: {item.chassisNumber} | بصمة الموتور: {item.motorFingerprint}</p>
+              <p className="arabic-text">الحالة الحالية: {getStatusLabel(item.status)} - {warehouse?.name}</p>
+            </div>
+
+            {timeline.length === 0 ? (
+              <p className="text-center text-gray-500 py-4 arabic-text">
+                لا توجد أحداث مسجلة
+              </p>
+            ) : (
+              <ol className="relative border-r border-gray-200 mr-3 space-y-4">
+                {timeline.map((event) => (
+                  <li key={`${event.kind}_${event.id}`} className="mr-6">
+                    <span className={cn('absolute -right-3 flex h-6 w-6 items-center justify-center rounded-full', getTimelineColor(event.kind))}>
+                      <FileText className="h-3 w-3" />
+                    </span>
+                    <div className="flex items-start justify-between gap-4 p-3 bg-gray-50 rounded-lg">
+                      <div>
+                        <span className={cn('inline-flex px-2 py-0.5 text-xs font-semibold rounded-full mb-1', getTimelineColor(event.kind))}>
+                          {timelineKindLabels[event.kind]}
+                        </span>
+                        <p className="font-medium arabic-text">{event.title}</p>
+                        {event.description && (
+                          <p className="text-sm text-gray-600 arabic-text">{event.description}</p>
+                        )}
+                        <p className="text-sm text-gray-500">
+                          {formatDateTime(event.date)}
+                          {event.userName && <span className="arabic-text"> - {event.userName}</span>}
                         </p>
                       </div>
+                      <div className="text-right shrink-0">
+                        {event.reference && (
+                          <p className="font-mono text-sm text-gray-600">{event.reference}</p>
+                        )}
+                        {event.amount !== undefined && (
+                          <p className="text-sm font-medium">{formatCurrency(event.amount)}</p>
+                        )}
+                      </div>
                     </div>
-                  ))}
-                </div>
-              )}
-            </CardContent>
-          </Card>
-        </div>
-      </div>
+                  </li>
+                ))}
+              </ol>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      {showReserveDialog && (
+        <ReserveItemDialog
+          item={item}
+          userId={userData.id}
+          userName={userData.displayName}
+          onClose={() => setShowReserveDialog(false)}
+          onReserved={() => loadItemDetails()}
+        />
+      )}
     </div>
   )
-}
\ No newline at end of file
+}
@@ -0,0 +1,208 @@
+import { useState, useEffect, useRef } from 'react'
+import { useNavigate, useSearchParams } from 'react-router-dom'
+import { toast } from 'sonner'
+import { ArrowLeft, Printer, QrCode } from 'lucide-react'
+import { collection, query, where, getDocs, getDoc, doc } from 'firebase/firestore'
+
+import { db } from '@/firebase/firebase-config.template'
+import { Button } from '@/components/ui/Button'
+import { Label } from '@/components/ui/Label'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/Card'
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner'
+import { InventoryLabelSheet } from '@/components/inventory/InventoryLabelSheet'
+import { InventoryItem, Warehouse } from '@/types'
+import { printElement } from '@/lib/utils'
+import { LabelFormat, labelFormats } from '@/lib/inventoryLabels'
+
+export function InventoryLabelsPage() {
+  const navigate = useNavigate()
+  const [searchParams] = useSearchParams()
+  const [warehouses, setWarehouses] = useState<Warehouse[]>([])
+  const [warehouseId, setWarehouseId] = useState('')
+  const [items, setItems] = useState<InventoryItem[]>([])
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
+  const [format, setFormat] = useState<LabelFormat>('a4')
+  const [loading, setLoading] = useState(false)
+  const sheetRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    loadWarehouses()
+    // الطباعة من صفحة الصنف أو بعد الاستيراد تمرر المعرفات في الرابط
+    const ids = searchParams.get('ids')
+    if (ids) {
+      loadItemsById(ids.split(',').filter(Boolean))
+    }
+  }, [])
+
+  const loadWarehouses = async () => {
+    try {
+      const snapshot = await getDocs(query(collection(db, 'warehouses'), where('isActive', '==', true)))
+      setWarehouses(snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() })) as Warehouse[])
+    } catch (error) {
+      console.error('Error loading warehouses:', error)
+      toast.error('خطأ في تحميل المخازن')
+    }
+  }
+
+  const showItems = (loaded: InventoryItem[]) => {
+    setItems(loaded)
+    setSelectedIds(new Set(loaded.map(item => item.id)))
+  }
+
+  const loadItemsById = async (ids: string[]) => {
+    try {
+      setLoading(true)
+      const docs = await Promise.all(ids.map(id => getDoc(doc(db, 'inventory_items', id))))
+      showItems(docs.filter(itemDoc => itemDoc.exists()).map(itemDoc => ({ id: itemDoc.id, ...itemDoc.data() })) as InventoryItem[])
+    } catch (error) {
+      console.error('Error loading label items:', error)
+      toast.error('خطأ في تحميل الأصناف')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const loadWarehouseItems = async (selectedWarehouseId: string) => {
+    setWarehouseId(selectedWarehouseId)
+    if (!selectedWarehouseId) return
+
+    try {
+      setLoading(true)
+      const snapshot = await getDocs(query(
+        collection(db, 'inventory_items'),
+        where('currentWarehouseId', '==', selectedWarehouseId)
+      ))
+      showItems((snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() })) as InventoryItem[])
+        .filter(item => item.status !== 'sold' && item.status !== 'written_off'))
+    } catch (error) {
+      console.error('Error loading warehouse items:', error)
+      toast.error('خطأ في تحميل أصناف المخزن')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const toggleItem = (itemId: string) => {
+    const next = new Set(selectedIds)
+    if (next.has(itemId)) {
+      next.delete(itemId)
+    } else {
+      next.add(itemId)
+    }
+    setSelectedIds(next)
+  }
+
+  const selectedItems = items.filter(item => selectedIds.has(item.id))
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-6 py-6">
+      {/* Page Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 arabic-text">ملصقات QR للأصناف</h1>
+          <p className="text-gray-600 arabic-text">طباعة ملصقات تفتح صفحة الصنف عند قراءتها وتختاره مباشرة في شاشات البيع</p>
+        </div>
+        <Button variant="outline" onClick={() => navigate('/inventory')}>
+          <ArrowLeft className="ml-2 h-4 w-4" />
+          العودة للمخزون
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <QrCode className="h-5 w-5" />
+            إعدادات الطباعة
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+            <div className="space-y-2">
+              <Label htmlFor="labelsWarehouse">أصناف المخزن</Label>
+              <select
+                id="labelsWarehouse"
+                value={warehouseId}
+                onChange={(e) => loadWarehouseItems(e.target.value)}
+                className="form-input w-full input-rtl arabic-text"
+              >
+                <option value="">اختر المخزن</option>
+                {warehouses.map(warehouse => (
+                  <option key={warehouse.id} value={warehouse.id}>{warehouse.name}</option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="labelsFormat">نوع الورق</Label>
+              <select
+                id="labelsFormat"
+                value={format}
+                onChange={(e) => setFormat(e.target.value as LabelFormat)}
+                className="form-input w-full input-rtl arabic-text"
+              >
+                {(Object.keys(labelFormats) as LabelFormat[]).map(key => (
+                  <option key={key} value={key}>{labelFormats[key].label}</option>
+                ))}
+              </select>
+            </div>
+            <Button
+              disabled={selectedItems.length === 0}
+              onClick={() => sheetRef.current && printElement(sheetRef.current, 'ملصقات الأصناف')}
+            >
+              <Printer className="ml-2 h-4 w-4" />
+              طباعة {selectedItems.length} ملصق
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {loading ? (
+        <LoadingSpinner text="جاري تحميل الأصناف..." />
+      ) : items.length > 0 && (
+        <>
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <div>
+                  <CardTitle>الأصناف</CardTitle>
+                  <CardDescription>{selectedItems.length} من {items.length} محدد للطباعة</CardDescription>
+                </div>
+                <div className="flex gap-2">
+                  <Button size="sm" variant="outline" onClick={() => setSelectedIds(new Set(items.map(item => item.id)))}>
+                    تحديد الكل
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => setSelectedIds(new Set())}>
+                    إلغاء التحديد
+                  </Button>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-2 max-h-80 overflow-y-auto text-sm">
+                {items.map(item => (
+                  <label key={item.id} className="flex items-center gap-2 p-2 border rounded cursor-pointer hover:bg-gray-50">
+                    <input
+                      type="checkbox"
+                      checked={selectedIds.has(item.id)}
+                      onChange={() => toggleItem(item.id)}
+                    />
+                    <span className="flex-1">{item.brand} {item.model} {item.color && `- ${item.color}`}</span>
+                    <span className="font-mono text-gray-500">{item.chassisNumber}</span>
+                  </label>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>معاينة</CardTitle>
+            </CardHeader>
+            <CardContent className="overflow-x-auto">
+              <InventoryLabelSheet ref={sheetRef} items={selectedItems} format={format} />
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  )
+}
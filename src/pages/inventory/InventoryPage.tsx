@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react'
-import { Routes, Route, Link, useLocation } from 'react-router-dom'
+import { Routes, Route, Link, useLocation, useNavigate } from 'react-router-dom'
 import { 
   Package, 
   Plus, 
@@ -11,7 +11,15 @@ import {
   TrendingUp,
   Hash,
   DollarSign,
-  BarChart3
+  BarChart3,
+  FileSpreadsheet,
+  Copy,
+  ClipboardCheck,
+  QrCode,
+  BookOpen,
+  SlidersHorizontal,
+  ClipboardList,
+  Calculator
 } from 'lucide-react'
 import { collection, query, where, getDocs, orderBy } from 'firebase/firestore'
 import { useAuthState } from 'react-firebase-hooks/auth'
@@ -26,12 +34,30 @@ import { InventoryItem, VehicleType, Warehouse } from '@/types'
 import { vehicleTypeTranslations, formatCurrency, formatDate, isAdmin, isSuperAdmin } from '@/lib/utils'
 import { cn } from '@/lib/utils'
 import { toast } from 'sonner'
+import { QrScanButton } from '@/components/inventory/QrScanButton'
+import { findScannedItem } from '@/lib/inventoryLabels'
 
 // Import sub-pages
 import { AddInventoryPage } from './AddInventoryPage'
 import { EditInventoryPage } from './EditInventoryPage'
 import { InventoryDetailsPage } from './InventoryDetailsPage'
 import { WarehouseTransferPage } from './WarehouseTransferPage'
+import { ImportInventoryPage } from './ImportInventoryPage'
+import { DuplicateIdentifiersPage } from './DuplicateIdentifiersPage'
+import { StockCountsPage } from './StockCountsPage'
+import { StockCountSessionPage } from './StockCountSessionPage'
+import { InventoryLabelsPage } from './InventoryLabelsPage'
+import { VehicleCatalogPage } from './VehicleCatalogPage'
+import { CatalogMigrationPage } from './CatalogMigrationPage'
+import { ReorderLevelsPage } from './ReorderLevelsPage'
+import { SuppliersPage } from './SuppliersPage'
+import { SupplierLedgerPage } from './SupplierLedgerPage'
+import { PurchaseOrdersPage } from './PurchaseOrdersPage'
+import { CreatePurchaseOrderPage } from './CreatePurchaseOrderPage'
+import { PurchaseOrderDetailsPage } from './PurchaseOrderDetailsPage'
+import { LandedCostsPage } from './LandedCostsPage'
+import { TransferNotesPage } from './TransferNotesPage'
+import { TransferNoteDetailsPage } from './TransferNoteDetailsPage'
 
 interface InventoryFilters {
   search: string
@@ -47,14 +73,31 @@ export function InventoryPage() {
     <Routes>
       <Route path="/" element={<InventoryList />} />
       <Route path="/add" element={<AddInventoryPage />} />
+      <Route path="/import" element={<ImportInventoryPage />} />
+      <Route path="/duplicates" element={<DuplicateIdentifiersPage />} />
+      <Route path="/counts" element={<StockCountsPage />} />
+      <Route path="/counts/:id" element={<StockCountSessionPage />} />
+      <Route path="/labels" element={<InventoryLabelsPage />} />
+      <Route path="/catalog" element={<VehicleCatalogPage />} />
+      <Route path="/catalog/migrate" element={<CatalogMigrationPage />} />
+      <Route path="/reorder" element={<ReorderLevelsPage />} />
+      <Route path="/suppliers" element={<SuppliersPage />} />
+      <Route path="/suppliers/:id" element={<SupplierLedgerPage />} />
+      <Route path="/purchase-orders" element={<PurchaseOrdersPage />} />
+      <Route path="/purchase-orders/new" element={<CreatePurchaseOrderPage />} />
+      <Route path="/purchase-orders/:id" element={<PurchaseOrderDetailsPage />} />
+      <Route path="/landed-costs" element={<LandedCostsPage />} />
       <Route path="/edit/:id" element={<EditInventoryPage />} />
       <Route path="/details/:id" element={<InventoryDetailsPage />} />
       <Route path="/transfer" element={<WarehouseTransferPage />} />
+      <Route path="/transfers" element={<TransferNotesPage />} />
+      <Route path="/transfers/:id" element={<TransferNoteDetailsPage />} />
     </Routes>
   )
 }
 
 function InventoryList() {
+  const navigate = useNavigate()
   const [user] = useAuthState(auth)
   const { userData } = useUserData(user?.uid)
   const [inventory, setInventory] = useState<InventoryItem[]>([])
@@ -217,6 +260,16 @@ function InventoryList() {
 
   const canAddItems = userData && (isSuperAdmin(userData.role) || isAdmin(userData.role))
 
+  // فتح الصنف مباشرة عند قراءة ملصق QR أو رقم الشاسيه بالقارئ
+  const openScannedItem = (text: string) => {
+    const item = findScannedItem(inventory, text)
+    if (item) {
+      navigate(`/inventory/details/${item.id}`)
+    } else if (text.includes('/inventory/details/')) {
+      toast.error('الصنف غير موجود في المخازن المتاحة لك')
+    }
+  }
+
   if (!userData) {
     return <LoadingSpinner text="جاري تحميل بيانات المستخدم..." />
   }
@@ -236,6 +289,78 @@ function InventoryList() {
               تحويل بين المخازن
             </Button>
           </Link>
+          {canAddItems && (
+            <Link to="/inventory/transfers">
+              <Button variant="outline">
+                <ClipboardCheck className="ml-2 h-4 w-4" />
+                أذون التحويل
+              </Button>
+            </Link>
+          )}
+          {canAddItems && (
+            <Link to="/inventory/labels">
+              <Button variant="outline">
+                <QrCode className="ml-2 h-4 w-4" />
+                ملصقات QR
+              </Button>
+            </Link>
+          )}
+          {canAddItems && (
+            <Link to="/inventory/counts">
+              <Button variant="outline">
+                <ClipboardCheck className="ml-2 h-4 w-4" />
+                جرد المخازن
+              </Button>
+            </Link>
+          )}
+          {canAddItems && (
+            <Link to="/inventory/catalog">
+              <Button variant="outline">
+                <BookOpen className="ml-2 h-4 w-4" />
+                كتالوج الموديلات
+              </Button>
+            </Link>
+          )}
+          {canAddItems && (
+            <Link to="/inventory/reorder">
+              <Button variant="outline">
+                <SlidersHorizontal className="ml-2 h-4 w-4" />
+                حدود إعادة الطلب
+              </Button>
+            </Link>
+          )}
+          {canAddItems && (
+            <Link to="/inventory/purchase-orders">
+              <Button variant="outline">
+                <ClipboardList className="ml-2 h-4 w-4" />
+                أوامر الشراء
+              </Button>
+            </Link>
+          )}
+          {canAddItems && (
+            <Link to="/inventory/landed-costs">
+              <Button variant="outline">
+                <Calculator className="ml-2 h-4 w-4" />
+                تكاليف الشحنات
+              </Button>
+            </Link>
+          )}
+          {canAddItems && (
+            <Link to="/inventory/duplicates">
+              <Button variant="outline">
+                <Copy className="ml-2 h-4 w-4" />
+                الأرقام المكررة
+              </Button>
+            </Link>
+          )}
+          {canAddItems && (
+            <Link to="/inventory/import">
+              <Button variant="outline">
+                <FileSpreadsheet className="ml-2 h-4 w-4" />
+                استيراد من Excel
+              </Button>
+            </Link>
+          )}
           {canAddItems && (
             <Link to="/inventory/add">
               <Button>
@@ -252,14 +377,19 @@ function InventoryList() {
         <CardContent className="p-6">
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-6 gap-4">
             {/* Search */}
-            <div className="lg:col-span-2">
+            <div className="lg:col-span-2 flex gap-2">
               <Input
                 type="text"
                 placeholder="البحث في المخزون (مثال: هوجن 3 2025)"
                 value={filters.search}
                 onChange={(e) => handleFilterChange('search', e.target.value)}
+                onKeyDown={(e) => {
+                  // قارئ الباركود يكتب محتوى الملصق ثم Enter
+                  if (e.key === 'Enter') openScannedItem(filters.search)
+                }}
                 className="w-full"
               />
+              <QrScanButton onScan={openScannedItem} />
             </div>
 
             {/* Warehouse Filter */}
@@ -501,6 +631,7 @@ function InventoryCard({ item }: { item: InventoryItem }) {
       case 'sold': return 'مباع'
       case 'transferred': return 'محول'
       case 'reserved': return 'محجوز'
+      case 'written_off': return 'مشطوب'
       default: return status
     }
   }
@@ -534,9 +665,14 @@ function InventoryCard({ item }: { item: InventoryItem }) {
             <span className="text-lg font-bold text-gray-900">
               {formatCurrency(item.purchasePrice)}
             </span>
-            <span className={cn('px-2 py-1 rounded-full text-xs font-medium', getStatusColor(item.status))}>
-              {getStatusLabel(item.status)}
-            </span>
+            <div className="flex items-center gap-1">
+              {item.condition === 'used' && (
+                <span className="px-2 py-1 rounded-full text-xs font-medium bg-orange-100 text-orange-800">مستعمل</span>
+              )}
+              <span className={cn('px-2 py-1 rounded-full text-xs font-medium', getStatusColor(item.status))}>
+                {getStatusLabel(item.status)}
+              </span>
+            </div>
           </div>
 
           {/* Actions */}
@@ -575,6 +711,7 @@ function InventoryRow({ item }: { item: InventoryItem }) {
       case 'sold': return 'مباع'
       case 'transferred': return 'محول'
       case 'reserved': return 'محجوز'
+      case 'written_off': return 'مشطوب'
       default: return status
     }
   }
@@ -602,6 +739,9 @@ function InventoryRow({ item }: { item: InventoryItem }) {
         <span className={cn('inline-flex px-2 py-1 text-xs font-semibold rounded-full', getStatusColor(item.status))}>
           {getStatusLabel(item.status)}
         </span>
+        {item.condition === 'used' && (
+          <span className="mr-1 inline-flex px-2 py-1 text-xs font-semibold rounded-full bg-orange-100 text-orange-800">مستعمل</span>
+        )}
       </td>
       <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
         <div className="flex items-center gap-2">
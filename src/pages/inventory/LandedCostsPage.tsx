@@ -0,0 +1,396 @@
+import { useState, useEffect } from 'react'
+import { useNavigate, useSearchParams } from 'react-router-dom'
+import { toast } from 'sonner'
+import { AlertCircle, ArrowLeft, Calculator, Plus, Search, Trash2 } from 'lucide-react'
+import { useAuthState } from 'react-firebase-hooks/auth'
+
+import { auth } from '@/firebase/firebase-config.template'
+import { Button } from '@/components/ui/Button'
+import { Input } from '@/components/ui/Input'
+import { Label } from '@/components/ui/Label'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/Card'
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner'
+import { useUserData } from '@/hooks/useUserData'
+import {
+  GoodsReceipt,
+  InventoryItem,
+  LandedCostAllocationMethod,
+  LandedCostCategory,
+  LandedCostVoucher
+} from '@/types'
+import { formatCurrency, formatDate, isAdmin, isSuperAdmin } from '@/lib/utils'
+import {
+  LANDED_COST_MAX_ITEMS,
+  LandedCostService,
+  allocateLandedCost,
+  allocationMethodDescriptions,
+  allocationMethodLabels,
+  landedCostCategoryLabels,
+  supplierPriceOf
+} from '@/lib/landedCosts'
+
+type ShipmentSource = 'goodsReceiptId' | 'entryTransactionId'
+
+interface ChargeForm {
+  category: LandedCostCategory
+  amount: string
+  notes: string
+}
+
+const emptyCharge = (category: LandedCostCategory = 'freight'): ChargeForm => ({ category, amount: '', notes: '' })
+
+export function LandedCostsPage() {
+  const navigate = useNavigate()
+  const [searchParams] = useSearchParams()
+  const [user] = useAuthState(auth)
+  const { userData } = useUserData(user?.uid)
+  const [vouchers, setVouchers] = useState<LandedCostVoucher[]>([])
+  const [receipts, setReceipts] = useState<GoodsReceipt[]>([])
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  const [source, setSource] = useState<ShipmentSource>('goodsReceiptId')
+  const [sourceValue, setSourceValue] = useState(searchParams.get('receipt') || '')
+  const [items, setItems] = useState<InventoryItem[]>([])
+  const [loadingItems, setLoadingItems] = useState(false)
+  const [description, setDescription] = useState('')
+  const [charges, setCharges] = useState<ChargeForm[]>([emptyCharge('freight'), emptyCharge('customs')])
+  const [method, setMethod] = useState<LandedCostAllocationMethod>('value')
+  const [saving, setSaving] = useState(false)
+
+  const canManage = userData && (isAdmin(userData.role) || isSuperAdmin(userData.role))
+
+  useEffect(() => {
+    if (canManage) {
+      loadVouchers()
+      LandedCostService.getReceipts().then(setReceipts)
+      if (searchParams.get('receipt')) {
+        loadItems('goodsReceiptId', searchParams.get('receipt') || '')
+      }
+    }
+  }, [canManage])
+
+  const loadVouchers = async () => {
+    setLoading(true)
+    setVouchers(await LandedCostService.getVouchers())
+    setLoading(false)
+  }
+
+  const loadItems = async (field: ShipmentSource, value: string) => {
+    if (!value.trim()) {
+      setItems([])
+      return
+    }
+
+    try {
+      setLoadingItems(true)
+      const shipmentItems = await LandedCostService.getShipmentItems(field, value)
+      setItems(shipmentItems)
+      if (shipmentItems.length === 0) {
+        toast.error('لا توجد وحدات غير مباعة في مخازن الشركة من هذه الشحنة')
+      }
+    } catch (error) {
+      console.error('Error loading shipment items:', error)
+      toast.error('فشل في تحميل وحدات الشحنة')
+    } finally {
+      setLoadingItems(false)
+    }
+  }
+
+  const updateCharge = (index: number, changes: Partial<ChargeForm>) => {
+    setCharges(charges.map((charge, chargeIndex) => chargeIndex === index ? { ...charge, ...changes } : charge))
+  }
+
+  const totalCharges = charges.reduce((sum, charge) => sum + (parseFloat(charge.amount) || 0), 0)
+  const preview = totalCharges > 0 ? allocateLandedCost(items, totalCharges, method) : items.map(() => 0)
+
+  const handleSave = async () => {
+    if (!userData) return
+
+    const receipt = source === 'goodsReceiptId' ? receipts.find(entry => entry.id === sourceValue) : undefined
+    setSaving(true)
+    const result = await LandedCostService.createVoucher({
+      description: description || (receipt ? `تكاليف شحنة ${receipt.receiptNumber}` : 'تكاليف شحنة'),
+      ...(source === 'goodsReceiptId' ? { goodsReceiptId: sourceValue } : { entryTransactionId: sourceValue.trim() }),
+      itemIds: items.map(item => item.id),
+      charges: charges.map(charge => ({
+        category: charge.category,
+        amount: parseFloat(charge.amount) || 0,
+        notes: charge.notes
+      })),
+      allocationMethod: method
+    }, userData.id)
+    setSaving(false)
+
+    if (result.success) {
+      toast.success(`تم توزيع التكاليف بالمستند ${result.number}`)
+      setItems([])
+      setSourceValue('')
+      setDescription('')
+      setCharges([emptyCharge('freight'), emptyCharge('customs')])
+      loadVouchers()
+    } else {
+      toast.error(result.error || 'فشل في توزيع التكاليف')
+    }
+  }
+
+  if (!userData) {
+    return <LoadingSpinner text="جاري تحميل بيانات المستخدم..." />
+  }
+
+  if (!canManage) {
+    return (
+      <div className="text-center py-12">
+        <AlertCircle className="mx-auto h-12 w-12 text-red-500 mb-4" />
+        <h3 className="text-lg font-medium text-gray-900 mb-2 arabic-text">غير مصرح لك بالوصول</h3>
+        <p className="text-gray-500 arabic-text">تكاليف الشحنات متاحة للمديرين فقط</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-6 py-6">
+      {/* Page Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 arabic-text">تكاليف الشحنات</h1>
+          <p className="text-gray-600 arabic-text">
+            توزيع النقل والجمارك ورسوم الترخيص على وحدات الشحنة لتصبح تكلفة الشراء هي التكلفة الفعلية
+          </p>
+        </div>
+        <Button variant="outline" onClick={() => navigate('/inventory')}>
+          <ArrowLeft className="ml-2 h-4 w-4" />
+          العودة للمخزون
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>مستند تكاليف جديد</CardTitle>
+          <CardDescription>يحتفظ كل صنف بسعر المورد الأصلي ويضاف نصيبه من التكاليف على سعر الشراء</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {/* Shipment */}
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+            <div className="space-y-2">
+              <Label required>الشحنة</Label>
+              <select
+                value={source}
+                onChange={(e) => {
+                  setSource(e.target.value as ShipmentSource)
+                  setSourceValue('')
+                  setItems([])
+                }}
+                className="form-input w-full input-rtl arabic-text"
+              >
+                <option value="goodsReceiptId">إذن استلام على أمر شراء</option>
+                <option value="entryTransactionId">حركة إدخال (إضافة أو استيراد)</option>
+              </select>
+            </div>
+            <div className="space-y-2">
+              {source === 'goodsReceiptId' ? (
+                <>
+                  <Label required>إذن الاستلام</Label>
+                  <select
+                    value={sourceValue}
+                    onChange={(e) => {
+                      setSourceValue(e.target.value)
+                      loadItems('goodsReceiptId', e.target.value)
+                    }}
+                    className="form-input w-full input-rtl arabic-text"
+                  >
+                    <option value="">اختر إذن الاستلام</option>
+                    {receipts.map(receipt => (
+                      <option key={receipt.id} value={receipt.id}>
+                        {receipt.receiptNumber} - {receipt.supplierName} ({formatDate(receipt.createdAt)})
+                      </option>
+                    ))}
+                  </select>
+                </>
+              ) : (
+                <>
+                  <Label required>رقم حركة الإدخال</Label>
+                  <Input value={sourceValue} onChange={(e) => setSourceValue(e.target.value)} placeholder="warehouse_entry_..." />
+                </>
+              )}
+            </div>
+            {source === 'entryTransactionId' && (
+              <Button variant="outline" onClick={() => loadItems('entryTransactionId', sourceValue)} loading={loadingItems}>
+                <Search className="ml-2 h-4 w-4" />
+                تحميل الوحدات
+              </Button>
+            )}
+          </div>
+
+          {/* Charges */}
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label required>التكاليف</Label>
+              <Button size="sm" variant="outline" onClick={() => setCharges([...charges, emptyCharge('other')])}>
+                <Plus className="ml-2 h-4 w-4" />
+                إضافة تكلفة
+              </Button>
+            </div>
+            {charges.map((charge, index) => (
+              <div key={index} className="grid grid-cols-1 md:grid-cols-4 gap-2 items-center">
+                <select
+                  value={charge.category}
+                  onChange={(e) => updateCharge(index, { category: e.target.value as LandedCostCategory })}
+                  className="form-input w-full input-rtl arabic-text"
+                >
+                  {(Object.keys(landedCostCategoryLabels) as LandedCostCategory[]).map(category => (
+                    <option key={category} value={category}>{landedCostCategoryLabels[category]}</option>
+                  ))}
+                </select>
+                <Input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={charge.amount}
+                  onChange={(e) => updateCharge(index, { amount: e.target.value })}
+                  placeholder="المبلغ"
+                />
+                <Input value={charge.notes} onChange={(e) => updateCharge(index, { notes: e.target.value })} placeholder="ملاحظات" />
+                <Button variant="outline" onClick={() => setCharges(charges.filter((_, chargeIndex) => chargeIndex !== index))} disabled={charges.length === 1}>
+                  <Trash2 className="h-4 w-4 text-red-600" />
+                </Button>
+              </div>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label required>طريقة التوزيع</Label>
+              <select
+                value={method}
+                onChange={(e) => setMethod(e.target.value as LandedCostAllocationMethod)}
+                className="form-input w-full input-rtl arabic-text"
+              >
+                {(Object.keys(allocationMethodLabels) as LandedCostAllocationMethod[]).map(entry => (
+                  <option key={entry} value={entry}>{allocationMethodLabels[entry]}</option>
+                ))}
+              </select>
+              <p className="text-xs text-gray-500 arabic-text">{allocationMethodDescriptions[method]}</p>
+            </div>
+            <div className="space-y-2">
+              <Label>البيان</Label>
+              <Input value={description} onChange={(e) => setDescription(e.target.value)} placeholder="تكاليف شحنة" />
+            </div>
+          </div>
+
+          {/* Preview */}
+          {loadingItems ? (
+            <LoadingSpinner text="جاري تحميل وحدات الشحنة..." />
+          ) : items.length > 0 && (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-3 py-2 text-right">الصنف</th>
+                    <th className="px-3 py-2 text-right">رقم الشاسيه</th>
+                    <th className="px-3 py-2 text-right">سعر المورد</th>
+                    <th className="px-3 py-2 text-right">التكلفة الحالية</th>
+                    <th className="px-3 py-2 text-right">النصيب</th>
+                    <th className="px-3 py-2 text-right">التكلفة الجديدة</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y">
+                  {items.map((item, index) => (
+                    <tr key={item.id}>
+                      <td className="px-3 py-2">{item.brand} {item.model}</td>
+                      <td className="px-3 py-2 font-mono">{item.chassisNumber}</td>
+                      <td className="px-3 py-2">{formatCurrency(supplierPriceOf(item))}</td>
+                      <td className="px-3 py-2">{formatCurrency(item.purchasePrice || 0)}</td>
+                      <td className="px-3 py-2 text-orange-600">{formatCurrency(preview[index])}</td>
+                      <td className="px-3 py-2 font-medium">{formatCurrency((item.purchasePrice || 0) + preview[index])}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <div className="flex items-center justify-between border-t pt-4">
+            <p className="font-bold arabic-text">
+              {formatCurrency(totalCharges)} على {items.length} وحدة
+              {items.length > LANDED_COST_MAX_ITEMS && (
+                <span className="text-red-600"> (الحد الأقصى {LANDED_COST_MAX_ITEMS})</span>
+              )}
+            </p>
+            <Button onClick={handleSave} loading={saving} disabled={items.length === 0}>
+              <Calculator className="ml-2 h-4 w-4" />
+              توزيع التكاليف
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Vouchers */}
+      <Card>
+        <CardHeader>
+          <CardTitle>مستندات التكاليف</CardTitle>
+          <CardDescription>{vouchers.length} مستند</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <LoadingSpinner text="جاري تحميل المستندات..." />
+          ) : vouchers.length === 0 ? (
+            <p className="text-center text-gray-500 py-8 arabic-text">لم يتم توزيع تكاليف على أي شحنة بعد</p>
+          ) : (
+            <div className="space-y-2">
+              {vouchers.map(voucher => (
+                <div key={voucher.id} className="bg-gray-50 rounded-lg">
+                  <button
+                    type="button"
+                    onClick={() => setExpandedId(expandedId === voucher.id ? null : voucher.id)}
+                    className="w-full flex items-center justify-between p-3 text-right"
+                  >
+                    <div>
+                      <p className="font-mono font-medium">{voucher.voucherNumber}</p>
+                      <p className="text-sm text-gray-500">{voucher.description} - {formatDate(voucher.createdAt)}</p>
+                    </div>
+                    <div className="text-left">
+                      <p className="font-medium">{formatCurrency(voucher.totalAmount)}</p>
+                      <p className="text-sm text-gray-500">
+                        {voucher.allocations.length} وحدة - {allocationMethodLabels[voucher.allocationMethod]}
+                      </p>
+                    </div>
+                  </button>
+                  {expandedId === voucher.id && (
+                    <div className="px-3 pb-3 space-y-2">
+                      <p className="text-sm text-gray-700">
+                        {voucher.charges.map(charge => `${landedCostCategoryLabels[charge.category]}: ${formatCurrency(charge.amount)}`).join(' - ')}
+                      </p>
+                      <table className="w-full text-sm bg-white">
+                        <thead className="bg-gray-50">
+                          <tr>
+                            <th className="px-3 py-2 text-right">رقم الشاسيه</th>
+                            <th className="px-3 py-2 text-right">سعر المورد</th>
+                            <th className="px-3 py-2 text-right">التكلفة السابقة</th>
+                            <th className="px-3 py-2 text-right">النصيب</th>
+                            <th className="px-3 py-2 text-right">التكلفة الجديدة</th>
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y">
+                          {voucher.allocations.map(allocation => (
+                            <tr key={allocation.inventoryItemId}>
+                              <td className="px-3 py-2 font-mono">{allocation.chassisNumber}</td>
+                              <td className="px-3 py-2">{formatCurrency(allocation.supplierPrice)}</td>
+                              <td className="px-3 py-2">{formatCurrency(allocation.previousCost)}</td>
+                              <td className="px-3 py-2">{formatCurrency(allocation.allocatedAmount)}</td>
+                              <td className="px-3 py-2 font-medium">{formatCurrency(allocation.newCost)}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,382 @@
+import { useState, useEffect } from 'react'
+import { Link, useNavigate, useParams } from 'react-router-dom'
+import { toast } from 'sonner'
+import { AlertCircle, ArrowLeft, PackageCheck, Plus, Trash2, XCircle } from 'lucide-react'
+import { useAuthState } from 'react-firebase-hooks/auth'
+import { collection, getDocs } from 'firebase/firestore'
+
+import { auth, db } from '@/firebase/firebase-config.template'
+import { Button } from '@/components/ui/Button'
+import { Input } from '@/components/ui/Input'
+import { Label } from '@/components/ui/Label'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/Card'
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner'
+import { useUserData } from '@/hooks/useUserData'
+import { GoodsReceipt, PurchaseOrder, Warehouse } from '@/types'
+import { cn, formatCurrency, formatDate, isAdmin, isSuperAdmin, vehicleTypeTranslations } from '@/lib/utils'
+import {
+  GOODS_RECEIPT_MAX_UNITS,
+  PurchaseOrderService,
+  purchaseOrderStatusColors,
+  purchaseOrderStatusLabels,
+  remainingQuantity
+} from '@/lib/purchasing'
+
+interface UnitForm {
+  lineId: string
+  chassisNumber: string
+  motorFingerprint: string
+  color: string
+  manufacturingYear: string
+}
+
+export function PurchaseOrderDetailsPage() {
+  const { id } = useParams<{ id: string }>()
+  const navigate = useNavigate()
+  const [user] = useAuthState(auth)
+  const { userData } = useUserData(user?.uid)
+  const [order, setOrder] = useState<PurchaseOrder | null>(null)
+  const [receipts, setReceipts] = useState<GoodsReceipt[]>([])
+  const [warehouses, setWarehouses] = useState<Warehouse[]>([])
+  const [loading, setLoading] = useState(true)
+
+  const [receiving, setReceiving] = useState(false)
+  const [warehouseId, setWarehouseId] = useState('')
+  const [units, setUnits] = useState<UnitForm[]>([])
+  const [notes, setNotes] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [cancelling, setCancelling] = useState(false)
+
+  const canManage = userData && (isAdmin(userData.role) || isSuperAdmin(userData.role))
+
+  useEffect(() => {
+    if (id && canManage) {
+      loadOrder()
+      getDocs(collection(db, 'warehouses')).then(snapshot => setWarehouses(snapshot.docs
+        .map(warehouseDoc => ({ id: warehouseDoc.id, ...warehouseDoc.data() }) as Warehouse)
+        .filter(warehouse => warehouse.type !== 'agent')))
+    }
+  }, [id, canManage])
+
+  const loadOrder = async () => {
+    if (!id) return
+
+    try {
+      setLoading(true)
+      const [orderData, orderReceipts] = await Promise.all([
+        PurchaseOrderService.getOrder(id),
+        PurchaseOrderService.getReceipts(id)
+      ])
+      setOrder(orderData)
+      setReceipts(orderReceipts)
+    } catch (error) {
+      console.error('Error loading purchase order:', error)
+      toast.error('فشل في تحميل أمر الشراء')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const openLines = order ? order.lines.filter(line => remainingQuantity(line) > 0) : []
+
+  const emptyUnit = (): UnitForm => ({
+    lineId: openLines[0]?.lineId || '',
+    chassisNumber: '',
+    motorFingerprint: '',
+    color: '',
+    manufacturingYear: String(new Date().getFullYear())
+  })
+
+  const startReceiving = () => {
+    if (!order) return
+    setWarehouseId(order.warehouseId)
+    setUnits([emptyUnit()])
+    setNotes('')
+    setReceiving(true)
+  }
+
+  const updateUnit = (index: number, changes: Partial<UnitForm>) => {
+    setUnits(units.map((unit, unitIndex) => unitIndex === index ? { ...unit, ...changes } : unit))
+  }
+
+  const handleReceive = async () => {
+    if (!order || !userData) return
+
+    setSaving(true)
+    const result = await PurchaseOrderService.receiveGoods({
+      orderId: order.id,
+      warehouseId,
+      notes,
+      units: units.map(unit => ({
+        lineId: unit.lineId,
+        chassisNumber: unit.chassisNumber,
+        motorFingerprint: unit.motorFingerprint,
+        color: unit.color,
+        manufacturingYear: parseInt(unit.manufacturingYear)
+      }))
+    }, userData.id)
+    setSaving(false)
+
+    if (result.success) {
+      toast.success(`تم تسجيل إذن الاستلام ${result.number}`)
+      setReceiving(false)
+      loadOrder()
+    } else {
+      toast.error(result.error || 'فشل في تسجيل الاستلام')
+    }
+  }
+
+  const handleCancel = async () => {
+    if (!order || !userData) return
+    const message = order.status === 'partially_received'
+      ? 'سيتم إغلاق الأمر على الكميات المستلمة فقط. هل تريد المتابعة؟'
+      : 'هل تريد إلغاء أمر الشراء؟'
+    if (!confirm(message)) return
+
+    setCancelling(true)
+    const result = await PurchaseOrderService.cancelOrder(order.id, userData.id)
+    setCancelling(false)
+
+    if (result.success) {
+      toast.success('تم إغلاق أمر الشراء')
+      loadOrder()
+    } else {
+      toast.error(result.error || 'فشل في إلغاء أمر الشراء')
+    }
+  }
+
+  if (!userData || (canManage && loading)) {
+    return <LoadingSpinner text="جاري تحميل أمر الشراء..." />
+  }
+
+  if (!canManage) {
+    return (
+      <div className="text-center py-12">
+        <AlertCircle className="mx-auto h-12 w-12 text-red-500 mb-4" />
+        <h3 className="text-lg font-medium text-gray-900 mb-2 arabic-text">غير مصرح لك بالوصول</h3>
+        <p className="text-gray-500 arabic-text">أوامر الشراء متاحة للمديرين فقط</p>
+      </div>
+    )
+  }
+
+  if (!order) {
+    return (
+      <div className="text-center py-12">
+        <AlertCircle className="mx-auto h-12 w-12 text-gray-400 mb-4" />
+        <p className="text-gray-500 arabic-text mb-4">أمر الشراء غير موجود</p>
+        <Button onClick={() => navigate('/inventory/purchase-orders')}>العودة لأوامر الشراء</Button>
+      </div>
+    )
+  }
+
+  const isOpen = order.status === 'open' || order.status === 'partially_received'
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-6 py-6">
+      {/* Page Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <div className="flex items-center gap-3">
+            <h1 className="text-2xl font-bold text-gray-900 font-mono">{order.orderNumber}</h1>
+            <span className={cn('inline-flex px-2 py-1 text-xs font-semibold rounded-full', purchaseOrderStatusColors[order.status])}>
+              {purchaseOrderStatusLabels[order.status]}
+            </span>
+          </div>
+          <p className="text-gray-600 arabic-text">
+            <Link to={`/inventory/suppliers/${order.supplierId}`} className="text-blue-600 hover:underline">
+              {order.supplierName}
+            </Link>
+            {' - '}{formatDate(order.createdAt)}
+            {order.expectedDate && ` - الوصول المتوقع ${formatDate(order.expectedDate)}`}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          {isOpen && !receiving && (
+            <Button onClick={startReceiving}>
+              <PackageCheck className="ml-2 h-4 w-4" />
+              استلام بضاعة
+            </Button>
+          )}
+          {isOpen && (
+            <Button variant="outline" onClick={handleCancel} loading={cancelling}>
+              <XCircle className="ml-2 h-4 w-4" />
+              {order.status === 'partially_received' ? 'إغلاق الأمر' : 'إلغاء الأمر'}
+            </Button>
+          )}
+          <Button variant="outline" onClick={() => navigate('/inventory/purchase-orders')}>
+            <ArrowLeft className="ml-2 h-4 w-4" />
+            أوامر الشراء
+          </Button>
+        </div>
+      </div>
+
+      {/* Lines */}
+      <Card>
+        <CardHeader>
+          <CardTitle>الأصناف</CardTitle>
+          <CardDescription>
+            المستلم {formatCurrency(order.receivedAmount || 0)} من {formatCurrency(order.totalAmount)}
+            {order.notes && ` - ${order.notes}`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-3 py-2 text-right">الصنف</th>
+                  <th className="px-3 py-2 text-right">النوع</th>
+                  <th className="px-3 py-2 text-right">تكلفة الوحدة</th>
+                  <th className="px-3 py-2 text-right">سعر البيع</th>
+                  <th className="px-3 py-2 text-right">المطلوب</th>
+                  <th className="px-3 py-2 text-right">المستلم</th>
+                  <th className="px-3 py-2 text-right">المتبقي</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y">
+                {order.lines.map(line => (
+                  <tr key={line.lineId}>
+                    <td className="px-3 py-2 font-medium">{line.brand} {line.model}</td>
+                    <td className="px-3 py-2">{vehicleTypeTranslations[line.type]}</td>
+                    <td className="px-3 py-2">{formatCurrency(line.unitCost)}</td>
+                    <td className="px-3 py-2">{formatCurrency(line.salePrice)}</td>
+                    <td className="px-3 py-2">{line.quantity}</td>
+                    <td className="px-3 py-2">{line.receivedQuantity}</td>
+                    <td className={`px-3 py-2 font-medium ${remainingQuantity(line) > 0 ? 'text-orange-600' : 'text-green-600'}`}>
+                      {remainingQuantity(line)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+
+      {receiving && (
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div>
+                <CardTitle>إذن استلام جديد</CardTitle>
+                <CardDescription>
+                  كل وحدة تضاف للمخزون بتكلفة سطرها وتقيد في حساب المورد (حتى {GOODS_RECEIPT_MAX_UNITS} وحدة في الإذن)
+                </CardDescription>
+              </div>
+              <Button variant="outline" onClick={() => setUnits([...units, emptyUnit()])}>
+                <Plus className="ml-2 h-4 w-4" />
+                إضافة وحدة
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label required>مخزن الاستلام</Label>
+                <select
+                  value={warehouseId}
+                  onChange={(e) => setWarehouseId(e.target.value)}
+                  className="form-input w-full input-rtl arabic-text"
+                >
+                  <option value="">اختر المخزن</option>
+                  {warehouses.map(warehouse => (
+                    <option key={warehouse.id} value={warehouse.id}>{warehouse.name}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="space-y-2">
+                <Label>ملاحظات</Label>
+                <Input value={notes} onChange={(e) => setNotes(e.target.value)} />
+              </div>
+            </div>
+
+            {units.map((unit, index) => (
+              <div key={index} className="grid grid-cols-2 md:grid-cols-6 gap-2 items-end p-3 bg-gray-50 rounded-lg">
+                <div className="space-y-1">
+                  <Label>السطر</Label>
+                  <select
+                    value={unit.lineId}
+                    onChange={(e) => updateUnit(index, { lineId: e.target.value })}
+                    className="form-input w-full input-rtl arabic-text"
+                  >
+                    {openLines.map(line => (
+                      <option key={line.lineId} value={line.lineId}>
+                        {line.brand} {line.model} ({remainingQuantity(line)})
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div className="space-y-1">
+                  <Label>رقم الشاسيه</Label>
+                  <Input value={unit.chassisNumber} onChange={(e) => updateUnit(index, { chassisNumber: e.target.value })} />
+                </div>
+                <div className="space-y-1">
+                  <Label>بصمة الموتور</Label>
+                  <Input value={unit.motorFingerprint} onChange={(e) => updateUnit(index, { motorFingerprint: e.target.value })} />
+                </div>
+                <div className="space-y-1">
+                  <Label>اللون</Label>
+                  <Input value={unit.color} onChange={(e) => updateUnit(index, { color: e.target.value })} />
+                </div>
+                <div className="space-y-1">
+                  <Label>سنة الصنع</Label>
+                  <Input type="number" value={unit.manufacturingYear} onChange={(e) => updateUnit(index, { manufacturingYear: e.target.value })} />
+                </div>
+                <Button
+                  variant="outline"
+                  onClick={() => setUnits(units.filter((_, unitIndex) => unitIndex !== index))}
+                  disabled={units.length === 1}
+                >
+                  <Trash2 className="h-4 w-4 text-red-600" />
+                </Button>
+              </div>
+            ))}
+
+            <div className="flex gap-2">
+              <Button onClick={handleReceive} loading={saving}>
+                <PackageCheck className="ml-2 h-4 w-4" />
+                تسجيل الاستلام ({units.length})
+              </Button>
+              <Button variant="outline" onClick={() => setReceiving(false)}>إلغاء</Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Receipts */}
+      <Card>
+        <CardHeader>
+          <CardTitle>أذونات الاستلام</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {receipts.length === 0 ? (
+            <p className="text-center text-gray-500 py-8 arabic-text">لم يتم استلام أي بضاعة على هذا الأمر</p>
+          ) : (
+            <div className="space-y-3">
+              {receipts.map(receipt => (
+                <div key={receipt.id} className="p-3 bg-gray-50 rounded-lg">
+                  <div className="flex items-center justify-between mb-2">
+                    <p className="font-mono font-medium">{receipt.receiptNumber}</p>
+                    <div className="flex items-center gap-3">
+                      <p className="text-sm text-gray-500">{formatDate(receipt.createdAt)} - {formatCurrency(receipt.totalAmount)}</p>
+                      <Link to={`/inventory/landed-costs?receipt=${receipt.id}`} className="text-sm text-blue-600 hover:underline">
+                        تحميل تكاليف الشحنة
+                      </Link>
+                    </div>
+                  </div>
+                  <ul className="text-sm text-gray-700 space-y-1">
+                    {receipt.lines.map(line => (
+                      <li key={line.lineId}>
+                        {line.brand} {line.model}: {line.quantity} × {formatCurrency(line.unitCost)}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
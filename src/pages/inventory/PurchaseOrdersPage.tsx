@@ -0,0 +1,149 @@
+import { useState, useEffect } from 'react'
+import { Link, useNavigate } from 'react-router-dom'
+import { AlertCircle, ArrowLeft, ClipboardList, Plus, Truck } from 'lucide-react'
+import { useAuthState } from 'react-firebase-hooks/auth'
+
+import { auth } from '@/firebase/firebase-config.template'
+import { Button } from '@/components/ui/Button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/Card'
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner'
+import { useUserData } from '@/hooks/useUserData'
+import { PurchaseOrder, PurchaseOrderStatus } from '@/types'
+import { cn, formatCurrency, formatDate, isAdmin, isSuperAdmin } from '@/lib/utils'
+import { PurchaseOrderService, purchaseOrderStatusColors, purchaseOrderStatusLabels } from '@/lib/purchasing'
+
+export function PurchaseOrdersPage() {
+  const navigate = useNavigate()
+  const [user] = useAuthState(auth)
+  const { userData } = useUserData(user?.uid)
+  const [orders, setOrders] = useState<PurchaseOrder[]>([])
+  const [statusFilter, setStatusFilter] = useState<PurchaseOrderStatus | ''>('')
+  const [loading, setLoading] = useState(true)
+
+  const canManage = userData && (isAdmin(userData.role) || isSuperAdmin(userData.role))
+
+  useEffect(() => {
+    if (canManage) {
+      PurchaseOrderService.getOrders().then(result => {
+        setOrders(result)
+        setLoading(false)
+      })
+    }
+  }, [canManage])
+
+  const visibleOrders = orders.filter(order => !statusFilter || order.status === statusFilter)
+
+  if (!userData) {
+    return <LoadingSpinner text="جاري تحميل بيانات المستخدم..." />
+  }
+
+  if (!canManage) {
+    return (
+      <div className="text-center py-12">
+        <AlertCircle className="mx-auto h-12 w-12 text-red-500 mb-4" />
+        <h3 className="text-lg font-medium text-gray-900 mb-2 arabic-text">غير مصرح لك بالوصول</h3>
+        <p className="text-gray-500 arabic-text">أوامر الشراء متاحة للمديرين فقط</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-6 py-6">
+      {/* Page Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 arabic-text">أوامر الشراء</h1>
+          <p className="text-gray-600 arabic-text">الكميات المطلوبة من الموردين واستلامها على دفعات</p>
+        </div>
+        <div className="flex gap-2">
+          <Link to="/inventory/suppliers">
+            <Button variant="outline">
+              <Truck className="ml-2 h-4 w-4" />
+              الموردون
+            </Button>
+          </Link>
+          <Link to="/inventory/purchase-orders/new">
+            <Button>
+              <Plus className="ml-2 h-4 w-4" />
+              أمر شراء جديد
+            </Button>
+          </Link>
+          <Button variant="outline" onClick={() => navigate('/inventory')}>
+            <ArrowLeft className="ml-2 h-4 w-4" />
+            العودة للمخزون
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>الأوامر</CardTitle>
+              <CardDescription>{visibleOrders.length} أمر</CardDescription>
+            </div>
+            <select
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value as PurchaseOrderStatus | '')}
+              className="form-input input-rtl arabic-text"
+            >
+              <option value="">كل الحالات</option>
+              {(Object.keys(purchaseOrderStatusLabels) as PurchaseOrderStatus[]).map(status => (
+                <option key={status} value={status}>{purchaseOrderStatusLabels[status]}</option>
+              ))}
+            </select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <LoadingSpinner text="جاري تحميل أوامر الشراء..." />
+          ) : visibleOrders.length === 0 ? (
+            <div className="text-center py-8">
+              <ClipboardList className="mx-auto h-12 w-12 text-gray-400 mb-4" />
+              <p className="text-gray-500 arabic-text">لا توجد أوامر شراء</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-3 py-2 text-right">رقم الأمر</th>
+                    <th className="px-3 py-2 text-right">المورد</th>
+                    <th className="px-3 py-2 text-right">التاريخ</th>
+                    <th className="px-3 py-2 text-right">المستلم</th>
+                    <th className="px-3 py-2 text-right">القيمة</th>
+                    <th className="px-3 py-2 text-right">الحالة</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y">
+                  {visibleOrders.map(order => {
+                    const ordered = order.lines.reduce((sum, line) => sum + line.quantity, 0)
+                    const received = order.lines.reduce((sum, line) => sum + line.receivedQuantity, 0)
+                    return (
+                      <tr key={order.id} className="hover:bg-gray-50">
+                        <td className="px-3 py-2 font-mono">
+                          <Link to={`/inventory/purchase-orders/${order.id}`} className="text-blue-600 hover:underline">
+                            {order.orderNumber}
+                          </Link>
+                        </td>
+                        <td className="px-3 py-2">{order.supplierName}</td>
+                        <td className="px-3 py-2">{formatDate(order.createdAt)}</td>
+                        <td className="px-3 py-2">{received} / {ordered}</td>
+                        <td className="px-3 py-2">{formatCurrency(order.totalAmount)}</td>
+                        <td className="px-3 py-2">
+                          <span className={cn('inline-flex px-2 py-1 text-xs font-semibold rounded-full', purchaseOrderStatusColors[order.status])}>
+                            {purchaseOrderStatusLabels[order.status]}
+                          </span>
+                        </td>
+                      </tr>
+                    )
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,365 @@
+import { useState, useEffect } from 'react'
+import { Link, useNavigate } from 'react-router-dom'
+import { toast } from 'sonner'
+import {
+  AlertCircle,
+  ArrowLeft,
+  Edit,
+  Plus,
+  ShoppingCart,
+  Trash2
+} from 'lucide-react'
+import { useAuthState } from 'react-firebase-hooks/auth'
+import { collection, getDocs } from 'firebase/firestore'
+
+import { auth, db } from '@/firebase/firebase-config.template'
+import { Button } from '@/components/ui/Button'
+import { Input } from '@/components/ui/Input'
+import { Label } from '@/components/ui/Label'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/Card'
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner'
+import { useUserData } from '@/hooks/useUserData'
+import { useVehicleCatalog } from '@/hooks/useVehicleCatalog'
+import { InventoryItem, ReorderLevel, ReorderLevelScope, VehicleType, Warehouse } from '@/types'
+import { isAdmin, isSuperAdmin, vehicleTypeTranslations } from '@/lib/utils'
+import { activeBrands, activeModels } from '@/lib/vehicleCatalog'
+import {
+  levelStock,
+  reorderLevelLabel,
+  ReorderLevelService,
+  reorderQuantity,
+  reorderScopeLabels
+} from '@/lib/reorderLevels'
+
+interface LevelForm {
+  warehouseId: string
+  scope: ReorderLevelScope
+  vehicleType: VehicleType
+  brandId: string
+  modelId: string
+  minStock: string
+  maxStock: string
+}
+
+const emptyForm = (): LevelForm => ({
+  warehouseId: '',
+  scope: 'type',
+  vehicleType: 'motorcycle',
+  brandId: '',
+  modelId: '',
+  minStock: '',
+  maxStock: ''
+})
+
+export function ReorderLevelsPage() {
+  const navigate = useNavigate()
+  const [user] = useAuthState(auth)
+  const { userData } = useUserData(user?.uid)
+  const { catalog, loading: catalogLoading, hasCatalog } = useVehicleCatalog()
+  const [levels, setLevels] = useState<ReorderLevel[]>([])
+  const [items, setItems] = useState<InventoryItem[]>([])
+  const [warehouses, setWarehouses] = useState<Warehouse[]>([])
+  const [warehouseFilter, setWarehouseFilter] = useState('')
+  const [form, setForm] = useState<LevelForm | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+
+  const canManage = userData && (isAdmin(userData.role) || isSuperAdmin(userData.role))
+
+  useEffect(() => {
+    if (canManage) {
+      loadData()
+    }
+  }, [canManage])
+
+  const loadData = async () => {
+    try {
+      setLoading(true)
+      const [levelsData, itemsData, warehousesSnapshot] = await Promise.all([
+        ReorderLevelService.getLevels(),
+        ReorderLevelService.getSellableItems(),
+        getDocs(collection(db, 'warehouses'))
+      ])
+      setLevels(levelsData)
+      setItems(itemsData)
+      setWarehouses(warehousesSnapshot.docs.map(warehouseDoc => ({ id: warehouseDoc.id, ...warehouseDoc.data() }) as Warehouse))
+    } catch (error) {
+      console.error('Error loading reorder levels:', error)
+      toast.error('فشل في تحميل حدود إعادة الطلب')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const editLevel = (level: ReorderLevel) => setForm({
+    warehouseId: level.warehouseId,
+    scope: level.scope,
+    vehicleType: level.vehicleType,
+    brandId: catalog.models.find(model => model.id === level.modelId)?.brandId || '',
+    modelId: level.modelId || '',
+    minStock: String(level.minStock),
+    maxStock: String(level.maxStock)
+  })
+
+  const handleSave = async () => {
+    if (!form || !userData) return
+
+    setSaving(true)
+    const result = await ReorderLevelService.saveLevel({
+      warehouseId: form.warehouseId,
+      scope: form.scope,
+      vehicleType: form.vehicleType,
+      modelId: form.modelId || undefined,
+      minStock: Number(form.minStock),
+      maxStock: Number(form.maxStock)
+    }, catalog, userData.id)
+    setSaving(false)
+
+    if (result.success) {
+      toast.success('تم حفظ حد إعادة الطلب')
+      setForm(null)
+      loadData()
+    } else {
+      toast.error(result.error || 'فشل في حفظ حد إعادة الطلب')
+    }
+  }
+
+  const handleDelete = async (level: ReorderLevel) => {
+    if (!window.confirm(`حذف حد إعادة الطلب لـ ${reorderLevelLabel(level)}؟`)) return
+
+    const result = await ReorderLevelService.deleteLevel(level.id)
+    if (result.success) {
+      toast.success('تم حذف حد إعادة الطلب')
+      setLevels(levels.filter(entry => entry.id !== level.id))
+    } else {
+      toast.error(result.error || 'فشل في حذف حد إعادة الطلب')
+    }
+  }
+
+  const warehouseName = (warehouseId: string) => warehouses.find(warehouse => warehouse.id === warehouseId)?.name || 'غير محدد'
+
+  const visibleLevels = levels
+    .filter(level => !warehouseFilter || level.warehouseId === warehouseFilter)
+    .sort((a, b) => warehouseName(a.warehouseId).localeCompare(warehouseName(b.warehouseId), 'ar'))
+  const belowMinimum = levels.filter(level => levelStock(level, items) < level.minStock).length
+
+  if (!userData) {
+    return <LoadingSpinner text="جاري تحميل بيانات المستخدم..." />
+  }
+
+  if (!canManage) {
+    return (
+      <div className="text-center py-12">
+        <AlertCircle className="mx-auto h-12 w-12 text-red-500 mb-4" />
+        <h3 className="text-lg font-medium text-gray-900 mb-2 arabic-text">غير مصرح لك بالوصول</h3>
+        <p className="text-gray-500 arabic-text">إدارة حدود إعادة الطلب متاحة للمديرين فقط</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-6 py-6">
+      {/* Page Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 arabic-text">حدود إعادة الطلب</h1>
+          <p className="text-gray-600 arabic-text">حد أدنى وأقصى لكل مخزن حسب نوع المركبة أو الموديل، مع تنبيه عند النزول تحت الحد الأدنى</p>
+        </div>
+        <div className="flex gap-2">
+          <Link to="/reports/reorder">
+            <Button variant="outline">
+              <ShoppingCart className="ml-2 h-4 w-4" />
+              اقتراح الشراء
+            </Button>
+          </Link>
+          <Button onClick={() => setForm(emptyForm())}>
+            <Plus className="ml-2 h-4 w-4" />
+            إضافة حد
+          </Button>
+          <Button variant="outline" onClick={() => navigate('/inventory')}>
+            <ArrowLeft className="ml-2 h-4 w-4" />
+            العودة للمخزون
+          </Button>
+        </div>
+      </div>
+
+      {form && (
+        <Card>
+          <CardHeader>
+            <CardTitle>حد إعادة الطلب</CardTitle>
+            <CardDescription>حفظ حد لنفس المخزن والصنف يعدل الحد الموجود، والكمية المقترحة للشراء تكمل الرصيد حتى الحد الأقصى</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label required>المخزن</Label>
+                <select
+                  value={form.warehouseId}
+                  onChange={(e) => setForm({ ...form, warehouseId: e.target.value })}
+                  className="form-input w-full input-rtl arabic-text"
+                >
+                  <option value="">اختر المخزن</option>
+                  {warehouses.map(warehouse => (
+                    <option key={warehouse.id} value={warehouse.id}>{warehouse.name}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="space-y-2">
+                <Label required>الحد حسب</Label>
+                <select
+                  value={form.scope}
+                  onChange={(e) => setForm({ ...form, scope: e.target.value as ReorderLevelScope, brandId: '', modelId: '' })}
+                  className="form-input w-full input-rtl arabic-text"
+                >
+                  <option value="type">{reorderScopeLabels.type}</option>
+                  {hasCatalog && <option value="model">{reorderScopeLabels.model}</option>}
+                </select>
+              </div>
+              {form.scope === 'type' ? (
+                <div className="space-y-2">
+                  <Label required>نوع المركبة</Label>
+                  <select
+                    value={form.vehicleType}
+                    onChange={(e) => setForm({ ...form, vehicleType: e.target.value as VehicleType })}
+                    className="form-input w-full input-rtl arabic-text"
+                  >
+                    {(Object.keys(vehicleTypeTranslations) as VehicleType[]).map(type => (
+                      <option key={type} value={type}>{vehicleTypeTranslations[type]}</option>
+                    ))}
+                  </select>
+                </div>
+              ) : (
+                <div className="grid grid-cols-2 gap-2">
+                  <div className="space-y-2">
+                    <Label required>الماركة</Label>
+                    <select
+                      value={form.brandId}
+                      onChange={(e) => setForm({ ...form, brandId: e.target.value, modelId: '' })}
+                      className="form-input w-full input-rtl arabic-text"
+                    >
+                      <option value="">اختر الماركة</option>
+                      {activeBrands(catalog).map(brand => (
+                        <option key={brand.id} value={brand.id}>{brand.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label required>الموديل</Label>
+                    <select
+                      value={form.modelId}
+                      onChange={(e) => setForm({ ...form, modelId: e.target.value })}
+                      className="form-input w-full input-rtl arabic-text"
+                      disabled={!form.brandId}
+                    >
+                      <option value="">اختر الموديل</option>
+                      {activeModels(catalog, form.brandId).map(model => (
+                        <option key={model.id} value={model.id}>{model.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+              )}
+              <div className="space-y-2">
+                <Label required>الحد الأدنى</Label>
+                <Input
+                  type="number"
+                  min="0"
+                  value={form.minStock}
+                  onChange={(e) => setForm({ ...form, minStock: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label required>الحد الأقصى</Label>
+                <Input
+                  type="number"
+                  min="1"
+                  value={form.maxStock}
+                  onChange={(e) => setForm({ ...form, maxStock: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="flex gap-2">
+              <Button onClick={handleSave} loading={saving}>حفظ</Button>
+              <Button variant="outline" onClick={() => setForm(null)}>إلغاء</Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>الحدود الحالية</CardTitle>
+              <CardDescription>
+                {levels.length} حد - {belowMinimum} تحت الحد الأدنى
+              </CardDescription>
+            </div>
+            <select
+              value={warehouseFilter}
+              onChange={(e) => setWarehouseFilter(e.target.value)}
+              className="form-input input-rtl arabic-text"
+            >
+              <option value="">كل المخازن</option>
+              {warehouses.map(warehouse => (
+                <option key={warehouse.id} value={warehouse.id}>{warehouse.name}</option>
+              ))}
+            </select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {loading || catalogLoading ? (
+            <LoadingSpinner text="جاري تحميل الحدود..." />
+          ) : visibleLevels.length === 0 ? (
+            <p className="text-center text-gray-500 py-8 arabic-text">لا توجد حدود إعادة طلب، أضف حداً لكل مخزن ونوع مركبة</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-3 py-2 text-right">المخزن</th>
+                    <th className="px-3 py-2 text-right">الصنف</th>
+                    <th className="px-3 py-2 text-right">الحد الأدنى</th>
+                    <th className="px-3 py-2 text-right">الحد الأقصى</th>
+                    <th className="px-3 py-2 text-right">الرصيد الحالي</th>
+                    <th className="px-3 py-2 text-right">المطلوب</th>
+                    <th className="px-3 py-2 text-right">إجراءات</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y">
+                  {visibleLevels.map(level => {
+                    const stock = levelStock(level, items)
+                    const needed = reorderQuantity(level, stock)
+                    return (
+                      <tr key={level.id} className={needed > 0 ? 'bg-red-50' : ''}>
+                        <td className="px-3 py-2">{warehouseName(level.warehouseId)}</td>
+                        <td className="px-3 py-2">
+                          {reorderLevelLabel(level)}
+                          <p className="text-xs text-gray-500">{reorderScopeLabels[level.scope]}</p>
+                        </td>
+                        <td className="px-3 py-2">{level.minStock}</td>
+                        <td className="px-3 py-2">{level.maxStock}</td>
+                        <td className={`px-3 py-2 font-medium ${needed > 0 ? 'text-red-600' : 'text-green-600'}`}>{stock}</td>
+                        <td className="px-3 py-2">{needed > 0 ? needed : '-'}</td>
+                        <td className="px-3 py-2">
+                          <div className="flex gap-1">
+                            <Button size="sm" variant="outline" onClick={() => editLevel(level)}>
+                              <Edit className="h-4 w-4" />
+                            </Button>
+                            <Button size="sm" variant="outline" onClick={() => handleDelete(level)}>
+                              <Trash2 className="h-4 w-4 text-red-600" />
+                            </Button>
+                          </div>
+                        </td>
+                      </tr>
+                    )
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
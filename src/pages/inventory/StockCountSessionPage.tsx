@@ -0,0 +1,480 @@
+import { useState, useEffect, useMemo } from 'react'
+import { useNavigate, useParams } from 'react-router-dom'
+import { toast } from 'sonner'
+import {
+  AlertCircle,
+  ArrowLeft,
+  Camera,
+  CheckCircle,
+  HelpCircle,
+  ScanLine,
+  Send,
+  Trash2,
+  XCircle
+} from 'lucide-react'
+import { doc, onSnapshot } from 'firebase/firestore'
+import { useAuthState } from 'react-firebase-hooks/auth'
+
+import { db, auth } from '@/firebase/firebase-config.template'
+import { Button } from '@/components/ui/Button'
+import { Input } from '@/components/ui/Input'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/Card'
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner'
+import { ImprovedCameraOCR } from '@/components/ui/ImprovedCameraOCR'
+import { useUserData } from '@/hooks/useUserData'
+import { StockCount, StockCountAction, StockCountAdjustment, StockCountReason } from '@/types'
+import { formatCurrency, formatDateTime, isAdmin, isSuperAdmin } from '@/lib/utils'
+import {
+  classifyStockCount,
+  StockCountService,
+  stockCountReasonLabels,
+  stockCountStatusLabels
+} from '@/lib/stockCounts'
+
+interface AdjustmentDraft {
+  action: StockCountAction
+  reason?: StockCountReason
+  notes?: string
+}
+
+const missingReasons: StockCountReason[] = ['lost', 'damaged', 'sold_unrecorded', 'other']
+const unexpectedReasons: StockCountReason[] = ['misplaced', 'other']
+
+export function StockCountSessionPage() {
+  const { id } = useParams<{ id: string }>()
+  const navigate = useNavigate()
+  const [user] = useAuthState(auth)
+  const { userData } = useUserData(user?.uid)
+  const [count, setCount] = useState<StockCount | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [scanValue, setScanValue] = useState('')
+  const [scanning, setScanning] = useState(false)
+  const [showCamera, setShowCamera] = useState(false)
+  const [drafts, setDrafts] = useState<Record<string, AdjustmentDraft>>({})
+  const [posting, setPosting] = useState(false)
+
+  // أكثر من موظف يمكنه الجرد في نفس الوقت، فالقائمة تتحدث مباشرة
+  useEffect(() => {
+    if (!id) return
+    const unsubscribe = onSnapshot(doc(db, 'stock_counts', id), (snapshot) => {
+      setCount(snapshot.exists() ? { id: snapshot.id, ...snapshot.data() } as StockCount : null)
+      setLoading(false)
+    }, (error) => {
+      console.error('Error loading stock count:', error)
+      toast.error('خطأ في تحميل الجرد')
+      setLoading(false)
+    })
+    return unsubscribe
+  }, [id])
+
+  const variance = useMemo(() => count ? classifyStockCount(count) : null, [count])
+
+  const handleScan = async (value: string) => {
+    if (!count || !userData) return
+
+    setScanning(true)
+    const result = await StockCountService.recordScan(count, value, userData.id)
+    setScanning(false)
+
+    if (result.success && result.scan) {
+      setScanValue('')
+      if (count.expectedItems.some(item => item.inventoryItemId === result.scan!.inventoryItemId)) {
+        toast.success(`${result.scan.brand} ${result.scan.model} موجود`)
+      } else {
+        toast.warning(result.scan.inventoryItemId
+          ? `${result.scan.value} مسجل على مخزن آخر`
+          : `${result.scan.value} غير مسجل في المخزون`)
+      }
+    } else {
+      toast.error(result.error || 'فشل في تسجيل الرقم')
+    }
+  }
+
+  const updateDraft = (key: string, changes: Partial<AdjustmentDraft>) => {
+    setDrafts(current => ({ ...current, [key]: { ...(current[key] || { action: 'none' }), ...changes } }))
+  }
+
+  const handlePost = async () => {
+    if (!count || !variance || !userData) return
+
+    const adjustments: StockCountAdjustment[] = [
+      ...variance.missing.map(item => ({
+        inventoryItemId: item.inventoryItemId,
+        value: item.chassisNumber,
+        variance: 'missing' as const,
+        ...(drafts[item.inventoryItemId] || { action: 'none' as const })
+      })),
+      ...variance.unexpected.map(scan => ({
+        inventoryItemId: scan.inventoryItemId,
+        value: scan.value,
+        variance: 'unexpected' as const,
+        ...(drafts[scan.value] || { action: 'none' as const })
+      }))
+    ]
+
+    const unresolved = adjustments.filter(adjustment => adjustment.action === 'none').length
+    if (unresolved > 0 && !window.confirm(`يوجد ${unresolved} فرق بدون تسوية وسيبقى كما هو. هل تريد ترحيل الجرد؟`)) {
+      return
+    }
+
+    setPosting(true)
+    const result = await StockCountService.postCount(count.id, adjustments, userData.id)
+    setPosting(false)
+
+    if (result.success) {
+      toast.success('تم ترحيل الجرد والتسويات')
+    } else {
+      toast.error(result.error || 'فشل في ترحيل الجرد')
+    }
+  }
+
+  const handleCancel = async () => {
+    if (!count || !userData || !window.confirm('هل تريد إلغاء هذا الجرد؟')) return
+
+    const result = await StockCountService.cancelCount(count.id, userData.id)
+    if (result.success) {
+      toast.success('تم إلغاء الجرد')
+      navigate('/inventory/counts')
+    } else {
+      toast.error(result.error || 'فشل في إلغاء الجرد')
+    }
+  }
+
+  const renderReasonSelect = (key: string, reasons: StockCountReason[], draft?: AdjustmentDraft) => (
+    <select
+      value={draft?.reason || ''}
+      onChange={(e) => updateDraft(key, { reason: e.target.value as StockCountReason })}
+      className="form-input input-rtl arabic-text text-sm"
+    >
+      <option value="">السبب</option>
+      {reasons.map(reason => (
+        <option key={reason} value={reason}>{stockCountReasonLabels[reason]}</option>
+      ))}
+    </select>
+  )
+
+  if (!userData || loading) {
+    return <LoadingSpinner text="جاري تحميل الجرد..." />
+  }
+
+  if (!isAdmin(userData.role) && !isSuperAdmin(userData.role)) {
+    return (
+      <div className="text-center py-12">
+        <AlertCircle className="mx-auto h-12 w-12 text-red-500 mb-4" />
+        <h3 className="text-lg font-medium text-gray-900 mb-2 arabic-text">غير مصرح لك بالوصول</h3>
+        <p className="text-gray-500 arabic-text">جرد المخازن متاح للمديرين فقط</p>
+      </div>
+    )
+  }
+
+  if (!count || !variance) {
+    return (
+      <div className="text-center py-12">
+        <AlertCircle className="mx-auto h-12 w-12 text-gray-400 mb-4" />
+        <p className="text-gray-500 arabic-text">الجرد غير موجود</p>
+      </div>
+    )
+  }
+
+  const isOpen = count.status === 'in_progress'
+  const postedAdjustment = (key: string) => count.adjustments?.find(adjustment =>
+    adjustment.inventoryItemId === key || adjustment.value === key)
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-6 py-6">
+      {/* Page Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 arabic-text">جرد {count.warehouseName}</h1>
+          <p className="text-gray-600 arabic-text">
+            {stockCountStatusLabels[count.status]} - بدأ {count.startedAt ? formatDateTime(count.startedAt) : ''}
+            {count.startedByName && ` بواسطة ${count.startedByName}`}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          {isOpen && (
+            <Button variant="outline" onClick={handleCancel}>
+              <XCircle className="ml-2 h-4 w-4" />
+              إلغاء الجرد
+            </Button>
+          )}
+          <Button variant="outline" onClick={() => navigate('/inventory/counts')}>
+            <ArrowLeft className="ml-2 h-4 w-4" />
+            سجل الجرد
+          </Button>
+        </div>
+      </div>
+
+      {/* Summary */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <Card>
+          <CardContent className="p-4">
+            <p className="text-sm text-gray-600 arabic-text">المسجل على المخزن</p>
+            <p className="text-2xl font-bold">{count.expectedItems.length}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-4">
+            <p className="text-sm text-gray-600 arabic-text">موجود</p>
+            <p className="text-2xl font-bold text-green-600">{variance.found.length}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-4">
+            <p className="text-sm text-gray-600 arabic-text">مفقود</p>
+            <p className="text-2xl font-bold text-red-600">{variance.missing.length}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-4">
+            <p className="text-sm text-gray-600 arabic-text">زائد</p>
+            <p className="text-2xl font-bold text-blue-600">{variance.unexpected.length}</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {isOpen && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <ScanLine className="h-5 w-5" />
+              تسجيل الأرقام
+            </CardTitle>
+            <CardDescription>اكتب أو صور رقم الشاسيه أو بصمة الموتور لكل موتوسيكل موجود في المخزن</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form
+              className="flex gap-2"
+              onSubmit={(e) => {
+                e.preventDefault()
+                handleScan(scanValue)
+              }}
+            >
+              <Input
+                value={scanValue}
+                onChange={(e) => setScanValue(e.target.value)}
+                placeholder="رقم الشاسيه أو بصمة الموتور"
+                className="font-mono flex-1"
+                autoFocus
+              />
+              <Button type="button" variant="outline" onClick={() => setShowCamera(true)}>
+                <Camera className="h-4 w-4" />
+              </Button>
+              <Button type="submit" loading={scanning} disabled={!scanValue.trim()}>
+                تسجيل
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Missing */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-red-700">
+            <XCircle className="h-5 w-5" />
+            مسجل وغير موجود ({variance.missing.length})
+          </CardTitle>
+          {variance.missing.length > 0 && (
+            <CardDescription>
+              قيمة المفقود: {formatCurrency(variance.missing.reduce((sum, item) => sum + item.purchasePrice, 0))}
+            </CardDescription>
+          )}
+        </CardHeader>
+        <CardContent>
+          {variance.missing.length === 0 ? (
+            <p className="text-center text-gray-500 py-4 arabic-text">لا يوجد مفقود</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-3 py-2 text-right">الصنف</th>
+                    <th className="px-3 py-2 text-right">الشاسيه</th>
+                    <th className="px-3 py-2 text-right">الموتور</th>
+                    <th className="px-3 py-2 text-right">التكلفة</th>
+                    <th className="px-3 py-2 text-right">التسوية</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y">
+                  {variance.missing.map(item => {
+                    const draft = drafts[item.inventoryItemId]
+                    const posted = postedAdjustment(item.inventoryItemId)
+                    return (
+                      <tr key={item.inventoryItemId}>
+                        <td className="px-3 py-2">{item.brand} {item.model}</td>
+                        <td className="px-3 py-2 font-mono">{item.chassisNumber}</td>
+                        <td className="px-3 py-2 font-mono">{item.motorFingerprint}</td>
+                        <td className="px-3 py-2">{formatCurrency(item.purchasePrice)}</td>
+                        <td className="px-3 py-2">
+                          {isOpen ? (
+                            <div className="flex flex-wrap gap-2">
+                              <select
+                                value={draft?.action || 'none'}
+                                onChange={(e) => updateDraft(item.inventoryItemId, { action: e.target.value as StockCountAction })}
+                                className="form-input input-rtl arabic-text text-sm"
+                              >
+                                <option value="none">بدون تسوية</option>
+                                <option value="write_off">شطب</option>
+                              </select>
+                              {draft?.action === 'write_off' && (
+                                <>
+                                  {renderReasonSelect(item.inventoryItemId, missingReasons, draft)}
+                                  <Input
+                                    value={draft.notes || ''}
+                                    onChange={(e) => updateDraft(item.inventoryItemId, { notes: e.target.value })}
+                                    placeholder="ملاحظات"
+                                    className="input-rtl arabic-text text-sm w-40"
+                                  />
+                                </>
+                              )}
+                            </div>
+                          ) : posted?.action === 'write_off' ? (
+                            <span className="text-red-700 arabic-text">
+                              شطب - {stockCountReasonLabels[posted.reason!]}{posted.notes && ` (${posted.notes})`}
+                            </span>
+                          ) : (
+                            <span className="text-gray-500 arabic-text">بدون تسوية</span>
+                          )}
+                        </td>
+                      </tr>
+                    )
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Unexpected */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-blue-700">
+            <HelpCircle className="h-5 w-5" />
+            موجود وغير مسجل على المخزن ({variance.unexpected.length})
+          </CardTitle>
+          <CardDescription>الأرقام غير المسجلة في المخزون تضاف من شاشة إضافة صنف بعد مراجعتها</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {variance.unexpected.length === 0 ? (
+            <p className="text-center text-gray-500 py-4 arabic-text">لا يوجد زائد</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-3 py-2 text-right">الرقم</th>
+                    <th className="px-3 py-2 text-right">الصنف</th>
+                    <th className="px-3 py-2 text-right">الوضع المسجل</th>
+                    <th className="px-3 py-2 text-right">التسوية</th>
+                    {isOpen && <th className="px-3 py-2 text-right"></th>}
+                  </tr>
+                </thead>
+                <tbody className="divide-y">
+                  {variance.unexpected.map(scan => {
+                    const draft = drafts[scan.value]
+                    const posted = postedAdjustment(scan.value)
+                    const canRelocate = !!scan.inventoryItemId && !['sold', 'written_off'].includes(scan.status || '')
+                    return (
+                      <tr key={scan.value}>
+                        <td className="px-3 py-2 font-mono">{scan.value}</td>
+                        <td className="px-3 py-2">{scan.brand ? `${scan.brand} ${scan.model}` : '-'}</td>
+                        <td className="px-3 py-2 arabic-text">
+                          {!scan.inventoryItemId
+                            ? 'غير مسجل في المخزون'
+                            : ['sold', 'written_off'].includes(scan.status || '')
+                              ? 'مسجل كمباع أو مشطوب'
+                              : 'مسجل على مخزن آخر'}
+                        </td>
+                        <td className="px-3 py-2">
+                          {isOpen ? (
+                            canRelocate ? (
+                              <div className="flex flex-wrap gap-2">
+                                <select
+                                  value={draft?.action || 'none'}
+                                  onChange={(e) => updateDraft(scan.value, { action: e.target.value as StockCountAction })}
+                                  className="form-input input-rtl arabic-text text-sm"
+                                >
+                                  <option value="none">بدون تسوية</option>
+                                  <option value="relocate">نقل إلى هذا المخزن</option>
+                                </select>
+                                {draft?.action === 'relocate' && renderReasonSelect(scan.value, unexpectedReasons, draft)}
+                              </div>
+                            ) : (
+                              <span className="text-gray-500 arabic-text">يحتاج مراجعة يدوية</span>
+                            )
+                          ) : posted?.action === 'relocate' ? (
+                            <span className="text-blue-700 arabic-text">نقل - {stockCountReasonLabels[posted.reason!]}</span>
+                          ) : (
+                            <span className="text-gray-500 arabic-text">بدون تسوية</span>
+                          )}
+                        </td>
+                        {isOpen && (
+                          <td className="px-3 py-2">
+                            <Button size="sm" variant="outline" onClick={() => StockCountService.removeScan(count.id, scan)}>
+                              <Trash2 className="h-3 w-3" />
+                            </Button>
+                          </td>
+                        )}
+                      </tr>
+                    )
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Found */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-green-700">
+            <CheckCircle className="h-5 w-5" />
+            موجود ومطابق ({variance.found.length})
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {variance.found.length === 0 ? (
+            <p className="text-center text-gray-500 py-4 arabic-text">لم يتم تسجيل أي صنف بعد</p>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-2 text-sm">
+              {variance.found.map(item => (
+                <div key={item.inventoryItemId} className="flex items-center justify-between p-2 bg-green-50 rounded">
+                  <span>{item.brand} {item.model}</span>
+                  <span className="font-mono text-gray-600">{item.chassisNumber}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {isOpen && (
+        <Button className="w-full" onClick={handlePost} loading={posting}>
+          <Send className="ml-2 h-4 w-4" />
+          ترحيل الجرد والتسويات
+        </Button>
+      )}
+
+      {showCamera && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+            <ImprovedCameraOCR
+              title="تصوير رقم الشاسيه"
+              placeholder="رقم الشاسيه"
+              extractionType="chassisNumber"
+              onTextExtracted={(text: string) => {
+                setShowCamera(false)
+                handleScan(text)
+              }}
+              onCancel={() => setShowCamera(false)}
+              className="w-full"
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
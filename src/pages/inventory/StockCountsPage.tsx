@@ -0,0 +1,296 @@
+import { useState, useEffect, useMemo } from 'react'
+import { Link, useNavigate } from 'react-router-dom'
+import { toast } from 'sonner'
+import {
+  AlertCircle,
+  ArrowLeft,
+  ClipboardCheck,
+  Eye,
+  Play
+} from 'lucide-react'
+import { collection, query, where, getDocs } from 'firebase/firestore'
+import { useAuthState } from 'react-firebase-hooks/auth'
+
+import { db, auth } from '@/firebase/firebase-config.template'
+import { Button } from '@/components/ui/Button'
+import { Label } from '@/components/ui/Label'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/Card'
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner'
+import { useUserData } from '@/hooks/useUserData'
+import { StockCount, Warehouse } from '@/types'
+import { formatCurrency, formatDateTime, isAdmin, isSuperAdmin } from '@/lib/utils'
+import { StockCountService, stockCountStatusLabels, summarizeStockCount } from '@/lib/stockCounts'
+
+interface WarehouseVariance {
+  warehouseId: string
+  warehouseName: string
+  counts: number
+  lastCountAt?: StockCount['postedAt']
+  missing: number
+  unexpected: number
+  missingValue: number
+  writtenOff: number
+}
+
+const statusColors: Record<StockCount['status'], string> = {
+  in_progress: 'bg-yellow-100 text-yellow-800',
+  posted: 'bg-green-100 text-green-800',
+  cancelled: 'bg-gray-100 text-gray-800'
+}
+
+export function StockCountsPage() {
+  const navigate = useNavigate()
+  const [user] = useAuthState(auth)
+  const { userData } = useUserData(user?.uid)
+  const [warehouses, setWarehouses] = useState<Warehouse[]>([])
+  const [counts, setCounts] = useState<StockCount[]>([])
+  const [warehouseFilter, setWarehouseFilter] = useState('all')
+  const [newCountWarehouse, setNewCountWarehouse] = useState('')
+  const [loading, setLoading] = useState(true)
+  const [starting, setStarting] = useState(false)
+
+  useEffect(() => {
+    if (userData) {
+      loadData()
+    }
+  }, [userData])
+
+  const loadData = async () => {
+    try {
+      setLoading(true)
+      const [warehousesSnapshot, countsData] = await Promise.all([
+        getDocs(query(collection(db, 'warehouses'), where('isActive', '==', true))),
+        StockCountService.getCounts()
+      ])
+      setWarehouses(warehousesSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() })) as Warehouse[])
+      setCounts(countsData)
+    } catch (error) {
+      console.error('Error loading stock counts:', error)
+      toast.error('خطأ في تحميل سجل الجرد')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleStart = async () => {
+    const warehouse = warehouses.find(w => w.id === newCountWarehouse)
+    if (!warehouse || !userData) return
+
+    setStarting(true)
+    const result = await StockCountService.startCount(warehouse, userData.id, userData.displayName)
+    setStarting(false)
+
+    if (result.success) {
+      navigate(`/inventory/counts/${result.countId}`)
+    } else if (result.countId) {
+      toast.warning(result.error)
+      navigate(`/inventory/counts/${result.countId}`)
+    } else {
+      toast.error(result.error || 'فشل في بدء الجرد')
+    }
+  }
+
+  // تقرير الفروقات لكل مخزن من الجرود المرحلة
+  const variances = useMemo(() => {
+    const byWarehouse = new Map<string, WarehouseVariance>()
+    counts.filter(count => count.status === 'posted' && count.summary).forEach(count => {
+      const row = byWarehouse.get(count.warehouseId) || {
+        warehouseId: count.warehouseId,
+        warehouseName: count.warehouseName,
+        counts: 0,
+        missing: 0,
+        unexpected: 0,
+        missingValue: 0,
+        writtenOff: 0
+      }
+      row.counts += 1
+      row.lastCountAt = row.lastCountAt || count.postedAt
+      row.missing += count.summary!.missing
+      row.unexpected += count.summary!.unexpected
+      row.missingValue += count.summary!.missingValue
+      row.writtenOff += count.summary!.writtenOff
+      byWarehouse.set(count.warehouseId, row)
+    })
+    return [...byWarehouse.values()]
+  }, [counts])
+
+  const filteredCounts = warehouseFilter === 'all'
+    ? counts
+    : counts.filter(count => count.warehouseId === warehouseFilter)
+
+  if (!userData) {
+    return <LoadingSpinner text="جاري تحميل بيانات المستخدم..." />
+  }
+
+  if (!isAdmin(userData.role) && !isSuperAdmin(userData.role)) {
+    return (
+      <div className="text-center py-12">
+        <AlertCircle className="mx-auto h-12 w-12 text-red-500 mb-4" />
+        <h3 className="text-lg font-medium text-gray-900 mb-2 arabic-text">غير مصرح لك بالوصول</h3>
+        <p className="text-gray-500 arabic-text">جرد المخازن متاح للمديرين فقط</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-6 py-6">
+      {/* Page Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 arabic-text">جرد المخازن</h1>
+          <p className="text-gray-600 arabic-text">مطابقة الموجود فعلياً في المخزن مع المسجل عليه وترحيل التسويات</p>
+        </div>
+        <Button variant="outline" onClick={() => navigate('/inventory')}>
+          <ArrowLeft className="ml-2 h-4 w-4" />
+          العودة للمخزون
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ClipboardCheck className="h-5 w-5" />
+            جرد جديد
+          </CardTitle>
+          <CardDescription>يتم تثبيت قائمة الأصناف المسجلة على المخزن لحظة بدء الجرد</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex flex-col md:flex-row gap-4 md:items-end">
+            <div className="space-y-2 flex-1">
+              <Label htmlFor="countWarehouse" required>المخزن</Label>
+              <select
+                id="countWarehouse"
+                value={newCountWarehouse}
+                onChange={(e) => setNewCountWarehouse(e.target.value)}
+                className="form-input w-full input-rtl arabic-text"
+              >
+                <option value="">اختر المخزن</option>
+                {warehouses.map(warehouse => (
+                  <option key={warehouse.id} value={warehouse.id}>{warehouse.name}</option>
+                ))}
+              </select>
+            </div>
+            <Button onClick={handleStart} loading={starting} disabled={!newCountWarehouse}>
+              <Play className="ml-2 h-4 w-4" />
+              بدء الجرد
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {loading ? (
+        <LoadingSpinner text="جاري تحميل سجل الجرد..." />
+      ) : (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle>فروقات الجرد حسب المخزن</CardTitle>
+              <CardDescription>إجمالي الفروقات في الجرود المرحلة</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {variances.length === 0 ? (
+                <p className="text-center text-gray-500 py-6 arabic-text">لا توجد جرود مرحلة بعد</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-3 py-2 text-right">المخزن</th>
+                        <th className="px-3 py-2 text-right">عدد الجرود</th>
+                        <th className="px-3 py-2 text-right">آخر جرد</th>
+                        <th className="px-3 py-2 text-right">مفقود</th>
+                        <th className="px-3 py-2 text-right">زائد</th>
+                        <th className="px-3 py-2 text-right">مشطوب</th>
+                        <th className="px-3 py-2 text-right">قيمة المفقود</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y">
+                      {variances.map(row => (
+                        <tr key={row.warehouseId}>
+                          <td className="px-3 py-2">{row.warehouseName}</td>
+                          <td className="px-3 py-2">{row.counts}</td>
+                          <td className="px-3 py-2">{row.lastCountAt ? formatDateTime(row.lastCountAt) : '-'}</td>
+                          <td className="px-3 py-2 text-red-600">{row.missing}</td>
+                          <td className="px-3 py-2 text-blue-600">{row.unexpected}</td>
+                          <td className="px-3 py-2">{row.writtenOff}</td>
+                          <td className="px-3 py-2">{formatCurrency(row.missingValue)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <CardTitle>سجل الجرد</CardTitle>
+                <select
+                  value={warehouseFilter}
+                  onChange={(e) => setWarehouseFilter(e.target.value)}
+                  className="form-input input-rtl arabic-text"
+                >
+                  <option value="all">جميع المخازن</option>
+                  {warehouses.map(warehouse => (
+                    <option key={warehouse.id} value={warehouse.id}>{warehouse.name}</option>
+                  ))}
+                </select>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {filteredCounts.length === 0 ? (
+                <p className="text-center text-gray-500 py-6 arabic-text">لا يوجد جرد مسجل</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-3 py-2 text-right">المخزن</th>
+                        <th className="px-3 py-2 text-right">البداية</th>
+                        <th className="px-3 py-2 text-right">الحالة</th>
+                        <th className="px-3 py-2 text-right">المسجل</th>
+                        <th className="px-3 py-2 text-right">موجود</th>
+                        <th className="px-3 py-2 text-right">مفقود</th>
+                        <th className="px-3 py-2 text-right">زائد</th>
+                        <th className="px-3 py-2 text-right"></th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y">
+                      {filteredCounts.map(count => {
+                        const variance = count.summary || summarizeStockCount(count, [])
+                        return (
+                          <tr key={count.id}>
+                            <td className="px-3 py-2">{count.warehouseName}</td>
+                            <td className="px-3 py-2">{count.startedAt ? formatDateTime(count.startedAt) : '-'}</td>
+                            <td className="px-3 py-2">
+                              <span className={`px-2 py-1 rounded-full text-xs ${statusColors[count.status]}`}>
+                                {stockCountStatusLabels[count.status]}
+                              </span>
+                            </td>
+                            <td className="px-3 py-2">{variance.expected}</td>
+                            <td className="px-3 py-2">{variance.found}</td>
+                            <td className="px-3 py-2 text-red-600">{variance.missing}</td>
+                            <td className="px-3 py-2 text-blue-600">{variance.unexpected}</td>
+                            <td className="px-3 py-2">
+                              <Link to={`/inventory/counts/${count.id}`}>
+                                <Button size="sm" variant="outline">
+                                  <Eye className="h-3 w-3" />
+                                </Button>
+                              </Link>
+                            </td>
+                          </tr>
+                        )
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  )
+}
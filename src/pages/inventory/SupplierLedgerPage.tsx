@@ -0,0 +1,271 @@
+import { useState, useEffect } from 'react'
+import { Link, useNavigate, useParams } from 'react-router-dom'
+import { toast } from 'sonner'
+import { AlertCircle, ArrowLeft, Plus, Wallet } from 'lucide-react'
+import { useAuthState } from 'react-firebase-hooks/auth'
+
+import { auth } from '@/firebase/firebase-config.template'
+import { Button } from '@/components/ui/Button'
+import { Input } from '@/components/ui/Input'
+import { Label } from '@/components/ui/Label'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/Card'
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner'
+import { useUserData } from '@/hooks/useUserData'
+import { PaymentMethod, PurchaseOrder, Supplier, SupplierLedgerEntry } from '@/types'
+import { formatCurrency, formatDate, isAdmin, isSuperAdmin, paymentMethodTranslations } from '@/lib/utils'
+import { PurchaseOrderService, SupplierService, purchaseOrderStatusLabels, supplierKindLabels } from '@/lib/purchasing'
+
+export function SupplierLedgerPage() {
+  const { id } = useParams<{ id: string }>()
+  const navigate = useNavigate()
+  const [user] = useAuthState(auth)
+  const { userData } = useUserData(user?.uid)
+  const [supplier, setSupplier] = useState<Supplier | null>(null)
+  const [entries, setEntries] = useState<SupplierLedgerEntry[]>([])
+  const [orders, setOrders] = useState<PurchaseOrder[]>([])
+  const [loading, setLoading] = useState(true)
+
+  const [showPayment, setShowPayment] = useState(false)
+  const [amount, setAmount] = useState('')
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>('cash')
+  const [notes, setNotes] = useState('')
+  const [saving, setSaving] = useState(false)
+
+  const canManage = userData && (isAdmin(userData.role) || isSuperAdmin(userData.role))
+
+  useEffect(() => {
+    if (id && canManage) {
+      loadLedger()
+    }
+  }, [id, canManage])
+
+  const loadLedger = async () => {
+    if (!id) return
+
+    try {
+      setLoading(true)
+      const [supplierData, ledger, supplierOrders] = await Promise.all([
+        SupplierService.getSupplier(id),
+        SupplierService.getLedger(id),
+        PurchaseOrderService.getOrders(id)
+      ])
+      setSupplier(supplierData)
+      setEntries(ledger)
+      setOrders(supplierOrders)
+    } catch (error) {
+      console.error('Error loading supplier ledger:', error)
+      toast.error('فشل في تحميل حساب المورد')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handlePayment = async () => {
+    if (!id || !userData) return
+
+    setSaving(true)
+    const result = await SupplierService.recordPayment(id, parseFloat(amount), paymentMethod, notes, userData.id)
+    setSaving(false)
+
+    if (result.success) {
+      toast.success(`تم تسجيل سند الصرف ${result.number}`)
+      setShowPayment(false)
+      setAmount('')
+      setNotes('')
+      loadLedger()
+    } else {
+      toast.error(result.error || 'فشل في تسجيل السداد')
+    }
+  }
+
+  const totalReceived = entries.filter(entry => entry.type === 'receipt').reduce((sum, entry) => sum + entry.amount, 0)
+  const totalPaid = entries.filter(entry => entry.type === 'payment').reduce((sum, entry) => sum + entry.amount, 0)
+
+  if (!userData || (canManage && loading)) {
+    return <LoadingSpinner text="جاري تحميل حساب المورد..." />
+  }
+
+  if (!canManage) {
+    return (
+      <div className="text-center py-12">
+        <AlertCircle className="mx-auto h-12 w-12 text-red-500 mb-4" />
+        <h3 className="text-lg font-medium text-gray-900 mb-2 arabic-text">غير مصرح لك بالوصول</h3>
+        <p className="text-gray-500 arabic-text">حسابات الموردين متاحة للمديرين فقط</p>
+      </div>
+    )
+  }
+
+  if (!supplier) {
+    return (
+      <div className="text-center py-12">
+        <AlertCircle className="mx-auto h-12 w-12 text-gray-400 mb-4" />
+        <p className="text-gray-500 arabic-text mb-4">المورد غير موجود</p>
+        <Button onClick={() => navigate('/inventory/suppliers')}>العودة للموردين</Button>
+      </div>
+    )
+  }
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-6 py-6">
+      {/* Page Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 arabic-text">حساب {supplier.name}</h1>
+          <p className="text-gray-600 arabic-text">
+            {supplierKindLabels[supplier.kind]}{supplier.phone && ` - ${supplier.phone}`}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button onClick={() => setShowPayment(true)}>
+            <Wallet className="ml-2 h-4 w-4" />
+            تسجيل سداد
+          </Button>
+          <Button variant="outline" onClick={() => navigate('/inventory/suppliers')}>
+            <ArrowLeft className="ml-2 h-4 w-4" />
+            الموردون
+          </Button>
+        </div>
+      </div>
+
+      {/* Summary */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Card>
+          <CardContent className="p-4">
+            <p className="text-sm text-gray-600 arabic-text">إجمالي المستلم</p>
+            <p className="text-2xl font-bold">{formatCurrency(totalReceived)}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-4">
+            <p className="text-sm text-gray-600 arabic-text">إجمالي المدفوع</p>
+            <p className="text-2xl font-bold text-green-600">{formatCurrency(totalPaid)}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-4">
+            <p className="text-sm text-gray-600 arabic-text">المستحق للمورد</p>
+            <p className={`text-2xl font-bold ${supplier.balance > 0 ? 'text-red-600' : 'text-green-600'}`}>
+              {formatCurrency(supplier.balance || 0)}
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {showPayment && (
+        <Card>
+          <CardHeader>
+            <CardTitle>سداد للمورد</CardTitle>
+            <CardDescription>يصدر سند صرف مسلسل ويخصم المبلغ من المستحق</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label required>المبلغ</Label>
+                <Input type="number" min="0" step="0.01" value={amount} onChange={(e) => setAmount(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label required>طريقة الدفع</Label>
+                <select
+                  value={paymentMethod}
+                  onChange={(e) => setPaymentMethod(e.target.value as PaymentMethod)}
+                  className="form-input w-full input-rtl arabic-text"
+                >
+                  {(['cash', 'bank_transfer', 'check'] as PaymentMethod[]).map(method => (
+                    <option key={method} value={method}>{paymentMethodTranslations[method]}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="space-y-2">
+                <Label>البيان</Label>
+                <Input value={notes} onChange={(e) => setNotes(e.target.value)} placeholder="سداد للمورد" />
+              </div>
+            </div>
+            <div className="flex gap-2">
+              <Button onClick={handlePayment} loading={saving}>
+                <Plus className="ml-2 h-4 w-4" />
+                تسجيل السداد
+              </Button>
+              <Button variant="outline" onClick={() => setShowPayment(false)}>إلغاء</Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Ledger */}
+      <Card>
+        <CardHeader>
+          <CardTitle>كشف الحساب</CardTitle>
+          <CardDescription>أذونات الاستلام تزيد المستحق والمدفوعات تخفضه</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {entries.length === 0 ? (
+            <p className="text-center text-gray-500 py-8 arabic-text">لا توجد حركات على حساب المورد</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-3 py-2 text-right">التاريخ</th>
+                    <th className="px-3 py-2 text-right">المستند</th>
+                    <th className="px-3 py-2 text-right">البيان</th>
+                    <th className="px-3 py-2 text-right">مستلم (له)</th>
+                    <th className="px-3 py-2 text-right">مدفوع (عليه)</th>
+                    <th className="px-3 py-2 text-right">الرصيد</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y">
+                  {entries.map(entry => (
+                    <tr key={entry.id}>
+                      <td className="px-3 py-2">{formatDate(entry.createdAt)}</td>
+                      <td className="px-3 py-2 font-mono">{entry.reference}</td>
+                      <td className="px-3 py-2">
+                        {entry.description}
+                        {entry.paymentMethod && (
+                          <span className="text-xs text-gray-500"> ({paymentMethodTranslations[entry.paymentMethod]})</span>
+                        )}
+                      </td>
+                      <td className="px-3 py-2">{entry.type === 'receipt' ? formatCurrency(entry.amount) : '-'}</td>
+                      <td className="px-3 py-2 text-green-600">{entry.type === 'payment' ? formatCurrency(entry.amount) : '-'}</td>
+                      <td className="px-3 py-2 font-medium">{formatCurrency(entry.balanceAfter)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Purchase Orders */}
+      <Card>
+        <CardHeader>
+          <CardTitle>أوامر الشراء</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {orders.length === 0 ? (
+            <p className="text-center text-gray-500 py-8 arabic-text">لا توجد أوامر شراء لهذا المورد</p>
+          ) : (
+            <div className="space-y-2">
+              {orders.map(order => (
+                <Link
+                  key={order.id}
+                  to={`/inventory/purchase-orders/${order.id}`}
+                  className="flex items-center justify-between p-3 bg-gray-50 rounded-lg hover:bg-gray-100"
+                >
+                  <div>
+                    <p className="font-mono font-medium">{order.orderNumber}</p>
+                    <p className="text-sm text-gray-500">{formatDate(order.createdAt)}</p>
+                  </div>
+                  <div className="text-left">
+                    <p className="text-sm">{purchaseOrderStatusLabels[order.status]}</p>
+                    <p className="text-sm font-medium">{formatCurrency(order.totalAmount)}</p>
+                  </div>
+                </Link>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
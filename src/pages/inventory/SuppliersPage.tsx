@@ -0,0 +1,254 @@
+import { useState, useEffect } from 'react'
+import { Link, useNavigate } from 'react-router-dom'
+import { toast } from 'sonner'
+import {
+  AlertCircle,
+  ArrowLeft,
+  ClipboardList,
+  Edit,
+  Plus,
+  Power,
+  Truck
+} from 'lucide-react'
+import { useAuthState } from 'react-firebase-hooks/auth'
+
+import { auth } from '@/firebase/firebase-config.template'
+import { Button } from '@/components/ui/Button'
+import { Input } from '@/components/ui/Input'
+import { Label } from '@/components/ui/Label'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/Card'
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner'
+import { useUserData } from '@/hooks/useUserData'
+import { Supplier, SupplierKind } from '@/types'
+import { formatCurrency, isAdmin, isSuperAdmin } from '@/lib/utils'
+import { SupplierInput, SupplierService, supplierKindLabels } from '@/lib/purchasing'
+
+interface SupplierForm extends Required<SupplierInput> {
+  id?: string
+}
+
+const emptySupplier = (): SupplierForm => ({
+  name: '',
+  kind: 'supplier',
+  phone: '',
+  email: '',
+  address: '',
+  taxNumber: '',
+  notes: ''
+})
+
+export function SuppliersPage() {
+  const navigate = useNavigate()
+  const [user] = useAuthState(auth)
+  const { userData } = useUserData(user?.uid)
+  const [suppliers, setSuppliers] = useState<Supplier[]>([])
+  const [form, setForm] = useState<SupplierForm | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+
+  const canManage = userData && (isAdmin(userData.role) || isSuperAdmin(userData.role))
+
+  useEffect(() => {
+    if (canManage) {
+      loadSuppliers()
+    }
+  }, [canManage])
+
+  const loadSuppliers = async () => {
+    setLoading(true)
+    setSuppliers(await SupplierService.getSuppliers())
+    setLoading(false)
+  }
+
+  const editSupplier = (supplier: Supplier) => setForm({
+    id: supplier.id,
+    name: supplier.name,
+    kind: supplier.kind,
+    phone: supplier.phone || '',
+    email: supplier.email || '',
+    address: supplier.address || '',
+    taxNumber: supplier.taxNumber || '',
+    notes: supplier.notes || ''
+  })
+
+  const handleSave = async () => {
+    if (!form || !userData) return
+
+    setSaving(true)
+    const { id, ...input } = form
+    const result = await SupplierService.saveSupplier(input, userData.id, id)
+    setSaving(false)
+
+    if (result.success) {
+      toast.success(id ? 'تم تحديث بيانات المورد' : 'تم إضافة المورد')
+      setForm(null)
+      loadSuppliers()
+    } else {
+      toast.error(result.error || 'فشل في حفظ المورد')
+    }
+  }
+
+  const toggleActive = async (supplier: Supplier) => {
+    const result = await SupplierService.setActive(supplier.id, !supplier.isActive)
+    if (result.success) {
+      setSuppliers(suppliers.map(entry => entry.id === supplier.id ? { ...entry, isActive: !supplier.isActive } : entry))
+    } else {
+      toast.error(result.error || 'فشل في تحديث المورد')
+    }
+  }
+
+  const totalOwed = suppliers.reduce((sum, supplier) => sum + (supplier.balance || 0), 0)
+
+  if (!userData) {
+    return <LoadingSpinner text="جاري تحميل بيانات المستخدم..." />
+  }
+
+  if (!canManage) {
+    return (
+      <div className="text-center py-12">
+        <AlertCircle className="mx-auto h-12 w-12 text-red-500 mb-4" />
+        <h3 className="text-lg font-medium text-gray-900 mb-2 arabic-text">غير مصرح لك بالوصول</h3>
+        <p className="text-gray-500 arabic-text">إدارة الموردين متاحة للمديرين فقط</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-6 py-6">
+      {/* Page Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 arabic-text">الموردون والشركات المصنعة</h1>
+          <p className="text-gray-600 arabic-text">
+            إجمالي المستحق للموردين: <span className="font-bold">{formatCurrency(totalOwed)}</span>
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Link to="/inventory/purchase-orders">
+            <Button variant="outline">
+              <ClipboardList className="ml-2 h-4 w-4" />
+              أوامر الشراء
+            </Button>
+          </Link>
+          <Button onClick={() => setForm(emptySupplier())}>
+            <Plus className="ml-2 h-4 w-4" />
+            إضافة مورد
+          </Button>
+          <Button variant="outline" onClick={() => navigate('/inventory')}>
+            <ArrowLeft className="ml-2 h-4 w-4" />
+            العودة للمخزون
+          </Button>
+        </div>
+      </div>
+
+      {form && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{form.id ? 'تعديل المورد' : 'مورد جديد'}</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label required>الاسم</Label>
+                <Input value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} />
+              </div>
+              <div className="space-y-2">
+                <Label required>النوع</Label>
+                <select
+                  value={form.kind}
+                  onChange={(e) => setForm({ ...form, kind: e.target.value as SupplierKind })}
+                  className="form-input w-full input-rtl arabic-text"
+                >
+                  {(Object.keys(supplierKindLabels) as SupplierKind[]).map(kind => (
+                    <option key={kind} value={kind}>{supplierKindLabels[kind]}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="space-y-2">
+                <Label>الرقم الضريبي</Label>
+                <Input value={form.taxNumber} onChange={(e) => setForm({ ...form, taxNumber: e.target.value })} />
+              </div>
+              <div className="space-y-2">
+                <Label>الهاتف</Label>
+                <Input value={form.phone} onChange={(e) => setForm({ ...form, phone: e.target.value })} />
+              </div>
+              <div className="space-y-2">
+                <Label>البريد الإلكتروني</Label>
+                <Input type="email" value={form.email} onChange={(e) => setForm({ ...form, email: e.target.value })} />
+              </div>
+              <div className="space-y-2">
+                <Label>العنوان</Label>
+                <Input value={form.address} onChange={(e) => setForm({ ...form, address: e.target.value })} />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>ملاحظات</Label>
+              <Input value={form.notes} onChange={(e) => setForm({ ...form, notes: e.target.value })} />
+            </div>
+            <div className="flex gap-2">
+              <Button onClick={handleSave} loading={saving}>حفظ</Button>
+              <Button variant="outline" onClick={() => setForm(null)}>إلغاء</Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>الموردون</CardTitle>
+          <CardDescription>{suppliers.length} مورد</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <LoadingSpinner text="جاري تحميل الموردين..." />
+          ) : suppliers.length === 0 ? (
+            <div className="text-center py-8">
+              <Truck className="mx-auto h-12 w-12 text-gray-400 mb-4" />
+              <p className="text-gray-500 arabic-text">لا يوجد موردون بعد</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-3 py-2 text-right">الاسم</th>
+                    <th className="px-3 py-2 text-right">النوع</th>
+                    <th className="px-3 py-2 text-right">الهاتف</th>
+                    <th className="px-3 py-2 text-right">المستحق</th>
+                    <th className="px-3 py-2 text-right">إجراءات</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y">
+                  {suppliers.map(supplier => (
+                    <tr key={supplier.id} className={supplier.isActive ? '' : 'opacity-50'}>
+                      <td className="px-3 py-2 font-medium">
+                        <Link to={`/inventory/suppliers/${supplier.id}`} className="text-blue-600 hover:underline">
+                          {supplier.name}
+                        </Link>
+                      </td>
+                      <td className="px-3 py-2">{supplierKindLabels[supplier.kind]}</td>
+                      <td className="px-3 py-2">{supplier.phone || '-'}</td>
+                      <td className={`px-3 py-2 font-medium ${supplier.balance > 0 ? 'text-red-600' : 'text-green-600'}`}>
+                        {formatCurrency(supplier.balance || 0)}
+                      </td>
+                      <td className="px-3 py-2">
+                        <div className="flex gap-1">
+                          <Button size="sm" variant="outline" onClick={() => editSupplier(supplier)}>
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          <Button size="sm" variant="outline" onClick={() => toggleActive(supplier)} title={supplier.isActive ? 'إيقاف' : 'تفعيل'}>
+                            <Power className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,328 @@
+import { useState, useEffect, useRef } from 'react'
+import { useNavigate, useParams } from 'react-router-dom'
+import { toast } from 'sonner'
+import { AlertCircle, ArrowLeft, CheckCircle, ClipboardCheck, Printer } from 'lucide-react'
+import { useAuthState } from 'react-firebase-hooks/auth'
+
+import { auth } from '@/firebase/firebase-config.template'
+import { Button } from '@/components/ui/Button'
+import { Input } from '@/components/ui/Input'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/Card'
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner'
+import { useUserData } from '@/hooks/useUserData'
+import { TransferNote, TransferReceiptOutcome } from '@/types'
+import { cn, formatCurrency, formatDate, formatDateTime, isAdmin, isSuperAdmin, printElement } from '@/lib/utils'
+import {
+  ReceiptConfirmation,
+  TransferNoteService,
+  transferNoteStatusColors,
+  transferNoteStatusLabels,
+  transferOutcomeLabels,
+  transferPriceOf
+} from '@/lib/transferNotes'
+
+interface OutcomeForm {
+  outcome: TransferReceiptOutcome
+  notes: string
+}
+
+const outcomeColors: Record<TransferReceiptOutcome, string> = {
+  pending: 'text-gray-500',
+  received: 'text-green-600',
+  damaged: 'text-orange-600',
+  missing: 'text-red-600'
+}
+
+export function TransferNoteDetailsPage() {
+  const { id } = useParams<{ id: string }>()
+  const navigate = useNavigate()
+  const [user] = useAuthState(auth)
+  const { userData } = useUserData(user?.uid)
+  const [note, setNote] = useState<TransferNote | null>(null)
+  const [outcomes, setOutcomes] = useState<Record<string, OutcomeForm>>({})
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const manifestRef = useRef<HTMLDivElement>(null)
+
+  const canManage = userData && (isAdmin(userData.role) || isSuperAdmin(userData.role))
+  const agentWarehouseId = userData?.role === 'agent' ? userData.warehouseId : undefined
+  const basePath = canManage ? '/inventory/transfers' : '/agent/transfers'
+
+  useEffect(() => {
+    if (id && (canManage || agentWarehouseId)) {
+      loadNote()
+    }
+  }, [id, canManage, agentWarehouseId])
+
+  const loadNote = async () => {
+    if (!id) return
+
+    try {
+      setLoading(true)
+      const noteData = await TransferNoteService.getNote(id)
+      setNote(noteData)
+      setOutcomes({})
+    } catch (error) {
+      console.error('Error loading transfer note:', error)
+      toast.error('فشل في تحميل إذن التحويل')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const setOutcome = (itemId: string, changes: Partial<OutcomeForm>) => {
+    setOutcomes(prev => ({ ...prev, [itemId]: { outcome: 'pending', notes: '', ...prev[itemId], ...changes } }))
+  }
+
+  const markAllReceived = () => {
+    if (!note) return
+    const pending = note.items.filter(item => item.outcome === 'pending')
+    setOutcomes(Object.fromEntries(pending.map(item => [item.inventoryItemId, { outcome: 'received' as TransferReceiptOutcome, notes: '' }])))
+  }
+
+  const handleConfirm = async () => {
+    if (!note || !userData) return
+
+    const confirmations: ReceiptConfirmation[] = Object.entries(outcomes)
+      .filter(([, form]) => form.outcome !== 'pending')
+      .map(([inventoryItemId, form]) => ({
+        inventoryItemId,
+        outcome: form.outcome as ReceiptConfirmation['outcome'],
+        notes: form.notes
+      }))
+
+    const issues = confirmations.filter(confirmation => confirmation.outcome !== 'received')
+    if (issues.some(issue => !issue.notes?.trim())) {
+      toast.error('يرجى كتابة وصف لكل وحدة تالفة أو مفقودة')
+      return
+    }
+    if (issues.length > 0 && !confirm(`سيتم إبلاغ الإدارة بعدد ${issues.length} وحدة تالفة أو مفقودة. هل تريد المتابعة؟`)) {
+      return
+    }
+
+    setSaving(true)
+    const result = await TransferNoteService.confirmReceipt(note.id, confirmations, userData.id)
+    setSaving(false)
+
+    if (result.success) {
+      toast.success(`تم تأكيد استلام ${confirmations.length} وحدة على الإذن ${result.number}`)
+      loadNote()
+    } else {
+      toast.error(result.error || 'فشل في تأكيد الاستلام')
+    }
+  }
+
+  if (!userData || ((canManage || agentWarehouseId) && loading)) {
+    return <LoadingSpinner text="جاري تحميل إذن التحويل..." />
+  }
+
+  const canView = note && (canManage || [note.fromWarehouseId, note.toWarehouseId].includes(agentWarehouseId || ''))
+  if (!canManage && !agentWarehouseId || (note && !canView)) {
+    return (
+      <div className="text-center py-12">
+        <AlertCircle className="mx-auto h-12 w-12 text-red-500 mb-4" />
+        <h3 className="text-lg font-medium text-gray-900 mb-2 arabic-text">غير مصرح لك بالوصول</h3>
+        <p className="text-gray-500 arabic-text">هذا الإذن لا يخص مخزنك</p>
+      </div>
+    )
+  }
+
+  if (!note) {
+    return (
+      <div className="text-center py-12">
+        <AlertCircle className="mx-auto h-12 w-12 text-gray-400 mb-4" />
+        <p className="text-gray-500 arabic-text mb-4">إذن التحويل غير موجود</p>
+        <Button onClick={() => navigate(basePath)}>العودة لأذون التحويل</Button>
+      </div>
+    )
+  }
+
+  // المستلم هو من يؤكد: مخزن الوكيل لوكيله، ومخازن الشركة للإدارة
+  // التحويل من وكيل لآخر يحرك رصيد الوكيل المحول منه، فتؤكده الإدارة
+  const canConfirm = note.status !== 'received' && (canManage || (agentWarehouseId === note.toWarehouseId && !note.fromAgentId))
+  const pendingItems = note.items.filter(item => item.outcome === 'pending')
+  const selectedCount = Object.values(outcomes).filter(form => form.outcome !== 'pending').length
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-6 py-6">
+      {/* Page Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <div className="flex items-center gap-3">
+            <h1 className="text-2xl font-bold text-gray-900 font-mono">{note.transferNoteNumber}</h1>
+            <span className={cn('inline-flex px-2 py-1 text-xs font-semibold rounded-full', transferNoteStatusColors[note.status])}>
+              {transferNoteStatusLabels[note.status]}
+            </span>
+          </div>
+          <p className="text-gray-600 arabic-text">
+            من {note.fromWarehouseName} إلى {note.toWarehouseName} - {formatDateTime(note.dispatchedAt)}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            onClick={() => manifestRef.current && printElement(manifestRef.current, `بيان شحنة ${note.transferNoteNumber}`)}
+          >
+            <Printer className="ml-2 h-4 w-4" />
+            طباعة بيان الشحنة
+          </Button>
+          <Button variant="outline" onClick={() => navigate(basePath)}>
+            <ArrowLeft className="ml-2 h-4 w-4" />
+            أذون التحويل
+          </Button>
+        </div>
+      </div>
+
+      {/* Receipt confirmation */}
+      {canConfirm && pendingItems.length > 0 && (
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div>
+                <CardTitle>تأكيد الاستلام</CardTitle>
+                <CardDescription>
+                  المستلم ينتقل لمخزن {note.toWarehouseName}{note.toAgentId ? ' وتضاف قيمته لمديونية الوكيل' : ''}،
+                  والتالف يعود للمخزن المصدر، والمفقود يشطب
+                </CardDescription>
+              </div>
+              <Button variant="outline" onClick={markAllReceived}>
+                <CheckCircle className="ml-2 h-4 w-4" />
+                استلام الكل
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-3 py-2 text-right">الصنف</th>
+                    <th className="px-3 py-2 text-right">رقم الشاسيه</th>
+                    <th className="px-3 py-2 text-right">بصمة الموتور</th>
+                    {note.toAgentId && <th className="px-3 py-2 text-right">سعر التحويل</th>}
+                    <th className="px-3 py-2 text-right">النتيجة</th>
+                    <th className="px-3 py-2 text-right">الوصف</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y">
+                  {pendingItems.map(item => {
+                    const form = outcomes[item.inventoryItemId] || { outcome: 'pending', notes: '' }
+                    return (
+                      <tr key={item.inventoryItemId}>
+                        <td className="px-3 py-2">{item.brand} {item.model} - {item.color}</td>
+                        <td className="px-3 py-2 font-mono">{item.chassisNumber}</td>
+                        <td className="px-3 py-2 font-mono">{item.motorFingerprint}</td>
+                        {note.toAgentId && (
+                          <td className="px-3 py-2">
+                            {formatCurrency(transferPriceOf(item))}
+                            {item.pricingRuleLabel && (
+                              <span className={cn('block text-xs', item.priceOverridden ? 'text-orange-600' : 'text-gray-500')}>
+                                {item.priceOverridden ? 'معدل يدوياً' : item.pricingRuleLabel}
+                              </span>
+                            )}
+                          </td>
+                        )}
+                        <td className="px-3 py-2">
+                          <select
+                            value={form.outcome}
+                            onChange={(e) => setOutcome(item.inventoryItemId, { outcome: e.target.value as TransferReceiptOutcome })}
+                            className="form-input w-full input-rtl arabic-text"
+                          >
+                            {(Object.keys(transferOutcomeLabels) as TransferReceiptOutcome[]).map(outcome => (
+                              <option key={outcome} value={outcome}>{transferOutcomeLabels[outcome]}</option>
+                            ))}
+                          </select>
+                        </td>
+                        <td className="px-3 py-2">
+                          {form.outcome === 'damaged' || form.outcome === 'missing' ? (
+                            <Input
+                              value={form.notes}
+                              onChange={(e) => setOutcome(item.inventoryItemId, { notes: e.target.value })}
+                              placeholder={form.outcome === 'damaged' ? 'وصف التلف' : 'ملابسات الفقد'}
+                            />
+                          ) : '-'}
+                        </td>
+                      </tr>
+                    )
+                  })}
+                </tbody>
+              </table>
+            </div>
+            <Button onClick={handleConfirm} loading={saving} disabled={selectedCount === 0}>
+              <ClipboardCheck className="ml-2 h-4 w-4" />
+              تأكيد {selectedCount} وحدة
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Manifest */}
+      <Card>
+        <CardHeader>
+          <CardTitle>بيان الشحنة</CardTitle>
+          <CardDescription>{note.items.length} وحدة</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div ref={manifestRef} className="space-y-4">
+            <div className="hidden print:block text-center space-y-1">
+              <h2 className="text-xl font-bold">بيان شحنة - إذن تحويل {note.transferNoteNumber}</h2>
+              <p>من: {note.fromWarehouseName} &nbsp; إلى: {note.toWarehouseName}</p>
+              <p>تاريخ الخروج: {formatDate(note.dispatchedAt)}</p>
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-4 text-sm">
+              <div>
+                <p className="text-gray-500 arabic-text">السائق</p>
+                <p className="font-medium">{note.driverName || '-'}</p>
+              </div>
+              <div>
+                <p className="text-gray-500 arabic-text">رقم السيارة</p>
+                <p className="font-medium">{note.vehiclePlate || '-'}</p>
+              </div>
+              <div>
+                <p className="text-gray-500 arabic-text">ملاحظات</p>
+                <p className="font-medium">{note.notes || '-'}</p>
+              </div>
+            </div>
+
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-3 py-2 text-right">#</th>
+                  <th className="px-3 py-2 text-right">الصنف</th>
+                  <th className="px-3 py-2 text-right">اللون</th>
+                  <th className="px-3 py-2 text-right">رقم الشاسيه</th>
+                  <th className="px-3 py-2 text-right">بصمة الموتور</th>
+                  <th className="px-3 py-2 text-right print:hidden">الاستلام</th>
+                  <th className="px-3 py-2 text-right hidden print:table-cell">توقيع المستلم</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y">
+                {note.items.map((item, index) => (
+                  <tr key={item.inventoryItemId}>
+                    <td className="px-3 py-2">{index + 1}</td>
+                    <td className="px-3 py-2">{item.brand} {item.model}</td>
+                    <td className="px-3 py-2">{item.color}</td>
+                    <td className="px-3 py-2 font-mono">{item.chassisNumber}</td>
+                    <td className="px-3 py-2 font-mono">{item.motorFingerprint}</td>
+                    <td className={cn('px-3 py-2 print:hidden', outcomeColors[item.outcome])}>
+                      {transferOutcomeLabels[item.outcome]}
+                      {item.outcomeNotes && <span className="text-xs text-gray-500"> ({item.outcomeNotes})</span>}
+                    </td>
+                    <td className="px-3 py-2 hidden print:table-cell"></td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            <div className="hidden print:grid grid-cols-3 gap-8 pt-12 text-center text-sm">
+              <p className="border-t pt-2">توقيع المسلم</p>
+              <p className="border-t pt-2">توقيع السائق</p>
+              <p className="border-t pt-2">توقيع المستلم</p>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,149 @@
+import { useState, useEffect } from 'react'
+import { Link, useNavigate } from 'react-router-dom'
+import { AlertCircle, ArrowLeft, ArrowRightLeft, ClipboardCheck } from 'lucide-react'
+import { useAuthState } from 'react-firebase-hooks/auth'
+
+import { auth } from '@/firebase/firebase-config.template'
+import { Button } from '@/components/ui/Button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/Card'
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner'
+import { useUserData } from '@/hooks/useUserData'
+import { TransferNote, TransferNoteStatus } from '@/types'
+import { cn, formatDate, isAdmin, isSuperAdmin } from '@/lib/utils'
+import { TransferNoteService, transferNoteStatusColors, transferNoteStatusLabels } from '@/lib/transferNotes'
+
+export function TransferNotesPage() {
+  const navigate = useNavigate()
+  const [user] = useAuthState(auth)
+  const { userData } = useUserData(user?.uid)
+  const [notes, setNotes] = useState<TransferNote[]>([])
+  const [statusFilter, setStatusFilter] = useState<TransferNoteStatus | ''>('')
+  const [loading, setLoading] = useState(true)
+
+  const canManage = userData && (isAdmin(userData.role) || isSuperAdmin(userData.role))
+  // الوكيل يرى الأذون الواردة لمخزنه فقط ليؤكد استلامها
+  const agentWarehouseId = userData?.role === 'agent' ? userData.warehouseId : undefined
+  const basePath = canManage ? '/inventory/transfers' : '/agent/transfers'
+
+  useEffect(() => {
+    if (canManage || agentWarehouseId) {
+      TransferNoteService.getNotes(agentWarehouseId).then(result => {
+        setNotes(result)
+        setLoading(false)
+      })
+    }
+  }, [canManage, agentWarehouseId])
+
+  const visibleNotes = notes.filter(note => !statusFilter || note.status === statusFilter)
+  const inTransitCount = notes.filter(note => note.status !== 'received').length
+
+  if (!userData) {
+    return <LoadingSpinner text="جاري تحميل بيانات المستخدم..." />
+  }
+
+  if (!canManage && !agentWarehouseId) {
+    return (
+      <div className="text-center py-12">
+        <AlertCircle className="mx-auto h-12 w-12 text-red-500 mb-4" />
+        <h3 className="text-lg font-medium text-gray-900 mb-2 arabic-text">غير مصرح لك بالوصول</h3>
+        <p className="text-gray-500 arabic-text">أذون التحويل متاحة للمديرين والوكلاء المستلمين فقط</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-6 py-6">
+      {/* Page Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 arabic-text">أذون التحويل</h1>
+          <p className="text-gray-600 arabic-text">
+            {inTransitCount > 0 ? `${inTransitCount} إذن بانتظار تأكيد الاستلام` : 'لا توجد شحنات في الطريق'}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          {canManage && (
+            <Link to="/inventory/transfer">
+              <Button>
+                <ArrowRightLeft className="ml-2 h-4 w-4" />
+                تحويل جديد
+              </Button>
+            </Link>
+          )}
+          <Button variant="outline" onClick={() => navigate(canManage ? '/inventory' : '/agent/inventory')}>
+            <ArrowLeft className="ml-2 h-4 w-4" />
+            العودة للمخزون
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>الأذون</CardTitle>
+              <CardDescription>{visibleNotes.length} إذن</CardDescription>
+            </div>
+            <select
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value as TransferNoteStatus | '')}
+              className="form-input input-rtl arabic-text"
+            >
+              <option value="">كل الحالات</option>
+              {(Object.keys(transferNoteStatusLabels) as TransferNoteStatus[]).map(status => (
+                <option key={status} value={status}>{transferNoteStatusLabels[status]}</option>
+              ))}
+            </select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <LoadingSpinner text="جاري تحميل أذون التحويل..." />
+          ) : visibleNotes.length === 0 ? (
+            <div className="text-center py-8">
+              <ClipboardCheck className="mx-auto h-12 w-12 text-gray-400 mb-4" />
+              <p className="text-gray-500 arabic-text">لا توجد أذون تحويل</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-3 py-2 text-right">رقم الإذن</th>
+                    <th className="px-3 py-2 text-right">من</th>
+                    <th className="px-3 py-2 text-right">إلى</th>
+                    <th className="px-3 py-2 text-right">تاريخ الخروج</th>
+                    <th className="px-3 py-2 text-right">المستلم</th>
+                    <th className="px-3 py-2 text-right">الحالة</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y">
+                  {visibleNotes.map(note => (
+                    <tr key={note.id} className="hover:bg-gray-50">
+                      <td className="px-3 py-2 font-mono">
+                        <Link to={`${basePath}/${note.id}`} className="text-blue-600 hover:underline">
+                          {note.transferNoteNumber}
+                        </Link>
+                      </td>
+                      <td className="px-3 py-2">{note.fromWarehouseName}</td>
+                      <td className="px-3 py-2">{note.toWarehouseName}</td>
+                      <td className="px-3 py-2">{formatDate(note.dispatchedAt)}</td>
+                      <td className="px-3 py-2">
+                        {note.items.filter(item => item.outcome === 'received').length} / {note.items.length}
+                      </td>
+                      <td className="px-3 py-2">
+                        <span className={cn('inline-flex px-2 py-1 text-xs font-semibold rounded-full', transferNoteStatusColors[note.status])}>
+                          {transferNoteStatusLabels[note.status]}
+                        </span>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,471 @@
+import { useState } from 'react'
+import { Link, useNavigate } from 'react-router-dom'
+import { toast } from 'sonner'
+import {
+  AlertCircle,
+  ArrowLeft,
+  BookOpen,
+  Edit,
+  GitMerge,
+  Plus,
+  Power
+} from 'lucide-react'
+import { useAuthState } from 'react-firebase-hooks/auth'
+
+import { auth } from '@/firebase/firebase-config.template'
+import { Button } from '@/components/ui/Button'
+import { Input } from '@/components/ui/Input'
+import { Label } from '@/components/ui/Label'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/Card'
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner'
+import { useUserData } from '@/hooks/useUserData'
+import { useVehicleCatalog } from '@/hooks/useVehicleCatalog'
+import { CatalogBrand, CatalogModel, VehicleType } from '@/types'
+import { formatCurrency, isAdmin, isSuperAdmin, vehicleTypeTranslations } from '@/lib/utils'
+import { uploadToCloudinary, validateImageFile } from '@/lib/cloudinary'
+import { VehicleCatalogService } from '@/lib/vehicleCatalog'
+
+interface BrandForm {
+  id?: string
+  name: string
+  aliases: string
+  countryOfOrigin: string
+}
+
+interface ModelForm {
+  id?: string
+  brandId: string
+  name: string
+  aliases: string
+  type: VehicleType
+  engineCc: string
+  defaultPurchasePrice: string
+  defaultSalePrice: string
+  imageUrl: string
+  colors: string
+}
+
+// البدائل والألوان تكتب مفصولة بفواصل
+const splitList = (value: string) => value.split(/[,،]/).map(entry => entry.trim()).filter(Boolean)
+
+const emptyModel = (brandId: string): ModelForm => ({
+  brandId,
+  name: '',
+  aliases: '',
+  type: 'motorcycle',
+  engineCc: '',
+  defaultPurchasePrice: '',
+  defaultSalePrice: '',
+  imageUrl: '',
+  colors: ''
+})
+
+export function VehicleCatalogPage() {
+  const navigate = useNavigate()
+  const [user] = useAuthState(auth)
+  const { userData } = useUserData(user?.uid)
+  const { catalog, loading, reload } = useVehicleCatalog()
+  const [brandForm, setBrandForm] = useState<BrandForm | null>(null)
+  const [modelForm, setModelForm] = useState<ModelForm | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [uploading, setUploading] = useState(false)
+
+  const editBrand = (brand: CatalogBrand) => setBrandForm({
+    id: brand.id,
+    name: brand.name,
+    aliases: brand.aliases.join('، '),
+    countryOfOrigin: brand.countryOfOrigin || ''
+  })
+
+  const editModel = (model: CatalogModel) => setModelForm({
+    id: model.id,
+    brandId: model.brandId,
+    name: model.name,
+    aliases: model.aliases.join('، '),
+    type: model.type,
+    engineCc: model.engineCc ? String(model.engineCc) : '',
+    defaultPurchasePrice: model.defaultPurchasePrice ? String(model.defaultPurchasePrice) : '',
+    defaultSalePrice: model.defaultSalePrice ? String(model.defaultSalePrice) : '',
+    imageUrl: model.imageUrl || '',
+    colors: model.colors.join('، ')
+  })
+
+  const handleSaveBrand = async () => {
+    if (!brandForm) return
+
+    setSaving(true)
+    const result = await VehicleCatalogService.saveBrand(catalog, {
+      name: brandForm.name,
+      aliases: splitList(brandForm.aliases),
+      countryOfOrigin: brandForm.countryOfOrigin
+    }, brandForm.id)
+    setSaving(false)
+
+    if (result.success) {
+      toast.success('تم حفظ الماركة')
+      setBrandForm(null)
+      reload()
+    } else {
+      toast.error(result.error || 'فشل في حفظ الماركة')
+    }
+  }
+
+  const handleSaveModel = async () => {
+    if (!modelForm) return
+
+    setSaving(true)
+    const result = await VehicleCatalogService.saveModel(catalog, {
+      brandId: modelForm.brandId,
+      name: modelForm.name,
+      aliases: splitList(modelForm.aliases),
+      type: modelForm.type,
+      engineCc: parseFloat(modelForm.engineCc) || undefined,
+      defaultPurchasePrice: parseFloat(modelForm.defaultPurchasePrice) || undefined,
+      defaultSalePrice: parseFloat(modelForm.defaultSalePrice) || undefined,
+      imageUrl: modelForm.imageUrl,
+      colors: splitList(modelForm.colors)
+    }, modelForm.id)
+    setSaving(false)
+
+    if (result.success) {
+      toast.success('تم حفظ الموديل')
+      setModelForm(null)
+      reload()
+    } else {
+      toast.error(result.error || 'فشل في حفظ الموديل')
+    }
+  }
+
+  const handleToggle = async (kind: 'brand' | 'model', id: string, isActive: boolean) => {
+    const result = await VehicleCatalogService.setActive(kind, id, isActive)
+    if (result.success) {
+      reload()
+    } else {
+      toast.error(result.error || 'فشل في تحديث الكتالوج')
+    }
+  }
+
+  const handleImageUpload = async (file: File | undefined) => {
+    if (!file || !modelForm) return
+
+    const validation = validateImageFile(file)
+    if (!validation.valid) {
+      toast.error(validation.error || 'ملف الصورة غير صالح')
+      return
+    }
+
+    setUploading(true)
+    try {
+      const result = await uploadToCloudinary(file, { folder: 'catalog', tags: ['catalog', 'model'] })
+      setModelForm({ ...modelForm, imageUrl: result.secure_url })
+    } catch (error) {
+      console.error('Error uploading model image:', error)
+      toast.error('فشل في رفع صورة الموديل')
+    } finally {
+      setUploading(false)
+    }
+  }
+
+  if (!userData) {
+    return <LoadingSpinner text="جاري تحميل بيانات المستخدم..." />
+  }
+
+  if (!isAdmin(userData.role) && !isSuperAdmin(userData.role)) {
+    return (
+      <div className="text-center py-12">
+        <AlertCircle className="mx-auto h-12 w-12 text-red-500 mb-4" />
+        <h3 className="text-lg font-medium text-gray-900 mb-2 arabic-text">غير مصرح لك بالوصول</h3>
+        <p className="text-gray-500 arabic-text">إدارة كتالوج الموديلات متاحة للمديرين فقط</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-6 py-6">
+      {/* Page Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 arabic-text">كتالوج الموديلات</h1>
+          <p className="text-gray-600 arabic-text">الماركات والموديلات والألوان المعتمدة التي يختار منها إدخال المخزون والاستيراد</p>
+        </div>
+        <div className="flex gap-2">
+          <Button onClick={() => setBrandForm({ name: '', aliases: '', countryOfOrigin: '' })}>
+            <Plus className="ml-2 h-4 w-4" />
+            ماركة جديدة
+          </Button>
+          <Link to="/inventory/catalog/migrate">
+            <Button variant="outline">
+              <GitMerge className="ml-2 h-4 w-4" />
+              ربط الأصناف الحالية
+            </Button>
+          </Link>
+          <Button variant="outline" onClick={() => navigate('/inventory')}>
+            <ArrowLeft className="ml-2 h-4 w-4" />
+            العودة للمخزون
+          </Button>
+        </div>
+      </div>
+
+      {loading ? (
+        <LoadingSpinner text="جاري تحميل الكتالوج..." />
+      ) : catalog.brands.length === 0 ? (
+        <Card>
+          <CardContent className="text-center py-12">
+            <BookOpen className="mx-auto h-12 w-12 text-gray-400 mb-4" />
+            <p className="text-gray-600 arabic-text">لم تضف أي ماركة بعد، وحقول الماركة والموديل في نماذج المخزون نص حر حتى تضيفها</p>
+          </CardContent>
+        </Card>
+      ) : (
+        catalog.brands.map(brand => {
+          const models = catalog.models.filter(model => model.brandId === brand.id)
+          return (
+            <Card key={brand.id} className={brand.isActive ? '' : 'opacity-60'}>
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <div>
+                    <CardTitle>{brand.name} {!brand.isActive && <span className="text-sm text-gray-500">(موقوفة)</span>}</CardTitle>
+                    <CardDescription>
+                      {brand.countryOfOrigin && `${brand.countryOfOrigin} - `}
+                      {models.length} موديل
+                      {brand.aliases.length > 0 && ` - أسماء بديلة: ${brand.aliases.join('، ')}`}
+                    </CardDescription>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button size="sm" variant="outline" onClick={() => setModelForm(emptyModel(brand.id))}>
+                      <Plus className="ml-1 h-3 w-3" />
+                      موديل
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => editBrand(brand)}>
+                      <Edit className="h-3 w-3" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      title={brand.isActive ? 'إيقاف' : 'تفعيل'}
+                      onClick={() => handleToggle('brand', brand.id, !brand.isActive)}
+                    >
+                      <Power className="h-3 w-3" />
+                    </Button>
+                  </div>
+                </div>
+              </CardHeader>
+              {models.length > 0 && (
+                <CardContent>
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead className="bg-gray-50">
+                        <tr>
+                          <th className="px-3 py-2 text-right">الموديل</th>
+                          <th className="px-3 py-2 text-right">النوع</th>
+                          <th className="px-3 py-2 text-right">السعة</th>
+                          <th className="px-3 py-2 text-right">سعر الشراء</th>
+                          <th className="px-3 py-2 text-right">سعر البيع</th>
+                          <th className="px-3 py-2 text-right">الألوان</th>
+                          <th className="px-3 py-2 text-right">إجراءات</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y">
+                        {models.map(model => (
+                          <tr key={model.id} className={model.isActive ? '' : 'text-gray-400'}>
+                            <td className="px-3 py-2">
+                              <div className="flex items-center gap-2">
+                                {model.imageUrl && <img src={model.imageUrl} alt={model.name} className="h-8 w-8 rounded object-cover" />}
+                                <div>
+                                  <p className="font-medium">{model.name} {!model.isActive && '(موقوف)'}</p>
+                                  {model.aliases.length > 0 && <p className="text-xs text-gray-500">{model.aliases.join('، ')}</p>}
+                                </div>
+                              </div>
+                            </td>
+                            <td className="px-3 py-2">{vehicleTypeTranslations[model.type]}</td>
+                            <td className="px-3 py-2">{model.engineCc ? `${model.engineCc} cc` : '-'}</td>
+                            <td className="px-3 py-2">{model.defaultPurchasePrice ? formatCurrency(model.defaultPurchasePrice) : '-'}</td>
+                            <td className="px-3 py-2">{model.defaultSalePrice ? formatCurrency(model.defaultSalePrice) : '-'}</td>
+                            <td className="px-3 py-2">{model.colors.length > 0 ? model.colors.join('، ') : 'أي لون'}</td>
+                            <td className="px-3 py-2">
+                              <div className="flex gap-2">
+                                <Button size="sm" variant="outline" onClick={() => editModel(model)}>
+                                  <Edit className="h-3 w-3" />
+                                </Button>
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  title={model.isActive ? 'إيقاف' : 'تفعيل'}
+                                  onClick={() => handleToggle('model', model.id, !model.isActive)}
+                                >
+                                  <Power className="h-3 w-3" />
+                                </Button>
+                              </div>
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </CardContent>
+              )}
+            </Card>
+          )
+        })
+      )}
+
+      {/* Brand Modal */}
+      {brandForm && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg max-w-md w-full p-6 space-y-4">
+            <h3 className="text-lg font-medium text-gray-900 arabic-text">{brandForm.id ? 'تعديل الماركة' : 'ماركة جديدة'}</h3>
+            <div className="space-y-2">
+              <Label htmlFor="brandName" required>الاسم المعتمد</Label>
+              <Input
+                id="brandName"
+                value={brandForm.name}
+                onChange={(e) => setBrandForm({ ...brandForm, name: e.target.value })}
+                placeholder="مثال: هوندا"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="brandAliases">أسماء بديلة</Label>
+              <Input
+                id="brandAliases"
+                value={brandForm.aliases}
+                onChange={(e) => setBrandForm({ ...brandForm, aliases: e.target.value })}
+                placeholder="مثال: Honda، هوندة"
+              />
+              <p className="text-xs text-gray-500 arabic-text">تستخدم لمطابقة ملفات الاستيراد والأصناف القديمة، مفصولة بفواصل</p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="brandCountry">بلد المنشأ</Label>
+              <Input
+                id="brandCountry"
+                value={brandForm.countryOfOrigin}
+                onChange={(e) => setBrandForm({ ...brandForm, countryOfOrigin: e.target.value })}
+                placeholder="مثال: اليابان"
+              />
+            </div>
+            <div className="flex gap-2 justify-end">
+              <Button variant="outline" onClick={() => setBrandForm(null)}>إلغاء</Button>
+              <Button onClick={handleSaveBrand} loading={saving} disabled={!brandForm.name.trim()}>
+                حفظ
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Model Modal */}
+      {modelForm && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg max-w-lg w-full p-6 space-y-4 max-h-[90vh] overflow-y-auto">
+            <h3 className="text-lg font-medium text-gray-900 arabic-text">{modelForm.id ? 'تعديل الموديل' : 'موديل جديد'}</h3>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="modelBrand" required>الماركة</Label>
+                <select
+                  id="modelBrand"
+                  value={modelForm.brandId}
+                  onChange={(e) => setModelForm({ ...modelForm, brandId: e.target.value })}
+                  className="form-input w-full input-rtl arabic-text"
+                >
+                  {catalog.brands.map(brand => (
+                    <option key={brand.id} value={brand.id}>{brand.name}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="modelName" required>اسم الموديل</Label>
+                <Input
+                  id="modelName"
+                  value={modelForm.name}
+                  onChange={(e) => setModelForm({ ...modelForm, name: e.target.value })}
+                  placeholder="مثال: CBR 150"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="modelType" required>نوع المركبة</Label>
+                <select
+                  id="modelType"
+                  value={modelForm.type}
+                  onChange={(e) => setModelForm({ ...modelForm, type: e.target.value as VehicleType })}
+                  className="form-input w-full input-rtl arabic-text"
+                >
+                  {Object.entries(vehicleTypeTranslations).map(([key, value]) => (
+                    <option key={key} value={key}>{value}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="modelEngine">سعة المحرك (cc)</Label>
+                <Input
+                  id="modelEngine"
+                  type="number"
+                  min="0"
+                  value={modelForm.engineCc}
+                  onChange={(e) => setModelForm({ ...modelForm, engineCc: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="modelPurchasePrice">سعر الشراء الافتراضي</Label>
+                <Input
+                  id="modelPurchasePrice"
+                  type="number"
+                  min="0"
+                  value={modelForm.defaultPurchasePrice}
+                  onChange={(e) => setModelForm({ ...modelForm, defaultPurchasePrice: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="modelSalePrice">سعر البيع الافتراضي</Label>
+                <Input
+                  id="modelSalePrice"
+                  type="number"
+                  min="0"
+                  value={modelForm.defaultSalePrice}
+                  onChange={(e) => setModelForm({ ...modelForm, defaultSalePrice: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="modelAliases">أسماء بديلة</Label>
+              <Input
+                id="modelAliases"
+                value={modelForm.aliases}
+                onChange={(e) => setModelForm({ ...modelForm, aliases: e.target.value })}
+                placeholder="مثال: CBR150، سي بي ار 150"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="modelColors">الألوان المسموحة</Label>
+              <Input
+                id="modelColors"
+                value={modelForm.colors}
+                onChange={(e) => setModelForm({ ...modelForm, colors: e.target.value })}
+                placeholder="مثال: أحمر، أسود، أزرق"
+              />
+              <p className="text-xs text-gray-500 arabic-text">اتركها فارغة للسماح بأي لون</p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="modelImage">صورة الموديل</Label>
+              <div className="flex items-center gap-3">
+                {modelForm.imageUrl && <img src={modelForm.imageUrl} alt={modelForm.name} className="h-16 w-16 rounded border object-cover" />}
+                <input
+                  id="modelImage"
+                  type="file"
+                  accept="image/*"
+                  disabled={uploading}
+                  onChange={(e) => handleImageUpload(e.target.files?.[0])}
+                  className="text-sm"
+                />
+              </div>
+              {uploading && <p className="text-xs text-gray-500 arabic-text">جاري رفع الصورة...</p>}
+            </div>
+            <div className="flex gap-2 justify-end">
+              <Button variant="outline" onClick={() => setModelForm(null)}>إلغاء</Button>
+              <Button onClick={handleSaveModel} loading={saving} disabled={!modelForm.name.trim() || uploading}>
+                حفظ
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -5,10 +5,13 @@ import { toast } from 'sonner'
 import { 
   ArrowRightLeft, 
   ArrowLeft,
+  ClipboardCheck,
   Package,
+  AlertTriangle,
+  RotateCcw,
   Search
 } from 'lucide-react'
-import { collection, query, where, getDocs, addDoc, updateDoc, doc, getDoc, serverTimestamp } from 'firebase/firestore'
+import { collection, doc, getDoc, query, where, getDocs } from 'firebase/firestore'
 import { useAuthState } from 'react-firebase-hooks/auth'
 
 import { db, auth } from '@/firebase/firebase-config.template'
@@ -18,13 +21,17 @@ import { Label } from '@/components/ui/Label'
 import { useUserData } from '@/hooks/useUserData'
 import { LoadingSpinner } from '@/components/ui/LoadingSpinner'
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/Card'
-import { notificationSystem } from '@/lib/notificationSystem'
-import { Warehouse, InventoryItem } from '@/types'
-import { generateTransactionId, getErrorMessage } from '@/lib/utils'
+import { Agent, Warehouse, InventoryItem, AgentPricingRule } from '@/types'
+import { getErrorMessage, isSuperAdmin } from '@/lib/utils'
+import { TRANSFER_NOTE_MAX_ITEMS, TransferNoteService } from '@/lib/transferNotes'
+import { AgentPricingService, resolveTransferPricing, TransferItemPricing } from '@/lib/agentPricing'
+import { AgentCreditExposure, AgentCreditService, evaluateAgentCredit } from '@/lib/agentCredit'
 
 interface TransferFormData {
   fromWarehouseId: string
   toWarehouseId: string
+  driverName?: string
+  vehiclePlate?: string
   notes?: string
 }
 
@@ -36,7 +43,12 @@ export function WarehouseTransferPage() {
   const [warehouses, setWarehouses] = useState<Warehouse[]>([])
   const [inventoryItems, setInventoryItems] = useState<InventoryItem[]>([])
   const [selectedItems, setSelectedItems] = useState<InventoryItem[]>([])
-  const [itemCommissions, setItemCommissions] = useState<Record<string, number>>({})
+  const [itemPricing, setItemPricing] = useState<Record<string, TransferItemPricing>>({})
+  const [pricingRules, setPricingRules] = useState<AgentPricingRule[]>([])
+  const [agentName, setAgentName] = useState('')
+  const [creditAgent, setCreditAgent] = useState<Agent | null>(null)
+  const [creditExposure, setCreditExposure] = useState<AgentCreditExposure | null>(null)
+  const [overrideReason, setOverrideReason] = useState('')
   const [loading, setLoading] = useState(false)
   const [searchTerm, setSearchTerm] = useState('')
   const [selectedToWarehouse, setSelectedToWarehouse] = useState<Warehouse | null>(null)
@@ -44,7 +56,6 @@ export function WarehouseTransferPage() {
   const {
     register,
     handleSubmit,
-    setValue,
     watch,
     formState: { errors, isSubmitting }
   } = useForm<TransferFormData>()
@@ -62,6 +73,31 @@ export function WarehouseTransferPage() {
     }
   }, [fromWarehouseId])
 
+  // قواعد تسعير الوكيل تملأ سعر التحويل والعمولة، والأسعار المعدلة يدوياً لا تستبدل
+  useEffect(() => {
+    const agentId = selectedToWarehouse?.agentId
+    setOverrideReason('')
+    if (!agentId) {
+      setPricingRules([])
+      setAgentName('')
+      setCreditAgent(null)
+      setCreditExposure(null)
+      return
+    }
+    Promise.all([
+      AgentPricingService.getRules(agentId),
+      getDoc(doc(db, 'agents', agentId)),
+      AgentCreditService.getExposure(agentId)
+    ]).then(([rules, agentDoc, exposure]) => {
+      setPricingRules(rules)
+      setAgentName(agentDoc.exists() ? agentDoc.data().name : '')
+      setCreditAgent(agentDoc.exists() ? { id: agentDoc.id, ...agentDoc.data() } as Agent : null)
+      setCreditExposure(exposure)
+      setItemPricing(prev => Object.fromEntries(selectedItems.map(item => [item.id,
+        prev[item.id]?.overridden ? prev[item.id] : resolveTransferPricing(item, rules)])))
+    })
+  }, [selectedToWarehouse?.agentId])
+
   const loadWarehouses = async () => {
     try {
       // Load real warehouses from Firebase
@@ -113,105 +149,36 @@ export function WarehouseTransferPage() {
   const addItemToSelection = (item: InventoryItem) => {
     if (!selectedItems.find(selected => selected.id === item.id)) {
       setSelectedItems(prev => [...prev, item])
-      setItemCommissions(prev => ({ ...prev, [item.id]: 10 })) // Default 10% commission
+      setItemPricing(prev => ({ ...prev, [item.id]: resolveTransferPricing(item, pricingRules) }))
     }
   }
 
   const removeItemFromSelection = (itemId: string) => {
     setSelectedItems(prev => prev.filter(item => item.id !== itemId))
-    setItemCommissions(prev => {
-      const newCommissions = { ...prev }
-      delete newCommissions[itemId]
-      return newCommissions
+    setItemPricing(prev => {
+      const newPricing = { ...prev }
+      delete newPricing[itemId]
+      return newPricing
     })
   }
 
-  const updateItemCommission = (itemId: string, commission: number) => {
-    setItemCommissions(prev => ({ ...prev, [itemId]: commission }))
+  // التعديل اليدوي يسجل على الإذن كتجاوز للقاعدة
+  const overrideItemPricing = (itemId: string, changes: Partial<Pick<TransferItemPricing, 'transferPrice' | 'commissionPercentage'>>) => {
+    setItemPricing(prev => ({ ...prev, [itemId]: { ...prev[itemId], ...changes, overridden: true } }))
   }
 
-  const updateAgentDebt = async (agentId: string, amount: number, operation: 'increase' | 'decrease', description: string) => {
-    try {
-      console.log('updateAgentDebt called:', { agentId, amount, operation, description })
-      
-      // Ensure amount is a valid number
-      let amountNumber = Number(amount);
-      
-      // Ensure it's a valid number
-      if (isNaN(amountNumber)) {
-        console.error('Invalid amount:', amount)
-        throw new Error('قيمة المبلغ غير صالحة')
-      }
-      
-      // Round to 2 decimal places to avoid floating point issues
-      amountNumber = Math.round(amountNumber * 100) / 100;
-      
-      // Get agent details
-      const agentDoc = await getDoc(doc(db, 'agents', agentId))
-      if (!agentDoc.exists()) {
-        console.error('Agent not found:', agentId)
-        throw new Error('الوكيل غير موجود')
-      }
-
-      const agentData = agentDoc.data()
-      const currentBalance = Number(agentData.currentBalance) || 0
-      console.log('Current agent balance:', currentBalance)
-      
-      // Calculate new balance
-      // Positive balance = agent has credit (company owes agent)  
-      // Negative balance = agent has debt (agent owes company)
-      let newBalance: number
-      if (operation === 'increase') {
-        // Increase debt = agent owes more to company = make balance more negative
-        newBalance = currentBalance - amountNumber
-      } else {
-        // Decrease debt = agent owes less to company = make balance less negative (more positive)
-        newBalance = currentBalance + amountNumber
-      }
-      
-      console.log('Balance calculation:', {
-        currentBalance,
-        amountNumber,
-        operation,
-        calculatedNewBalance: newBalance
-      })
-      
-      // Round to 2 decimal places to avoid floating point issues
-      newBalance = Math.round(newBalance * 100) / 100;
-      
-      console.log('New agent balance:', newBalance)
-
-      // Update agent balance
-      await updateDoc(doc(db, 'agents', agentId), {
-        currentBalance: newBalance,
-        updatedAt: serverTimestamp()
-      })
-      console.log('Agent balance updated successfully')
-
-      // Create transaction record
-      const transactionId = generateTransactionId('agent_debt')
-      const transactionData = {
-        transactionId,
-        agentId,
-        type: operation === 'increase' ? 'debt_increase' : 'debt_decrease',
-        amount: operation === 'increase' ? -amountNumber : amountNumber, // Negative for debt increase
-        description,
-        previousBalance: currentBalance,
-        newBalance,
-        createdBy: userData?.id || 'system',
-        createdAt: serverTimestamp()
-      }
-      
-      console.log('Creating agent transaction:', transactionData)
-      await addDoc(collection(db, 'agent_transactions'), transactionData)
-      console.log('Agent transaction created successfully')
-      
-    } catch (error) {
-      console.error('Error updating agent debt:', error)
-      throw error
-    }
+  const resetItemPricing = (item: InventoryItem) => {
+    setItemPricing(prev => ({ ...prev, [item.id]: resolveTransferPricing(item, pricingRules) }))
   }
 
+  // حد الائتمان يقيم على إجمالي سعر التحويل كما هو معدل الآن
+  const transferTotal = selectedItems.reduce((sum, item) => sum + (itemPricing[item.id]?.transferPrice || 0), 0)
+  const creditCheck = selectedToWarehouse?.agentId && creditAgent && creditExposure
+    ? evaluateAgentCredit(creditAgent, creditExposure, transferTotal)
+    : null
+  const creditBlocked = creditCheck?.status === 'blocked'
+  const canOverrideCredit = !!userData && isSuperAdmin(userData.role)
+
   const onSubmit = async (data: TransferFormData) => {
     if (!userData) {
       toast.error('يرجى تسجيل الدخول أولاً')
@@ -228,115 +195,33 @@ export function WarehouseTransferPage() {
       return
     }
 
+    if (creditBlocked && (!canOverrideCredit || !overrideReason.trim())) {
+      toast.error(canOverrideCredit ? 'يرجى كتابة سبب تجاوز حد الائتمان' : 'التحويل يتجاوز حد ائتمان الوكيل ويحتاج موافقة المدير العام')
+      return
+    }
+
     try {
       setLoading(true)
-      
-      // Get source and target warehouse details
-      const sourceWarehouse = warehouses.find(w => w.id === data.fromWarehouseId)
-      const targetWarehouse = warehouses.find(w => w.id === data.toWarehouseId)
-      const isTransferringToAgent = targetWarehouse?.agentId
-      const isTransferringFromAgent = sourceWarehouse?.agentId
-      
-      let totalDebtChange = 0
-
-      // Process each selected item
-      for (const item of selectedItems) {
-        const commissionPercentage = itemCommissions[item.id] || 0
-        const itemPrice = Number(item.purchasePrice) || 0
-        totalDebtChange += itemPrice
-        
-        console.log('Processing item:', {
-          itemId: item.id,
-          purchasePrice: item.purchasePrice,
-          itemPrice,
-          totalDebtChange
-        })
-        
-        // Generate transaction ID
-        const transactionId = generateTransactionId('warehouse_transfer')
-        
-        // Create transfer record with commission percentage (not amount)
-        const transferData = {
-          transactionId,
-          fromWarehouseId: data.fromWarehouseId,
-          toWarehouseId: data.toWarehouseId,
-          inventoryItemId: item.id,
-          motorFingerprint: item.motorFingerprint,
-          chassisNumber: item.chassisNumber,
-          brand: item.brand,
-          model: item.model,
-          purchasePrice: item.purchasePrice,
-          agentCommissionPercentage: isTransferringToAgent ? commissionPercentage : 0,
-          notes: data.notes || '',
-          transferredBy: userData.id,
-          transferredAt: serverTimestamp(),
-          createdAt: serverTimestamp()
-        }
-        
-        await addDoc(collection(db, 'warehouse_transfers'), transferData)
-        console.log('Transfer record created for item:', item.id)
-        
-        // Update inventory item warehouse and commission percentage
-        const updateData: any = {
-          currentWarehouseId: data.toWarehouseId,
-          warehouseName: targetWarehouse?.name || 'غير محدد',
-          updatedAt: serverTimestamp()
-        }
-        
-        // If transferring to agent warehouse, save commission percentage
-        if (isTransferringToAgent) {
-          updateData.agentCommissionPercentage = commissionPercentage
-        }
-        
-        console.log('Updating inventory item:', item.id, 'with data:', updateData)
-        await updateDoc(doc(db, 'inventory_items', item.id), updateData)
-        console.log('Inventory item updated successfully')
-      }
 
-      // Update agent balance (debt) based on transfer direction
-      console.log('Transfer direction check:', {
-        isTransferringToAgent,
-        isTransferringFromAgent,
-        targetWarehouseAgentId: targetWarehouse?.agentId,
-        sourceWarehouseAgentId: sourceWarehouse?.agentId,
-        totalDebtChange
-      })
-      
-      // Handle debt updates for both agents if transferring between agent warehouses
-      if (isTransferringFromAgent && isTransferringToAgent && sourceWarehouse?.agentId && targetWarehouse?.agentId) {
-        // Transfer between two agents
-        console.log('Transferring between agents - updating both debts')
-        
-        // Decrease debt for source agent (they gave items)
-        await updateAgentDebt(sourceWarehouse.agentId, totalDebtChange, 'decrease', `تحويل ${selectedItems.length} موتوسيكل للوكيل ${targetWarehouse.name}`)
-        
-        // Increase debt for target agent (they received items)
-        await updateAgentDebt(targetWarehouse.agentId, totalDebtChange, 'increase', `استلام ${selectedItems.length} موتوسيكل من الوكيل ${sourceWarehouse.name}`)
-        
-        toast.success(`تم تحويل ${selectedItems.length} صنف بين الوكلاء وتحديث المديونيات`)
-      } else if (isTransferringToAgent && targetWarehouse?.agentId && !sourceWarehouse?.agentId) {
-        // Transferring TO agent from main warehouse - INCREASE debt (agent owes more to company)
-        console.log('Updating agent debt - increase for agent:', targetWarehouse.agentId, 'amount:', totalDebtChange)
-        await updateAgentDebt(targetWarehouse.agentId, totalDebtChange, 'increase', `استلام ${selectedItems.length} موتوسيكل من الشركة`)
-        console.log('Agent debt updated successfully')
-        toast.success(`تم تحويل ${selectedItems.length} صنف للوكيل وإضافة ${Math.round(totalDebtChange).toLocaleString()} جنيه للمديونية`)
-      } else if (isTransferringFromAgent && sourceWarehouse?.agentId && !targetWarehouse?.agentId) {
-        // Transferring FROM agent to main warehouse - DECREASE debt (agent owes less to company)
-        console.log('Updating agent debt - decrease for agent:', sourceWarehouse.agentId)
-        await updateAgentDebt(sourceWarehouse.agentId, totalDebtChange, 'decrease', `سحب ${selectedItems.length} موتوسيكل من الوكيل`)
-        toast.success(`تم سحب ${selectedItems.length} صنف من الوكيل وتقليل المديونية بـ ${Math.round(totalDebtChange).toLocaleString()} جنيه`)
-      } else {
-        console.log('No agent debt update needed - transfer between main warehouses')
-        toast.success(`تم تحويل ${selectedItems.length} صنف بنجاح`)
+      // الوحدات تخرج في الطريق، ونقلها ومديونية الوكيل تقيد عند تأكيد الاستلام
+      const result = await TransferNoteService.dispatch({
+        fromWarehouseId: data.fromWarehouseId,
+        toWarehouseId: data.toWarehouseId,
+        itemIds: selectedItems.map(item => item.id),
+        pricing: itemPricing,
+        driverName: data.driverName,
+        vehiclePlate: data.vehiclePlate,
+        notes: data.notes,
+        ...(creditBlocked ? { creditOverride: { reason: overrideReason } } : {})
+      }, { id: userData.id, name: userData.displayName, role: userData.role })
+
+      if (!result.success) {
+        toast.error(result.error || 'فشل في إصدار إذن التحويل')
+        return
       }
-      
-      // Reset form
-      setSelectedItems([])
-      setItemCommissions({})
-      setValue('fromWarehouseId', '')
-      setValue('toWarehouseId', '')
-      setValue('notes', '')
-      setSelectedToWarehouse(null)
+
+      toast.success(`تم إصدار إذن التحويل ${result.number} بـ ${selectedItems.length} صنف في الطريق`)
+      navigate(`/inventory/transfers/${result.id}`)
     } catch (error) {
       console.error('Error transferring items:', error)
       toast.error(getErrorMessage(error))
@@ -355,12 +240,18 @@ export function WarehouseTransferPage() {
       <div className="flex items-center justify-between">
         <div>
           <h1 className="text-2xl font-bold text-gray-900 arabic-text">تحويل بين المخازن</h1>
-          <p className="text-gray-600 arabic-text">نقل الأصناف بين المخازن المختلفة</p>
+          <p className="text-gray-600 arabic-text">الأصناف تخرج في الطريق وتنتقل للمخزن الهدف بعد تأكيد استلامها</p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => navigate('/inventory/transfers')}>
+            <ClipboardCheck className="ml-2 h-4 w-4" />
+            أذون التحويل
+          </Button>
+          <Button variant="outline" onClick={() => navigate('/inventory')}>
+            <ArrowLeft className="ml-2 h-4 w-4" />
+            العودة للمخزون
+          </Button>
         </div>
-        <Button variant="outline" onClick={() => navigate('/inventory')}>
-          <ArrowLeft className="ml-2 h-4 w-4" />
-          العودة للمخزون
-        </Button>
       </div>
 
       <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
@@ -405,6 +296,7 @@ export function WarehouseTransferPage() {
                   className="form-input w-full input-rtl arabic-text"
                   id="toWarehouseId"
                   onChange={(e) => {
+                    register('toWarehouseId').onChange(e)
                     const warehouseId = e.target.value
                     const warehouse = warehouses.find(w => w.id === warehouseId)
                     setSelectedToWarehouse(warehouse || null)
@@ -519,79 +411,143 @@ export function WarehouseTransferPage() {
           </Card>
         )}
 
-        {/* Selected Items with Commission */}
+        {/* Selected Items with Transfer Pricing */}
         {selectedItems.length > 0 && (
           <Card>
             <CardHeader>
-              <CardTitle>الأصناف المحددة ونسبة عمولة الوكيل</CardTitle>
+              <CardTitle>الأصناف المحددة وتسعير التحويل</CardTitle>
               <CardDescription>
-                {selectedToWarehouse?.agentId 
-                  ? 'حدد نسبة عمولة الوكيل من الربح لكل صنف (سيتم الحساب عند البيع الفعلي)'
+                {selectedToWarehouse?.agentId
+                  ? pricingRules.length > 0
+                    ? `الأسعار والعمولات محسوبة من قواعد تسعير ${agentName || 'الوكيل'}، ويمكن تعديلها لكل صنف`
+                    : `لا توجد قواعد تسعير لـ ${agentName || 'الوكيل'}، السعر المقترح هو سعر التكلفة`
                   : 'الأصناف المحددة للتحويل'
                 }
               </CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
-              {selectedItems.map((item) => (
-                <div key={item.id} className="p-4 border rounded-lg bg-blue-50">
-                  <div className="flex justify-between items-start gap-4">
-                    <div className="flex-1">
-                      <h4 className="font-medium arabic-text">{item.brand} {item.model}</h4>
-                      <p className="text-sm text-gray-600 arabic-text">
-                        بصمة الموتور: {item.motorFingerprint}
-                      </p>
-                      <div className="grid grid-cols-2 gap-2 text-xs text-gray-500 mt-1">
-                        <span>سعر الشراء: {Math.round(item.purchasePrice).toLocaleString()} جنيه</span>
-                        <span>سعر البيع المتوقع: {item.salePrice ? Math.round(item.salePrice).toLocaleString() : 'غير محدد'} جنيه</span>
+              {selectedItems.map((item) => {
+                const pricing = itemPricing[item.id]
+                return (
+                  <div key={item.id} className="p-4 border rounded-lg bg-blue-50">
+                    <div className="flex justify-between items-start gap-4">
+                      <div className="flex-1">
+                        <h4 className="font-medium arabic-text">{item.brand} {item.model}</h4>
+                        <p className="text-sm text-gray-600 arabic-text">
+                          بصمة الموتور: {item.motorFingerprint}
+                        </p>
+                        <div className="grid grid-cols-2 gap-2 text-xs text-gray-500 mt-1">
+                          <span>سعر الشراء: {Math.round(item.purchasePrice).toLocaleString()} جنيه</span>
+                          <span>سعر البيع المتوقع: {item.salePrice ? Math.round(item.salePrice).toLocaleString() : 'غير محدد'} جنيه</span>
+                        </div>
+                        {selectedToWarehouse?.agentId && pricing && (
+                          <div className={`text-xs mt-1 ${pricing.overridden ? 'text-orange-600' : 'text-blue-600'}`}>
+                            {pricing.overridden ? `معدل يدوياً (القاعدة: ${pricing.ruleLabel})` : pricing.ruleLabel}
+                          </div>
+                        )}
                       </div>
-                      {item.salePrice && (
-                        <div className="text-xs text-blue-600 mt-1">
-                          الربح المتوقع: {Math.round(item.salePrice - item.purchasePrice).toLocaleString()} جنيه
+
+                      {selectedToWarehouse?.agentId && pricing && (
+                        <div className="w-64 grid grid-cols-2 gap-2">
+                          <div>
+                            <Label className="text-sm">سعر التحويل</Label>
+                            <Input
+                              type="number"
+                              min="0"
+                              step="0.01"
+                              value={pricing.transferPrice}
+                              onChange={(e) => overrideItemPricing(item.id, { transferPrice: Number(e.target.value) })}
+                              className="input-rtl"
+                            />
+                          </div>
+                          <div>
+                            <Label className="text-sm">العمولة (%)</Label>
+                            <Input
+                              type="number"
+                              min="0"
+                              max="100"
+                              step="0.1"
+                              value={pricing.commissionPercentage}
+                              onChange={(e) => overrideItemPricing(item.id, { commissionPercentage: Number(e.target.value) })}
+                              className="input-rtl"
+                            />
+                          </div>
+                          {item.salePrice > 0 && (
+                            <div className="col-span-2 text-xs text-gray-600">
+                              عمولة متوقعة: {Math.round(((item.salePrice - item.purchasePrice) * pricing.commissionPercentage) / 100).toLocaleString()} جنيه
+                            </div>
+                          )}
                         </div>
                       )}
-                    </div>
-                    
-                    {selectedToWarehouse?.agentId && (
-                      <div className="w-48">
-                        <Label className="text-sm">نسبة العمولة من الربح (%)</Label>
-                        <Input
-                          type="number"
-                          min="0"
-                          max="100"
-                          step="0.1"
-                          value={itemCommissions[item.id] || 10}
-                          onChange={(e) => updateItemCommission(item.id, Number(e.target.value))}
-                          className="input-rtl"
-                          placeholder="10"
-                        />
-                        {item.salePrice && itemCommissions[item.id] > 0 && (
-                          <div className="text-xs text-gray-600 mt-1">
-                            عمولة متوقعة: {Math.round(((item.salePrice - item.purchasePrice) * itemCommissions[item.id]) / 100).toLocaleString()} جنيه
-                          </div>
+
+                      <div className="flex flex-col gap-1">
+                        {pricing?.overridden && (
+                          <Button
+                            type="button"
+                            size="sm"
+                            variant="outline"
+                            onClick={() => resetItemPricing(item)}
+                            title="استعادة سعر القاعدة"
+                          >
+                            <RotateCcw className="h-4 w-4" />
+                          </Button>
                         )}
+                        <Button
+                          type="button"
+                          size="sm"
+                          variant="outline"
+                          onClick={() => removeItemFromSelection(item.id)}
+                        >
+                          إزالة
+                        </Button>
                       </div>
-                    )}
-                    
-                    <Button
-                      type="button"
-                      size="sm"
-                      variant="outline"
-                      onClick={() => removeItemFromSelection(item.id)}
-                    >
-                      إزالة
-                    </Button>
+                    </div>
                   </div>
-                </div>
-              ))}
-              
+                )
+              })}
+
               {selectedToWarehouse?.agentId && (
                 <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-lg">
                   <p className="text-sm font-medium text-yellow-800">
-                    💡 <strong>ملاحظة:</strong> العمولة ستحسب عند البيع الفعلي بناءً على سعر البيع النهائي والنسبة المحددة
+                    💡 <strong>ملاحظة:</strong> سعر التحويل يقيد على مديونية الوكيل عند تأكيد الاستلام، والعمولة تحسب عند البيع الفعلي
                   </p>
                   <p className="text-xs text-yellow-700 mt-1">
-                    متوسط نسبة العمولة: {selectedItems.length > 0 ? (Object.values(itemCommissions).reduce((sum, commission) => sum + commission, 0) / selectedItems.length).toFixed(1) : 0}%
+                    إجمالي سعر التحويل: {Math.round(transferTotal).toLocaleString()} جنيه
+                  </p>
+                </div>
+              )}
+
+              {creditCheck && creditCheck.status !== 'ok' && (
+                <div className={`p-3 border rounded-lg ${creditBlocked ? 'bg-red-50 border-red-200' : 'bg-orange-50 border-orange-200'}`}>
+                  <p className={`text-sm font-medium flex items-center gap-2 ${creditBlocked ? 'text-red-800' : 'text-orange-800'}`}>
+                    <AlertTriangle className="h-4 w-4" />
+                    {creditBlocked ? 'التحويل يتجاوز حد ائتمان الوكيل' : 'الوكيل قريب من حد الائتمان'}
                   </p>
+                  <ul className={`text-xs mt-1 space-y-1 ${creditBlocked ? 'text-red-700' : 'text-orange-700'}`}>
+                    {[...creditCheck.blockReasons, ...creditCheck.warnings].map(reason => (
+                      <li key={reason}>{reason}</li>
+                    ))}
+                  </ul>
+                  {creditCheck.pendingDebt > 0 && (
+                    <p className="text-xs text-gray-600 mt-1">
+                      تشمل {Math.round(creditCheck.pendingDebt).toLocaleString()} جنيه في أذون لم يؤكد استلامها
+                    </p>
+                  )}
+                  {creditBlocked && (canOverrideCredit ? (
+                    <div className="space-y-1 mt-3">
+                      <Label htmlFor="overrideReason" required>سبب تجاوز الحد</Label>
+                      <textarea
+                        id="overrideReason"
+                        rows={2}
+                        value={overrideReason}
+                        onChange={(e) => setOverrideReason(e.target.value)}
+                        className="form-input w-full input-rtl arabic-text"
+                        placeholder="يسجل التجاوز باسمك على إذن التحويل"
+                      />
+                    </div>
+                  ) : (
+                    <p className="text-xs text-red-700 mt-2">لا يمكن إصدار الإذن إلا بتجاوز من المدير العام</p>
+                  ))}
                 </div>
               )}
             </CardContent>
@@ -602,10 +558,20 @@ export function WarehouseTransferPage() {
         {selectedItems.length > 0 && (
           <Card>
             <CardHeader>
-              <CardTitle>ملاحظات التحويل</CardTitle>
-              <CardDescription>معلومات إضافية عن عملية التحويل (اختياري)</CardDescription>
+              <CardTitle>بيانات النقل والملاحظات</CardTitle>
+              <CardDescription>تطبع على بيان الشحنة الذي يسلم للسائق (اختياري)</CardDescription>
             </CardHeader>
-            <CardContent>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="driverName">اسم السائق</Label>
+                  <Input {...register('driverName')} id="driverName" />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="vehiclePlate">رقم السيارة</Label>
+                  <Input {...register('vehiclePlate')} id="vehiclePlate" />
+                </div>
+              </div>
               <div className="space-y-2">
                 <Label htmlFor="notes">الملاحظات</Label>
                 <textarea
@@ -632,10 +598,11 @@ export function WarehouseTransferPage() {
           <Button
             type="submit"
             loading={loading}
-            disabled={selectedItems.length === 0 || !fromWarehouseId || !toWarehouseId || isSubmitting}
+            disabled={selectedItems.length === 0 || selectedItems.length > TRANSFER_NOTE_MAX_ITEMS || !fromWarehouseId || !toWarehouseId || isSubmitting
+              || (creditBlocked && (!canOverrideCredit || !overrideReason.trim()))}
           >
             <ArrowRightLeft className="ml-2 h-4 w-4" />
-            تحويل {selectedItems.length > 0 ? `${selectedItems.length} صنف` : 'الأصناف'}
+            إصدار إذن تحويل {selectedItems.length > 0 ? `بـ ${selectedItems.length} صنف` : ''}
           </Button>
         </div>
       </form>
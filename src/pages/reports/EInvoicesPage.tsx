@@ -0,0 +1,356 @@
+import { useState, useEffect, useMemo } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { format, startOfMonth } from 'date-fns'
+import { toast } from 'sonner'
+import { AlertCircle, ArrowLeft, CheckCircle, Download, FileCode, RefreshCw, Send, XCircle } from 'lucide-react'
+import { useAuthState } from 'react-firebase-hooks/auth'
+
+import { auth } from '@/firebase/firebase-config.template'
+import { Button } from '@/components/ui/Button'
+import { Input } from '@/components/ui/Input'
+import { Label } from '@/components/ui/Label'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card'
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner'
+import { useUserData } from '@/hooks/useUserData'
+import {
+  EtaDocument,
+  EtaInvoiceService,
+  EtaInvoiceSource,
+  EtaIssuer,
+  buildEtaDocument,
+  canonicalizeEtaDocument,
+  validateEtaDocument
+} from '@/lib/etaInvoice'
+import {
+  EtaSubmissionClient,
+  EtaSubmissionService,
+  ETA_MAX_DOCUMENTS_PER_SUBMISSION,
+  ETA_SIGNER_REQUIRED_ERROR
+} from '@/lib/etaSubmission'
+import { downloadFile, formatCurrency, formatDate, isAdmin, isSuperAdmin } from '@/lib/utils'
+
+interface PreparedInvoice {
+  source: EtaInvoiceSource
+  document: EtaDocument
+  errors: string[]
+}
+
+export default function EInvoicesPage() {
+  const [user] = useAuthState(auth)
+  const { userData } = useUserData(user?.uid)
+  const navigate = useNavigate()
+
+  const [dateFrom, setDateFrom] = useState(format(startOfMonth(new Date()), 'yyyy-MM-dd'))
+  const [dateTo, setDateTo] = useState(format(new Date(), 'yyyy-MM-dd'))
+  const [issuer, setIssuer] = useState<EtaIssuer | null>(null)
+  const [sources, setSources] = useState<EtaInvoiceSource[]>([])
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const [client, setClient] = useState<EtaSubmissionClient | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [submitting, setSubmitting] = useState(false)
+
+  const canAccessReports = userData && (isSuperAdmin(userData.role) || isAdmin(userData.role))
+
+  useEffect(() => {
+    if (canAccessReports) {
+      EtaSubmissionService.createDefaultClient().then(setClient)
+      loadInvoices()
+    }
+  }, [canAccessReports])
+
+  const loadInvoices = async () => {
+    try {
+      setLoading(true)
+      const [issuerData, invoiceSources] = await Promise.all([
+        EtaInvoiceService.getIssuer(),
+        EtaInvoiceService.getInvoiceSources(
+          new Date(`${dateFrom}T00:00:00`),
+          new Date(`${dateTo}T23:59:59`)
+        )
+      ])
+      setIssuer(issuerData)
+      setSources(invoiceSources)
+      setSelected(new Set())
+    } catch (error) {
+      console.error('Error loading e-invoices:', error)
+      toast.error('فشل في تحميل الفواتير')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const invoices: PreparedInvoice[] = useMemo(() => {
+    if (!issuer) return []
+    return sources.map(source => {
+      const document = buildEtaDocument(source, issuer)
+      return { source, document, errors: validateEtaDocument(document) }
+    })
+  }, [sources, issuer])
+
+  const selectedInvoices = invoices.filter(invoice => selected.has(invoice.source.key))
+  const validCount = invoices.filter(invoice => invoice.errors.length === 0).length
+  // لا توجد أداة توقيع مربوطة بالتطبيق، فالإصدار 1.0 لا يرسل من هنا
+  const signerMissing = issuer?.settings.documentTypeVersion === '1.0'
+
+  const toggleSelected = (key: string) => {
+    setSelected(prev => {
+      const next = new Set(prev)
+      if (next.has(key)) {
+        next.delete(key)
+      } else {
+        next.add(key)
+      }
+      return next
+    })
+  }
+
+  const toggleAll = () => {
+    setSelected(selected.size === invoices.length ? new Set() : new Set(invoices.map(invoice => invoice.source.key)))
+  }
+
+  const downloadJson = (data: unknown, filename: string) => {
+    downloadFile(new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' }), filename)
+  }
+
+  const handleDownloadDocument = (invoice: PreparedInvoice) => {
+    downloadJson(invoice.document, `eta-${invoice.source.internalId}.json`)
+  }
+
+  const handleDownloadCanonical = (invoice: PreparedInvoice) => {
+    downloadFile(
+      new Blob([canonicalizeEtaDocument(invoice.document)], { type: 'text/plain;charset=utf-8' }),
+      `eta-${invoice.source.internalId}.canonical.txt`
+    )
+  }
+
+  const handleDownloadBatch = () => {
+    const batch = selectedInvoices.length > 0 ? selectedInvoices : invoices
+    const invalid = batch.filter(invoice => invoice.errors.length > 0)
+    if (invalid.length > 0) {
+      toast.error(`توجد ${invalid.length} فاتورة لا تطابق المخطط، قم بتصحيحها أو استبعادها من التحديد`)
+      return
+    }
+
+    downloadJson(
+      { documents: batch.map(invoice => invoice.document) },
+      `eta-documents-${dateFrom}-${dateTo}.json`
+    )
+  }
+
+  const handleSubmit = async () => {
+    if (!userData || !client || selectedInvoices.length === 0) return
+    if (signerMissing) {
+      toast.error(ETA_SIGNER_REQUIRED_ERROR)
+      return
+    }
+    if (!confirm(`إرسال ${selectedInvoices.length} فاتورة إلى منظومة الفاتورة الإلكترونية؟`)) return
+
+    setSubmitting(true)
+    const result = await EtaSubmissionService.submit(
+      selectedInvoices.map(invoice => invoice.source),
+      client,
+      userData.id
+    )
+    setSubmitting(false)
+
+    if (result.error) {
+      toast.error(result.error)
+      result.rejected.forEach(rejected => toast.error(`${rejected.internalId}: ${rejected.error}`))
+      return
+    }
+
+    if (result.rejected.length > 0) {
+      toast.warning(`تم قبول ${result.accepted} فاتورة ورفض ${result.rejected.length}`)
+    } else {
+      toast.success(`تم إرسال ${result.accepted} فاتورة بنجاح`)
+    }
+    await loadInvoices()
+  }
+
+  if (!userData) {
+    return <LoadingSpinner text="جاري تحميل بيانات المستخدم..." />
+  }
+
+  if (!canAccessReports) {
+    return (
+      <div className="text-center py-12">
+        <AlertCircle className="h-12 w-12 text-red-500 mx-auto mb-4" />
+        <h2 className="text-xl font-bold text-gray-900 mb-2 arabic-text">
+          غير مصرح لك بالوصول
+        </h2>
+        <p className="text-gray-600 arabic-text">
+          ليس لديك صلاحية للوصول للفواتير الإلكترونية
+        </p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Page Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 arabic-text">الفاتورة الإلكترونية</h1>
+          <p className="text-gray-600 arabic-text">تصدير فواتير البيع بصيغة منظومة مصلحة الضرائب المصرية والتحقق منها قبل الإرسال</p>
+        </div>
+        <Button variant="outline" onClick={() => navigate('/reports')}>
+          <ArrowLeft className="ml-2 h-4 w-4" />
+          التقارير
+        </Button>
+      </div>
+
+      {/* Filters */}
+      <Card>
+        <CardContent className="p-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+            <div className="space-y-2">
+              <Label htmlFor="etaDateFrom">من تاريخ</Label>
+              <Input id="etaDateFrom" type="date" value={dateFrom} onChange={(e) => setDateFrom(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="etaDateTo">إلى تاريخ</Label>
+              <Input id="etaDateTo" type="date" value={dateTo} onChange={(e) => setDateTo(e.target.value)} />
+            </div>
+            <Button onClick={loadInvoices} loading={loading}>
+              <RefreshCw className="ml-2 h-4 w-4" />
+              عرض الفواتير
+            </Button>
+          </div>
+
+          {issuer && !issuer.taxNumber && (
+            <p className="mt-4 text-sm text-red-600 arabic-text">
+              لم يتم تسجيل رقم التسجيل الضريبي للمؤسسة في الإعدادات، ولن تقبل المنظومة أي مستند بدونه
+            </p>
+          )}
+          {signerMissing && (
+            <p className="mt-2 text-sm text-red-600 arabic-text">
+              {ETA_SIGNER_REQUIRED_ERROR}
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Invoices */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle className="flex items-center gap-2 arabic-text">
+              <FileCode className="h-5 w-5" />
+              الفواتير ({invoices.length}) - صالحة {validCount}
+            </CardTitle>
+            <div className="flex items-center gap-2">
+              <Button variant="outline" size="sm" onClick={handleDownloadBatch} disabled={invoices.length === 0}>
+                <Download className="ml-1 h-4 w-4" />
+                {selectedInvoices.length > 0 ? `تصدير المحدد (${selectedInvoices.length})` : 'تصدير الكل'}
+              </Button>
+              {client && (
+                <Button
+                  size="sm"
+                  onClick={handleSubmit}
+                  loading={submitting}
+                  disabled={signerMissing || selectedInvoices.length === 0 || selectedInvoices.length > ETA_MAX_DOCUMENTS_PER_SUBMISSION}
+                >
+                  <Send className="ml-1 h-4 w-4" />
+                  إرسال للمنظومة
+                </Button>
+              )}
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <LoadingSpinner text="جاري تجهيز الفواتير..." />
+          ) : invoices.length === 0 ? (
+            <p className="text-center text-gray-500 arabic-text py-6">لا توجد فواتير في الفترة المحددة</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b bg-gray-50">
+                    <th className="p-2">
+                      <input type="checkbox" checked={selected.size === invoices.length} onChange={toggleAll} />
+                    </th>
+                    <th className="p-2 text-right arabic-text">رقم الفاتورة</th>
+                    <th className="p-2 text-right arabic-text">النوع</th>
+                    <th className="p-2 text-right arabic-text">التاريخ</th>
+                    <th className="p-2 text-right arabic-text">العميل</th>
+                    <th className="p-2 text-right arabic-text">الأصناف</th>
+                    <th className="p-2 text-right arabic-text">الصافي</th>
+                    <th className="p-2 text-right arabic-text">الضريبة</th>
+                    <th className="p-2 text-right arabic-text">الإجمالي</th>
+                    <th className="p-2 text-right arabic-text">التحقق</th>
+                    <th className="p-2 text-right arabic-text">المنظومة</th>
+                    <th className="p-2"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {invoices.map(invoice => (
+                    <tr key={invoice.source.key} className="border-b align-top">
+                      <td className="p-2">
+                        <input
+                          type="checkbox"
+                          checked={selected.has(invoice.source.key)}
+                          onChange={() => toggleSelected(invoice.source.key)}
+                        />
+                      </td>
+                      <td className="p-2 font-mono">{invoice.source.internalId}</td>
+                      <td className="p-2 arabic-text">
+                        {invoice.source.saleSource === 'company_sale' ? 'مبيعات المؤسسة' : 'مبيعات وكيل'}
+                      </td>
+                      <td className="p-2">{formatDate(invoice.source.issuedAt)}</td>
+                      <td className="p-2 arabic-text">{invoice.source.customerName}</td>
+                      <td className="p-2">{invoice.document.invoiceLines.length}</td>
+                      <td className="p-2">{formatCurrency(invoice.document.netAmount)}</td>
+                      <td className="p-2">{formatCurrency(invoice.document.taxTotals.reduce((sum, tax) => sum + tax.amount, 0))}</td>
+                      <td className="p-2 font-bold">{formatCurrency(invoice.document.totalAmount)}</td>
+                      <td className="p-2">
+                        {invoice.errors.length === 0 ? (
+                          <span className="flex items-center gap-1 text-green-700">
+                            <CheckCircle className="h-4 w-4" />
+                            صالحة
+                          </span>
+                        ) : (
+                          <div className="text-red-600">
+                            <span className="flex items-center gap-1">
+                              <XCircle className="h-4 w-4" />
+                              {invoice.errors.length} خطأ
+                            </span>
+                            <ul className="text-xs mt-1 space-y-0.5">
+                              {invoice.errors.map(error => <li key={error}>{error}</li>)}
+                            </ul>
+                          </div>
+                        )}
+                      </td>
+                      <td className="p-2">
+                        {invoice.source.eta ? (
+                          <span
+                            className={`px-2 py-1 rounded text-xs ${invoice.source.eta.status === 'submitted' ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'}`}
+                            title={invoice.source.eta.uuid || invoice.source.eta.error}
+                          >
+                            {invoice.source.eta.status === 'submitted' ? 'مرسلة' : 'مرفوضة'}
+                          </span>
+                        ) : (
+                          <span className="px-2 py-1 rounded text-xs bg-gray-100 text-gray-800">لم ترسل</span>
+                        )}
+                      </td>
+                      <td className="p-2">
+                        <div className="flex items-center gap-1">
+                          <Button variant="ghost" size="sm" onClick={() => handleDownloadDocument(invoice)} title="تنزيل JSON">
+                            <Download className="h-4 w-4" />
+                          </Button>
+                          <Button variant="ghost" size="sm" onClick={() => handleDownloadCanonical(invoice)} title="تنزيل الصيغة الموحدة للتوقيع">
+                            <FileCode className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,346 @@
+import { useState, useEffect, useRef } from 'react'
+import { Link, useNavigate } from 'react-router-dom'
+import { toast } from 'sonner'
+import { AlertCircle, ArrowLeft, Bell, Hourglass, Printer, RefreshCw } from 'lucide-react'
+import { useAuthState } from 'react-firebase-hooks/auth'
+
+import { auth } from '@/firebase/firebase-config.template'
+import { Button } from '@/components/ui/Button'
+import { Input } from '@/components/ui/Input'
+import { Label } from '@/components/ui/Label'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/Card'
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner'
+import { useUserData } from '@/hooks/useUserData'
+import { formatCurrency, formatDate, isAdmin, isSuperAdmin, printElement } from '@/lib/utils'
+import {
+  AgingBasis,
+  AgingGroupBy,
+  AgingItem,
+  agingBasisLabels,
+  agingBucketLabels,
+  agingBuckets,
+  agingDays,
+  agingGroupByLabels,
+  getAgingBucket,
+  groupAging,
+  InventoryAgingService
+} from '@/lib/inventoryAging'
+
+const bucketColors = {
+  '0_30': 'text-green-700 bg-green-50',
+  '31_60': 'text-yellow-700 bg-yellow-50',
+  '61_90': 'text-orange-700 bg-orange-50',
+  '90_plus': 'text-red-700 bg-red-50'
+}
+
+export default function InventoryAgingPage() {
+  const [user] = useAuthState(auth)
+  const { userData } = useUserData(user?.uid)
+  const navigate = useNavigate()
+  const reportRef = useRef<HTMLDivElement>(null)
+
+  const [rows, setRows] = useState<AgingItem[]>([])
+  const [basis, setBasis] = useState<AgingBasis>('location')
+  const [groupBy, setGroupBy] = useState<AgingGroupBy>('warehouse')
+  const [loading, setLoading] = useState(false)
+
+  const [alertEnabled, setAlertEnabled] = useState(true)
+  const [thresholdDays, setThresholdDays] = useState('90')
+  const [savingSettings, setSavingSettings] = useState(false)
+
+  const canAccessReports = userData && (isSuperAdmin(userData.role) || isAdmin(userData.role))
+
+  useEffect(() => {
+    if (canAccessReports) {
+      loadReport()
+      InventoryAgingService.getAlertSettings().then(settings => {
+        setAlertEnabled(settings.enabled)
+        setThresholdDays(String(settings.thresholdDays))
+      })
+    }
+  }, [canAccessReports])
+
+  const loadReport = async () => {
+    try {
+      setLoading(true)
+      setRows(await InventoryAgingService.getAgingItems())
+    } catch (error) {
+      console.error('Error loading inventory aging:', error)
+      toast.error('فشل في تحميل تقرير أعمار المخزون')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleSaveSettings = async () => {
+    if (!userData) return
+
+    setSavingSettings(true)
+    const result = await InventoryAgingService.saveAlertSettings(alertEnabled, parseInt(thresholdDays), userData.id)
+    setSavingSettings(false)
+
+    if (result.success) {
+      toast.success('تم حفظ إعدادات تنبيه الأصناف الراكدة')
+    } else {
+      toast.error(result.error || 'فشل في حفظ إعدادات التنبيه')
+    }
+  }
+
+  const groups = groupAging(rows, groupBy, basis)
+  const totals = rows.reduce((sum, row) => {
+    const bucket = getAgingBucket(agingDays(row, basis))
+    sum.counts[bucket]++
+    sum.costs[bucket] += row.item.purchasePrice || 0
+    return sum
+  }, {
+    counts: { '0_30': 0, '31_60': 0, '61_90': 0, '90_plus': 0 },
+    costs: { '0_30': 0, '31_60': 0, '61_90': 0, '90_plus': 0 }
+  })
+  const threshold = parseInt(thresholdDays) || 90
+  const slowMoving = rows
+    .filter(row => agingDays(row, basis) > threshold)
+    .sort((a, b) => agingDays(b, basis) - agingDays(a, basis))
+
+  if (!userData) {
+    return <LoadingSpinner text="جاري تحميل بيانات المستخدم..." />
+  }
+
+  if (!canAccessReports) {
+    return (
+      <div className="text-center py-12">
+        <AlertCircle className="h-12 w-12 text-red-500 mx-auto mb-4" />
+        <h2 className="text-xl font-bold text-gray-900 mb-2 arabic-text">
+          غير مصرح لك بالوصول
+        </h2>
+        <p className="text-gray-600 arabic-text">
+          ليس لديك صلاحية للوصول لتقرير أعمار المخزون
+        </p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Page Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 arabic-text">أعمار المخزون</h1>
+          <p className="text-gray-600 arabic-text">مدة بقاء الوحدات في المخازن ورأس المال المحمل عليها بسعر الشراء</p>
+        </div>
+        <div className="flex items-center gap-3">
+          <Button
+            variant="outline"
+            onClick={() => reportRef.current && printElement(reportRef.current, 'أعمار المخزون')}
+            disabled={rows.length === 0}
+          >
+            <Printer className="ml-2 h-4 w-4" />
+            طباعة
+          </Button>
+          <Button variant="outline" onClick={() => navigate('/reports')}>
+            <ArrowLeft className="ml-2 h-4 w-4" />
+            التقارير
+          </Button>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <Card>
+        <CardContent className="p-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+            <div className="space-y-2">
+              <Label htmlFor="agingBasis">حساب العمر</Label>
+              <select
+                id="agingBasis"
+                value={basis}
+                onChange={(e) => setBasis(e.target.value as AgingBasis)}
+                className="form-input w-full input-rtl arabic-text"
+              >
+                {(Object.keys(agingBasisLabels) as AgingBasis[]).map(key => (
+                  <option key={key} value={key}>{agingBasisLabels[key]}</option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="agingGroupBy">التجميع حسب</Label>
+              <select
+                id="agingGroupBy"
+                value={groupBy}
+                onChange={(e) => setGroupBy(e.target.value as AgingGroupBy)}
+                className="form-input w-full input-rtl arabic-text"
+              >
+                {(Object.keys(agingGroupByLabels) as AgingGroupBy[]).map(key => (
+                  <option key={key} value={key}>{agingGroupByLabels[key]}</option>
+                ))}
+              </select>
+            </div>
+            <Button onClick={loadReport} loading={loading}>
+              <RefreshCw className="ml-2 h-4 w-4" />
+              تحديث
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {loading ? (
+        <LoadingSpinner text="جاري حساب أعمار المخزون..." />
+      ) : (
+        <div ref={reportRef} className="space-y-6">
+          {/* Bucket Summary */}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {agingBuckets.map(bucket => (
+              <Card key={bucket}>
+                <CardContent className={`p-4 rounded-lg ${bucketColors[bucket]}`}>
+                  <p className="text-sm arabic-text">{agingBucketLabels[bucket]}</p>
+                  <p className="text-2xl font-bold">{totals.counts[bucket]}</p>
+                  <p className="text-sm">{formatCurrency(totals.costs[bucket])}</p>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+
+          {/* Grouped Table */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 arabic-text">
+                <Hourglass className="h-5 w-5" />
+                الأعمار حسب {agingGroupByLabels[groupBy]}
+              </CardTitle>
+              <CardDescription>{rows.length} وحدة في المخازن - العمر {agingBasisLabels[basis]}</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {groups.length === 0 ? (
+                <p className="text-center text-gray-500 arabic-text py-6">لا توجد وحدات في المخازن</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b bg-gray-50">
+                        <th className="px-3 py-2 text-right">{agingGroupByLabels[groupBy]}</th>
+                        {agingBuckets.map(bucket => (
+                          <th key={bucket} className="px-3 py-2 text-right">{agingBucketLabels[bucket]}</th>
+                        ))}
+                        <th className="px-3 py-2 text-right">الإجمالي</th>
+                        <th className="px-3 py-2 text-right">أقدم وحدة</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y">
+                      {groups.map(group => (
+                        <tr key={group.key}>
+                          <td className="px-3 py-2 font-medium">{group.label}</td>
+                          {agingBuckets.map(bucket => (
+                            <td key={bucket} className="px-3 py-2">
+                              {group.counts[bucket] > 0 ? (
+                                <>
+                                  <span className="font-medium">{group.counts[bucket]}</span>
+                                  <span className="block text-xs text-gray-500">{formatCurrency(group.costs[bucket])}</span>
+                                </>
+                              ) : '-'}
+                            </td>
+                          ))}
+                          <td className="px-3 py-2">
+                            <span className="font-bold">{group.totalCount}</span>
+                            <span className="block text-xs text-gray-500">{formatCurrency(group.totalCost)}</span>
+                          </td>
+                          <td className="px-3 py-2">{group.oldestDays} يوم</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Slow-moving Items */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="arabic-text">الأصناف الراكدة (أكثر من {threshold} يوم)</CardTitle>
+              <CardDescription>
+                {slowMoving.length} وحدة بتكلفة {formatCurrency(slowMoving.reduce((sum, row) => sum + (row.item.purchasePrice || 0), 0))}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {slowMoving.length === 0 ? (
+                <p className="text-center text-gray-500 arabic-text py-6">لا توجد أصناف تجاوزت حد الأيام</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b bg-gray-50">
+                        <th className="px-3 py-2 text-right">الصنف</th>
+                        <th className="px-3 py-2 text-right">الشاسيه</th>
+                        <th className="px-3 py-2 text-right">المخزن</th>
+                        <th className="px-3 py-2 text-right">تاريخ الدخول</th>
+                        <th className="px-3 py-2 text-right">آخر تحويل</th>
+                        <th className="px-3 py-2 text-right">العمر</th>
+                        <th className="px-3 py-2 text-right">التكلفة</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y">
+                      {slowMoving.map(row => {
+                        const days = agingDays(row, basis)
+                        return (
+                          <tr key={row.item.id}>
+                            <td className="px-3 py-2">
+                              <Link to={`/inventory/details/${row.item.id}`} className="text-blue-600 hover:underline">
+                                {row.item.brand} {row.item.model} {row.item.color && `- ${row.item.color}`}
+                              </Link>
+                            </td>
+                            <td className="px-3 py-2 font-mono">{row.item.chassisNumber}</td>
+                            <td className="px-3 py-2">{row.warehouseName}</td>
+                            <td className="px-3 py-2">{formatDate(row.enteredAt)}</td>
+                            <td className="px-3 py-2">{row.lastMovedAt > row.enteredAt ? formatDate(row.lastMovedAt) : '-'}</td>
+                            <td className="px-3 py-2">
+                              <span className={`px-2 py-0.5 rounded ${bucketColors[getAgingBucket(days)]}`}>{days} يوم</span>
+                            </td>
+                            <td className="px-3 py-2">{formatCurrency(row.item.purchasePrice)}</td>
+                          </tr>
+                        )
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      {/* Alert Settings */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 arabic-text">
+            <Bell className="h-5 w-5" />
+            تنبيه الأصناف الراكدة
+          </CardTitle>
+          <CardDescription>يرسل للمديرين مرة يومياً بعدد الوحدات التي تجاوزت حد الأيام في مخزنها الحالي</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+            <label className="flex items-center gap-2 arabic-text">
+              <input
+                type="checkbox"
+                checked={alertEnabled}
+                onChange={(e) => setAlertEnabled(e.target.checked)}
+              />
+              تفعيل التنبيه اليومي
+            </label>
+            <div className="space-y-2">
+              <Label htmlFor="agingThreshold" required>حد الأيام</Label>
+              <Input
+                id="agingThreshold"
+                type="number"
+                min="1"
+                value={thresholdDays}
+                onChange={(e) => setThresholdDays(e.target.value)}
+              />
+            </div>
+            <Button onClick={handleSaveSettings} loading={savingSettings}>
+              حفظ الإعدادات
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -181,6 +181,38 @@ export function ReportsPage() {
             <p className="text-blue-100 arabic-text">تحليل مفصل لأداء المؤسسة والوكلاء مع فصل الحسابات</p>
           </div>
           <div className="flex items-center gap-3">
+            <Button
+              variant="secondary"
+              onClick={() => navigate('/reports/tax')}
+              className="bg-white/10 hover:bg-white/20 text-white border-white/20"
+            >
+              <FileText className="ml-2 h-4 w-4" />
+              تقرير الضريبة
+            </Button>
+            <Button
+              variant="secondary"
+              onClick={() => navigate('/reports/aging')}
+              className="bg-white/10 hover:bg-white/20 text-white border-white/20"
+            >
+              <FileText className="ml-2 h-4 w-4" />
+              أعمار المخزون
+            </Button>
+            <Button
+              variant="secondary"
+              onClick={() => navigate('/reports/reorder')}
+              className="bg-white/10 hover:bg-white/20 text-white border-white/20"
+            >
+              <FileText className="ml-2 h-4 w-4" />
+              اقتراح الشراء
+            </Button>
+            <Button
+              variant="secondary"
+              onClick={() => navigate('/reports/e-invoices')}
+              className="bg-white/10 hover:bg-white/20 text-white border-white/20"
+            >
+              <FileText className="ml-2 h-4 w-4" />
+              الفاتورة الإلكترونية
+            </Button>
             <Button
               variant="secondary"
               onClick={generateReport}
@@ -0,0 +1,228 @@
+import { useState, useEffect, useRef } from 'react'
+import { Link, useNavigate } from 'react-router-dom'
+import { toast } from 'sonner'
+import { AlertCircle, ArrowLeft, CheckCircle, Printer, RefreshCw, SlidersHorizontal } from 'lucide-react'
+import { useAuthState } from 'react-firebase-hooks/auth'
+
+import { auth } from '@/firebase/firebase-config.template'
+import { Button } from '@/components/ui/Button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/Card'
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner'
+import { useUserData } from '@/hooks/useUserData'
+import { useVehicleCatalog } from '@/hooks/useVehicleCatalog'
+import { LowStockWarning, ReorderLevel } from '@/types'
+import { formatCurrency, isAdmin, isSuperAdmin, printElement, vehicleTypeTranslations } from '@/lib/utils'
+import { buildSuggestedPurchase, ReorderLevelService } from '@/lib/reorderLevels'
+
+export default function SuggestedPurchasePage() {
+  const [user] = useAuthState(auth)
+  const { userData } = useUserData(user?.uid)
+  const { catalog, loading: catalogLoading } = useVehicleCatalog()
+  const navigate = useNavigate()
+  const reportRef = useRef<HTMLDivElement>(null)
+
+  const [levels, setLevels] = useState<ReorderLevel[]>([])
+  const [warnings, setWarnings] = useState<LowStockWarning[]>([])
+  const [loading, setLoading] = useState(false)
+
+  const canAccessReports = userData && (isSuperAdmin(userData.role) || isAdmin(userData.role))
+
+  useEffect(() => {
+    if (canAccessReports) {
+      loadReport()
+    }
+  }, [canAccessReports])
+
+  const loadReport = async () => {
+    try {
+      setLoading(true)
+      const result = await ReorderLevelService.getLowStockWarnings()
+      setLevels(result.levels)
+      setWarnings(result.warnings.sort((a, b) => a.warehouseName.localeCompare(b.warehouseName, 'ar')))
+    } catch (error) {
+      console.error('Error loading suggested purchase:', error)
+      toast.error('فشل في تحميل اقتراح الشراء')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const lines = buildSuggestedPurchase(warnings, levels, catalog)
+  const totalQuantity = lines.reduce((sum, line) => sum + line.quantity, 0)
+  const totalCost = lines.reduce((sum, line) => sum + (line.estimatedCost || 0), 0)
+  const unpricedLines = lines.filter(line => !line.unitCost).length
+
+  if (!userData) {
+    return <LoadingSpinner text="جاري تحميل بيانات المستخدم..." />
+  }
+
+  if (!canAccessReports) {
+    return (
+      <div className="text-center py-12">
+        <AlertCircle className="h-12 w-12 text-red-500 mx-auto mb-4" />
+        <h2 className="text-xl font-bold text-gray-900 mb-2 arabic-text">
+          غير مصرح لك بالوصول
+        </h2>
+        <p className="text-gray-600 arabic-text">
+          ليس لديك صلاحية للوصول لتقرير اقتراح الشراء
+        </p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Page Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 arabic-text">اقتراح الشراء</h1>
+          <p className="text-gray-600 arabic-text">الكميات المطلوبة لإعادة المخازن التي نزلت تحت الحد الأدنى إلى حدها الأقصى</p>
+        </div>
+        <div className="flex items-center gap-3">
+          <Link to="/inventory/reorder">
+            <Button variant="outline">
+              <SlidersHorizontal className="ml-2 h-4 w-4" />
+              حدود إعادة الطلب
+            </Button>
+          </Link>
+          <Button variant="outline" onClick={loadReport} disabled={loading}>
+            <RefreshCw className="ml-2 h-4 w-4" />
+            تحديث
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => reportRef.current && printElement(reportRef.current, 'اقتراح الشراء')}
+            disabled={lines.length === 0}
+          >
+            <Printer className="ml-2 h-4 w-4" />
+            طباعة
+          </Button>
+          <Button variant="outline" onClick={() => navigate('/reports')}>
+            <ArrowLeft className="ml-2 h-4 w-4" />
+            التقارير
+          </Button>
+        </div>
+      </div>
+
+      {loading || catalogLoading ? (
+        <LoadingSpinner text="جاري حساب النواقص..." />
+      ) : levels.length === 0 ? (
+        <Card>
+          <CardContent className="text-center py-12">
+            <AlertCircle className="mx-auto h-12 w-12 text-orange-500 mb-4" />
+            <p className="text-gray-600 arabic-text">لم يتم تحديد حدود إعادة الطلب للمخازن بعد</p>
+          </CardContent>
+        </Card>
+      ) : lines.length === 0 ? (
+        <Card>
+          <CardContent className="text-center py-12">
+            <CheckCircle className="mx-auto h-12 w-12 text-green-500 mb-4" />
+            <p className="text-gray-600 arabic-text">كل المخازن فوق الحد الأدنى</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div ref={reportRef} className="space-y-6">
+          {/* Summary */}
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <Card>
+              <CardContent className="p-4">
+                <p className="text-sm text-gray-600 arabic-text">حدود تحت الحد الأدنى</p>
+                <p className="text-2xl font-bold text-red-600">{warnings.length}</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="p-4">
+                <p className="text-sm text-gray-600 arabic-text">إجمالي الكمية المقترحة</p>
+                <p className="text-2xl font-bold">{totalQuantity}</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="p-4">
+                <p className="text-sm text-gray-600 arabic-text">التكلفة التقديرية</p>
+                <p className="text-2xl font-bold">{formatCurrency(totalCost)}</p>
+                {unpricedLines > 0 && (
+                  <p className="text-xs text-orange-600 arabic-text">{unpricedLines} صنف بدون سعر شراء في الكتالوج</p>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Purchase Lines */}
+          <Card>
+            <CardHeader>
+              <CardTitle>قائمة الشراء المقترحة</CardTitle>
+              <CardDescription>مجمعة حسب الموديل أو نوع المركبة لكل المخازن</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-3 py-2 text-right">الصنف</th>
+                      <th className="px-3 py-2 text-right">النوع</th>
+                      <th className="px-3 py-2 text-right">الكمية</th>
+                      <th className="px-3 py-2 text-right">التوزيع على المخازن</th>
+                      <th className="px-3 py-2 text-right">سعر الشراء</th>
+                      <th className="px-3 py-2 text-right">التكلفة التقديرية</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y">
+                    {lines.map(line => (
+                      <tr key={line.key}>
+                        <td className="px-3 py-2 font-medium">{line.label}</td>
+                        <td className="px-3 py-2">{vehicleTypeTranslations[line.vehicleType]}</td>
+                        <td className="px-3 py-2 font-bold">{line.quantity}</td>
+                        <td className="px-3 py-2 text-gray-600">
+                          {line.warehouses.map(entry => `${entry.warehouseName} (${entry.quantity})`).join('، ')}
+                        </td>
+                        <td className="px-3 py-2">{line.unitCost ? formatCurrency(line.unitCost) : '-'}</td>
+                        <td className="px-3 py-2">{line.estimatedCost ? formatCurrency(line.estimatedCost) : '-'}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Warehouse Shortages */}
+          <Card>
+            <CardHeader>
+              <CardTitle>النواقص حسب المخزن</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-3 py-2 text-right">المخزن</th>
+                      <th className="px-3 py-2 text-right">الصنف</th>
+                      <th className="px-3 py-2 text-right">الرصيد</th>
+                      <th className="px-3 py-2 text-right">الحد الأدنى</th>
+                      <th className="px-3 py-2 text-right">الحد الأقصى</th>
+                      <th className="px-3 py-2 text-right">المطلوب</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y">
+                    {warnings.map(warning => (
+                      <tr key={warning.reorderLevelId}>
+                        <td className="px-3 py-2">{warning.warehouseName}</td>
+                        <td className="px-3 py-2">
+                          {warning.brand ? `${warning.brand} ${warning.model || ''}` : vehicleTypeTranslations[warning.itemType]}
+                        </td>
+                        <td className="px-3 py-2 text-red-600 font-medium">{warning.currentStock}</td>
+                        <td className="px-3 py-2">{warning.recommendedMinimum}</td>
+                        <td className="px-3 py-2">{warning.recommendedMaximum}</td>
+                        <td className="px-3 py-2 font-bold">{warning.reorderQuantity}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,354 @@
+import { useState, useEffect, useRef } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { format, startOfYear } from 'date-fns'
+import { toast } from 'sonner'
+import { AlertCircle, ArrowLeft, Printer, Receipt, RefreshCw, ShieldCheck, ShieldOff } from 'lucide-react'
+import { useAuthState } from 'react-firebase-hooks/auth'
+
+import { auth } from '@/firebase/firebase-config.template'
+import { Button } from '@/components/ui/Button'
+import { Input } from '@/components/ui/Input'
+import { Label } from '@/components/ui/Label'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card'
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner'
+import { useUserData } from '@/hooks/useUserData'
+import { SalesTaxService, TaxSummaryPeriod, isExemptionValid } from '@/lib/salesTax'
+import { formatCurrency, formatDate, isAdmin, isSuperAdmin, printElement } from '@/lib/utils'
+import { TaxExemptCustomer } from '@/types'
+
+const emptyExemption = {
+  nationalId: '',
+  customerName: '',
+  certificateNumber: '',
+  reason: '',
+  validUntil: ''
+}
+
+export default function TaxReportPage() {
+  const [user] = useAuthState(auth)
+  const { userData } = useUserData(user?.uid)
+  const navigate = useNavigate()
+  const reportRef = useRef<HTMLDivElement>(null)
+
+  const [dateFrom, setDateFrom] = useState(format(startOfYear(new Date()), 'yyyy-MM-dd'))
+  const [dateTo, setDateTo] = useState(format(new Date(), 'yyyy-MM-dd'))
+  const [periods, setPeriods] = useState<TaxSummaryPeriod[]>([])
+  const [loading, setLoading] = useState(false)
+
+  const [exemptCustomers, setExemptCustomers] = useState<TaxExemptCustomer[]>([])
+  const [exemptionForm, setExemptionForm] = useState(emptyExemption)
+  const [savingExemption, setSavingExemption] = useState(false)
+
+  const canAccessReports = userData && (isSuperAdmin(userData.role) || isAdmin(userData.role))
+
+  useEffect(() => {
+    if (canAccessReports) {
+      loadReport()
+      loadExemptCustomers()
+    }
+  }, [canAccessReports])
+
+  const loadReport = async () => {
+    try {
+      setLoading(true)
+      const summary = await SalesTaxService.getTaxSummary(
+        new Date(`${dateFrom}T00:00:00`),
+        new Date(`${dateTo}T23:59:59`)
+      )
+      setPeriods(summary)
+    } catch (error) {
+      console.error('Error loading tax summary:', error)
+      toast.error('فشل في تحميل تقرير الضريبة')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const loadExemptCustomers = async () => {
+    setExemptCustomers(await SalesTaxService.getExemptCustomers())
+  }
+
+  const handleSaveExemption = async () => {
+    if (!userData) return
+
+    setSavingExemption(true)
+    const result = await SalesTaxService.saveExemption({
+      nationalId: exemptionForm.nationalId,
+      customerName: exemptionForm.customerName,
+      certificateNumber: exemptionForm.certificateNumber,
+      reason: exemptionForm.reason,
+      validUntil: exemptionForm.validUntil ? new Date(`${exemptionForm.validUntil}T23:59:59`) : undefined
+    }, userData.id)
+    setSavingExemption(false)
+
+    if (!result.success) {
+      toast.error(result.error || 'فشل في حفظ الإعفاء الضريبي')
+      return
+    }
+
+    toast.success(`تم تسجيل إعفاء العميل ${exemptionForm.customerName}`)
+    setExemptionForm(emptyExemption)
+    await loadExemptCustomers()
+  }
+
+  const handleRevokeExemption = async (exemption: TaxExemptCustomer) => {
+    if (!userData) return
+    if (!confirm(`إلغاء الإعفاء الضريبي للعميل ${exemption.customerName}؟`)) return
+
+    const result = await SalesTaxService.revokeExemption(exemption.nationalId, userData.id)
+    if (!result.success) {
+      toast.error(result.error || 'فشل في إلغاء الإعفاء الضريبي')
+      return
+    }
+
+    toast.success('تم إلغاء الإعفاء الضريبي')
+    await loadExemptCustomers()
+  }
+
+  const totals = periods.reduce((sum, period) => ({
+    salesCount: sum.salesCount + period.salesCount,
+    taxableSales: sum.taxableSales + period.taxableSales,
+    exemptSales: sum.exemptSales + period.exemptSales,
+    outputTax: sum.outputTax + period.outputTax,
+    returnsCount: sum.returnsCount + period.returnsCount,
+    returnedTax: sum.returnedTax + period.returnedTax,
+    netTax: sum.netTax + period.netTax
+  }), { salesCount: 0, taxableSales: 0, exemptSales: 0, outputTax: 0, returnsCount: 0, returnedTax: 0, netTax: 0 })
+
+  if (!userData) {
+    return <LoadingSpinner text="جاري تحميل بيانات المستخدم..." />
+  }
+
+  if (!canAccessReports) {
+    return (
+      <div className="text-center py-12">
+        <AlertCircle className="h-12 w-12 text-red-500 mx-auto mb-4" />
+        <h2 className="text-xl font-bold text-gray-900 mb-2 arabic-text">
+          غير مصرح لك بالوصول
+        </h2>
+        <p className="text-gray-600 arabic-text">
+          ليس لديك صلاحية للوصول لتقرير الضريبة
+        </p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Page Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 arabic-text">ملخص ضريبة القيمة المضافة</h1>
+          <p className="text-gray-600 arabic-text">الضريبة المستحقة على المبيعات والمردودة بإشعارات دائنة حسب الشهر</p>
+        </div>
+        <div className="flex items-center gap-3">
+          <Button
+            variant="outline"
+            onClick={() => reportRef.current && printElement(reportRef.current, 'ملخص ضريبة القيمة المضافة')}
+            disabled={periods.length === 0}
+          >
+            <Printer className="ml-2 h-4 w-4" />
+            طباعة
+          </Button>
+          <Button variant="outline" onClick={() => navigate('/reports')}>
+            <ArrowLeft className="ml-2 h-4 w-4" />
+            التقارير
+          </Button>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <Card>
+        <CardContent className="p-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+            <div className="space-y-2">
+              <Label htmlFor="taxDateFrom">من تاريخ</Label>
+              <Input id="taxDateFrom" type="date" value={dateFrom} onChange={(e) => setDateFrom(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="taxDateTo">إلى تاريخ</Label>
+              <Input id="taxDateTo" type="date" value={dateTo} onChange={(e) => setDateTo(e.target.value)} />
+            </div>
+            <Button onClick={loadReport} loading={loading}>
+              <RefreshCw className="ml-2 h-4 w-4" />
+              عرض التقرير
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Summary Table */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 arabic-text">
+            <Receipt className="h-5 w-5" />
+            الضريبة حسب الفترة
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <LoadingSpinner text="جاري حساب الضريبة..." />
+          ) : periods.length === 0 ? (
+            <p className="text-center text-gray-500 arabic-text py-6">لا توجد مبيعات في الفترة المحددة</p>
+          ) : (
+            <div ref={reportRef} className="overflow-x-auto">
+              <p className="text-sm text-gray-600 arabic-text mb-3">
+                الفترة من {formatDate(dateFrom)} إلى {formatDate(dateTo)}
+              </p>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b bg-gray-50">
+                    <th className="p-2 text-right arabic-text">الشهر</th>
+                    <th className="p-2 text-right arabic-text">عدد المبيعات</th>
+                    <th className="p-2 text-right arabic-text">المبيعات الخاضعة</th>
+                    <th className="p-2 text-right arabic-text">المبيعات المعفاة</th>
+                    <th className="p-2 text-right arabic-text">ضريبة المبيعات</th>
+                    <th className="p-2 text-right arabic-text">المرتجعات</th>
+                    <th className="p-2 text-right arabic-text">الضريبة المردودة</th>
+                    <th className="p-2 text-right arabic-text">صافي الضريبة المستحقة</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {periods.map(period => (
+                    <tr key={period.period} className="border-b">
+                      <td className="p-2 font-mono">{period.period}</td>
+                      <td className="p-2">{period.salesCount}</td>
+                      <td className="p-2">{formatCurrency(period.taxableSales)}</td>
+                      <td className="p-2">{formatCurrency(period.exemptSales)}</td>
+                      <td className="p-2">{formatCurrency(period.outputTax)}</td>
+                      <td className="p-2">{period.returnsCount}</td>
+                      <td className="p-2 text-red-600">{formatCurrency(period.returnedTax)}</td>
+                      <td className="p-2 font-bold">{formatCurrency(period.netTax)}</td>
+                    </tr>
+                  ))}
+                  <tr className="bg-gray-50 font-bold">
+                    <td className="p-2 arabic-text">الإجمالي</td>
+                    <td className="p-2">{totals.salesCount}</td>
+                    <td className="p-2">{formatCurrency(totals.taxableSales)}</td>
+                    <td className="p-2">{formatCurrency(totals.exemptSales)}</td>
+                    <td className="p-2">{formatCurrency(totals.outputTax)}</td>
+                    <td className="p-2">{totals.returnsCount}</td>
+                    <td className="p-2 text-red-600">{formatCurrency(totals.returnedTax)}</td>
+                    <td className="p-2">{formatCurrency(totals.netTax)}</td>
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Tax Exempt Customers */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 arabic-text">
+            <ShieldCheck className="h-5 w-5" />
+            العملاء المعفون من الضريبة
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="exemptNationalId" required>الرقم القومي</Label>
+              <Input
+                id="exemptNationalId"
+                value={exemptionForm.nationalId}
+                onChange={(e) => setExemptionForm(prev => ({ ...prev, nationalId: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="exemptCustomerName" required>اسم العميل</Label>
+              <Input
+                id="exemptCustomerName"
+                value={exemptionForm.customerName}
+                onChange={(e) => setExemptionForm(prev => ({ ...prev, customerName: e.target.value }))}
+                className="input-rtl arabic-text"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="exemptCertificate" required>رقم شهادة الإعفاء</Label>
+              <Input
+                id="exemptCertificate"
+                value={exemptionForm.certificateNumber}
+                onChange={(e) => setExemptionForm(prev => ({ ...prev, certificateNumber: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="exemptReason">سبب الإعفاء</Label>
+              <Input
+                id="exemptReason"
+                value={exemptionForm.reason}
+                onChange={(e) => setExemptionForm(prev => ({ ...prev, reason: e.target.value }))}
+                className="input-rtl arabic-text"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="exemptValidUntil">سارية حتى</Label>
+              <Input
+                id="exemptValidUntil"
+                type="date"
+                value={exemptionForm.validUntil}
+                onChange={(e) => setExemptionForm(prev => ({ ...prev, validUntil: e.target.value }))}
+              />
+            </div>
+            <div className="flex items-end">
+              <Button className="w-full" onClick={handleSaveExemption} loading={savingExemption}>
+                <ShieldCheck className="ml-2 h-4 w-4" />
+                تسجيل الإعفاء
+              </Button>
+            </div>
+          </div>
+
+          {exemptCustomers.length === 0 ? (
+            <p className="text-center text-gray-500 arabic-text py-4">لا يوجد عملاء معفون</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b bg-gray-50">
+                    <th className="p-2 text-right arabic-text">العميل</th>
+                    <th className="p-2 text-right arabic-text">الرقم القومي</th>
+                    <th className="p-2 text-right arabic-text">شهادة الإعفاء</th>
+                    <th className="p-2 text-right arabic-text">سارية حتى</th>
+                    <th className="p-2 text-right arabic-text">الحالة</th>
+                    <th className="p-2"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {exemptCustomers.map(exemption => (
+                    <tr key={exemption.id} className="border-b">
+                      <td className="p-2 arabic-text">
+                        {exemption.customerName}
+                        {exemption.reason && <p className="text-xs text-gray-500">{exemption.reason}</p>}
+                      </td>
+                      <td className="p-2 font-mono">{exemption.nationalId}</td>
+                      <td className="p-2 font-mono">{exemption.certificateNumber}</td>
+                      <td className="p-2">{exemption.validUntil ? formatDate(exemption.validUntil) : 'غير محدد'}</td>
+                      <td className="p-2">
+                        {isExemptionValid(exemption) ? (
+                          <span className="px-2 py-1 rounded text-xs bg-green-100 text-green-800">ساري</span>
+                        ) : (
+                          <span className="px-2 py-1 rounded text-xs bg-gray-100 text-gray-800">
+                            {exemption.active ? 'منتهي' : 'ملغي'}
+                          </span>
+                        )}
+                      </td>
+                      <td className="p-2">
+                        {exemption.active && (
+                          <Button variant="ghost" size="sm" onClick={() => handleRevokeExemption(exemption)}>
+                            <ShieldOff className="ml-1 h-4 w-4 text-red-500" />
+                            إلغاء
+                          </Button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
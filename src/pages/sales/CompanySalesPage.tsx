@@ -1,15 +1,15 @@
 import { useState, useEffect } from 'react'
-import { useNavigate } from 'react-router-dom'
+import { useNavigate, useSearchParams } from 'react-router-dom'
 import { useAuthState } from 'react-firebase-hooks/auth'
 import { 
   collection, 
   query, 
   where, 
   getDocs, 
-  addDoc, 
   updateDoc, 
   doc, 
-  serverTimestamp 
+  serverTimestamp,
+  runTransaction
 } from 'firebase/firestore'
 import { useForm } from 'react-hook-form'
 import { toast } from 'sonner'
@@ -23,7 +23,10 @@ import {
   MapPin,
   Save,
   Camera,
-  CreditCard
+  CreditCard,
+  BookmarkPlus,
+  Trash2,
+  Repeat
 } from 'lucide-react'
 
 import { db, auth } from '@/firebase/firebase-config.template'
@@ -33,11 +36,28 @@ import { Label } from '@/components/ui/Label'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card'
 import { LoadingSpinner } from '@/components/ui/LoadingSpinner'
 import { useUserData } from '@/hooks/useUserData'
+import { useInvoiceTax } from '@/hooks/useInvoiceTax'
 import { canOnlySellFromCompany, canViewProfits } from '@/lib/permissions'
 import { SimpleNotificationSystem } from '@/lib/simpleNotifications'
-import { generateTransactionId, formatCurrency } from '@/lib/utils'
-import { InventoryItem, Warehouse } from '@/types'
+import { generateTransactionId, formatCurrency, paymentMethodTranslations } from '@/lib/utils'
+import { Discount, TradeIn, InventoryItem, InstallmentTerms, ItemReservation, PriceApprovalDecision, PriceApprovalLine, PriceApprovalRequest, Warehouse } from '@/types'
 import { ImprovedCameraOCR } from '@/components/ui/ImprovedCameraOCR'
+import { InstallmentTermsFields, getDefaultInstallmentTerms } from '@/components/sales/InstallmentTermsFields'
+import { ReserveItemDialog } from '@/components/sales/ReserveItemDialog'
+import { InvoiceTaxFields } from '@/components/sales/InvoiceTaxFields'
+import { DiscountInput } from '@/components/sales/DiscountInput'
+import { PriceApprovalPanel } from '@/components/sales/PriceApprovalPanel'
+import { TradeInFields } from '@/components/sales/TradeInFields'
+import { QrScanButton } from '@/components/inventory/QrScanButton'
+import { InstallmentService, validateInstallmentTerms } from '@/lib/installments'
+import { ReservationService, isReservationActive } from '@/lib/reservations'
+import { validateSaleLines } from '@/lib/saleInvoices'
+import { calculateLineTax, invoiceTaxFields } from '@/lib/salesTax'
+import { TradeInInput, TradeInService, emptyTradeIn, validateTradeIn } from '@/lib/tradeIns'
+import { PriceApprovalService, PricingService, applyDiscounts, approvalCoversLines, getFloorPrice, isBelowFloor } from '@/lib/pricing'
+import { DocumentNumberingService } from '@/lib/documentNumbering'
+import { findScannedItem } from '@/lib/inventoryLabels'
+import { ReorderLevelService } from '@/lib/reorderLevels'
 import { uploadToCloudinary, validateImageFile, compressImage } from '@/lib/cloudinary'
 import { createCompositeImage } from '@/lib/imageComposer'
 import { extractEgyptianIdCardEnhanced, parseEgyptianIdCardEnhanced } from '@/lib/enhancedOCR'
@@ -49,7 +69,6 @@ interface SaleFormData {
   customerAddress: string
   notes: string
   idCardImage?: string
-  salePrice?: number
 }
 
 interface ExtractedCustomerData {
@@ -65,24 +84,40 @@ type OCRStep = 'none' | 'id-card'
 
 export function CompanySalesPage() {
   const navigate = useNavigate()
+  const [searchParams] = useSearchParams()
   const [user] = useAuthState(auth)
   const { userData } = useUserData(user?.uid)
   
   const [warehouses, setWarehouses] = useState<Warehouse[]>([])
   const [inventoryItems, setInventoryItems] = useState<InventoryItem[]>([])
   const [selectedWarehouse, setSelectedWarehouse] = useState<string>('')
-  const [selectedItem, setSelectedItem] = useState<InventoryItem | null>(null)
+  const [selectedItems, setSelectedItems] = useState<InventoryItem[]>([])
+  const [linePrices, setLinePrices] = useState<Record<string, number>>({})
+  const [lineDiscounts, setLineDiscounts] = useState<Record<string, Discount>>({})
+  const [invoiceDiscount, setInvoiceDiscount] = useState<Discount | undefined>()
+  const [priceFloors, setPriceFloors] = useState<Record<string, number>>({})
+  const [approvalRequestId, setApprovalRequestId] = useState<string | null>(searchParams.get('approval'))
+  const [approvalRequest, setApprovalRequest] = useState<PriceApprovalRequest | null>(null)
+  const [requestingApproval, setRequestingApproval] = useState(false)
+  const [restoringApproval, setRestoringApproval] = useState(!!searchParams.get('approval'))
   const [searchTerm, setSearchTerm] = useState('')
   const [loading, setLoading] = useState(true)
   const [loadingItems, setLoadingItems] = useState(false)
   const [submitting, setSubmitting] = useState(false)
   const [ocrStep, setOcrStep] = useState<OCRStep>('none')
   const [extractedData, setExtractedData] = useState<ExtractedCustomerData>({})
-  const [customSalePrice, setCustomSalePrice] = useState<number | null>(null)
+  const [paymentMethod, setPaymentMethod] = useState<'cash' | 'installments'>('cash')
+  const [installmentTerms, setInstallmentTerms] = useState<InstallmentTerms>(getDefaultInstallmentTerms)
+  const [hasTradeIn, setHasTradeIn] = useState(false)
+  const [tradeIn, setTradeIn] = useState<TradeInInput>(emptyTradeIn)
+  const [reservations, setReservations] = useState<Record<string, ItemReservation>>({})
+  const [pendingReservationItemId, setPendingReservationItemId] = useState<string | null>(null)
+  const [showReserveDialog, setShowReserveDialog] = useState(false)
 
   const { register, handleSubmit, formState: { errors }, reset, setValue, watch } = useForm<SaleFormData>()
   
   const idCardImage = watch('idCardImage')
+  const tax = useInvoiceTax(watch('customerNationalId'))
   
   // Debug logging للصورة
   useEffect(() => {
@@ -99,9 +134,49 @@ export function CompanySalesPage() {
   useEffect(() => {
     if (userData) {
       loadWarehouses()
+      loadReservationFromParams()
+      PricingService.getPriceFloorMap().then(setPriceFloors)
     }
   }, [userData])
 
+  // متابعة قرار المدير على طلب السعر
+  useEffect(() => {
+    if (!approvalRequestId) {
+      setApprovalRequest(null)
+      return
+    }
+    return PriceApprovalService.subscribe(approvalRequestId, setApprovalRequest)
+  }, [approvalRequestId])
+
+  // الوصول من إشعار الموافقة: إعادة أسطر الفاتورة بالأسعار الموافق عليها
+  useEffect(() => {
+    if (!restoringApproval || !approvalRequest) return
+    if (selectedWarehouse !== approvalRequest.warehouseId) {
+      setSelectedWarehouse(approvalRequest.warehouseId)
+      return
+    }
+
+    const approvedItems = approvalRequest.lines
+      .map(line => inventoryItems.find(item => item.id === line.inventoryItemId && item.status === 'available'))
+      .filter((item): item is InventoryItem => !!item)
+    if (approvedItems.length === 0) return
+
+    setRestoringApproval(false)
+    setSelectedItems(approvedItems)
+    setLinePrices(Object.fromEntries(approvalRequest.lines.map(line => [line.inventoryItemId, line.finalPrice])))
+    setValue('customerName', approvalRequest.customerName)
+  }, [restoringApproval, approvalRequest, inventoryItems, selectedWarehouse])
+
+  // اختيار المنتج المحجوز تلقائياً بعد تحميل منتجات المخزن
+  useEffect(() => {
+    if (!pendingReservationItemId) return
+    const reservedItem = inventoryItems.find(item => item.id === pendingReservationItemId)
+    if (reservedItem) {
+      setPendingReservationItemId(null)
+      handleSelectItem(reservedItem)
+    }
+  }, [inventoryItems, pendingReservationItemId])
+
   useEffect(() => {
     if (selectedWarehouse) {
       loadInventoryItems()
@@ -182,7 +257,7 @@ export function CompanySalesPage() {
       const itemsQuery = query(
         collection(db, 'inventory_items'),
         where('currentWarehouseId', '==', selectedWarehouse),
-        where('status', '==', 'available')
+        where('status', 'in', ['available', 'reserved'])
       )
       
       const itemsSnapshot = await getDocs(itemsQuery)
@@ -198,6 +273,134 @@ export function CompanySalesPage() {
     }
   }
 
+  // تحويل حجز إلى بيع: الوصول من صفحة الصنف مع رقم الحجز
+  const loadReservationFromParams = async () => {
+    // إنهاء الحجوزات المنتهية قبل عرض المنتجات
+    await ReservationService.expireLapsedReservations()
+
+    const reservationId = searchParams.get('reservation')
+    if (!reservationId) return
+
+    const reservationData = await ReservationService.getReservation(reservationId)
+    if (!reservationData || !isReservationActive(reservationData)) {
+      toast.error('الحجز غير موجود أو انتهت مدته')
+      return
+    }
+
+    setSelectedWarehouse(reservationData.warehouseId)
+    setPendingReservationItemId(reservationData.inventoryItemId)
+  }
+
+  // سعر القائمة للسطر: السعر المدخل أو سعر البيع الافتراضي للمنتج
+  const getListPrice = (item: InventoryItem) => linePrices[item.id] ?? (item.salePrice || item.purchasePrice)
+
+  // السعر النهائي للسطر بعد خصم السطر ونصيبه من خصم الفاتورة
+  const pricedLines = applyDiscounts(selectedItems.map(item => ({
+    inventoryItemId: item.id,
+    listPrice: getListPrice(item),
+    discount: lineDiscounts[item.id]
+  })), invoiceDiscount)
+  const getPricedLine = (item: InventoryItem) => pricedLines.find(line => line.inventoryItemId === item.id)!
+  const getLinePrice = (item: InventoryItem) => getPricedLine(item).finalPrice
+  const totalDiscount = pricedLines.reduce((sum, line) => sum + line.lineDiscount + line.invoiceDiscountShare, 0)
+
+  // الأسطر الأقل من الحد الأدنى تحتاج موافقة المدير قبل الحفظ
+  const approvalLines: PriceApprovalLine[] = selectedItems.map(item => ({
+    inventoryItemId: item.id,
+    chassisNumber: item.chassisNumber,
+    brand: item.brand,
+    model: item.model,
+    ...getPricedLine(item),
+    floorPrice: getFloorPrice(item, priceFloors)
+  }))
+  const belowFloorLines = approvalLines.filter(isBelowFloor)
+  const priceApproved = belowFloorLines.length === 0 || (!!approvalRequest && approvalCoversLines(approvalRequest, approvalLines))
+
+  // ضريبة السطر حسب طريقة التسعير وإعفاء العميل، وإجمالي الفاتورة شامل الضريبة
+  const getLineTax = (item: InventoryItem) => calculateLineTax(getLinePrice(item), tax.options)
+
+  const invoiceSubtotal = selectedItems.reduce((sum, item) => sum + getLineTax(item).netAmount, 0)
+  const invoiceTax = selectedItems.reduce((sum, item) => sum + getLineTax(item).taxAmount, 0)
+  const invoiceTotal = selectedItems.reduce((sum, item) => sum + getLineTax(item).grossAmount, 0)
+  const depositTotal = Object.values(reservations).reduce((sum, reservation) => sum + reservation.depositAmount, 0)
+  // العربون والمستعمل يسددان جزءاً من الثمن، والتقسيط يكون على الباقي فقط
+  const tradeInValue = hasTradeIn ? tradeIn.agreedValue || 0 : 0
+  const amountDue = invoiceTotal - depositTotal - tradeInValue
+
+  const clearSelection = () => {
+    setSelectedItems([])
+    setLinePrices({})
+    setLineDiscounts({})
+    setInvoiceDiscount(undefined)
+    setApprovalRequestId(null)
+    setReservations({})
+  }
+
+  const removeLine = (itemId: string) => {
+    setSelectedItems(prev => prev.filter(item => item.id !== itemId))
+    setLinePrices(({ [itemId]: _removed, ...rest }) => rest)
+    setLineDiscounts(({ [itemId]: _removed, ...rest }) => rest)
+    setReservations(({ [itemId]: _removed, ...rest }) => rest)
+  }
+
+  // إضافة المنتج كسطر في الفاتورة أو إزالته إذا كان مضافاً
+  const handleSelectItem = async (item: InventoryItem) => {
+    if (selectedItems.some(selected => selected.id === item.id)) {
+      removeLine(item.id)
+      return
+    }
+
+    if (item.status !== 'reserved') {
+      setSelectedItems(prev => [...prev, item])
+      return
+    }
+
+    // المنتج المحجوز يباع فقط للعميل صاحب الحجز مع خصم العربون
+    const reservationData = item.reservationId ? await ReservationService.getReservation(item.reservationId) : null
+    if (!reservationData || !isReservationActive(reservationData)) {
+      toast.error('هذا المنتج محجوز ولا يمكن بيعه')
+      return
+    }
+
+    const otherCustomer = Object.values(reservations).find(existing => existing.customerPhone !== reservationData.customerPhone)
+    if (otherCustomer) {
+      toast.error(`لا يمكن جمع منتجات محجوزة لعملاء مختلفين في فاتورة واحدة (${otherCustomer.customerName})`)
+      return
+    }
+
+    setSelectedItems(prev => [...prev, item])
+    setReservations(prev => ({ ...prev, [item.id]: reservationData }))
+    setValue('customerName', reservationData.customerName)
+    setValue('customerPhone', reservationData.customerPhone)
+    if (reservationData.customerNationalId) {
+      setValue('customerNationalId', reservationData.customerNationalId)
+    }
+    toast.info(`محجوز للعميل ${reservationData.customerName} - سيتم خصم العربون ${formatCurrency(reservationData.depositAmount)}`)
+  }
+
+  const handleRequestApproval = async (reason: string) => {
+    if (!userData) return
+
+    setRequestingApproval(true)
+    const result = await PriceApprovalService.requestApproval({
+      warehouseId: selectedWarehouse,
+      customerName: watch('customerName') || 'عميل',
+      lines: approvalLines,
+      reason,
+      requestedBy: userData.id,
+      requestedByName: userData.displayName || userData.email || 'موظف بيع'
+    })
+    setRequestingApproval(false)
+
+    if (!result.success) {
+      toast.error(result.error || 'فشل في إرسال طلب الموافقة')
+      return
+    }
+
+    setApprovalRequestId(result.requestId!)
+    toast.success('تم إرسال طلب الموافقة للمدير')
+  }
+
   // دوال تصوير بطاقة الهوية
   const uploadImageToCloudinary = async (imageDataUrl: string, filename: string): Promise<string> => {
     try {
@@ -312,6 +515,19 @@ export function CompanySalesPage() {
     setOcrStep('none')
   }
 
+  // اختيار الصنف مباشرة من ملصق QR أو رقم الشاسيه المقروء
+  const handleScannedItem = (text: string) => {
+    const item = findScannedItem(inventoryItems, text)
+    if (!item) {
+      toast.error('الصنف غير متاح في المخزن المختار')
+      return
+    }
+    if (!selectedItems.some(selected => selected.id === item.id)) {
+      handleSelectItem(item)
+    }
+    setSearchTerm('')
+  }
+
   const filteredItems = inventoryItems.filter(item =>
     item.motorFingerprint?.toLowerCase().includes(searchTerm.toLowerCase()) ||
     item.chassisNumber?.toLowerCase().includes(searchTerm.toLowerCase()) ||
@@ -320,7 +536,7 @@ export function CompanySalesPage() {
   )
 
   const onSubmit = async (data: SaleFormData) => {
-    if (!selectedItem || !userData) {
+    if (selectedItems.length === 0 || !userData) {
       toast.error('يرجى اختيار منتج أولاً')
       return
     }
@@ -330,6 +546,44 @@ export function CompanySalesPage() {
       return
     }
 
+    const linesError = validateSaleLines(selectedItems.map(item => ({
+      inventoryItemId: item.id,
+      chassisNumber: item.chassisNumber,
+      salePrice: getLinePrice(item),
+      purchasePrice: item.purchasePrice || 0
+    })), tax.options)
+    if (linesError) {
+      toast.error(linesError)
+      return
+    }
+    if (!priceApproved) {
+      toast.error('يوجد سعر أقل من الحد الأدنى ويحتاج موافقة المدير قبل إنشاء الفاتورة')
+      return
+    }
+
+    // التأكد من أن الحجوزات ما زالت سارية قبل تحويلها إلى بيع
+    for (const item of selectedItems.filter(selected => selected.status === 'reserved')) {
+      const currentReservation = reservations[item.id] ? await ReservationService.getReservation(reservations[item.id].id) : null
+      if (!currentReservation || !isReservationActive(currentReservation)) {
+        toast.error(`انتهى الحجز على المنتج ${item.chassisNumber}، يرجى إعادة تحميل المنتجات`)
+        return
+      }
+    }
+    if (hasTradeIn) {
+      const tradeInError = validateTradeIn(tradeIn, invoiceTotal - depositTotal)
+      if (tradeInError) {
+        toast.error(tradeInError)
+        return
+      }
+    }
+    if (paymentMethod === 'installments') {
+      const termsError = validateInstallmentTerms(amountDue, installmentTerms)
+      if (termsError) {
+        toast.error(termsError)
+        return
+      }
+    }
+
     try {
       setSubmitting(true)
       
@@ -340,125 +594,105 @@ export function CompanySalesPage() {
       )
       
       const transactionId = generateTransactionId('company_sale')
-      const invoiceNumber = `COMP-${Date.now()}`
+      const reservationList = Object.values(reservations)
+
+      // رفع صور أرقام المستعمل قبل إدخاله المخزن
+      const tradeInInput: TradeInInput | null = hasTradeIn ? {
+        ...tradeIn,
+        chassisNumberImageUrl: tradeIn.chassisNumberImageUrl?.startsWith('data:')
+          ? await uploadImageToCloudinary(tradeIn.chassisNumberImageUrl, `trade-in-chassis-${tradeIn.chassisNumber}-${Date.now()}.jpg`)
+          : tradeIn.chassisNumberImageUrl,
+        motorFingerprintImageUrl: tradeIn.motorFingerprintImageUrl?.startsWith('data:')
+          ? await uploadImageToCloudinary(tradeIn.motorFingerprintImageUrl, `trade-in-motor-${tradeIn.motorFingerprint}-${Date.now()}.jpg`)
+          : tradeIn.motorFingerprintImageUrl
+      } : null
 
-      // إنشاء معاملة البيع
+      // إنشاء معاملة البيع: فاتورة واحدة بسطر لكل شاسيه
       const saleTransaction = {
         transactionId,
-        invoiceNumber,
         type: 'company_sale',
         warehouseId: selectedWarehouse,
         customerId: data.customerNationalId,
         customerName: data.customerName,
         customerPhone: data.customerPhone,
         customerAddress: data.customerAddress,
-        items: [{
-          inventoryItemId: selectedItem.id,
-          motorFingerprint: selectedItem.motorFingerprint,
-          chassisNumber: selectedItem.chassisNumber,
-          brand: selectedItem.brand,
-          model: selectedItem.model,
-          salePrice: data.salePrice || selectedItem.salePrice || selectedItem.purchasePrice,
-          originalPrice: selectedItem.salePrice || selectedItem.purchasePrice,
+        items: selectedItems.map(item => ({
+          inventoryItemId: item.id,
+          motorFingerprint: item.motorFingerprint,
+          chassisNumber: item.chassisNumber,
+          brand: item.brand,
+          model: item.model,
+          salePrice: getLineTax(item).grossAmount,
+          listPrice: getPricedLine(item).listPrice,
+          discountAmount: getPricedLine(item).lineDiscount + getPricedLine(item).invoiceDiscountShare,
+          netAmount: getLineTax(item).netAmount,
+          taxAmount: getLineTax(item).taxAmount,
+          originalPrice: item.salePrice || item.purchasePrice,
           // لا نحفظ سعر الشراء أو الربح للموظف
-        }],
-        totalAmount: data.salePrice || selectedItem.salePrice || selectedItem.purchasePrice,
+        })),
+        itemCount: selectedItems.length,
+        subtotal: invoiceSubtotal,
+        taxRate: tax.options.exempt ? 0 : tax.rate,
+        taxAmount: invoiceTax,
+        ...invoiceTaxFields(tax),
+        ...(invoiceDiscount ? { invoiceDiscount } : {}),
+        totalDiscount,
+        totalAmount: invoiceTotal,
+        paymentMethod,
+        ...(reservationList.length > 0 ? {
+          reservationIds: reservationList.map(reservation => reservation.id),
+          depositCredited: depositTotal
+        } : {}),
+        ...(reservationList.length > 0 || hasTradeIn ? { amountDue } : {}),
         notes: data.notes,
         createdAt: serverTimestamp(),
         createdBy: userData.id,
         soldBy: userData.id
       }
 
-      const saleRef = await addDoc(collection(db, 'company_sales'), saleTransaction)
-
-      // تحديث حالة المنتج إلى مباع
-      await updateDoc(doc(db, 'inventory_items', selectedItem.id), {
-        status: 'sold',
-        soldAt: serverTimestamp(),
-        soldBy: userData.id,
-        saleTransactionId: saleRef.id,
-        salePrice: data.salePrice || selectedItem.salePrice || selectedItem.purchasePrice
-      })
-
-      // إرسال إشعار للمدير
-      try {
-        await SimpleNotificationSystem.sendNotification({
-          recipientId: 'eJVyY9OwowchKEMlFLrk4MRiiaq2', // المدير الرئيسي
-          title: '🏢 بيعة شركة جديدة',
-          message: `موظف البيع ${userData.displayName || userData.email} أنشأ بيعة للعميل ${data.customerName} بقيمة ${(data.salePrice || selectedItem.salePrice || selectedItem.purchasePrice).toLocaleString()} جنيه`,
-          type: 'company_sale',
-          actionUrl: `/sales/company/${saleRef.id}`,
-          senderId: userData.id,
-          senderName: userData.displayName || userData.email || 'موظف بيع',
-          priority: 'medium',
-          data: {
-            saleId: saleRef.id,
-            customerName: data.customerName,
-            totalAmount: data.salePrice || selectedItem.salePrice || selectedItem.purchasePrice,
-            itemBrand: selectedItem.brand,
-            itemModel: selectedItem.model
-          }
-        })
-      } catch (notificationError) {
-        console.error('Error sending notification:', notificationError)
-      }
-
-      // إنشاء تتبع الوثائق
-      try {
-        let combinedImageUrl = ''
-        
-        // إنشاء صورة مركبة للوثائق
-        try {
-          const { createCompositeImage } = await import('@/lib/imageComposer')
-          combinedImageUrl = await createCompositeImage({
-            customerIdImage: idCardImageUrl,
-            motorFingerprintImage: selectedItem.motorFingerprintImageUrl || undefined,
-            chassisNumberImage: selectedItem.chassisNumberImageUrl || undefined,
-            customerName: data.customerName,
-            saleDate: new Date().toISOString()
-          })
-          
-          // رفع الصورة المجمعة إلى Cloudinary
-          if (combinedImageUrl) {
-            const response = await fetch(combinedImageUrl)
-            const blob = await response.blob()
-            combinedImageUrl = await uploadImageToCloudinary(
-              combinedImageUrl,
-              `composite-${data.customerNationalId}-${Date.now()}.jpg`
-            )
-          }
-        } catch (compositeError) {
-          console.error('Error generating composite image:', compositeError)
-          // استخدام صورة بطاقة الهوية كـ fallback
-          combinedImageUrl = idCardImageUrl
-        }
+      const saleRef = doc(collection(db, 'company_sales'))
+      // سجلات تتبع الوثائق تنشأ مع الفاتورة، والصورة المجمعة تضاف بعد الحفظ
+      const documentTrackingRefs = selectedItems.map(() => doc(collection(db, 'document_tracking')))
 
-        const documentTracking = {
+      const buildDocumentTracking = (item: InventoryItem, index: number, invoiceNumber: string, priceApproval: PriceApprovalDecision | null) => {
+        const lineTax = getLineTax(item)
+        return {
           transactionId,
           transactionType: 'company_sale',
+          invoiceId: saleRef.id,
+          invoiceNumber,
+          invoiceLineNumber: index + 1,
+          invoiceLineCount: selectedItems.length,
           customerId: data.customerNationalId,
           customerName: data.customerName,
           customerPhone: data.customerPhone,
           customerAddress: data.customerAddress,
-          inventoryItemId: selectedItem.id,
-          motorFingerprint: selectedItem.motorFingerprint,
-          chassisNumber: selectedItem.chassisNumber,
-          brand: selectedItem.brand,
-          model: selectedItem.model,
-          salePrice: data.salePrice || selectedItem.salePrice || selectedItem.purchasePrice,
+          inventoryItemId: item.id,
+          motorFingerprint: item.motorFingerprint,
+          chassisNumber: item.chassisNumber,
+          brand: item.brand,
+          model: item.model,
+          salePrice: lineTax.grossAmount,
+          netAmount: lineTax.netAmount,
+          taxRate: lineTax.taxRate,
+          taxAmount: lineTax.taxAmount,
+          ...invoiceTaxFields(tax),
+          listPrice: getPricedLine(item).listPrice,
+          discountAmount: getPricedLine(item).lineDiscount + getPricedLine(item).invoiceDiscountShare,
+          ...(priceApproval ? { priceApproval } : {}),
           warehouseId: selectedWarehouse,
           saleTransactionId: transactionId,
-          motorBrand: selectedItem.brand,
-          motorModel: selectedItem.model,
-          purchasePrice: selectedItem.purchasePrice,
-          profit: (data.salePrice || selectedItem.salePrice || selectedItem.purchasePrice) - selectedItem.purchasePrice,
+          motorBrand: item.brand,
+          motorModel: item.model,
+          purchasePrice: item.purchasePrice,
+          profit: lineTax.netAmount - item.purchasePrice,
           saleType: 'company_sale',
           status: 'pending_submission',
           // الحقول المباشرة للتوافق مع البيع بالنيابة
           idCardFrontImageUrl: idCardImageUrl,
           idCardBackImageUrl: null,
-          motorFingerprintImageUrl: selectedItem.motorFingerprintImageUrl || null,
-          chassisNumberImageUrl: selectedItem.chassisNumberImageUrl || null,
+          motorFingerprintImageUrl: item.motorFingerprintImageUrl || null,
+          chassisNumberImageUrl: item.chassisNumberImageUrl || null,
           customerIdImageUrl: idCardImageUrl, // للتوافق مع استعلام العملاء
           // البنية المحسنة للوثائق
           documents: {
@@ -469,19 +703,21 @@ export function CompanySalesPage() {
               uploadedBy: userData.id
             },
             motorFingerprint: {
-              imageUrl: selectedItem.motorFingerprintImageUrl || null,
-              status: selectedItem.motorFingerprintImageUrl ? 'uploaded' : 'missing',
-              uploadedAt: selectedItem.motorFingerprintImageUrl ? serverTimestamp() : null,
-              uploadedBy: selectedItem.motorFingerprintImageUrl ? userData.id : null
+              imageUrl: item.motorFingerprintImageUrl || null,
+              status: item.motorFingerprintImageUrl ? 'uploaded' : 'missing',
+              uploadedAt: item.motorFingerprintImageUrl ? serverTimestamp() : null,
+              uploadedBy: item.motorFingerprintImageUrl ? userData.id : null
             },
             chassisNumber: {
-              imageUrl: selectedItem.chassisNumberImageUrl || null,
-              status: selectedItem.chassisNumberImageUrl ? 'uploaded' : 'missing',
-              uploadedAt: selectedItem.chassisNumberImageUrl ? serverTimestamp() : null,
-              uploadedBy: selectedItem.chassisNumberImageUrl ? userData.id : null
+              imageUrl: item.chassisNumberImageUrl || null,
+              status: item.chassisNumberImageUrl ? 'uploaded' : 'missing',
+              uploadedAt: item.chassisNumberImageUrl ? serverTimestamp() : null,
+              uploadedBy: item.chassisNumberImageUrl ? userData.id : null
             }
           },
-          combinedImageUrl,
+          // صورة البطاقة مؤقتاً حتى تجهز الصورة المجمعة بعد الحفظ
+          combinedImageUrl: idCardImageUrl,
+          compositeImageStatus: item.motorFingerprintImageUrl || item.chassisNumberImageUrl ? 'pending' : 'skipped',
           extractedCustomerData: extractedData,
           stages: [{
             status: 'pending_submission',
@@ -495,16 +731,185 @@ export function CompanySalesPage() {
           lastUpdated: serverTimestamp(),
           notes: data.notes || ''
         }
+      }
+
+      // رقم الفاتورة المسلسل يحجز مع إنشاء الفاتورة وتحديث المنتجات والحجوزات وتتبع الوثائق في نفس المعاملة
+      const { invoiceNumber, priceApproval, installmentPlan } = await runTransaction(db, async (transaction) => {
+        // قراءة المنتجات والحجوزات داخل المعاملة حتى لا يباع منتج مرتين أو منتج محجوز لعميل آخر
+        const itemDocs = await Promise.all(selectedItems.map(item => transaction.get(doc(db, 'inventory_items', item.id))))
+        const activeReservations = await Promise.all(
+          reservationList.map(reservation => ReservationService.readForSale(transaction, reservation.id))
+        )
+        itemDocs.forEach((itemDoc, index) => {
+          const chassisNumber = selectedItems[index].chassisNumber
+          if (!itemDoc.exists()) {
+            throw new Error(`المنتج ${chassisNumber} غير موجود`)
+          }
+          const itemData = itemDoc.data()
+          if (itemData.status === 'reserved') {
+            if (!activeReservations.some(reservation => reservation.id === itemData.reservationId)) {
+              throw new Error(`المنتج ${chassisNumber} محجوز لعميل آخر`)
+            }
+          } else if (itemData.status !== 'available' || itemData.currentWarehouseId !== selectedWarehouse) {
+            throw new Error(`المنتج ${chassisNumber} لم يعد متاحاً للبيع، يرجى إعادة تحميل المنتجات`)
+          }
+        })
+
+        // الموافقة تقرأ قبل أي كتابة، وتستهلك مع الفاتورة حتى لا تستخدم لفاتورة أخرى
+        const approval = belowFloorLines.length > 0
+          ? await PriceApprovalService.readForSale(transaction, approvalRequestId!, approvalLines)
+          : null
+        if (tradeInInput) {
+          await TradeInService.checkIdentifiers(transaction, tradeInInput)
+        }
+        // رقم عقد التقسيط يحجز مع رقم الفاتورة حتى لا يوجد بيع بالتقسيط بدون خطة
+        const [allocatedNumber, contractNumber] = await DocumentNumberingService.allocateMany(
+          transaction,
+          paymentMethod === 'installments' ? ['sales_invoice', 'installment_contract'] : ['sales_invoice']
+        )
+
+        const priceApproval: PriceApprovalDecision | null = approval
+          ? PriceApprovalService.markUsed(transaction, approval, saleRef.id)
+          : null
+        // المستعمل يدخل مخزن البيع بتكلفة القيمة المتفق عليها
+        const receivedTradeIn: TradeIn | null = tradeInInput
+          ? TradeInService.receive(
+              transaction,
+              tradeInInput,
+              { saleId: saleRef.id, saleSource: 'company_sale', invoiceNumber: allocatedNumber },
+              selectedWarehouse,
+              userData.id
+            )
+          : null
+        transaction.set(saleRef, {
+          ...saleTransaction,
+          invoiceNumber: allocatedNumber,
+          documentTrackingIds: documentTrackingRefs.map(ref => ref.id),
+          ...(priceApproval ? { priceApproval } : {}),
+          ...(receivedTradeIn ? { tradeIn: receivedTradeIn } : {})
+        })
+
+        // تحديث حالة جميع منتجات الفاتورة إلى مباع
+        selectedItems.forEach(item => {
+          transaction.update(doc(db, 'inventory_items', item.id), {
+            status: 'sold',
+            soldAt: serverTimestamp(),
+            soldBy: userData.id,
+            saleTransactionId: saleRef.id,
+            salePrice: getLineTax(item).grossAmount
+          })
+        })
+
+        // إغلاق الحجوزات وربطها بالفاتورة
+        activeReservations.forEach(reservation => {
+          ReservationService.markConverted(transaction, reservation, {
+            saleId: saleRef.id,
+            saleSource: 'company_sale',
+            userId: userData.id
+          })
+        })
+
+        // سجل تتبع وثائق لكل منتج في الفاتورة
+        selectedItems.forEach((item, index) => {
+          transaction.set(documentTrackingRefs[index], buildDocumentTracking(item, index, allocatedNumber, priceApproval))
+        })
+
+        // خطة التقسيط وجدول الأقساط على المبلغ المستحق بعد العربون والمستعمل
+        const installmentPlanId = contractNumber
+          ? InstallmentService.writePlan(transaction, {
+              sale: {
+                saleId: saleRef.id,
+                saleSource: 'company_sale',
+                invoiceNumber: allocatedNumber,
+                documentTrackingId: documentTrackingRefs[0].id,
+                items: selectedItems.map(item => ({
+                  inventoryItemId: item.id,
+                  motorFingerprint: item.motorFingerprint,
+                  chassisNumber: item.chassisNumber,
+                  brand: item.brand,
+                  model: item.model,
+                  salePrice: getLineTax(item).grossAmount
+                })),
+                customerName: data.customerName,
+                customerNationalId: data.customerNationalId,
+                customerPhone: data.customerPhone,
+                customerAddress: data.customerAddress,
+                salePrice: amountDue
+              },
+              terms: installmentTerms,
+              userId: userData.id
+            }, contractNumber)
+          : null
+
+        return {
+          invoiceNumber: allocatedNumber,
+          priceApproval,
+          installmentPlan: installmentPlanId ? { planId: installmentPlanId, contractNumber } : null
+        }
+      })
+
+      const itemsDescription = selectedItems.length === 1
+        ? `${selectedItems[0].brand} ${selectedItems[0].model}`
+        : `${selectedItems.length} موتوسيكلات`
+
+      // إرسال إشعار للمدير
+      try {
+        await SimpleNotificationSystem.sendNotification({
+          recipientId: 'eJVyY9OwowchKEMlFLrk4MRiiaq2', // المدير الرئيسي
+          title: '🏢 بيعة شركة جديدة',
+          message: `موظف البيع ${userData.displayName || userData.email} أنشأ الفاتورة ${invoiceNumber} للعميل ${data.customerName} (${itemsDescription}) بقيمة ${invoiceTotal.toLocaleString()} جنيه`,
+          type: 'company_sale',
+          actionUrl: `/sales/company/${saleRef.id}`,
+          senderId: userData.id,
+          senderName: userData.displayName || userData.email || 'موظف بيع',
+          priority: 'medium',
+          data: {
+            saleId: saleRef.id,
+            customerName: data.customerName,
+            totalAmount: invoiceTotal,
+            itemCount: selectedItems.length,
+            itemBrand: selectedItems[0].brand,
+            itemModel: selectedItems[0].model
+          }
+        })
+      } catch (notificationError) {
+        console.error('Error sending notification:', notificationError)
+      }
+
+      // الصورة المجمعة لكل سجل تتبع بعد حفظ الفاتورة (لا تؤثر على نجاح البيع)
+      for (const [index, item] of selectedItems.entries()) {
+        const docTrackingRef = documentTrackingRefs[index]
+        if (item.motorFingerprintImageUrl || item.chassisNumberImageUrl) {
+          try {
+            const compositeImage = await createCompositeImage({
+              customerIdImage: idCardImageUrl,
+              motorFingerprintImage: item.motorFingerprintImageUrl || undefined,
+              chassisNumberImage: item.chassisNumberImageUrl || undefined,
+              customerName: data.customerName,
+              saleDate: new Date().toISOString()
+            })
+            const combinedImageUrl = await uploadImageToCloudinary(
+              compositeImage,
+              `composite-${data.customerNationalId}-${item.chassisNumber}-${Date.now()}.jpg`
+            )
+            await updateDoc(docTrackingRef, {
+              combinedImageUrl,
+              compositeImageStatus: 'uploaded',
+              updatedAt: serverTimestamp()
+            })
+          } catch (compositeError) {
+            console.error('Error generating composite image:', compositeError)
+            // تبقى صورة بطاقة الهوية كـ fallback
+            await updateDoc(docTrackingRef, { compositeImageStatus: 'failed' }).catch(() => undefined)
+          }
+        }
 
-        const docTrackingRef = await addDoc(collection(db, 'document_tracking'), documentTracking)
-        console.log('✅ Document tracking created successfully')
-        
         // إرسال إشعار عن إنشاء الوثيقة الجديدة
         try {
           await SimpleNotificationSystem.sendNotification({
             recipientId: 'eJVyY9OwowchKEMlFLrk4MRiiaq2', // المدير الرئيسي
             title: '📄 تم إنشاء وثيقة جديدة',
-            message: `تم إنشاء وثيقة تتبع جديدة للعميل ${data.customerName} - ${selectedItem.brand} ${selectedItem.model}`,
+            message: `تم إنشاء وثيقة تتبع جديدة للعميل ${data.customerName} - ${item.brand} ${item.model}`,
             type: 'document_created',
             actionUrl: `/documents/${docTrackingRef.id}`,
             senderId: userData.id,
@@ -513,29 +918,37 @@ export function CompanySalesPage() {
             data: {
               documentId: docTrackingRef.id,
               customerName: data.customerName,
-              motorFingerprint: selectedItem.motorFingerprint,
-              chassisNumber: selectedItem.chassisNumber
+              motorFingerprint: item.motorFingerprint,
+              chassisNumber: item.chassisNumber
             }
           })
         } catch (notificationError) {
           console.error('Error sending document creation notification:', notificationError)
         }
-      } catch (docError) {
-        console.error('Error creating document tracking:', docError)
-        // لا نوقف العملية إذا فشل إنشاء تتبع الوثائق
       }
 
-      toast.success('تم إنشاء فاتورة البيع وتتبع الوثائق بنجاح!')
+      if (installmentPlan) {
+        toast.success(`تم إنشاء عقد التقسيط رقم ${installmentPlan.contractNumber}`)
+        navigate(`/sales/installments/${installmentPlan.planId}`)
+      }
+
+      // فحص حدود إعادة الطلب للمخازن التي بيع منها
+      ReorderLevelService.checkWarehouses(selectedItems.map(item => item.currentWarehouseId))
+
+      toast.success(`تم إنشاء فاتورة البيع (${selectedItems.length} منتج) وتتبع الوثائق بنجاح!`)
       reset()
-      setSelectedItem(null)
+      clearSelection()
       setSelectedWarehouse('')
       setSearchTerm('')
       setExtractedData({})
-      setCustomSalePrice(null)
+      setPaymentMethod('cash')
+      setInstallmentTerms(getDefaultInstallmentTerms())
+      setHasTradeIn(false)
+      setTradeIn(emptyTradeIn())
       
     } catch (error) {
       console.error('Error creating sale:', error)
-      toast.error('فشل في إنشاء فاتورة البيع')
+      toast.error(`فشل في إنشاء فاتورة البيع: ${error instanceof Error ? error.message : 'خطأ غير معروف'}`)
     } finally {
       setSubmitting(false)
     }
@@ -599,7 +1012,10 @@ export function CompanySalesPage() {
           <CardHeader>
             <CardTitle className="flex items-center gap-2">
               <Package className="h-5 w-5" />
-              اختيار المنتج
+              اختيار المنتجات
+              {selectedItems.length > 0 && (
+                <span className="text-sm font-normal text-gray-500">({selectedItems.length} في الفاتورة)</span>
+              )}
             </CardTitle>
           </CardHeader>
           <CardContent className="space-y-4">
@@ -613,7 +1029,11 @@ export function CompanySalesPage() {
               ) : (
                 <select
                   value={selectedWarehouse}
-                  onChange={(e) => setSelectedWarehouse(e.target.value)}
+                  onChange={(e) => {
+                    // الفاتورة تصدر من مخزن واحد
+                    setSelectedWarehouse(e.target.value)
+                    clearSelection()
+                  }}
                   className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white text-gray-900 arabic-text"
                 >
                   <option value="">اختر المخزن</option>
@@ -640,14 +1060,24 @@ export function CompanySalesPage() {
             {selectedWarehouse && (
               <div className="space-y-2">
                 <Label>البحث في المنتجات</Label>
-                <div className="relative">
-                  <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
-                  <Input
-                    placeholder="البحث بالبصمة أو الشاسيه أو الماركة..."
-                    value={searchTerm}
-                    onChange={(e) => setSearchTerm(e.target.value)}
-                    className="pl-10"
-                  />
+                <div className="flex gap-2">
+                  <div className="relative flex-1">
+                    <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+                    <Input
+                      placeholder="البحث بالبصمة أو الشاسيه أو الماركة..."
+                      value={searchTerm}
+                      onChange={(e) => setSearchTerm(e.target.value)}
+                      onKeyDown={(e) => {
+                        // قارئ الباركود يكتب محتوى الملصق ثم Enter
+                        if (e.key === 'Enter') {
+                          e.preventDefault()
+                          handleScannedItem(searchTerm)
+                        }
+                      }}
+                      className="pl-10"
+                    />
+                  </div>
+                  <QrScanButton onScan={handleScannedItem} />
                 </div>
               </div>
             )}
@@ -668,15 +1098,20 @@ export function CompanySalesPage() {
                     <div
                       key={item.id}
                       className={`p-3 border rounded-lg cursor-pointer transition-colors ${
-                        selectedItem?.id === item.id
+                        selectedItems.some(selected => selected.id === item.id)
                           ? 'border-blue-500 bg-blue-50'
                           : 'border-gray-200 hover:border-gray-300'
                       }`}
-                      onClick={() => setSelectedItem(item)}
+                      onClick={() => handleSelectItem(item)}
                     >
                       <div className="flex justify-between items-start">
                         <div className="flex-1">
-                          <h4 className="font-medium arabic-text">{item.brand} {item.model}</h4>
+                          <h4 className="font-medium arabic-text">
+                            {item.brand} {item.model}
+                            {item.status === 'reserved' && (
+                              <span className="mr-2 px-2 py-0.5 text-xs rounded-full bg-yellow-100 text-yellow-800">محجوز</span>
+                            )}
+                          </h4>
                           <p className="text-sm text-gray-600 arabic-text">
                             اللون: {item.color} | سنة الصنع: {item.manufacturingYear}
                           </p>
@@ -872,94 +1307,210 @@ export function CompanySalesPage() {
                 />
               </div>
 
-              {/* سعر البيع المخصص */}
-              {selectedItem && (
+              {/* أسطر الفاتورة: سعر بيع لكل شاسيه */}
+              {selectedItems.length > 0 && (
                 <div className="space-y-2">
-                  <Label htmlFor="salePrice" className="flex items-center gap-2">
-                    <span>سعر البيع</span>
-                    <span className="text-xs text-gray-500">
-                      (السعر الافتراضي: {(selectedItem.salePrice || selectedItem.purchasePrice)?.toLocaleString()} جنيه)
-                    </span>
-                  </Label>
-                  <div className="relative">
-                    <Input
-                      id="salePrice"
-                      type="number"
-                      min="0"
-                      step="0.01"
-                      {...register('salePrice', {
-                        valueAsNumber: true,
-                        validate: (value) => {
-                          if (value && selectedItem) {
-                            const minPrice = selectedItem.purchasePrice || 0
-                            if (value < minPrice) {
-                              return `سعر البيع لا يمكن أن يكون أقل من سعر الشراء (${minPrice.toLocaleString()} جنيه)`
-                            }
-                          }
-                          return true
-                        }
-                      })}
-                      placeholder={`السعر الافتراضي: ${(selectedItem.salePrice || selectedItem.purchasePrice)?.toLocaleString()}`}
-                      className="input-rtl"
-                      onChange={(e) => {
-                        const value = parseFloat(e.target.value)
-                        setCustomSalePrice(isNaN(value) ? null : value)
-                      }}
-                    />
-                    <span className="absolute left-3 top-3 text-gray-400 text-sm">جنيه</span>
+                  <Label>أسطر الفاتورة</Label>
+                  <div className="space-y-2">
+                    {selectedItems.map(item => {
+                      const lineTax = getLineTax(item)
+                      const pricedLine = getPricedLine(item)
+                      const floorPrice = getFloorPrice(item, priceFloors)
+                      return (
+                        <div key={item.id} className="p-3 border border-gray-200 rounded-lg space-y-2">
+                          <div className="flex items-center justify-between">
+                            <div>
+                              <p className="text-sm font-medium arabic-text">{item.brand} {item.model}</p>
+                              <p className="text-xs text-gray-500 font-mono">{item.chassisNumber}</p>
+                            </div>
+                            <Button type="button" variant="ghost" size="sm" onClick={() => removeLine(item.id)}>
+                              <Trash2 className="h-4 w-4 text-red-500" />
+                            </Button>
+                          </div>
+                          <div className="relative">
+                            <Input
+                              type="number"
+                              min="0"
+                              step="0.01"
+                              value={linePrices[item.id] ?? ''}
+                              onChange={(e) => {
+                                const value = parseFloat(e.target.value)
+                                setLinePrices(prev => {
+                                  const { [item.id]: _previous, ...rest } = prev
+                                  return isNaN(value) ? rest : { ...rest, [item.id]: value }
+                                })
+                              }}
+                              placeholder={`السعر الافتراضي: ${(item.salePrice || item.purchasePrice)?.toLocaleString()}`}
+                              className="input-rtl"
+                            />
+                            <span className="absolute left-3 top-3 text-gray-400 text-sm">جنيه</span>
+                          </div>
+                          <DiscountInput
+                            id={`lineDiscount-${item.id}`}
+                            value={lineDiscounts[item.id]}
+                            onChange={(discount) => setLineDiscounts(prev => {
+                              const { [item.id]: _previous, ...rest } = prev
+                              return discount ? { ...rest, [item.id]: discount } : rest
+                            })}
+                          />
+                          {pricedLine.finalPrice !== pricedLine.listPrice && (
+                            <p className="text-xs text-gray-600 arabic-text">
+                              الخصم: {(pricedLine.lineDiscount + pricedLine.invoiceDiscountShare).toLocaleString()} | السعر بعد الخصم: {pricedLine.finalPrice.toLocaleString()} جنيه
+                            </p>
+                          )}
+                          {floorPrice > 0 && pricedLine.finalPrice < floorPrice && (
+                            <p className="text-xs text-red-600 arabic-text">
+                              ⚠️ السعر بعد الخصم أقل من الحد الأدنى ({floorPrice.toLocaleString()} جنيه)
+                            </p>
+                          )}
+                          {lineTax.taxAmount > 0 && (
+                            <p className="text-xs text-gray-600 arabic-text">
+                              بدون الضريبة: {lineTax.netAmount.toLocaleString()} | الضريبة: {lineTax.taxAmount.toLocaleString()} | الإجمالي: {lineTax.grossAmount.toLocaleString()} جنيه
+                            </p>
+                          )}
+                          {item.purchasePrice > 0 && lineTax.netAmount < item.purchasePrice && (
+                            <p className="text-xs text-red-600 arabic-text">
+                              ⚠️ سعر البيع بدون الضريبة أقل من سعر الشراء ({item.purchasePrice.toLocaleString()} جنيه)
+                            </p>
+                          )}
+                          {canSeeProfit && item.purchasePrice > 0 && lineTax.netAmount > item.purchasePrice && (
+                            <p className="text-xs text-green-600 arabic-text">
+                              ✅ ربح متوقع: {(lineTax.netAmount - item.purchasePrice).toLocaleString()} جنيه
+                            </p>
+                          )}
+                        </div>
+                      )
+                    })}
                   </div>
-                  {errors.salePrice && (
-                    <p className="text-sm text-destructive arabic-text">{errors.salePrice.message}</p>
-                  )}
-                  {customSalePrice && selectedItem.purchasePrice && customSalePrice < selectedItem.purchasePrice && (
-                    <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
-                      <p className="text-sm text-red-800 arabic-text">
-                        ⚠️ <strong>تحذير:</strong> سعر البيع ({customSalePrice.toLocaleString()} جنيه) أقل من سعر الشراء ({selectedItem.purchasePrice.toLocaleString()} جنيه)
-                      </p>
-                      <p className="text-xs text-red-600 mt-1">
-                        هذا سيؤدي إلى خسارة قدرها {(selectedItem.purchasePrice - customSalePrice).toLocaleString()} جنيه
-                      </p>
-                    </div>
+                </div>
+              )}
+
+              {selectedItems.length > 0 && (
+                <div className="space-y-2">
+                  <Label htmlFor="invoiceDiscount">خصم على إجمالي الفاتورة</Label>
+                  <DiscountInput id="invoiceDiscount" value={invoiceDiscount} onChange={setInvoiceDiscount} />
+                  {totalDiscount > 0 && (
+                    <p className="text-xs text-gray-600 arabic-text">
+                      إجمالي الخصومات: {totalDiscount.toLocaleString()} جنيه
+                    </p>
                   )}
-                  {customSalePrice && selectedItem.purchasePrice && customSalePrice > selectedItem.purchasePrice && (
-                    <div className="p-3 bg-green-50 border border-green-200 rounded-lg">
-                      <p className="text-sm text-green-800 arabic-text">
-                        ✅ ربح متوقع: {(customSalePrice - selectedItem.purchasePrice).toLocaleString()} جنيه
-                      </p>
-                    </div>
+                </div>
+              )}
+
+              {belowFloorLines.length > 0 && (
+                <PriceApprovalPanel
+                  belowFloorLines={belowFloorLines}
+                  request={approvalRequest}
+                  approved={priceApproved}
+                  requesting={requestingApproval}
+                  onRequest={handleRequestApproval}
+                />
+              )}
+
+              {selectedItems.length > 0 && (
+                <InvoiceTaxFields
+                  rate={tax.rate}
+                  taxMode={tax.taxMode}
+                  onTaxModeChange={tax.setTaxMode}
+                  exemption={tax.exemption}
+                  subtotal={invoiceSubtotal}
+                  totalTax={invoiceTax}
+                  totalAmount={invoiceTotal}
+                />
+              )}
+
+              {/* طريقة الدفع */}
+              {selectedItems.length > 0 && (
+                <div className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="paymentMethod">طريقة الدفع</Label>
+                    <select
+                      id="paymentMethod"
+                      value={paymentMethod}
+                      onChange={(e) => setPaymentMethod(e.target.value as 'cash' | 'installments')}
+                      className="form-input w-full input-rtl arabic-text"
+                    >
+                      <option value="cash">{paymentMethodTranslations.cash}</option>
+                      <option value="installments">{paymentMethodTranslations.installments}</option>
+                    </select>
+                  </div>
+                  <label className="flex items-center gap-2 text-sm arabic-text">
+                    <input
+                      type="checkbox"
+                      checked={hasTradeIn}
+                      onChange={(e) => setHasTradeIn(e.target.checked)}
+                    />
+                    <Repeat className="h-4 w-4" />
+                    استبدال موتوسيكل مستعمل من العميل كجزء من الثمن
+                  </label>
+                  {hasTradeIn && <TradeInFields value={tradeIn} onChange={setTradeIn} />}
+                  {paymentMethod === 'installments' && (
+                    <InstallmentTermsFields
+                      salePrice={amountDue}
+                      value={installmentTerms}
+                      onChange={setInstallmentTerms}
+                    />
                   )}
                 </div>
               )}
 
               {/* ملخص البيع */}
-              {selectedItem && (
+              {selectedItems.length > 0 && (
                 <div className="p-4 bg-gray-50 rounded-lg space-y-2">
                   <h4 className="font-medium arabic-text">ملخص البيع</h4>
                   <div className="space-y-1 text-sm">
-                    <div className="flex justify-between">
-                      <span>المنتج:</span>
-                      <span className="arabic-text">{selectedItem.brand} {selectedItem.model}</span>
-                    </div>
-                    <div className="flex justify-between">
-                      <span>سعر البيع:</span>
+                    {selectedItems.map(item => (
+                      <div key={item.id} className="flex justify-between">
+                        <span className="arabic-text">{item.brand} {item.model}</span>
+                        <span>{getLineTax(item).grossAmount.toLocaleString()} جنيه</span>
+                      </div>
+                    ))}
+                    <div className="flex justify-between border-t pt-1">
+                      <span>إجمالي الفاتورة شامل الضريبة ({selectedItems.length} منتج):</span>
                       <span className="font-medium text-green-600">
-                        {(customSalePrice || selectedItem.salePrice || selectedItem.purchasePrice)?.toLocaleString()} جنيه
+                        {invoiceTotal.toLocaleString()} جنيه
                       </span>
                     </div>
-                    {customSalePrice && customSalePrice !== (selectedItem.salePrice || selectedItem.purchasePrice) && (
-                      <div className="flex justify-between text-xs text-gray-500">
-                        <span>السعر الأصلي:</span>
-                        <span>{(selectedItem.salePrice || selectedItem.purchasePrice)?.toLocaleString()} جنيه</span>
+                    {depositTotal > 0 && (
+                      <div className="flex justify-between text-yellow-800">
+                        <span>العربون المدفوع (حجز):</span>
+                        <span>- {depositTotal.toLocaleString()} جنيه</span>
+                      </div>
+                    )}
+                    {tradeInValue > 0 && (
+                      <div className="flex justify-between text-blue-800">
+                        <span className="arabic-text">المستعمل ({tradeIn.brand} {tradeIn.model}):</span>
+                        <span>- {tradeInValue.toLocaleString()} جنيه</span>
+                      </div>
+                    )}
+                    {(depositTotal > 0 || tradeInValue > 0) && (
+                      <div className="flex justify-between border-t pt-1">
+                        <span className="font-medium">المتبقي على العميل:</span>
+                        <span className="font-bold">
+                          {amountDue.toLocaleString()} جنيه
+                        </span>
                       </div>
                     )}
                   </div>
                 </div>
               )}
 
+              {selectedItems.length === 1 && selectedItems[0].status === 'available' && (
+                <Button
+                  type="button"
+                  variant="outline"
+                  className="w-full"
+                  onClick={() => setShowReserveDialog(true)}
+                >
+                  <BookmarkPlus className="ml-2 h-4 w-4" />
+                  حجز المنتج بعربون بدلاً من البيع
+                </Button>
+              )}
+
               <Button 
                 type="submit" 
                 className="w-full" 
-                disabled={!selectedItem || submitting}
+                disabled={selectedItems.length === 0 || submitting || !priceApproved}
               >
                 <Save className="ml-2 h-4 w-4" />
                 {submitting ? 'جاري الحفظ...' : 'إنشاء فاتورة البيع'}
@@ -968,6 +1519,24 @@ export function CompanySalesPage() {
           </CardContent>
         </Card>
       </div>
+
+      {showReserveDialog && selectedItems.length === 1 && (
+        <ReserveItemDialog
+          item={selectedItems[0]}
+          userId={userData.id}
+          userName={userData.displayName}
+          defaultCustomer={{
+            name: watch('customerName'),
+            phone: watch('customerPhone'),
+            nationalId: watch('customerNationalId')
+          }}
+          onClose={() => setShowReserveDialog(false)}
+          onReserved={() => {
+            clearSelection()
+            loadInventoryItems()
+          }}
+        />
+      )}
     </div>
   )
 }
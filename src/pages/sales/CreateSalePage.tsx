@@ -12,7 +12,7 @@ import {
   Plus,
   Trash2
 } from 'lucide-react'
-import { addDoc, collection, serverTimestamp, doc, updateDoc, query, where, getDocs } from 'firebase/firestore'
+import { collection, serverTimestamp, doc, query, where, getDocs, runTransaction } from 'firebase/firestore'
 import { uploadToCloudinary, validateImageFile, compressImage } from '@/lib/cloudinary'
 import { useAuthState } from 'react-firebase-hooks/auth'
 
@@ -29,6 +29,8 @@ import { CreateSaleForm, InventoryItem, Warehouse } from '@/types'
 import { generateTransactionId, getErrorMessage, formatCurrency } from '@/lib/utils'
 import { createCompositeImage } from '@/lib/imageComposer'
 import { extractEgyptianIdCardEnhanced } from '@/lib/enhancedOCR'
+import { ReorderLevelService } from '@/lib/reorderLevels'
+import { DocumentNumberingService } from '@/lib/documentNumbering'
 
 interface FormData extends CreateSaleForm {
   idCardImage?: string
@@ -350,42 +352,57 @@ export default function CreateSalePage() {
         createdBy: userData.id
       }
 
-      // Add document tracking entry to Firestore
-      await addDoc(collection(db, 'document_tracking'), documentTrackingData)
+      // رقم الفاتورة المسلسل يحجز مع تتبع الوثائق وتحديث المنتجات وسجل المؤسسة في نفس المعاملة
+      const invoiceNumber = await runTransaction(db, async (transaction) => {
+        const itemDocs = await Promise.all(selectedItems.map(item => transaction.get(doc(db, 'inventory_items', item.inventoryItem.id))))
+        itemDocs.forEach((itemDoc, index) => {
+          if (!itemDoc.exists() || itemDoc.data().status !== 'available') {
+            throw new Error(`المنتج ${selectedItems[index].inventoryItem.chassisNumber} لم يعد متاحاً للبيع`)
+          }
+        })
+        const allocatedNumber = await DocumentNumberingService.allocate(transaction, 'sales_invoice')
 
-      // Update inventory items status to 'sold'
-      for (const item of selectedItems) {
-        await updateDoc(doc(db, 'inventory_items', item.inventoryItem.id), {
-          status: 'sold',
-          updatedAt: serverTimestamp()
+        // Add document tracking entry to Firestore
+        transaction.set(doc(collection(db, 'document_tracking')), { ...documentTrackingData, invoiceNumber: allocatedNumber })
+
+        // Update inventory items status to 'sold'
+        for (const item of selectedItems) {
+          transaction.update(doc(db, 'inventory_items', item.inventoryItem.id), {
+            status: 'sold',
+            updatedAt: serverTimestamp()
+          })
+        }
+
+        // Create institution transaction record (all profits go to institution)
+        transaction.set(doc(collection(db, 'institution_transactions')), {
+          transactionId: saleTransactionId,
+          invoiceNumber: allocatedNumber,
+          type: 'institution_sale',
+          amount: totalProfit, // All profit goes to institution
+          description: `بيع ${selectedItems.length} موتوسيكل للعميل ${data.customer.name} - فاتورة رقم ${allocatedNumber}`,
+          customerId: data.customer.nationalId,
+          customerName: data.customer.name,
+          items: selectedItems.map(item => ({
+            inventoryItemId: item.inventoryItem.id,
+            motorFingerprint: item.inventoryItem.motorFingerprint,
+            chassisNumber: item.inventoryItem.chassisNumber,
+            salePrice: item.salePrice,
+            purchasePrice: item.inventoryItem.purchasePrice,
+            profit: item.salePrice - item.inventoryItem.purchasePrice
+          })),
+          totalAmount,
+          totalProfit,
+          createdAt: serverTimestamp(),
+          createdBy: userData.id
         })
-      }
 
-      // Create institution transaction record (all profits go to institution)
-      const institutionTransaction = {
-        transactionId: saleTransactionId,
-        type: 'institution_sale',
-        amount: totalProfit, // All profit goes to institution
-        description: `بيع ${selectedItems.length} موتوسيكل للعميل ${data.customer.name} - جميع الأرباح للمؤسسة`,
-        customerId: data.customer.nationalId,
-        customerName: data.customer.name,
-        items: selectedItems.map(item => ({
-          inventoryItemId: item.inventoryItem.id,
-          motorFingerprint: item.inventoryItem.motorFingerprint,
-          chassisNumber: item.inventoryItem.chassisNumber,
-          salePrice: item.salePrice,
-          purchasePrice: item.inventoryItem.purchasePrice,
-          profit: item.salePrice - item.inventoryItem.purchasePrice
-        })),
-        totalAmount,
-        totalProfit,
-        createdAt: serverTimestamp(),
-        createdBy: userData.id
-      }
-      
-      await addDoc(collection(db, 'institution_transactions'), institutionTransaction)
+        return allocatedNumber
+      })
+
+      // فحص حدود إعادة الطلب للمخازن التي بيع منها
+      ReorderLevelService.checkWarehouses(selectedItems.map(item => item.inventoryItem.currentWarehouseId))
 
-      toast.success('تم إنشاء فاتورة البيع بنجاح')
+      toast.success(`تم إنشاء فاتورة البيع رقم ${invoiceNumber} بنجاح`)
       navigate('/sales')
     } catch (error) {
       console.error('Error creating sale:', error)
@@ -0,0 +1,350 @@
+import { useState, useEffect, useRef } from 'react'
+import { useParams, useNavigate } from 'react-router-dom'
+import { ArrowLeft, Printer, Wallet, X, CalendarClock } from 'lucide-react'
+import { useAuthState } from 'react-firebase-hooks/auth'
+import { toast } from 'sonner'
+
+import { auth } from '@/firebase/firebase-config.template'
+import { Button } from '@/components/ui/Button'
+import { Input } from '@/components/ui/Input'
+import { Label } from '@/components/ui/Label'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card'
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner'
+import { InstallmentContract } from '@/components/ui/InstallmentContract'
+import { useUserData } from '@/hooks/useUserData'
+import { InstallmentService, getOverdueInstallments, getRemainingAmount } from '@/lib/installments'
+import { AgentPermissionsService } from '@/lib/agentPermissions'
+import { formatCurrency, formatDate, formatDateTime, printElement, paymentMethodTranslations, isAdmin, isAgent } from '@/lib/utils'
+import { Installment, InstallmentCollection, InstallmentPlan, PaymentMethod } from '@/types'
+
+const planStatusLabels: Record<InstallmentPlan['status'], string> = {
+  active: 'نشط',
+  completed: 'مسدد بالكامل',
+  cancelled: 'ملغي (مرتجع)'
+}
+
+export default function InstallmentPlanDetailsPage() {
+  const { id } = useParams<{ id: string }>()
+  const navigate = useNavigate()
+  const [user] = useAuthState(auth)
+  const { userData } = useUserData(user?.uid)
+  const [plan, setPlan] = useState<InstallmentPlan | null>(null)
+  const [collections, setCollections] = useState<InstallmentCollection[]>([])
+  const [loading, setLoading] = useState(true)
+  const [canCollect, setCanCollect] = useState(false)
+  const [collectingInstallment, setCollectingInstallment] = useState<Installment | null>(null)
+  const [collectionAmount, setCollectionAmount] = useState('')
+  const [collectionMethod, setCollectionMethod] = useState<PaymentMethod>('cash')
+  const [collectionNotes, setCollectionNotes] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+  const contractRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    if (id && userData) {
+      loadPlan()
+    }
+  }, [id, userData])
+
+  // المدير يرى ويحصل كل الخطط، الوكيل خطط مبيعاته فقط، وموظفو البيع يطلعون على خطط الشركة دون تحصيل
+  const resolveAccess = async (planData: InstallmentPlan): Promise<{ canView: boolean; canCollect: boolean }> => {
+    if (!userData) {
+      return { canView: false, canCollect: false }
+    }
+    if (isAdmin(userData.role)) {
+      return { canView: true, canCollect: true }
+    }
+    if (isAgent(userData.role)) {
+      const agent = await AgentPermissionsService.getAgentData(userData.id)
+      const ownsPlan = !!agent && planData.agentId === agent.id
+      return { canView: ownsPlan, canCollect: ownsPlan }
+    }
+    return { canView: planData.saleSource === 'company_sale', canCollect: false }
+  }
+
+  const loadPlan = async () => {
+    if (!id) return
+
+    setLoading(true)
+    const planData = await InstallmentService.getPlan(id)
+    const access = planData ? await resolveAccess(planData) : { canView: false, canCollect: false }
+    if (planData && !access.canView) {
+      toast.error('ليس لديك صلاحية لعرض خطة التقسيط هذه')
+      navigate('/sales/installments')
+      return
+    }
+    setPlan(planData)
+    setCanCollect(access.canCollect)
+    setCollections(planData ? await InstallmentService.getCollections(planData.id) : [])
+    setLoading(false)
+  }
+
+  const openCollection = (installment: Installment) => {
+    setCollectingInstallment(installment)
+    setCollectionAmount(String(getRemainingAmount(installment)))
+    setCollectionMethod('cash')
+    setCollectionNotes('')
+  }
+
+  const handleCollect = async () => {
+    if (!plan || !collectingInstallment || !userData || !canCollect) return
+
+    setSubmitting(true)
+    const result = await InstallmentService.recordCollection({
+      planId: plan.id,
+      installmentNumber: collectingInstallment.number,
+      amount: parseFloat(collectionAmount),
+      paymentMethod: collectionMethod,
+      notes: collectionNotes.trim() || undefined,
+      userId: userData.id
+    })
+    setSubmitting(false)
+
+    if (!result.success) {
+      toast.error(result.error || 'فشل في تسجيل التحصيل')
+      return
+    }
+
+    toast.success(result.planCompleted
+      ? `تم التحصيل (إيصال ${result.receiptNumber}) - تم سداد جميع الأقساط`
+      : `تم التحصيل بنجاح - إيصال رقم ${result.receiptNumber}`
+    )
+    setCollectingInstallment(null)
+    await loadPlan()
+  }
+
+  if (loading) {
+    return <LoadingSpinner text="جاري تحميل خطة التقسيط..." />
+  }
+
+  if (!plan) {
+    return (
+      <div className="text-center py-12">
+        <p className="text-gray-600 arabic-text mb-4">خطة التقسيط غير موجودة</p>
+        <Button variant="outline" onClick={() => navigate('/sales/installments')}>
+          العودة
+        </Button>
+      </div>
+    )
+  }
+
+  const overdueNumbers = new Set(getOverdueInstallments(plan).map(installment => installment.number))
+  const remainingTotal = plan.totalPayable - plan.totalCollected
+
+  const getInstallmentBadge = (installment: Installment) => {
+    if (installment.status === 'paid') {
+      return <span className="px-2 py-1 text-xs rounded-full bg-green-100 text-green-800">مسدد</span>
+    }
+    if (overdueNumbers.has(installment.number)) {
+      return <span className="px-2 py-1 text-xs rounded-full bg-red-100 text-red-800">متأخر</span>
+    }
+    if (installment.status === 'partial') {
+      return <span className="px-2 py-1 text-xs rounded-full bg-yellow-100 text-yellow-800">مسدد جزئياً</span>
+    }
+    return <span className="px-2 py-1 text-xs rounded-full bg-gray-100 text-gray-800">مستحق</span>
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Page Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 arabic-text">
+            عقد تقسيط رقم {plan.contractNumber}
+          </h1>
+          <p className="text-gray-600 arabic-text">
+            {plan.customerName} - {plan.items.map(item => `${item.brand} ${item.model}`).join('، ')} ({planStatusLabels[plan.status]})
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          <Button
+            variant="outline"
+            onClick={() => contractRef.current && printElement(contractRef.current, `عقد تقسيط ${plan.contractNumber}`)}
+          >
+            <Printer className="ml-2 h-4 w-4" />
+            طباعة العقد
+          </Button>
+          <Button variant="outline" onClick={() => navigate('/sales/installments')}>
+            <ArrowLeft className="ml-2 h-4 w-4" />
+            العودة
+          </Button>
+        </div>
+      </div>
+
+      {/* Summary */}
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+        <Card>
+          <CardContent className="p-6">
+            <p className="text-sm font-medium text-gray-600 arabic-text">إجمالي الأقساط</p>
+            <p className="text-2xl font-bold text-gray-900">{formatCurrency(plan.totalPayable)}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-6">
+            <p className="text-sm font-medium text-gray-600 arabic-text">المحصل</p>
+            <p className="text-2xl font-bold text-green-600">{formatCurrency(plan.totalCollected)}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-6">
+            <p className="text-sm font-medium text-gray-600 arabic-text">المتبقي</p>
+            <p className="text-2xl font-bold text-blue-600">{formatCurrency(remainingTotal)}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-6">
+            <p className="text-sm font-medium text-gray-600 arabic-text">أقساط متأخرة</p>
+            <p className="text-2xl font-bold text-red-600">{overdueNumbers.size}</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Schedule */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 arabic-text">
+            <CalendarClock className="h-5 w-5" />
+            جدول الأقساط
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-right">القسط</th>
+                  <th className="px-4 py-2 text-right">تاريخ الاستحقاق</th>
+                  <th className="px-4 py-2 text-right">القيمة</th>
+                  <th className="px-4 py-2 text-right">المسدد</th>
+                  <th className="px-4 py-2 text-right">المتبقي</th>
+                  <th className="px-4 py-2 text-right">الحالة</th>
+                  <th className="px-4 py-2"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y">
+                {plan.installments.map(installment => (
+                  <tr key={installment.number} className={overdueNumbers.has(installment.number) ? 'bg-red-50' : ''}>
+                    <td className="px-4 py-2">{installment.number}</td>
+                    <td className="px-4 py-2">{formatDate(installment.dueDate)}</td>
+                    <td className="px-4 py-2">{formatCurrency(installment.amount)}</td>
+                    <td className="px-4 py-2">{formatCurrency(installment.paidAmount)}</td>
+                    <td className="px-4 py-2">{formatCurrency(getRemainingAmount(installment))}</td>
+                    <td className="px-4 py-2">{getInstallmentBadge(installment)}</td>
+                    <td className="px-4 py-2 text-left">
+                      {canCollect && plan.status === 'active' && installment.status !== 'paid' && (
+                        <Button size="sm" variant="outline" onClick={() => openCollection(installment)}>
+                          <Wallet className="ml-1 h-4 w-4" />
+                          تحصيل
+                        </Button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Collections */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="arabic-text">سجل التحصيلات</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {collections.length === 0 ? (
+            <p className="text-sm text-gray-500 arabic-text text-center py-4">لا توجد تحصيلات بعد</p>
+          ) : (
+            <div className="space-y-2">
+              {collections.map(item => (
+                <div key={item.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg text-sm">
+                  <div>
+                    <p className="font-medium">
+                      إيصال {item.receiptNumber} - القسط رقم {item.installmentNumber}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {formatDateTime(item.collectedAt)} - {paymentMethodTranslations[item.paymentMethod] || item.paymentMethod}
+                      {item.notes && ` - ${item.notes}`}
+                    </p>
+                  </div>
+                  <span className="font-bold text-green-600">{formatCurrency(item.amount)}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Hidden printable contract */}
+      <div className="hidden">
+        <InstallmentContract ref={contractRef} data={plan} />
+      </div>
+
+      {/* Collection Dialog */}
+      {collectingInstallment && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg p-6 w-full max-w-md mx-4">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-bold text-gray-900 arabic-text">
+                تحصيل القسط رقم {collectingInstallment.number}
+              </h3>
+              <Button variant="ghost" size="icon" onClick={() => setCollectingInstallment(null)}>
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+
+            <div className="space-y-4">
+              <p className="text-sm text-gray-600 arabic-text">
+                المتبقي على القسط: {formatCurrency(getRemainingAmount(collectingInstallment))}
+              </p>
+
+              <div className="space-y-2">
+                <Label htmlFor="collectionAmount" required>المبلغ المحصل</Label>
+                <Input
+                  id="collectionAmount"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={collectionAmount}
+                  onChange={(e) => setCollectionAmount(e.target.value)}
+                  className="input-rtl"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="collectionMethod">طريقة الدفع</Label>
+                <select
+                  id="collectionMethod"
+                  value={collectionMethod}
+                  onChange={(e) => setCollectionMethod(e.target.value as PaymentMethod)}
+                  className="form-input w-full input-rtl arabic-text"
+                >
+                  <option value="cash">{paymentMethodTranslations.cash}</option>
+                  <option value="bank_transfer">{paymentMethodTranslations.bank_transfer}</option>
+                  <option value="check">{paymentMethodTranslations.check}</option>
+                </select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="collectionNotes">ملاحظات</Label>
+                <Input
+                  id="collectionNotes"
+                  value={collectionNotes}
+                  onChange={(e) => setCollectionNotes(e.target.value)}
+                />
+              </div>
+
+              <div className="flex justify-end gap-3">
+                <Button variant="outline" onClick={() => setCollectingInstallment(null)} disabled={submitting}>
+                  إلغاء
+                </Button>
+                <Button onClick={handleCollect} loading={submitting}>
+                  تأكيد التحصيل
+                </Button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,294 @@
+import { useState, useEffect } from 'react'
+import { useNavigate, useSearchParams } from 'react-router-dom'
+import { AlertTriangle, CalendarClock, Eye, Search, Users, Wallet } from 'lucide-react'
+import { useAuthState } from 'react-firebase-hooks/auth'
+
+import { auth } from '@/firebase/firebase-config.template'
+import { Button } from '@/components/ui/Button'
+import { Input } from '@/components/ui/Input'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card'
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner'
+import { useUserData } from '@/hooks/useUserData'
+import { InstallmentService, getOverdueInstallments, getRemainingAmount } from '@/lib/installments'
+import { AgentPermissionsService } from '@/lib/agentPermissions'
+import { formatCurrency, formatDate, isAdmin, isAgent } from '@/lib/utils'
+import { Installment, InstallmentPlan } from '@/types'
+
+type ViewMode = 'overdue_by_customer' | 'overdue_by_agent' | 'all'
+
+interface OverdueEntry {
+  plan: InstallmentPlan
+  overdue: Installment[]
+  overdueAmount: number
+}
+
+interface OverdueGroup {
+  key: string
+  title: string
+  subtitle?: string
+  entries: OverdueEntry[]
+  overdueAmount: number
+}
+
+export default function InstallmentsPage() {
+  const navigate = useNavigate()
+  const [searchParams] = useSearchParams()
+  const [user] = useAuthState(auth)
+  const { userData } = useUserData(user?.uid)
+  const [plans, setPlans] = useState<InstallmentPlan[]>([])
+  const [loading, setLoading] = useState(true)
+  const [viewMode, setViewMode] = useState<ViewMode>('overdue_by_customer')
+  const [searchTerm, setSearchTerm] = useState('')
+  const agentFilter = searchParams.get('agent') || undefined
+
+  useEffect(() => {
+    if (userData) {
+      loadPlans()
+    }
+  }, [userData, agentFilter])
+
+  const loadPlans = async () => {
+    if (!userData) return
+
+    setLoading(true)
+    if (isAdmin(userData.role)) {
+      setPlans(await InstallmentService.getPlans({ agentId: agentFilter }))
+    } else if (isAgent(userData.role)) {
+      // الوكيل يرى خطط مبيعاته فقط مهما كان معامل الرابط
+      const agent = await AgentPermissionsService.getAgentData(userData.id)
+      setPlans(agent ? await InstallmentService.getPlans({ agentId: agent.id }) : [])
+    } else {
+      // موظفو البيع يرون خطط مبيعات الشركة المباشرة فقط
+      setPlans(await InstallmentService.getPlans({ saleSource: 'company_sale' }))
+    }
+    setLoading(false)
+  }
+
+  const matchesSearch = (plan: InstallmentPlan) => {
+    if (!searchTerm) return true
+    const term = searchTerm.toLowerCase()
+    return [
+      plan.customerName,
+      plan.customerNationalId,
+      plan.customerPhone,
+      plan.contractNumber,
+      plan.agentName,
+      ...plan.items.map(item => item.chassisNumber)
+    ].some(value => value?.toLowerCase().includes(term))
+  }
+
+  const filteredPlans = plans.filter(matchesSearch)
+
+  const overdueEntries: OverdueEntry[] = filteredPlans
+    .map(plan => {
+      const overdue = getOverdueInstallments(plan)
+      return {
+        plan,
+        overdue,
+        overdueAmount: overdue.reduce((sum, installment) => sum + getRemainingAmount(installment), 0)
+      }
+    })
+    .filter(entry => entry.overdue.length > 0)
+
+  // تجميع المتأخرات حسب العميل أو الوكيل
+  const groupOverdue = (by: 'customer' | 'agent'): OverdueGroup[] => {
+    const groups = new Map<string, OverdueGroup>()
+
+    overdueEntries.forEach(entry => {
+      const key = by === 'customer'
+        ? entry.plan.customerNationalId
+        : entry.plan.agentId || 'company'
+      const group = groups.get(key) || {
+        key,
+        title: by === 'customer'
+          ? entry.plan.customerName
+          : entry.plan.agentName || 'مبيعات الشركة المباشرة',
+        subtitle: by === 'customer' ? entry.plan.customerPhone : undefined,
+        entries: [],
+        overdueAmount: 0
+      }
+      group.entries.push(entry)
+      group.overdueAmount += entry.overdueAmount
+      groups.set(key, group)
+    })
+
+    return Array.from(groups.values()).sort((a, b) => b.overdueAmount - a.overdueAmount)
+  }
+
+  const activePlans = filteredPlans.filter(plan => plan.status === 'active')
+  const totalOutstanding = activePlans.reduce((sum, plan) => sum + (plan.totalPayable - plan.totalCollected), 0)
+  const totalOverdue = overdueEntries.reduce((sum, entry) => sum + entry.overdueAmount, 0)
+
+  if (loading) {
+    return <LoadingSpinner text="جاري تحميل خطط التقسيط..." />
+  }
+
+  const renderPlanRow = (plan: InstallmentPlan, overdue?: OverdueEntry) => (
+    <div key={plan.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg text-sm">
+      <div>
+        <p className="font-medium">
+          {plan.contractNumber} - {plan.customerName}
+        </p>
+        <p className="text-xs text-gray-500">
+          {plan.items.map(item => `${item.brand} ${item.model}`).join('، ')} • {plan.agentName || 'مبيعات الشركة'} • تم تحصيل {formatCurrency(plan.totalCollected)} من {formatCurrency(plan.totalPayable)}
+        </p>
+        {overdue && (
+          <p className="text-xs text-red-600 mt-1">
+            {overdue.overdue.length} قسط متأخر منذ {formatDate(overdue.overdue[0].dueDate)}
+          </p>
+        )}
+      </div>
+      <div className="flex items-center gap-3">
+        {overdue ? (
+          <span className="font-bold text-red-600">{formatCurrency(overdue.overdueAmount)}</span>
+        ) : (
+          <span className={`px-2 py-1 text-xs rounded-full ${
+            plan.status === 'completed' ? 'bg-green-100 text-green-800'
+              : plan.status === 'cancelled' ? 'bg-gray-100 text-gray-800'
+              : 'bg-blue-100 text-blue-800'
+          }`}>
+            {plan.status === 'completed' ? 'مسدد' : plan.status === 'cancelled' ? 'ملغي' : 'نشط'}
+          </span>
+        )}
+        <Button variant="ghost" size="sm" onClick={() => navigate(`/sales/installments/${plan.id}`)}>
+          <Eye className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  )
+
+  const groups = viewMode === 'all' ? [] : groupOverdue(viewMode === 'overdue_by_customer' ? 'customer' : 'agent')
+
+  return (
+    <div className="space-y-6">
+      {/* Page Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 arabic-text">المبيعات بالتقسيط</h1>
+          <p className="text-gray-600 arabic-text">متابعة الأقساط والتحصيلات والمتأخرات</p>
+        </div>
+        <Button variant="outline" onClick={() => navigate('/sales')}>
+          العودة للمبيعات
+        </Button>
+      </div>
+
+      {/* Stats Cards */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <Card>
+          <CardContent className="p-6">
+            <div className="flex items-center">
+              <div className="p-2 bg-blue-100 rounded-lg">
+                <CalendarClock className="h-6 w-6 text-blue-600" />
+              </div>
+              <div className="mr-4">
+                <p className="text-sm font-medium text-gray-600 arabic-text">خطط نشطة</p>
+                <p className="text-2xl font-bold text-gray-900">{activePlans.length}</p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardContent className="p-6">
+            <div className="flex items-center">
+              <div className="p-2 bg-green-100 rounded-lg">
+                <Wallet className="h-6 w-6 text-green-600" />
+              </div>
+              <div className="mr-4">
+                <p className="text-sm font-medium text-gray-600 arabic-text">المتبقي للتحصيل</p>
+                <p className="text-2xl font-bold text-gray-900">{formatCurrency(totalOutstanding)}</p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardContent className="p-6">
+            <div className="flex items-center">
+              <div className="p-2 bg-red-100 rounded-lg">
+                <AlertTriangle className="h-6 w-6 text-red-600" />
+              </div>
+              <div className="mr-4">
+                <p className="text-sm font-medium text-gray-600 arabic-text">إجمالي المتأخرات</p>
+                <p className="text-2xl font-bold text-red-600">{formatCurrency(totalOverdue)}</p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Filters */}
+      <Card>
+        <CardContent className="p-4">
+          <div className="flex flex-col md:flex-row gap-4">
+            <div className="flex-1 relative">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+              <Input
+                placeholder="البحث بالعميل أو الرقم القومي أو رقم العقد أو الوكيل..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="pl-10"
+              />
+            </div>
+            <div className="flex gap-2">
+              <Button
+                variant={viewMode === 'overdue_by_customer' ? 'default' : 'outline'}
+                onClick={() => setViewMode('overdue_by_customer')}
+              >
+                متأخرات حسب العميل
+              </Button>
+              <Button
+                variant={viewMode === 'overdue_by_agent' ? 'default' : 'outline'}
+                onClick={() => setViewMode('overdue_by_agent')}
+              >
+                <Users className="ml-2 h-4 w-4" />
+                حسب الوكيل
+              </Button>
+              <Button
+                variant={viewMode === 'all' ? 'default' : 'outline'}
+                onClick={() => setViewMode('all')}
+              >
+                جميع الخطط
+              </Button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {viewMode === 'all' ? (
+        <Card>
+          <CardContent className="p-4 space-y-2">
+            {filteredPlans.length === 0 ? (
+              <p className="text-center text-gray-500 arabic-text py-8">لا توجد خطط تقسيط</p>
+            ) : (
+              filteredPlans.map(plan => renderPlanRow(plan))
+            )}
+          </CardContent>
+        </Card>
+      ) : groups.length === 0 ? (
+        <Card>
+          <CardContent className="p-8 text-center text-gray-500 arabic-text">
+            لا توجد أقساط متأخرة
+          </CardContent>
+        </Card>
+      ) : (
+        groups.map(group => (
+          <Card key={group.key}>
+            <CardHeader>
+              <CardTitle className="flex items-center justify-between text-base arabic-text">
+                <span>
+                  {group.title}
+                  {group.subtitle && <span className="text-sm font-normal text-gray-500 mr-2">{group.subtitle}</span>}
+                </span>
+                <span className="text-red-600">{formatCurrency(group.overdueAmount)}</span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {group.entries.map(entry => renderPlanRow(entry.plan, entry))}
+            </CardContent>
+          </Card>
+        ))
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,358 @@
+import { useState, useEffect } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { toast } from 'sonner'
+import { AlertCircle, ArrowLeft, CheckCircle, RefreshCw, Tag, Trash2, XCircle } from 'lucide-react'
+import { useAuthState } from 'react-firebase-hooks/auth'
+
+import { auth } from '@/firebase/firebase-config.template'
+import { Button } from '@/components/ui/Button'
+import { Input } from '@/components/ui/Input'
+import { Label } from '@/components/ui/Label'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card'
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner'
+import { useUserData } from '@/hooks/useUserData'
+import { PriceApprovalService, PricingService, isBelowFloor } from '@/lib/pricing'
+import { formatCurrency, formatDateTime, isAdmin, isSuperAdmin } from '@/lib/utils'
+import { PriceApprovalRequest, PriceApprovalStatus, PriceFloor } from '@/types'
+
+const statusLabels: Record<PriceApprovalStatus, { label: string, className: string }> = {
+  pending: { label: 'في الانتظار', className: 'bg-yellow-100 text-yellow-800' },
+  approved: { label: 'موافق عليه', className: 'bg-green-100 text-green-800' },
+  rejected: { label: 'مرفوض', className: 'bg-red-100 text-red-800' },
+  used: { label: 'تم البيع', className: 'bg-blue-100 text-blue-800' }
+}
+
+const emptyFloor = { brand: '', model: '', minimumPrice: '' }
+
+export default function PriceApprovalsPage() {
+  const [user] = useAuthState(auth)
+  const { userData } = useUserData(user?.uid)
+  const navigate = useNavigate()
+
+  const [requests, setRequests] = useState<PriceApprovalRequest[]>([])
+  const [floors, setFloors] = useState<PriceFloor[]>([])
+  const [loading, setLoading] = useState(true)
+  const [decisionNotes, setDecisionNotes] = useState<Record<string, string>>({})
+  const [decidingId, setDecidingId] = useState<string | null>(null)
+  const [floorForm, setFloorForm] = useState(emptyFloor)
+  const [savingFloor, setSavingFloor] = useState(false)
+
+  const canManagePricing = userData && (isSuperAdmin(userData.role) || isAdmin(userData.role))
+
+  useEffect(() => {
+    if (canManagePricing) {
+      loadData()
+    }
+  }, [canManagePricing])
+
+  const loadData = async () => {
+    setLoading(true)
+    const [requestsData, floorsData] = await Promise.all([
+      PriceApprovalService.getRequests(),
+      PricingService.getPriceFloors()
+    ])
+    setRequests(requestsData)
+    setFloors(floorsData)
+    setLoading(false)
+  }
+
+  const handleDecision = async (request: PriceApprovalRequest, approved: boolean) => {
+    if (!userData) return
+
+    setDecidingId(request.id)
+    const result = await PriceApprovalService.decide(
+      request.id,
+      approved,
+      userData.id,
+      userData.displayName || userData.email || 'المدير',
+      decisionNotes[request.id]
+    )
+    setDecidingId(null)
+
+    if (!result.success) {
+      toast.error(result.error || 'فشل في حفظ القرار')
+      return
+    }
+
+    toast.success(approved ? 'تمت الموافقة على السعر' : 'تم رفض السعر')
+    await loadData()
+  }
+
+  const handleSaveFloor = async () => {
+    if (!userData) return
+
+    setSavingFloor(true)
+    const result = await PricingService.savePriceFloor(
+      floorForm.brand,
+      floorForm.model,
+      parseFloat(floorForm.minimumPrice),
+      userData.id
+    )
+    setSavingFloor(false)
+
+    if (!result.success) {
+      toast.error(result.error || 'فشل في حفظ الحد الأدنى')
+      return
+    }
+
+    toast.success(`تم حفظ الحد الأدنى لـ ${floorForm.brand} ${floorForm.model}`)
+    setFloorForm(emptyFloor)
+    setFloors(await PricingService.getPriceFloors())
+  }
+
+  const handleDeleteFloor = async (floor: PriceFloor) => {
+    if (!confirm(`حذف الحد الأدنى لـ ${floor.brand} ${floor.model}؟`)) return
+
+    const result = await PricingService.deletePriceFloor(floor.id)
+    if (!result.success) {
+      toast.error(result.error || 'فشل في حذف الحد الأدنى')
+      return
+    }
+
+    setFloors(prev => prev.filter(existing => existing.id !== floor.id))
+  }
+
+  if (!userData) {
+    return <LoadingSpinner text="جاري تحميل بيانات المستخدم..." />
+  }
+
+  if (!canManagePricing) {
+    return (
+      <div className="text-center py-12">
+        <AlertCircle className="h-12 w-12 text-red-500 mx-auto mb-4" />
+        <h2 className="text-xl font-bold text-gray-900 mb-2 arabic-text">
+          غير مصرح لك بالوصول
+        </h2>
+        <p className="text-gray-600 arabic-text">
+          الموافقة على الأسعار متاحة للمديرين فقط
+        </p>
+      </div>
+    )
+  }
+
+  const pendingRequests = requests.filter(request => request.status === 'pending')
+  const decidedRequests = requests.filter(request => request.status !== 'pending')
+
+  return (
+    <div className="space-y-6">
+      {/* Page Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 arabic-text">موافقات الأسعار</h1>
+          <p className="text-gray-600 arabic-text">طلبات البيع بأقل من الحد الأدنى والحدود الدنيا للموديلات</p>
+        </div>
+        <div className="flex items-center gap-3">
+          <Button variant="outline" onClick={loadData} loading={loading}>
+            <RefreshCw className="ml-2 h-4 w-4" />
+            تحديث
+          </Button>
+          <Button variant="outline" onClick={() => navigate('/sales')}>
+            <ArrowLeft className="ml-2 h-4 w-4" />
+            المبيعات
+          </Button>
+        </div>
+      </div>
+
+      {/* Pending Requests */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 arabic-text">
+            <Tag className="h-5 w-5" />
+            طلبات في الانتظار ({pendingRequests.length})
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {loading ? (
+            <LoadingSpinner text="جاري تحميل الطلبات..." />
+          ) : pendingRequests.length === 0 ? (
+            <p className="text-center text-gray-500 arabic-text py-4">لا توجد طلبات في الانتظار</p>
+          ) : pendingRequests.map(request => (
+            <div key={request.id} className="p-4 border border-gray-200 rounded-lg space-y-3">
+              <div className="flex items-start justify-between">
+                <div className="arabic-text">
+                  <p className="font-medium">{request.customerName}</p>
+                  <p className="text-sm text-gray-600">
+                    {request.requestedByName} - {formatDateTime(request.createdAt)}
+                  </p>
+                  <p className="text-sm text-gray-800 mt-1">السبب: {request.reason}</p>
+                </div>
+                <p className="font-bold">{formatCurrency(request.totalAmount)}</p>
+              </div>
+
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b bg-gray-50">
+                    <th className="p-2 text-right arabic-text">المنتج</th>
+                    <th className="p-2 text-right arabic-text">سعر القائمة</th>
+                    <th className="p-2 text-right arabic-text">الخصم</th>
+                    <th className="p-2 text-right arabic-text">السعر المطلوب</th>
+                    <th className="p-2 text-right arabic-text">الحد الأدنى</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {request.lines.map(line => (
+                    <tr key={line.inventoryItemId} className={`border-b ${isBelowFloor(line) ? 'text-red-700' : ''}`}>
+                      <td className="p-2 arabic-text">
+                        {line.brand} {line.model}
+                        <span className="block text-xs text-gray-500 font-mono">{line.chassisNumber}</span>
+                      </td>
+                      <td className="p-2">{formatCurrency(line.listPrice)}</td>
+                      <td className="p-2">{formatCurrency(line.lineDiscount + line.invoiceDiscountShare)}</td>
+                      <td className="p-2 font-medium">{formatCurrency(line.finalPrice)}</td>
+                      <td className="p-2">{line.floorPrice > 0 ? formatCurrency(line.floorPrice) : '-'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+
+              <div className="flex flex-col md:flex-row gap-2">
+                <Input
+                  value={decisionNotes[request.id] || ''}
+                  onChange={(e) => setDecisionNotes(prev => ({ ...prev, [request.id]: e.target.value }))}
+                  placeholder="ملاحظات القرار (اختياري)"
+                  className="input-rtl arabic-text flex-1"
+                />
+                <Button
+                  onClick={() => handleDecision(request, true)}
+                  loading={decidingId === request.id}
+                  disabled={decidingId !== null}
+                >
+                  <CheckCircle className="ml-2 h-4 w-4" />
+                  موافقة
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={() => handleDecision(request, false)}
+                  disabled={decidingId !== null}
+                >
+                  <XCircle className="ml-2 h-4 w-4 text-red-500" />
+                  رفض
+                </Button>
+              </div>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      {/* Price Floors */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 arabic-text">
+            <Tag className="h-5 w-5" />
+            الحد الأدنى للسعر حسب الموديل
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <p className="text-sm text-gray-600 arabic-text">
+            الحد الأدنى المسجل على المنتج نفسه (من صفحة تعديل المنتج) يتقدم على حد الموديل
+          </p>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+            <div className="space-y-2">
+              <Label htmlFor="floorBrand" required>الماركة</Label>
+              <Input
+                id="floorBrand"
+                value={floorForm.brand}
+                onChange={(e) => setFloorForm(prev => ({ ...prev, brand: e.target.value }))}
+                className="input-rtl arabic-text"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="floorModel" required>الموديل</Label>
+              <Input
+                id="floorModel"
+                value={floorForm.model}
+                onChange={(e) => setFloorForm(prev => ({ ...prev, model: e.target.value }))}
+                className="input-rtl arabic-text"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="floorMinimumPrice" required>الحد الأدنى (جنيه)</Label>
+              <Input
+                id="floorMinimumPrice"
+                type="number"
+                min="0"
+                step="0.01"
+                value={floorForm.minimumPrice}
+                onChange={(e) => setFloorForm(prev => ({ ...prev, minimumPrice: e.target.value }))}
+              />
+            </div>
+            <Button onClick={handleSaveFloor} loading={savingFloor}>
+              حفظ الحد الأدنى
+            </Button>
+          </div>
+
+          {floors.length === 0 ? (
+            <p className="text-center text-gray-500 arabic-text py-4">لم يتم تحديد حدود دنيا</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b bg-gray-50">
+                  <th className="p-2 text-right arabic-text">الماركة</th>
+                  <th className="p-2 text-right arabic-text">الموديل</th>
+                  <th className="p-2 text-right arabic-text">الحد الأدنى</th>
+                  <th className="p-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {floors.map(floor => (
+                  <tr key={floor.id} className="border-b">
+                    <td className="p-2 arabic-text">{floor.brand}</td>
+                    <td className="p-2 arabic-text">{floor.model}</td>
+                    <td className="p-2">{formatCurrency(floor.minimumPrice)}</td>
+                    <td className="p-2">
+                      <Button variant="ghost" size="sm" onClick={() => handleDeleteFloor(floor)}>
+                        <Trash2 className="h-4 w-4 text-red-500" />
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Decided Requests */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="arabic-text">سجل القرارات</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {decidedRequests.length === 0 ? (
+            <p className="text-center text-gray-500 arabic-text py-4">لا توجد قرارات سابقة</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b bg-gray-50">
+                  <th className="p-2 text-right arabic-text">العميل</th>
+                  <th className="p-2 text-right arabic-text">مقدم الطلب</th>
+                  <th className="p-2 text-right arabic-text">الإجمالي</th>
+                  <th className="p-2 text-right arabic-text">القرار</th>
+                  <th className="p-2 text-right arabic-text">بواسطة</th>
+                  <th className="p-2 text-right arabic-text">التاريخ</th>
+                </tr>
+              </thead>
+              <tbody>
+                {decidedRequests.map(request => (
+                  <tr key={request.id} className="border-b">
+                    <td className="p-2 arabic-text">{request.customerName}</td>
+                    <td className="p-2 arabic-text">{request.requestedByName}</td>
+                    <td className="p-2">{formatCurrency(request.totalAmount)}</td>
+                    <td className="p-2">
+                      <span className={`px-2 py-1 rounded text-xs ${statusLabels[request.status].className}`}>
+                        {statusLabels[request.status].label}
+                      </span>
+                      {request.decisionNotes && <p className="text-xs text-gray-500 mt-1">{request.decisionNotes}</p>}
+                    </td>
+                    <td className="p-2 arabic-text">{request.decidedByName}</td>
+                    <td className="p-2">{formatDateTime(request.decidedAt)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -10,7 +10,9 @@ import {
   Download,
   Phone,
   MapPin,
-  Hash
+  Hash,
+  RotateCcw,
+  Printer
 } from 'lucide-react'
 import { doc, getDoc } from 'firebase/firestore'
 import { useAuthState } from 'react-firebase-hooks/auth'
@@ -21,9 +23,14 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card'
 import { LoadingSpinner } from '@/components/ui/LoadingSpinner'
 import { SafeImageDisplay } from '@/components/ui/SafeImageDisplay'
 import { CompositeImageDisplay } from '@/components/ui/CompositeImageDisplay'
+import { CreditNote } from '@/components/ui/CreditNote'
+import { SalesInvoice, SalesInvoiceData } from '@/components/ui/SalesInvoice'
+import { SaleReturnDialog } from '@/components/sales/SaleReturnDialog'
 import { useUserData } from '@/hooks/useUserData'
-import { Transaction, DocumentTracking } from '@/types'
-import { formatCurrency, formatDate } from '@/lib/utils'
+import { SalesReturnService } from '@/lib/salesReturns'
+import { settingsService } from '@/lib/settingsService'
+import { Transaction, DocumentTracking, PriceApprovalDecision, SaleReturn } from '@/types'
+import { formatCurrency, formatDate, formatDateTime, isAdmin, printElement } from '@/lib/utils'
 
 export default function SaleDetailsPage() {
   const { id } = useParams<{ id: string }>()
@@ -33,7 +40,16 @@ export default function SaleDetailsPage() {
   const [sale, setSale] = useState<Transaction | null>(null)
   const [documentTracking, setDocumentTracking] = useState<DocumentTracking[]>([])
   const [loading, setLoading] = useState(true)
+  const [saleReturn, setSaleReturn] = useState<SaleReturn | null>(null)
+  const [showReturnDialog, setShowReturnDialog] = useState(false)
   const isLoadingRef = useRef(false)
+  const creditNoteRef = useRef<HTMLDivElement>(null)
+  const invoiceRef = useRef<HTMLDivElement>(null)
+  const [invoiceData, setInvoiceData] = useState<SalesInvoiceData | null>(null)
+  const [pricing, setPricing] = useState<{ discountAmount: number, priceApproval: PriceApprovalDecision | null }>({
+    discountAmount: 0,
+    priceApproval: null
+  })
 
   console.log('SaleDetailsPage render - loading:', loading, 'sale:', !!sale, 'id:', id)
 
@@ -162,6 +178,48 @@ export default function SaleDetailsPage() {
       
       console.log('Converted transaction:', transaction)
       setSale(transaction)
+
+      // بيانات الفاتورة المطبوعة مع تفصيل الضريبة
+      const salePrice = Number(saleData.salePrice) || 0
+      const settings = await settingsService.getSystemSettings().catch(() => null)
+      setInvoiceData({
+        transactionId: saleData.invoiceNumber || transaction.referenceNumber,
+        saleDate: saleDate.toISOString(),
+        agentName: saleData.agentName || '',
+        agentId: saleData.agentId || '',
+        customerName: transaction.details.customer?.name || '',
+        customerNationalId: transaction.details.customer?.nationalId || '',
+        customerPhone: transaction.details.customer?.phone || '',
+        customerAddress: transaction.details.customer?.address || '',
+        brand: saleData.motorBrand || saleData.brand || '',
+        model: saleData.motorModel || saleData.model || '',
+        color: saleData.color || '',
+        manufacturingYear: Number(saleData.manufacturingYear) || 0,
+        motorFingerprint: saleData.motorFingerprint || '',
+        chassisNumber: saleData.chassisNumber || '',
+        purchasePrice: Number(saleData.purchasePrice) || 0,
+        salePrice,
+        profit: Number(saleData.profit) || 0,
+        agentCommission: Number(saleData.agentCommission) || 0,
+        agentCommissionPercentage: Number(saleData.commissionRate) || 0,
+        companyShare: Number(saleData.companyShare) || 0,
+        netAmount: Number(saleData.netAmount ?? salePrice - (Number(saleData.taxAmount) || 0)),
+        taxRate: Number(saleData.taxRate) || 0,
+        taxAmount: Number(saleData.taxAmount) || 0,
+        taxExempt: !!saleData.taxExempt,
+        taxExemptionCertificate: saleData.taxExemptionCertificate,
+        companyTaxNumber: settings?.companyInfo?.taxNumber,
+        notes: saleData.notes || ''
+      })
+      setPricing({
+        discountAmount: Number(saleData.discountAmount) || 0,
+        priceApproval: saleData.priceApproval || null
+      })
+      
+      // تحميل إشعار الدائن إذا كانت الفاتورة مرتجعة
+      if (saleData.returnId) {
+        SalesReturnService.getSaleReturn(saleData.returnId).then(setSaleReturn)
+      }
       console.log('Sale data loaded successfully')
     } catch (error) {
       console.error('Error loading sale details:', error)
@@ -244,8 +302,8 @@ export default function SaleDetailsPage() {
 
   const calculateProfit = () => {
     if (!sale) return 0
-    // Calculate profit from real data
-    const salePrice = sale.totalAmount || 0
+    // Calculate profit from real data (الربح من السعر بدون الضريبة)
+    const salePrice = invoiceData?.netAmount ?? (sale.totalAmount || 0)
     const purchasePrice = (sale.items[0] as any)?.purchasePrice || 0
     return salePrice - purchasePrice
   }
@@ -263,6 +321,7 @@ export default function SaleDetailsPage() {
       case 'received_from_manufacturer': return 'تم الاستلام من الشركة'
       case 'sent_to_point_of_sale': return 'تم الإرسال لنقطة البيع'
       case 'completed': return 'مكتمل'
+      case 'cancelled': return 'ملغي (مرتجع)'
       default: return status
     }
   }
@@ -274,13 +333,17 @@ export default function SaleDetailsPage() {
       case 'received_from_manufacturer': return 'bg-purple-100 text-purple-800'
       case 'sent_to_point_of_sale': return 'bg-green-100 text-green-800'
       case 'completed': return 'bg-gray-100 text-gray-800'
+      case 'cancelled': return 'bg-red-100 text-red-800'
       default: return 'bg-gray-100 text-gray-800'
     }
   }
 
   const handlePrintInvoice = () => {
-    // Implement print functionality
-    window.print()
+    if (invoiceRef.current) {
+      printElement(invoiceRef.current, `فاتورة ${invoiceData?.transactionId || ''}`)
+    } else {
+      window.print()
+    }
   }
 
   const handleDownloadPDF = () => {
@@ -329,6 +392,12 @@ export default function SaleDetailsPage() {
           </p>
         </div>
         <div className="flex items-center gap-3">
+          {!saleReturn && userData && isAdmin(userData.role) && (
+            <Button variant="destructive" onClick={() => setShowReturnDialog(true)}>
+              <RotateCcw className="ml-2 h-4 w-4" />
+              مرتجع
+            </Button>
+          )}
           <Button variant="outline" onClick={handlePrintInvoice}>
             <FileText className="ml-2 h-4 w-4" />
             طباعة
@@ -344,6 +413,53 @@ export default function SaleDetailsPage() {
         </div>
       </div>
 
+      {/* Returned Sale Banner */}
+      {saleReturn && (
+        <Card className="border-red-200 bg-red-50">
+          <CardContent className="p-4">
+            <div className="flex items-center justify-between gap-4">
+              <div className="flex items-start gap-3">
+                <RotateCcw className="h-5 w-5 text-red-600 mt-0.5" />
+                <div>
+                  <p className="font-bold text-red-800 arabic-text">
+                    فاتورة مرتجعة - إشعار دائن رقم {saleReturn.creditNoteNumber}
+                  </p>
+                  <p className="text-sm text-red-700 arabic-text">
+                    السبب: {saleReturn.reason} | التاريخ: {formatDate(saleReturn.createdAt)}
+                  </p>
+                </div>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => creditNoteRef.current && printElement(creditNoteRef.current, `إشعار دائن ${saleReturn.creditNoteNumber}`)}
+              >
+                <Printer className="ml-2 h-4 w-4" />
+                طباعة إشعار الدائن
+              </Button>
+            </div>
+            <div className="hidden">
+              <CreditNote ref={creditNoteRef} data={saleReturn} />
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {invoiceData && (
+        <div className="hidden">
+          <SalesInvoice ref={invoiceRef} data={invoiceData} />
+        </div>
+      )}
+
+      {showReturnDialog && id && userData && (
+        <SaleReturnDialog
+          documentTrackingId={id}
+          userId={userData.id}
+          onClose={() => setShowReturnDialog(false)}
+          onReturned={(created) => setSaleReturn(created)}
+        />
+      )}
+
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
         {/* Main Content */}
         <div className="lg:col-span-2 space-y-6">
@@ -561,6 +677,36 @@ export default function SaleDetailsPage() {
                   <span className="text-gray-600 arabic-text">إجمالي المبلغ:</span>
                   <span className="font-bold">{formatCurrency(sale.totalAmount)}</span>
                 </div>
+
+                {!!invoiceData?.taxAmount && (
+                  <>
+                    <div className="flex justify-between">
+                      <span className="text-gray-600 arabic-text">قبل الضريبة:</span>
+                      <span>{formatCurrency(invoiceData.netAmount)}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-gray-600 arabic-text">ضريبة القيمة المضافة ({invoiceData.taxRate}%):</span>
+                      <span>{formatCurrency(invoiceData.taxAmount)}</span>
+                    </div>
+                  </>
+                )}
+                {pricing.discountAmount > 0 && (
+                  <div className="flex justify-between">
+                    <span className="text-gray-600 arabic-text">الخصم:</span>
+                    <span className="text-red-600">- {formatCurrency(pricing.discountAmount)}</span>
+                  </div>
+                )}
+                {pricing.priceApproval && (
+                  <p className="text-xs text-blue-700 arabic-text">
+                    سعر أقل من الحد الأدنى بموافقة {pricing.priceApproval.decidedByName} بتاريخ {formatDateTime(pricing.priceApproval.decidedAt)}
+                    {pricing.priceApproval.notes ? ` - ${pricing.priceApproval.notes}` : ''}
+                  </p>
+                )}
+                {invoiceData?.taxExempt && (
+                  <p className="text-xs text-green-700 arabic-text">
+                    عميل معفى من الضريبة{invoiceData.taxExemptionCertificate ? ` - شهادة رقم ${invoiceData.taxExemptionCertificate}` : ''}
+                  </p>
+                )}
                 
                 <div className="flex justify-between">
                   <span className="text-gray-600 arabic-text">إجمالي الربح:</span>
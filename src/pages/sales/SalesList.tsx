@@ -8,7 +8,9 @@ import {
   User,
   Package,
   DollarSign,
-  FileText
+  FileText,
+  CalendarClock,
+  Tag
 } from 'lucide-react'
 import { collection, query, getDocs, orderBy } from 'firebase/firestore'
 import { useAuthState } from 'react-firebase-hooks/auth'
@@ -20,7 +22,7 @@ import { Card, CardContent } from '@/components/ui/Card'
 import { LoadingSpinner } from '@/components/ui/LoadingSpinner'
 import { useUserData } from '@/hooks/useUserData'
 import { Transaction } from '@/types'
-import { formatCurrency, formatDate, canCreateSales } from '@/lib/utils'
+import { formatCurrency, formatDate, canCreateSales, isAdmin, isSuperAdmin } from '@/lib/utils'
 
 interface SalesFilters {
   search: string
@@ -245,6 +247,20 @@ export default function SalesList() {
           <p className="text-gray-600 arabic-text">عرض وإدارة جميع فواتير البيع</p>
         </div>
         <div className="flex items-center gap-3">
+          <Link to="/sales/installments">
+            <Button variant="outline">
+              <CalendarClock className="ml-2 h-4 w-4" />
+              الأقساط
+            </Button>
+          </Link>
+          {userData && (isAdmin(userData.role) || isSuperAdmin(userData.role)) && (
+            <Link to="/sales/price-approvals">
+              <Button variant="outline">
+                <Tag className="ml-2 h-4 w-4" />
+                موافقات الأسعار
+              </Button>
+            </Link>
+          )}
           {canCreateSale && (
             <Link to="/sales/create">
               <Button>
@@ -4,6 +4,9 @@ import { Routes, Route } from 'react-router-dom'
 import SalesList from './SalesList'
 import CreateSalePage from './CreateSalePage'
 import SaleDetailsPage from './SaleDetailsPage'
+import InstallmentsPage from './InstallmentsPage'
+import InstallmentPlanDetailsPage from './InstallmentPlanDetailsPage'
+import PriceApprovalsPage from './PriceApprovalsPage'
 
 export function SalesPage() {
   return (
@@ -11,6 +14,9 @@ export function SalesPage() {
       <Route path="/" element={<SalesList />} />
       <Route path="/create" element={<CreateSalePage />} />
       <Route path="/details/:id" element={<SaleDetailsPage />} />
+      <Route path="/installments" element={<InstallmentsPage />} />
+      <Route path="/installments/:id" element={<InstallmentPlanDetailsPage />} />
+      <Route path="/price-approvals" element={<PriceApprovalsPage />} />
     </Routes>
   )
 }
\ No newline at end of file
@@ -1,4 +1,5 @@
 import { useState, useEffect } from 'react'
+import { useNavigate } from 'react-router-dom'
 import { Settings, Building, Save, Download } from 'lucide-react'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card'
 import { Button } from '@/components/ui/Button'
@@ -24,6 +25,7 @@ interface SystemSettings {
 
 export function FullSettingsPage() {
   const { userData } = useAuth()
+  const navigate = useNavigate()
   const [settings, setSettings] = useState<SystemSettings>({
     companyName: '',
     companyPhone: '',
@@ -229,15 +231,13 @@ export function FullSettingsPage() {
             </div>
             
             <div className="space-y-2">
-              <Label htmlFor="lowStockThreshold">حد المخزون المنخفض</Label>
-              <Input
-                id="lowStockThreshold"
-                type="number"
-                min="1"
-                value={settings.lowStockThreshold}
-                onChange={(e) => updateSetting('lowStockThreshold', parseInt(e.target.value) || 1)}
-                placeholder="أدخل حد المخزون المنخفض"
-              />
+              <Label>حدود المخزون المنخفض</Label>
+              <p className="text-sm text-gray-500 arabic-text">
+                تحدد لكل مخزن ونوع مركبة أو موديل من صفحة حدود إعادة الطلب
+              </p>
+              <Button type="button" variant="outline" onClick={() => navigate('/inventory/reorder')}>
+                إدارة حدود إعادة الطلب
+              </Button>
             </div>
             
             <div className="space-y-2">
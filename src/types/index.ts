@@ -52,6 +52,49 @@ export interface Warehouse {
 
 export type WarehouseType = 'main' | 'showroom' | 'agent' | 'branch';
 
+export type TransferNoteStatus = 'in_transit' | 'partially_received' | 'received';
+export type TransferReceiptOutcome = 'pending' | 'received' | 'damaged' | 'missing';
+
+export interface TransferNoteItem {
+  inventoryItemId: string;
+  motorFingerprint: string;
+  chassisNumber: string;
+  brand: string;
+  model: string;
+  color: string;
+  purchasePrice: number;
+  transferPrice?: number; // Charged to the receiving agent; notes issued before pricing rules charge purchasePrice
+  agentCommissionPercentage: number;
+  pricingRuleId?: string;
+  pricingRuleLabel?: string;
+  priceOverridden?: boolean;
+  outcome: TransferReceiptOutcome;
+  outcomeNotes?: string;
+  confirmedAt?: Timestamp;
+  confirmedBy?: string;
+}
+
+// Transfer note: units leave the source as in transit and only move once the receiver confirms them
+export interface TransferNote {
+  id: string;
+  transferNoteNumber: string;
+  fromWarehouseId: string;
+  fromWarehouseName: string;
+  toWarehouseId: string;
+  toWarehouseName: string;
+  fromAgentId?: string;
+  toAgentId?: string;
+  items: TransferNoteItem[];
+  status: TransferNoteStatus;
+  driverName?: string;
+  vehiclePlate?: string;
+  notes?: string;
+  dispatchedAt: Timestamp;
+  dispatchedBy: string;
+  creditOverrideId?: string; // Set when a super admin sent the units past the agent's credit limit
+  completedAt?: Timestamp;
+}
+
 // ================================
 // Inventory Management Types
 // ================================
@@ -72,13 +115,42 @@ export interface InventoryItem {
   color: string;
   brand: string;
   countryOfOrigin: string;
+  brandId?: string; // Catalog brand, set when picked from the vehicle catalog
+  modelId?: string; // Catalog model
   manufacturingYear: number;
-  purchasePrice: number; // Original cost price
+  purchasePrice: number; // Cost basis: supplier price plus any allocated landed costs
+  supplierPrice?: number; // Original supplier price, kept once landed costs are allocated
+  landedCost?: number; // Total freight, customs and fees allocated onto purchasePrice
   salePrice: number; // Suggested sale price
+  minimumPrice?: number; // Price floor for this unit, overrides the model floor
+  priceHistory?: ItemPriceChange[]; // Appended on every price edit
+  condition?: ItemCondition; // Missing means new
+  conditionNotes?: string;
+  
+  // Set when the unit was received as a trade-in on a sale
+  tradeInSaleId?: string;
+  tradeInSaleSource?: SaleSource;
+  
+  // Set when the unit was received against a purchase order
+  supplierId?: string;
+  purchaseOrderId?: string;
+  goodsReceiptId?: string;
   
   // Warehouse tracking
   currentWarehouseId: string;
   status: ItemStatus;
+  reservationId?: string; // Active reservation while status is 'reserved'
+  inTransitNoteId?: string; // Transfer note while the unit is on its way (status 'transferred')
+  returnRequestId?: string; // Pending agent return request; the unit cannot be sold or transferred meanwhile
+  agentTransferPrice?: number; // Price charged to the holding agent's debt when the unit was received
+  writeOff?: { // Set when a stock count or a transfer receipt posts the unit as missing
+    stockCountId?: string;
+    transferNoteId?: string;
+    reason: StockCountReason;
+    notes?: string;
+    writtenOffAt: Timestamp;
+    writtenOffBy: string;
+  };
   
   // Transaction history
   entryTransactionId: string; // Reference to warehouse entry transaction
@@ -90,7 +162,268 @@ export interface InventoryItem {
 }
 
 export type VehicleType = 'motorcycle' | 'tricycle' | 'electric_scooter' | 'tuktuk';
-export type ItemStatus = 'available' | 'sold' | 'transferred' | 'reserved';
+export type ItemPriceField = 'purchasePrice' | 'salePrice' | 'minimumPrice';
+
+export interface ItemPriceChange {
+  field: ItemPriceField;
+  oldValue: number;
+  newValue: number;
+  changedAt: Timestamp;
+  changedBy: string;
+  reference?: string; // Document that caused the change, e.g. a landed-cost voucher
+}
+
+export type ItemStatus = 'available' | 'sold' | 'transferred' | 'reserved' | 'written_off';
+export type ItemCondition = 'new' | 'used';
+
+// Customer's used vehicle taken as part of the payment on a sale
+export interface TradeIn {
+  inventoryItemId: string;
+  type: VehicleType;
+  brand: string;
+  model: string;
+  color?: string;
+  manufacturingYear?: number;
+  chassisNumber: string;
+  motorFingerprint: string;
+  motorFingerprintImageUrl?: string;
+  chassisNumberImageUrl?: string;
+  conditionNotes: string;
+  agreedValue: number;
+  warehouseId: string;
+}
+
+// Reserved index document (inventory_identifiers) that makes a chassis or motor number unique
+export type IdentifierKind = 'chassis' | 'motor';
+
+export interface InventoryIdentifier {
+  id: string; // `${kind}_${normalized value}`
+  kind: IdentifierKind;
+  value: string; // Normalized identifier
+  inventoryItemId: string;
+  createdAt: Timestamp;
+}
+
+// Items sharing the same normalized chassis or motor number
+export interface DuplicateIdentifierGroup {
+  kind: IdentifierKind;
+  value: string;
+  items: InventoryItem[];
+}
+
+// Per-agent transfer pricing: the most specific rule (model, then vehicle type, then default) prices a unit sent to the agent
+export type AgentPricingScope = 'default' | 'type' | 'model';
+export type AgentPricingMethod = 'cost' | 'cost_plus_fixed' | 'cost_plus_percent' | 'fixed_price';
+
+export interface AgentPricingRule {
+  id: string; // `${agentId}_${scope}_${'all' or vehicleType or modelId}`
+  agentId: string;
+  scope: AgentPricingScope;
+  vehicleType?: VehicleType;
+  modelId?: string;
+  brand?: string;
+  model?: string;
+  method: AgentPricingMethod;
+  value: number; // Margin amount, margin percentage or fixed price depending on method
+  commissionPercentage: number;
+  updatedAt: Timestamp;
+  updatedBy: string;
+}
+
+// Min/max stock for a warehouse, per vehicle type or per catalog model
+export type ReorderLevelScope = 'type' | 'model';
+
+export interface ReorderLevel {
+  id: string; // `${warehouseId}_${scope}_${vehicleType or modelId}`
+  warehouseId: string;
+  scope: ReorderLevelScope;
+  vehicleType: VehicleType; // The model's type when scope is 'model'
+  modelId?: string;
+  brand?: string;
+  model?: string;
+  minStock: number;
+  maxStock: number;
+  alertActive?: boolean; // Set while stock is below minimum so the alert fires once per drop
+  alertedAt?: Timestamp;
+  updatedAt: Timestamp;
+  updatedBy: string;
+}
+
+// Audit record of a duplicate item removed in favour of the kept one
+export interface InventoryMerge {
+  id: string;
+  keptItemId: string;
+  removedItemId: string;
+  removedItem: Omit<InventoryItem, 'id'>;
+  reason: string;
+  mergedBy: string;
+  mergedAt: Timestamp;
+}
+
+// ================================
+// Vehicle Catalog Types
+// ================================
+
+// Managed brand names so reports group 'Honda' and 'هوندا' together
+export interface CatalogBrand {
+  id: string;
+  name: string; // Canonical name stored on inventory items
+  aliases: string[]; // Other spellings mapped onto this brand
+  countryOfOrigin?: string;
+  isActive: boolean;
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+}
+
+export interface CatalogModel {
+  id: string;
+  brandId: string;
+  name: string;
+  aliases: string[];
+  type: VehicleType;
+  engineCc?: number;
+  defaultPurchasePrice?: number;
+  defaultSalePrice?: number;
+  imageUrl?: string;
+  colors: string[]; // Allowed colors, empty means any color
+  isActive: boolean;
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+}
+
+// ================================
+// Purchasing Types
+// ================================
+
+export type SupplierKind = 'supplier' | 'manufacturer';
+
+export interface Supplier {
+  id: string;
+  name: string;
+  kind: SupplierKind;
+  phone?: string;
+  email?: string;
+  address?: string;
+  taxNumber?: string;
+  notes?: string;
+  balance: number; // Amount we owe the supplier
+  isActive: boolean;
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+  createdBy: string;
+}
+
+export type PurchaseOrderStatus = 'open' | 'partially_received' | 'received' | 'cancelled';
+
+export interface PurchaseOrderLine {
+  lineId: string;
+  type: VehicleType;
+  brand: string;
+  model: string;
+  brandId?: string; // Catalog brand/model when picked from the catalog
+  modelId?: string;
+  countryOfOrigin?: string;
+  quantity: number;
+  receivedQuantity: number;
+  unitCost: number;
+  salePrice: number; // Suggested sale price set on the received units
+}
+
+export interface PurchaseOrder {
+  id: string;
+  orderNumber: string;
+  supplierId: string;
+  supplierName: string;
+  warehouseId: string; // Default receiving warehouse
+  lines: PurchaseOrderLine[];
+  status: PurchaseOrderStatus;
+  totalAmount: number;
+  receivedAmount: number;
+  expectedDate?: Timestamp;
+  notes?: string;
+  createdAt: Timestamp;
+  createdBy: string;
+  updatedAt: Timestamp;
+  cancelledAt?: Timestamp;
+  cancelledBy?: string;
+}
+
+export interface GoodsReceiptLine {
+  lineId: string;
+  brand: string;
+  model: string;
+  quantity: number;
+  unitCost: number;
+  inventoryItemIds: string[];
+}
+
+// Goods-receipt note (GRN): the units received against a purchase order
+export interface GoodsReceipt {
+  id: string;
+  receiptNumber: string;
+  purchaseOrderId: string;
+  orderNumber: string;
+  supplierId: string;
+  supplierName: string;
+  warehouseId: string;
+  lines: GoodsReceiptLine[];
+  totalAmount: number;
+  entryTransactionId: string;
+  notes?: string;
+  createdAt: Timestamp;
+  createdBy: string;
+}
+
+export type SupplierLedgerEntryType = 'receipt' | 'payment';
+
+export interface SupplierLedgerEntry {
+  id: string;
+  supplierId: string;
+  type: SupplierLedgerEntryType; // Receipts increase the balance owed, payments reduce it
+  amount: number;
+  balanceAfter: number;
+  reference: string; // GRN or payment voucher number
+  description: string;
+  paymentMethod?: PaymentMethod;
+  goodsReceiptId?: string;
+  createdAt: Timestamp;
+  createdBy: string;
+}
+
+export type LandedCostCategory = 'freight' | 'customs' | 'registration' | 'other';
+export type LandedCostAllocationMethod = 'equal' | 'value' | 'quantity';
+
+export interface LandedCostCharge {
+  category: LandedCostCategory;
+  amount: number;
+  notes?: string;
+}
+
+export interface LandedCostAllocation {
+  inventoryItemId: string;
+  chassisNumber: string;
+  brand: string;
+  model: string;
+  supplierPrice: number;
+  previousCost: number;
+  allocatedAmount: number;
+  newCost: number;
+}
+
+// Landed-cost voucher: a shipment's extra costs spread onto its units' cost basis
+export interface LandedCostVoucher {
+  id: string;
+  voucherNumber: string;
+  description: string;
+  goodsReceiptId?: string;
+  entryTransactionId?: string;
+  charges: LandedCostCharge[];
+  allocationMethod: LandedCostAllocationMethod;
+  allocations: LandedCostAllocation[];
+  totalAmount: number;
+  createdAt: Timestamp;
+  createdBy: string;
+}
 
 // ================================
 // Transaction Management Types
@@ -128,7 +461,8 @@ export type TransactionType =
   | 'sale_to_customer'     // بيع للعميل النهائي
   | 'agent_invoice'        // فاتورة بضاعة للوكيل
   | 'payment_receipt'      // سند قبض من وكيل
-  | 'return';              // مرتجع
+  | 'return'               // مرتجع
+  | 'stock_adjustment';    // تسوية جرد
 
 export interface TransactionItem {
   inventoryItemId: string;
@@ -178,6 +512,19 @@ export interface CustomerDetails {
   idCardBackImageUrl: string;
 }
 
+// Customer exempted from VAT (document id is the national ID)
+export interface TaxExemptCustomer {
+  id: string;
+  nationalId: string;
+  customerName: string;
+  certificateNumber: string;
+  reason?: string;
+  validUntil?: Timestamp;
+  active: boolean;
+  createdAt: Timestamp;
+  createdBy: string;
+}
+
 // ================================
 // Agent Management Types
 // ================================
@@ -196,8 +543,12 @@ export interface Agent {
   warehouseId: string;
   
   // Financial tracking
-  currentBalance: number; // Current debt/credit balance (variable)
+  currentBalance: number; // Negative is debt; derived from the agent_receivable ledger and only written when posting
+  lastJournalEntryId?: string; // Entry that last moved currentBalance
+  ledgerStartedAt?: Timestamp; // Balance before this date was carried into the ledger as an opening entry
   commissionRate?: number; // Commission percentage for this agent
+  creditLimit?: number; // Maximum debt before new stock is blocked; unset or 0 means no limit
+  maxOverdueDays?: number; // Age of the oldest unpaid debt before new stock is blocked; unset or 0 means no limit
   notes?: string; // Additional notes about the agent
   
   // Status
@@ -208,6 +559,63 @@ export interface Agent {
   createdBy: string;
 }
 
+export type AgentCreditStatus = 'ok' | 'warning' | 'blocked';
+export type AgentCreditOverrideSource = 'transfer_note' | 'offline_transfer';
+
+// Super admin decision to send stock to an agent past the credit limit or overdue age
+export interface AgentCreditOverride {
+  id: string;
+  agentId: string;
+  agentName: string;
+  source: AgentCreditOverrideSource;
+  referenceId?: string; // Transfer note the override let through
+  reference?: string;
+  amount: number; // Debt the blocked operation adds
+  projectedDebt: number;
+  creditLimit?: number;
+  overdueDays: number;
+  maxOverdueDays?: number;
+  blockReasons: string[];
+  reason: string;
+  overriddenBy: string;
+  overriddenByName?: string;
+  createdAt: Timestamp;
+}
+
+export type StockReturnStatus = 'pending' | 'approved' | 'rejected' | 'cancelled';
+
+export interface StockReturnItem {
+  inventoryItemId: string;
+  motorFingerprint: string;
+  chassisNumber: string;
+  brand: string;
+  model: string;
+  color: string;
+  chargedPrice: number; // Price the agent's debt was charged when the unit was transferred
+  transferNoteNumber?: string; // Transfer that charged that price
+  conditionNotes?: string;
+  photoUrls: string[];
+}
+
+// Agent request to send unsold units back to the company, credited at the price originally charged
+export interface StockReturnRequest {
+  id: string;
+  returnNumber?: string; // Allocated when approved
+  agentId: string;
+  agentName: string;
+  fromWarehouseId: string;
+  toWarehouseId?: string; // Company warehouse chosen on approval
+  items: StockReturnItem[];
+  totalCredit: number;
+  status: StockReturnStatus;
+  notes?: string;
+  requestedAt: Timestamp;
+  requestedBy: string;
+  decidedAt?: Timestamp;
+  decidedBy?: string;
+  decisionNotes?: string;
+}
+
 export interface AgentAccount {
   agentId: string;
   
@@ -289,8 +697,24 @@ export interface Sale {
   agentName: string;
   items: SaleItem[];
   totalAmount: number;
+  // VAT breakdown (totalAmount is the gross amount including tax)
+  subtotal?: number;
+  taxAmount?: number;
+  taxRate?: number;
+  taxMode?: 'inclusive' | 'exclusive';
+  taxExempt?: boolean;
+  // Discounts and the admin approval for prices below the floor
+  invoiceDiscount?: Discount;
+  totalDiscount?: number;
+  priceApproval?: PriceApprovalDecision;
+  // Used vehicle credited against the invoice
+  tradeIn?: TradeIn;
   totalCommission: number;
-  status: 'pending' | 'completed' | 'cancelled';
+  status: 'pending' | 'completed' | 'cancelled' | 'returned' | 'partially_returned';
+  // Set when the sale is reversed by a customer return
+  returnId?: string;
+  returnReason?: string;
+  returnedAt?: Timestamp;
   createdAt: Timestamp;
   updatedAt: Timestamp;
   createdBy: string;
@@ -301,7 +725,66 @@ export interface SaleItem {
   motorFingerprint: string;
   chassisNumber: string;
   salePrice: number;
+  listPrice?: number;
+  discountAmount?: number;
+  netAmount?: number;
+  taxAmount?: number;
   commission: number;
+  // Set when this line is returned on its own from a multi-item invoice
+  returned?: boolean;
+  returnId?: string;
+}
+
+// ================================
+// General Ledger Types
+// ================================
+
+// Chart of accounts: agent balances are the agent_receivable sub-ledger, cached on agents.currentBalance
+export type LedgerAccountCode =
+  | 'cash'
+  | 'agent_receivable'
+  | 'inventory'
+  | 'tax_payable'
+  | 'opening_balance'
+  | 'sales_revenue'
+  | 'transfer_margin'
+  | 'cost_of_goods_sold'
+  | 'commission_expense'
+  | 'balance_adjustments';
+
+export type LedgerAccountType = 'asset' | 'liability' | 'equity' | 'revenue' | 'expense';
+
+export type JournalSource =
+  | 'agent_sale'
+  | 'sales_return'
+  | 'transfer_receipt'
+  | 'offline_transfer'
+  | 'stock_return'
+  | 'agent_payment'
+  | 'settlement'
+  | 'balance_adjustment'
+  | 'opening_balance';
+
+export interface JournalLine {
+  account: LedgerAccountCode;
+  agentId?: string; // Required on agent_receivable lines
+  debit: number;
+  credit: number;
+}
+
+// Balanced, immutable journal entry posted by a business event
+export interface JournalEntry {
+  id: string;
+  source: JournalSource;
+  sourceId?: string; // Sale, transfer note, return or payment document
+  reference?: string; // Printed document number when there is one
+  description: string;
+  lines: JournalLine[];
+  accounts: LedgerAccountCode[]; // For querying by account
+  agentIds: string[]; // For querying an agent's sub-ledger
+  totalAmount: number;
+  postedAt: Timestamp;
+  postedBy: string;
 }
 
 // Simple AgentTransaction interface
@@ -314,6 +797,8 @@ export interface AgentTransaction {
   saleId?: string;
   relatedSaleId?: string;
   transactionId?: string;
+  receiptNumber?: string; // Sequential receipt voucher number for payments
+  journalEntryId?: string; // Ledger entry that moved the balance
   previousBalance?: number;
   newBalance?: number;
   // Additional fields for sale transactions
@@ -357,7 +842,8 @@ export type DocumentStatus =
   | 'submitted_to_manufacturer' // تم إرسال البيانات للشركة المصنعة
   | 'received_from_manufacturer' // تم استلام الجواب من الشركة
   | 'sent_to_point_of_sale'     // تم إرسال الجواب لنقطة البيع
-  | 'completed';                // مكتمل
+  | 'completed'                 // مكتمل
+  | 'cancelled';                // ملغي (مرتجع)
 
 export interface DocumentStage {
   status: DocumentStatus;
@@ -366,6 +852,313 @@ export interface DocumentStage {
   notes?: string;
 }
 
+// ================================
+// Sales Return Types
+// ================================
+
+export type SaleSource = 'agent_sale' | 'company_sale';
+
+export interface SaleReturn {
+  id: string;
+  creditNoteNumber: string;
+  
+  // Original sale references (the sale itself is kept, marked as returned)
+  saleId: string;
+  saleSource: SaleSource;
+  documentTrackingId: string;
+  
+  // Returned item
+  inventoryItemId: string;
+  motorFingerprint: string;
+  chassisNumber: string;
+  brand: string;
+  model: string;
+  returnedToWarehouseId: string;
+  
+  // Customer
+  customerName: string;
+  customerNationalId?: string;
+  customerPhone?: string;
+  
+  // Financial reversal (refundAmount includes the reversed VAT)
+  refundAmount: number;
+  refundTaxAmount?: number;
+  agentId?: string;
+  reversedCompanyShare: number;
+  reversedAgentCommission: number;
+  
+  reason: string;
+  createdAt: Timestamp;
+  createdBy: string;
+}
+
+// ================================
+// Installment Types
+// ================================
+
+export type InstallmentStatus = 'pending' | 'partial' | 'paid';
+
+export type InstallmentPlanStatus = 'active' | 'completed' | 'cancelled';
+
+export interface InstallmentTerms {
+  downPayment: number;
+  months: number;
+  interestRate: number; // Flat markup percentage on the financed amount
+  firstDueDate: Date;
+}
+
+export interface Installment {
+  number: number;
+  dueDate: Timestamp;
+  amount: number;
+  paidAmount: number;
+  status: InstallmentStatus;
+  lastPaymentAt?: Timestamp;
+}
+
+export interface InstallmentPlanItem {
+  inventoryItemId: string;
+  motorFingerprint: string;
+  chassisNumber: string;
+  brand: string;
+  model: string;
+  salePrice: number;
+}
+
+export interface InstallmentPlan {
+  id: string;
+  contractNumber: string;
+
+  // Sale references
+  saleId: string;
+  saleSource: SaleSource;
+  invoiceNumber?: string;
+  documentTrackingId?: string;
+
+  // Items (one line per chassis on the invoice)
+  items: InstallmentPlanItem[];
+
+  // Customer
+  customerName: string;
+  customerNationalId: string;
+  customerPhone: string;
+  customerAddress?: string;
+
+  // Selling agent (agent sales only)
+  agentId?: string;
+  agentName?: string;
+
+  // Terms
+  salePrice: number; // Invoice total
+  downPayment: number;
+  financedAmount: number;
+  interestRate: number;
+  interestAmount: number;
+  totalPayable: number; // financedAmount + interestAmount
+  months: number;
+  installments: Installment[];
+
+  totalCollected: number;
+  status: InstallmentPlanStatus;
+  createdAt: Timestamp;
+  createdBy: string;
+  updatedAt?: Timestamp;
+}
+
+export interface InstallmentCollection {
+  id: string;
+  planId: string;
+  installmentNumber: number;
+  amount: number;
+  paymentMethod: PaymentMethod;
+  receiptNumber: string;
+  notes?: string;
+  collectedAt: Timestamp;
+  collectedBy: string;
+}
+
+// ================================
+// Reservation Types
+// ================================
+
+export type ReservationStatus = 'active' | 'converted' | 'expired' | 'cancelled';
+
+export interface ItemReservation {
+  id: string;
+  
+  // Reserved item
+  inventoryItemId: string;
+  motorFingerprint: string;
+  chassisNumber: string;
+  brand: string;
+  model: string;
+  warehouseId: string;
+  
+  // Customer
+  customerName: string;
+  customerPhone: string;
+  customerNationalId?: string;
+  
+  depositAmount: number;
+  expiresAt: Timestamp;
+  status: ReservationStatus;
+  notes?: string;
+  
+  // Set when the reservation is converted into a sale
+  saleId?: string;
+  saleSource?: SaleSource;
+  convertedAt?: Timestamp;
+  
+  // Set when the reservation lapses or is cancelled
+  expiredAt?: Timestamp;
+  cancelledAt?: Timestamp;
+  cancelledBy?: string;
+  
+  createdAt: Timestamp;
+  createdBy: string;
+  createdByName?: string;
+}
+
+// ================================
+// Stock Count Types
+// ================================
+
+export type StockCountStatus = 'in_progress' | 'posted' | 'cancelled';
+
+// Missing units are written off with one of these reasons, unexpected ones are relocated
+export type StockCountReason = 'lost' | 'damaged' | 'sold_unrecorded' | 'misplaced' | 'other';
+
+export type StockCountAction = 'write_off' | 'relocate' | 'none';
+
+// Unit expected in the warehouse when the count started
+export interface StockCountExpectedItem {
+  inventoryItemId: string;
+  chassisNumber: string;
+  motorFingerprint: string;
+  brand: string;
+  model: string;
+  status: ItemStatus;
+  purchasePrice: number;
+}
+
+export interface StockCountScan {
+  value: string; // Normalized chassis number or motor fingerprint
+  inventoryItemId?: string; // Missing when the number is unknown to the system
+  currentWarehouseId?: string;
+  status?: ItemStatus;
+  brand?: string;
+  model?: string;
+  purchasePrice?: number;
+  scannedAt: Timestamp;
+  scannedBy: string;
+}
+
+export interface StockCountAdjustment {
+  inventoryItemId?: string;
+  value: string;
+  variance: 'missing' | 'unexpected';
+  action: StockCountAction;
+  reason?: StockCountReason;
+  notes?: string;
+}
+
+export interface StockCountSummary {
+  expected: number;
+  found: number;
+  missing: number;
+  unexpected: number;
+  missingValue: number; // Purchase cost of the missing units
+  writtenOff: number;
+  relocated: number;
+}
+
+export interface StockCount {
+  id: string;
+  warehouseId: string;
+  warehouseName: string;
+  status: StockCountStatus;
+  expectedItems: StockCountExpectedItem[];
+  scans: StockCountScan[];
+  
+  // Set when the count is posted
+  adjustments?: StockCountAdjustment[];
+  summary?: StockCountSummary;
+  adjustmentTransactionId?: string;
+  postedAt?: Timestamp;
+  postedBy?: string;
+  
+  startedAt: Timestamp;
+  startedBy: string;
+  startedByName?: string;
+}
+
+// ================================
+// Pricing Types
+// ================================
+
+export type DiscountType = 'amount' | 'percent';
+
+export interface Discount {
+  type: DiscountType;
+  value: number;
+}
+
+// Minimum sale price for every unit of a brand/model
+export interface PriceFloor {
+  id: string; // "<brand> <model>"
+  brand: string;
+  model: string;
+  minimumPrice: number;
+  updatedAt: Timestamp;
+  updatedBy: string;
+}
+
+export type PriceApprovalStatus = 'pending' | 'approved' | 'rejected' | 'used';
+
+export interface PriceApprovalLine {
+  inventoryItemId: string;
+  chassisNumber: string;
+  brand: string;
+  model: string;
+  listPrice: number;
+  lineDiscount: number;
+  invoiceDiscountShare: number;
+  finalPrice: number;
+  floorPrice: number;
+}
+
+export interface PriceApprovalDecision {
+  requestId: string;
+  decidedBy: string;
+  decidedByName: string;
+  decidedAt: Timestamp;
+  notes?: string;
+}
+
+export interface PriceApprovalRequest {
+  id: string;
+  status: PriceApprovalStatus;
+  warehouseId: string;
+  customerName: string;
+  lines: PriceApprovalLine[];
+  totalAmount: number;
+  reason: string;
+  
+  requestedBy: string;
+  requestedByName: string;
+  createdAt: Timestamp;
+  
+  // Set by the approving admin
+  decidedBy?: string;
+  decidedByName?: string;
+  decidedAt?: Timestamp;
+  decisionNotes?: string;
+  
+  // Set when the approved prices are used on a sale
+  saleId?: string;
+  usedAt?: Timestamp;
+}
+
 // ================================
 // Notification Types
 // ================================
@@ -445,6 +1238,11 @@ export interface LowStockWarning {
   itemType: VehicleType;
   currentStock: number;
   recommendedMinimum: number;
+  recommendedMaximum?: number;
+  reorderQuantity?: number; // Units needed to get back to the maximum
+  reorderLevelId?: string;
+  brand?: string; // Set for model-level warnings
+  model?: string;
 }
 
 // ================================
@@ -460,7 +1258,7 @@ export interface SystemConfig {
   
   // Business settings
   defaultCommissionPercentage: number;
-  lowStockThreshold: number;
+  lowStockThreshold: number; // Legacy global threshold, replaced by reorder_levels
   
   // Notification settings
   enablePushNotifications: boolean;
@@ -499,6 +1297,8 @@ export interface CreateInventoryItemForm {
   color: string;
   brand: string;
   countryOfOrigin: string;
+  brandId?: string; // Set when picked from the vehicle catalog
+  modelId?: string;
   manufacturingYear: number;
   purchasePrice: number;
   salePrice: number;
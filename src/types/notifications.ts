@@ -9,6 +9,7 @@ export type NotificationType =
   | 'system_alert'
   | 'user_action'
   | 'report_generated'
+  | 'reservation_expired'
 
 export type NotificationPriority = 'low' | 'medium' | 'high' | 'urgent'
 
@@ -1,5 +1,11 @@
 import { Timestamp } from 'firebase/firestore'
 
+// Document series with their own sequential, per-year numbering
+export type DocumentSeries = 'sales_invoice' | 'agent_invoice' | 'receipt_voucher' | 'credit_note' | 'transfer_note' | 'purchase_order' | 'goods_receipt' | 'payment_voucher' | 'landed_cost' | 'stock_return' | 'installment_contract'
+
+// Whether entered sale prices already include VAT or have it added on top
+export type TaxMode = 'inclusive' | 'exclusive'
+
 export interface SystemSettings {
   id: string
   
@@ -21,10 +27,12 @@ export interface SystemSettings {
     currency: string
     currencySymbol: string
     taxRate: number // percentage
+    taxMode?: TaxMode // Default pricing mode for new invoices
     defaultCommissionRate: number // percentage for agents
     lowStockThreshold: number
     autoGenerateIds: boolean
     idPrefix: string
+    documentPrefixes?: Partial<Record<DocumentSeries, string>> // Overrides the default prefix per series
   }
   
   // Notification Settings
@@ -112,6 +120,26 @@ export interface SystemSettings {
         }
       }
     }
+    
+    // Egyptian Tax Authority e-invoicing (client credentials are held by the submitEtaDocuments Cloud Function)
+    eta?: {
+      enabled: boolean
+      branchId: string
+      activityCode: string // taxpayerActivityCode
+      address: {
+        country: string
+        governate: string
+        regionCity: string
+        street: string
+        buildingNumber: string
+      }
+      itemType: 'EGS' | 'GS1'
+      defaultItemCode: string
+      itemCodes?: Record<string, string> // Keyed by "brand model"
+      documentTypeVersion: '0.9' | '1.0' // 1.0 requires a signature
+      identityUrl: string
+      apiBaseUrl: string
+    }
   }
   
   // UI Settings
@@ -239,6 +267,7 @@ export const DEFAULT_SYSTEM_SETTINGS: Omit<SystemSettings, 'id' | 'createdAt' |
     currency: 'EGP',
     currencySymbol: 'ج.م',
     taxRate: 14,
+    taxMode: 'inclusive',
     defaultCommissionRate: 10,
     lowStockThreshold: 5,
     autoGenerateIds: true,
@@ -292,6 +321,25 @@ export const DEFAULT_SYSTEM_SETTINGS: Omit<SystemSettings, 'id' | 'createdAt' |
     payment: {
       enabled: false,
       providers: {}
+    },
+    
+    eta: {
+      enabled: false,
+      branchId: '0',
+      activityCode: '4541', // Sale of motorcycles and related parts
+      address: {
+        country: 'EG',
+        governate: 'Cairo',
+        regionCity: 'Cairo',
+        street: '',
+        buildingNumber: '0'
+      },
+      itemType: 'EGS',
+      defaultItemCode: '',
+      // بدون توقيع إلكتروني حتى تربط أداة التوقيع
+      documentTypeVersion: '0.9',
+      identityUrl: 'https://id.preprod.eta.gov.eg',
+      apiBaseUrl: 'https://api.preprod.invoicing.eta.gov.eg'
     }
   },
   
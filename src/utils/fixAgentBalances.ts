@@ -1,111 +1,20 @@
-import { collection, getDocs, doc, updateDoc, query, where, orderBy } from 'firebase/firestore'
+import { collection, getDocs, doc, updateDoc, query, where } from 'firebase/firestore'
 import { db } from '@/firebase/firebase-config.template'
+import { GeneralLedgerService } from '@/lib/generalLedger'
 
 /**
- * إصلاح أرصدة الوكلاء بناءً على معاملاتهم الفعلية
+ * إصلاح أرصدة الوكلاء من دفتر الأستاذ: الرصيد لا يعاد حسابه من المعاملات بل يشتق من القيود
  */
-export async function fixAgentBalances() {
-  console.log('🔧 بدء إصلاح أرصدة الوكلاء...')
+export async function fixAgentBalances(userId = 'system') {
+  console.log('🔧 بدء مطابقة أرصدة الوكلاء مع دفتر الأستاذ...')
   
-  try {
-    // جلب جميع الوكلاء
-    const agentsSnapshot = await getDocs(collection(db, 'agents'))
-    const agents = agentsSnapshot.docs.map(doc => ({
-      id: doc.id,
-      ...doc.data()
-    }))
-    
-    console.log(`📊 تم العثور على ${agents.length} وكيل`)
-    
-    for (const agent of agents) {
-      console.log(`\n🔍 معالجة الوكيل: ${agent.name} (${agent.id})`)
-      
-      // جلب جميع معاملات الوكيل
-      const transactionsQuery = query(
-        collection(db, 'agent_transactions'),
-        where('agentId', '==', agent.id),
-        orderBy('createdAt', 'asc')
-      )
-      
-      const transactionsSnapshot = await getDocs(transactionsQuery)
-      const transactions = transactionsSnapshot.docs.map(doc => ({
-        id: doc.id,
-        ...doc.data()
-      }))
-      
-      console.log(`📋 تم العثور على ${transactions.length} معاملة`)
-      
-      // حساب الرصيد الصحيح
-      let calculatedBalance = 0
-      
-      for (const transaction of transactions) {
-        const amount = Number(transaction.amount) || 0
-        
-        switch (transaction.type) {
-          case 'commission':
-            // العمولة تُضاف للرصيد (إيجابي للوكيل)
-            calculatedBalance += amount
-            console.log(`  ✅ عمولة: +${amount} = ${calculatedBalance}`)
-            break
-            
-          case 'debt':
-          case 'debt_increase':
-            // المديونية تُخصم من الرصيد (سالب للوكيل)
-            calculatedBalance -= Math.abs(amount)
-            console.log(`  ❌ مديونية: -${Math.abs(amount)} = ${calculatedBalance}`)
-            break
-            
-          case 'payment':
-          case 'debt_decrease':
-            // الدفع يُضاف للرصيد (يقلل المديونية)
-            calculatedBalance += Math.abs(amount)
-            console.log(`  💰 دفع: +${Math.abs(amount)} = ${calculatedBalance}`)
-            break
-            
-          case 'transfer_in':
-            // تحويل داخل (استلام بضاعة) - مديونية
-            calculatedBalance -= Math.abs(amount)
-            console.log(`  📦 تحويل داخل: -${Math.abs(amount)} = ${calculatedBalance}`)
-            break
-            
-          case 'transfer_out':
-            // تحويل خارج (إرسال بضاعة) - ائتمان
-            calculatedBalance += Math.abs(amount)
-            console.log(`  📤 تحويل خارج: +${Math.abs(amount)} = ${calculatedBalance}`)
-            break
-            
-          default:
-            console.log(`  ⚠️ نوع معاملة غير معروف: ${transaction.type}`)
-        }
-      }
-      
-      const currentBalance = Number(agent.currentBalance) || 0
-      
-      console.log(`📊 النتائج:`)
-      console.log(`  الرصيد الحالي: ${currentBalance}`)
-      console.log(`  الرصيد المحسوب: ${calculatedBalance}`)
-      console.log(`  الفرق: ${calculatedBalance - currentBalance}`)
-      
-      // تحديث الرصيد إذا كان مختلف
-      if (Math.abs(calculatedBalance - currentBalance) > 0.01) {
-        await updateDoc(doc(db, 'agents', agent.id), {
-          currentBalance: calculatedBalance,
-          updatedAt: new Date(),
-          balanceFixedAt: new Date()
-        })
-        
-        console.log(`✅ تم تحديث رصيد الوكيل ${agent.name} من ${currentBalance} إلى ${calculatedBalance}`)
-      } else {
-        console.log(`✅ رصيد الوكيل ${agent.name} صحيح`)
-      }
-    }
-    
-    console.log('\n🎉 تم إكمال إصلاح أرصدة الوكلاء بنجاح!')
-    
-  } catch (error) {
-    console.error('❌ خطأ في إصلاح أرصدة الوكلاء:', error)
-    throw error
+  const result = await GeneralLedgerService.reconcileAgentBalances(userId)
+  if (!result.success) {
+    console.error('❌ خطأ في إصلاح أرصدة الوكلاء:', result.error)
+    throw new Error(result.error)
   }
+  
+  console.log(`🎉 تم ترحيل ${result.opened} رصيد افتتاحي وتصحيح ${result.corrected} رصيد من الدفتر`)
 }
 
 /**
@@ -169,12 +78,12 @@ export async function fixAgentTotals() {
 /**
  * إصلاح شامل لجميع بيانات الوكلاء
  */
-export async function fixAllAgentData() {
+export async function fixAllAgentData(userId = 'system') {
   console.log('🚀 بدء الإصلاح الشامل لبيانات الوكلاء...')
   
   try {
     await fixAgentTotals()
-    await fixAgentBalances()
+    await fixAgentBalances(userId)
     
     console.log('🎉 تم إكمال الإصلاح الشامل بنجاح!')
     